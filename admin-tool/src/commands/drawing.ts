@@ -0,0 +1,788 @@
+// admin-tool/src/commands/drawing.ts
+//
+// Quarterly rewards drawings: commit a seed, freeze the entrant list, run the
+// draw with the NIST beacon pulse fixed by the freeze, disqualify winners
+// (promoting alternates) and verify a finished draw from its published seed,
+// beacon and entrant list. The draw itself runs in the database (see
+// supabase/migrations/rewards_drawings.sql and weighted_entries.sql); verify
+// recomputes it here from public data only. Free alternative-method entries are recorded with
+// free-entry. Entrants flagged by the eligibility scoring pass
+// (supabase/migrations/eligibility_flags.sql) are listed with flags for
+// review before the draw. Winners' prize claims
+// (supabase/migrations/prize_claims.sql) are tracked with fulfill and
+// forfeit-expired.
+
+import { supabaseAdmin } from '../client';
+import chalk from 'chalk';
+import { createHash, randomBytes } from 'crypto';
+import { ModeratorOptions, moderatorName } from './moderate';
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * 'sha256-ticket-v1': one ticket per entrant.
+ * 'sha256-weighted-v2': one ticket per earned entry (weighted_entries.sql).
+ */
+export type DrawAlgorithm = 'sha256-ticket-v1' | 'sha256-weighted-v2';
+
+/** A frozen entrant as published in drawing_entrant_tickets. */
+export interface Entrant {
+  entrantId: string;
+  entries: number;
+}
+
+/** How an entrant is published: sha256 of their user id. */
+export function entrantIdFor(userId: string): string {
+  return sha256(userId.toLowerCase());
+}
+
+/**
+ * sha256 of the entrant list in entrant id order, one per line: the entrant
+ * id for v1, "entrant_id:entries" for v2.
+ */
+export function entrantsHash(entrants: Entrant[], algorithm: DrawAlgorithm): string {
+  return sha256(
+    entrants
+      .map((e) => (algorithm === 'sha256-weighted-v2' ? `${e.entrantId}:${e.entries}` : e.entrantId))
+      .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+      .join('\n')
+  );
+}
+
+/**
+ * An entrant's ticket; entrants are drawn in ascending ticket order. With v2
+ * it's the lowest of their per-entry tickets.
+ */
+export function drawTicket(
+  seed: string,
+  beacon: string,
+  entrantsHashHex: string,
+  entrant: Entrant,
+  algorithm: DrawAlgorithm
+): string {
+  const prefix = `${seed}:${beacon.toLowerCase()}:${entrantsHashHex}:${entrant.entrantId}`;
+  if (algorithm !== 'sha256-weighted-v2') {
+    return sha256(prefix);
+  }
+  let best = '';
+  for (let k = 1; k <= entrant.entries; k++) {
+    const ticket = sha256(`${prefix}:${k}`);
+    if (!best || ticket < best) best = ticket;
+  }
+  return best;
+}
+
+/** Every entrant in draw order. */
+export function drawOrder(
+  seed: string,
+  beacon: string,
+  entrants: Entrant[],
+  algorithm: DrawAlgorithm
+): Array<{ entrantId: string; ticket: string }> {
+  const hash = entrantsHash(entrants, algorithm);
+  return entrants
+    .map((e) => ({ entrantId: e.entrantId, ticket: drawTicket(seed, beacon, hash, e, algorithm) }))
+    .sort((a, b) => (a.ticket < b.ticket ? -1 : a.ticket > b.ticket ? 1 : 0));
+}
+
+// ── NIST beacon ──
+
+const NIST_BEACON_URL = 'https://beacon.nist.gov/beacon/2.0/pulse/time';
+
+/** Where anyone can look up the pulse a drawing used. */
+export function beaconPulseUrl(pulseAt: string): string {
+  return `${NIST_BEACON_URL}/${new Date(pulseAt).getTime()}`;
+}
+
+/**
+ * The outputValue (lowercase hex) of the NIST Randomness Beacon pulse at
+ * `pulseAt`. Throws when NIST can't be reached or hasn't emitted it yet.
+ */
+export async function fetchBeacon(pulseAt: string): Promise<string> {
+  const response = await fetch(beaconPulseUrl(pulseAt));
+  if (!response.ok) {
+    throw new Error(`NIST beacon returned HTTP ${response.status} for the pulse at ${pulseAt}`);
+  }
+  const body = (await response.json()) as { pulse?: { timeStamp?: string; outputValue?: string } };
+  const pulse = body.pulse;
+  if (!pulse?.outputValue || new Date(pulse.timeStamp ?? '').getTime() !== new Date(pulseAt).getTime()) {
+    throw new Error(`NIST has not emitted the pulse at ${pulseAt} yet`);
+  }
+  return pulse.outputValue.toLowerCase();
+}
+
+// ── Rows ──
+
+interface NameRow {
+  first_name: string | null;
+  last_name: string | null;
+}
+
+interface DrawingRow {
+  id: string;
+  name: string;
+  end_date: string;
+  drawing_date: string;
+  number_of_winners: number | null;
+}
+
+interface DrawingResultRow {
+  drawing_id: string;
+  algorithm: DrawAlgorithm;
+  seed_hash: string;
+  committed_at: string;
+  entrants_hash: string | null;
+  entrant_count: number | null;
+  frozen_at: string | null;
+  beacon_pulse_at: string | null;
+  beacon: string | null;
+  seed: string | null;
+  drawn_at: string | null;
+}
+
+interface EntryRulesRow {
+  base_entries: number;
+  per_on_time_report: number;
+  per_photo_catch: number;
+  per_streak_week: number;
+  on_time_days: number;
+  max_entries: number;
+}
+
+interface WinnerRow {
+  draw_position: number;
+  user_id: string;
+  status: 'winner' | 'alternate' | 'disqualified';
+  place: number | null;
+  disqualified_reason: string | null;
+  users: (NameRow & { email: string | null }) | null;
+  prizes: { name: string; value: string | null } | null;
+}
+
+interface ClaimRow {
+  user_id: string;
+  status: 'pending' | 'claimed' | 'forfeited' | 'fulfilled';
+  deadline: string;
+  full_name: string | null;
+  email: string | null;
+  phone: string | null;
+  address_line1: string | null;
+  address_line2: string | null;
+  city: string | null;
+  state: string | null;
+  postal_code: string | null;
+}
+
+// calculate_drawing_entries (weighted_entries.sql)
+interface EntryCountRow {
+  is_entered: boolean;
+  base_entries: number;
+  on_time_reports: number;
+  on_time_entries: number;
+  photo_catches: number;
+  photo_entries: number;
+  streak_weeks: number;
+  streak_entries: number;
+  free_entry_requests: number;
+  free_entries: number;
+  max_entries: number;
+  total_entries: number;
+}
+
+/** One reason an entrant was flagged (score_drawing_eligibility). */
+export interface EligibilityFlag {
+  code: string;
+  weight: number;
+  detail: string;
+  /** Other accounts sharing the device or phone */
+  users?: string[];
+}
+
+/** An entrant's eligibility score: the sum of their flags' weights. */
+export interface EligibilityScore {
+  user_id: string;
+  score: number;
+  flags: EligibilityFlag[];
+}
+
+interface AuditLogRow {
+  action: string;
+  actor: string;
+  user_id: string | null;
+  details: unknown;
+  created_at: string;
+}
+
+interface PublishedTicketRow {
+  entrant_id: string;
+  entries: number;
+  draw_position: number | null;
+  ticket: string | null;
+}
+
+function anglerName(user: NameRow | null): string {
+  if (!user) return 'unknown';
+  return `${user.first_name || '?'} ${user.last_name ? `${user.last_name.charAt(0)}.` : ''}`.trim();
+}
+
+async function loadDrawing(drawingId: string): Promise<DrawingRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('rewards_drawings')
+    .select('id, name, end_date, drawing_date, number_of_winners')
+    .eq('id', drawingId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(chalk.red('Error:'), error.message);
+    return null;
+  }
+  if (!data) {
+    console.log(chalk.yellow(`No drawing with id ${drawingId}.`));
+    return null;
+  }
+  return data as DrawingRow;
+}
+
+async function printWinners(drawingId: string): Promise<void> {
+  const [{ data, error }, { data: claims }] = await Promise.all([
+    supabaseAdmin
+      .from('drawing_winners')
+      .select('draw_position, user_id, status, place, disqualified_reason, users:user_id (first_name, last_name, email), prizes:prize_id (name, value)')
+      .eq('drawing_id', drawingId)
+      .order('draw_position', { ascending: true }),
+    supabaseAdmin
+      .from('prize_claims')
+      .select('user_id, status, deadline, full_name, email, phone, address_line1, address_line2, city, state, postal_code')
+      .eq('drawing_id', drawingId),
+  ]);
+
+  if (error) {
+    console.error(chalk.red('Error loading winners:'), error.message);
+    return;
+  }
+  const claimByUser = new Map(((claims ?? []) as ClaimRow[]).map((c) => [c.user_id, c]));
+
+  console.log(chalk.bold.white(`\n  Drawn (${data?.length ?? 0})`));
+  for (const w of (data ?? []) as unknown as WinnerRow[]) {
+    const status =
+      w.status === 'winner'
+        ? chalk.green(`winner #${w.place}`)
+        : w.status === 'alternate'
+        ? chalk.blue('alternate')
+        : chalk.red(`disqualified${w.disqualified_reason ? ` (${w.disqualified_reason})` : ''}`);
+    const prize = w.prizes ? chalk.dim(`  ${w.prizes.name} ${w.prizes.value ?? ''}`.trimEnd()) : '';
+    console.log(
+      `    ${String(w.draw_position).padStart(3)}  ${status.padEnd(24)} ${anglerName(w.users).padEnd(12)} ` +
+        `${chalk.dim(w.user_id)}${w.users?.email ? chalk.dim(`  ${w.users.email}`) : ''}${prize}`
+    );
+
+    const claim = claimByUser.get(w.user_id);
+    if (claim) {
+      const claimStatus =
+        claim.status === 'pending'
+          ? chalk.yellow(`claim pending until ${claim.deadline}`)
+          : claim.status === 'forfeited'
+          ? chalk.red('claim forfeited')
+          : chalk.green(`claim ${claim.status}`);
+      console.log(`         ${claimStatus}`);
+      if (claim.full_name) {
+        const address = [claim.address_line1, claim.address_line2, claim.city, claim.state, claim.postal_code]
+          .filter(Boolean)
+          .join(', ');
+        console.log(chalk.dim(`         ${claim.full_name}  ${claim.email}  ${claim.phone}`));
+        console.log(chalk.dim(`         ${address}`));
+      }
+    }
+  }
+}
+
+// ── Commit ──
+
+export async function commitSeed(drawingId: string, options: ModeratorOptions): Promise<void> {
+  const drawing = await loadDrawing(drawingId);
+  if (!drawing) return;
+
+  const seed = randomBytes(32).toString('hex');
+  const seedHash = sha256(seed);
+
+  const { error } = await supabaseAdmin.rpc('commit_drawing_seed', {
+    p_drawing_id: drawingId,
+    p_seed_hash: seedHash,
+    p_actor: moderatorName(options),
+  });
+
+  if (error) {
+    console.error(chalk.red('Error:'), error.message);
+    return;
+  }
+
+  console.log(chalk.green(`\nCommitted a seed for ${drawing.name}`));
+  console.log(`  Seed hash (publish now): ${chalk.bold(seedHash)}`);
+  console.log(`  Seed (keep secret until the draw): ${chalk.bold.yellow(seed)}`);
+  console.log(chalk.dim('\n  The seed is not stored anywhere. Without it the drawing cannot be run.\n'));
+}
+
+// ── Freeze ──
+
+export async function freezeEntrants(drawingId: string, options: ModeratorOptions): Promise<void> {
+  const drawing = await loadDrawing(drawingId);
+  if (!drawing) return;
+
+  const { data, error } = await supabaseAdmin.rpc('freeze_drawing_entrants', {
+    p_drawing_id: drawingId,
+    p_actor: moderatorName(options),
+  });
+
+  if (error) {
+    console.error(chalk.red('Error:'), error.message);
+    return;
+  }
+
+  const result = data as DrawingResultRow;
+  const { data: entrants } = await supabaseAdmin
+    .from('drawing_entrants')
+    .select('entries')
+    .eq('drawing_id', drawingId);
+  const totalEntries = ((entrants ?? []) as Array<{ entries: number }>).reduce((sum, e) => sum + e.entries, 0);
+
+  console.log(chalk.green(`\nFroze ${result.entrant_count} entrant(s) with ${totalEntries} entries for ${drawing.name}`));
+  console.log(`  Algorithm:     ${result.algorithm}`);
+  console.log(`  Entrants hash: ${chalk.bold(result.entrants_hash)}`);
+  if (result.beacon_pulse_at) {
+    console.log(`  Beacon pulse:  ${chalk.bold(result.beacon_pulse_at)} ${chalk.dim(beaconPulseUrl(result.beacon_pulse_at))}`);
+  }
+
+  const { data: scores } = await supabaseAdmin.rpc('score_drawing_eligibility', { p_drawing_id: drawingId });
+  const flagged = flaggedEntrants((scores ?? []) as EligibilityScore[]);
+  if (flagged.length > 0) {
+    console.log(
+      chalk.yellow(`\n  ${flagged.length} entrant(s) flagged. Review with: drawing flags ${drawingId}`)
+    );
+  }
+  console.log(chalk.dim(`\n  Next, once the beacon pulse is out: drawing run ${drawingId} --seed <seed>\n`));
+}
+
+// ── Run ──
+
+export async function runDrawing(
+  drawingId: string,
+  options: ModeratorOptions & { seed: string; beacon?: string; alternates?: number }
+): Promise<void> {
+  const drawing = await loadDrawing(drawingId);
+  if (!drawing) return;
+
+  const { data: result, error: resultError } = await supabaseAdmin
+    .from('drawing_results')
+    .select('beacon_pulse_at')
+    .eq('drawing_id', drawingId)
+    .maybeSingle();
+  if (resultError) {
+    console.error(chalk.red('Error:'), resultError.message);
+    return;
+  }
+  if (!result?.beacon_pulse_at) {
+    console.error(chalk.red('Error:'), `Entrants for drawing ${drawingId} are not frozen yet`);
+    return;
+  }
+
+  let beacon = options.beacon;
+  if (!beacon) {
+    try {
+      beacon = await fetchBeacon(result.beacon_pulse_at);
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      console.error(chalk.dim(`  Look it up at ${beaconPulseUrl(result.beacon_pulse_at)} and pass --beacon <outputValue>.`));
+      return;
+    }
+  }
+
+  const { error } = await supabaseAdmin.rpc('run_rewards_drawing', {
+    p_drawing_id: drawingId,
+    p_seed: options.seed,
+    p_beacon: beacon,
+    p_actor: moderatorName(options),
+    p_alternates: options.alternates ?? null,
+  });
+
+  if (error) {
+    console.error(chalk.red('Error:'), error.message);
+    return;
+  }
+
+  console.log(chalk.green(`\nDrew ${drawing.name}`));
+  await printWinners(drawingId);
+  console.log(chalk.dim(`\n  Publish the seed so entrants can check the draw: ${options.seed}\n`));
+}
+
+// ── Disqualify ──
+
+export async function disqualifyWinner(
+  drawingId: string,
+  userId: string,
+  options: ModeratorOptions
+): Promise<void> {
+  if (!options.note) {
+    console.error(chalk.red('A reason is required (--note).'));
+    return;
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('disqualify_drawing_winner', {
+    p_drawing_id: drawingId,
+    p_user_id: userId,
+    p_reason: options.note,
+    p_actor: moderatorName(options),
+  });
+
+  if (error) {
+    console.error(chalk.red('Error:'), error.message);
+    return;
+  }
+
+  console.log(chalk.green(`Disqualified ${userId}`));
+  const promoted = ((data ?? []) as Array<Pick<WinnerRow, 'user_id' | 'place'>>)[0];
+  if (promoted) {
+    console.log(`  Promoted alternate ${promoted.user_id} to winner #${promoted.place}`);
+  } else {
+    console.log(chalk.yellow('  No alternate promoted.'));
+  }
+}
+
+// ── Free entries ──
+
+/**
+ * Record a free alternative-method entry (web form or mail-in) and enter the
+ * member in the drawing, even if they opted out of it earlier. Each one is
+ * worth the same as the base entry.
+ */
+export async function recordFreeEntry(
+  drawingId: string,
+  userId: string,
+  options: ModeratorOptions & { source: string; received?: string }
+): Promise<void> {
+  if (options.source !== 'web' && options.source !== 'email') {
+    console.error(chalk.red('Source must be web or email.'));
+    return;
+  }
+  const drawing = await loadDrawing(drawingId);
+  if (!drawing) return;
+
+  const receivedAt = options.received ? new Date(options.received) : new Date();
+  if (isNaN(receivedAt.getTime())) {
+    console.error(chalk.red(`Invalid --received date: ${options.received}`));
+    return;
+  }
+
+  const { error } = await supabaseAdmin.from('drawing_free_entries').insert({
+    drawing_id: drawingId,
+    user_id: userId,
+    source: options.source,
+    received_at: receivedAt.toISOString(),
+    recorded_by: moderatorName(options),
+    note: options.note ?? null,
+  });
+  if (error) {
+    console.error(chalk.red('Error:'), error.message);
+    return;
+  }
+
+  // Overwrites an existing row so a member who opted out is entered again
+  const { error: entryError } = await supabaseAdmin.from('user_rewards_entries').upsert(
+    {
+      user_id: userId,
+      drawing_id: drawingId,
+      is_entered: true,
+      entry_method: options.source,
+      entered_at: receivedAt.toISOString(),
+    },
+    { onConflict: 'user_id,drawing_id' }
+  );
+  if (entryError) {
+    console.error(chalk.red('Error entering member:'), entryError.message);
+    return;
+  }
+
+  console.log(chalk.green(`Recorded a free ${options.source} entry for ${userId} in ${drawing.name}`));
+  await printEntries(drawingId, userId);
+}
+
+/** A member's current entry count and how it was earned. */
+export async function printEntries(drawingId: string, userId: string): Promise<void> {
+  const { data, error } = await supabaseAdmin.rpc('calculate_drawing_entries', {
+    p_drawing_id: drawingId,
+    p_user_id: userId,
+  });
+  if (error) {
+    console.error(chalk.red('Error:'), error.message);
+    return;
+  }
+
+  const c = ((data ?? []) as EntryCountRow[])[0];
+  if (!c || !c.is_entered) {
+    console.log(chalk.yellow(`  ${userId} is not entered.`));
+    return;
+  }
+  console.log(`  Entries: ${chalk.bold(c.total_entries)}${c.total_entries === c.max_entries ? chalk.dim(' (capped)') : ''}`);
+  console.log(chalk.dim(`    base ${c.base_entries}`));
+  console.log(chalk.dim(`    on-time DMF reports ${c.on_time_reports} → ${c.on_time_entries}`));
+  console.log(chalk.dim(`    photo catches ${c.photo_catches} → ${c.photo_entries}`));
+  console.log(chalk.dim(`    streak weeks ${c.streak_weeks} → ${c.streak_entries}`));
+  console.log(chalk.dim(`    free entries ${c.free_entry_requests} → ${c.free_entries}`));
+}
+
+// ── Eligibility flags ──
+
+/** Scores at or above this are shown in red. */
+export const HIGH_RISK_SCORE = 3;
+
+/**
+ * Entrants scoring at least `minScore`, highest score first (ties by user
+ * id, as score_drawing_eligibility orders them).
+ */
+export function flaggedEntrants(scores: EligibilityScore[], minScore = 1): EligibilityScore[] {
+  return scores
+    .filter((s) => s.score >= minScore)
+    .sort((a, b) => b.score - a.score || (a.user_id < b.user_id ? -1 : a.user_id > b.user_id ? 1 : 0));
+}
+
+/**
+ * List entrants whose reports or accounts look suspicious, highest score
+ * first, so they can be checked before winners are picked.
+ */
+export async function listFlaggedEntrants(drawingId: string, options: { minScore?: number }): Promise<void> {
+  const drawing = await loadDrawing(drawingId);
+  if (!drawing) return;
+
+  const { data, error } = await supabaseAdmin.rpc('score_drawing_eligibility', { p_drawing_id: drawingId });
+  if (error) {
+    console.error(chalk.red('Error:'), error.message);
+    return;
+  }
+
+  const minScore = options.minScore ?? 1;
+  const flagged = flaggedEntrants((data ?? []) as EligibilityScore[], minScore);
+
+  console.log(chalk.cyan(`\n=== Flagged entrants: ${drawing.name} ===\n`));
+  if (flagged.length === 0) {
+    console.log(chalk.green(`  No entrants scored ${minScore} or more.\n`));
+    return;
+  }
+
+  const { data: users } = await supabaseAdmin
+    .from('users')
+    .select('id, first_name, last_name, email')
+    .in('id', flagged.map((f) => f.user_id));
+  const userById = new Map(
+    ((users ?? []) as Array<NameRow & { id: string; email: string | null }>).map((u) => [u.id, u])
+  );
+
+  for (const f of flagged) {
+    const user = userById.get(f.user_id) ?? null;
+    const score = String(f.score).padStart(3);
+    console.log(
+      `  ${f.score >= HIGH_RISK_SCORE ? chalk.red(score) : chalk.yellow(score)}  ${anglerName(user).padEnd(12)} ${chalk.dim(f.user_id)}` +
+        `${user?.email ? chalk.dim(`  ${user.email}`) : ''}`
+    );
+    for (const flag of f.flags) {
+      const others = flag.users ? chalk.dim(`  ${flag.users.join(', ')}`) : '';
+      console.log(`       ${flag.code.padEnd(18)} ${flag.detail}${others}`);
+    }
+  }
+  console.log(chalk.dim(`\n  ${flagged.length} flagged. Check their reports before: drawing run ${drawingId}\n`));
+}
+
+// ── Claims ──
+
+export async function fulfillClaim(
+  drawingId: string,
+  userId: string,
+  options: ModeratorOptions
+): Promise<void> {
+  const { data, error } = await supabaseAdmin
+    .from('prize_claims')
+    .update({
+      status: 'fulfilled',
+      fulfilled_at: new Date().toISOString(),
+      fulfillment_note: options.note ?? null,
+    })
+    .eq('drawing_id', drawingId)
+    .eq('user_id', userId)
+    .eq('status', 'claimed')
+    .select('user_id');
+
+  if (error) {
+    console.error(chalk.red('Error:'), error.message);
+    return;
+  }
+  if (!data || data.length === 0) {
+    console.log(chalk.yellow(`No claimed prize for ${userId} in drawing ${drawingId}.`));
+    return;
+  }
+  console.log(chalk.green(`Marked the prize for ${userId} as fulfilled`));
+}
+
+/**
+ * Disqualify every winner whose claim deadline has passed, promoting the
+ * next alternate for each.
+ */
+export async function forfeitExpiredClaims(drawingId: string, options: ModeratorOptions): Promise<void> {
+  const { data, error } = await supabaseAdmin
+    .from('prize_claims')
+    .select('user_id, deadline')
+    .eq('drawing_id', drawingId)
+    .eq('status', 'pending')
+    .lt('deadline', new Date().toISOString());
+
+  if (error) {
+    console.error(chalk.red('Error:'), error.message);
+    return;
+  }
+  if (!data || data.length === 0) {
+    console.log(chalk.green('No expired claims.'));
+    return;
+  }
+
+  for (const claim of data as Array<Pick<ClaimRow, 'user_id' | 'deadline'>>) {
+    await disqualifyWinner(drawingId, claim.user_id, {
+      ...options,
+      note: `Prize not claimed by ${claim.deadline}`,
+    });
+  }
+}
+
+// ── Show ──
+
+export async function showDrawing(drawingId: string): Promise<void> {
+  const drawing = await loadDrawing(drawingId);
+  if (!drawing) return;
+
+  console.log(chalk.cyan(`\n=== ${drawing.name} ===\n`));
+  console.log(`  Entries close:  ${drawing.end_date}`);
+  console.log(`  Drawing date:   ${drawing.drawing_date}`);
+  console.log(`  Winners:        ${drawing.number_of_winners ?? 1}`);
+
+  const [{ data: resultData }, { data: rulesData }] = await Promise.all([
+    supabaseAdmin.from('drawing_results').select('*').eq('drawing_id', drawingId).maybeSingle(),
+    supabaseAdmin.from('drawing_entry_rules').select('*').eq('drawing_id', drawingId).maybeSingle(),
+  ]);
+  const result = resultData as DrawingResultRow | null;
+  const rules = rulesData as EntryRulesRow | null;
+
+  console.log(
+    `  Entry rules:    ${
+      rules
+        ? `base ${rules.base_entries}, +${rules.per_on_time_report}/on-time report ` +
+          `(within ${rules.on_time_days}d), +${rules.per_photo_catch}/photo catch, ` +
+          `+${rules.per_streak_week}/streak week, max ${rules.max_entries}`
+        : chalk.dim('one entry per entrant')
+    }`
+  );
+
+  if (!result) {
+    console.log(chalk.yellow('\n  No seed committed yet. Run: drawing commit ' + drawingId + '\n'));
+    return;
+  }
+
+  console.log(`  Algorithm:      ${result.algorithm}`);
+  console.log(`  Seed hash:      ${result.seed_hash} ${chalk.dim(`(${result.committed_at})`)}`);
+  console.log(
+    `  Entrants:       ${result.frozen_at ? `${result.entrant_count}  ${chalk.dim(result.entrants_hash)}` : chalk.yellow('not frozen')}`
+  );
+  if (result.beacon_pulse_at) {
+    console.log(`  Beacon pulse:   ${result.beacon_pulse_at}  ${chalk.dim(beaconPulseUrl(result.beacon_pulse_at))}`);
+  }
+  console.log(`  Beacon:         ${result.beacon ?? chalk.yellow('not drawn')}`);
+  console.log(`  Seed:           ${result.seed ?? chalk.yellow('not revealed')}`);
+
+  if (result.drawn_at) {
+    await printWinners(drawingId);
+  }
+
+  const { data: log } = await supabaseAdmin
+    .from('drawing_audit_log')
+    .select('action, actor, user_id, details, created_at')
+    .eq('drawing_id', drawingId)
+    .order('created_at', { ascending: true });
+
+  console.log(chalk.bold.white(`\n  Audit log (${log?.length ?? 0})`));
+  for (const a of (log ?? []) as AuditLogRow[]) {
+    console.log(
+      `    ${a.created_at}  ${a.action.padEnd(11)} ${a.user_id ? `${a.user_id}  ` : ''}` +
+        chalk.dim(`by ${a.actor}  ${JSON.stringify(a.details)}`)
+    );
+  }
+  console.log();
+}
+
+// ── Verify ──
+
+/**
+ * Recompute a finished draw from what's published: the seed, the beacon and
+ * the entrant list under entrant ids (drawing_entrant_tickets). The beacon is
+ * checked against NIST when it can be reached.
+ */
+export async function verifyDrawing(drawingId: string): Promise<void> {
+  console.log(chalk.cyan(`\n=== Verify drawing ${drawingId} ===\n`));
+
+  const { data, error } = await supabaseAdmin
+    .from('drawing_results')
+    .select('*')
+    .eq('drawing_id', drawingId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(chalk.red('Error:'), error.message);
+    return;
+  }
+  const result = data as DrawingResultRow | null;
+  if (!result?.seed || !result.beacon || !result.beacon_pulse_at || !result.frozen_at) {
+    console.log(chalk.yellow('  This drawing has not been drawn yet.'));
+    return;
+  }
+
+  const { data: rows } = await supabaseAdmin
+    .from('drawing_entrant_tickets')
+    .select('entrant_id, entries, draw_position, ticket')
+    .eq('drawing_id', drawingId);
+
+  const algorithm = result.algorithm;
+  const published = (rows ?? []) as PublishedTicketRow[];
+  const list: Entrant[] = published.map((e) => ({ entrantId: e.entrant_id, entries: e.entries }));
+  const checks: Array<[string, boolean]> = [
+    ['Seed matches the committed hash', sha256(result.seed) === result.seed_hash],
+    ['Beacon pulse comes after the freeze', new Date(result.beacon_pulse_at) > new Date(result.frozen_at)],
+    ['Entrant list matches the frozen hash', entrantsHash(list, algorithm) === result.entrants_hash],
+    ['Entrant count matches', list.length === result.entrant_count],
+  ];
+
+  try {
+    const beacon = await fetchBeacon(result.beacon_pulse_at);
+    checks.push([`Beacon matches the NIST pulse at ${result.beacon_pulse_at}`, beacon === result.beacon]);
+  } catch (err) {
+    console.log(chalk.yellow(`  ! Beacon not checked: ${(err as Error).message}`));
+    console.log(chalk.dim(`    Compare ${result.beacon} with ${beaconPulseUrl(result.beacon_pulse_at)}`));
+  }
+
+  const expected = drawOrder(result.seed, result.beacon, list, algorithm);
+  const recorded = published
+    .filter((e) => e.draw_position !== null)
+    .sort((a, b) => a.draw_position! - b.draw_position!);
+  const orderMatches = recorded.every(
+    (w) =>
+      expected[w.draw_position! - 1]?.entrantId === w.entrant_id &&
+      expected[w.draw_position! - 1]?.ticket === w.ticket
+  );
+  checks.push([`Draw order matches for ${recorded.length} drawn entrant(s)`, orderMatches]);
+
+  for (const [label, ok] of checks) {
+    console.log(`  ${ok ? chalk.green('✓') : chalk.red('✗')} ${label}`);
+  }
+
+  if (checks.every(([, ok]) => ok)) {
+    console.log(chalk.green('\n  Draw verified.\n'));
+  } else {
+    console.log(chalk.red('\n  Verification failed.\n'));
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,120 @@
+// admin-tool/src/commands/merge.ts
+//
+// Device merges: list the requests made when anglers sign in on a device with
+// history, with what each completed merge moved, and revert a merge from its
+// recorded summary (see supabase/migrations/device_merge.sql).
+
+import { supabaseAdmin } from '../client';
+import chalk from 'chalk';
+import { ModeratorOptions, moderatorName } from './moderate';
+
+// What a completed merge moved (and dropped), as recorded for revert. Only
+// the lists counted here are typed.
+interface MergeSummary {
+  reports?: unknown[];
+  anonymous_reports?: unknown[];
+  achievements?: unknown[];
+  entries?: unknown[];
+  dropped_entries?: unknown[];
+  free_entries?: unknown[];
+  follows?: unknown[];
+  dropped_follows?: unknown[];
+}
+
+interface MergeRequestRow {
+  id: string;
+  device_id: string;
+  email: string;
+  status: string;
+  source_user_id: string | null;
+  target_user_id: string | null;
+  created_at: string;
+  completed_at: string | null;
+  reverted_at: string | null;
+  reverted_by: string | null;
+  merge_summary: MergeSummary | null;
+}
+
+function count(summary: MergeSummary, key: keyof MergeSummary): number {
+  return summary[key]?.length ?? 0;
+}
+
+function statusLabel(status: string): string {
+  switch (status) {
+    case 'completed':
+      return chalk.green(status.padEnd(9));
+    case 'reverted':
+      return chalk.yellow(status.padEnd(9));
+    case 'pending':
+      return chalk.cyan(status.padEnd(9));
+    default:
+      return chalk.dim(status.padEnd(9));
+  }
+}
+
+export async function listMerges(options: { status?: string; limit: number }): Promise<void> {
+  let query = supabaseAdmin
+    .from('device_merge_requests')
+    .select('id, device_id, email, status, source_user_id, target_user_id, created_at, completed_at, reverted_at, reverted_by, merge_summary')
+    .order('created_at', { ascending: false })
+    .limit(options.limit);
+  if (options.status) {
+    query = query.eq('status', options.status);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error(chalk.red('Error:'), error.message);
+    return;
+  }
+
+  console.log(chalk.cyan('\n=== Device Merges ===\n'));
+  const requests = (data ?? []) as MergeRequestRow[];
+  if (requests.length === 0) {
+    console.log(chalk.dim('  No merge requests.\n'));
+    return;
+  }
+
+  for (const r of requests) {
+    console.log(`  ${statusLabel(r.status)} ${r.email}  ${chalk.dim(r.id)}`);
+    console.log(chalk.dim(`            device ${r.device_id}  requested ${r.created_at}`));
+    if (r.source_user_id || r.target_user_id) {
+      console.log(chalk.dim(`            ${r.source_user_id ?? '(anonymous only)'} -> ${r.target_user_id ?? '?'}`));
+    }
+    if (r.merge_summary) {
+      const s = r.merge_summary;
+      console.log(
+        `            ${count(s, 'reports') + count(s, 'anonymous_reports')} reports, ` +
+          `${count(s, 'achievements')} achievements, ` +
+          `${count(s, 'entries') + count(s, 'free_entries')} entries ` +
+          `(${count(s, 'dropped_entries')} duplicate removed), ` +
+          `${count(s, 'follows')} follows ` +
+          `(${count(s, 'dropped_follows')} removed)`
+      );
+    }
+    if (r.completed_at) console.log(chalk.dim(`            merged ${r.completed_at}`));
+    if (r.reverted_at) console.log(chalk.yellow(`            reverted by ${r.reverted_by} at ${r.reverted_at}`));
+  }
+  console.log();
+}
+
+export async function revertMerge(requestId: string, options: ModeratorOptions): Promise<void> {
+  const actor = moderatorName(options);
+  const { data, error } = await supabaseAdmin.rpc('revert_device_merge', {
+    p_request_id: requestId,
+    p_actor: actor,
+  });
+
+  if (error) {
+    console.error(chalk.red('Error:'), error.message);
+    return;
+  }
+
+  const request = data as Pick<MergeRequestRow, 'email' | 'source_user_id'> | null;
+  console.log(chalk.green(`Reverted merge ${requestId} (${request?.email ?? '?'}) as ${actor}.`));
+  if (request?.source_user_id) {
+    console.log(chalk.dim(`  Device history is back on ${request.source_user_id}.`));
+  } else {
+    console.log(chalk.dim('  Anonymous reports are unlinked again.'));
+  }
+}
@@ -0,0 +1,389 @@
+// admin-tool/src/commands/moderate.ts
+//
+// Moderation queue for reported catches and comments: list what's been
+// reported, review a target, hide/restore it, and ban/unban anglers. Every
+// action is recorded in moderation_actions (see
+// supabase/migrations/moderation.sql).
+
+import { supabaseAdmin } from '../client';
+import chalk from 'chalk';
+import * as os from 'os';
+
+export type ModerationTargetType = 'catch' | 'comment';
+
+interface TargetConfig {
+  table: string;
+  reportsTable: string;
+  reportKey: 'report_id' | 'comment_id';
+  detailsColumn: 'details' | 'reason';
+}
+
+const TARGETS: Record<ModerationTargetType, TargetConfig> = {
+  catch: {
+    table: 'harvest_reports',
+    reportsTable: 'catch_reports',
+    reportKey: 'report_id',
+    detailsColumn: 'details',
+  },
+  comment: {
+    table: 'catch_comments',
+    reportsTable: 'comment_reports',
+    reportKey: 'comment_id',
+    detailsColumn: 'reason',
+  },
+};
+
+interface NameRow {
+  first_name: string | null;
+  last_name: string | null;
+}
+
+// Open report as grouped in the queue (report_id or comment_id per TargetConfig)
+interface OpenReportRow {
+  report_id?: string;
+  comment_id?: string;
+  reporter_id: string;
+  reason_code: string;
+  created_at: string;
+}
+
+interface QueueTargetRow {
+  id: string;
+  hidden_at: string | null;
+  hidden_by: string | null;
+  users: NameRow | null;
+}
+
+// Catch or comment under review; the columns not selected for its type are absent
+interface ReviewTargetRow {
+  id: string;
+  user_id: string;
+  created_at: string;
+  hidden_at: string | null;
+  hidden_by: string | null;
+  users: (NameRow & { banned_at: string | null }) | null;
+  harvest_date?: string | null;
+  area_label?: string | null;
+  photo_url?: string | null;
+  visibility?: string | null;
+  report_id?: string;
+  parent_id?: string | null;
+  text?: string;
+  updated_at?: string;
+}
+
+// Report on the target under review (details or reason per TargetConfig)
+interface TargetReportRow {
+  reason_code: string;
+  details?: string | null;
+  reason?: string | null;
+  created_at: string;
+  resolved_at: string | null;
+  resolution: string | null;
+  users: NameRow | null;
+}
+
+interface ModerationActionRow {
+  target_type: string;
+  target_id: string;
+  action: string;
+  moderator: string;
+  note: string | null;
+  created_at: string;
+}
+
+export interface ModeratorOptions {
+  moderator?: string;
+  note?: string;
+}
+
+export function moderatorName(options: ModeratorOptions): string {
+  return options.moderator || process.env.MODERATOR_NAME || os.userInfo().username;
+}
+
+export function parseTargetType(value: string): ModerationTargetType | null {
+  return value === 'catch' || value === 'comment' ? value : null;
+}
+
+function anglerName(user: NameRow | null): string {
+  if (!user) return 'unknown';
+  return `${user.first_name || '?'} ${user.last_name ? `${user.last_name.charAt(0)}.` : ''}`.trim();
+}
+
+async function recordAction(
+  targetType: ModerationTargetType | 'user',
+  targetId: string,
+  action: 'hide' | 'restore' | 'ban' | 'unban',
+  options: ModeratorOptions
+): Promise<void> {
+  const { error } = await supabaseAdmin.from('moderation_actions').insert({
+    target_type: targetType,
+    target_id: targetId,
+    action,
+    moderator: moderatorName(options),
+    note: options.note ?? null,
+  });
+
+  if (error) {
+    console.error(chalk.red('Action applied, but the audit entry failed:'), error.message);
+  }
+}
+
+// ── List ──
+
+export async function listQueue(options: {
+  type?: ModerationTargetType;
+}): Promise<void> {
+  console.log(chalk.cyan('\n=== Moderation Queue ===\n'));
+
+  const { data: settings } = await supabaseAdmin
+    .from('moderation_settings')
+    .select('auto_hide_threshold')
+    .maybeSingle();
+  console.log(chalk.dim(`  Auto-hide after ${settings?.auto_hide_threshold ?? '?'} distinct reports\n`));
+
+  const types: ModerationTargetType[] = options.type ? [options.type] : ['catch', 'comment'];
+  let total = 0;
+
+  for (const type of types) {
+    const config = TARGETS[type];
+    const { data: reports, error } = await supabaseAdmin
+      .from(config.reportsTable)
+      .select(`${config.reportKey}, reporter_id, reason_code, created_at`)
+      .is('resolved_at', null)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error(chalk.red(`Error loading ${type} reports:`), error.message);
+      continue;
+    }
+
+    // Group open reports by target
+    const byTarget = new Map<string, { reporters: Set<string>; reasons: Record<string, number> }>();
+    for (const r of (reports ?? []) as OpenReportRow[]) {
+      const id = r[config.reportKey] as string;
+      const entry = byTarget.get(id) ?? { reporters: new Set<string>(), reasons: {} as Record<string, number> };
+      entry.reporters.add(r.reporter_id);
+      entry.reasons[r.reason_code] = (entry.reasons[r.reason_code] ?? 0) + 1;
+      byTarget.set(id, entry);
+    }
+    if (byTarget.size === 0) continue;
+
+    const { data: targets } = await supabaseAdmin
+      .from(config.table)
+      .select('id, hidden_at, hidden_by, users:user_id (first_name, last_name)')
+      .in('id', [...byTarget.keys()]);
+    const targetById = new Map(((targets ?? []) as unknown as QueueTargetRow[]).map((t) => [t.id, t]));
+
+    const sorted = [...byTarget.entries()].sort((a, b) => b[1].reporters.size - a[1].reporters.size);
+    for (const [id, entry] of sorted) {
+      const target = targetById.get(id);
+      const state = !target
+        ? chalk.dim('deleted')
+        : target.hidden_at
+        ? chalk.yellow(`hidden (${target.hidden_by})`)
+        : chalk.green('visible');
+      const reasons = Object.entries(entry.reasons)
+        .map(([code, n]) => `${code}×${n}`)
+        .join(', ');
+      console.log(
+        `  ${chalk.bold(type.toUpperCase().padEnd(8))}${id}  ` +
+          `${String(entry.reporters.size).padStart(2)} reports  ${state}  ` +
+          `${chalk.dim(anglerName(target?.users ?? null))}  ${reasons}`
+      );
+    }
+    total += byTarget.size;
+  }
+
+  if (total === 0) {
+    console.log(chalk.green('  Nothing waiting for review.'));
+  } else {
+    console.log(chalk.dim(`\n  ${total} item(s). Review with: moderate review <catch|comment> <id>\n`));
+  }
+}
+
+// ── Review ──
+
+export async function reviewTarget(type: ModerationTargetType, id: string): Promise<void> {
+  const config = TARGETS[type];
+  console.log(chalk.cyan(`\n=== Review ${type} ${id} ===\n`));
+
+  const columns =
+    type === 'catch'
+      ? 'id, user_id, created_at, harvest_date, area_label, photo_url, visibility, hidden_at, hidden_by'
+      : 'id, report_id, user_id, parent_id, text, created_at, updated_at, hidden_at, hidden_by';
+  const { data: target, error } = await supabaseAdmin
+    .from(config.table)
+    .select(`${columns}, users:user_id (first_name, last_name, banned_at)`)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error(chalk.red('Error:'), error.message);
+    return;
+  }
+  if (!target) {
+    console.log(chalk.yellow(`No ${type} with id ${id}.`));
+    return;
+  }
+
+  const t = target as unknown as ReviewTargetRow;
+  console.log(`  Author:   ${anglerName(t.users)} ${chalk.dim(t.user_id)}` +
+    (t.users?.banned_at ? chalk.red('  BANNED') : ''));
+  console.log(`  Posted:   ${t.created_at}`);
+  if (type === 'catch') {
+    console.log(`  Harvest:  ${t.harvest_date ?? '?'}  ${t.area_label ?? ''}`);
+    console.log(`  Audience: ${t.visibility ?? 'public'}`);
+    if (t.photo_url) console.log(`  Photo:    ${t.photo_url}`);
+  } else {
+    console.log(`  Catch:    ${t.report_id}${t.parent_id ? chalk.dim(`  (reply to ${t.parent_id})`) : ''}`);
+    if (t.updated_at !== t.created_at) console.log(`  Edited:   ${t.updated_at}`);
+    console.log(`  Text:     ${t.text}`);
+  }
+  console.log(
+    `  State:    ${t.hidden_at ? chalk.yellow(`hidden by ${t.hidden_by} at ${t.hidden_at}`) : chalk.green('visible')}`
+  );
+
+  const { data: reports } = await supabaseAdmin
+    .from(config.reportsTable)
+    .select(`reason_code, ${config.detailsColumn}, created_at, resolved_at, resolution, users:reporter_id (first_name, last_name)`)
+    .eq(config.reportKey, id)
+    .order('created_at', { ascending: true });
+
+  console.log(chalk.bold.white(`\n  Reports (${reports?.length ?? 0})`));
+  for (const r of (reports ?? []) as unknown as TargetReportRow[]) {
+    const status = r.resolved_at ? chalk.dim(`resolved: ${r.resolution}`) : chalk.yellow('open');
+    const details = r[config.detailsColumn];
+    console.log(
+      `    ${r.created_at}  ${r.reason_code.padEnd(16)} ${anglerName(r.users).padEnd(12)} ${status}`
+    );
+    if (details) console.log(chalk.dim(`      "${details}"`));
+  }
+
+  await printActions({ targetId: id, limit: 20 }, '  History');
+  console.log(chalk.dim(`\n  moderate hide ${type} ${id}  |  moderate restore ${type} ${id}  |  moderate ban ${t.user_id}\n`));
+}
+
+// ── Hide / Restore ──
+
+async function setHidden(
+  type: ModerationTargetType,
+  id: string,
+  hidden: boolean,
+  options: ModeratorOptions
+): Promise<void> {
+  const config = TARGETS[type];
+  const moderator = moderatorName(options);
+
+  const { data, error } = await supabaseAdmin
+    .from(config.table)
+    .update(hidden ? { hidden_at: new Date().toISOString(), hidden_by: moderator } : { hidden_at: null, hidden_by: null })
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    console.error(chalk.red('Error:'), error.message);
+    return;
+  }
+  if (!data || data.length === 0) {
+    console.log(chalk.yellow(`No ${type} with id ${id}.`));
+    return;
+  }
+
+  // Close the open reports so the target leaves the queue. Later reports
+  // start a fresh count toward auto-hide.
+  const { count, error: resolveError } = await supabaseAdmin
+    .from(config.reportsTable)
+    .update({ resolved_at: new Date().toISOString(), resolution: hidden ? 'hidden' : 'restored' }, { count: 'exact' })
+    .eq(config.reportKey, id)
+    .is('resolved_at', null);
+
+  if (resolveError) {
+    console.error(chalk.red('Failed to resolve reports:'), resolveError.message);
+  }
+
+  await recordAction(type, id, hidden ? 'hide' : 'restore', { ...options, moderator });
+  console.log(
+    chalk.green(`${hidden ? 'Hid' : 'Restored'} ${type} ${id}`) +
+      chalk.dim(` (${count ?? 0} report(s) resolved)`)
+  );
+}
+
+export async function hideTarget(type: ModerationTargetType, id: string, options: ModeratorOptions): Promise<void> {
+  await setHidden(type, id, true, options);
+}
+
+export async function restoreTarget(type: ModerationTargetType, id: string, options: ModeratorOptions): Promise<void> {
+  await setHidden(type, id, false, options);
+}
+
+// ── Ban / Unban ──
+
+async function setBanned(userId: string, banned: boolean, options: ModeratorOptions): Promise<void> {
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .update(
+      banned
+        ? { banned_at: new Date().toISOString(), banned_reason: options.note ?? null }
+        : { banned_at: null, banned_reason: null }
+    )
+    .eq('id', userId)
+    .select('id, first_name, last_name');
+
+  if (error) {
+    console.error(chalk.red('Error:'), error.message);
+    return;
+  }
+  if (!data || data.length === 0) {
+    console.log(chalk.yellow(`No user with id ${userId}.`));
+    return;
+  }
+
+  await recordAction('user', userId, banned ? 'ban' : 'unban', options);
+  console.log(chalk.green(`${banned ? 'Banned' : 'Unbanned'} ${anglerName((data as NameRow[])[0])} (${userId})`));
+  if (banned) {
+    console.log(chalk.dim('  Their catches and comments are hidden from other anglers until unbanned.'));
+  }
+}
+
+export async function banUser(userId: string, options: ModeratorOptions): Promise<void> {
+  await setBanned(userId, true, options);
+}
+
+export async function unbanUser(userId: string, options: ModeratorOptions): Promise<void> {
+  await setBanned(userId, false, options);
+}
+
+// ── Audit log ──
+
+async function printActions(
+  options: { targetId?: string; limit: number },
+  heading: string
+): Promise<void> {
+  let query = supabaseAdmin
+    .from('moderation_actions')
+    .select('target_type, target_id, action, moderator, note, created_at')
+    .order('created_at', { ascending: false })
+    .limit(options.limit);
+  if (options.targetId) query = query.eq('target_id', options.targetId);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error(chalk.red('Error loading moderation log:'), error.message);
+    return;
+  }
+
+  console.log(chalk.bold.white(`\n${heading} (${data?.length ?? 0})`));
+  for (const a of (data ?? []) as ModerationActionRow[]) {
+    console.log(
+      `    ${a.created_at}  ${a.action.padEnd(10)} ${a.target_type.padEnd(8)}${a.target_id}  ` +
+        chalk.dim(`by ${a.moderator}${a.note ? ` - ${a.note}` : ''}`)
+    );
+  }
+}
+
+export async function showModerationLog(options: { target?: string; limit: number }): Promise<void> {
+  console.log(chalk.cyan('\n=== Moderation Log ==='));
+  await printActions({ targetId: options.target, limit: options.limit }, '  Actions');
+  console.log();
+}
@@ -144,6 +144,7 @@ export async function seedData(options: SeedOptions): Promise<void> {
           zip_code: '27601',
           dmf_status: 'submitted',
           entered_rewards: true,
+          visibility: 'public',
         })
         .select('id')
         .single();
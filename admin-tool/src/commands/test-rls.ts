@@ -3,7 +3,7 @@
 // Test RLS policies by simulating queries as different user roles.
 // Compares service_role results (full access) vs anon-key results (RLS enforced).
 
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { supabaseAdmin, SUPABASE_URL } from '../client';
 import chalk from 'chalk';
 import * as dotenv from 'dotenv';
@@ -52,6 +52,21 @@ export async function testRLS(options: {
         'prizes',
         'rewards_config',
         'rewards_drawings',
+        'catch_reports',
+        'comment_reports',
+        'moderation_actions',
+        'user_blocks',
+        'user_follows',
+        'follow_requests',
+        'notifications',
+        'drawing_results',
+        'drawing_entrants',
+        'drawing_entrant_tickets',
+        'drawing_winners',
+        'drawing_audit_log',
+        'prize_claims',
+        'drawing_entry_rules',
+        'drawing_free_entries',
       ];
 
   console.log(chalk.dim('Comparing service_role (full access) vs anon key (RLS enforced):\n'));
@@ -85,6 +100,7 @@ export async function testRLS(options: {
       const publicTables = [
         'achievements', 'advertisements', 'fish_species', 'prizes',
         'rewards_config', 'rewards_drawings', 'drawing_prizes',
+        'drawing_results', 'drawing_entry_rules',
       ];
       if (publicTables.includes(table)) {
         status = chalk.blue('PUBLIC (expected)');
@@ -118,6 +134,18 @@ export async function testRLS(options: {
       table: 'feedback',
       data: { type: 'feedback', message: 'RLS test' },
     },
+    {
+      table: 'moderation_actions',
+      data: { target_type: 'user', target_id: '00000000-0000-0000-0000-000000000000', action: 'unban', moderator: 'rls-test' },
+    },
+    {
+      table: 'user_blocks',
+      data: { blocker_id: '00000000-0000-0000-0000-000000000000', blocked_id: '00000000-0000-0000-0000-000000000001' },
+    },
+    {
+      table: 'notifications',
+      data: { user_id: '00000000-0000-0000-0000-000000000000', type: 'follow' },
+    },
   ];
 
   for (const test of writeTests) {
@@ -143,5 +171,105 @@ export async function testRLS(options: {
     }
   }
 
+  if (!options.table) {
+    await testRpcAccess(supabaseAnon);
+  }
+
+  if (!options.table || options.table === 'user_blocks') {
+    await testBlockEnforcement(supabaseAnon);
+  }
+
   console.log(chalk.dim('\nDone.\n'));
 }
+
+const NO_ID = '00000000-0000-0000-0000-000000000000';
+
+// Functions only the server (triggers, the admin tool) may call. Supabase
+// grants EXECUTE on new functions to anon and authenticated directly, so each
+// must be revoked from them by name, not just from PUBLIC.
+const SERVICE_ONLY_RPCS: Array<{ fn: string; args: Record<string, unknown> }> = [
+  {
+    fn: 'notify_user',
+    args: { p_user_id: NO_ID, p_type: 'follow', p_actor_id: NO_ID, p_report_id: null, p_comment_id: null, p_data: {} },
+  },
+  { fn: 'calculate_drawing_entries', args: { p_user_id: NO_ID, p_drawing_id: NO_ID } },
+  { fn: 'revert_device_merge', args: { p_request_id: NO_ID, p_actor: 'rls-test' } },
+  { fn: 'commit_drawing_seed', args: { p_drawing_id: NO_ID, p_seed_hash: '', p_actor: 'rls-test' } },
+  { fn: 'freeze_drawing_entrants', args: { p_drawing_id: NO_ID, p_actor: 'rls-test' } },
+];
+
+/**
+ * Checks that anon can't execute service-only functions. Anything other than
+ * a permission error means the call got past the grant check.
+ */
+async function testRpcAccess(supabaseAnon: SupabaseClient): Promise<void> {
+  console.log(chalk.cyan('\n--- RPC Access Tests ---\n'));
+
+  for (const { fn, args } of SERVICE_ONLY_RPCS) {
+    const { error } = await supabaseAnon.rpc(fn, args);
+    console.log(
+      error?.code === '42501'
+        ? `  ${chalk.green('BLOCKED')} anon ${fn}: ${chalk.dim(error.message.substring(0, 60))}`
+        : `  ${chalk.red('ALLOWED')} anon ${fn} ${chalk.red('(SECURITY ISSUE)')}`
+    );
+  }
+}
+
+/**
+ * Blocks are enforced in the database (supabase/migrations/user_blocks.sql).
+ * Checks that anon can't read anyone's block set, and that no follow or
+ * follow request survives between a blocked pair.
+ */
+async function testBlockEnforcement(supabaseAnon: SupabaseClient): Promise<void> {
+  console.log(chalk.cyan('\n--- Block Enforcement Tests ---\n'));
+
+  const { error: rpcError } = await supabaseAnon.rpc('get_blocked_user_ids');
+  console.log(
+    rpcError
+      ? `  ${chalk.green('BLOCKED')} anon get_blocked_user_ids: ${chalk.dim(rpcError.message.substring(0, 60))}`
+      : `  ${chalk.red('ALLOWED')} anon get_blocked_user_ids ${chalk.red('(SECURITY ISSUE)')}`
+  );
+
+  const { data: blocks, error } = await supabaseAdmin
+    .from('user_blocks')
+    .select('blocker_id, blocked_id')
+    .limit(200);
+
+  if (error) {
+    console.error(chalk.red('  Error loading user_blocks:'), error.message);
+    return;
+  }
+  if (!blocks || blocks.length === 0) {
+    console.log(chalk.yellow('  No blocks to check.'));
+    return;
+  }
+
+  let leaks = 0;
+  for (const b of blocks) {
+    const { blocker_id: x, blocked_id: y } = b;
+
+    const { count: follows } = await supabaseAdmin
+      .from('user_follows')
+      .select('*', { count: 'exact', head: true })
+      .or(`and(follower_id.eq.${x},following_id.eq.${y}),and(follower_id.eq.${y},following_id.eq.${x})`);
+
+    const { count: requests } = await supabaseAdmin
+      .from('follow_requests')
+      .select('*', { count: 'exact', head: true })
+      .or(`and(requester_id.eq.${x},target_id.eq.${y}),and(requester_id.eq.${y},target_id.eq.${x})`);
+
+    if ((follows || 0) > 0 || (requests || 0) > 0) {
+      leaks++;
+      console.log(
+        `  ${chalk.red('LEAK')} ${x} / ${y}: ` +
+          `${follows || 0} follow(s), ${requests || 0} request(s)`
+      );
+    }
+  }
+
+  console.log(
+    leaks === 0
+      ? `  ${chalk.green('OK')} ${blocks.length} block(s): no follows or requests between blocked pairs`
+      : chalk.red(`  ${leaks} of ${blocks.length} blocked pair(s) still connected`)
+  );
+}
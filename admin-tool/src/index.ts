@@ -15,6 +15,31 @@ import {
   inspectTableStats,
 } from './commands/inspect';
 import { testRLS } from './commands/test-rls';
+import {
+  listQueue,
+  reviewTarget,
+  hideTarget,
+  restoreTarget,
+  banUser,
+  unbanUser,
+  showModerationLog,
+  parseTargetType,
+  ModerationTargetType,
+} from './commands/moderate';
+import {
+  commitSeed,
+  freezeEntrants,
+  runDrawing,
+  disqualifyWinner,
+  recordFreeEntry,
+  printEntries,
+  listFlaggedEntrants,
+  fulfillClaim,
+  forfeitExpiredClaims,
+  showDrawing,
+  verifyDrawing,
+} from './commands/drawing';
+import { listMerges, revertMerge } from './commands/merge';
 
 const program = new Command();
 
@@ -88,6 +113,211 @@ program
     });
   });
 
+// ── Moderate Command ──
+const moderate = program
+  .command('moderate')
+  .description('Review reported catches and comments (hide, restore, ban)');
+
+function targetTypeOrExit(value: string): ModerationTargetType {
+  const type = parseTargetType(value);
+  if (!type) {
+    console.error(chalk.red(`Unknown target type "${value}". Use catch or comment.`));
+    process.exit(1);
+  }
+  return type;
+}
+
+moderate
+  .command('list')
+  .description('List catches and comments with open reports')
+  .option('-t, --type <type>', 'Only catch or comment reports')
+  .action(async (options) => {
+    await listQueue({
+      type: options.type ? targetTypeOrExit(options.type) : undefined,
+    });
+  });
+
+moderate
+  .command('review <type> <id>')
+  .description('Show a reported catch or comment, its reports and history')
+  .action(async (type: string, id: string) => {
+    await reviewTarget(targetTypeOrExit(type), id);
+  });
+
+moderate
+  .command('hide <type> <id>')
+  .description('Hide a catch or comment and resolve its open reports')
+  .option('-n, --note <note>', 'Reason recorded in the audit log')
+  .option('--as <moderator>', 'Moderator name for the audit log (default: $MODERATOR_NAME or OS user)')
+  .action(async (type: string, id: string, options) => {
+    await hideTarget(targetTypeOrExit(type), id, { note: options.note, moderator: options.as });
+  });
+
+moderate
+  .command('restore <type> <id>')
+  .description('Make a hidden catch or comment visible again and dismiss its open reports')
+  .option('-n, --note <note>', 'Reason recorded in the audit log')
+  .option('--as <moderator>', 'Moderator name for the audit log (default: $MODERATOR_NAME or OS user)')
+  .action(async (type: string, id: string, options) => {
+    await restoreTarget(targetTypeOrExit(type), id, { note: options.note, moderator: options.as });
+  });
+
+moderate
+  .command('ban <userId>')
+  .description('Ban an angler: hides their content and blocks comments, likes, follows and reports')
+  .option('-n, --note <note>', 'Ban reason (stored on the user and in the audit log)')
+  .option('--as <moderator>', 'Moderator name for the audit log (default: $MODERATOR_NAME or OS user)')
+  .action(async (userId: string, options) => {
+    await banUser(userId, { note: options.note, moderator: options.as });
+  });
+
+moderate
+  .command('unban <userId>')
+  .description('Lift a ban')
+  .option('-n, --note <note>', 'Reason recorded in the audit log')
+  .option('--as <moderator>', 'Moderator name for the audit log (default: $MODERATOR_NAME or OS user)')
+  .action(async (userId: string, options) => {
+    await unbanUser(userId, { note: options.note, moderator: options.as });
+  });
+
+moderate
+  .command('log')
+  .description('Show the moderation audit trail, newest first')
+  .option('--target <id>', 'Only actions on this catch, comment or user')
+  .option('-l, --limit <count>', 'Number of entries', '50')
+  .action(async (options) => {
+    await showModerationLog({ target: options.target, limit: parseInt(options.limit) });
+  });
+
+// ── Drawing Command ──
+const drawing = program
+  .command('drawing')
+  .description('Run quarterly rewards drawings and track prize claims');
+
+drawing
+  .command('commit <drawingId>')
+  .description('Generate a secret seed and commit its hash (before entries close)')
+  .option('--as <operator>', 'Name for the audit log (default: $MODERATOR_NAME or OS user)')
+  .action(async (drawingId: string, options) => {
+    await commitSeed(drawingId, { moderator: options.as });
+  });
+
+drawing
+  .command('freeze <drawingId>')
+  .description('Freeze the eligible entrant list (after entries close)')
+  .option('--as <operator>', 'Name for the audit log (default: $MODERATOR_NAME or OS user)')
+  .action(async (drawingId: string, options) => {
+    await freezeEntrants(drawingId, { moderator: options.as });
+  });
+
+drawing
+  .command('run <drawingId>')
+  .description('Reveal the seed and draw winners and alternates')
+  .requiredOption('-s, --seed <seed>', 'The seed committed with drawing commit')
+  .option('-b, --beacon <value>', 'outputValue of the NIST beacon pulse (fetched from NIST if omitted)')
+  .option('-a, --alternates <count>', 'Alternates to draw (default: one per winner)')
+  .option('--as <operator>', 'Name for the audit log (default: $MODERATOR_NAME or OS user)')
+  .action(async (drawingId: string, options) => {
+    await runDrawing(drawingId, {
+      seed: options.seed,
+      beacon: options.beacon,
+      alternates: options.alternates !== undefined ? parseInt(options.alternates) : undefined,
+      moderator: options.as,
+    });
+  });
+
+drawing
+  .command('disqualify <drawingId> <userId>')
+  .description('Disqualify a winner; their place and prize go to the next alternate')
+  .requiredOption('-n, --note <note>', 'Reason recorded in the audit log')
+  .option('--as <operator>', 'Name for the audit log (default: $MODERATOR_NAME or OS user)')
+  .action(async (drawingId: string, userId: string, options) => {
+    await disqualifyWinner(drawingId, userId, { note: options.note, moderator: options.as });
+  });
+
+drawing
+  .command('free-entry <drawingId> <userId>')
+  .description('Record a free alternative-method entry (web form or mail-in)')
+  .option('--source <source>', 'web or email', 'web')
+  .option('--received <date>', 'When the request was received (default: now)')
+  .option('-n, --note <note>', 'Note, e.g. the envelope postmark')
+  .option('--as <operator>', 'Name recorded with the entry (default: $MODERATOR_NAME or OS user)')
+  .action(async (drawingId: string, userId: string, options) => {
+    await recordFreeEntry(drawingId, userId, {
+      source: options.source,
+      received: options.received,
+      note: options.note,
+      moderator: options.as,
+    });
+  });
+
+drawing
+  .command('entries <drawingId> <userId>')
+  .description('Show a member\'s entry count and how it was earned')
+  .action(async (drawingId: string, userId: string) => {
+    await printEntries(drawingId, userId);
+  });
+
+drawing
+  .command('flags <drawingId>')
+  .description('List entrants flagged for suspicious reports or shared accounts')
+  .option('--min-score <score>', 'Only show entrants scoring at least this much', '1')
+  .action(async (drawingId: string, options) => {
+    await listFlaggedEntrants(drawingId, { minScore: parseInt(options.minScore) });
+  });
+
+drawing
+  .command('fulfill <drawingId> <userId>')
+  .description('Mark a claimed prize as shipped or delivered')
+  .option('-n, --note <note>', 'Fulfillment note, e.g. a tracking number')
+  .action(async (drawingId: string, userId: string, options) => {
+    await fulfillClaim(drawingId, userId, { note: options.note });
+  });
+
+drawing
+  .command('forfeit-expired <drawingId>')
+  .description('Disqualify winners who missed the claim deadline and promote alternates')
+  .option('--as <operator>', 'Name for the audit log (default: $MODERATOR_NAME or OS user)')
+  .action(async (drawingId: string, options) => {
+    await forfeitExpiredClaims(drawingId, { moderator: options.as });
+  });
+
+drawing
+  .command('show <drawingId>')
+  .description('Show a drawing\'s commitment, entrants, winners and audit log')
+  .action(async (drawingId: string) => {
+    await showDrawing(drawingId);
+  });
+
+drawing
+  .command('verify <drawingId>')
+  .description('Recompute a finished draw from its published seed and check it')
+  .action(async (drawingId: string) => {
+    await verifyDrawing(drawingId);
+  });
+
+// ── Merge Command ──
+const merge = program
+  .command('merge')
+  .description('Review and revert device history merges');
+
+merge
+  .command('list')
+  .description('List device merge requests and what each merge moved, newest first')
+  .option('-s, --status <status>', 'Only pending, completed, rejected or reverted requests')
+  .option('-l, --limit <count>', 'Number of requests', '50')
+  .action(async (options) => {
+    await listMerges({ status: options.status, limit: parseInt(options.limit) });
+  });
+
+merge
+  .command('revert <requestId>')
+  .description('Move a completed merge\'s history back to the device and restore the account\'s stats')
+  .option('--as <operator>', 'Name recorded on the request (default: $MODERATOR_NAME or OS user)')
+  .action(async (requestId: string, options) => {
+    await revertMerge(requestId, { moderator: options.as });
+  });
+
 // Handle no command
 program.action(() => {
   console.log(chalk.cyan('\n  Fish-Log Admin CLI\n'));
@@ -96,6 +326,9 @@ program.action(() => {
   console.log('    seed               Seed test data');
   console.log('    inspect [target]   Inspect DB state (rls|users|integrity|stats)');
   console.log('    test-rls           Compare service_role vs anon access');
+  console.log('    moderate <cmd>     Moderation queue (list|review|hide|restore|ban|unban|log)');
+  console.log('    drawing <cmd>      Rewards drawings (commit|free-entry|entries|flags|freeze|run|disqualify|fulfill|forfeit-expired|show|verify)');
+  console.log('    merge <cmd>        Device history merges (list|revert)');
   console.log(chalk.dim('\n  Run with --help for options.\n'));
 });
 
@@ -208,7 +208,9 @@ jest.mock('./src/config/appConfig', () => ({
     features: {
       raffleEnabled: true,
       offlineQueueEnabled: true,
+      batchedQueueSync: false,
       photoCaptureEnabled: true,
+      sendGpsGeometry: false,
       showTestModeBadge: false,
     },
     endpoints: {
@@ -217,6 +219,8 @@ jest.mock('./src/config/appConfig', () => ({
     storageKeys: {
       harvestQueue: '@harvest_queue',
       harvestHistory: '@harvest_history',
+      dmfSubmissionLedger: '@dmf_submission_ledger',
+      harvestDeadLetter: '@harvest_dead_letter',
       userProfile: 'userProfile',
       fishingLicense: 'fishingLicense',
       enteredRaffles: 'enteredRaffles',
@@ -226,6 +230,10 @@ jest.mock('./src/config/appConfig', () => ({
     limits: {
       maxHistoryEntries: 100,
       maxRetryAttempts: 3,
+      maxConfigRetryAttempts: 2,
+      retryBackoffBaseMs: 5 * 60 * 1000,
+      retryBackoffMaxMs: 6 * 60 * 60 * 1000,
+      maxSyncBatchSize: 25,
     },
   },
   isTestMode: jest.fn(() => true),
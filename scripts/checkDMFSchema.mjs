@@ -0,0 +1,184 @@
+#!/usr/bin/env node
+// scripts/checkDMFSchema.mjs
+//
+// Diff the checked-in DMF layer schema (src/constants/dmfLayerSchema.json)
+// against the FeatureServer layer JSON, so we notice when DMF changes the
+// Survey123 form before submissions start failing.
+//
+// Usage:
+//   # Diff against a saved copy of the layer JSON:
+//   node scripts/checkDMFSchema.mjs path/to/layer.json
+//
+//   # Fetch the live layer JSON (and optionally save it for next time):
+//   node scripts/checkDMFSchema.mjs --fetch --save path/to/layer.json
+//
+// Exits 1 when the schemas differ. Renamed/removed fields, type or domain
+// changes and new required fields break submissions; new optional fields
+// are reported but do not fail the check.
+//
+// If the layer name, id or GlobalID/OBJECTID fields change, update
+// LAYER_INFO in supabase/functions/trigger-dmf-webhook as well.
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+
+const SCHEMA_PATH = new URL('../src/constants/dmfLayerSchema.json', import.meta.url);
+
+const { values: args, positionals } = parseArgs({
+  options: {
+    fetch: { type: 'boolean', default: false },
+    save:  { type: 'string' },
+    help:  { type: 'boolean', short: 'h', default: false },
+  },
+  allowPositionals: true,
+});
+
+if (args.help || (!args.fetch && positionals.length === 0)) {
+  console.log(`
+Check DMF Layer Schema Drift
+────────────────────────────
+
+USAGE:
+  node scripts/checkDMFSchema.mjs <layer.json>
+  node scripts/checkDMFSchema.mjs --fetch [--save <layer.json>]
+
+FLAGS:
+  --fetch       Fetch the layer JSON from the DMF FeatureServer
+  --save        Write the fetched layer JSON to a file
+  --help, -h    Show this help
+`);
+  process.exit(args.help ? 0 : 1);
+}
+
+// ============================================
+// LOAD
+// ============================================
+
+async function loadLayer(schema) {
+  if (!args.fetch) {
+    return JSON.parse(await readFile(positionals[0], 'utf8'));
+  }
+
+  const url = `${schema.service.url}/${schema.layer.id}?f=json`;
+  console.log(`🌐 Fetching ${url}`);
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`FeatureServer returned HTTP ${response.status}`);
+  }
+
+  const layer = await response.json();
+  if (layer.error) {
+    throw new Error(`FeatureServer error: ${layer.error.message}`);
+  }
+  if (args.save) {
+    await writeFile(args.save, JSON.stringify(layer, null, 2) + '\n');
+    console.log(`💾 Saved layer JSON to ${args.save}`);
+  }
+  return layer;
+}
+
+// ============================================
+// DIFF
+// ============================================
+
+function domainCodes(field) {
+  return (field.domain?.codedValues ?? []).map(v => String(v.code));
+}
+
+/** Fields ArcGIS maintains itself (OBJECTID, editor tracking) */
+function systemFields(layer) {
+  const info = layer.editFieldsInfo ?? {};
+  return new Set([
+    layer.objectIdField,
+    info.creationDateField,
+    info.creatorField,
+    info.editDateField,
+    info.editorField,
+  ].filter(Boolean));
+}
+
+/**
+ * Compare the checked-in schema to the layer JSON.
+ * @returns {{ breaking: string[], notices: string[] }}
+ */
+function diffSchema(schema, layer) {
+  const breaking = [];
+  const notices = [];
+
+  for (const key of ['id', 'name', 'geometryType', 'globalIdField', 'objectIdField']) {
+    if (layer[key] !== undefined && layer[key] !== schema.layer[key]) {
+      breaking.push(`layer.${key}: "${schema.layer[key]}" → "${layer[key]}"`);
+    }
+  }
+
+  const layerFields = new Map((layer.fields ?? []).map(f => [f.name, f]));
+  const schemaNames = new Set(schema.fields.map(f => f.name));
+
+  for (const field of schema.fields) {
+    const live = layerFields.get(field.name);
+    if (!live) {
+      breaking.push(`${field.name}: no longer on the layer (renamed or removed)`);
+      continue;
+    }
+    if (live.type !== field.type) {
+      breaking.push(`${field.name}: type ${field.type} → ${live.type}`);
+    }
+    if (field.length !== undefined && live.length !== undefined && live.length < field.length) {
+      breaking.push(`${field.name}: length ${field.length} → ${live.length}`);
+    } else if (field.length !== live.length) {
+      notices.push(`${field.name}: length ${field.length} → ${live.length}`);
+    }
+    if (live.nullable !== field.nullable) {
+      (live.nullable ? notices : breaking).push(`${field.name}: nullable ${field.nullable} → ${live.nullable}`);
+    }
+
+    const ours = domainCodes(field);
+    const theirs = domainCodes(live);
+    const removed = ours.filter(c => !theirs.includes(c));
+    const added = theirs.filter(c => !ours.includes(c));
+    if (ours.length > 0 && theirs.length === 0) {
+      notices.push(`${field.name}: domain ${field.domain.name} removed from the layer`);
+    } else if (removed.length > 0) {
+      breaking.push(`${field.name}: domain codes removed: ${removed.join(', ')}`);
+    }
+    if (added.length > 0) {
+      notices.push(`${field.name}: domain codes added: ${added.join(', ')}`);
+    }
+  }
+
+  const ignored = systemFields(layer);
+  for (const live of layerFields.values()) {
+    if (schemaNames.has(live.name) || ignored.has(live.name)) continue;
+    if (live.nullable === false && live.defaultValue == null) {
+      breaking.push(`${live.name}: new required field (${live.type})`);
+    } else {
+      notices.push(`${live.name}: new optional field (${live.type})`);
+    }
+  }
+
+  return { breaking, notices };
+}
+
+// ============================================
+// MAIN
+// ============================================
+
+async function main() {
+  const schema = JSON.parse(await readFile(SCHEMA_PATH, 'utf8'));
+  const layer = await loadLayer(schema);
+  const { breaking, notices } = diffSchema(schema, layer);
+
+  for (const line of notices) console.log(`ℹ️  ${line}`);
+  for (const line of breaking) console.log(`❌ ${line}`);
+
+  if (breaking.length > 0) {
+    console.log(`\n${breaking.length} breaking change(s). Update src/constants/dmfLayerSchema.json and transformToDMFPayload.`);
+    process.exit(1);
+  }
+  console.log(`✅ ${schema.layer.name} matches the checked-in schema (${schema.fields.length} fields)`);
+}
+
+main().catch((err) => {
+  console.error('❌ Schema check failed:', err.message);
+  process.exit(1);
+});
@@ -16,6 +16,13 @@
 // 2. Copy the service_role key (keep this secret!)
 // 3. Set environment variable: export SUPABASE_SERVICE_KEY="your-key"
 // 4. Run: node scripts/importSpeciesData.mjs
+//
+// Regulation history:
+// Each run also records the regulations in species_regulations with an
+// effective date (today, or REGULATIONS_EFFECTIVE_DATE=YYYY-MM-DD for a
+// proclamation that took effect earlier). If a species' rules changed, the
+// previous record is closed out the day before. Run the
+// create_species_regulations.sql migration first.
 
 import { createClient } from '@supabase/supabase-js';
 
@@ -713,6 +720,32 @@ const speciesDetails = {
 // Helper Functions
 // =============================================================================
 
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Convert a season boundary like "Aug 16" to the mm-dd format the app compares
+function toMonthDay(value) {
+  const match = value.match(/^([A-Za-z]{3})\w*\s+(\d{1,2})$/);
+  const monthIndex = match ? MONTHS.indexOf(match[1]) : -1;
+  if (monthIndex < 0) return value;
+  return `${String(monthIndex + 1).padStart(2, '0')}-${match[2].padStart(2, '0')}`;
+}
+
+function normalizeRegulations(regulations) {
+  return {
+    ...regulations,
+    openSeasons: regulations.openSeasons
+      ? regulations.openSeasons.map(({ from, to }) => ({ from: toMonthDay(from), to: toMonthDay(to) }))
+      : null,
+  };
+}
+
+// Day before a YYYY-MM-DD date, as YYYY-MM-DD
+function previousDay(dateKey) {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - 1);
+  return date.toISOString().slice(0, 10);
+}
+
 function generateSlug(name) {
   return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
 }
@@ -886,5 +919,110 @@ async function importSpecies() {
   console.log('\n🎉 Import complete!');
 }
 
+// =============================================================================
+// Regulation History
+// =============================================================================
+
+async function importRegulationHistory() {
+  const effectiveDate = process.env.REGULATIONS_EFFECTIVE_DATE || new Date().toISOString().slice(0, 10);
+  console.log(`\n📜 Recording regulations effective ${effectiveDate}...\n`);
+
+  const { data: speciesRows, error: speciesError } = await supabase
+    .from('fish_species')
+    .select('id, name');
+
+  if (speciesError) {
+    console.error('❌ Error fetching species for regulation history:', speciesError.message);
+    return;
+  }
+
+  // Only the current statewide import record for each species is superseded;
+  // area-specific and bulletin records are managed separately
+  const { data: currentRows, error: currentError } = await supabase
+    .from('species_regulations')
+    .select('id, species_id, regulations, effective_date')
+    .eq('source', 'import')
+    .eq('area_codes', '{}')
+    .is('expiration_date', null);
+
+  if (currentError) {
+    console.error('❌ Error fetching current regulations:', currentError.message);
+    return;
+  }
+
+  const currentBySpecies = new Map((currentRows || []).map(r => [r.species_id, r]));
+  let added = 0;
+  let unchanged = 0;
+
+  for (const [mapName, rawRegulations] of Object.entries(regulationsMap)) {
+    const name = mapName.includes('(') ? mapName.split('(')[0].trim() : mapName;
+    const species = speciesRows?.find(s => s.name === name);
+    if (!species) continue;
+
+    const regulations = normalizeRegulations(rawRegulations);
+    const current = currentBySpecies.get(species.id);
+
+    if (current && JSON.stringify(current.regulations) === JSON.stringify(regulations)) {
+      unchanged++;
+      continue;
+    }
+
+    // Re-running on the same effective date corrects that record in place
+    if (current && current.effective_date === effectiveDate) {
+      const { error: fixError } = await supabase
+        .from('species_regulations')
+        .update({ regulations })
+        .eq('id', current.id);
+
+      if (fixError) {
+        console.error(`❌ Error updating ${name} regulations:`, fixError.message);
+      } else {
+        added++;
+        console.log(`  ✓ ${name} (updated in place)`);
+      }
+      continue;
+    }
+
+    if (current && current.effective_date > effectiveDate) {
+      console.warn(`  ⚠️ ${name}: current record is effective ${current.effective_date}, skipping older ${effectiveDate}`);
+      continue;
+    }
+
+    if (current) {
+      const { error: closeError } = await supabase
+        .from('species_regulations')
+        .update({ expiration_date: previousDay(effectiveDate) })
+        .eq('id', current.id);
+
+      if (closeError) {
+        console.error(`❌ Error closing out ${name} regulations:`, closeError.message);
+        continue;
+      }
+    }
+
+    const { error: insertError } = await supabase
+      .from('species_regulations')
+      .insert({
+        species_id: species.id,
+        regulations,
+        source: 'import',
+        area_codes: [],
+        effective_date: effectiveDate,
+      });
+
+    if (insertError) {
+      console.error(`❌ Error recording ${name} regulations:`, insertError.message);
+      continue;
+    }
+
+    added++;
+    console.log(`  ✓ ${name}${current ? ` (supersedes rules from ${current.effective_date})` : ''}`);
+  }
+
+  console.log(`\n✅ Regulation history: ${added} new record(s), ${unchanged} unchanged.`);
+}
+
 // Run the import
-importSpecies().catch(console.error);
+importSpecies()
+  .then(importRegulationHistory)
+  .catch(console.error);
@@ -103,6 +103,9 @@ import PromotionsScreen from "./screens/PromotionsScreen";
 import PartnerInquiryScreen from "./screens/PartnerInquiryScreen";
 import AnglerProfileScreen from "./screens/AnglerProfileScreen";
 import CatchDetailScreen from "./screens/CatchDetailScreen";
+import NotificationsScreen from "./screens/NotificationsScreen";
+import LeaderboardScreen from "./screens/LeaderboardScreen";
+import PrizeClaimScreen from "./screens/PrizeClaimScreen";
 
 // Import styles
 import { navigationStyles, buildNavigationStyles } from "./styles/navigationStyles";
@@ -249,6 +252,11 @@ const AppContent: React.FC = () => {
           LegalDocument: 'legal/:type',
           Promotions: 'promotions',
           PartnerInquiry: 'partner-inquiry',
+          AnglerProfile: 'angler/:userId',
+          CatchDetail: 'catch/:reportId',
+          Notifications: 'notifications',
+          Leaderboard: 'leaderboard',
+          PrizeClaim: 'claim/:drawingId',
         },
       },
     }}>
@@ -397,6 +405,27 @@ const AppContent: React.FC = () => {
               gestureEnabled: true,
             }}
           />
+          <Stack.Screen
+            name="Notifications"
+            component={NotificationsScreen}
+            options={{
+              headerShown: false,
+            }}
+          />
+          <Stack.Screen
+            name="Leaderboard"
+            component={LeaderboardScreen}
+            options={{
+              headerShown: false,
+            }}
+          />
+          <Stack.Screen
+            name="PrizeClaim"
+            component={PrizeClaimScreen}
+            options={{
+              headerShown: false,
+            }}
+          />
         </Stack.Navigator>
       </NavigationContainer>
   );
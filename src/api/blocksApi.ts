@@ -1,11 +1,21 @@
 // api/blocksApi.ts
 //
 // React Query hooks for the user_blocks feature. Block toggles invalidate
-// the catch feed and the following feed since they both filter blocked users.
+// the catch feed, following feed, comments and follow lists since the
+// database filters blocked users out of all of them.
 
-import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { blockUser, unblockUser } from '../services/blocksService';
-import { FOLLOWING_FEED_QUERY_KEY } from './followsApi';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  blockUser,
+  unblockUser,
+  fetchBlockedAccounts,
+  BlockedAccount,
+} from '../services/blocksService';
+import { clearCatchFeedCache } from '../services/catchFeedService';
+import { FOLLOWING_FEED_QUERY_KEY, FOLLOW_QUERY_KEYS } from './followsApi';
+import { COMMENTS_QUERY_KEY } from './commentsApi';
+
+const BLOCKED_ACCOUNTS_KEY = 'blockedAccounts';
 
 interface BlockToggleVars {
   targetUserId: string;
@@ -13,29 +23,72 @@ interface BlockToggleVars {
 }
 
 /**
- * Block a user. On success invalidates feed queries so the blocked user's
- * catches disappear from both Discover and Following tabs.
+ * Queries whose contents change when a block is added or removed. Blocking
+ * also drops follows between the pair, so follow counts and lists refetch.
+ */
+function invalidateBlockDependents(qc: ReturnType<typeof useQueryClient>, vars: BlockToggleVars) {
+  qc.invalidateQueries({ queryKey: [FOLLOWING_FEED_QUERY_KEY] });
+  qc.invalidateQueries({ queryKey: [COMMENTS_QUERY_KEY] });
+  qc.invalidateQueries({ queryKey: [BLOCKED_ACCOUNTS_KEY, vars.viewerUserId] });
+  for (const key of FOLLOW_QUERY_KEYS) {
+    qc.invalidateQueries({ queryKey: [key] });
+  }
+  // v_catch_feed is read via direct supabase query (not React Query), so the
+  // parent screen owns the refetch; dropping the cache keeps it from
+  // restoring the blocked angler's catches.
+  clearCatchFeedCache();
+}
+
+/**
+ * Block a user. On settle invalidates feed, comment and follow queries so the
+ * blocked user disappears from Discover, Following and comment threads.
  */
 export function useBlockUser() {
   const qc = useQueryClient();
   return useMutation({
     mutationFn: (vars: BlockToggleVars) =>
       blockUser(vars.targetUserId, vars.viewerUserId),
-    onSettled: () => {
-      qc.invalidateQueries({ queryKey: [FOLLOWING_FEED_QUERY_KEY] });
-      // v_catch_feed is read via direct supabase query (not React Query),
-      // so the parent screen owns the refetch — exposed via callback.
-    },
+    onSettled: (_data, _err, vars) => invalidateBlockDependents(qc, vars),
   });
 }
 
+/**
+ * Unblock a user. Optimistically drops them from the blocked accounts list.
+ */
 export function useUnblockUser() {
   const qc = useQueryClient();
   return useMutation({
     mutationFn: (vars: BlockToggleVars) =>
       unblockUser(vars.targetUserId, vars.viewerUserId),
-    onSettled: () => {
-      qc.invalidateQueries({ queryKey: [FOLLOWING_FEED_QUERY_KEY] });
+
+    onMutate: async (vars) => {
+      const k = [BLOCKED_ACCOUNTS_KEY, vars.viewerUserId];
+      await qc.cancelQueries({ queryKey: k });
+      const previous = qc.getQueryData<BlockedAccount[]>(k);
+      qc.setQueryData<BlockedAccount[]>(k, (cur) =>
+        (cur ?? []).filter((a) => a.userId !== vars.targetUserId),
+      );
+      return { previous };
     },
+
+    onError: (_err, vars, ctx) => {
+      if (ctx?.previous !== undefined) {
+        qc.setQueryData([BLOCKED_ACCOUNTS_KEY, vars.viewerUserId], ctx.previous);
+      }
+    },
+
+    onSettled: (_data, _err, vars) => invalidateBlockDependents(qc, vars),
+  });
+}
+
+/**
+ * Fetch the anglers the viewer has blocked. Disabled when viewerUserId is null.
+ */
+export function useBlockedAccounts(viewerUserId: string | null) {
+  return useQuery<BlockedAccount[]>({
+    queryKey: [BLOCKED_ACCOUNTS_KEY, viewerUserId ?? 'disabled'],
+    queryFn: () => fetchBlockedAccounts(viewerUserId as string),
+    enabled: !!viewerUserId,
+    staleTime: 60 * 1000,
   });
 }
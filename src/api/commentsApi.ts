@@ -3,18 +3,20 @@
 // React Query hooks for the catch comments feature.
 //
 // Caching strategy:
-// - One query per reportId (key: ['comments', reportId])
-// - Optimistic insert + delete to keep the sheet feeling instant
+// - One query per reportId (key: ['comments', reportId]) holding the flat
+//   list, replies included; CommentsSheet threads it for display
+// - Optimistic insert, edit and delete to keep the sheet feeling instant
 // - On error, mutation rolls back and rethrows so the UI can toast
 
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import {
   fetchComments,
   addComment,
+  editComment,
   deleteComment,
   reportComment,
 } from '../services/commentsService';
-import { CatchComment } from '../types/catchFeed';
+import { CatchComment, CommentMention, ReportReasonCode } from '../types/catchFeed';
 
 export const COMMENTS_QUERY_KEY = 'comments';
 
@@ -42,18 +44,24 @@ interface AddCommentVars {
   anglerName: string;
   anglerProfileImage?: string;
   text: string;
+  /** Top-level comment being replied to */
+  parentId?: string | null;
+  mentions?: CommentMention[];
 }
 
 /**
- * Add a comment, optimistically prepending to the list while the network
- * round-trip completes. On error rolls back to the previous list.
+ * Add a comment or reply, optimistically appending to the list while the
+ * network round-trip completes. On error rolls back to the previous list.
  */
 export function useAddComment() {
   const qc = useQueryClient();
 
   return useMutation({
     mutationFn: (vars: AddCommentVars) =>
-      addComment(vars.reportId, vars.userId, vars.text),
+      addComment(vars.reportId, vars.userId, vars.text, {
+        parentId: vars.parentId,
+        mentions: vars.mentions,
+      }),
 
     onMutate: async (vars) => {
       const k = key(vars.reportId);
@@ -69,6 +77,8 @@ export function useAddComment() {
         text: vars.text,
         createdAt: new Date().toISOString(),
         isOwn: true,
+        parentId: vars.parentId ?? null,
+        mentions: vars.mentions ?? [],
       };
 
       qc.setQueryData<CatchComment[]>(k, [...(previous ?? []), optimistic]);
@@ -91,6 +101,57 @@ export function useAddComment() {
   });
 }
 
+interface EditCommentVars {
+  reportId: string;
+  commentId: string;
+  userId: string;
+  text: string;
+  mentions?: CommentMention[];
+}
+
+/**
+ * Edit a comment's text in place, rolling back on error.
+ */
+export function useEditComment() {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: (vars: EditCommentVars) =>
+      editComment(vars.commentId, vars.userId, vars.text, vars.mentions),
+
+    onMutate: async (vars) => {
+      const k = key(vars.reportId);
+      await qc.cancelQueries({ queryKey: k });
+      const previous = qc.getQueryData<CatchComment[]>(k);
+      qc.setQueryData<CatchComment[]>(k, (cur) =>
+        (cur ?? []).map((c) =>
+          c.id === vars.commentId
+            ? {
+                ...c,
+                text: vars.text,
+                mentions: vars.mentions ?? [],
+                editedAt: new Date().toISOString(),
+              }
+            : c,
+        ),
+      );
+      return { previous };
+    },
+
+    onSuccess: (real, vars) => {
+      qc.setQueryData<CatchComment[]>(key(vars.reportId), (cur) =>
+        (cur ?? []).map((c) => (c.id === real.id ? real : c)),
+      );
+    },
+
+    onError: (_err, vars, ctx) => {
+      if (ctx?.previous !== undefined) {
+        qc.setQueryData(key(vars.reportId), ctx.previous);
+      }
+    },
+  });
+}
+
 interface DeleteCommentVars {
   reportId: string;
   commentId: string;
@@ -106,8 +167,9 @@ export function useDeleteComment() {
       const k = key(vars.reportId);
       await qc.cancelQueries({ queryKey: k });
       const previous = qc.getQueryData<CatchComment[]>(k);
+      // Replies go with their parent
       qc.setQueryData<CatchComment[]>(k, (cur) =>
-        (cur ?? []).filter((c) => c.id !== vars.commentId),
+        (cur ?? []).filter((c) => c.id !== vars.commentId && c.parentId !== vars.commentId),
       );
       return { previous };
     },
@@ -123,12 +185,14 @@ export function useDeleteComment() {
 interface ReportCommentVars {
   commentId: string;
   reporterId: string;
-  reason?: string;
+  reasonCode: ReportReasonCode;
+  details?: string;
 }
 
 export function useReportComment() {
   return useMutation({
     mutationFn: (vars: ReportCommentVars) =>
-      reportComment(vars.commentId, vars.reporterId, vars.reason),
+      reportComment(vars.commentId, vars.reporterId, vars.reasonCode, vars.details),
   });
 }
+
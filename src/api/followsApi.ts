@@ -10,9 +10,15 @@ import {
   fetchFollowingFeed,
   fetchFollowers,
   fetchFollowing,
+  requestFollow,
+  cancelFollowRequest,
+  fetchFollowRequests,
+  respondToFollowRequest,
   FollowProfileData,
   FollowListMember,
+  FollowRequest,
 } from '../services/followsService';
+import type { FeedCursor } from '../types/catchFeed';
 
 const FOLLOW_PROFILE_KEY = 'followProfile';
 const FOLLOWING_FEED_KEY = 'followingFeed';
@@ -43,11 +49,17 @@ interface FollowToggleVars {
   targetUserId: string;
   viewerUserId: string;
   willFollow: boolean;
+  /** Target's profile is private: following sends a request instead */
+  isPrivate?: boolean;
+  /** Viewer has a pending request: un-following withdraws it */
+  isRequested?: boolean;
 }
 
 /**
  * Toggle follow state. Optimistically flips isFollowing + bumps followers/following
  * counts so the AnglerProfileModal feels instant. Rolls back on failure.
+ * For private profiles the toggle sends / withdraws a follow request instead,
+ * flipping isRequested and leaving the counts alone.
  *
  * Also invalidates the following feed so it'll refetch with the new follow set.
  */
@@ -56,8 +68,12 @@ export function useToggleFollow() {
 
   return useMutation({
     mutationFn: async (vars: FollowToggleVars) => {
-      if (vars.willFollow) {
+      if (vars.willFollow && vars.isPrivate) {
+        await requestFollow(vars.targetUserId, vars.viewerUserId);
+      } else if (vars.willFollow) {
         await followUser(vars.targetUserId, vars.viewerUserId);
+      } else if (vars.isRequested) {
+        await cancelFollowRequest(vars.targetUserId, vars.viewerUserId);
       } else {
         await unfollowUser(vars.targetUserId, vars.viewerUserId);
       }
@@ -73,8 +89,15 @@ export function useToggleFollow() {
           isFollowing: !vars.willFollow,
           followersCount: 0,
           followingCount: 0,
+          isPrivate: !!vars.isPrivate,
+          isRequested: !!vars.isRequested,
         };
+        const isRequestChange = vars.willFollow ? !!vars.isPrivate : !!vars.isRequested;
+        if (isRequestChange) {
+          return { ...base, isRequested: vars.willFollow };
+        }
         return {
+          ...base,
           isFollowing: vars.willFollow,
           followersCount: Math.max(
             0,
@@ -101,16 +124,16 @@ export function useToggleFollow() {
 
 /**
  * Fetch the current user's "Following" feed page. Caller controls pagination
- * by supplying the offset.
+ * by supplying the previous page's nextCursor (null for the first page).
  */
 export function useFollowingFeedPage(
   viewerUserId: string | null,
   limit = 12,
-  offset = 0,
+  cursor: FeedCursor | null = null,
 ) {
   return useQuery({
-    queryKey: [FOLLOWING_FEED_KEY, viewerUserId ?? 'anon', limit, offset],
-    queryFn: () => fetchFollowingFeed(limit, offset),
+    queryKey: [FOLLOWING_FEED_KEY, viewerUserId ?? 'anon', limit, cursor?.createdAt ?? null, cursor?.id ?? null],
+    queryFn: () => fetchFollowingFeed(limit, cursor),
     enabled: !!viewerUserId,
     staleTime: 30 * 1000,
   });
@@ -121,6 +144,9 @@ export const FOLLOWING_FEED_QUERY_KEY = FOLLOWING_FEED_KEY;
 const FOLLOWERS_LIST_KEY = 'followersList';
 const FOLLOWING_LIST_KEY = 'followingList';
 
+/** Follow state and lists that change when a block removes follows. */
+export const FOLLOW_QUERY_KEYS = [FOLLOW_PROFILE_KEY, FOLLOWERS_LIST_KEY, FOLLOWING_LIST_KEY] as const;
+
 /**
  * Fetch the list of users following the given target. Used by FollowListSheet.
  */
@@ -144,3 +170,60 @@ export function useFollowingList(sourceUserId: string | null) {
     staleTime: 30 * 1000,
   });
 }
+
+const FOLLOW_REQUESTS_KEY = 'followRequests';
+
+/**
+ * Fetch pending follow requests sent to the viewer. Used by FollowListSheet.
+ */
+export function useFollowRequests(viewerUserId: string | null) {
+  return useQuery<FollowRequest[]>({
+    queryKey: [FOLLOW_REQUESTS_KEY, viewerUserId ?? 'disabled'],
+    queryFn: () => fetchFollowRequests(viewerUserId as string),
+    enabled: !!viewerUserId,
+    staleTime: 30 * 1000,
+  });
+}
+
+interface FollowRequestResponseVars {
+  requesterUserId: string;
+  viewerUserId: string;
+  approve: boolean;
+}
+
+/**
+ * Approve or deny a follow request. Optimistically drops the request from the
+ * list; approving also refetches the viewer's followers list and counts.
+ */
+export function useRespondToFollowRequest() {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: (vars: FollowRequestResponseVars) =>
+      respondToFollowRequest(vars.requesterUserId, vars.approve),
+
+    onMutate: async (vars) => {
+      const k = [FOLLOW_REQUESTS_KEY, vars.viewerUserId];
+      await qc.cancelQueries({ queryKey: k });
+      const previous = qc.getQueryData<FollowRequest[]>(k);
+      qc.setQueryData<FollowRequest[]>(k, (cur) =>
+        (cur ?? []).filter((r) => r.requester.userId !== vars.requesterUserId),
+      );
+      return { previous };
+    },
+
+    onError: (_err, vars, ctx) => {
+      if (ctx?.previous !== undefined) {
+        qc.setQueryData([FOLLOW_REQUESTS_KEY, vars.viewerUserId], ctx.previous);
+      }
+    },
+
+    onSettled: (_data, _err, vars) => {
+      qc.invalidateQueries({ queryKey: [FOLLOW_REQUESTS_KEY, vars.viewerUserId] });
+      if (vars.approve) {
+        qc.invalidateQueries({ queryKey: [FOLLOWERS_LIST_KEY, vars.viewerUserId] });
+        qc.invalidateQueries({ queryKey: [FOLLOW_PROFILE_KEY, vars.viewerUserId] });
+      }
+    },
+  });
+}
@@ -0,0 +1,31 @@
+// api/leaderboardApi.ts
+//
+// React Query hook for the leaderboard screen. One query per combination of
+// metric, period, species and region, so switching back to a board that was
+// already loaded is instant.
+
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { fetchLeaderboard } from '../services/leaderboardService';
+import { Leaderboard, LeaderboardQuery } from '../types/leaderboard';
+
+export const LEADERBOARD_QUERY_KEY = 'leaderboard';
+
+/**
+ * Fetch a ranked leaderboard. Keeps showing the previous board while a new
+ * selection loads.
+ */
+export function useLeaderboard(query: LeaderboardQuery) {
+  return useQuery<Leaderboard>({
+    queryKey: [
+      LEADERBOARD_QUERY_KEY,
+      query.metric,
+      query.period,
+      query.species ?? 'all',
+      query.region ?? 'all',
+      query.limit ?? 'default',
+    ],
+    queryFn: () => fetchLeaderboard(query),
+    placeholderData: keepPreviousData,
+    staleTime: 5 * 60 * 1000,
+  });
+}
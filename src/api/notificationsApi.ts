@@ -0,0 +1,77 @@
+// api/notificationsApi.ts
+//
+// React Query hooks for the notification inbox. One query per user holds
+// the whole inbox; the drawer badge derives its unread count from it, so
+// marking read updates the badge and the inbox together.
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchNotifications,
+  markNotificationsRead,
+  markAllNotificationsRead,
+  getUnreadCount,
+} from '../services/notificationsService';
+import { AppNotification } from '../types/notifications';
+
+export const NOTIFICATIONS_QUERY_KEY = 'notifications';
+
+interface MarkReadVars {
+  userId: string;
+  /** Notification ids to mark read; omit to mark everything read */
+  ids?: string[];
+}
+
+/**
+ * Fetch the viewer's inbox. Disabled when userId is null.
+ */
+export function useNotifications(userId: string | null) {
+  return useQuery<AppNotification[]>({
+    queryKey: [NOTIFICATIONS_QUERY_KEY, userId ?? 'disabled'],
+    queryFn: () => fetchNotifications(userId as string),
+    enabled: !!userId,
+    staleTime: 60 * 1000,
+  });
+}
+
+/**
+ * Unread notifications for the drawer badge. 0 while loading or signed out.
+ */
+export function useUnreadNotificationCount(userId: string | null): number {
+  const { data } = useNotifications(userId);
+  return data ? getUnreadCount(data) : 0;
+}
+
+/**
+ * Mark some or all notifications read, optimistically.
+ */
+export function useMarkNotificationsRead() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (vars: MarkReadVars) =>
+      vars.ids
+        ? markNotificationsRead(vars.userId, vars.ids)
+        : markAllNotificationsRead(vars.userId),
+
+    onMutate: async (vars) => {
+      const k = [NOTIFICATIONS_QUERY_KEY, vars.userId];
+      await qc.cancelQueries({ queryKey: k });
+      const previous = qc.getQueryData<AppNotification[]>(k);
+      const ids = vars.ids ? new Set(vars.ids) : null;
+      const readAt = new Date().toISOString();
+      qc.setQueryData<AppNotification[]>(k, (cur) =>
+        (cur ?? []).map((n) => (!n.readAt && (!ids || ids.has(n.id)) ? { ...n, readAt } : n)),
+      );
+      return { previous };
+    },
+
+    onError: (_err, vars, ctx) => {
+      if (ctx?.previous !== undefined) {
+        qc.setQueryData([NOTIFICATIONS_QUERY_KEY, vars.userId], ctx.previous);
+      }
+    },
+
+    onSettled: (_data, _err, vars) => {
+      qc.invalidateQueries({ queryKey: [NOTIFICATIONS_QUERY_KEY, vars.userId] });
+    },
+  });
+}
@@ -5,11 +5,13 @@ import {
   fetchFishSpeciesById,
   searchFishSpecies,
 } from '../services/fishSpeciesService';
+import { fetchRegulationRecords } from '../services/regulationService';
 
 // Cache keys for queries
 export const QUERY_KEYS = {
   FISH_SPECIES: 'fishSpecies',
   FISH_SPECIES_BY_ID: (id: string) => ['fishSpecies', id],
+  REGULATION_RECORDS: 'regulationRecords',
 };
 
 /**
@@ -60,4 +62,15 @@ export const useSearchFishSpecies = (query: string) => {
     queryFn: () => searchFishSpecies(query),
     enabled: query.length > 2, // Only search when query is at least 3 characters
   });
-};
\ No newline at end of file
+};
+
+/**
+ * Hook to get dated regulation records (rules history + closure bulletins)
+ */
+export const useRegulationRecords = () => {
+  return useQuery({
+    queryKey: [QUERY_KEYS.REGULATION_RECORDS],
+    queryFn: fetchRegulationRecords,
+    staleTime: 30 * 60 * 1000, // 30 minutes — history only changes when new rules are imported
+  });
+};
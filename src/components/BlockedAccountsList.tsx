@@ -0,0 +1,144 @@
+// components/BlockedAccountsList.tsx
+//
+// "Blocked Accounts" list on the profile screen: anglers the viewer has
+// blocked, each with an Unblock button (confirmed with an Alert). Renders
+// plain rows rather than a FlatList since it sits inside the profile
+// ScrollView.
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from 'react-native';
+import { Image } from 'expo-image';
+import { spacing, borderRadius } from '../styles/common';
+import { useTheme } from '../contexts/ThemeContext';
+import { useThemedStyles } from '../hooks/useThemedStyles';
+import { Theme } from '../styles/theme';
+import { useBlockedAccounts, useUnblockUser } from '../api/blocksApi';
+import { BlockedAccount } from '../services/blocksService';
+
+interface BlockedAccountsListProps {
+  /** The viewer's rewards user id */
+  userId: string;
+}
+
+const BlockedAccountsList: React.FC<BlockedAccountsListProps> = ({ userId }) => {
+  const { theme } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  const blockedQuery = useBlockedAccounts(userId);
+  const unblock = useUnblockUser();
+  const accounts = blockedQuery.data ?? [];
+
+  const handleUnblock = (account: BlockedAccount) => {
+    Alert.alert(
+      `Unblock ${account.displayName}?`,
+      'They will be able to see your catches and comments again, and you will see theirs. Follows removed by the block are not restored.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Unblock',
+          onPress: () => unblock.mutate({ targetUserId: account.userId, viewerUserId: userId }),
+        },
+      ],
+    );
+  };
+
+  if (blockedQuery.isLoading) {
+    return <ActivityIndicator size="small" color={theme.colors.primary} style={styles.loading} />;
+  }
+
+  if (blockedQuery.isError) {
+    return <Text style={styles.emptyText}>Unable to load blocked accounts.</Text>;
+  }
+
+  if (accounts.length === 0) {
+    return <Text style={styles.emptyText}>You haven't blocked anyone.</Text>;
+  }
+
+  return (
+    <View>
+      {accounts.map((account) => (
+        <View key={account.userId} style={styles.row}>
+          {account.profileImage ? (
+            <Image
+              source={{ uri: account.profileImage }}
+              style={styles.avatar}
+              contentFit="cover"
+              cachePolicy="memory-disk"
+            />
+          ) : (
+            <View style={styles.avatarPlaceholder}>
+              <Text style={styles.avatarInitial}>
+                {account.displayName.charAt(0).toUpperCase()}
+              </Text>
+            </View>
+          )}
+          <Text style={styles.name}>{account.displayName}</Text>
+          <TouchableOpacity
+            style={styles.unblockButton}
+            onPress={() => handleUnblock(account)}
+            accessibilityLabel={`Unblock ${account.displayName}`}
+            activeOpacity={0.85}
+          >
+            <Text style={styles.unblockText}>Unblock</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const createStyles = (theme: Theme) =>
+  StyleSheet.create({
+    loading: {
+      marginVertical: spacing.sm,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: theme.colors.textSecondary,
+      lineHeight: 20,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: spacing.xs,
+      gap: 12,
+    },
+    avatar: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+    },
+    avatarPlaceholder: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      backgroundColor: theme.colors.primaryLight,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    avatarInitial: {
+      color: theme.colors.primary,
+      fontSize: 14,
+      fontWeight: '700',
+    },
+    name: {
+      flex: 1,
+      fontSize: 15,
+      fontWeight: '600',
+      color: theme.colors.textPrimary,
+    },
+    unblockButton: {
+      paddingHorizontal: spacing.md,
+      paddingVertical: 6,
+      borderRadius: borderRadius.md,
+      borderWidth: 1,
+      borderColor: theme.colors.divider,
+    },
+    unblockText: {
+      fontSize: 13,
+      fontWeight: '700',
+      color: theme.colors.textPrimary,
+    },
+  });
+
+export default BlockedAccountsList;
@@ -4,6 +4,7 @@
 // Features clean design without accent bars, glassmorphism badges,
 // and polished angler section matching the ultra-premium aesthetic.
 // Now supports displaying multiple species from a single submission.
+// Long-pressing the like button opens the reaction picker.
 
 import React, { memo, useCallback, useMemo, useState } from 'react';
 import {
@@ -20,12 +21,13 @@ import {
 import { Image } from 'expo-image';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Feather, Ionicons } from '@expo/vector-icons';
-import { CatchFeedEntry, SpeciesCatch, formatRelativeTime } from '../types/catchFeed';
+import { CatchFeedEntry, CatchReaction, SpeciesCatch, formatRelativeTime } from '../types/catchFeed';
 import { spacing, borderRadius } from '../styles/common';
 import { useTheme } from '../contexts/ThemeContext';
 import { useThemedStyles } from '../hooks/useThemedStyles';
 import { Theme } from '../styles/theme';
 import { getSpeciesTheme } from '../constants/speciesColors';
+import { CATCH_REACTION_OPTIONS, getReactionOption, topReactions } from '../constants/reactions';
 import CatchInfoBadge from './CatchInfoBadge';
 import SpeciesPlaceholder from './SpeciesPlaceholder';
 
@@ -34,6 +36,8 @@ interface CatchCardProps {
   onAnglerPress?: (userId: string) => void;
   onCardPress?: (entry: CatchFeedEntry) => void;
   onLikePress?: (entry: CatchFeedEntry) => void;
+  // Picking the viewer's current reaction again passes null (removes it)
+  onReactionSelect?: (entry: CatchFeedEntry, reaction: CatchReaction | null) => void;
   onCommentPress?: (entry: CatchFeedEntry) => void;
   compact?: boolean;
   // Species image URL to show when user hasn't submitted their own photo
@@ -45,6 +49,7 @@ const CatchCard: React.FC<CatchCardProps> = ({
   onAnglerPress,
   onCardPress,
   onLikePress,
+  onReactionSelect,
   onCommentPress,
   compact = false,
   speciesImageUrl,
@@ -87,9 +92,30 @@ const CatchCard: React.FC<CatchCardProps> = ({
     onAnglerPress?.(entry.userId);
   }, [onAnglerPress, entry.userId]);
 
+  const [reactionPickerOpen, setReactionPickerOpen] = useState(false);
+
   const handleLikePress = useCallback(() => {
+    // A tap while the picker is open just dismisses it
+    if (reactionPickerOpen) {
+      setReactionPickerOpen(false);
+      return;
+    }
     onLikePress?.(entry);
-  }, [onLikePress, entry]);
+  }, [onLikePress, entry, reactionPickerOpen]);
+
+  const handleLikeLongPress = useCallback(() => {
+    setReactionPickerOpen(true);
+  }, []);
+
+  const handleReactionSelect = useCallback((reaction: CatchReaction) => {
+    setReactionPickerOpen(false);
+    onReactionSelect?.(entry, reaction === entry.myReaction ? null : reaction);
+  }, [onReactionSelect, entry]);
+
+  const reactionSummary = useMemo(
+    () => topReactions(entry.reactionCounts),
+    [entry.reactionCounts],
+  );
 
   const handleCommentPress = useCallback(() => {
     onCommentPress?.(entry);
@@ -403,17 +429,49 @@ const CatchCard: React.FC<CatchCardProps> = ({
 
         {/* Actions row: like + comment */}
         <View style={styles.actionsRow}>
+          {reactionPickerOpen && (
+            <View style={styles.reactionPicker}>
+              {CATCH_REACTION_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.reactionOption,
+                    entry.myReaction === option.value && styles.reactionOptionActive,
+                  ]}
+                  onPress={() => handleReactionSelect(option.value)}
+                  accessibilityRole="button"
+                  accessibilityLabel={option.label}
+                  accessibilityState={{ selected: entry.myReaction === option.value }}
+                >
+                  <Text style={styles.reactionEmoji}>{option.emoji}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
           <TouchableOpacity
             style={styles.likeButton}
             onPress={handleLikePress}
+            onLongPress={onReactionSelect ? handleLikeLongPress : undefined}
             activeOpacity={0.7}
             hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            accessibilityRole="button"
+            accessibilityLabel={entry.isLikedByCurrentUser ? 'Remove reaction' : 'Like'}
+            accessibilityHint={onReactionSelect ? 'Long press to choose a reaction' : undefined}
           >
-            <Ionicons
-              name={entry.isLikedByCurrentUser ? 'heart' : 'heart-outline'}
-              size={22}
-              color={entry.isLikedByCurrentUser ? '#E53935' : theme.colors.textTertiary}
-            />
+            {entry.myReaction ? (
+              <Text style={styles.reactionEmoji}>{getReactionOption(entry.myReaction).emoji}</Text>
+            ) : (
+              <Ionicons
+                name={entry.isLikedByCurrentUser ? 'heart' : 'heart-outline'}
+                size={22}
+                color={entry.isLikedByCurrentUser ? '#E53935' : theme.colors.textTertiary}
+              />
+            )}
+            {entry.likeCount > 0 && reactionSummary.length > 0 && (
+              <Text style={styles.reactionSummary}>
+                {reactionSummary.map(option => option.emoji).join('')}
+              </Text>
+            )}
             {entry.likeCount > 0 && (
               <Text style={[
                 styles.likeCount,
@@ -637,6 +695,37 @@ const createStyles = (theme: Theme) => StyleSheet.create({
   likeCountActive: {
     color: '#E53935',
   },
+  reactionSummary: {
+    fontSize: 12,
+    marginLeft: 5,
+  },
+  reactionPicker: {
+    position: 'absolute',
+    bottom: '100%',
+    right: 0,
+    marginBottom: 6,
+    flexDirection: 'row',
+    backgroundColor: theme.colors.surfaceElevated,
+    borderRadius: borderRadius.xl,
+    paddingHorizontal: 4,
+    paddingVertical: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 6,
+    elevation: 6,
+  },
+  reactionOption: {
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+    borderRadius: borderRadius.lg,
+  },
+  reactionOptionActive: {
+    backgroundColor: theme.colors.primaryLight,
+  },
+  reactionEmoji: {
+    fontSize: 20,
+  },
   commentCount: {
     fontSize: 14,
     fontWeight: '600',
@@ -721,6 +810,8 @@ const arePropsEqual = (prevProps: CatchCardProps, nextProps: CatchCardProps): bo
     prevProps.entry.id === nextProps.entry.id &&
     prevProps.entry.likeCount === nextProps.entry.likeCount &&
     prevProps.entry.isLikedByCurrentUser === nextProps.entry.isLikedByCurrentUser &&
+    prevProps.entry.myReaction === nextProps.entry.myReaction &&
+    prevProps.entry.reactionCounts === nextProps.entry.reactionCounts &&
     prevProps.entry.commentCount === nextProps.entry.commentCount &&
     prevProps.entry.photoUrls === nextProps.entry.photoUrls &&
     prevProps.entry.photoUrl === nextProps.entry.photoUrl &&
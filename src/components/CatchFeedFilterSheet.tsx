@@ -0,0 +1,259 @@
+// components/CatchFeedFilterSheet.tsx
+//
+// Bottom sheet for filtering the Discover feed by species, region, date
+// window and report source. Edits a draft and only hands the filter back on
+// "Show Catches", so the feed reloads once per change rather than per tap.
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import BottomDrawer from './BottomDrawer';
+import SpeciesFilterChips, { FilterChipConfig } from './SpeciesFilterChips';
+import { SPECIES, SpeciesCountKey } from '../constants/species';
+import { SPECIES_THEMES } from '../constants/speciesColors';
+import { REGION_OPTIONS } from '../constants/regionOptions';
+import { toDateKey } from '../utils/regulationResolver';
+import { CatchFeedFilter, CatchFeedReportType } from '../types/catchFeed';
+import { spacing } from '../styles/common';
+import { useTheme } from '../contexts/ThemeContext';
+import { useThemedStyles } from '../hooks/useThemedStyles';
+import { Theme } from '../styles/theme';
+
+// ============================================
+// DATE WINDOWS
+// ============================================
+
+export interface DateWindowOption {
+  key: string;
+  label: string;
+  /** Days back from today, counting today (0 = any time) */
+  days: number;
+}
+
+export const DATE_WINDOW_OPTIONS: readonly DateWindowOption[] = [
+  { key: 'any', label: 'Any Time', days: 0 },
+  { key: 'today', label: 'Today', days: 1 },
+  { key: 'week', label: 'Past 7 Days', days: 7 },
+  { key: 'month', label: 'Past 30 Days', days: 30 },
+];
+
+/**
+ * Earliest harvest date for a date window, or undefined for "any time".
+ */
+export function dateWindowStart(days: number, today: Date = new Date()): string | undefined {
+  if (days <= 0) return undefined;
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() - (days - 1));
+  return toDateKey(start);
+}
+
+const SOURCE_OPTIONS: ReadonlyArray<{ value: CatchFeedReportType; label: string; icon: string }> = [
+  { value: 'catch_log', label: 'Catch Logs', icon: 'book-open' },
+  { value: 'dmf_harvest', label: 'Harvest Reports', icon: 'file-text' },
+];
+
+// ============================================
+// COMPONENT
+// ============================================
+
+interface CatchFeedFilterSheetProps {
+  visible: boolean;
+  filter: CatchFeedFilter;
+  onApply: (filter: CatchFeedFilter) => void;
+  onClose: () => void;
+}
+
+const CatchFeedFilterSheet: React.FC<CatchFeedFilterSheetProps> = ({
+  visible,
+  filter,
+  onApply,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [draft, setDraft] = useState<CatchFeedFilter>(filter);
+
+  // Start from the applied filter each time the sheet opens
+  useEffect(() => {
+    if (visible) setDraft(filter);
+  }, [visible, filter]);
+
+  const update = (changes: Partial<CatchFeedFilter>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const toggleSpecies = (key: SpeciesCountKey) => {
+    const current = draft.species ?? [];
+    const next = current.includes(key) ? current.filter(k => k !== key) : [...current, key];
+    update({ species: next.length > 0 ? next : undefined });
+  };
+
+  const speciesChips: FilterChipConfig[] = SPECIES.map(info => {
+    const isActive = draft.species?.includes(info.countKey) ?? false;
+    return {
+      key: info.countKey,
+      label: info.shortName,
+      icon: isActive ? 'check' : 'plus',
+      isActive,
+      onToggle: () => toggleSpecies(info.countKey),
+      color: SPECIES_THEMES[info.id]?.primary ?? theme.colors.primary,
+    };
+  });
+
+  // Region and area are alternatives; picking a region clears the area
+  const regionChips: FilterChipConfig[] = REGION_OPTIONS.map(region => ({
+    key: region.value,
+    label: region.shortLabel,
+    icon: 'map-pin',
+    isActive: draft.region === region.value,
+    onToggle: () => update({
+      region: draft.region === region.value ? undefined : region.value,
+      areaCode: undefined,
+    }),
+    color: theme.colors.primary,
+  }));
+
+  const dateChips: FilterChipConfig[] = DATE_WINDOW_OPTIONS.map(option => {
+    const dateFrom = dateWindowStart(option.days);
+    return {
+      key: option.key,
+      label: option.label,
+      icon: 'calendar',
+      isActive: draft.dateFrom === dateFrom && !draft.dateTo,
+      onToggle: () => update({ dateFrom, dateTo: undefined }),
+      color: theme.colors.primary,
+    };
+  });
+
+  const sourceChips: FilterChipConfig[] = SOURCE_OPTIONS.map(source => ({
+    key: source.value,
+    label: source.label,
+    icon: source.icon,
+    isActive: draft.reportType === source.value,
+    onToggle: () => update({
+      reportType: draft.reportType === source.value ? undefined : source.value,
+    }),
+    color: theme.colors.primary,
+  }));
+
+  const sections: Array<{ title: string; chips: FilterChipConfig[] }> = [
+    { title: 'Species', chips: speciesChips },
+    { title: 'Region', chips: regionChips },
+    { title: 'When', chips: dateChips },
+    { title: 'Source', chips: sourceChips },
+  ];
+
+  return (
+    <BottomDrawer visible={visible} onClose={onClose} maxHeight="80%">
+      <View style={styles.header}>
+        <Text style={styles.title}>Filter Catches</Text>
+        <TouchableOpacity
+          onPress={onClose}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          accessibilityLabel="Close filters"
+        >
+          <Feather name="x" size={24} color={theme.colors.textPrimary} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.body} showsVerticalScrollIndicator={false}>
+        {sections.map(section => (
+          <View key={section.title} style={styles.section}>
+            <Text style={styles.sectionTitle}>{section.title}</Text>
+            {/* Chips scroll sideways; SpeciesFilterChips lays out a single row */}
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.chipRow}
+            >
+              <SpeciesFilterChips filters={section.chips} isExpanded />
+            </ScrollView>
+          </View>
+        ))}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={styles.resetButton}
+          onPress={() => setDraft({})}
+          activeOpacity={0.85}
+        >
+          <Text style={styles.resetText}>Reset</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.applyButton}
+          onPress={() => {
+            onApply(draft);
+            onClose();
+          }}
+          activeOpacity={0.85}
+        >
+          <Text style={styles.applyText}>Show Catches</Text>
+        </TouchableOpacity>
+      </View>
+    </BottomDrawer>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0, 0, 0, 0.08)',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: theme.colors.textPrimary,
+  },
+  body: {
+    paddingHorizontal: spacing.md,
+  },
+  section: {
+    marginTop: spacing.md,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: theme.colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  chipRow: {
+    // Room for the count badge that sits above each chip
+    paddingTop: 6,
+    paddingRight: spacing.md,
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    padding: spacing.md,
+  },
+  resetButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 14,
+    borderWidth: 1.5,
+    borderColor: 'rgba(0, 0, 0, 0.08)',
+  },
+  resetText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+  },
+  applyButton: {
+    flex: 2,
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 14,
+    backgroundColor: theme.colors.primary,
+  },
+  applyText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: theme.colors.textOnPrimary,
+  },
+});
+
+export default CatchFeedFilterSheet;
@@ -4,8 +4,10 @@
 // Slides up from the bottom, takes ~75% of screen height,
 // hosts a scrollable comment list and a sticky composer.
 //
-// Currently wired to mock data — replace `comments` prop source once the
-// catch_comments table and React Query hooks land.
+// Comments are threaded one level deep: replies sit indented under their
+// top-level comment, and long threads collapse behind "View N more replies".
+// The composer doubles as the reply and edit box, and @mentions of anglers
+// in the thread link to their profiles.
 
 import React, { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
@@ -21,12 +23,27 @@ import {
   Keyboard,
   Platform,
   FlatList,
+  ScrollView,
   Dimensions,
   Alert,
 } from 'react-native';
 import { Image } from 'expo-image';
 import { Feather } from '@expo/vector-icons';
-import { CatchComment, formatRelativeTime } from '../types/catchFeed';
+import {
+  CatchComment,
+  CommentMention,
+  ReportReasonCode,
+  formatRelativeTime,
+} from '../types/catchFeed';
+import ReportReasonList from './ReportReasonList';
+import {
+  threadComments,
+  replyParentId,
+  splitMentionSegments,
+  findMentions,
+  activeMentionQuery,
+  completeMention,
+} from '../utils/commentThreads';
 import { spacing, borderRadius } from '../styles/common';
 import { useTheme } from '../contexts/ThemeContext';
 import { useThemedStyles } from '../hooks/useThemedStyles';
@@ -35,19 +52,34 @@ import { Theme } from '../styles/theme';
 const SHEET_HEIGHT_RATIO = 0.75; // 75% of screen height
 const COMMENT_MAX_LENGTH = 500;
 const COMMENT_LENGTH_WARN_THRESHOLD = 450;
+const REPLY_PREVIEW_COUNT = 2; // Replies shown before "View N more replies"
+const MAX_MENTION_SUGGESTIONS = 5;
+
+type SheetRow =
+  | { kind: 'comment'; comment: CatchComment; isReply: boolean }
+  | { kind: 'toggle'; parentId: string; hiddenCount: number; expanded: boolean };
+
+interface SubmitOptions {
+  parentId: string | null;
+  mentions: CommentMention[];
+}
 
 interface CommentsSheetProps {
   visible: boolean;
   onClose: () => void;
   comments: CatchComment[];
   reportId: string | null;
-  // Called when the user submits a new comment. Parent is responsible for
-  // optimistically prepending to the comments list and rolling back on error.
-  onSubmit?: (text: string) => Promise<void> | void;
+  // Called when the user submits a new comment or reply. Parent is responsible
+  // for optimistically appending to the comments list and rolling back on error.
+  onSubmit?: (text: string, options: SubmitOptions) => Promise<void> | void;
+  // Called when the user saves an edit to their own comment.
+  onEdit?: (commentId: string, text: string, mentions: CommentMention[]) => Promise<void> | void;
+  // Called when the user taps an "Edited" marker.
+  onShowHistory?: (comment: CatchComment) => void;
   // Called when the user confirms deletion of their own comment.
   onDelete?: (commentId: string) => Promise<void> | void;
   // Called when the user reports another user's comment.
-  onReport?: (commentId: string) => void;
+  onReport?: (commentId: string, reasonCode: ReportReasonCode) => void;
   // Called when the user taps an angler name/avatar inside a comment row.
   onAnglerPress?: (userId: string) => void;
   // Whether the user is signed in / a rewards member. Drives composer state.
@@ -61,6 +93,8 @@ const CommentsSheet: React.FC<CommentsSheetProps> = ({
   comments,
   reportId,
   onSubmit,
+  onEdit,
+  onShowHistory,
   onDelete,
   onReport,
   onAnglerPress,
@@ -81,6 +115,11 @@ const CommentsSheet: React.FC<CommentsSheetProps> = ({
 
   const [draft, setDraft] = useState('');
   const [submitting, setSubmitting] = useState(false);
+  const [replyTo, setReplyTo] = useState<CatchComment | null>(null);
+  const [editing, setEditing] = useState<CatchComment | null>(null);
+  // Comment being reported; swaps the list for the reason picker
+  const [reportTarget, setReportTarget] = useState<CatchComment | null>(null);
+  const [expandedThreads, setExpandedThreads] = useState<Set<string>>(() => new Set());
 
   // Track the live keyboard height so the sheet can shrink (top stays fixed,
   // bottom rises) when the keyboard appears. Instagram-style — much less
@@ -145,11 +184,87 @@ const CommentsSheet: React.FC<CommentsSheetProps> = ({
     }
   }, [visible, rendered, anim]);
 
-  // Reset draft whenever the sheet is opened for a different report.
+  // Reset the composer whenever the sheet is opened for a different report.
   useEffect(() => {
-    if (visible) setDraft('');
+    if (visible) {
+      setDraft('');
+      setReplyTo(null);
+      setEditing(null);
+      setReportTarget(null);
+      setExpandedThreads(new Set());
+    }
   }, [visible, reportId]);
 
+  const rows = useMemo(() => {
+    const out: SheetRow[] = [];
+    for (const { comment, replies } of threadComments(comments)) {
+      out.push({ kind: 'comment', comment, isReply: false });
+      const expanded = expandedThreads.has(comment.id);
+      const shown = expanded ? replies : replies.slice(0, REPLY_PREVIEW_COUNT);
+      shown.forEach((reply) => out.push({ kind: 'comment', comment: reply, isReply: true }));
+      if (replies.length > REPLY_PREVIEW_COUNT) {
+        out.push({
+          kind: 'toggle',
+          parentId: comment.id,
+          hiddenCount: replies.length - shown.length,
+          expanded,
+        });
+      }
+    }
+    return out;
+  }, [comments, expandedThreads]);
+
+  // Anglers who can be @mentioned: everyone else in the thread
+  const mentionCandidates = useMemo(() => {
+    const byUser = new Map<string, CommentMention>();
+    for (const c of comments) {
+      if (!c.isOwn) byUser.set(c.userId, { userId: c.userId, displayName: c.anglerName });
+      c.mentions.forEach((m) => byUser.set(m.userId, m));
+    }
+    return [...byUser.values()];
+  }, [comments]);
+
+  const mentionQuery = activeMentionQuery(draft);
+  const mentionSuggestions = useMemo(() => {
+    if (mentionQuery === null) return [];
+    const q = mentionQuery.toLowerCase();
+    return mentionCandidates
+      .filter((m) => m.displayName.toLowerCase().startsWith(q))
+      .slice(0, MAX_MENTION_SUGGESTIONS);
+  }, [mentionCandidates, mentionQuery]);
+
+  const toggleThread = useCallback((parentId: string) => {
+    setExpandedThreads((prev) => {
+      const next = new Set(prev);
+      if (next.has(parentId)) next.delete(parentId);
+      else next.add(parentId);
+      return next;
+    });
+  }, []);
+
+  const startReply = useCallback((comment: CatchComment) => {
+    const parentId = replyParentId(comment);
+    setEditing(null);
+    setReplyTo(comment);
+    setDraft(comment.isOwn ? '' : `@${comment.anglerName} `);
+    // Keep the reply visible once it's posted
+    setExpandedThreads((prev) => new Set(prev).add(parentId));
+    inputRef.current?.focus();
+  }, []);
+
+  const startEdit = useCallback((comment: CatchComment) => {
+    setReplyTo(null);
+    setEditing(comment);
+    setDraft(comment.text);
+    inputRef.current?.focus();
+  }, []);
+
+  const cancelComposerMode = useCallback(() => {
+    setReplyTo(null);
+    setEditing(null);
+    setDraft('');
+  }, []);
+
   // Wrap parent's onClose so we proactively dismiss the keyboard. Without this,
   // the keyboard would stay up during the slide-down animation and reappear
   // briefly until the sheet finishes unmounting.
@@ -173,59 +288,86 @@ const CommentsSheet: React.FC<CommentsSheetProps> = ({
   const showCounter = draft.length >= COMMENT_LENGTH_WARN_THRESHOLD;
 
   const handleSubmit = useCallback(async () => {
-    if (!canSubmit || !onSubmit) return;
+    if (!canSubmit) return;
+    const mentions = findMentions(trimmedDraft, [
+      ...mentionCandidates,
+      ...(editing?.mentions ?? []),
+    ]);
     setSubmitting(true);
     try {
-      await onSubmit(trimmedDraft);
-      setDraft('');
+      if (editing) {
+        if (!onEdit) return;
+        if (trimmedDraft !== editing.text) {
+          await onEdit(editing.id, trimmedDraft, mentions);
+        }
+      } else {
+        if (!onSubmit) return;
+        await onSubmit(trimmedDraft, {
+          parentId: replyTo ? replyParentId(replyTo) : null,
+          mentions,
+        });
+      }
+      cancelComposerMode();
     } catch {
       // Parent handles user-facing error toast; we just leave the draft so
       // the user can retry without retyping.
     } finally {
       setSubmitting(false);
     }
-  }, [canSubmit, onSubmit, trimmedDraft]);
+  }, [
+    canSubmit,
+    onSubmit,
+    onEdit,
+    trimmedDraft,
+    editing,
+    replyTo,
+    mentionCandidates,
+    cancelComposerMode,
+  ]);
 
   const handleLongPress = useCallback(
     (comment: CatchComment) => {
       if (comment.isOwn) {
+        const hasReplies = !comment.parentId && comments.some((c) => c.parentId === comment.id);
         Alert.alert(
-          'Delete comment?',
-          'This will permanently remove your comment.',
+          onEdit ? 'Your comment' : 'Delete comment?',
+          hasReplies
+            ? 'Deleting removes your comment and its replies.'
+            : 'Deleting permanently removes your comment.',
           [
             { text: 'Cancel', style: 'cancel' },
+            ...(onEdit ? [{ text: 'Edit', onPress: () => startEdit(comment) }] : []),
             {
               text: 'Delete',
-              style: 'destructive',
+              style: 'destructive' as const,
               onPress: () => onDelete?.(comment.id),
             },
           ],
         );
-      } else {
-        Alert.alert(
-          'Report comment',
-          'Report this comment for review by our moderation team.',
-          [
-            { text: 'Cancel', style: 'cancel' },
-            {
-              text: 'Report',
-              style: 'destructive',
-              onPress: () => onReport?.(comment.id),
-            },
-          ],
-        );
+      } else if (onReport) {
+        setReportTarget(comment);
       }
     },
-    [onDelete, onReport],
+    [comments, onEdit, onDelete, onReport, startEdit],
+  );
+
+  const handleReportReason = useCallback(
+    (reasonCode: ReportReasonCode) => {
+      if (!reportTarget) return;
+      onReport?.(reportTarget.id, reasonCode);
+      setReportTarget(null);
+      Alert.alert('Thanks for letting us know', 'A moderator will review this comment.');
+    },
+    [reportTarget, onReport],
   );
 
   const renderComment = useCallback(
-    ({ item }: { item: CatchComment }) => (
+    (item: CatchComment, isReply: boolean) => (
       <TouchableOpacity
         activeOpacity={0.85}
         onLongPress={() => handleLongPress(item)}
         delayLongPress={350}
-        style={styles.commentRow}
+        style={[styles.commentRow, isReply && styles.replyRow]}
       >
         <TouchableOpacity
           onPress={() => onAnglerPress?.(item.userId)}
@@ -235,12 +377,12 @@ const CommentsSheet: React.FC<CommentsSheetProps> = ({
           {item.anglerProfileImage ? (
             <Image
               source={{ uri: item.anglerProfileImage }}
-              style={styles.commentAvatar}
+              style={[styles.commentAvatar, isReply && styles.replyAvatar]}
               contentFit="cover"
               cachePolicy="memory-disk"
             />
           ) : (
-            <View style={styles.commentAvatarPlaceholder}>
+            <View style={[styles.commentAvatarPlaceholder, isReply && styles.replyAvatar]}>
               <Text style={styles.commentAvatarInitial}>
                 {item.anglerName
                   .split(' ')
@@ -266,12 +408,67 @@ const CommentsSheet: React.FC<CommentsSheetProps> = ({
             <Text style={styles.commentTimestamp}>
               {formatRelativeTime(item.createdAt)}
             </Text>
+            {item.editedAt && (
+              <TouchableOpacity
+                onPress={() => onShowHistory?.(item)}
+                disabled={!onShowHistory}
+                hitSlop={{ top: 4, bottom: 4 }}
+                accessibilityLabel="Show edit history"
+              >
+                <Text style={styles.commentTimestamp}> · Edited</Text>
+              </TouchableOpacity>
+            )}
           </View>
-          <Text style={styles.commentText}>{item.text}</Text>
+          <Text style={styles.commentText}>
+            {splitMentionSegments(item.text, item.mentions).map((segment, i) =>
+              segment.mention ? (
+                <Text
+                  key={i}
+                  style={styles.mentionText}
+                  onPress={() => onAnglerPress?.(segment.mention!.userId)}
+                >
+                  {segment.text}
+                </Text>
+              ) : (
+                segment.text
+              ),
+            )}
+          </Text>
+          {canPost && onSubmit && (
+            <TouchableOpacity
+              onPress={() => startReply(item)}
+              hitSlop={{ top: 6, bottom: 6 }}
+              style={styles.replyButton}
+              accessibilityLabel={`Reply to ${item.anglerName}`}
+            >
+              <Text style={styles.replyButtonText}>Reply</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </TouchableOpacity>
     ),
-    [styles, onAnglerPress, handleLongPress],
+    [styles, onAnglerPress, onShowHistory, onSubmit, canPost, handleLongPress, startReply],
+  );
+
+  const renderRow = useCallback(
+    ({ item }: { item: SheetRow }) => {
+      if (item.kind === 'comment') return renderComment(item.comment, item.isReply);
+      return (
+        <TouchableOpacity
+          onPress={() => toggleThread(item.parentId)}
+          style={styles.threadToggle}
+          hitSlop={{ top: 6, bottom: 6 }}
+        >
+          <View style={styles.threadToggleLine} />
+          <Text style={styles.threadToggleText}>
+            {item.expanded
+              ? 'Hide replies'
+              : `View ${item.hiddenCount} more ${item.hiddenCount === 1 ? 'reply' : 'replies'}`}
+          </Text>
+        </TouchableOpacity>
+      );
+    },
+    [styles, renderComment, toggleThread],
   );
 
   const ItemSeparator = useCallback(
@@ -375,15 +572,25 @@ const CommentsSheet: React.FC<CommentsSheetProps> = ({
 
             {/* List or empty/loading state */}
             <View style={styles.listContainer}>
-              {loading ? (
+              {reportTarget ? (
+                <ScrollView keyboardShouldPersistTaps="handled">
+                  <ReportReasonList
+                    title={`Report ${reportTarget.anglerName}'s comment`}
+                    onSelect={handleReportReason}
+                    onCancel={() => setReportTarget(null)}
+                  />
+                </ScrollView>
+              ) : loading ? (
                 renderLoading()
               ) : comments.length === 0 ? (
                 renderEmpty()
               ) : (
                 <FlatList
-                  data={comments}
-                  keyExtractor={(c) => c.id}
-                  renderItem={renderComment}
+                  data={rows}
+                  keyExtractor={(row) =>
+                    row.kind === 'comment' ? row.comment.id : `toggle-${row.parentId}`
+                  }
+                  renderItem={renderRow}
                   ItemSeparatorComponent={ItemSeparator}
                   contentContainerStyle={styles.listContent}
                   keyboardShouldPersistTaps="handled"
@@ -392,6 +599,37 @@ const CommentsSheet: React.FC<CommentsSheetProps> = ({
               )}
             </View>
 
+            {/* @mention suggestions for the name being typed */}
+            {mentionSuggestions.length > 0 && (
+              <View style={styles.suggestions}>
+                {mentionSuggestions.map((m) => (
+                  <TouchableOpacity
+                    key={m.userId}
+                    onPress={() => setDraft((d) => completeMention(d, m))}
+                    style={styles.suggestionChip}
+                  >
+                    <Text style={styles.suggestionText}>@{m.displayName}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            {/* Reply / edit banner */}
+            {(replyTo || editing) && (
+              <View style={styles.composerBanner}>
+                <Text style={styles.composerBannerText} numberOfLines={1}>
+                  {editing ? 'Editing your comment' : `Replying to ${replyTo?.anglerName}`}
+                </Text>
+                <TouchableOpacity
+                  onPress={cancelComposerMode}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                  accessibilityLabel={editing ? 'Cancel edit' : 'Cancel reply'}
+                >
+                  <Feather name="x" size={16} color={theme.colors.textSecondary} />
+                </TouchableOpacity>
+              </View>
+            )}
+
             {/* Composer */}
             <View style={styles.composer}>
               <View style={styles.composerAvatarPlaceholder}>
@@ -412,9 +650,11 @@ const CommentsSheet: React.FC<CommentsSheetProps> = ({
                     setDraft(t.slice(0, COMMENT_MAX_LENGTH))
                   }
                   placeholder={
-                    canPost
-                      ? 'Add a comment...'
-                      : 'Sign in as a rewards member to comment'
+                    !canPost
+                      ? 'Sign in as a rewards member to comment'
+                      : replyTo
+                        ? 'Add a reply...'
+                        : 'Add a comment...'
                   }
                   placeholderTextColor={theme.colors.textTertiary}
                   style={styles.composerInput}
@@ -434,6 +674,7 @@ const CommentsSheet: React.FC<CommentsSheetProps> = ({
                 disabled={!canSubmit}
                 hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
                 style={styles.composerSend}
+                accessibilityLabel={editing ? 'Save comment' : 'Send comment'}
               >
                 <Feather
                   name="send"
@@ -582,6 +823,46 @@ const createStyles = (theme: Theme) =>
       lineHeight: 20,
       color: theme.colors.textPrimary,
     },
+    replyRow: {
+      // Indent under the parent's text column
+      paddingLeft: spacing.md + 36 + 12,
+      paddingVertical: 6,
+    },
+    replyAvatar: {
+      width: 28,
+      height: 28,
+      borderRadius: 14,
+    },
+    mentionText: {
+      fontWeight: '600',
+      color: theme.colors.primary,
+    },
+    replyButton: {
+      alignSelf: 'flex-start',
+      marginTop: 4,
+    },
+    replyButtonText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: theme.colors.textTertiary,
+    },
+    threadToggle: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingLeft: spacing.md + 36 + 12,
+      paddingVertical: 6,
+    },
+    threadToggleLine: {
+      width: 24,
+      height: 1,
+      backgroundColor: theme.colors.textTertiary,
+      marginRight: 8,
+    },
+    threadToggleText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: theme.colors.textTertiary,
+    },
     commentDivider: {
       height: 1,
       backgroundColor: theme.colors.divider,
@@ -642,6 +923,42 @@ const createStyles = (theme: Theme) =>
       backgroundColor: theme.colors.surfaceMuted,
     },
 
+    // Mention suggestions + reply/edit banner
+    suggestions: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 6,
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.xs,
+      borderTopWidth: 1,
+      borderTopColor: theme.colors.divider,
+    },
+    suggestionChip: {
+      paddingHorizontal: 10,
+      paddingVertical: 4,
+      borderRadius: 12,
+      backgroundColor: theme.colors.primaryLight,
+    },
+    suggestionText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: theme.colors.primary,
+    },
+    composerBanner: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: spacing.md,
+      paddingVertical: 6,
+      backgroundColor: theme.colors.surfaceMuted,
+    },
+    composerBannerText: {
+      flex: 1,
+      fontSize: 12,
+      color: theme.colors.textSecondary,
+      marginRight: spacing.sm,
+    },
+
     // Composer
     composer: {
       flexDirection: 'row',
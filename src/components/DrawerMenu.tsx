@@ -30,6 +30,8 @@ import { RootStackParamList } from '../types';
 import { WaveBackground } from './WaveBackground';
 import { devConfig } from '../config/devConfig';
 import { useFeatureFlag } from '../api/featureFlagsApi';
+import { useUnreadNotificationCount } from '../api/notificationsApi';
+import { useCurrentRewardsUserId } from '../hooks/useCurrentRewardsUserId';
 import { setAppModeWithWarning, AppMode, APP_VERSION } from '../config/appConfig';
 import { SCREEN_LABELS } from '../constants/screenLabels';
 import { safeOpenURL } from '../utils/openURL';
@@ -122,6 +124,8 @@ const DrawerMenu: React.FC<DrawerMenuProps> = ({
   const styles = useThemedStyles(createStyles);
   const { isBulletinRead } = useBulletins();
   const { enabled: promotionsEnabled } = useFeatureFlag('promotions_hub');
+  const rewardsUserId = useCurrentRewardsUserId();
+  const unreadNotifications = useUnreadNotificationCount(isSignedIn ? rewardsUserId : null);
   const bulletinConfig = getBulletinTypeConfig(theme);
 
   // MenuItem defined inside DrawerMenu to close over `styles` and `theme`
@@ -453,6 +457,17 @@ const DrawerMenu: React.FC<DrawerMenuProps> = ({
             onDisabledPress={() => handleNavigate("Profile")}
           />
 
+          <MenuItem
+            icon="bell"
+            label={SCREEN_LABELS.notifications.title}
+            subtitle={SCREEN_LABELS.notifications.subtitle}
+            onPress={() => handleNavigate("Notifications")}
+            iconBgColor="#E8F5F4"
+            disabled={!isSignedIn}
+            onDisabledPress={() => handleNavigate("Profile")}
+            badgeCount={unreadNotifications}
+          />
+
           <MenuItem
             customIcon={<MultipleFishIcon />}
             label={SCREEN_LABELS.speciesGuide.title}
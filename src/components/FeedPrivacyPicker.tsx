@@ -0,0 +1,174 @@
+// components/FeedPrivacyPicker.tsx
+//
+// Chip rows for choosing how much of a catch's location the Catch Feed shows
+// and how long to wait before publishing it. Used for the profile defaults
+// (ProfileScreen) and per-report overrides (ReportFormScreen); with
+// `allowInherit` each row gets a "Profile Default" chip that leaves the
+// setting unset. Optional rows for a post's audience and for making the
+// profile private appear when their change handlers are passed.
+
+import React from 'react';
+import { View, Text, ScrollView, StyleSheet } from 'react-native';
+import SpeciesFilterChips, { FilterChipConfig } from './SpeciesFilterChips';
+import {
+  LOCATION_PRECISION_OPTIONS,
+  POST_VISIBILITY_OPTIONS,
+  PUBLISH_DELAY_OPTIONS,
+} from '../constants/feedPrivacy';
+import { FeedPrivacySettings, PostVisibility } from '../types/catchFeed';
+import { spacing } from '../styles/common';
+import { useTheme } from '../contexts/ThemeContext';
+import { useThemedStyles } from '../hooks/useThemedStyles';
+import { Theme } from '../styles/theme';
+
+interface FeedPrivacyPickerProps {
+  value: Partial<FeedPrivacySettings>;
+  onChange: (value: Partial<FeedPrivacySettings>) => void;
+  /** Offer a "Profile Default" chip that clears the setting */
+  allowInherit?: boolean;
+  /** Audience row for a single post */
+  visibility?: PostVisibility;
+  onVisibilityChange?: (visibility: PostVisibility) => void;
+  /** Private profile row */
+  isPrivate?: boolean;
+  onPrivateChange?: (isPrivate: boolean) => void;
+}
+
+const INHERIT_KEY = 'inherit';
+
+const FeedPrivacyPicker: React.FC<FeedPrivacyPickerProps> = ({
+  value,
+  onChange,
+  allowInherit = false,
+  visibility = 'public',
+  onVisibilityChange,
+  isPrivate = false,
+  onPrivateChange,
+}) => {
+  const { theme } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  const inheritChip = (isActive: boolean, onToggle: () => void): FilterChipConfig => ({
+    key: INHERIT_KEY,
+    label: 'Profile Default',
+    icon: 'user',
+    isActive,
+    onToggle,
+    color: theme.colors.primary,
+  });
+
+  const precisionChips: FilterChipConfig[] = LOCATION_PRECISION_OPTIONS.map(option => ({
+    key: option.value,
+    label: option.label,
+    icon: option.value === 'hidden' ? 'eye-off' : 'map-pin',
+    isActive: value.locationPrecision === option.value,
+    onToggle: () => onChange({ ...value, locationPrecision: option.value }),
+    color: theme.colors.primary,
+  }));
+
+  const delayChips: FilterChipConfig[] = PUBLISH_DELAY_OPTIONS.map(option => ({
+    key: String(option.value),
+    label: option.label,
+    icon: option.value === 0 ? 'send' : 'clock',
+    isActive: value.publishDelayDays === option.value,
+    onToggle: () => onChange({ ...value, publishDelayDays: option.value }),
+    color: theme.colors.primary,
+  }));
+
+  if (allowInherit) {
+    precisionChips.unshift(inheritChip(
+      value.locationPrecision === undefined,
+      () => onChange({ ...value, locationPrecision: undefined }),
+    ));
+    delayChips.unshift(inheritChip(
+      value.publishDelayDays === undefined,
+      () => onChange({ ...value, publishDelayDays: undefined }),
+    ));
+  }
+
+  const selectedPrecision = LOCATION_PRECISION_OPTIONS.find(
+    option => option.value === value.locationPrecision
+  );
+
+  const rows: Array<{ title: string; chips: FilterChipConfig[]; hint?: string }> = [];
+
+  if (onPrivateChange) {
+    rows.push({
+      title: 'Profile',
+      chips: [
+        { key: 'public', label: 'Public', icon: 'globe', isActive: !isPrivate },
+        { key: 'private', label: 'Private', icon: 'lock', isActive: isPrivate },
+      ].map(chip => ({
+        ...chip,
+        onToggle: () => onPrivateChange(chip.key === 'private'),
+        color: theme.colors.primary,
+      })),
+      hint: isPrivate
+        ? 'You approve who follows you. Only followers see your catches.'
+        : 'Anyone can follow you and see catches shared with everyone.',
+    });
+  }
+
+  if (onVisibilityChange) {
+    rows.push({
+      title: 'Audience',
+      chips: POST_VISIBILITY_OPTIONS.map(option => ({
+        key: option.value,
+        label: option.label,
+        icon: option.icon,
+        isActive: visibility === option.value,
+        onToggle: () => onVisibilityChange(option.value),
+        color: theme.colors.primary,
+      })),
+    });
+  }
+
+  rows.push(
+    { title: 'Location', chips: precisionChips, hint: selectedPrecision?.description },
+    { title: 'Publish', chips: delayChips },
+  );
+
+  return (
+    <View>
+      {rows.map(row => (
+        <View key={row.title} style={styles.row}>
+          <Text style={styles.rowTitle}>{row.title}</Text>
+          {/* Chips scroll sideways; SpeciesFilterChips lays out a single row */}
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.chipRow}
+          >
+            <SpeciesFilterChips filters={row.chips} isExpanded />
+          </ScrollView>
+          {row.hint && <Text style={styles.hint}>{row.hint}</Text>}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  row: {
+    marginTop: spacing.sm,
+  },
+  rowTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: theme.colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  chipRow: {
+    // Room for the count badge that sits above each chip
+    paddingTop: 6,
+    paddingRight: spacing.md,
+  },
+  hint: {
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+});
+
+export default FeedPrivacyPicker;
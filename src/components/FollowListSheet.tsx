@@ -1,6 +1,7 @@
 // components/FollowListSheet.tsx
 //
-// Bottom sheet that lists either followers or following for an angler.
+// Bottom sheet that lists either followers or following for an angler, or
+// (on your own private profile) pending follow requests with approve/deny.
 // Reuses the slide-up + scrim pattern from CommentsSheet (no @gorhom dep).
 //
 // Tap a member → onSelectMember fires (parent navigates to that profile).
@@ -24,14 +25,20 @@ import { spacing, borderRadius } from '../styles/common';
 import { useTheme } from '../contexts/ThemeContext';
 import { useThemedStyles } from '../hooks/useThemedStyles';
 import { Theme } from '../styles/theme';
-import { useFollowersList, useFollowingList } from '../api/followsApi';
+import {
+  useFollowersList,
+  useFollowingList,
+  useFollowRequests,
+  useRespondToFollowRequest,
+} from '../api/followsApi';
 import { FollowListMember } from '../services/followsService';
 
 const SHEET_HEIGHT_RATIO = 0.75;
 
 interface FollowListSheetProps {
   visible: boolean;
-  mode: 'followers' | 'following';
+  /** 'requests' lists follow requests sent to targetUserId (the viewer). */
+  mode: 'followers' | 'following' | 'requests';
   /** The user whose list to show. */
   targetUserId: string;
   onClose: () => void;
@@ -91,16 +98,33 @@ const FollowListSheet: React.FC<FollowListSheetProps> = ({
   const followingQuery = useFollowingList(
     mode === 'following' && visible ? targetUserId : null,
   );
+  const requestsQuery = useFollowRequests(
+    mode === 'requests' && visible ? targetUserId : null,
+  );
+  const respondToRequest = useRespondToFollowRequest();
 
-  const query = mode === 'followers' ? followersQuery : followingQuery;
-  const data = query.data ?? [];
-  const loading = query.isLoading;
+  const data = useMemo<FollowListMember[]>(() => {
+    if (mode === 'requests') return (requestsQuery.data ?? []).map((r) => r.requester);
+    return (mode === 'followers' ? followersQuery.data : followingQuery.data) ?? [];
+  }, [mode, followersQuery.data, followingQuery.data, requestsQuery.data]);
+  const loading =
+    mode === 'requests' ? requestsQuery.isLoading
+      : mode === 'followers' ? followersQuery.isLoading
+        : followingQuery.isLoading;
 
   const title = useMemo(
-    () => (mode === 'followers' ? 'Followers' : 'Following'),
+    () => (mode === 'followers' ? 'Followers' : mode === 'following' ? 'Following' : 'Follow Requests'),
     [mode],
   );
 
+  const respond = (member: FollowListMember, approve: boolean) => {
+    respondToRequest.mutate({
+      requesterUserId: member.userId,
+      viewerUserId: targetUserId,
+      approve,
+    });
+  };
+
   const renderMember = ({ item }: { item: FollowListMember }) => (
     <TouchableOpacity
       style={styles.row}
@@ -122,10 +146,37 @@ const FollowListSheet: React.FC<FollowListSheetProps> = ({
         </View>
       )}
       <Text style={styles.name}>{item.displayName}</Text>
-      <Feather name="chevron-right" size={18} color={theme.colors.textTertiary} />
+      {mode === 'requests' ? (
+        <View style={styles.requestActions}>
+          <TouchableOpacity
+            style={styles.approveButton}
+            onPress={() => respond(item, true)}
+            accessibilityLabel={`Approve ${item.displayName}`}
+            activeOpacity={0.85}
+          >
+            <Text style={styles.approveText}>Approve</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.denyButton}
+            onPress={() => respond(item, false)}
+            accessibilityLabel={`Deny ${item.displayName}`}
+            activeOpacity={0.85}
+          >
+            <Feather name="x" size={16} color={theme.colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <Feather name="chevron-right" size={18} color={theme.colors.textTertiary} />
+      )}
     </TouchableOpacity>
   );
 
+  const emptyIcon = mode === 'followers' ? 'users' : mode === 'following' ? 'user-plus' : 'inbox';
+  const emptyText =
+    mode === 'followers' ? 'No followers yet.'
+      : mode === 'following' ? 'Not following anyone yet.'
+        : 'No pending requests.';
+
   return (
     <Modal
       visible={rendered}
@@ -172,14 +223,8 @@ const FollowListSheet: React.FC<FollowListSheetProps> = ({
               </View>
             ) : data.length === 0 ? (
               <View style={styles.centerState}>
-                <Feather
-                  name={mode === 'followers' ? 'users' : 'user-plus'}
-                  size={36}
-                  color={theme.colors.textTertiary}
-                />
-                <Text style={styles.emptyText}>
-                  {mode === 'followers' ? 'No followers yet.' : 'Not following anyone yet.'}
-                </Text>
+                <Feather name={emptyIcon} size={36} color={theme.colors.textTertiary} />
+                <Text style={styles.emptyText}>{emptyText}</Text>
               </View>
             ) : (
               <FlatList
@@ -280,6 +325,30 @@ const createStyles = (theme: Theme) =>
       fontWeight: '600',
       color: theme.colors.textPrimary,
     },
+    requestActions: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: spacing.xs,
+    },
+    approveButton: {
+      paddingHorizontal: spacing.md,
+      paddingVertical: 6,
+      borderRadius: borderRadius.md,
+      backgroundColor: theme.colors.primary,
+    },
+    approveText: {
+      fontSize: 13,
+      fontWeight: '700',
+      color: theme.colors.textOnPrimary,
+    },
+    denyButton: {
+      width: 30,
+      height: 30,
+      borderRadius: 15,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: theme.colors.divider,
+    },
     divider: {
       height: 1,
       backgroundColor: theme.colors.divider,
@@ -25,7 +25,7 @@ import { useThemedStyles } from '../hooks/useThemedStyles';
 import { Theme } from '../styles/theme';
 import { safeOpenURL } from '../utils/openURL';
 import { RootStackParamList } from '../types';
-import { Prize, PrizeCategory } from '../types/rewards';
+import { PastDrawing, Prize, PrizeCategory, PrizeClaimStatus } from '../types/rewards';
 import { useRewards } from '../contexts/RewardsContext';
 import { WaveBackground, HeroFishIllustration, FishingRodIllustration, LicenseCardIllustration, GenericPrizeIllustration, SwimmingFishButton } from './icons/RewardsIllustrations';
 import { useFontScale, FONT_SCALE_CAP_BODY } from '../hooks/useFontScale';
@@ -100,6 +100,20 @@ const renderLinkedText = (
   );
 };
 
+const CLAIM_STATUS_LABELS: Record<PrizeClaimStatus, string> = {
+  pending: 'Unclaimed',
+  claimed: 'Claimed',
+  forfeited: 'Forfeited',
+  fulfilled: 'Prize sent',
+};
+
+/** "1st", "2nd", "3rd", "4th"... */
+function formatPlace(place: number): string {
+  const mod100 = place % 100;
+  if (mod100 >= 11 && mod100 <= 13) return `${place}th`;
+  return `${place}${({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[place % 10] ?? 'th'}`;
+}
+
 function getPrizeIcon(category: PrizeCategory): keyof typeof Feather.glyphMap {
   return CATEGORY_ICONS[category] || 'gift';
 }
@@ -289,6 +303,7 @@ const QuarterlyRewardsCard: React.FC<QuarterlyRewardsCardProps> = ({ onReportPre
   const navigation = useNavigation<NavigationProp>();
   const [showDetailsModal, setShowDetailsModal] = useState(false);
   const [showRulesModal, setShowRulesModal] = useState(false);
+  const [showPastDrawingsModal, setShowPastDrawingsModal] = useState(false);
   const [scrollToPrizes, setScrollToPrizes] = useState(false);
   const modalScrollViewRef = useRef<ScrollView>(null);
   const prizeSectionY = useRef<number>(0);
@@ -312,7 +327,11 @@ const QuarterlyRewardsCard: React.FC<QuarterlyRewardsCardProps> = ({ onReportPre
     error,
     calculated,
     hasEnteredCurrentRaffle,
+    entryBreakdown,
+    entryCount = 0,
     isNewQuarter,
+    pastDrawings = [],
+    pendingPrizeClaim,
     refresh: refreshRewards,
   } = useRewards();
 
@@ -437,6 +456,13 @@ const QuarterlyRewardsCard: React.FC<QuarterlyRewardsCardProps> = ({ onReportPre
   };
 
   // Details Modal
+  const renderEntryLine = (label: string, entries: number) => (
+    <View key={label} style={styles.entryBreakdownRow}>
+      <Text style={styles.entryBreakdownLabel}>{label}</Text>
+      <Text style={styles.entryBreakdownValue}>+{entries}</Text>
+    </View>
+  );
+
   const renderDetailsModal = () => {
     const drawingDateObj = new Date(currentDrawing.drawingDate);
     const drawingMonth = drawingDateObj.toLocaleDateString('en-US', { month: 'short' });
@@ -511,6 +537,41 @@ const QuarterlyRewardsCard: React.FC<QuarterlyRewardsCardProps> = ({ onReportPre
                 )}
               </View>
 
+              {/* Weighted entries earned from reporting */}
+              {hasEnteredCurrentRaffle && entryBreakdown && (
+                <View style={styles.modalSection}>
+                  <View style={styles.modalSectionHeader}>
+                    <Feather name="layers" size={18} color={C.iconOnSurface} />
+                    <Text style={styles.modalSectionTitle}>Your Entries</Text>
+                    <View style={styles.modalPrizeCountBadge}>
+                      <Text style={styles.modalPrizeCountText}>{entryBreakdown.totalEntries}</Text>
+                    </View>
+                  </View>
+                  {renderEntryLine('Base entry', entryBreakdown.baseEntries)}
+                  {entryBreakdown.rules.perOnTimeReport > 0 && renderEntryLine(
+                    `On-time DMF reports (${entryBreakdown.onTimeReports})`,
+                    entryBreakdown.onTimeEntries,
+                  )}
+                  {entryBreakdown.rules.perPhotoCatch > 0 && renderEntryLine(
+                    `Catches with a photo (${entryBreakdown.photoCatches})`,
+                    entryBreakdown.photoEntries,
+                  )}
+                  {entryBreakdown.rules.perStreakWeek > 0 && renderEntryLine(
+                    `Weekly reporting streak (${entryBreakdown.streakWeeks} wk)`,
+                    entryBreakdown.streakEntries,
+                  )}
+                  {entryBreakdown.freeEntryRequests > 0 && renderEntryLine(
+                    `Free entries received (${entryBreakdown.freeEntryRequests})`,
+                    entryBreakdown.freeEntries,
+                  )}
+                  <Text style={styles.entryBreakdownNote}>
+                    {entryBreakdown.isCapped
+                      ? `You've reached the ${entryBreakdown.rules.maxEntries}-entry maximum for this drawing.`
+                      : `Report more catches to earn up to ${entryBreakdown.rules.maxEntries} entries.`}
+                  </Text>
+                </View>
+              )}
+
               {/* Date Cards Row */}
               <View style={styles.modalDatesRow}>
                 <View style={styles.modalDateCard}>
@@ -724,6 +785,125 @@ const QuarterlyRewardsCard: React.FC<QuarterlyRewardsCardProps> = ({ onReportPre
     </Modal>
   );
 
+  // Past drawing row: winners by display name, plus the user's own entry and claim
+  const renderPastDrawing = (drawing: PastDrawing) => (
+    <View key={drawing.drawingId} style={styles.pastDrawingItem}>
+      <View style={styles.pastDrawingHeader}>
+        <Text style={styles.pastDrawingName}>{drawing.name}</Text>
+        <Text style={styles.pastDrawingDate}>{formatDate(drawing.drawingDate)}</Text>
+      </View>
+
+      {drawing.winners.length > 0 ? (
+        drawing.winners.map((winner) => (
+          <View key={winner.place} style={styles.pastDrawingWinnerRow}>
+            <Feather name="award" size={13} color={C.orange} />
+            <Text style={styles.pastDrawingWinnerText}>
+              {formatPlace(winner.place)}: {winner.displayName}
+              {winner.prizeName ? ` — ${winner.prizeName}` : ''}
+            </Text>
+          </View>
+        ))
+      ) : (
+        <Text style={styles.pastDrawingPending}>
+          {drawing.drawnAt ? 'No winners announced.' : 'Winners not yet drawn.'}
+        </Text>
+      )}
+
+      <View style={styles.pastDrawingEntryRow}>
+        <Feather
+          name={drawing.userEntered ? 'check-circle' : 'minus-circle'}
+          size={13}
+          color={drawing.userEntered ? '#4CAF50' : C.textSecondary}
+        />
+        <Text style={styles.pastDrawingEntryText}>
+          {drawing.userEntered
+            ? `You entered${drawing.userEnteredAt ? ` on ${formatDate(drawing.userEnteredAt)}` : ''}`
+            : 'You did not enter'}
+        </Text>
+      </View>
+
+      {drawing.userWin && (
+        <TouchableOpacity
+          style={styles.pastDrawingWinRow}
+          disabled={drawing.userWin.claimStatus !== 'pending'}
+          onPress={() => {
+            setShowPastDrawingsModal(false);
+            navigation.navigate('PrizeClaim', { drawingId: drawing.drawingId });
+          }}
+          activeOpacity={0.8}
+        >
+          <Feather name="gift" size={13} color={C.orange} />
+          <Text style={styles.pastDrawingWinText}>
+            You won {formatPlace(drawing.userWin.place)} place
+            {drawing.userWin.prizeName ? ` (${drawing.userWin.prizeName})` : ''}
+          </Text>
+          <View style={styles.claimStatusPill}>
+            <Text style={styles.claimStatusPillText}>
+              {CLAIM_STATUS_LABELS[drawing.userWin.claimStatus]}
+            </Text>
+          </View>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  // Past Drawings Modal
+  const renderPastDrawingsModal = () => (
+    <Modal
+      visible={showPastDrawingsModal}
+      transparent
+      animationType="fade"
+      onRequestClose={() => setShowPastDrawingsModal(false)}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContainer}>
+          <LinearGradient
+            colors={[C.navyDark, C.navyLight]}
+            start={{ x: 0, y: 0 }}
+            end={{ x: 1, y: 1 }}
+            style={styles.modalBanner}
+          >
+            <WaveBackground />
+            <View style={styles.modalBannerContent}>
+              <View style={styles.modalBannerTopRow}>
+                <View style={{ flex: 1 }} />
+                <TouchableOpacity
+                  onPress={() => setShowPastDrawingsModal(false)}
+                  style={styles.modalCloseX}
+                  accessibilityRole="button"
+                  accessibilityLabel="Close"
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                >
+                  <Feather name="x" size={22} color="#FFFFFF" />
+                </TouchableOpacity>
+              </View>
+              <Text style={styles.modalBannerTitle}>Past Drawings</Text>
+              <Text style={styles.modalBannerSubtitle}>
+                Previous quarters' winners and your entry history
+              </Text>
+            </View>
+          </LinearGradient>
+          <ScrollView contentContainerStyle={styles.modalScrollContent} showsVerticalScrollIndicator>
+            {pastDrawings.map(renderPastDrawing)}
+          </ScrollView>
+          <TouchableOpacity
+            style={styles.modalButton}
+            onPress={() => setShowPastDrawingsModal(false)}
+            activeOpacity={0.85}
+          >
+            <LinearGradient
+              colors={[C.navyDark, C.navyLight]}
+              start={{ x: 0, y: 0 }}
+              end={{ x: 1, y: 0 }}
+              style={StyleSheet.absoluteFill}
+            />
+            <Text style={styles.modalButtonText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+
   return (
     <View style={styles.container}>
       {/* Entry Status Tab - File folder style tab sticking up from behind */}
@@ -742,7 +922,9 @@ const QuarterlyRewardsCard: React.FC<QuarterlyRewardsCardProps> = ({ onReportPre
             color="#FFFFFF"
           />
           <Text style={styles.entryStatusText} maxFontSizeMultiplier={1.2}>
-            {hasEnteredCurrentRaffle ? "Entered" : "Not Entered"}
+            {hasEnteredCurrentRaffle
+              ? (entryCount > 1 ? `${entryCount} Entries` : "Entered")
+              : "Not Entered"}
           </Text>
         </View>
       </View>
@@ -779,6 +961,34 @@ const QuarterlyRewardsCard: React.FC<QuarterlyRewardsCardProps> = ({ onReportPre
         {/* Content Area */}
         <View style={styles.contentContainer}>
 
+          {/* Winner Banner (prize waiting to be claimed) */}
+          {pendingPrizeClaim?.userWin && (
+            <TouchableOpacity
+              style={styles.newQuarterBanner}
+              onPress={() => navigation.navigate('PrizeClaim', { drawingId: pendingPrizeClaim.drawingId })}
+              activeOpacity={0.85}
+              accessibilityRole="button"
+              accessibilityLabel={`You won the ${pendingPrizeClaim.name} drawing. Claim your prize.`}
+            >
+              <LinearGradient
+                colors={['#F9A825', '#EF6C00']}
+                start={{ x: 0, y: 0 }}
+                end={{ x: 1, y: 1 }}
+                style={StyleSheet.absoluteFill}
+              />
+              <View style={styles.newQuarterIcon}>
+                <Feather name="gift" size={18} color="white" />
+              </View>
+              <View style={styles.newQuarterContent}>
+                <Text style={styles.newQuarterTitle}>You Won!</Text>
+                <Text style={styles.newQuarterText}>
+                  {pendingPrizeClaim.name}: claim your prize by {formatDate(pendingPrizeClaim.userWin.claimDeadline)}
+                </Text>
+              </View>
+              <Feather name="chevron-right" size={18} color="rgba(255,255,255,0.8)" />
+            </TouchableOpacity>
+          )}
+
           {/* New Quarter Banner (for signed-in members who haven't entered yet) */}
           {isSignedIn && isNewQuarter && !hasEnteredCurrentRaffle && (
             <View style={styles.newQuarterBanner}>
@@ -870,6 +1080,25 @@ const QuarterlyRewardsCard: React.FC<QuarterlyRewardsCardProps> = ({ onReportPre
             </View>
           </View>
 
+          {/* Past Drawings Row */}
+          {pastDrawings.length > 0 && (
+            <TouchableOpacity
+              style={styles.infoRow}
+              onPress={() => setShowPastDrawingsModal(true)}
+            >
+              <View style={styles.infoIcon}>
+                <Feather name="clock" size={18} color={C.iconOnSurface} />
+              </View>
+              <View style={styles.infoContent}>
+                <Text style={styles.infoTitle}>Past Drawings</Text>
+                <Text style={styles.infoText}>
+                  See previous winners and your entry history.
+                </Text>
+              </View>
+              <Feather name="chevron-right" size={20} color="#ccc" />
+            </TouchableOpacity>
+          )}
+
           {/* Prize Section — eye-catching card */}
           {(currentDrawing.prizes?.length ?? 0) > 1 ? (
             <View style={styles.prizeSectionCard}>
@@ -989,6 +1218,7 @@ const QuarterlyRewardsCard: React.FC<QuarterlyRewardsCardProps> = ({ onReportPre
 
       {renderDetailsModal()}
       {renderRulesModal()}
+      {renderPastDrawingsModal()}
     </View>
   );
 };
@@ -1511,6 +1741,31 @@ const createStyles = (theme: Theme) => {
     marginBottom: 4,
   },
 
+  // Entry breakdown
+  entryBreakdownRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: C.border,
+  },
+  entryBreakdownLabel: {
+    fontSize: 14,
+    color: C.textPrimary,
+    flex: 1,
+  },
+  entryBreakdownValue: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: C.iconOnSurface,
+  },
+  entryBreakdownNote: {
+    fontSize: 12,
+    color: C.textSecondary,
+    marginTop: 10,
+  },
+
   // Date Cards
   modalDatesRow: {
     flexDirection: 'row',
@@ -1850,6 +2105,82 @@ const createStyles = (theme: Theme) => {
     color: '#FF9800',
   },
 
+  // Past Drawings (Modal)
+  pastDrawingItem: {
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: C.border,
+    gap: 6,
+  },
+  pastDrawingHeader: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+    marginBottom: 2,
+  },
+  pastDrawingName: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: C.textPrimary,
+  },
+  pastDrawingDate: {
+    fontSize: 12,
+    color: C.textSecondary,
+  },
+  pastDrawingWinnerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  pastDrawingWinnerText: {
+    flex: 1,
+    fontSize: 13,
+    color: C.textPrimary,
+  },
+  pastDrawingPending: {
+    fontSize: 13,
+    color: C.textSecondary,
+    fontStyle: 'italic',
+  },
+  pastDrawingEntryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 2,
+  },
+  pastDrawingEntryText: {
+    fontSize: 12,
+    color: C.textSecondary,
+  },
+  pastDrawingWinRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: C.prizeCardBg,
+    borderWidth: 1,
+    borderColor: C.gold,
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  pastDrawingWinText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: C.textPrimary,
+  },
+  claimStatusPill: {
+    backgroundColor: C.bgLight,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+  },
+  claimStatusPillText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: C.iconOnSurface,
+  },
+
   dmfDisclaimer: {
     fontSize: 11,
     color: C.textSecondary,
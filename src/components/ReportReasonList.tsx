@@ -0,0 +1,104 @@
+// components/ReportReasonList.tsx
+//
+// Reason picker for reporting a catch or comment. Plain list content, so it
+// can sit inside a BottomDrawer (CatchDetailScreen) or over the comment list
+// inside CommentsSheet, which is already a modal.
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { REPORT_REASON_OPTIONS } from '../constants/moderation';
+import { ReportReasonCode } from '../types/catchFeed';
+import { spacing } from '../styles/common';
+import { useTheme } from '../contexts/ThemeContext';
+import { useThemedStyles } from '../hooks/useThemedStyles';
+import { Theme } from '../styles/theme';
+
+interface ReportReasonListProps {
+  title: string;
+  onSelect: (reasonCode: ReportReasonCode) => void;
+  onCancel: () => void;
+}
+
+const ReportReasonList: React.FC<ReportReasonListProps> = ({ title, onSelect, onCancel }) => {
+  const { theme } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{title}</Text>
+      <Text style={styles.subtitle}>
+        Reports are anonymous. Our moderators review everything that's reported.
+      </Text>
+
+      {REPORT_REASON_OPTIONS.map((option) => (
+        <TouchableOpacity
+          key={option.value}
+          style={styles.reasonRow}
+          onPress={() => onSelect(option.value)}
+          activeOpacity={0.85}
+          accessibilityLabel={option.label}
+        >
+          <View style={styles.reasonText}>
+            <Text style={styles.reasonLabel}>{option.label}</Text>
+            <Text style={styles.reasonDescription}>{option.description}</Text>
+          </View>
+          <Feather name="chevron-right" size={18} color={theme.colors.textTertiary} />
+        </TouchableOpacity>
+      ))}
+
+      <TouchableOpacity style={styles.cancelButton} onPress={onCancel} activeOpacity={0.85}>
+        <Text style={styles.cancelText}>Cancel</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    padding: spacing.md,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: theme.colors.textPrimary,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+    marginTop: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.divider,
+  },
+  reasonText: {
+    flex: 1,
+  },
+  reasonLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.colors.textPrimary,
+  },
+  reasonDescription: {
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    marginTop: spacing.sm,
+  },
+  cancelText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+  },
+});
+
+export default ReportReasonList;
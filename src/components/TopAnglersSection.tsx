@@ -9,6 +9,7 @@ import {
   View,
   Text,
   StyleSheet,
+  TouchableOpacity,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Feather } from '@expo/vector-icons';
@@ -118,9 +119,11 @@ const TopAnglerCard: React.FC<TopAnglerCardProps> = ({ angler, rank }) => {
 
 interface TopAnglersSectionProps {
   anglers: TopAngler[];
+  /** Opens the full leaderboard; the "See all" link is hidden without it */
+  onSeeAllPress?: () => void;
 }
 
-const TopAnglersSection: React.FC<TopAnglersSectionProps> = ({ anglers }) => {
+const TopAnglersSection: React.FC<TopAnglersSectionProps> = ({ anglers, onSeeAllPress }) => {
   const styles = useThemedStyles(createStyles);
 
   if (anglers.length === 0) return null;
@@ -143,6 +146,18 @@ const TopAnglersSection: React.FC<TopAnglersSectionProps> = ({ anglers }) => {
             <Feather name="award" size={18} color={COLORS.gold} />
           </View>
           <Text style={styles.headerTitle}>Top Anglers This Quarter</Text>
+          {onSeeAllPress && (
+            <TouchableOpacity
+              style={styles.seeAllButton}
+              onPress={onSeeAllPress}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              accessibilityRole="button"
+              accessibilityLabel="See full leaderboard"
+            >
+              <Text style={styles.seeAllText}>See all</Text>
+              <Feather name="chevron-right" size={16} color={COLORS.gold} />
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* Angler cards */}
@@ -221,6 +236,16 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     color: COLORS.white,
     letterSpacing: 0.3,
   },
+  seeAllButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 'auto',
+  },
+  seeAllText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.gold,
+  },
 
   // Cards row
   cardsRow: {
@@ -19,7 +19,10 @@ export const APP_CONFIG = {
   features: {
     raffleEnabled: true,
     offlineQueueEnabled: true,
+    batchedQueueSync: true,
     photoCaptureEnabled: true,
+    /** Send the harvest GPS fix as the DMF feature geometry instead of 0,0 */
+    sendGpsGeometry: false,
     showTestModeBadge: env.SHOW_TEST_MODE_BADGE,
   },
 
@@ -30,6 +33,8 @@ export const APP_CONFIG = {
   storageKeys: {
     harvestQueue: '@harvest_queue',
     harvestHistory: '@harvest_history',
+    dmfSubmissionLedger: '@dmf_submission_ledger',
+    harvestDeadLetter: '@harvest_dead_letter',
     userProfile: 'userProfile',
     fishingLicense: 'fishingLicense',
     enteredRaffles: 'enteredRaffles',
@@ -40,6 +45,10 @@ export const APP_CONFIG = {
   limits: {
     maxHistoryEntries: 100,
     maxRetryAttempts: 3,
+    maxConfigRetryAttempts: 2,
+    retryBackoffBaseMs: 5 * 60 * 1000,
+    retryBackoffMaxMs: 6 * 60 * 60 * 1000,
+    maxSyncBatchSize: 25,
   },
 };
 
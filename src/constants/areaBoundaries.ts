@@ -0,0 +1,325 @@
+// constants/areaBoundaries.ts
+//
+// Simplified boundaries for the NC DMF Area of Harvest waters. Polygons are
+// hand-simplified from NOAA charts and are intentionally coarse — they are
+// good enough to pick "Pamlico Sound" over "Pamlico River", not to settle a
+// boundary dispute. Query them through constants/areaLookup.ts.
+//
+
+/** A coordinate pair in [longitude, latitude] order (GeoJSON convention). */
+export type LonLat = readonly [number, number];
+
+export interface AreaBoundary {
+  /** DMF area code (matches AreaOption.value) */
+  code: string;
+  /** Outer ring of the simplified polygon, in [longitude, latitude] order */
+  ring: readonly LonLat[];
+}
+
+/**
+ * Latitude of the Cape Hatteras line splitting the "North of" and "South of"
+ * ocean areas (35° 15.0321' N).
+ */
+export const CAPE_HATTERAS_LATITUDE = 35.2505;
+
+// ============================================
+// OCEAN
+// ============================================
+
+/**
+ * Simplified ocean shoreline from the Virginia line to the South Carolina
+ * line, with the point where it crosses the Cape Hatteras line.
+ */
+const SHORELINE_NORTH: readonly LonLat[] = [
+  [-75.87, 36.55], [-75.83, 36.38], [-75.75, 36.17], [-75.70, 36.07],
+  [-75.62, 35.95], [-75.53, 35.77], [-75.46, 35.59], [-75.50, 35.35],
+  [-75.523, CAPE_HATTERAS_LATITUDE],
+];
+const SHORELINE_SOUTH: readonly LonLat[] = [
+  [-75.523, CAPE_HATTERAS_LATITUDE],
+  [-75.53, 35.22], [-75.69, 35.20], [-75.77, 35.19], [-75.98, 35.11],
+  [-76.02, 35.07], [-76.30, 34.82], [-76.52, 34.60], [-76.67, 34.69],
+  [-76.70, 34.69], [-77.11, 34.64], [-77.15, 34.62], [-77.34, 34.53],
+  [-77.55, 34.43], [-77.65, 34.35], [-77.79, 34.20], [-77.89, 34.05],
+  [-77.93, 33.95], [-77.96, 33.84], [-78.15, 33.90], [-78.30, 33.91],
+  [-78.45, 33.89], [-78.55, 33.86],
+];
+
+/** The shoreline pushed roughly 3 nautical miles seaward (state waters limit). */
+const THREE_MILE_NORTH: readonly LonLat[] = [
+  [-75.81, 36.55], [-75.77, 36.38], [-75.69, 36.17], [-75.64, 36.07],
+  [-75.56, 35.95], [-75.47, 35.77], [-75.40, 35.59], [-75.44, 35.35],
+  [-75.463, CAPE_HATTERAS_LATITUDE],
+];
+const THREE_MILE_SOUTH: readonly LonLat[] = [
+  [-75.463, CAPE_HATTERAS_LATITUDE],
+  [-75.48, 35.17], [-75.69, 35.15], [-75.77, 35.14], [-75.96, 35.06],
+  [-75.99, 35.03], [-76.27, 34.78], [-76.52, 34.55], [-76.67, 34.64],
+  [-76.70, 34.64], [-77.11, 34.59], [-77.15, 34.57], [-77.32, 34.48],
+  [-77.52, 34.38], [-77.62, 34.31], [-77.75, 34.17], [-77.85, 34.02],
+  [-77.89, 33.93], [-77.95, 33.79], [-78.15, 33.85], [-78.30, 33.86],
+  [-78.45, 33.84], [-78.55, 33.81],
+];
+
+/** Seaward extent used to close the offshore polygons. */
+const OFFSHORE_LONGITUDE = -74.0;
+const OFFSHORE_SOUTH_LATITUDE = 32.5;
+const VIRGINIA_LINE_LATITUDE = 36.55;
+
+// ============================================
+// BOUNDARIES
+// ============================================
+
+/**
+ * Simplified boundary for every DMF area code.
+ *
+ * Tributaries overlap the mouth of the sound they feed; areaLookup resolves
+ * the overlap by preferring the smallest (most specific) polygon.
+ */
+export const AREA_BOUNDARIES: readonly AreaBoundary[] = [
+  {
+    code: '1', // Albemarle Sound
+    ring: [
+      [-76.72, 36.02], [-76.60, 36.07], [-76.40, 36.10], [-76.20, 36.13],
+      [-76.00, 36.13], [-75.85, 36.12], [-75.76, 36.08], [-75.73, 35.97],
+      [-75.80, 35.93], [-76.00, 35.92], [-76.30, 35.93], [-76.55, 35.94],
+      [-76.70, 35.96],
+    ],
+  },
+  {
+    code: '2', // Alligator River
+    ring: [
+      [-76.05, 35.93], [-75.95, 35.93], [-75.93, 35.80], [-75.98, 35.70],
+      [-76.05, 35.62], [-76.12, 35.66], [-76.08, 35.80],
+    ],
+  },
+  {
+    code: '80', // Back Bay
+    ring: [
+      [-76.03, 36.55], [-75.93, 36.55], [-75.90, 36.65], [-75.93, 36.75],
+      [-76.00, 36.75], [-76.04, 36.65],
+    ],
+  },
+  {
+    code: '3', // Bay River
+    ring: [
+      [-76.78, 35.13], [-76.50, 35.15], [-76.48, 35.20], [-76.62, 35.21],
+      [-76.78, 35.17],
+    ],
+  },
+  {
+    code: '5', // Bogue Sound
+    ring: [
+      [-77.12, 34.66], [-77.05, 34.66], [-76.85, 34.68], [-76.70, 34.70],
+      [-76.70, 34.73], [-76.85, 34.72], [-77.05, 34.70], [-77.12, 34.69],
+    ],
+  },
+  {
+    code: '6', // Cape Fear River
+    ring: [
+      [-78.00, 33.87], [-77.95, 33.87], [-77.93, 34.00], [-77.94, 34.10],
+      [-77.94, 34.25], [-77.97, 34.25], [-77.98, 34.10], [-78.00, 34.00],
+    ],
+  },
+  {
+    code: '7', // Chowan River
+    ring: [
+      [-76.70, 36.03], [-76.62, 36.05], [-76.65, 36.20], [-76.75, 36.35],
+      [-76.88, 36.55], [-76.95, 36.55], [-76.82, 36.33], [-76.72, 36.18],
+    ],
+  },
+  {
+    code: '8', // Core Sound
+    ring: [
+      [-76.55, 34.70], [-76.50, 34.68], [-76.36, 34.80], [-76.21, 34.93],
+      [-76.10, 35.02], [-76.25, 35.02], [-76.38, 34.90], [-76.50, 34.78],
+    ],
+  },
+  {
+    code: '9', // Croatan Sound
+    ring: [
+      [-75.79, 35.77], [-75.71, 35.79], [-75.71, 35.94], [-75.74, 35.96],
+      [-75.78, 35.93],
+    ],
+  },
+  {
+    code: '10', // Currituck Sound
+    ring: [
+      [-75.95, 36.55], [-75.88, 36.55], [-75.86, 36.40], [-75.80, 36.25],
+      [-75.75, 36.12], [-75.78, 36.08], [-75.85, 36.15], [-75.92, 36.30],
+      [-75.98, 36.45],
+    ],
+  },
+  {
+    code: '53', // Inland Waterway (Brunswick County)
+    ring: [
+      [-78.54, 33.872], [-78.45, 33.898], [-78.30, 33.918], [-78.15, 33.908],
+      [-78.03, 33.915], [-78.03, 33.94], [-78.15, 33.93], [-78.30, 33.94],
+      [-78.45, 33.92], [-78.54, 33.89],
+    ],
+  },
+  {
+    code: '54', // Inland Waterway (Onslow County)
+    ring: [
+      [-77.12, 34.655], [-77.20, 34.62], [-77.33, 34.55], [-77.33, 34.57],
+      [-77.20, 34.645], [-77.12, 34.675],
+    ],
+  },
+  {
+    code: '13', // Lake Mattamuskeet
+    ring: [
+      [-76.30, 35.47], [-76.10, 35.44], [-76.03, 35.48], [-76.10, 35.53],
+      [-76.25, 35.53],
+    ],
+  },
+  {
+    code: '11', // Lockwood's Folly River
+    ring: [
+      [-78.25, 33.915], [-78.22, 33.915], [-78.24, 33.99], [-78.27, 33.99],
+    ],
+  },
+  {
+    code: '12', // Masonboro Sound
+    ring: [
+      [-77.905, 34.08], [-77.885, 34.08], [-77.81, 34.19], [-77.82, 34.21],
+      [-77.85, 34.17],
+    ],
+  },
+  {
+    code: '29', // Neuse River
+    ring: [
+      [-77.05, 35.13], [-76.95, 35.05], [-76.80, 34.98], [-76.60, 34.95],
+      [-76.48, 34.97], [-76.50, 35.05], [-76.70, 35.05], [-76.85, 35.08],
+      [-77.00, 35.15],
+    ],
+  },
+  {
+    code: '30', // New River
+    ring: [
+      [-77.35, 34.54], [-77.30, 34.56], [-77.33, 34.65], [-77.38, 34.72],
+      [-77.42, 34.76], [-77.46, 34.74], [-77.42, 34.66], [-77.37, 34.58],
+    ],
+  },
+  {
+    code: '31', // Newport River
+    ring: [
+      [-76.70, 34.71], [-76.66, 34.71], [-76.64, 34.76], [-76.68, 34.80],
+      [-76.73, 34.78],
+    ],
+  },
+  {
+    code: '43', // North River
+    ring: [
+      [-76.61, 34.70], [-76.57, 34.70], [-76.56, 34.77], [-76.59, 34.80],
+      [-76.62, 34.76],
+    ],
+  },
+  {
+    code: '22', // Ocean > 3 Miles (North of Cape Hatteras)
+    ring: [
+      ...THREE_MILE_NORTH,
+      [OFFSHORE_LONGITUDE, CAPE_HATTERAS_LATITUDE],
+      [OFFSHORE_LONGITUDE, VIRGINIA_LINE_LATITUDE],
+    ],
+  },
+  {
+    code: '23', // Ocean > 3 Miles (South of Cape Hatteras)
+    ring: [
+      ...THREE_MILE_SOUTH,
+      [-78.55, OFFSHORE_SOUTH_LATITUDE],
+      [OFFSHORE_LONGITUDE, OFFSHORE_SOUTH_LATITUDE],
+      [OFFSHORE_LONGITUDE, CAPE_HATTERAS_LATITUDE],
+    ],
+  },
+  {
+    code: '20', // Ocean 0-3 Miles (North of Cape Hatteras)
+    ring: [...SHORELINE_NORTH, ...[...THREE_MILE_NORTH].reverse()],
+  },
+  {
+    code: '21', // Ocean 0-3 Miles (South of Cape Hatteras)
+    ring: [...SHORELINE_SOUTH, ...[...THREE_MILE_SOUTH].reverse()],
+  },
+  {
+    code: '33', // Pamlico River
+    ring: [
+      [-77.06, 35.55], [-76.95, 35.50], [-76.80, 35.45], [-76.65, 35.38],
+      [-76.52, 35.33], [-76.48, 35.38], [-76.60, 35.45], [-76.80, 35.52],
+      [-76.95, 35.56],
+    ],
+  },
+  {
+    code: '34', // Pamlico Sound
+    ring: [
+      [-76.48, 34.97], [-76.30, 35.00], [-76.10, 35.04], [-75.98, 35.13],
+      [-75.75, 35.21], [-75.58, 35.26], [-75.53, 35.35], [-75.49, 35.60],
+      [-75.55, 35.76], [-75.79, 35.76], [-75.78, 35.65], [-75.97, 35.47],
+      [-76.20, 35.36], [-76.40, 35.32], [-76.48, 35.30], [-76.48, 35.22],
+      [-76.47, 35.10], [-76.50, 35.02],
+    ],
+  },
+  {
+    code: '35', // Pasquotank River
+    ring: [
+      [-76.10, 36.14], [-76.00, 36.14], [-76.10, 36.25], [-76.20, 36.32],
+      [-76.25, 36.30], [-76.15, 36.20],
+    ],
+  },
+  {
+    code: '36', // Perquimans River
+    ring: [
+      [-76.40, 36.10], [-76.30, 36.12], [-76.40, 36.18], [-76.48, 36.22],
+      [-76.52, 36.19], [-76.45, 36.13],
+    ],
+  },
+  {
+    code: '52', // Pungo River
+    ring: [
+      [-76.58, 35.38], [-76.50, 35.40], [-76.55, 35.55], [-76.60, 35.62],
+      [-76.66, 35.60], [-76.62, 35.48],
+    ],
+  },
+  {
+    code: '37', // Roanoke River
+    ring: [
+      [-76.68, 35.98], [-76.75, 35.90], [-76.90, 35.84], [-77.05, 35.88],
+      [-77.20, 35.97], [-77.40, 36.20], [-77.60, 36.44], [-77.62, 36.41],
+      [-77.42, 36.17], [-77.22, 35.93], [-77.05, 35.83], [-76.90, 35.80],
+      [-76.75, 35.85], [-76.68, 35.93],
+    ],
+  },
+  {
+    code: '45', // Roanoke Sound
+    ring: [
+      [-75.64, 35.78], [-75.58, 35.78], [-75.60, 35.88], [-75.635, 35.96],
+      [-75.66, 35.96], [-75.65, 35.88],
+    ],
+  },
+  {
+    code: '38', // Shallotte River
+    ring: [
+      [-78.39, 33.905], [-78.36, 33.905], [-78.37, 33.97], [-78.40, 33.97],
+    ],
+  },
+  {
+    code: '39', // Stump Sound
+    ring: [
+      [-77.335, 34.545], [-77.45, 34.49], [-77.55, 34.442], [-77.555, 34.46],
+      [-77.45, 34.51], [-77.34, 34.565],
+    ],
+  },
+  {
+    code: '41', // Topsail Sound
+    ring: [
+      [-77.555, 34.44], [-77.65, 34.362], [-77.665, 34.37], [-77.56, 34.455],
+    ],
+  },
+  {
+    code: '42', // White Oak River
+    ring: [
+      [-77.13, 34.66], [-77.10, 34.67], [-77.14, 34.75], [-77.20, 34.82],
+      [-77.23, 34.80], [-77.17, 34.72],
+    ],
+  },
+];
+
+export default AREA_BOUNDARIES;
@@ -0,0 +1,212 @@
+// constants/areaLookup.ts
+//
+// Offline lookup of NC DMF Areas of Harvest from a latitude/longitude.
+// Answers "which areas contain this point" and "which area is nearest"
+// against the simplified polygons in areaBoundaries.ts — no network needed.
+//
+
+import { AreaOption, getAreaByCode } from './areaOptions';
+import { AREA_BOUNDARIES, AreaBoundary, LonLat } from './areaBoundaries';
+
+/** A GPS position in WGS84 decimal degrees. */
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/** An area matched to a point, with how far the point is from its boundary. */
+export interface AreaMatch {
+  area: AreaOption;
+  /** 0 when the point is inside the area */
+  distanceMiles: number;
+}
+
+// ============================================
+// GEOMETRY
+// ============================================
+
+const MILES_PER_DEGREE_LATITUDE = 69.05;
+const MILES_PER_DEGREE_LONGITUDE_AT_EQUATOR = 69.17;
+
+/**
+ * Check that a point is a usable WGS84 position.
+ *
+ * @param point - Candidate point
+ * @returns true if latitude/longitude are finite and in range
+ */
+export function isValidGeoPoint(point: GeoPoint | null | undefined): point is GeoPoint {
+  if (!point) return false;
+  const { latitude, longitude } = point;
+  return (
+    Number.isFinite(latitude) &&
+    Number.isFinite(longitude) &&
+    Math.abs(latitude) <= 90 &&
+    Math.abs(longitude) <= 180
+  );
+}
+
+/**
+ * Ray-casting point-in-polygon test.
+ *
+ * @param point - [longitude, latitude]
+ * @param ring - Polygon outer ring
+ * @returns true if the point falls inside the ring
+ */
+export function isPointInRing(point: LonLat, ring: readonly LonLat[]): boolean {
+  const [x, y] = point;
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Shortest distance from a point to a ring's edges, in miles.
+ *
+ * Projects onto a flat plane centred on the point, which is accurate to well
+ * under 1% at the few-mile distances this is used for.
+ */
+function distanceToRingMiles(point: LonLat, ring: readonly LonLat[]): number {
+  const [lon, lat] = point;
+  const milesPerLon = MILES_PER_DEGREE_LONGITUDE_AT_EQUATOR * Math.cos((lat * Math.PI) / 180);
+  const project = ([x, y]: LonLat): [number, number] => [
+    (x - lon) * milesPerLon,
+    (y - lat) * MILES_PER_DEGREE_LATITUDE,
+  ];
+
+  let min = Infinity;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [ax, ay] = project(ring[j]);
+    const [bx, by] = project(ring[i]);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    // Closest point on segment AB to the origin (the query point)
+    const t = lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+    min = Math.min(min, Math.hypot(ax + t * dx, ay + t * dy));
+  }
+
+  return min;
+}
+
+/**
+ * Planar area of a ring in square degrees (shoelace formula).
+ * Only used to rank overlapping polygons, so no projection is needed.
+ */
+function ringArea(ring: readonly LonLat[]): number {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += (ring[j][0] + ring[i][0]) * (ring[j][1] - ring[i][1]);
+  }
+  return Math.abs(sum / 2);
+}
+
+/** Boundaries ordered smallest-first so the most specific match wins. */
+const BOUNDARIES_BY_SIZE: readonly AreaBoundary[] = [...AREA_BOUNDARIES].sort(
+  (a, b) => ringArea(a.ring) - ringArea(b.ring)
+);
+
+function toLonLat(point: GeoPoint): LonLat {
+  return [point.longitude, point.latitude];
+}
+
+// ============================================
+// LOOKUP
+// ============================================
+
+/**
+ * Find every area whose boundary contains a point.
+ *
+ * Tributaries overlap the mouth of the water they feed, so a point can fall
+ * in more than one area. Results are ordered most specific (smallest) first.
+ *
+ * @param point - GPS position
+ * @returns Matching areas, or an empty array if the point is outside every area
+ */
+export function findAreasContaining(point: GeoPoint | null | undefined): AreaOption[] {
+  if (!isValidGeoPoint(point)) return [];
+
+  const lonLat = toLonLat(point);
+  return BOUNDARIES_BY_SIZE
+    .filter(boundary => isPointInRing(lonLat, boundary.ring))
+    .map(boundary => getAreaByCode(boundary.code))
+    .filter((area): area is AreaOption => area !== undefined);
+}
+
+/**
+ * Get the single best area for a point.
+ *
+ * @param point - GPS position
+ * @returns The most specific containing area, or undefined
+ */
+export function getAreaForCoordinates(point: GeoPoint | null | undefined): AreaOption | undefined {
+  return findAreasContaining(point)[0];
+}
+
+/**
+ * Find the nearest area within a distance of a point.
+ *
+ * A point inside an area matches it at distance 0. Otherwise the closest
+ * boundary within range wins — useful for fixes taken at a dock or boat
+ * ramp, which fall just outside the water polygons.
+ *
+ * @param point - GPS position
+ * @param maxDistanceMiles - Search radius in statute miles
+ * @returns The nearest area and its distance, or undefined if none is in range
+ */
+export function findNearestArea(
+  point: GeoPoint | null | undefined,
+  maxDistanceMiles: number
+): AreaMatch | undefined {
+  if (!isValidGeoPoint(point)) return undefined;
+
+  const containing = getAreaForCoordinates(point);
+  if (containing) {
+    return { area: containing, distanceMiles: 0 };
+  }
+
+  const lonLat = toLonLat(point);
+  let nearest: { code: string; distanceMiles: number } | undefined;
+  for (const boundary of AREA_BOUNDARIES) {
+    const distanceMiles = distanceToRingMiles(lonLat, boundary.ring);
+    if (distanceMiles <= maxDistanceMiles && (!nearest || distanceMiles < nearest.distanceMiles)) {
+      nearest = { code: boundary.code, distanceMiles };
+    }
+  }
+
+  if (!nearest) return undefined;
+  const area = getAreaByCode(nearest.code);
+  return area ? { area, distanceMiles: nearest.distanceMiles } : undefined;
+}
+
+/**
+ * Distance from a point to a specific area.
+ *
+ * Lets screens sanity-check a manually selected area against a GPS fix
+ * (e.g. "you picked Bogue Sound but are 40 miles away").
+ *
+ * @param point - GPS position
+ * @param code - DMF area code
+ * @returns Miles to the area boundary (0 if inside), or undefined for an unknown code or invalid point
+ */
+export function getDistanceToAreaMiles(
+  point: GeoPoint | null | undefined,
+  code: string
+): number | undefined {
+  if (!isValidGeoPoint(point)) return undefined;
+
+  const boundary = AREA_BOUNDARIES.find(b => b.code === code);
+  if (!boundary) return undefined;
+
+  const lonLat = toLonLat(point);
+  return isPointInRing(lonLat, boundary.ring) ? 0 : distanceToRingMiles(lonLat, boundary.ring);
+}
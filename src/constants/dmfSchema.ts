@@ -0,0 +1,92 @@
+// constants/dmfSchema.ts
+//
+// Checked-in description of the DMF ArcGIS feature layer the app writes to.
+// The field list mirrors the FeatureServer layer JSON (name, type, length,
+// nullable, coded-value domains) so scripts/checkDMFSchema.mjs can diff it
+// against a saved copy of the live layer and flag when DMF changes the form.
+//
+// Two keys are ours rather than ArcGIS's:
+// - required: the Survey123 form requires a value (the layer itself allows null)
+// - relevant: the question is only asked when another field has a given
+//   value; outside that condition the field must be sent as null
+//
+
+import schemaJson from './dmfLayerSchema.json';
+
+/** Coded-value domain (e.g., Area codes, Yes/No) */
+export interface DMFCodedValueDomain {
+  type: 'codedValue';
+  name: string;
+  codedValues: ReadonlyArray<{ name: string; code: string | number }>;
+}
+
+/** Condition under which a field is asked */
+export interface DMFFieldCondition {
+  field: string;
+  equals: string;
+}
+
+export type DMFFieldType =
+  | 'esriFieldTypeString'
+  | 'esriFieldTypeDate'
+  | 'esriFieldTypeInteger'
+  | 'esriFieldTypeSmallInteger'
+  | 'esriFieldTypeDouble'
+  | 'esriFieldTypeGUID'
+  | 'esriFieldTypeGlobalID';
+
+/** One attribute field on the DMF feature layer */
+export interface DMFFieldSchema {
+  name: string;
+  type: DMFFieldType;
+  /** Max characters (string fields) */
+  length?: number;
+  /** Whether the layer accepts null */
+  nullable: boolean;
+  /** Whether the form requires a value (when relevant) */
+  required: boolean;
+  domain?: DMFCodedValueDomain;
+  relevant?: DMFFieldCondition;
+}
+
+/** The DMF feature layer: service, layer identity and writable fields */
+export interface DMFLayerSchema {
+  service: { url: string };
+  layer: {
+    id: number;
+    name: string;
+    geometryType: string;
+    globalIdField: string;
+    objectIdField: string;
+  };
+  fields: readonly DMFFieldSchema[];
+}
+
+/**
+ * DMF RecreationalReportingEntry layer schema.
+ *
+ * Source: MandReportingData FeatureServer layer 0. Update the JSON when
+ * scripts/checkDMFSchema.mjs reports drift, then fix whatever the contract
+ * tests flag in transformToDMFPayload.
+ */
+export const DMF_LAYER_SCHEMA = schemaJson as DMFLayerSchema;
+
+/**
+ * Find a field in the DMF layer schema.
+ *
+ * @param name - DMF attribute name (e.g., "Area")
+ * @returns The field schema or undefined
+ */
+export function getDMFField(name: string): DMFFieldSchema | undefined {
+  return DMF_LAYER_SCHEMA.fields.find(f => f.name === name);
+}
+
+/**
+ * Get the allowed codes for a coded-value field.
+ *
+ * @param name - DMF attribute name (e.g., "Gear")
+ * @returns Codes as strings (empty if the field has no domain)
+ */
+export function getDMFDomainCodes(name: string): string[] {
+  return getDMFField(name)?.domain?.codedValues.map(v => String(v.code)) ?? [];
+}
@@ -0,0 +1,61 @@
+// constants/feedPrivacy.ts
+//
+// Options for the catch feed privacy settings (location precision, delayed
+// publishing and post audience). The redaction itself happens in the
+// v_catch_feed view (supabase/migrations/feed_location_privacy.sql and
+// post_visibility.sql); these only drive the UI and the values written to
+// users / harvest_reports.
+
+import type { FeedPrivacySettings, LocationPrecision, PostVisibility } from '../types/catchFeed';
+
+export interface LocationPrecisionOption {
+  value: LocationPrecision;
+  /** Chip label */
+  label: string;
+  /** What other anglers will see */
+  description: string;
+}
+
+export interface PostVisibilityOption {
+  value: PostVisibility;
+  label: string;
+  /** Feather icon name */
+  icon: string;
+}
+
+export interface PublishDelayOption {
+  /** Days after submission */
+  value: number;
+  label: string;
+}
+
+/** Location precision choices, most to least revealing */
+export const LOCATION_PRECISION_OPTIONS: readonly LocationPrecisionOption[] = [
+  { value: 'exact', label: 'Exact Area', description: 'Anglers see the harvest area, like "Bogue Sound".' },
+  { value: 'region', label: 'Region Only', description: 'Anglers see only the region, like "Crystal Coast".' },
+  { value: 'hidden', label: 'Hidden', description: 'Anglers don\'t see where the catch was made.' },
+] as const;
+
+/** Publishing delay choices */
+export const PUBLISH_DELAY_OPTIONS: readonly PublishDelayOption[] = [
+  { value: 0, label: 'Right Away' },
+  { value: 1, label: 'After 1 Day' },
+  { value: 3, label: 'After 3 Days' },
+  { value: 7, label: 'After 1 Week' },
+] as const;
+
+/** Longest delay the database accepts (check constraint) */
+export const MAX_PUBLISH_DELAY_DAYS = 30;
+
+/** Profile settings for anglers who haven't changed them */
+export const DEFAULT_FEED_PRIVACY: FeedPrivacySettings = {
+  locationPrecision: 'exact',
+  publishDelayDays: 0,
+};
+
+/** Audience choices for a shared catch, widest first */
+export const POST_VISIBILITY_OPTIONS: readonly PostVisibilityOption[] = [
+  { value: 'public', label: 'Everyone', icon: 'globe' },
+  { value: 'followers', label: 'Followers', icon: 'users' },
+  { value: 'private', label: 'Only Me', icon: 'lock' },
+] as const;
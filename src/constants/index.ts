@@ -14,6 +14,24 @@ export {
   type AreaOption,
 } from './areaOptions';
 
+// Area of Harvest boundaries and offline lookup
+export {
+  AREA_BOUNDARIES,
+  CAPE_HATTERAS_LATITUDE,
+  type AreaBoundary,
+  type LonLat,
+} from './areaBoundaries';
+export {
+  findAreasContaining,
+  getAreaForCoordinates,
+  findNearestArea,
+  getDistanceToAreaMiles,
+  isValidGeoPoint,
+  isPointInRing,
+  type GeoPoint,
+  type AreaMatch,
+} from './areaLookup';
+
 // Gear Type options
 export {
   GEAR_OPTIONS,
@@ -44,11 +62,36 @@ export {
   createEmptySpeciesCounts,
   getTotalFishCount,
   hasAnyFish,
+  reportToSpeciesCounts,
+  speciesCountsToReport,
+  pickReportCounts,
+  rowToReportCounts,
+  rowToSpeciesCounts,
+  reportCountsToRow,
+  getSpeciesCountBreakdown,
   type SpeciesInfo,
+  type SpeciesLabel,
+  type ReportableSpecies,
+  type SpeciesCountKey,
+  type ReportCountField,
+  type DBCountColumn,
+  type ReportSpeciesCounts,
   type SpeciesCounts,
   type DMFSpeciesPayload,
 } from './species';
 
+// DMF feature layer schema
+export {
+  DMF_LAYER_SCHEMA,
+  getDMFField,
+  getDMFDomainCodes,
+  type DMFLayerSchema,
+  type DMFFieldSchema,
+  type DMFFieldType,
+  type DMFFieldCondition,
+  type DMFCodedValueDomain,
+} from './dmfSchema';
+
 // Screen labels
 export {
   SCREEN_LABELS,
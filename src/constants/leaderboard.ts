@@ -0,0 +1,73 @@
+// constants/leaderboard.ts
+//
+// Options and helpers for the leaderboard screen's period and metric pickers.
+
+import { LeaderboardMetric, LeaderboardPeriod } from '../types/leaderboard';
+
+export interface LeaderboardPeriodOption {
+  value: LeaderboardPeriod;
+  label: string;
+}
+
+export interface LeaderboardMetricOption {
+  value: LeaderboardMetric;
+  label: string;
+  /** Unit shown after the value, singular and plural */
+  unit: [string, string];
+}
+
+export const LEADERBOARD_PERIOD_OPTIONS: readonly LeaderboardPeriodOption[] = [
+  { value: 'week', label: 'This Week' },
+  { value: 'month', label: 'This Month' },
+  { value: 'quarter', label: 'This Quarter' },
+  { value: 'year', label: 'This Year' },
+  { value: 'all', label: 'All Time' },
+];
+
+export const LEADERBOARD_METRIC_OPTIONS: readonly LeaderboardMetricOption[] = [
+  { value: 'catches', label: 'Most Catches', unit: ['fish', 'fish'] },
+  { value: 'species', label: 'Most Species', unit: ['species', 'species'] },
+  { value: 'length', label: 'Longest Fish', unit: ['inch', 'inches'] },
+];
+
+/** Period the Catch Feed's top anglers preview covers (the rewards period). */
+export const TOP_ANGLERS_PERIOD: LeaderboardPeriod = 'quarter';
+
+/**
+ * First harvest date (YYYY-MM-DD, local time) in a period, or null for all
+ * time. Weeks start on Monday; the other periods are calendar periods.
+ */
+export function getPeriodStartDate(period: LeaderboardPeriod, now: Date = new Date()): string | null {
+  const year = now.getFullYear();
+  const month = now.getMonth();
+  let start: Date;
+
+  switch (period) {
+    case 'week': {
+      const daysSinceMonday = (now.getDay() + 6) % 7;
+      start = new Date(year, month, now.getDate() - daysSinceMonday);
+      break;
+    }
+    case 'month':
+      start = new Date(year, month, 1);
+      break;
+    case 'quarter':
+      start = new Date(year, Math.floor(month / 3) * 3, 1);
+      break;
+    case 'year':
+      start = new Date(year, 0, 1);
+      break;
+    case 'all':
+      return null;
+  }
+
+  return `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}-${String(start.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * "12 fish", "1 species", "31.5 inches".
+ */
+export function formatLeaderboardValue(metric: LeaderboardMetric, value: number): string {
+  const option = LEADERBOARD_METRIC_OPTIONS.find((o) => o.value === metric)!;
+  return `${value} ${value === 1 ? option.unit[0] : option.unit[1]}`;
+}
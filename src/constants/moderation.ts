@@ -0,0 +1,40 @@
+// constants/moderation.ts
+//
+// Reason codes offered when reporting a catch or comment. The values match
+// the reason_code CHECK constraints in supabase/migrations/moderation.sql.
+
+import { ReportReasonCode } from '../types/catchFeed';
+
+export interface ReportReasonOption {
+  value: ReportReasonCode;
+  label: string;
+  description: string;
+}
+
+export const REPORT_REASON_OPTIONS: readonly ReportReasonOption[] = [
+  {
+    value: 'spam',
+    label: 'Spam',
+    description: 'Ads, scams or repeated posts',
+  },
+  {
+    value: 'harassment',
+    label: 'Harassment',
+    description: 'Insults, threats or targeting another angler',
+  },
+  {
+    value: 'inappropriate',
+    label: 'Inappropriate',
+    description: 'Offensive language or images',
+  },
+  {
+    value: 'illegal_harvest',
+    label: 'Illegal Harvest',
+    description: 'Undersized, over-limit or closed-season fish',
+  },
+  {
+    value: 'other',
+    label: 'Something Else',
+    description: 'Anything our moderators should look at',
+  },
+];
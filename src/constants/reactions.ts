@@ -0,0 +1,68 @@
+// constants/reactions.ts
+//
+// The fixed reaction set for catches. Values match the reaction CHECK
+// constraint in supabase/migrations/catch_reactions.sql.
+
+import { CatchFeedEntry, CatchReaction, ReactionCounts } from '../types/catchFeed';
+
+export interface CatchReactionOption {
+  value: CatchReaction;
+  label: string;
+  emoji: string;
+}
+
+/** What a plain tap on the like button leaves (and what older likes became) */
+export const DEFAULT_REACTION: CatchReaction = 'nice_fish';
+
+export const CATCH_REACTION_OPTIONS: readonly CatchReactionOption[] = [
+  { value: 'nice_fish', label: 'Nice Fish', emoji: '🎣' },
+  { value: 'big_one', label: 'Big One', emoji: '💪' },
+  { value: 'jealous', label: 'Jealous', emoji: '😤' },
+  { value: 'good_eats', label: 'Good Eats', emoji: '🍽️' },
+];
+
+/**
+ * Option for a reaction code, falling back to the default for unknown codes.
+ */
+export function getReactionOption(reaction: CatchReaction): CatchReactionOption {
+  return CATCH_REACTION_OPTIONS.find(o => o.value === reaction) ?? CATCH_REACTION_OPTIONS[0];
+}
+
+/**
+ * Reactions that have been used, most popular first (ties keep the option
+ * order). CatchCard shows the first few next to the like count.
+ */
+export function topReactions(counts: ReactionCounts | undefined, limit = 3): CatchReactionOption[] {
+  if (!counts) return [];
+  return CATCH_REACTION_OPTIONS
+    .filter(o => (counts[o.value] ?? 0) > 0)
+    .sort((a, b) => (counts[b.value] ?? 0) - (counts[a.value] ?? 0))
+    .slice(0, limit);
+}
+
+/**
+ * The entry as it looks after the viewer sets their reaction (null removes
+ * it). Used for optimistic updates; likeCount stays the sum of reactions.
+ */
+export function applyReaction(entry: CatchFeedEntry, reaction: CatchReaction | null): CatchFeedEntry {
+  const previous = entry.myReaction ?? (entry.isLikedByCurrentUser ? DEFAULT_REACTION : null);
+  const counts: ReactionCounts = { ...entry.reactionCounts };
+
+  if (previous) {
+    const left = (counts[previous] ?? 0) - 1;
+    if (left > 0) counts[previous] = left;
+    else delete counts[previous];
+  }
+  if (reaction) {
+    counts[reaction] = (counts[reaction] ?? 0) + 1;
+  }
+
+  const delta = (reaction ? 1 : 0) - (previous ? 1 : 0);
+  return {
+    ...entry,
+    reactionCounts: counts,
+    myReaction: reaction,
+    isLikedByCurrentUser: !!reaction,
+    likeCount: Math.max(0, entry.likeCount + delta),
+  };
+}
@@ -1,8 +1,8 @@
 // constants/regionOptions.ts
 //
-// NC coastal region groupings for the Promotions Hub area filter.
-// These are simplified regions that map to groups of DMF area codes,
-// used for filtering promotions/charters by geographic area.
+// NC coastal region groupings for the Promotions Hub and Catch Feed area
+// filters. These are simplified regions that map to groups of DMF area codes,
+// used for filtering promotions/charters and catches by geographic area.
 
 export interface RegionOption {
   /** Region code used in advertisements.area_codes */
@@ -11,6 +11,11 @@ export interface RegionOption {
   label: string;
   /** Short label for pills/chips */
   shortLabel: string;
+  /**
+   * DMF area codes (AREA_OPTIONS values) in the region. Ocean areas border
+   * several regions, so a code can appear in more than one.
+   */
+  areaCodes: readonly string[];
 }
 
 /**
@@ -20,13 +25,13 @@ export interface RegionOption {
  * targeting their promotions to specific areas of the NC coast.
  */
 export const REGION_OPTIONS: readonly RegionOption[] = [
-  { value: 'OBX', label: 'Outer Banks', shortLabel: 'OBX' },
-  { value: 'NEC', label: 'Northeast Coast', shortLabel: 'NE Coast' },
-  { value: 'CRC', label: 'Crystal Coast', shortLabel: 'Crystal Coast' },
-  { value: 'WIL', label: 'Wilmington Area', shortLabel: 'Wilmington' },
-  { value: 'BRN', label: 'Brunswick Coast', shortLabel: 'Brunswick' },
-  { value: 'PAM', label: 'Pamlico Sound', shortLabel: 'Pamlico' },
-  { value: 'ALB', label: 'Albemarle Region', shortLabel: 'Albemarle' },
+  { value: 'OBX', label: 'Outer Banks', shortLabel: 'OBX', areaCodes: ['9', '45', '20', '22'] },
+  { value: 'NEC', label: 'Northeast Coast', shortLabel: 'NE Coast', areaCodes: ['10', '80', '20', '22'] },
+  { value: 'CRC', label: 'Crystal Coast', shortLabel: 'Crystal Coast', areaCodes: ['5', '8', '31', '42', '43', '21', '23'] },
+  { value: 'WIL', label: 'Wilmington Area', shortLabel: 'Wilmington', areaCodes: ['6', '12', '30', '39', '41', '54', '21', '23'] },
+  { value: 'BRN', label: 'Brunswick Coast', shortLabel: 'Brunswick', areaCodes: ['6', '11', '38', '53', '21', '23'] },
+  { value: 'PAM', label: 'Pamlico Sound', shortLabel: 'Pamlico', areaCodes: ['3', '13', '29', '33', '34', '52'] },
+  { value: 'ALB', label: 'Albemarle Region', shortLabel: 'Albemarle', areaCodes: ['1', '2', '7', '35', '36', '37'] },
 ] as const;
 
 /**
@@ -42,3 +47,19 @@ export function getRegionByCode(code: string): RegionOption | undefined {
 export function getRegionLabel(code: string): string {
   return getRegionByCode(code)?.label || code;
 }
+
+/**
+ * Get the DMF area codes in a region (empty for an unknown code)
+ */
+export function getRegionAreaCodes(code: string): readonly string[] {
+  return getRegionByCode(code)?.areaCodes ?? [];
+}
+
+/**
+ * Get the region an area belongs to. Areas shared between regions resolve to
+ * the first region listing them, so each area has one "home" region (used
+ * when a catch is shared with region-only location precision).
+ */
+export function getRegionForArea(areaCode: string): RegionOption | undefined {
+  return REGION_OPTIONS.find(r => r.areaCodes.includes(areaCode));
+}
@@ -46,6 +46,18 @@ export const SCREEN_LABELS = {
     title: 'Partner With Us',
     subtitle: 'Advertise on NC Fish Log',
   },
+  notifications: {
+    title: 'Notifications',
+    subtitle: 'Likes, comments & follows',
+  },
+  leaderboard: {
+    title: 'Leaderboard',
+    subtitle: 'Top anglers by catches, species & length',
+  },
+  prizeClaim: {
+    title: 'Claim Your Prize',
+    subtitle: 'Confirm your contact & shipping details',
+  },
 } as const;
 
 // Type for accessing screen labels
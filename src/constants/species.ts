@@ -3,6 +3,10 @@
 // NC DMF Species definitions with official field names.
 // Maps user-friendly species names to DMF ArcGIS field names.
 //
+// SPECIES is the single list of reportable species. Count fields on reports,
+// Supabase columns and the DMF payload are all derived from it, so adding a
+// species DMF starts requiring means adding one entry here (plus a column).
+//
 
 export interface SpeciesInfo {
   /** Unique identifier for the species */
@@ -10,13 +14,28 @@ export interface SpeciesInfo {
   /** Display name shown to user */
   displayName: string;
   /** Alternative names users might search for */
-  alternativeNames: string[];
+  alternativeNames: readonly string[];
   /** DMF field name for the count (e.g., "NumRD" for Red Drum) */
   dmfCountField: string;
   /** DMF field name for the yes/no flag (e.g., "RedDr") - sent as null */
   dmfFlagField: string;
+  /** Key in SpeciesCounts (e.g., "redDrum") */
+  countKey: string;
+  /** Count field on HarvestReportInput / StoredReport (e.g., "redDrumCount") */
+  reportCountField: string;
+  /** Count column on the Supabase harvest_reports table (e.g., "red_drum_count") */
+  dbCountColumn: string;
+  /** Label in the report form picker (e.g., "Weakfish (gray trout)") */
+  pickerLabel: string;
+  /** Name in the fish_species catalog, used for photos (e.g., "Southern Flounder") */
+  catalogName: string;
+  /** Compact label for chips (e.g., "Seatrout") */
+  shortName: string;
 }
 
+/** Which name to label a species with when listing counts */
+export type SpeciesLabel = 'displayName' | 'pickerLabel' | 'catalogName' | 'shortName';
+
 /**
  * Official NC DMF reportable species
  *
@@ -27,15 +46,24 @@ export interface SpeciesInfo {
  * - Count field (e.g., NumRD): String containing the number harvested
  * - Flag field (e.g., RedDr): Always sent as null (legacy field)
  *
+ * The field names are kept as literal types so report, row and payload
+ * types can be derived from this list.
+ *
  * Source: NC DMF Mandatory Harvest Reporting system
  */
-export const SPECIES: readonly SpeciesInfo[] = [
+export const SPECIES = [
   {
     id: "red_drum",
     displayName: "Red Drum",
     alternativeNames: ["Redfish", "Channel Bass", "Puppy Drum", "Red"],
     dmfCountField: "NumRD",
     dmfFlagField: "RedDr",
+    countKey: "redDrum",
+    reportCountField: "redDrumCount",
+    dbCountColumn: "red_drum_count",
+    pickerLabel: "Red Drum",
+    catalogName: "Red Drum",
+    shortName: "Red Drum",
   },
   {
     id: "flounder",
@@ -43,6 +71,12 @@ export const SPECIES: readonly SpeciesInfo[] = [
     alternativeNames: ["Southern Flounder", "Summer Flounder", "Fluke"],
     dmfCountField: "NumF",
     dmfFlagField: "Flound",
+    countKey: "flounder",
+    reportCountField: "flounderCount",
+    dbCountColumn: "flounder_count",
+    pickerLabel: "Flounder",
+    catalogName: "Southern Flounder",
+    shortName: "Flounder",
   },
   {
     id: "spotted_seatrout",
@@ -50,6 +84,12 @@ export const SPECIES: readonly SpeciesInfo[] = [
     alternativeNames: ["Speckled Trout", "Specks", "Specs", "Speck"],
     dmfCountField: "NumSS",
     dmfFlagField: "SST",
+    countKey: "spottedSeatrout",
+    reportCountField: "spottedSeatroutCount",
+    dbCountColumn: "spotted_seatrout_count",
+    pickerLabel: "Spotted Seatrout (speckled trout)",
+    catalogName: "Spotted Seatrout",
+    shortName: "Seatrout",
   },
   {
     id: "weakfish",
@@ -57,6 +97,12 @@ export const SPECIES: readonly SpeciesInfo[] = [
     alternativeNames: ["Gray Trout", "Grey Trout", "Squeteague"],
     dmfCountField: "NumW",
     dmfFlagField: "Weakf",
+    countKey: "weakfish",
+    reportCountField: "weakfishCount",
+    dbCountColumn: "weakfish_count",
+    pickerLabel: "Weakfish (gray trout)",
+    catalogName: "Weakfish",
+    shortName: "Weakfish",
   },
   {
     id: "striped_bass",
@@ -64,8 +110,32 @@ export const SPECIES: readonly SpeciesInfo[] = [
     alternativeNames: ["Striper", "Rockfish", "Rock", "Linesider"],
     dmfCountField: "NumSB",
     dmfFlagField: "Striped",
+    countKey: "stripedBass",
+    reportCountField: "stripedBassCount",
+    dbCountColumn: "striped_bass_count",
+    pickerLabel: "Striped Bass",
+    catalogName: "Striped Bass",
+    shortName: "Striped Bass",
   },
-] as const;
+] as const satisfies readonly SpeciesInfo[];
+
+/** One of the reportable species in SPECIES */
+export type ReportableSpecies = (typeof SPECIES)[number];
+
+/** SpeciesCounts key (e.g., "redDrum") */
+export type SpeciesCountKey = ReportableSpecies['countKey'];
+
+/** Report count field (e.g., "redDrumCount") */
+export type ReportCountField = ReportableSpecies['reportCountField'];
+
+/** Supabase count column (e.g., "red_drum_count") */
+export type DBCountColumn = ReportableSpecies['dbCountColumn'];
+
+/**
+ * Per-species count fields on a report (redDrumCount, flounderCount, …).
+ * The fixed-field shape HarvestReportInput and StoredReport extend.
+ */
+export type ReportSpeciesCounts = Record<ReportCountField, number>;
 
 /**
  * Display names for the species picker
@@ -99,7 +169,7 @@ const DISPLAY_NAME_TO_ID: Record<string, string> = {
  * @param id - The species ID (e.g., "red_drum")
  * @returns The matching SpeciesInfo or undefined
  */
-export function getSpeciesById(id: string | null | undefined): SpeciesInfo | undefined {
+export function getSpeciesById(id: string | null | undefined): ReportableSpecies | undefined {
   if (!id) return undefined;
   return SPECIES.find(s => s.id === id);
 }
@@ -110,7 +180,7 @@ export function getSpeciesById(id: string | null | undefined): SpeciesInfo | und
  * @param displayName - The display name from the picker
  * @returns The matching SpeciesInfo or undefined
  */
-export function getSpeciesByDisplayName(displayName: string | null | undefined): SpeciesInfo | undefined {
+export function getSpeciesByDisplayName(displayName: string | null | undefined): ReportableSpecies | undefined {
   if (!displayName) return undefined;
 
   const id = DISPLAY_NAME_TO_ID[displayName];
@@ -147,53 +217,31 @@ export function getDMFFlagField(displayName: string): string | undefined {
 }
 
 /**
- * Species counts interface for form data
+ * Species counts for form data, keyed by SpeciesInfo.countKey
+ * (redDrum, flounder, spottedSeatrout, weakfish, stripedBass).
  */
-export interface SpeciesCounts {
-  redDrum: number;
-  flounder: number;
-  spottedSeatrout: number;
-  weakfish: number;
-  stripedBass: number;
-}
+export type SpeciesCounts = Record<SpeciesCountKey, number>;
 
 /**
  * Create empty species counts object
  */
 export function createEmptySpeciesCounts(): SpeciesCounts {
-  return {
-    redDrum: 0,
-    flounder: 0,
-    spottedSeatrout: 0,
-    weakfish: 0,
-    stripedBass: 0,
-  };
+  const counts = {} as SpeciesCounts;
+  for (const species of SPECIES) {
+    counts[species.countKey] = 0;
+  }
+  return counts;
 }
 
-/**
- * Map from species ID to SpeciesCounts key
- */
-const SPECIES_ID_TO_COUNT_KEY: Record<string, keyof SpeciesCounts> = {
-  red_drum: "redDrum",
-  flounder: "flounder",
-  spotted_seatrout: "spottedSeatrout",
-  weakfish: "weakfish",
-  striped_bass: "stripedBass",
-};
-
 /**
  * Get the SpeciesCounts key for a species display name
  *
  * @param displayName - The display name from the picker
  * @returns The key for SpeciesCounts object
  */
-export function getSpeciesCountKey(displayName: string | null | undefined): keyof SpeciesCounts | undefined {
+export function getSpeciesCountKey(displayName: string | null | undefined): SpeciesCountKey | undefined {
   if (!displayName) return undefined;
-  const species = getSpeciesByDisplayName(displayName);
-  if (species) {
-    return SPECIES_ID_TO_COUNT_KEY[species.id];
-  }
-  return undefined;
+  return getSpeciesByDisplayName(displayName)?.countKey;
 }
 
 /**
@@ -220,24 +268,125 @@ export function aggregateFishEntries(
   return counts;
 }
 
+// ============================================
+// REPORT / ROW MAPPING
+// ============================================
+
+/**
+ * Read species counts from a report's count fields.
+ * Missing or non-numeric counts read as 0.
+ *
+ * @param report - Anything with report count fields (input, stored or queued report)
+ * @returns Counts keyed by SpeciesCounts key
+ */
+export function reportToSpeciesCounts(report: Partial<ReportSpeciesCounts>): SpeciesCounts {
+  const counts = createEmptySpeciesCounts();
+  for (const species of SPECIES) {
+    counts[species.countKey] = Number(report[species.reportCountField]) || 0;
+  }
+  return counts;
+}
+
+/**
+ * Convert SpeciesCounts to report count fields.
+ *
+ * @param counts - The species counts
+ * @returns { redDrumCount, flounderCount, ... }
+ */
+export function speciesCountsToReport(counts: SpeciesCounts): ReportSpeciesCounts {
+  const fields = {} as ReportSpeciesCounts;
+  for (const species of SPECIES) {
+    fields[species.reportCountField] = counts[species.countKey];
+  }
+  return fields;
+}
+
+/**
+ * Copy the count fields from one report shape to another
+ * (e.g. QueuedReport -> SubmittedReport).
+ *
+ * @param report - Source report
+ * @returns { redDrumCount, flounderCount, ... }
+ */
+export function pickReportCounts(report: ReportSpeciesCounts): ReportSpeciesCounts {
+  const fields = {} as ReportSpeciesCounts;
+  for (const species of SPECIES) {
+    fields[species.reportCountField] = report[species.reportCountField];
+  }
+  return fields;
+}
+
+/**
+ * Read report count fields from a Supabase harvest_reports row.
+ *
+ * @param row - Raw snake_case row
+ * @returns { redDrumCount, flounderCount, ... }
+ */
+export function rowToReportCounts(row: Record<string, unknown>): ReportSpeciesCounts {
+  const fields = {} as ReportSpeciesCounts;
+  for (const species of SPECIES) {
+    fields[species.reportCountField] = row[species.dbCountColumn] as number;
+  }
+  return fields;
+}
+
 /**
- * DMF species payload structure with exact field names
+ * Convert report count fields to Supabase harvest_reports columns.
+ *
+ * @param report - Report with count fields
+ * @returns { red_drum_count, flounder_count, ... }
+ */
+export function reportCountsToRow(report: ReportSpeciesCounts): Record<DBCountColumn, number> {
+  const row = {} as Record<DBCountColumn, number>;
+  for (const species of SPECIES) {
+    row[species.dbCountColumn] = report[species.reportCountField];
+  }
+  return row;
+}
+
+/**
+ * Read species counts straight from a Supabase harvest_reports row.
+ *
+ * @param row - Raw snake_case row
+ * @returns Counts keyed by SpeciesCounts key (missing columns read as 0)
  */
-export interface DMFSpeciesPayload {
-  // Count fields (as strings per DMF spec)
-  NumRD: string;
-  NumF: string;
-  NumSS: string;
-  NumW: string;
-  NumSB: string;
-  // Flag fields (always null - legacy fields)
-  RedDr: null;
-  Flound: null;
-  SST: null;
-  Weakf: null;
-  Striped: null;
+export function rowToSpeciesCounts(row: Record<string, unknown>): SpeciesCounts {
+  return reportToSpeciesCounts(rowToReportCounts(row));
 }
 
+/**
+ * Species with a count > 0, in SPECIES order.
+ *
+ * Used to rebuild a species list from aggregate counts when a report has no
+ * fish entries. Feed cards label by picker label, photo lookups need the
+ * catalog name, everything else uses the display name.
+ *
+ * @param counts - The species counts
+ * @param label - Which SpeciesInfo name to use
+ * @returns [{ species: "Red Drum", count: 2 }, ...]
+ */
+export function getSpeciesCountBreakdown(
+  counts: SpeciesCounts,
+  label: SpeciesLabel = 'displayName'
+): Array<{ species: string; count: number }> {
+  return SPECIES
+    .filter(species => counts[species.countKey] > 0)
+    .map(species => ({ species: species[label], count: counts[species.countKey] }));
+}
+
+// ============================================
+// DMF PAYLOAD
+// ============================================
+
+/**
+ * DMF species payload structure with exact field names:
+ * count fields as strings (NumRD, NumF, …) and legacy flag fields
+ * (RedDr, Flound, …) always null.
+ */
+export type DMFSpeciesPayload =
+  Record<ReportableSpecies['dmfCountField'], string> &
+  Record<ReportableSpecies['dmfFlagField'], null>;
+
 /**
  * Convert SpeciesCounts to DMF payload format
  *
@@ -247,20 +396,19 @@ export interface DMFSpeciesPayload {
  * @returns Object with DMF field names and string values
  */
 export function speciesToDMFPayload(counts: SpeciesCounts): DMFSpeciesPayload {
-  return {
-    // Count fields (as strings)
-    NumRD: counts.redDrum.toString(),
-    NumF: counts.flounder.toString(),
-    NumSS: counts.spottedSeatrout.toString(),
-    NumW: counts.weakfish.toString(),
-    NumSB: counts.stripedBass.toString(),
-    // Flag fields (always null per DMF spec)
-    RedDr: null,
-    Flound: null,
-    SST: null,
-    Weakf: null,
-    Striped: null,
-  };
+  const payload = {} as Record<string, string | null>;
+
+  // Count fields (as strings)
+  for (const species of SPECIES) {
+    payload[species.dmfCountField] = counts[species.countKey].toString();
+  }
+
+  // Flag fields (always null per DMF spec)
+  for (const species of SPECIES) {
+    payload[species.dmfFlagField] = null;
+  }
+
+  return payload as DMFSpeciesPayload;
 }
 
 /**
@@ -270,13 +418,7 @@ export function speciesToDMFPayload(counts: SpeciesCounts): DMFSpeciesPayload {
  * @returns Total number of fish across all species
  */
 export function getTotalFishCount(counts: SpeciesCounts): number {
-  return (
-    counts.redDrum +
-    counts.flounder +
-    counts.spottedSeatrout +
-    counts.weakfish +
-    counts.stripedBass
-  );
+  return SPECIES.reduce((sum, species) => sum + counts[species.countKey], 0);
 }
 
 /**
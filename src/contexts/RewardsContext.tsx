@@ -21,6 +21,9 @@ import {
   UserRewardsEntry,
   RewardsState,
   RewardsCalculated,
+  PastDrawing,
+  PrizeClaimDetails,
+  DrawingEntryBreakdown,
 } from '../types/rewards';
 import {
   fetchRewardsData,
@@ -33,6 +36,9 @@ import {
   getPendingDrawingEntry,
   getRewardsStatusByDevice,
   saveUserEntry,
+  fetchPastDrawings,
+  fetchEntryBreakdown,
+  claimPrize as claimPrizeInService,
 } from '../services/rewardsService';
 import { getDeviceId } from '../utils/deviceId';
 import { updatePendingDrawingEntry } from '../services/pendingSubmissionService';
@@ -64,6 +70,15 @@ interface RewardsContextValue {
   // Calculated values
   calculated: RewardsCalculated;
 
+  // Weighted entries earned in the current drawing (members only; guests
+  // and members without a breakdown yet count as one entry once entered)
+  entryBreakdown: DrawingEntryBreakdown | null;
+  entryCount: number;
+
+  // Past drawings (newest first) and the user's unclaimed prize, if any
+  pastDrawings: PastDrawing[];
+  pendingPrizeClaim: PastDrawing | null;
+
   // Quarter change detection
   isNewQuarter: boolean;
   acknowledgeNewQuarter: () => void;
@@ -72,6 +87,7 @@ interface RewardsContextValue {
   refresh: () => Promise<void>;
   enterDrawing: (reportId?: string) => Promise<boolean>;
   isEnteredInCurrentDrawing: () => boolean;
+  claimPrize: (drawingId: string, details: PrizeClaimDetails, acceptTerms: boolean) => Promise<void>;
 
   // Legacy compatibility
   hasEnteredCurrentRaffle: boolean;
@@ -97,11 +113,16 @@ const defaultContextValue: RewardsContextValue = {
   isLoading: true,
   error: null,
   calculated: defaultCalculated,
+  entryBreakdown: null,
+  entryCount: 0,
+  pastDrawings: [],
+  pendingPrizeClaim: null,
   isNewQuarter: false,
   acknowledgeNewQuarter: () => {},
   refresh: async () => {},
   enterDrawing: async () => false,
   isEnteredInCurrentDrawing: () => false,
+  claimPrize: async () => {},
   hasEnteredCurrentRaffle: false,
 };
 
@@ -130,6 +151,8 @@ export function RewardsProvider({ children, userId }: RewardsProviderProps): Rea
   const [error, setError] = useState<string | null>(null);
   const [enteredDrawingIds, setEnteredDrawingIds] = useState<string[]>([]);
   const [isNewQuarter, setIsNewQuarter] = useState(false);
+  const [pastDrawings, setPastDrawings] = useState<PastDrawing[]>([]);
+  const [entryBreakdown, setEntryBreakdown] = useState<DrawingEntryBreakdown | null>(null);
 
   // Track app state for foreground refresh
   const appState = useRef(AppState.currentState);
@@ -184,6 +207,36 @@ export function RewardsProvider({ children, userId }: RewardsProviderProps): Rea
     }
   }, [currentDrawing]);
 
+  /**
+   * Load past drawing results and the user's own history. Failures leave
+   * the previous list in place — history is secondary to the current drawing.
+   */
+  const loadPastDrawings = useCallback(async () => {
+    try {
+      const drawings = await fetchPastDrawings();
+      setPastDrawings(drawings ?? []);
+    } catch (err) {
+      console.warn('Could not load past drawings:', err);
+    }
+  }, []);
+
+  /**
+   * Load the member's weighted entry breakdown for a drawing. Entries are
+   * computed server-side, so guests (no rewards member) have none to load.
+   */
+  const loadEntryBreakdown = useCallback(async (drawingId: string | undefined, memberId: string | undefined) => {
+    if (!drawingId || !memberId) {
+      setEntryBreakdown(null);
+      return;
+    }
+    try {
+      const breakdown = await fetchEntryBreakdown(drawingId);
+      setEntryBreakdown(breakdown ?? null);
+    } catch (err) {
+      console.warn('Could not load entry breakdown:', err);
+    }
+  }, []);
+
   /**
    * Load rewards data from service.
    * Dynamically determines the user ID from rewards member if not provided.
@@ -255,6 +308,9 @@ export function RewardsProvider({ children, userId }: RewardsProviderProps): Rea
       } else {
         await loadEnteredDrawings();
       }
+
+      await loadEntryBreakdown(data.currentDrawing?.id, effectiveUserId);
+      await loadPastDrawings();
     } catch (err) {
       console.error('Failed to load rewards data:', err);
       setError(err instanceof Error ? err.message : 'Failed to load rewards');
@@ -266,7 +322,7 @@ export function RewardsProvider({ children, userId }: RewardsProviderProps): Rea
     } finally {
       setIsLoading(false);
     }
-  }, [userId]);
+  }, [userId, loadPastDrawings, loadEntryBreakdown]);
 
   /**
    * Load entered drawing IDs (for backward compatibility).
@@ -333,12 +389,15 @@ export function RewardsProvider({ children, userId }: RewardsProviderProps): Rea
       } else {
         await loadEnteredDrawings();
       }
+
+      await loadEntryBreakdown(data.currentDrawing?.id, effectiveUserId);
+      await loadPastDrawings();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to refresh');
     } finally {
       setIsLoading(false);
     }
-  }, [userId, loadEnteredDrawings]);
+  }, [userId, loadEnteredDrawings, loadPastDrawings, loadEntryBreakdown]);
 
   // Refresh rewards data when app comes to foreground
   useEffect(() => {
@@ -473,13 +532,14 @@ export function RewardsProvider({ children, userId }: RewardsProviderProps): Rea
         setUserEntry(entry);
         await recordDrawingEntry(currentDrawing.id);
         setEnteredDrawingIds((prev) => [...prev, currentDrawing.id]);
+        await loadEntryBreakdown(currentDrawing.id, effectiveUserId);
         return true;
       } catch (err) {
         console.error('Failed to enter drawing:', err);
         return false;
       }
     },
-    [currentDrawing, userId]
+    [currentDrawing, userId, loadEntryBreakdown]
   );
 
   /**
@@ -504,6 +564,24 @@ export function RewardsProvider({ children, userId }: RewardsProviderProps): Rea
     return false;
   }, [currentDrawing, userEntry, enteredDrawingIds]);
 
+  /**
+   * Claim a prize won in a past drawing, then reload the history so the
+   * card reflects the new claim status. Errors propagate to the claim form.
+   */
+  const claimPrize = useCallback(
+    async (drawingId: string, details: PrizeClaimDetails, acceptTerms: boolean): Promise<void> => {
+      await claimPrizeInService(drawingId, details, acceptTerms);
+      await loadPastDrawings();
+    },
+    [loadPastDrawings]
+  );
+
+  // First prize still waiting on the winner's details
+  const pendingPrizeClaim = useMemo(
+    () => pastDrawings.find((d) => d.userWin?.claimStatus === 'pending') ?? null,
+    [pastDrawings]
+  );
+
   // Calculate derived values
   const calculated = useMemo(
     () => calculateDerivedValues(currentDrawing, userEntry),
@@ -513,6 +591,9 @@ export function RewardsProvider({ children, userId }: RewardsProviderProps): Rea
   // Legacy compatibility
   const hasEnteredCurrentRaffle = isEnteredInCurrentDrawing();
 
+  const currentBreakdown = entryBreakdown?.drawingId === currentDrawing?.id ? entryBreakdown : null;
+  const entryCount = currentBreakdown?.totalEntries ?? (hasEnteredCurrentRaffle ? 1 : 0);
+
   // Context value
   const contextValue = useMemo<RewardsContextValue>(
     () => ({
@@ -522,11 +603,16 @@ export function RewardsProvider({ children, userId }: RewardsProviderProps): Rea
       isLoading,
       error,
       calculated,
+      entryBreakdown: currentBreakdown,
+      entryCount,
+      pastDrawings,
+      pendingPrizeClaim,
       isNewQuarter,
       acknowledgeNewQuarter,
       refresh,
       enterDrawing,
       isEnteredInCurrentDrawing,
+      claimPrize,
       hasEnteredCurrentRaffle,
     }),
     [
@@ -536,11 +622,16 @@ export function RewardsProvider({ children, userId }: RewardsProviderProps): Rea
       isLoading,
       error,
       calculated,
+      currentBreakdown,
+      entryCount,
+      pastDrawings,
+      pendingPrizeClaim,
       isNewQuarter,
       acknowledgeNewQuarter,
       refresh,
       enterDrawing,
       isEnteredInCurrentDrawing,
+      claimPrize,
       hasEnteredCurrentRaffle,
     ]
   );
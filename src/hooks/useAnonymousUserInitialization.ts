@@ -1,19 +1,22 @@
 // hooks/useAnonymousUserInitialization.ts
 //
 // Hook for initializing anonymous user on app startup.
-// Creates anonymous user in Supabase if needed.
+// Creates anonymous user in Supabase if needed, and registers the device's
+// merge secret so its history can later be merged into an account.
 //
 
 import { useEffect } from 'react';
 import {
   getOrCreateAnonymousUser,
 } from '../services/anonymousUserService';
+import { ensureDeviceSecret } from '../services/deviceMergeService';
 
 /**
  * Hook for initializing anonymous user on app startup.
  *
  * Features:
  * - Creates anonymous user in Supabase if not already exists
+ * - Registers this device's merge secret the first time the app starts
  * - Runs once on mount (empty dependency array)
  * - Logs success/failure to console
  */
@@ -22,6 +25,8 @@ export function useAnonymousUserInitialization() {
     // Initialize anonymous user on app startup (creates in Supabase if needed)
     getOrCreateAnonymousUser()
       .then(() => console.log('✅ Anonymous user initialized'))
-      .catch((error) => console.warn('⚠️ Failed to initialize anonymous user:', error));
+      .catch((error) => console.warn('⚠️ Failed to initialize anonymous user:', error))
+      .then(() => ensureDeviceSecret())
+      .catch((error) => console.warn('⚠️ Failed to register device:', error));
   }, []);
 }
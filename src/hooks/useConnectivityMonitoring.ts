@@ -13,7 +13,7 @@ import { startConnectivityListener } from './useOfflineStatus';
  * Features:
  * - Starts connectivity listener on mount
  * - Automatically syncs queued reports when device comes back online
- * - Logs sync results (synced, failed, expired reports)
+ * - Logs sync results (synced, failed, rejected, expired reports)
  * - Cleans up listener on unmount
  */
 export function useConnectivityMonitoring() {
@@ -28,8 +28,11 @@ export function useConnectivityMonitoring() {
       if (result.failed > 0) {
         console.log(`⚠️ ${result.failed} report(s) failed to sync, will retry later`);
       }
+      if (result.rejected > 0) {
+        console.log(`❌ ${result.rejected} report(s) rejected by DMF and need attention`);
+      }
       if (result.expired > 0) {
-        console.log(`❌ ${result.expired} report(s) expired after max retries`);
+        console.log(`❌ ${result.expired} report(s) moved to needs-attention after max retries`);
       }
     });
 
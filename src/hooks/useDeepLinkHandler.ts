@@ -2,6 +2,9 @@
 //
 // Hook for handling deep links (magic link authentication).
 // Processes incoming magic links and creates/updates rewards member account.
+// Screen links (fishlog://catch/<id>, …) are routed by the NavigationContainer
+// linking config in App.tsx; resolveAppLink maps the same paths for in-app
+// navigation such as notification taps.
 //
 
 import { useEffect, useCallback } from 'react';
@@ -23,6 +26,49 @@ import {
   consumeBufferedUrl,
   stopBuffering,
 } from '../services/deepLinkBuffer';
+import type { RootStackParamList } from '../types';
+
+const APP_LINK_PREFIX = 'fishlog://';
+
+/** A screen and its params, ready for navigation.navigate(). */
+export type AppLinkTarget =
+  | { screen: 'CatchDetail'; params: RootStackParamList['CatchDetail'] }
+  | { screen: 'AnglerProfile'; params: RootStackParamList['AnglerProfile'] }
+  | { screen: 'PrizeClaim'; params: RootStackParamList['PrizeClaim'] }
+  | { screen: 'PastReports' | 'Profile' | 'Notifications' | 'Leaderboard'; params: undefined };
+
+/**
+ * Map an app link ("fishlog://catch/<id>" or just "catch/<id>") to the
+ * screen it opens. Paths match the linking config in App.tsx.
+ *
+ * @returns The target screen, or null for unknown links
+ */
+export function resolveAppLink(url: string): AppLinkTarget | null {
+  const path = (url.startsWith(APP_LINK_PREFIX) ? url.slice(APP_LINK_PREFIX.length) : url)
+    .split('?')[0]
+    .replace(/^\/+|\/+$/g, '');
+  const [head, id, ...rest] = path.split('/');
+  if (rest.length > 0) return null;
+
+  switch (head) {
+    case 'catch':
+      return id ? { screen: 'CatchDetail', params: { reportId: id } } : null;
+    case 'angler':
+      return id ? { screen: 'AnglerProfile', params: { userId: id } } : null;
+    case 'my-reports':
+      return id ? null : { screen: 'PastReports', params: undefined };
+    case 'profile':
+      return id ? null : { screen: 'Profile', params: undefined };
+    case 'notifications':
+      return id ? null : { screen: 'Notifications', params: undefined };
+    case 'leaderboard':
+      return id ? null : { screen: 'Leaderboard', params: undefined };
+    case 'claim':
+      return id ? { screen: 'PrizeClaim', params: { drawingId: id } } : null;
+    default:
+      return null;
+  }
+}
 
 /**
  * Hook for handling deep links (magic link authentication).
@@ -1,6 +1,11 @@
 import { useState, useEffect } from 'react';
 import { getReports, getFishEntriesBatch } from '../services/reportsService';
 import { FishingStats } from '../screens/profile/profileScreen.types';
+import {
+  getSpeciesCountBreakdown,
+  getTotalFishCount,
+  reportToSpeciesCounts,
+} from '../constants/species';
 
 export const useFishingStats = () => {
   const [fishingStats, setFishingStats] = useState<FishingStats>({
@@ -27,23 +32,16 @@ export const useFishingStats = () => {
 
         // Calculate total catches (sum of all species counts)
         const totalCatches = reports.reduce((sum, report) =>
-          sum +
-          report.redDrumCount +
-          report.flounderCount +
-          report.spottedSeatroutCount +
-          report.weakfishCount +
-          report.stripedBassCount,
+          sum + getTotalFishCount(reportToSpeciesCounts(report)),
           0
         );
 
         // Calculate unique species (count species with at least one catch)
         const speciesCaught = new Set<string>();
         reports.forEach((report) => {
-          if (report.redDrumCount > 0) speciesCaught.add('Red Drum');
-          if (report.flounderCount > 0) speciesCaught.add('Flounder');
-          if (report.spottedSeatroutCount > 0) speciesCaught.add('Spotted Seatrout (speckled trout)');
-          if (report.weakfishCount > 0) speciesCaught.add('Weakfish (gray trout)');
-          if (report.stripedBassCount > 0) speciesCaught.add('Striped Bass');
+          for (const { species } of getSpeciesCountBreakdown(reportToSpeciesCounts(report), 'pickerLabel')) {
+            speciesCaught.add(species);
+          }
         });
         const uniqueSpecies = speciesCaught.size;
 
@@ -328,6 +328,10 @@ export function useOfflineStatus(options: UseOfflineStatusOptions = {}): Offline
  * Use this in App.tsx to start listening immediately on app launch,
  * independent of any component lifecycle.
  *
+ * Besides syncing on each offline → online transition, it re-runs the sync
+ * when the earliest backed-off report becomes due (SyncResult.nextAttemptAt),
+ * so retries don't wait for the next connectivity change.
+ *
  * @param onSync - Optional callback when sync completes
  * @returns Unsubscribe function
  *
@@ -348,8 +352,49 @@ export function startConnectivityListener(
   let wasOnline: boolean | null = null;
   let syncLock = false;
   let pendingTimeout: ReturnType<typeof setTimeout> | null = null;
+  let retryTimeout: ReturnType<typeof setTimeout> | null = null;
   let isUnsubscribed = false;
 
+  const runSync = async () => {
+    const count = await getQueueCount();
+    if (count > 0 && !syncLock && !isUnsubscribed) {
+      syncLock = true;
+      console.log(`📤 [Global] Found ${count} queued reports, starting auto-sync...`);
+
+      try {
+        const result = await syncQueuedReports();
+        console.log(`📊 [Global] Auto-sync complete: ${result.synced} synced, ${result.failed} failed`);
+        scheduleRetry(result);
+
+        if (onSync && !isUnsubscribed) {
+          onSync(result);
+        }
+      } catch (error) {
+        console.error('[Global] Auto-sync failed:', error);
+      } finally {
+        syncLock = false;
+      }
+    }
+  };
+
+  // Wake up when the earliest backed-off report is due
+  const scheduleRetry = (result: SyncResult) => {
+    if (retryTimeout) {
+      clearTimeout(retryTimeout);
+      retryTimeout = null;
+    }
+    if (!result.nextAttemptAt || isUnsubscribed) return;
+
+    const delay = Math.max(0, new Date(result.nextAttemptAt).getTime() - Date.now());
+    retryTimeout = setTimeout(() => {
+      retryTimeout = null;
+      // Offline retries are picked up by the next offline → online transition
+      if (wasOnline && !isUnsubscribed) {
+        runSync();
+      }
+    }, delay);
+  };
+
   const listener = NetInfo.addEventListener(async (state) => {
     // Don't process if already unsubscribed
     if (isUnsubscribed) return;
@@ -377,24 +422,7 @@ export function startConnectivityListener(
         // Double-check we haven't been unsubscribed during the delay
         if (isUnsubscribed) return;
 
-        const count = await getQueueCount();
-        if (count > 0 && !syncLock && !isUnsubscribed) {
-          syncLock = true;
-          console.log(`📤 [Global] Found ${count} queued reports, starting auto-sync...`);
-
-          try {
-            const result = await syncQueuedReports();
-            console.log(`📊 [Global] Auto-sync complete: ${result.synced} synced, ${result.failed} failed`);
-
-            if (onSync && !isUnsubscribed) {
-              onSync(result);
-            }
-          } catch (error) {
-            console.error('[Global] Auto-sync failed:', error);
-          } finally {
-            syncLock = false;
-          }
-        }
+        await runSync();
         pendingTimeout = null;
       }, 1000);
     }
@@ -420,6 +448,10 @@ export function startConnectivityListener(
       clearTimeout(pendingTimeout);
       pendingTimeout = null;
     }
+    if (retryTimeout) {
+      clearTimeout(retryTimeout);
+      retryTimeout = null;
+    }
     listener();
   };
 }
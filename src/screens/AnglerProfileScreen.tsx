@@ -5,6 +5,8 @@
 //   • Top app bar (back arrow, display name, more menu)
 //   • Header: avatar, name, bio, member-since
 //   • Follow / Edit Profile button + tappable follower/following stats
+//     (private profiles: Follow sends a request; the owner gets a
+//     Follow Requests button to approve or deny them)
 //   • Species pills + achievement badges row
 //   • 3-column photo grid of the angler's catches (tap → CatchDetail)
 //
@@ -73,7 +75,7 @@ const AnglerProfileScreen: React.FC<Props> = ({ navigation, route }) => {
   const [profile, setProfile] = useState<AnglerProfile | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [followSheet, setFollowSheet] = useState<'followers' | 'following' | null>(null);
+  const [followSheet, setFollowSheet] = useState<'followers' | 'following' | 'requests' | null>(null);
 
   const followProfileQuery = useFollowProfile(userId, currentUserId);
   const toggleFollow = useToggleFollow();
@@ -105,15 +107,20 @@ const AnglerProfileScreen: React.FC<Props> = ({ navigation, route }) => {
     };
   }, [userId]);
 
+  const isFollowing = !!followProfileQuery.data?.isFollowing;
+  const isRequested = !!followProfileQuery.data?.isRequested;
+  const isPrivate = followProfileQuery.data?.isPrivate ?? !!profile?.isPrivate;
+
   const handleToggleFollow = useCallback(() => {
     if (!canInteract || !userId || !currentUserId) return;
-    const willFollow = !followProfileQuery.data?.isFollowing;
     toggleFollow.mutate({
       targetUserId: userId,
       viewerUserId: currentUserId,
-      willFollow,
+      willFollow: !isFollowing && !isRequested,
+      isPrivate,
+      isRequested,
     });
-  }, [canInteract, userId, currentUserId, followProfileQuery.data?.isFollowing, toggleFollow]);
+  }, [canInteract, userId, currentUserId, isFollowing, isRequested, isPrivate, toggleFollow]);
 
   const handleEditProfile = useCallback(() => {
     navigation.navigate('Profile');
@@ -208,25 +215,41 @@ const AnglerProfileScreen: React.FC<Props> = ({ navigation, route }) => {
         {(isSelf || canInteract) && (
           <View style={styles.primaryButtonRow}>
             {isSelf ? (
-              <TouchableOpacity
-                onPress={handleEditProfile}
-                style={[styles.primaryButton, styles.primaryButtonOutline]}
-                activeOpacity={0.85}
-              >
-                <Feather name="edit-2" size={14} color={theme.colors.primary} />
-                <Text
-                  style={[styles.primaryButtonText, styles.primaryButtonTextOutline]}
+              <>
+                <TouchableOpacity
+                  onPress={handleEditProfile}
+                  style={[styles.primaryButton, styles.primaryButtonOutline]}
+                  activeOpacity={0.85}
                 >
-                  Edit Profile
-                </Text>
-              </TouchableOpacity>
+                  <Feather name="edit-2" size={14} color={theme.colors.primary} />
+                  <Text
+                    style={[styles.primaryButtonText, styles.primaryButtonTextOutline]}
+                  >
+                    Edit Profile
+                  </Text>
+                </TouchableOpacity>
+                {profile.isPrivate && (
+                  <TouchableOpacity
+                    onPress={() => setFollowSheet('requests')}
+                    style={[styles.primaryButton, styles.primaryButtonOutline, styles.secondaryButton]}
+                    activeOpacity={0.85}
+                  >
+                    <Feather name="user-check" size={14} color={theme.colors.primary} />
+                    <Text
+                      style={[styles.primaryButtonText, styles.primaryButtonTextOutline]}
+                    >
+                      Follow Requests
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </>
             ) : (
               <TouchableOpacity
                 onPress={handleToggleFollow}
                 disabled={toggleFollow.isPending || followProfileQuery.isLoading}
                 style={[
                   styles.primaryButton,
-                  followProfileQuery.data?.isFollowing && styles.primaryButtonOutline,
+                  (isFollowing || isRequested) && styles.primaryButtonOutline,
                   (toggleFollow.isPending || followProfileQuery.isLoading) &&
                     styles.primaryButtonDisabled,
                 ]}
@@ -235,10 +258,10 @@ const AnglerProfileScreen: React.FC<Props> = ({ navigation, route }) => {
                 <Text
                   style={[
                     styles.primaryButtonText,
-                    followProfileQuery.data?.isFollowing && styles.primaryButtonTextOutline,
+                    (isFollowing || isRequested) && styles.primaryButtonTextOutline,
                   ]}
                 >
-                  {followProfileQuery.data?.isFollowing ? 'Following' : 'Follow'}
+                  {isFollowing ? 'Following' : isRequested ? 'Requested' : 'Follow'}
                 </Text>
               </TouchableOpacity>
             )}
@@ -351,10 +374,24 @@ const AnglerProfileScreen: React.FC<Props> = ({ navigation, route }) => {
     [styles, handleOpenCatch, theme.colors.textTertiary, theme.colors.textOnPrimary],
   );
 
+  // Private profiles return no catches to non-followers (enforced by the feed
+  // view), so explain why the grid is empty.
   const renderEmpty = () => (
     <View style={styles.emptyGridContainer}>
-      <Feather name="camera-off" size={32} color={theme.colors.textTertiary} />
-      <Text style={styles.emptyGridText}>No photos to show yet</Text>
+      {isPrivate && !isSelf && !isFollowing ? (
+        <>
+          <Feather name="lock" size={32} color={theme.colors.textTertiary} />
+          <Text style={styles.emptyGridText}>This angler's catches are private</Text>
+          <Text style={styles.emptyGridHint}>
+            {isRequested ? 'Your follow request is pending.' : 'Follow to ask to see their catches.'}
+          </Text>
+        </>
+      ) : (
+        <>
+          <Feather name="camera-off" size={32} color={theme.colors.textTertiary} />
+          <Text style={styles.emptyGridText}>No photos to show yet</Text>
+        </>
+      )}
     </View>
   );
 
@@ -532,6 +569,9 @@ const createStyles = (theme: Theme) =>
     primaryButtonDisabled: {
       opacity: 0.6,
     },
+    secondaryButton: {
+      marginTop: spacing.sm,
+    },
     primaryButtonText: {
       color: theme.colors.textOnPrimary,
       fontSize: 14,
@@ -666,6 +706,11 @@ const createStyles = (theme: Theme) =>
       fontSize: 14,
       color: theme.colors.textTertiary,
     },
+    emptyGridHint: {
+      fontSize: 13,
+      color: theme.colors.textTertiary,
+      textAlign: 'center',
+    },
     loadingContainer: {
       flex: 1,
       alignItems: 'center',
@@ -29,12 +29,18 @@ import { Image } from 'expo-image';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { StackScreenProps } from '@react-navigation/stack';
 import { Feather, Ionicons } from '@expo/vector-icons';
-import { CatchFeedEntry, CatchComment, formatRelativeTime } from '../types/catchFeed';
+import {
+  CatchFeedEntry,
+  CatchComment,
+  ReportReasonCode,
+  formatRelativeTime,
+} from '../types/catchFeed';
 import { RootStackParamList } from '../types';
 import {
   fetchCatchById,
   likeCatch,
   unlikeCatch,
+  reportCatch,
 } from '../services/catchFeedService';
 import { spacing, borderRadius } from '../styles/common';
 import { useTheme } from '../contexts/ThemeContext';
@@ -48,6 +54,11 @@ import {
   useDeleteComment,
   useReportComment,
 } from '../api/commentsApi';
+import { threadComments } from '../utils/commentThreads';
+import BottomDrawer from '../components/BottomDrawer';
+import ReportReasonList from '../components/ReportReasonList';
+
+type ReportTarget = { kind: 'catch' } | { kind: 'comment'; comment: CatchComment };
 
 type Props = StackScreenProps<RootStackParamList, 'CatchDetail'>;
 
@@ -67,8 +78,14 @@ const CatchDetailScreen: React.FC<Props> = ({ navigation, route }) => {
   const [draft, setDraft] = useState('');
   const [submitting, setSubmitting] = useState(false);
   const inputRef = useRef<TextInput>(null);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
 
   const commentsQuery = useComments(reportId, currentUserId ?? undefined);
+  // Replies directly under their parent, indented by renderComment
+  const threadedComments = useMemo(
+    () => threadComments(commentsQuery.data ?? []).flatMap((t) => [t.comment, ...t.replies]),
+    [commentsQuery.data],
+  );
   const addCommentMutation = useAddComment();
   const deleteCommentMutation = useDeleteComment();
   const reportCommentMutation = useReportComment();
@@ -188,32 +205,46 @@ const CatchDetailScreen: React.FC<Props> = ({ navigation, route }) => {
             text: 'Delete',
             style: 'destructive',
             onPress: () => {
-              bumpCommentCount(-1);
+              // Replies are deleted with their parent
+              const removed = 1 + threadedComments.filter((c) => c.parentId === comment.id).length;
+              bumpCommentCount(-removed);
               deleteCommentMutation.mutate(
                 { reportId: entry.id, commentId: comment.id },
                 {
-                  onError: () => bumpCommentCount(1),
+                  onError: () => bumpCommentCount(removed),
                 },
               );
             },
           },
         ]);
       } else if (currentUserId) {
-        Alert.alert('Report comment', 'Send this comment to moderation?', [
-          { text: 'Cancel', style: 'cancel' },
-          {
-            text: 'Report',
-            style: 'destructive',
-            onPress: () =>
-              reportCommentMutation.mutate({
-                commentId: comment.id,
-                reporterId: currentUserId,
-              }),
-          },
-        ]);
+        setReportTarget({ kind: 'comment', comment });
       }
     },
-    [entry, currentUserId, deleteCommentMutation, reportCommentMutation, bumpCommentCount],
+    [entry, currentUserId, threadedComments, deleteCommentMutation, bumpCommentCount],
+  );
+
+  const handleReportReason = useCallback(
+    (reasonCode: ReportReasonCode) => {
+      if (!entry || !currentUserId || !reportTarget) return;
+      if (reportTarget.kind === 'catch') {
+        reportCatch(entry.id, currentUserId, reasonCode).catch((err) =>
+          console.warn('Failed to report catch:', err),
+        );
+      } else {
+        reportCommentMutation.mutate({
+          commentId: reportTarget.comment.id,
+          reporterId: currentUserId,
+          reasonCode,
+        });
+      }
+      setReportTarget(null);
+      Alert.alert(
+        'Thanks for letting us know',
+        `A moderator will review this ${reportTarget.kind}.`,
+      );
+    },
+    [entry, currentUserId, reportTarget, reportCommentMutation],
   );
 
   // ===========================================================================
@@ -333,7 +364,7 @@ const CatchDetailScreen: React.FC<Props> = ({ navigation, route }) => {
       activeOpacity={0.85}
       onLongPress={() => handleCommentLongPress(item)}
       delayLongPress={350}
-      style={styles.commentRow}
+      style={[styles.commentRow, item.parentId && styles.replyRow]}
     >
       {item.anglerProfileImage ? (
         <Image
@@ -355,6 +386,7 @@ const CatchDetailScreen: React.FC<Props> = ({ navigation, route }) => {
           <Text style={styles.commentDot}> · </Text>
           <Text style={styles.commentTimestamp}>
             {formatRelativeTime(item.createdAt)}
+            {item.editedAt ? ' · Edited' : ''}
           </Text>
         </View>
         <Text style={styles.commentText}>{item.text}</Text>
@@ -389,7 +421,18 @@ const CatchDetailScreen: React.FC<Props> = ({ navigation, route }) => {
         <Text style={styles.topBarTitle} numberOfLines={1}>
           {entry ? `Catch by ${entry.anglerName}` : 'Catch'}
         </Text>
-        <View style={styles.topBarIconButton} />
+        {entry && currentUserId && entry.userId !== currentUserId ? (
+          <TouchableOpacity
+            onPress={() => setReportTarget({ kind: 'catch' })}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            style={styles.topBarIconButton}
+            accessibilityLabel="Report this catch"
+          >
+            <Feather name="flag" size={20} color={theme.colors.textPrimary} />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.topBarIconButton} />
+        )}
       </View>
 
       {loading ? (
@@ -404,7 +447,7 @@ const CatchDetailScreen: React.FC<Props> = ({ navigation, route }) => {
       ) : (
         <>
           <FlatList
-            data={commentsQuery.data ?? []}
+            data={threadedComments}
             keyExtractor={(c) => c.id}
             renderItem={renderComment}
             ListHeaderComponent={renderHeader}
@@ -461,6 +504,14 @@ const CatchDetailScreen: React.FC<Props> = ({ navigation, route }) => {
           </View>
         </>
       )}
+
+      <BottomDrawer visible={reportTarget !== null} onClose={() => setReportTarget(null)}>
+        <ReportReasonList
+          title={reportTarget?.kind === 'comment' ? 'Report comment' : 'Report catch'}
+          onSelect={handleReportReason}
+          onCancel={() => setReportTarget(null)}
+        />
+      </BottomDrawer>
     </KeyboardAvoidingView>
   );
 };
@@ -591,6 +642,9 @@ const createStyles = (theme: Theme) =>
       paddingHorizontal: spacing.md,
       paddingVertical: 10,
     },
+    replyRow: {
+      paddingLeft: spacing.md + 36 + 12,
+    },
     commentAvatar: { width: 36, height: 36, borderRadius: 18 },
     commentAvatarPlaceholder: {
       width: 36,
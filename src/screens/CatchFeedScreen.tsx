@@ -19,6 +19,7 @@ import {
   Platform,
   StatusBar,
   UIManager,
+  Alert,
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { StackNavigationProp } from '@react-navigation/stack';
@@ -26,26 +27,32 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { Feather } from '@expo/vector-icons';
 import Svg, { Path, Ellipse, Circle, G } from 'react-native-svg';
 import { RootStackParamList } from '../types';
-import { CatchFeedEntry, TopAngler } from '../types/catchFeed';
-import { fetchRecentCatches, fetchTopAnglers, likeCatch, unlikeCatch, enrichCatchesWithLikes, PaginatedCatchFeed } from '../services/catchFeedService';
+import { CatchComment, CatchFeedEntry, CatchReaction, CatchFeedFilter, CommentMention, FeedCursor, ReportReasonCode, TopAngler, toFeedCursor, countActiveFeedFilters, formatRelativeTime } from '../types/catchFeed';
+import { fetchRecentCatches, fetchNewerCatches, fetchTopAnglers, likeCatch, unlikeCatch, setCatchReaction, enrichCatchesWithLikes, NewerCatches } from '../services/catchFeedService';
+import { applyReaction, DEFAULT_REACTION } from '../constants/reactions';
 import { getRewardsMemberForAnonymousUser } from '../services/rewardsConversionService';
 import { onAuthStateChange } from '../services/authService';
 import { SPECIES_ALIASES } from '../constants/speciesAliases';
+import { AREA_OPTIONS, getAreaByLabel, getAreaByCode } from '../constants/areaOptions';
+import { SPECIES } from '../constants/species';
+import { getRegionByCode } from '../constants/regionOptions';
 import { colors, spacing, borderRadius } from '../styles/common';
 import { useTheme } from '../contexts/ThemeContext';
 import { useThemedStyles } from '../hooks/useThemedStyles';
 import { Theme } from '../styles/theme';
-import { getAllSpeciesThemes } from '../constants/speciesColors';
 import CatchCard from '../components/CatchCard';
 import FeedAdCard from '../components/FeedAdCard';
 import CommentsSheet from '../components/CommentsSheet';
+import CatchFeedFilterSheet from '../components/CatchFeedFilterSheet';
 import {
   useComments,
   useAddComment,
+  useEditComment,
   useDeleteComment,
   useReportComment,
 } from '../api/commentsApi';
-import { fetchFollowingFeed } from '../services/followsService';
+import { fetchFollowingFeed, fetchNewerFollowingCatches } from '../services/followsService';
+import { fetchCommentHistory } from '../services/commentsService';
 import BottomDrawer from '../components/BottomDrawer';
 import StatusBarScrollBlur from '../components/StatusBarScrollBlur';
 import WaveBackground from '../components/WaveBackground';
@@ -268,6 +275,9 @@ const PAGE_SIZE = 12;
 // Maximum entries held in memory to prevent unbounded growth.
 // Older entries beyond this cap are released; scrolling back up triggers a refresh.
 const MAX_ENTRIES_IN_MEMORY = 60;
+// How often to check for catches posted since the feed was loaded
+const NEW_CATCHES_POLL_MS = 60 * 1000;
+const NO_NEW_CATCHES: NewerCatches = { entries: [], hasMore: false };
 
 const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
   const { theme } = useTheme();
@@ -280,7 +290,12 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
   const [error, setError] = useState<string | null>(null);
   const [topAnglers, setTopAnglers] = useState<TopAngler[]>([]);
   const [hasMore, setHasMore] = useState(true);
-  const [nextOffset, setNextOffset] = useState(0);
+  // Keyset cursors: nextCursor pages older catches, headCursor marks the
+  // newest catch loaded so the "N new catches" pill can ask for newer ones.
+  const [nextCursor, setNextCursor] = useState<FeedCursor | null>(null);
+  const [headCursor, setHeadCursor] = useState<FeedCursor | null>(null);
+  const [newCatches, setNewCatches] = useState<NewerCatches>(NO_NEW_CATCHES);
+  const listRef = useRef<FlatList<FeedItem>>(null);
 
   // Feed advertisements
   const [feedAds, setFeedAds] = useState<Advertisement[]>([]);
@@ -355,12 +370,11 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
     loadFeedAds();
   }, []);
 
-  // Filter state
-  const [selectedArea, setSelectedArea] = useState<string | null>(null);
-  const [selectedSpecies, setSelectedSpecies] = useState<string | null>(null);
-  const [showPhotosOnly, setShowPhotosOnly] = useState(false);
+  // Filter state. Filters are applied server-side, so changing one reloads
+  // the Discover feed from the top.
+  const [feedFilter, setFeedFilter] = useState<CatchFeedFilter>({});
   const [showAreaPicker, setShowAreaPicker] = useState(false);
-  const [showSpeciesPicker, setShowSpeciesPicker] = useState(false);
+  const [showFilterSheet, setShowFilterSheet] = useState(false);
 
 
   // Comments sheet: holds the report ID currently being commented on (null = closed).
@@ -372,6 +386,11 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
   const [followingEntries, setFollowingEntries] = useState<CatchFeedEntry[]>([]);
   const [followingLoading, setFollowingLoading] = useState(false);
   const [followingError, setFollowingError] = useState<string | null>(null);
+  const [followingHasMore, setFollowingHasMore] = useState(false);
+  const [followingNextCursor, setFollowingNextCursor] = useState<FeedCursor | null>(null);
+  const [followingHeadCursor, setFollowingHeadCursor] = useState<FeedCursor | null>(null);
+  // Bumped to reload the Following feed from the top
+  const [followingReloadKey, setFollowingReloadKey] = useState(0);
 
   // Tab change handler: smooths the visual transition by
   //  1) animating the header layout (Top Anglers + filter row collapsing /
@@ -384,6 +403,7 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
       if (next === activeTab) return;
       LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
       setActiveTab(next);
+      setNewCatches(NO_NEW_CATCHES);
       if (next === 'following' && currentUserId && followingEntries.length === 0) {
         setFollowingLoading(true);
       }
@@ -401,6 +421,7 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
     currentUserId ?? undefined,
   );
   const addCommentMutation = useAddComment();
+  const editCommentMutation = useEditComment();
   const deleteCommentMutation = useDeleteComment();
   const reportCommentMutation = useReportComment();
 
@@ -512,17 +533,26 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
     outputRange: [1, 1.15],
   });
 
-  // Derive available areas from feed data
-  const availableAreas = useMemo(() => {
-    const areas = new Set(entries.map(e => e.location).filter(Boolean) as string[]);
-    return ['All Areas', ...Array.from(areas).sort()];
-  }, [entries]);
+  // Every DMF area, not just those in the loaded page, since the filter
+  // runs on the server
+  const areaOptions = useMemo(
+    () => ['All Areas', ...AREA_OPTIONS.map(a => a.label).sort()],
+    [],
+  );
 
-  // Species options from theme
-  const speciesOptions = useMemo(() => {
-    const themes = getAllSpeciesThemes();
-    return ['All Species', ...themes.map(t => t.name)];
-  }, []);
+  // Pill labels for the current filter
+  const areaPillLabel = feedFilter.areaCode
+    ? getAreaByCode(feedFilter.areaCode)?.label ?? 'All Areas'
+    : feedFilter.region
+      ? getRegionByCode(feedFilter.region)?.label ?? 'All Areas'
+      : 'All Areas';
+  const selectedSpecies = feedFilter.species ?? [];
+  const speciesPillLabel = selectedSpecies.length === 0
+    ? 'All Species'
+    : selectedSpecies.length === 1
+      ? SPECIES.find(info => info.countKey === selectedSpecies[0])?.shortName ?? 'All Species'
+      : `${selectedSpecies.length} Species`;
+  const activeFilterCount = countActiveFeedFilters(feedFilter);
 
   // Fetch the Following feed when the tab is active and we know the viewer.
   // Imperative + state-based to match the Discover path; enrichment with like
@@ -534,11 +564,15 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
     setFollowingError(null);
     (async () => {
       try {
-        const { entries: rows } = await fetchFollowingFeed(20, 0);
+        const page = await fetchFollowingFeed(PAGE_SIZE);
         if (cancelled) return;
-        const enriched = await enrichCatchesWithLikes(rows, currentUserId);
+        const enriched = await enrichCatchesWithLikes(page.entries, currentUserId);
         if (cancelled) return;
         setFollowingEntries(enriched);
+        setFollowingHasMore(page.hasMore);
+        setFollowingNextCursor(page.nextCursor);
+        setFollowingHeadCursor(enriched.length > 0 ? toFeedCursor(enriched[0]) : null);
+        setNewCatches(NO_NEW_CATCHES);
       } catch (err) {
         if (cancelled) return;
         console.error('Failed to load following feed:', err);
@@ -550,37 +584,25 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
     return () => {
       cancelled = true;
     };
-  }, [activeTab, currentUserId]);
+  }, [activeTab, currentUserId, followingReloadKey]);
 
   // Source of truth for the visible list depends on the active tab.
   // Filters apply to Discover only — Following is already scoped by follows.
-  const filteredEntries = useMemo(() => {
-    if (activeTab === 'following') return followingEntries;
-    return entries.filter((entry) => {
-      if (selectedArea && entry.location !== selectedArea) return false;
-      if (selectedSpecies) {
-        const speciesList = entry.speciesList || [{ species: entry.species, count: 1 }];
-        const hasSpecies = speciesList.some((s) => s.species === selectedSpecies);
-        if (!hasSpecies) return false;
-      }
-      if (showPhotosOnly && !entry.photoUrl) return false;
-      return true;
-    });
-  }, [activeTab, entries, followingEntries, selectedArea, selectedSpecies, showPhotosOnly]);
+  const visibleEntries = activeTab === 'following' ? followingEntries : entries;
 
   // Create mixed feed with ads interspersed (same UX on both tabs).
   const feedItems = useMemo(() => {
-    return intersperseFeedAds(filteredEntries, feedAds);
-  }, [filteredEntries, feedAds]);
+    return intersperseFeedAds(visibleEntries, feedAds);
+  }, [visibleEntries, feedAds]);
 
-  // Load catch feed data (initial load or refresh)
-  const loadFeed = useCallback(async (forceRefresh = false) => {
+  // Load catch feed data (initial load, refresh or filter change)
+  const loadFeed = useCallback(async (forceRefresh = false, filter: CatchFeedFilter = feedFilter) => {
     try {
       setError(null);
 
       // Fetch catches and top anglers in parallel
       const [catchResult, topAnglersResult] = await Promise.all([
-        fetchRecentCatches({ forceRefresh, limit: PAGE_SIZE, offset: 0 }),
+        fetchRecentCatches({ forceRefresh, limit: PAGE_SIZE, filter }),
         fetchTopAnglers(),
       ]);
 
@@ -588,18 +610,13 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
       // Enrich with like data
       feedData = await enrichCatchesWithLikes(feedData, currentUserId ?? undefined);
       setHasMore(catchResult.hasMore);
-      setNextOffset(catchResult.nextOffset);
+      setNextCursor(catchResult.nextCursor);
+      setHeadCursor(feedData.length > 0 ? toFeedCursor(feedData[0]) : null);
+      setNewCatches(NO_NEW_CATCHES);
       const anglersData = topAnglersResult;
 
       setEntries(feedData);
       setTopAnglers(anglersData);
-
-      // Reset filters on refresh
-      if (forceRefresh) {
-        setSelectedArea(null);
-        setSelectedSpecies(null);
-        setShowPhotosOnly(false);
-      }
     } catch (err) {
       console.error('Error loading catch feed:', err);
       setError('Unable to load catches. Pull down to refresh.');
@@ -607,7 +624,29 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
       setLoading(false);
       setRefreshing(false);
     }
-  }, [currentUserId]);
+  }, [currentUserId, feedFilter]);
+
+  // Apply a new Discover filter and reload the feed for it
+  const applyFeedFilter = useCallback((next: CatchFeedFilter) => {
+    setFeedFilter(next);
+    setLoading(true);
+    setEntries([]);
+    setNewCatches(NO_NEW_CATCHES);
+    loadFeed(false, next);
+  }, [loadFeed]);
+
+  const handleSelectArea = useCallback((label: string | null) => {
+    // Area and region are alternatives; picking an area clears the region
+    applyFeedFilter({
+      ...feedFilter,
+      areaCode: label ? getAreaByLabel(label)?.value : undefined,
+      region: undefined,
+    });
+  }, [feedFilter, applyFeedFilter]);
+
+  const handleTogglePhotos = useCallback(() => {
+    applyFeedFilter({ ...feedFilter, hasPhoto: feedFilter.hasPhoto ? undefined : true });
+  }, [feedFilter, applyFeedFilter]);
 
   // Load more catches (pagination)
   const loadMore = useCallback(async () => {
@@ -618,7 +657,7 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
 
     setLoadingMore(true);
     try {
-      const result = await fetchRecentCatches({ limit: PAGE_SIZE, offset: nextOffset });
+      const result = await fetchRecentCatches({ limit: PAGE_SIZE, cursor: nextCursor, filter: feedFilter });
       let newEntries = result.entries;
 
       // Enrich new entries with like data
@@ -635,7 +674,7 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
           : combined;
       });
       setHasMore(result.hasMore);
-      setNextOffset(result.nextOffset);
+      setNextCursor(result.nextCursor);
 
       console.log(`📜 Loaded ${newEntries.length} more catches (total: ${entries.length + newEntries.length})`);
     } catch (err) {
@@ -644,7 +683,92 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
     } finally {
       setLoadingMore(false);
     }
-  }, [loadingMore, hasMore, nextOffset, currentUserId, loading, entries.length]);
+  }, [loadingMore, hasMore, nextCursor, feedFilter, currentUserId, loading, entries.length]);
+
+  // Load more of the Following feed (pagination)
+  const loadMoreFollowing = useCallback(async () => {
+    if (loadingMore || !followingHasMore || followingLoading || !currentUserId) {
+      return;
+    }
+
+    setLoadingMore(true);
+    try {
+      const result = await fetchFollowingFeed(PAGE_SIZE, followingNextCursor);
+      const newEntries = await enrichCatchesWithLikes(result.entries, currentUserId);
+
+      setFollowingEntries(prev => {
+        const existingIds = new Set(prev.map(e => e.id));
+        const combined = [...prev, ...newEntries.filter(e => !existingIds.has(e.id))];
+        return combined.length > MAX_ENTRIES_IN_MEMORY
+          ? combined.slice(combined.length - MAX_ENTRIES_IN_MEMORY)
+          : combined;
+      });
+      setFollowingHasMore(result.hasMore);
+      setFollowingNextCursor(result.nextCursor);
+    } catch (err) {
+      console.error('Error loading more following catches:', err);
+      setFollowingHasMore(false);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [loadingMore, followingHasMore, followingLoading, followingNextCursor, currentUserId]);
+
+  // Poll for catches posted since the active tab's head was loaded. The
+  // result only drives the "N new catches" pill — nothing moves under the
+  // reader until they tap it.
+  const activeHeadCursor = activeTab === 'following' ? followingHeadCursor : headCursor;
+  useEffect(() => {
+    if (!activeHeadCursor) return;
+    let cancelled = false;
+    const checkForNewCatches = async () => {
+      try {
+        const result = activeTab === 'following'
+          ? await fetchNewerFollowingCatches(activeHeadCursor)
+          : await fetchNewerCatches(activeHeadCursor, { filter: feedFilter });
+        if (!cancelled) setNewCatches(result);
+      } catch (err) {
+        console.warn('Failed to check for new catches:', err);
+      }
+    };
+    const interval = setInterval(checkForNewCatches, NEW_CATCHES_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [activeTab, activeHeadCursor, feedFilter]);
+
+  // Tap on the "N new catches" pill: prepend the new catches and jump to the
+  // top. When there were more than one fetch's worth, reload from the top
+  // instead so the list never has a gap.
+  const handleShowNewCatches = useCallback(async () => {
+    const { entries: fresh, hasMore: tooMany } = newCatches;
+    setNewCatches(NO_NEW_CATCHES);
+    listRef.current?.scrollToOffset({ offset: 0, animated: true });
+
+    if (tooMany) {
+      if (activeTab === 'following') {
+        setFollowingReloadKey(key => key + 1);
+      } else {
+        setRefreshing(true);
+        loadFeed(true);
+      }
+      return;
+    }
+    if (fresh.length === 0) return;
+
+    const enriched = await enrichCatchesWithLikes(fresh, currentUserId ?? undefined);
+    const prepend = (prev: CatchFeedEntry[]) => {
+      const freshIds = new Set(enriched.map(e => e.id));
+      return [...enriched, ...prev.filter(e => !freshIds.has(e.id))];
+    };
+    if (activeTab === 'following') {
+      setFollowingEntries(prepend);
+      setFollowingHeadCursor(toFeedCursor(enriched[0]));
+    } else {
+      setEntries(prepend);
+      setHeadCursor(toFeedCursor(enriched[0]));
+    }
+  }, [newCatches, activeTab, currentUserId, loadFeed]);
 
   // Load feed immediately on mount — don't wait for userId resolution.
   // The feed content is independent of the current user; only the "liked by
@@ -712,7 +836,7 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
   }, []);
 
   const handleSubmitComment = useCallback(
-    async (text: string) => {
+    async (text: string, options: { parentId: string | null; mentions: CommentMention[] }) => {
       if (!activeCommentReportId || !currentUserId || !currentUserDisplay) return;
       bumpCommentCount(activeCommentReportId, 1);
       try {
@@ -722,6 +846,8 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
           anglerName: currentUserDisplay.name,
           anglerProfileImage: currentUserDisplay.profileImage,
           text,
+          parentId: options.parentId,
+          mentions: options.mentions,
         });
       } catch (err) {
         bumpCommentCount(activeCommentReportId, -1);
@@ -737,47 +863,89 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
     ],
   );
 
+  const handleEditComment = useCallback(
+    async (commentId: string, text: string, mentions: CommentMention[]) => {
+      if (!activeCommentReportId || !currentUserId) return;
+      await editCommentMutation.mutateAsync({
+        reportId: activeCommentReportId,
+        commentId,
+        userId: currentUserId,
+        text,
+        mentions,
+      });
+    },
+    [activeCommentReportId, currentUserId, editCommentMutation],
+  );
+
+  const handleShowCommentHistory = useCallback(async (comment: CatchComment) => {
+    try {
+      const edits = await fetchCommentHistory(comment.id);
+      Alert.alert(
+        'Edit history',
+        edits.length > 0
+          ? edits.map((e) => `${formatRelativeTime(e.editedAt)}: ${e.text}`).join('\n\n')
+          : 'No earlier versions.',
+      );
+    } catch (err) {
+      console.warn('Failed to load comment history', err);
+    }
+  }, []);
+
   const handleDeleteComment = useCallback(
     async (commentId: string) => {
       if (!activeCommentReportId) return;
-      bumpCommentCount(activeCommentReportId, -1);
+      // Replies are deleted with their parent
+      const removed = 1 + (commentsQuery.data ?? []).filter((c) => c.parentId === commentId).length;
+      bumpCommentCount(activeCommentReportId, -removed);
       try {
         await deleteCommentMutation.mutateAsync({
           reportId: activeCommentReportId,
           commentId,
         });
       } catch (err) {
-        bumpCommentCount(activeCommentReportId, 1);
+        bumpCommentCount(activeCommentReportId, removed);
         console.warn('Failed to delete comment', err);
       }
     },
-    [activeCommentReportId, deleteCommentMutation, bumpCommentCount],
+    [activeCommentReportId, commentsQuery.data, deleteCommentMutation, bumpCommentCount],
   );
 
   const handleReportComment = useCallback(
-    (commentId: string) => {
+    (commentId: string, reasonCode: ReportReasonCode) => {
       if (!currentUserId) return;
-      reportCommentMutation.mutate({ commentId, reporterId: currentUserId });
+      reportCommentMutation.mutate({ commentId, reporterId: currentUserId, reasonCode });
     },
     [currentUserId, reportCommentMutation],
   );
 
-  // Handle like/unlike a catch
-  const handleLikePress = useCallback(async (entry: CatchFeedEntry) => {
-    // Optimistically update UI first (for immediate visual feedback)
+  // Put an entry's like/reaction fields back after a failed update
+  const revertReaction = useCallback((entry: CatchFeedEntry) => {
     setEntries(prevEntries =>
       prevEntries.map(e => {
         if (e.id === entry.id) {
-          const isLiked = e.isLikedByCurrentUser;
           return {
             ...e,
-            isLikedByCurrentUser: !isLiked,
-            likeCount: isLiked ? Math.max(0, e.likeCount - 1) : e.likeCount + 1,
+            isLikedByCurrentUser: entry.isLikedByCurrentUser,
+            likeCount: entry.likeCount,
+            reactionCounts: entry.reactionCounts,
+            myReaction: entry.myReaction,
           };
         }
         return e;
       })
     );
+  }, []);
+
+  // Handle like/unlike a catch. A like is the default reaction.
+  const handleLikePress = useCallback(async (entry: CatchFeedEntry) => {
+    // Optimistically update UI first (for immediate visual feedback)
+    setEntries(prevEntries =>
+      prevEntries.map(e =>
+        e.id === entry.id
+          ? applyReaction(e, e.isLikedByCurrentUser ? null : DEFAULT_REACTION)
+          : e
+      )
+    );
 
     // Only make API call if user is logged in
     if (!currentUserId) {
@@ -794,21 +962,44 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
       }
     } catch (err) {
       console.error('Failed to update like:', err);
-      // Revert on error
+      revertReaction(entry);
+    }
+  }, [currentUserId, revertReaction]);
+
+  // Handle picking a reaction from CatchCard's long-press picker (null removes it)
+  const handleReactionSelect = useCallback(async (entry: CatchFeedEntry, reaction: CatchReaction | null) => {
+    setEntries(prevEntries =>
+      prevEntries.map(e => (e.id === entry.id ? applyReaction(e, reaction) : e))
+    );
+
+    if (!currentUserId) {
+      console.log('User must be logged in to persist reactions');
+      return;
+    }
+
+    const result = reaction
+      ? await setCatchReaction(entry.id, currentUserId, reaction)
+      : await unlikeCatch(entry.id, currentUserId);
+
+    if (result === null) {
+      revertReaction(entry);
+    } else if (typeof result === 'object') {
+      // Sync with the server's totals, which include other anglers' changes
       setEntries(prevEntries =>
-        prevEntries.map(e => {
-          if (e.id === entry.id) {
-            return {
-              ...e,
-              isLikedByCurrentUser: entry.isLikedByCurrentUser,
-              likeCount: entry.likeCount,
-            };
-          }
-          return e;
-        })
+        prevEntries.map(e =>
+          e.id === entry.id
+            ? {
+                ...e,
+                likeCount: result.count,
+                isLikedByCurrentUser: result.isLiked,
+                reactionCounts: result.counts,
+                myReaction: result.myReaction,
+              }
+            : e
+        )
       );
     }
-  }, [currentUserId]);
+  }, [currentUserId, revertReaction]);
 
   const navigateToReport = useCallback(() => {
     navigation.navigate('ReportForm');
@@ -819,7 +1010,7 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
   }, [navigation]);
 
   // Render empty state
-  const hasActiveFilters = selectedArea || selectedSpecies || showPhotosOnly;
+  const hasActiveFilters = activeFilterCount > 0;
   const renderEmptyState = () => {
     // Following tab gets its own empty messaging — no filters, no "report a catch"
     // CTA since the action is "follow other anglers".
@@ -925,11 +1116,12 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
         // (preserves pre-social behavior). When on: tapping body opens comments.
         onCardPress={socialEnabled ? handleCommentPress : undefined}
         onLikePress={handleLikePress}
+        onReactionSelect={handleReactionSelect}
         onCommentPress={socialEnabled ? handleCommentPress : undefined}
         speciesImageUrl={getSpeciesImageUrl(item.data.species)}
       />
     );
-  }, [handleAnglerPress, handleLikePress, handleCommentPress, getSpeciesImageUrl, socialEnabled]);
+  }, [handleAnglerPress, handleLikePress, handleReactionSelect, handleCommentPress, getSpeciesImageUrl, socialEnabled]);
 
   const keyExtractor = useCallback((item: FeedItem, index: number) => {
     if (item.type === 'ad') return `ad-${item.data.id}-${index}`;
@@ -943,7 +1135,12 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
   const renderListHeader = useCallback(() => (
     <View>
       {/* Top Anglers Section — only on Discover */}
-      {activeTab === 'discover' && <TopAnglersSection anglers={topAnglers} />}
+      {activeTab === 'discover' && (
+        <TopAnglersSection
+          anglers={topAnglers}
+          onSeeAllPress={() => navigation.navigate('Leaderboard')}
+        />
+      )}
 
       {/* Discover / Following tab switcher — gated on social flag + signed in */}
       {socialEnabled && currentUserId && (
@@ -983,30 +1180,48 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
       {activeTab === 'discover' && (
         <View style={styles.filterRow}>
           <FilterPill
-            label={selectedArea || 'All Areas'}
-            isActive={selectedArea !== null}
+            label={areaPillLabel}
+            isActive={!!(feedFilter.areaCode || feedFilter.region)}
             onPress={() => setShowAreaPicker(true)}
           />
           <FilterPill
-            label={selectedSpecies || 'All Species'}
-            isActive={selectedSpecies !== null}
-            onPress={() => setShowSpeciesPicker(true)}
+            label={speciesPillLabel}
+            isActive={selectedSpecies.length > 0}
+            onPress={() => setShowFilterSheet(true)}
           />
           {/* Photo filter toggle - doesn't shrink */}
           <TouchableOpacity
-            style={[styles.filterPill, styles.filterPillFixed, showPhotosOnly && styles.filterPillActive]}
-            onPress={() => setShowPhotosOnly(!showPhotosOnly)}
+            style={[styles.filterPill, styles.filterPillFixed, feedFilter.hasPhoto && styles.filterPillActive]}
+            onPress={handleTogglePhotos}
             activeOpacity={0.85}
           >
             <Feather
               name="image"
               size={14}
-              color={showPhotosOnly ? theme.colors.textOnPrimary : theme.colors.textSecondary}
+              color={feedFilter.hasPhoto ? theme.colors.textOnPrimary : theme.colors.textSecondary}
             />
-            <Text style={[styles.filterPillText, showPhotosOnly && styles.filterPillTextActive]}>
+            <Text style={[styles.filterPillText, feedFilter.hasPhoto && styles.filterPillTextActive]}>
               Photos
             </Text>
           </TouchableOpacity>
+          {/* All filters (species, region, date window, source) */}
+          <TouchableOpacity
+            style={[styles.filterPill, styles.filterPillFixed, activeFilterCount > 0 && styles.filterPillActive]}
+            onPress={() => setShowFilterSheet(true)}
+            activeOpacity={0.85}
+            accessibilityLabel="More filters"
+          >
+            <Feather
+              name="sliders"
+              size={14}
+              color={activeFilterCount > 0 ? theme.colors.textOnPrimary : theme.colors.textSecondary}
+            />
+            {activeFilterCount > 0 && (
+              <Text style={[styles.filterPillText, styles.filterPillTextActive]}>
+                {activeFilterCount}
+              </Text>
+            )}
+          </TouchableOpacity>
         </View>
       )}
 
@@ -1020,7 +1235,9 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
         />
       </View>
     </View>
-  ), [topAnglers, selectedArea, selectedSpecies, showPhotosOnly, activeTab, currentUserId, socialEnabled, handleSwitchTab]);
+  ), [topAnglers, feedFilter, areaPillLabel, speciesPillLabel, activeFilterCount, handleTogglePhotos, activeTab, currentUserId, socialEnabled, handleSwitchTab, navigation]);
+
+  const activeHasMore = activeTab === 'following' ? followingHasMore : hasMore;
 
   const renderListFooter = useCallback(() => {
     if (feedItems.length === 0) return null;
@@ -1031,13 +1248,13 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
     }
 
     // Show "all caught up" only when there's no more data
-    if (!hasMore) {
+    if (!activeHasMore) {
       return <FeedFooter />;
     }
 
     // Return empty spacer to allow scroll momentum
     return <View style={{ height: 20 }} />;
-  }, [feedItems.length, loadingMore, hasMore]);
+  }, [feedItems.length, loadingMore, activeHasMore]);
 
   // Empty component for FlatList when no data
   const renderEmptyComponent = useCallback(() => {
@@ -1054,10 +1271,12 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
 
   // Callback for when user scrolls near the end
   const handleEndReached = useCallback(() => {
-    if (!loadingMore && hasMore && !loading) {
+    if (activeTab === 'following') {
+      loadMoreFollowing();
+    } else if (!loadingMore && hasMore && !loading) {
       loadMore();
     }
-  }, [loadingMore, hasMore, loading, loadMore]);
+  }, [activeTab, loadingMore, hasMore, loading, loadMore, loadMoreFollowing]);
 
   return (
     <View style={styles.screenContainer}>
@@ -1093,6 +1312,7 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
 
         {/* Main FlatList - header scrolls with content (Instagram-style) */}
         <Animated.FlatList
+          ref={listRef}
           data={feedItems}
           renderItem={renderItem}
           keyExtractor={keyExtractor}
@@ -1175,22 +1395,48 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
           initialNumToRender={4}
         />
 
+        {/* "N new catches" pill - tap to jump to the top with the new catches */}
+        {newCatches.entries.length > 0 && (
+          <View
+            pointerEvents="box-none"
+            style={[
+              styles.newCatchesContainer,
+              {
+                top: Platform.OS === 'android'
+                  ? (StatusBar.currentHeight || 0) + 12
+                  : insets.top + 8,
+              },
+            ]}
+          >
+            <TouchableOpacity
+              style={styles.newCatchesPill}
+              onPress={handleShowNewCatches}
+              activeOpacity={0.85}
+              accessibilityRole="button"
+            >
+              <Feather name="arrow-up" size={14} color={theme.colors.textOnPrimary} />
+              <Text style={styles.newCatchesText}>
+                {newCatches.hasMore ? `${newCatches.entries.length}+` : newCatches.entries.length}{' '}
+                new {newCatches.entries.length === 1 && !newCatches.hasMore ? 'catch' : 'catches'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Filter Modals */}
         <FilterPickerModal
           visible={showAreaPicker}
           title="Select Area"
-          options={availableAreas}
-          selectedValue={selectedArea}
-          onSelect={setSelectedArea}
+          options={areaOptions}
+          selectedValue={feedFilter.areaCode ? getAreaByCode(feedFilter.areaCode)?.label ?? null : null}
+          onSelect={handleSelectArea}
           onClose={() => setShowAreaPicker(false)}
         />
-        <FilterPickerModal
-          visible={showSpeciesPicker}
-          title="Select Species"
-          options={speciesOptions}
-          selectedValue={selectedSpecies}
-          onSelect={setSelectedSpecies}
-          onClose={() => setShowSpeciesPicker(false)}
+        <CatchFeedFilterSheet
+          visible={showFilterSheet}
+          filter={feedFilter}
+          onApply={applyFeedFilter}
+          onClose={() => setShowFilterSheet(false)}
         />
 
         {/* Angler profile is now a Stack screen (AnglerProfileScreen) instead
@@ -1206,6 +1452,8 @@ const CatchFeedScreen: React.FC<CatchFeedScreenProps> = ({ navigation }) => {
           canPost={!!currentUserId}
           loading={commentsQuery.isLoading}
           onSubmit={handleSubmitComment}
+          onEdit={handleEditComment}
+          onShowHistory={handleShowCommentHistory}
           onDelete={handleDeleteComment}
           onReport={handleReportComment}
         />
@@ -1300,6 +1548,34 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     justifyContent: 'center',
   },
 
+  // "N new catches" pill
+  newCatchesContainer: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    alignItems: 'center',
+    zIndex: 100,
+  },
+  newCatchesPill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: theme.colors.primary,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  newCatchesText: {
+    color: theme.colors.textOnPrimary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+
   // FlatList styles
   flatList: {
     flex: 1,
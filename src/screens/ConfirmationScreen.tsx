@@ -33,7 +33,7 @@ import { Theme } from "../styles/theme";
 
 // DMF services
 import { submitWithQueueFallback, SubmitWithQueueResult } from "../services/offlineQueue";
-import { aggregateFishEntries } from "../constants/species";
+import { aggregateFishEntries, speciesCountsToReport } from "../constants/species";
 import { isTestMode } from "../config/appConfig";
 
 // Rewards prompt
@@ -303,15 +303,12 @@ const ConfirmationScreen: React.FC<ConfirmationScreenProps> = ({ route, navigati
 
       // Harvest data
       harvestDate: data.date ? new Date(data.date) : new Date(),
-      redDrumCount: speciesCounts.redDrum,
-      flounderCount: speciesCounts.flounder,
-      spottedSeatroutCount: speciesCounts.spottedSeatrout,
-      weakfishCount: speciesCounts.weakfish,
-      stripedBassCount: speciesCounts.stripedBass,
+      ...speciesCountsToReport(speciesCounts),
 
       // Location
       areaCode: data.areaCode || "",
       areaLabel: data.areaLabel || data.waterbody,
+      gpsCoordinates: data.coordinates,
 
       // Gear
       usedHookAndLine: data.usedHookAndLine ?? true,
@@ -325,6 +322,7 @@ const ConfirmationScreen: React.FC<ConfirmationScreenProps> = ({ route, navigati
       // App-only fields
       enterRaffle: !!data.enteredRaffle,
       catchPhoto: data.photo,
+      feedPrivacy: data.feedPrivacy,
       fishEntries: fishEntries,
     };
   };
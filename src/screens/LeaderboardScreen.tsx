@@ -0,0 +1,346 @@
+// screens/LeaderboardScreen.tsx
+//
+// Full angler leaderboard: ranked lists by catches, species or longest fish
+// for the week, month, quarter, year or all time, optionally for one
+// species and one region. The viewer's own rank stays pinned to the bottom
+// when they're outside the list. Opened from the Top Anglers preview on
+// the Catch Feed.
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StackScreenProps } from '@react-navigation/stack';
+import { Feather } from '@expo/vector-icons';
+import { RootStackParamList } from '../types';
+import {
+  LeaderboardEntry,
+  LeaderboardMetric,
+  LeaderboardPeriod,
+} from '../types/leaderboard';
+import {
+  LEADERBOARD_METRIC_OPTIONS,
+  LEADERBOARD_PERIOD_OPTIONS,
+  TOP_ANGLERS_PERIOD,
+  formatLeaderboardValue,
+} from '../constants/leaderboard';
+import { SPECIES, SpeciesCountKey } from '../constants/species';
+import { REGION_OPTIONS } from '../constants/regionOptions';
+import { SCREEN_LABELS } from '../constants/screenLabels';
+import { useLeaderboard } from '../api/leaderboardApi';
+import SpeciesFilterChips, { FilterChipConfig } from '../components/SpeciesFilterChips';
+import { spacing } from '../styles/common';
+import { useTheme } from '../contexts/ThemeContext';
+import { useThemedStyles } from '../hooks/useThemedStyles';
+import { Theme } from '../styles/theme';
+
+type Props = StackScreenProps<RootStackParamList, 'Leaderboard'>;
+
+const ALL_KEY = 'all';
+
+// Podium colors, matching TopAnglersSection
+const RANK_COLORS: Record<number, string> = {
+  1: '#FFD700',
+  2: '#C0C0C0',
+  3: '#CD7F32',
+};
+
+const LeaderboardScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { theme } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+
+  const [metric, setMetric] = useState<LeaderboardMetric>(route.params?.metric ?? 'catches');
+  const [period, setPeriod] = useState<LeaderboardPeriod>(TOP_ANGLERS_PERIOD);
+  const [species, setSpecies] = useState<SpeciesCountKey | undefined>(undefined);
+  const [region, setRegion] = useState<string | undefined>(undefined);
+
+  // Species rankings don't narrow to one species
+  const speciesFilter = metric === 'species' ? undefined : species;
+  const leaderboardQuery = useLeaderboard({ metric, period, species: speciesFilter, region });
+  const entries = leaderboardQuery.data?.entries ?? [];
+  const viewerEntry = leaderboardQuery.data?.viewerEntry ?? null;
+  const viewerListed = !!viewerEntry && entries.some((e) => e.userId === viewerEntry.userId);
+
+  const chipRows = useMemo(() => {
+    const chip = (key: string, label: string, icon: string, isActive: boolean, onToggle: () => void): FilterChipConfig => ({
+      key,
+      label,
+      icon,
+      isActive,
+      onToggle,
+      color: theme.colors.primary,
+    });
+
+    const rows: Array<{ title: string; chips: FilterChipConfig[] }> = [
+      {
+        title: 'Period',
+        chips: LEADERBOARD_PERIOD_OPTIONS.map((o) =>
+          chip(o.value, o.label, 'calendar', period === o.value, () => setPeriod(o.value))),
+      },
+      {
+        title: 'Ranking',
+        chips: LEADERBOARD_METRIC_OPTIONS.map((o) =>
+          chip(o.value, o.label, o.value === 'length' ? 'maximize-2' : o.value === 'species' ? 'layers' : 'award',
+            metric === o.value, () => setMetric(o.value))),
+      },
+    ];
+    if (metric !== 'species') {
+      rows.push({
+        title: 'Species',
+        chips: [
+          chip(ALL_KEY, 'All Species', 'list', !species, () => setSpecies(undefined)),
+          ...SPECIES.map((s) =>
+            chip(s.countKey, s.shortName, 'anchor', species === s.countKey, () => setSpecies(s.countKey))),
+        ],
+      });
+    }
+    rows.push({
+      title: 'Region',
+      chips: [
+        chip(ALL_KEY, 'All NC', 'map', !region, () => setRegion(undefined)),
+        ...REGION_OPTIONS.map((r) =>
+          chip(r.value, r.shortLabel, 'map-pin', region === r.value, () => setRegion(r.value))),
+      ],
+    });
+    return rows;
+  }, [metric, period, species, region, theme]);
+
+  const renderEntry = (entry: LeaderboardEntry, pinned = false) => (
+    <TouchableOpacity
+      key={pinned ? 'viewer' : entry.userId}
+      style={[styles.row, entry.isViewer && styles.rowViewer, pinned && styles.rowPinned]}
+      onPress={() => navigation.navigate('AnglerProfile', { userId: entry.userId })}
+      activeOpacity={0.85}
+      accessibilityLabel={`Rank ${entry.rank}, ${entry.displayName}, ${formatLeaderboardValue(metric, entry.value)}`}
+    >
+      <Text style={[styles.rank, RANK_COLORS[entry.rank] ? { color: RANK_COLORS[entry.rank] } : null]}>
+        {entry.rank}
+      </Text>
+      {entry.profileImage ? (
+        <Image
+          source={{ uri: entry.profileImage }}
+          style={styles.avatar}
+          contentFit="cover"
+          cachePolicy="memory-disk"
+        />
+      ) : (
+        <View style={styles.avatarPlaceholder}>
+          <Text style={styles.avatarInitial}>{entry.displayName.charAt(0).toUpperCase()}</Text>
+        </View>
+      )}
+      <Text style={styles.name} numberOfLines={1}>
+        {entry.displayName}
+        {entry.isViewer ? ' (You)' : ''}
+      </Text>
+      <Text style={styles.value}>{formatLeaderboardValue(metric, entry.value)}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderHeader = () => (
+    <View style={styles.filters}>
+      {chipRows.map((row) => (
+        <View key={row.title} style={styles.filterRow}>
+          <Text style={styles.filterTitle}>{row.title}</Text>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.chipRow}
+          >
+            <SpeciesFilterChips filters={row.chips} isExpanded />
+          </ScrollView>
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderEmpty = () =>
+    leaderboardQuery.isLoading ? (
+      <View style={styles.emptyState}>
+        <ActivityIndicator size="large" color={theme.colors.primary} />
+      </View>
+    ) : leaderboardQuery.isError ? (
+      <View style={styles.emptyState}>
+        <Feather name="alert-circle" size={40} color={theme.colors.textTertiary} />
+        <Text style={styles.emptyText}>Unable to load the leaderboard.</Text>
+      </View>
+    ) : (
+      <View style={styles.emptyState}>
+        <Feather name="award" size={40} color={theme.colors.textTertiary} />
+        <Text style={styles.emptyText}>No catches reported for this leaderboard yet.</Text>
+      </View>
+    );
+
+  return (
+    <View style={[styles.screen, { paddingTop: insets.top }]}>
+      <View style={styles.topBar}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          style={styles.topBarIconButton}
+        >
+          <Feather name="arrow-left" size={24} color={theme.colors.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.topBarTitle} numberOfLines={1}>
+          {SCREEN_LABELS.leaderboard.title}
+        </Text>
+        <View style={styles.topBarIconButton} />
+      </View>
+
+      <FlatList
+        data={entries}
+        keyExtractor={(e) => e.userId}
+        renderItem={({ item }) => renderEntry(item)}
+        ListHeaderComponent={renderHeader}
+        ListEmptyComponent={renderEmpty}
+        ItemSeparatorComponent={() => <View style={styles.divider} />}
+        refreshControl={
+          <RefreshControl
+            refreshing={leaderboardQuery.isRefetching}
+            onRefresh={() => leaderboardQuery.refetch()}
+            tintColor={theme.colors.primary}
+          />
+        }
+        showsVerticalScrollIndicator={false}
+      />
+
+      {viewerEntry && !viewerListed && (
+        <View style={{ paddingBottom: insets.bottom }} testID="leaderboard-viewer-rank">
+          {renderEntry(viewerEntry, true)}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const createStyles = (theme: Theme) =>
+  StyleSheet.create({
+    screen: { flex: 1, backgroundColor: theme.colors.background },
+    topBar: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: spacing.sm,
+      paddingVertical: spacing.sm,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.divider,
+    },
+    topBarIconButton: {
+      width: 40,
+      height: 40,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    topBarTitle: {
+      flex: 1,
+      textAlign: 'center',
+      fontSize: 17,
+      fontWeight: '700',
+      color: theme.colors.textPrimary,
+    },
+
+    // Filters
+    filters: {
+      paddingHorizontal: spacing.md,
+      paddingBottom: spacing.sm,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.divider,
+    },
+    filterRow: {
+      marginTop: spacing.sm,
+    },
+    filterTitle: {
+      fontSize: 13,
+      fontWeight: '700',
+      color: theme.colors.textSecondary,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+    },
+    chipRow: {
+      // Room for the count badge that sits above each chip
+      paddingTop: 6,
+      paddingRight: spacing.md,
+    },
+
+    // Rows
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+      gap: spacing.sm,
+    },
+    rowViewer: {
+      backgroundColor: theme.colors.surfaceMuted,
+    },
+    rowPinned: {
+      borderTopWidth: 1,
+      borderTopColor: theme.colors.divider,
+    },
+    rank: {
+      width: 32,
+      textAlign: 'center',
+      fontSize: 16,
+      fontWeight: '800',
+      color: theme.colors.textSecondary,
+    },
+    avatar: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+    },
+    avatarPlaceholder: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      backgroundColor: theme.colors.primaryLight,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    avatarInitial: {
+      color: theme.colors.primary,
+      fontSize: 14,
+      fontWeight: '700',
+    },
+    name: {
+      flex: 1,
+      fontSize: 15,
+      fontWeight: '600',
+      color: theme.colors.textPrimary,
+    },
+    value: {
+      fontSize: 14,
+      fontWeight: '700',
+      color: theme.colors.primary,
+    },
+    divider: {
+      height: 1,
+      backgroundColor: theme.colors.divider,
+      marginLeft: spacing.md + 32 + spacing.sm,
+    },
+
+    // Empty state
+    emptyState: {
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingHorizontal: spacing.xl,
+      paddingVertical: spacing.xxl,
+      gap: spacing.xs,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: theme.colors.textSecondary,
+      textAlign: 'center',
+      lineHeight: 20,
+    },
+  });
+
+export default LeaderboardScreen;
@@ -0,0 +1,305 @@
+// screens/NotificationsScreen.tsx
+//
+// Notification inbox: follows, likes, comments, replies, mentions,
+// achievements, prize wins and synced reports, grouped into rows ("3 people liked your
+// flounder"). Tapping a row marks it read and opens its catch, angler or
+// screen. Works offline from the cached inbox.
+
+import React, { useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StackScreenProps } from '@react-navigation/stack';
+import { Feather } from '@expo/vector-icons';
+import { RootStackParamList } from '../types';
+import { NotificationGroup, NotificationType } from '../types/notifications';
+import { formatRelativeTime } from '../utils/dateUtils';
+import { groupNotifications, getUnreadCount } from '../services/notificationsService';
+import { useNotifications, useMarkNotificationsRead } from '../api/notificationsApi';
+import { useCurrentRewardsUserId } from '../hooks/useCurrentRewardsUserId';
+import { resolveAppLink } from '../hooks/useDeepLinkHandler';
+import { SCREEN_LABELS } from '../constants/screenLabels';
+import { spacing } from '../styles/common';
+import { useTheme } from '../contexts/ThemeContext';
+import { useThemedStyles } from '../hooks/useThemedStyles';
+import { Theme } from '../styles/theme';
+
+type Props = StackScreenProps<RootStackParamList, 'Notifications'>;
+
+/** Icon for rows without an angler avatar */
+const TYPE_ICONS: Record<NotificationType, React.ComponentProps<typeof Feather>['name']> = {
+  follow: 'user-plus',
+  follow_request: 'user-plus',
+  like: 'heart',
+  comment: 'message-circle',
+  reply: 'corner-down-right',
+  mention: 'at-sign',
+  achievement: 'award',
+  prize_won: 'gift',
+  report_synced: 'upload-cloud',
+};
+
+const NotificationsScreen: React.FC<Props> = ({ navigation }) => {
+  const { theme } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+
+  const currentUserId = useCurrentRewardsUserId();
+  const notificationsQuery = useNotifications(currentUserId);
+  const markRead = useMarkNotificationsRead();
+
+  const notifications = notificationsQuery.data ?? [];
+  const groups = useMemo(
+    () => groupNotifications(notifications, currentUserId),
+    [notifications, currentUserId],
+  );
+  const unreadCount = getUnreadCount(notifications);
+
+  const handleGroupPress = useCallback(
+    (group: NotificationGroup) => {
+      if (currentUserId && group.unreadCount > 0) {
+        markRead.mutate({
+          userId: currentUserId,
+          ids: group.notifications.filter((n) => !n.readAt).map((n) => n.id),
+        });
+      }
+
+      const target = group.link ? resolveAppLink(group.link) : null;
+      if (!target) return;
+      if (target.screen === 'CatchDetail') {
+        navigation.navigate('CatchDetail', target.params);
+      } else if (target.screen === 'AnglerProfile') {
+        navigation.navigate('AnglerProfile', target.params);
+      } else if (target.screen === 'PrizeClaim') {
+        navigation.navigate('PrizeClaim', target.params);
+      } else {
+        navigation.navigate(target.screen);
+      }
+    },
+    [currentUserId, markRead, navigation],
+  );
+
+  const handleMarkAllRead = () => {
+    if (!currentUserId) return;
+    markRead.mutate({ userId: currentUserId });
+  };
+
+  const renderGroup = ({ item }: { item: NotificationGroup }) => {
+    const actor = item.actors[0];
+    return (
+      <TouchableOpacity
+        style={[styles.row, item.unreadCount > 0 && styles.rowUnread]}
+        onPress={() => handleGroupPress(item)}
+        activeOpacity={0.85}
+        accessibilityLabel={item.message}
+      >
+        {actor?.profileImage ? (
+          <Image
+            source={{ uri: actor.profileImage }}
+            style={styles.avatar}
+            contentFit="cover"
+            cachePolicy="memory-disk"
+          />
+        ) : actor ? (
+          <View style={styles.avatarPlaceholder}>
+            <Text style={styles.avatarInitial}>{actor.displayName.charAt(0).toUpperCase()}</Text>
+          </View>
+        ) : (
+          <View style={styles.avatarPlaceholder}>
+            <Feather name={TYPE_ICONS[item.type]} size={18} color={theme.colors.primary} />
+          </View>
+        )}
+        <View style={styles.rowBody}>
+          <Text style={[styles.message, item.unreadCount > 0 && styles.messageUnread]}>
+            {item.message}
+          </Text>
+          <Text style={styles.timestamp}>{formatRelativeTime(item.latestAt)}</Text>
+        </View>
+        {item.unreadCount > 0 && <View style={styles.unreadDot} testID="notification-unread-dot" />}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmpty = () =>
+    notificationsQuery.isLoading && currentUserId ? (
+      <View style={styles.emptyState}>
+        <ActivityIndicator size="large" color={theme.colors.primary} />
+      </View>
+    ) : (
+      <View style={styles.emptyState}>
+        <Feather name="bell" size={40} color={theme.colors.textTertiary} />
+        <Text style={styles.emptyTitle}>No notifications yet</Text>
+        <Text style={styles.emptyText}>
+          {currentUserId
+            ? "When anglers follow you, like or comment on your catches, you'll see it here."
+            : 'Sign in to get notified about follows, likes and comments.'}
+        </Text>
+      </View>
+    );
+
+  return (
+    <View style={[styles.screen, { paddingTop: insets.top }]}>
+      <View style={styles.topBar}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          style={styles.topBarIconButton}
+        >
+          <Feather name="arrow-left" size={24} color={theme.colors.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.topBarTitle} numberOfLines={1}>
+          {SCREEN_LABELS.notifications.title}
+        </Text>
+        {unreadCount > 0 ? (
+          <TouchableOpacity
+            onPress={handleMarkAllRead}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            style={styles.topBarIconButton}
+            accessibilityLabel="Mark all read"
+          >
+            <Feather name="check-circle" size={20} color={theme.colors.textPrimary} />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.topBarIconButton} />
+        )}
+      </View>
+
+      <FlatList
+        data={groups}
+        keyExtractor={(g) => g.key}
+        renderItem={renderGroup}
+        ListEmptyComponent={renderEmpty}
+        ItemSeparatorComponent={() => <View style={styles.divider} />}
+        contentContainerStyle={[
+          groups.length === 0 && styles.emptyContainer,
+          { paddingBottom: insets.bottom + spacing.md },
+        ]}
+        refreshControl={
+          <RefreshControl
+            refreshing={notificationsQuery.isRefetching}
+            onRefresh={() => notificationsQuery.refetch()}
+            tintColor={theme.colors.primary}
+          />
+        }
+        showsVerticalScrollIndicator={false}
+      />
+    </View>
+  );
+};
+
+const createStyles = (theme: Theme) =>
+  StyleSheet.create({
+    screen: { flex: 1, backgroundColor: theme.colors.background },
+    topBar: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: spacing.sm,
+      paddingVertical: spacing.sm,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.divider,
+    },
+    topBarIconButton: {
+      width: 40,
+      height: 40,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    topBarTitle: {
+      flex: 1,
+      textAlign: 'center',
+      fontSize: 17,
+      fontWeight: '700',
+      color: theme.colors.textPrimary,
+    },
+
+    // Rows
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+      gap: spacing.sm,
+    },
+    rowUnread: {
+      backgroundColor: theme.colors.surfaceMuted,
+    },
+    avatar: {
+      width: 40,
+      height: 40,
+      borderRadius: 20,
+    },
+    avatarPlaceholder: {
+      width: 40,
+      height: 40,
+      borderRadius: 20,
+      backgroundColor: theme.colors.primaryLight,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    avatarInitial: {
+      color: theme.colors.primary,
+      fontSize: 16,
+      fontWeight: '700',
+    },
+    rowBody: {
+      flex: 1,
+    },
+    message: {
+      fontSize: 15,
+      color: theme.colors.textPrimary,
+      lineHeight: 20,
+    },
+    messageUnread: {
+      fontWeight: '600',
+    },
+    timestamp: {
+      fontSize: 12,
+      color: theme.colors.textSecondary,
+      marginTop: 2,
+    },
+    unreadDot: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+      backgroundColor: theme.colors.primary,
+    },
+    divider: {
+      height: 1,
+      backgroundColor: theme.colors.divider,
+      marginLeft: spacing.md + 40 + spacing.sm,
+    },
+
+    // Empty state
+    emptyContainer: {
+      flexGrow: 1,
+    },
+    emptyState: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingHorizontal: spacing.xl,
+      paddingVertical: spacing.xxl,
+      gap: spacing.xs,
+    },
+    emptyTitle: {
+      fontSize: 17,
+      fontWeight: '600',
+      color: theme.colors.textPrimary,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: theme.colors.textSecondary,
+      textAlign: 'center',
+      lineHeight: 20,
+    },
+  });
+
+export default NotificationsScreen;
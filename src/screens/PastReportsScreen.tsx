@@ -18,6 +18,9 @@ import {
   RefreshControl,
   Platform,
   Animated,
+  Share,
+  TextInput,
+  KeyboardTypeOptions,
 } from "react-native";
 import DateTimePicker from "@react-native-community/datetimepicker";
 import { Image } from "expo-image";
@@ -25,7 +28,13 @@ import { StackNavigationProp } from "@react-navigation/stack";
 import { Feather } from "@expo/vector-icons";
 import * as Clipboard from "expo-clipboard";
 import { RootStackParamList } from "../types";
-import { SubmittedReport, QueuedReport } from "../types/harvestReport";
+import {
+  SubmittedReport,
+  QueuedReport,
+  QueuedReportError,
+  DeadLetterReport,
+  DeadLetterEdits,
+} from "../types/harvestReport";
 import { spacing, typography, borderRadius } from "../styles/common";
 import { useTheme } from "../contexts/ThemeContext";
 import { useThemedStyles } from "../hooks/useThemedStyles";
@@ -34,6 +43,17 @@ import { isTestMode } from "../config/appConfig";
 import ScreenLayout from "../components/ScreenLayout";
 import { useAllFishSpecies } from "../api/speciesApi";
 import { SCREEN_LABELS } from "../constants/screenLabels";
+import {
+  SPECIES,
+  getSpeciesCountBreakdown,
+  getTotalFishCount,
+  pickReportCounts,
+  reportToSpeciesCounts,
+  type ReportCountField,
+  type ReportSpeciesCounts,
+} from "../constants/species";
+import { AREA_OPTIONS, getAreaByCode } from "../constants/areaOptions";
+import { validateHarvestReport } from "../utils/validation";
 import { PastReportsSkeletonLoader } from "../components/SkeletonLoader";
 import { WaveAccent, WAVE_PRESETS } from "../components/WaveAccent";
 
@@ -41,7 +61,14 @@ import { WaveAccent, WAVE_PRESETS } from "../components/WaveAccent";
 import {
   getHistory,
   getQueue,
+  resubmitDeadLetter,
 } from "../services/offlineQueue";
+import {
+  getDeadLetters,
+  removeDeadLetter,
+  formatDeadLetterForExport,
+} from "../services/deadLetterStore";
+import { getActionableErrorMessage } from "../services/dmfErrorClassifier";
 
 type PastReportsScreenNavigationProp = StackNavigationProp<
   RootStackParamList,
@@ -60,9 +87,9 @@ interface FishEntryDisplay {
   tagNumber?: string;
 }
 
-// Combined report type for display (either submitted or queued)
-interface DisplayReport {
-  type: "submitted" | "queued";
+// Combined report type for display (submitted, queued, or dead-lettered)
+interface DisplayReport extends ReportSpeciesCounts {
+  type: "submitted" | "queued" | "needs_attention";
   reportType?: "dmf_harvest" | "catch_log";
   confirmationNumber: string;
   harvestDate: string;
@@ -70,11 +97,6 @@ interface DisplayReport {
   areaCode: string;
   usedHookAndLine: boolean;
   gearLabel?: string;
-  redDrumCount: number;
-  flounderCount: number;
-  spottedSeatroutCount: number;
-  weakfishCount: number;
-  stripedBassCount: number;
   catchPhoto?: string;
   // Full photo list for multi-photo submissions (catch_log). When present,
   // photos[0] === catchPhoto. Used to drive the +N badge on the card and
@@ -88,6 +110,10 @@ interface DisplayReport {
   objectId?: number;
   retryCount?: number;
   lastError?: string;
+  // Dead-letter info — every failed attempt plus when retries ran out
+  errorHistory?: QueuedReportError[];
+  deadLetteredAt?: string;
+  nextAttemptAt?: string;
   // Raffle info
   enteredRaffle?: boolean;
   raffleId?: string;
@@ -95,12 +121,72 @@ interface DisplayReport {
   fishEntries?: FishEntryDisplay[];
 }
 
+// Text fields on the correction form for a needs-attention report
+const EDIT_TEXT_FIELDS: ReadonlyArray<{
+  field: "wrcId" | "firstName" | "lastName" | "zipCode" | "phone" | "email" | "harvestDate";
+  label: string;
+  keyboardType?: KeyboardTypeOptions;
+  autoCapitalize?: "none" | "words" | "characters";
+}> = [
+  { field: "harvestDate", label: "Harvest Date (YYYY-MM-DD)", keyboardType: "numbers-and-punctuation", autoCapitalize: "none" },
+  { field: "wrcId", label: "WRC ID", autoCapitalize: "characters" },
+  { field: "firstName", label: "First Name", autoCapitalize: "words" },
+  { field: "lastName", label: "Last Name", autoCapitalize: "words" },
+  { field: "zipCode", label: "ZIP Code", keyboardType: "number-pad" },
+  { field: "phone", label: "Phone", keyboardType: "phone-pad" },
+  { field: "email", label: "Email", keyboardType: "email-address", autoCapitalize: "none" },
+];
+
+type EditTextField = typeof EDIT_TEXT_FIELDS[number]["field"];
+
+// Corrections being entered for a needs-attention report, as typed
+interface EditForm extends Record<EditTextField, string> {
+  areaCode: string;
+  areaLabel?: string;
+  counts: Record<ReportCountField, string>;
+}
+
+// Prefill the correction form from the stored report
+const toEditForm = (report: QueuedReport): EditForm => ({
+  harvestDate: report.harvestDate.slice(0, 10),
+  wrcId: report.wrcId ?? "",
+  firstName: report.firstName ?? "",
+  lastName: report.lastName ?? "",
+  zipCode: report.zipCode ?? "",
+  phone: report.phone ?? "",
+  email: report.email ?? "",
+  areaCode: report.areaCode,
+  areaLabel: report.areaLabel,
+  counts: Object.fromEntries(
+    SPECIES.map(s => [s.reportCountField, String(report[s.reportCountField] ?? 0)])
+  ) as Record<ReportCountField, string>,
+});
+
+// Corrections to send with the resubmitted report. Blank counts are zero.
+const toDeadLetterEdits = ({ counts, ...fields }: EditForm): DeadLetterEdits => ({
+  ...fields,
+  ...(Object.fromEntries(
+    SPECIES.map(s => [s.reportCountField, parseInt(counts[s.reportCountField], 10) || 0])
+  ) as ReportSpeciesCounts),
+});
+
+// First problem with the corrected report, or null when it can be resubmitted
+const getEditError = (report: QueuedReport, edits: DeadLetterEdits): string | null => {
+  const harvestDate = edits.harvestDate ?? report.harvestDate;
+  const date = new Date(`${harvestDate}T12:00:00`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(harvestDate) || isNaN(date.getTime())) {
+    return "Enter the harvest date as YYYY-MM-DD.";
+  }
+  const { errors } = validateHarvestReport({ ...report, ...edits, harvestDate: date });
+  return errors[0]?.message ?? null;
+};
+
 // Pure conversion function — lives outside the component so it's not
 // recreated on every render and can be called inside useMemo without
 // defeating memoization.
 const convertToDisplayReport = (
-  report: SubmittedReport | QueuedReport,
-  type: "submitted" | "queued"
+  report: SubmittedReport | QueuedReport | DeadLetterReport,
+  type: DisplayReport["type"]
 ): DisplayReport => {
   if (type === "submitted") {
     const submitted = report as SubmittedReport;
@@ -113,11 +199,7 @@ const convertToDisplayReport = (
       areaCode: submitted.areaCode,
       usedHookAndLine: submitted.usedHookAndLine,
       gearLabel: submitted.gearLabel,
-      redDrumCount: submitted.redDrumCount,
-      flounderCount: submitted.flounderCount,
-      spottedSeatroutCount: submitted.spottedSeatroutCount,
-      weakfishCount: submitted.weakfishCount,
-      stripedBassCount: submitted.stripedBassCount,
+      ...pickReportCounts(submitted),
       catchPhoto: submitted.catchPhoto,
       photos: submitted.photos,
       submittedAt: submitted.submittedAt,
@@ -130,9 +212,9 @@ const convertToDisplayReport = (
       fishEntries: submitted.fishEntries,
     };
   } else {
-    const queued = report as QueuedReport;
+    const queued = report as QueuedReport & Partial<DeadLetterReport>;
     return {
-      type: "queued",
+      type,
       reportType: queued.reportType ?? "dmf_harvest",
       confirmationNumber: queued.localConfirmationNumber,
       harvestDate: queued.harvestDate,
@@ -140,11 +222,7 @@ const convertToDisplayReport = (
       areaCode: queued.areaCode,
       usedHookAndLine: queued.usedHookAndLine,
       gearLabel: queued.gearLabel,
-      redDrumCount: queued.redDrumCount,
-      flounderCount: queued.flounderCount,
-      spottedSeatroutCount: queued.spottedSeatroutCount,
-      weakfishCount: queued.weakfishCount,
-      stripedBassCount: queued.stripedBassCount,
+      ...pickReportCounts(queued),
       catchPhoto: queued.catchPhoto,
       photos: queued.photos,
       queuedAt: queued.queuedAt,
@@ -153,6 +231,9 @@ const convertToDisplayReport = (
       wrcId: queued.wrcId,
       retryCount: queued.retryCount,
       lastError: queued.lastError,
+      errorHistory: queued.errorHistory,
+      deadLetteredAt: queued.deadLetteredAt,
+      nextAttemptAt: queued.nextAttemptAt,
       enteredRaffle: queued.enterRaffle,
       fishEntries: queued.fishEntries,
     };
@@ -165,10 +246,11 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
 
   const [submittedReports, setSubmittedReports] = useState<SubmittedReport[]>([]);
   const [queuedReports, setQueuedReports] = useState<QueuedReport[]>([]);
+  const [deadLetterReports, setDeadLetterReports] = useState<DeadLetterReport[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [refreshing, setRefreshing] = useState<boolean>(false);
   const [selectedReport, setSelectedReport] = useState<DisplayReport | null>(null);
-  const [filterType, setFilterType] = useState<"all" | "synced" | "pending">("all");
+  const [filterType, setFilterType] = useState<"all" | "synced" | "pending" | "attention">("all");
   const loadingRef = useRef(false);
 
   // Date filter state — panel visibility + selected range
@@ -193,8 +275,15 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
   const [modalPhotoIndex, setModalPhotoIndex] = useState(0);
   const [modalPhotoWidth, setModalPhotoWidth] = useState(0);
 
+  // Corrections entered for a needs-attention report before resubmitting.
+  // null = not editing.
+  const [edits, setEdits] = useState<EditForm | null>(null);
+  const [showAreaOptions, setShowAreaOptions] = useState(false);
+
   useEffect(() => {
     setModalPhotoIndex(0);
+    setEdits(null);
+    setShowAreaOptions(false);
   }, [selectedReport?.confirmationNumber]);
 
   // Fetch species data for stock images
@@ -217,13 +306,8 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
     if (report.catchPhoto) return report.catchPhoto;
 
     // Otherwise, find stock image for primary species
-    if (report.redDrumCount > 0) return getSpeciesImage("Red Drum");
-    if (report.flounderCount > 0) return getSpeciesImage("Southern Flounder");
-    if (report.spottedSeatroutCount > 0) return getSpeciesImage("Spotted Seatrout");
-    if (report.stripedBassCount > 0) return getSpeciesImage("Striped Bass");
-    if (report.weakfishCount > 0) return getSpeciesImage("Weakfish");
-
-    return null;
+    const [primary] = getSpeciesCountBreakdown(reportToSpeciesCounts(report), 'catalogName');
+    return primary ? getSpeciesImage(primary.species) : null;
   }, [getSpeciesImage]);
 
   // Load reports from storage
@@ -231,12 +315,14 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
     if (loadingRef.current) return;
     loadingRef.current = true;
     try {
-      const [history, queue] = await Promise.all([
+      const [history, queue, deadLetters] = await Promise.all([
         getHistory(),
         getQueue(),
+        getDeadLetters(),
       ]);
       setSubmittedReports(history);
       setQueuedReports(queue);
+      setDeadLetterReports(deadLetters);
     } catch (error) {
       console.error("Failed to load reports:", error);
       Alert.alert("Error", "Failed to load your past reports. Pull down to try again.");
@@ -316,10 +402,100 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
     }
   };
 
+  // Explain what the user can do about a needs-attention report. Rejections
+  // and config errors get a specific message; exhausted retries a generic one.
+  const getAttentionHint = (report: DisplayReport): string => {
+    const lastError = report.errorHistory?.[report.errorHistory.length - 1];
+    if (lastError?.kind === "permanent" || lastError?.kind === "config") {
+      return getActionableErrorMessage(lastError.kind, lastError.error);
+    }
+    return "Automatic retries stopped. Review the errors below, then resubmit or export.";
+  };
+
+  // Explain when a queued report will be retried. A config error won't clear
+  // up by waiting, so say what the user can do about it.
+  const getPendingHint = (report: DisplayReport): string => {
+    const lastError = report.errorHistory?.[report.errorHistory.length - 1];
+    const nextRetry = report.nextAttemptAt && new Date(report.nextAttemptAt).getTime() > Date.now()
+      ? `Next retry after ${new Date(report.nextAttemptAt).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })}`
+      : "Will sync automatically when online";
+    if (lastError?.kind === "config") {
+      return `${getActionableErrorMessage("config")}\n\n${nextRetry}. Last error: ${lastError.error}`;
+    }
+    return nextRetry;
+  };
+
+  // Find the stored dead letter behind a needs-attention display report
+  const findDeadLetter = (report: DisplayReport): DeadLetterReport | undefined =>
+    deadLetterReports.find(r => r.localConfirmationNumber === report.confirmationNumber);
+
+  // Start editing a needs-attention report, prefilled with its stored values
+  const handleStartEdit = (report: DisplayReport) => {
+    const deadLetter = findDeadLetter(report);
+    if (!deadLetter) return;
+    setEdits(toEditForm(deadLetter));
+  };
+
+  // Move a needs-attention report back into the sync queue (with any edits)
+  const handleResubmit = async (report: DisplayReport) => {
+    const deadLetter = findDeadLetter(report);
+    const corrections = edits ? toDeadLetterEdits(edits) : undefined;
+    const editError = deadLetter && corrections ? getEditError(deadLetter, corrections) : null;
+    if (editError) {
+      Alert.alert("Check Report", editError);
+      return;
+    }
+    try {
+      const requeued = await resubmitDeadLetter(report.confirmationNumber, corrections);
+      if (!requeued) {
+        Alert.alert("Error", "This report could not be found. Pull down to refresh.");
+        return;
+      }
+      setSelectedReport(null);
+      await loadReports();
+      Alert.alert("Report Re-queued", "Your report will be submitted to DMF on the next sync.");
+    } catch (error) {
+      console.error("Failed to resubmit report:", error);
+      Alert.alert("Error", "Could not resubmit this report. Please try again.");
+    }
+  };
+
+  // Share a needs-attention report as text so it can be filed another way
+  const handleExport = async (report: DisplayReport) => {
+    const deadLetter = findDeadLetter(report);
+    if (!deadLetter) return;
+    try {
+      await Share.share({ message: formatDeadLetterForExport(deadLetter) });
+    } catch (error) {
+      console.error("Share error:", error);
+    }
+  };
+
+  // Permanently discard a needs-attention report after confirmation
+  const handleRemoveDeadLetter = (report: DisplayReport) => {
+    Alert.alert(
+      "Remove Report?",
+      "DMF has no confirmation for this report, so it may not have been received. Removing it deletes your only copy and cannot be undone.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            await removeDeadLetter(report.confirmationNumber);
+            setSelectedReport(null);
+            await loadReports();
+          },
+        },
+      ]
+    );
+  };
+
   // Get combined and sorted display reports - memoized for performance
   const displayReports = useMemo((): DisplayReport[] => {
     const submitted = submittedReports.map(r => convertToDisplayReport(r, "submitted"));
     const queued = queuedReports.map(r => convertToDisplayReport(r, "queued"));
+    const attention = deadLetterReports.map(r => convertToDisplayReport(r, "needs_attention"));
 
     let combined: DisplayReport[];
     switch (filterType) {
@@ -329,8 +505,11 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
       case "pending":
         combined = queued;
         break;
+      case "attention":
+        combined = attention;
+        break;
       default:
-        combined = [...queued, ...submitted]; // Show pending first
+        combined = [...attention, ...queued, ...submitted];
     }
 
     // Apply date range filter
@@ -358,13 +537,16 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
       });
     }
 
-    // Sort by date (most recent first)
+    // Sort by date (most recent first), keeping reports that need attention on top
     return combined.sort((a, b) => {
+      const attentionA = a.type === "needs_attention" ? 1 : 0;
+      const attentionB = b.type === "needs_attention" ? 1 : 0;
+      if (attentionA !== attentionB) return attentionB - attentionA;
       const dateA = new Date(a.submittedAt || a.queuedAt || a.harvestDate).getTime();
       const dateB = new Date(b.submittedAt || b.queuedAt || b.harvestDate).getTime();
       return dateB - dateA;
     });
-  }, [submittedReports, queuedReports, filterType, dateRange]);
+  }, [submittedReports, queuedReports, deadLetterReports, filterType, dateRange]);
 
   // Toggle date filter visibility with animation
   const toggleDateFilter = useCallback(() => {
@@ -435,13 +617,7 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
     if (report.reportType === 'catch_log' && report.fishEntries?.length) {
       return report.fishEntries.reduce((sum, fe) => sum + fe.count, 0);
     }
-    return (
-      report.redDrumCount +
-      report.flounderCount +
-      report.spottedSeatroutCount +
-      report.weakfishCount +
-      report.stripedBassCount
-    );
+    return getTotalFishCount(reportToSpeciesCounts(report));
   }, []);
 
   // Format date — handles both ISO timestamps and date-only strings.
@@ -468,14 +644,9 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
     if (report.reportType === 'catch_log' && report.fishEntries?.length) {
       return report.fishEntries.map(fe => ({ name: fe.species, count: fe.count }));
     }
-    // DMF harvest: use the 5 species count fields
-    const chips: Array<{ name: string; count: number }> = [];
-    if (report.redDrumCount > 0) chips.push({ name: "Red Drum", count: report.redDrumCount });
-    if (report.flounderCount > 0) chips.push({ name: "Flounder", count: report.flounderCount });
-    if (report.spottedSeatroutCount > 0) chips.push({ name: "Seatrout", count: report.spottedSeatroutCount });
-    if (report.weakfishCount > 0) chips.push({ name: "Weakfish", count: report.weakfishCount });
-    if (report.stripedBassCount > 0) chips.push({ name: "Striped Bass", count: report.stripedBassCount });
-    return chips;
+    // DMF harvest: use the species count fields
+    return getSpeciesCountBreakdown(reportToSpeciesCounts(report), 'shortName')
+      .map(({ species, count }) => ({ name: species, count }));
   }, []);
 
   // Memoized keyExtractor for FlatList performance
@@ -486,6 +657,7 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
     const speciesChips = getSpeciesChips(item);
     const totalFish = getTotalFish(item);
     const isPending = item.type === "queued";
+    const needsAttention = item.type === "needs_attention";
     const isCatchLog = item.reportType === 'catch_log';
     const reportImage = getReportImage(item);
     const isUserPhoto = !!item.catchPhoto;
@@ -497,8 +669,8 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
       <TouchableOpacity
         style={[
           styles.reportCard,
-          isCatchLog && !isPending && styles.reportCardCatchLog,
-          isPending && styles.reportCardPending,
+          isCatchLog && !isPending && !needsAttention && styles.reportCardCatchLog,
+          (isPending || needsAttention) && styles.reportCardPending,
         ]}
         onPress={() => setSelectedReport(item)}
         activeOpacity={0.8}
@@ -514,7 +686,11 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
 
         {/* Status Icon - Top Right */}
         <View style={styles.statusIconContainer}>
-          {isPending ? (
+          {needsAttention ? (
+            <View style={styles.attentionStatusBadge}>
+              <Feather name="alert-triangle" size={22} color={theme.colors.danger} />
+            </View>
+          ) : isPending ? (
             <View style={styles.pendingStatusBadge}>
               <Feather name="clock" size={24} color={theme.colors.warning} />
             </View>
@@ -618,9 +794,14 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
         {/* Footer - Confirmation Number or Catch Log label */}
         <View style={[
           styles.confirmationRow,
-          !isPending && styles.confirmationRowBottom
+          !isPending && !needsAttention && styles.confirmationRowBottom
         ]}>
-          {isPending ? (
+          {needsAttention ? (
+            <>
+              <Text style={styles.confirmationLabel}>Status</Text>
+              <Text style={[styles.confirmationNumber, { color: theme.colors.danger }]}>Needs Attention</Text>
+            </>
+          ) : isPending ? (
             <>
               <Text style={styles.confirmationLabel}>Status</Text>
               <Text style={[styles.confirmationNumber, { color: theme.colors.warning }]}>Pending</Text>
@@ -646,12 +827,24 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
           <View style={styles.cardPendingBanner}>
             <Feather name="wifi-off" size={14} color={theme.colors.warning} />
             <Text style={styles.cardPendingBannerText}>
-              {item.retryCount && item.retryCount > 0
+              {item.errorHistory?.[item.errorHistory.length - 1]?.kind === "config"
+                ? "DMF service unavailable — tap for details"
+                : item.retryCount && item.retryCount > 0
                 ? `Sync failed (${item.retryCount}x) — will retry`
                 : "Pending sync to DMF"}
             </Text>
           </View>
         )}
+
+        {/* Needs Attention Banner */}
+        {needsAttention && (
+          <View style={[styles.cardPendingBanner, styles.cardAttentionBanner]}>
+            <Feather name="alert-circle" size={14} color={theme.colors.danger} />
+            <Text style={[styles.cardPendingBannerText, styles.cardAttentionBannerText]}>
+              {`Not submitted after ${item.errorHistory?.length || item.retryCount || 0} attempts — tap to review`}
+            </Text>
+          </View>
+        )}
       </TouchableOpacity>
     );
   }, [getReportImage, getSpeciesChips, getTotalFish]);
@@ -681,22 +874,41 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
             {/* Status Header */}
             <View style={[
               styles.modalStatusHeader,
-              selectedReport?.type === "queued"
+              selectedReport?.type === "needs_attention"
+                ? styles.modalStatusHeaderAttention
+                : selectedReport?.type === "queued"
                 ? styles.modalStatusHeaderPending
                 : styles.modalStatusHeaderSynced
             ]}>
               <Feather
-                name={selectedReport?.type === "queued" ? "clock" : selectedReport?.reportType === "catch_log" ? "camera" : "check-circle"}
+                name={selectedReport?.type === "needs_attention" ? "alert-triangle" : selectedReport?.type === "queued" ? "clock" : selectedReport?.reportType === "catch_log" ? "camera" : "check-circle"}
                 size={24}
                 color={theme.colors.textOnPrimary}
               />
               <Text style={styles.modalStatusText}>
-                {selectedReport?.type === "queued" ? "Pending Sync" : selectedReport?.reportType === "catch_log" ? "Catch Log" : "Submitted to DMF"}
+                {selectedReport?.type === "needs_attention" ? "Needs Attention" : selectedReport?.type === "queued" ? "Pending Sync" : selectedReport?.reportType === "catch_log" ? "Catch Log" : "Submitted to DMF"}
               </Text>
             </View>
 
             {/* Confirmation Number / Status / Catch Log label */}
-            {selectedReport?.type === "queued" ? (
+            {selectedReport?.type === "needs_attention" ? (
+              <View
+                style={[
+                  styles.modalConfirmationBox,
+                  styles.modalConfirmationBoxAttention,
+                ]}
+              >
+                <Text style={[styles.modalConfirmationLabel, styles.modalConfirmationLabelAttention]}>
+                  STATUS
+                </Text>
+                <Text style={[styles.modalConfirmationNumber, styles.modalConfirmationNumberAttention]}>
+                  Not Submitted
+                </Text>
+                <Text style={styles.modalConfirmationHint}>
+                  {getAttentionHint(selectedReport)}
+                </Text>
+              </View>
+            ) : selectedReport?.type === "queued" ? (
               <View
                 style={[
                   styles.modalConfirmationBox,
@@ -710,7 +922,7 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
                   Pending
                 </Text>
                 <Text style={styles.modalConfirmationHint}>
-                  Will sync automatically when online
+                  {getPendingHint(selectedReport)}
                 </Text>
               </View>
             ) : selectedReport?.reportType === "catch_log" ? (
@@ -856,7 +1068,7 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
                     </Text>
                   </View>
                 )}
-                {selectedReport?.type === "queued" && selectedReport.queuedAt && (
+                {selectedReport?.type !== "submitted" && selectedReport?.queuedAt && (
                   <View style={styles.modalDetailRow}>
                     <Text style={styles.modalDetailLabel}>Queued</Text>
                     <Text style={styles.modalDetailValue}>
@@ -900,36 +1112,12 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
                 ) : (
                   // Fallback to showing counts only (older reports without fishEntries)
                   <>
-                    {selectedReport?.redDrumCount ? (
-                      <View style={styles.modalDetailRow}>
-                        <Text style={styles.modalDetailLabel}>Red Drum</Text>
-                        <Text style={styles.modalDetailValue}>{selectedReport.redDrumCount}</Text>
-                      </View>
-                    ) : null}
-                    {selectedReport?.flounderCount ? (
-                      <View style={styles.modalDetailRow}>
-                        <Text style={styles.modalDetailLabel}>Flounder</Text>
-                        <Text style={styles.modalDetailValue}>{selectedReport.flounderCount}</Text>
-                      </View>
-                    ) : null}
-                    {selectedReport?.spottedSeatroutCount ? (
-                      <View style={styles.modalDetailRow}>
-                        <Text style={styles.modalDetailLabel}>Spotted Seatrout</Text>
-                        <Text style={styles.modalDetailValue}>{selectedReport.spottedSeatroutCount}</Text>
-                      </View>
-                    ) : null}
-                    {selectedReport?.weakfishCount ? (
-                      <View style={styles.modalDetailRow}>
-                        <Text style={styles.modalDetailLabel}>Weakfish</Text>
-                        <Text style={styles.modalDetailValue}>{selectedReport.weakfishCount}</Text>
-                      </View>
-                    ) : null}
-                    {selectedReport?.stripedBassCount ? (
-                      <View style={styles.modalDetailRow}>
-                        <Text style={styles.modalDetailLabel}>Striped Bass</Text>
-                        <Text style={styles.modalDetailValue}>{selectedReport.stripedBassCount}</Text>
+                    {selectedReport && getSpeciesCountBreakdown(reportToSpeciesCounts(selectedReport)).map(({ species, count }) => (
+                      <View key={species} style={styles.modalDetailRow}>
+                        <Text style={styles.modalDetailLabel}>{species}</Text>
+                        <Text style={styles.modalDetailValue}>{count}</Text>
                       </View>
-                    ) : null}
+                    ))}
                   </>
                 )}
               </View>
@@ -985,6 +1173,137 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
               </View>
             )}
 
+            {/* Submission Errors + recovery actions (needs attention) */}
+            {selectedReport?.type === "needs_attention" && (
+              <>
+                <View style={styles.modalDetailSection}>
+                  <Text style={styles.modalDetailTitle}>Submission Errors</Text>
+                  <View style={styles.modalDetailTable}>
+                    {(selectedReport.errorHistory?.length
+                      ? selectedReport.errorHistory
+                      : [{ at: selectedReport.deadLetteredAt ?? "", error: selectedReport.lastError ?? "Unknown error" }]
+                    ).map((entry, index) => (
+                      <View key={`error-${index}`} style={styles.modalDetailRow}>
+                        <Text style={styles.modalDetailLabel}>
+                          {entry.at ? formatDate(entry.at) : `Attempt ${index + 1}`}
+                        </Text>
+                        <Text style={[styles.modalDetailValue, styles.modalErrorText]}>{entry.error}</Text>
+                      </View>
+                    ))}
+                  </View>
+                </View>
+
+                {edits && (
+                  <View style={styles.modalDetailSection}>
+                    <Text style={styles.modalDetailTitle}>Correct Report</Text>
+                    {EDIT_TEXT_FIELDS.map(({ field, label, keyboardType, autoCapitalize }) => (
+                      <View key={field} style={styles.modalEditField}>
+                        <Text style={styles.modalEditLabel}>{label}</Text>
+                        <TextInput
+                          style={styles.modalEditInput}
+                          value={edits[field]}
+                          onChangeText={(text) => setEdits(prev => prev && { ...prev, [field]: text })}
+                          autoCapitalize={autoCapitalize ?? "none"}
+                          keyboardType={keyboardType ?? "default"}
+                          placeholderTextColor={theme.colors.textSecondary}
+                          accessibilityLabel={label}
+                        />
+                      </View>
+                    ))}
+
+                    <View style={styles.modalEditField}>
+                      <Text style={styles.modalEditLabel}>Area</Text>
+                      <TouchableOpacity
+                        style={[styles.modalEditInput, styles.modalEditSelect]}
+                        onPress={() => setShowAreaOptions(prev => !prev)}
+                        accessibilityLabel="Area"
+                      >
+                        <Text style={styles.modalEditSelectText}>
+                          {edits.areaLabel ?? getAreaByCode(edits.areaCode)?.label ?? edits.areaCode}
+                        </Text>
+                        <Feather
+                          name={showAreaOptions ? "chevron-up" : "chevron-down"}
+                          size={16}
+                          color={theme.colors.textSecondary}
+                        />
+                      </TouchableOpacity>
+                      {showAreaOptions && AREA_OPTIONS.map(area => (
+                        <TouchableOpacity
+                          key={area.value}
+                          style={styles.modalEditOption}
+                          onPress={() => {
+                            setEdits(prev => prev && { ...prev, areaCode: area.value, areaLabel: area.label });
+                            setShowAreaOptions(false);
+                          }}
+                        >
+                          <Text
+                            style={[
+                              styles.modalEditSelectText,
+                              area.value === edits.areaCode && { color: theme.colors.primary },
+                            ]}
+                          >
+                            {area.label}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+
+                    <Text style={styles.modalEditLabel}>Fish Harvested</Text>
+                    {SPECIES.map(s => (
+                      <View key={s.reportCountField} style={[styles.modalEditField, styles.modalEditCountRow]}>
+                        <Text style={styles.modalEditSelectText}>{s.pickerLabel}</Text>
+                        <TextInput
+                          style={[styles.modalEditInput, styles.modalEditCountInput]}
+                          value={edits.counts[s.reportCountField]}
+                          onChangeText={(text) => setEdits(prev => prev && {
+                            ...prev,
+                            counts: { ...prev.counts, [s.reportCountField]: text.replace(/\D/g, "") },
+                          })}
+                          keyboardType="number-pad"
+                          accessibilityLabel={`${s.pickerLabel} count`}
+                        />
+                      </View>
+                    ))}
+                  </View>
+                )}
+
+                <View style={styles.modalActionRow}>
+                  {!edits && (
+                    <TouchableOpacity
+                      style={styles.modalActionButton}
+                      onPress={() => handleStartEdit(selectedReport)}
+                    >
+                      <Feather name="edit-2" size={16} color={theme.colors.primary} />
+                      <Text style={styles.modalActionButtonText}>Edit</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    style={styles.modalActionButton}
+                    onPress={() => handleExport(selectedReport)}
+                  >
+                    <Feather name="share" size={16} color={theme.colors.primary} />
+                    <Text style={styles.modalActionButtonText}>Export</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.modalActionButton}
+                    onPress={() => handleRemoveDeadLetter(selectedReport)}
+                  >
+                    <Feather name="trash-2" size={16} color={theme.colors.danger} />
+                    <Text style={[styles.modalActionButtonText, { color: theme.colors.danger }]}>Remove</Text>
+                  </TouchableOpacity>
+                </View>
+
+                <TouchableOpacity
+                  style={styles.modalCloseButton}
+                  onPress={() => handleResubmit(selectedReport)}
+                >
+                  <Text style={styles.modalCloseButtonText}>
+                    {edits ? "Save & Resubmit" : "Resubmit"}
+                  </Text>
+                </TouchableOpacity>
+              </>
+            )}
+
             <TouchableOpacity
               style={styles.modalCloseButton}
               onPress={() => setSelectedReport(null)}
@@ -999,8 +1318,10 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
 
   // Render empty state
   const renderEmptyState = () => {
-    const isPending = filterType === "pending";
-    const title = isPending ? "No Reports Pending" : "No Reports Yet";
+    const isPending = filterType === "pending" || filterType === "attention";
+    const title = filterType === "attention"
+      ? "Nothing Needs Attention"
+      : isPending ? "No Reports Pending" : "No Reports Yet";
     const description = isPending
       ? "All your reports have been submitted successfully."
       : filterType === "synced"
@@ -1016,7 +1337,7 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
         />
         <Text style={styles.emptyTitle}>{title}</Text>
         <Text style={styles.emptyText}>{description}</Text>
-        {filterType !== "pending" && (
+        {!isPending && (
           <TouchableOpacity
             style={styles.emptyButton}
             onPress={() => navigation.navigate("ReportForm")}
@@ -1057,6 +1378,22 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
       headerStyle={{ paddingBottom: 12 }}
       noScroll
     >
+      {/* Needs Attention Banner */}
+      {deadLetterReports.length > 0 && (
+        <TouchableOpacity
+          style={[styles.pendingBanner, styles.attentionBanner]}
+          onPress={() => setFilterType("attention")}
+          activeOpacity={0.8}
+        >
+          <View style={styles.pendingBannerContent}>
+            <Feather name="alert-triangle" size={18} color={theme.colors.danger} />
+            <Text style={[styles.pendingBannerText, styles.attentionBannerText]}>
+              {deadLetterReports.length} report{deadLetterReports.length > 1 ? "s" : ""} need{deadLetterReports.length > 1 ? "" : "s"} attention
+            </Text>
+          </View>
+        </TouchableOpacity>
+      )}
+
       {/* Pending Banner */}
       {queuedReports.length > 0 && (
         <View style={styles.pendingBanner}>
@@ -1078,7 +1415,7 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
           onPress={() => setFilterType("all")}
         >
           <Text style={[styles.filterButtonText, filterType === "all" && styles.filterButtonTextActive]}>
-            All ({submittedReports.length + queuedReports.length})
+            All ({submittedReports.length + queuedReports.length + deadLetterReports.length})
           </Text>
         </TouchableOpacity>
 
@@ -1100,6 +1437,23 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
           </Text>
         </TouchableOpacity>
 
+        {deadLetterReports.length > 0 && (
+          <TouchableOpacity
+            style={[styles.filterButton, styles.attentionFilterButton, filterType === "attention" && styles.filterButtonActive]}
+            onPress={() => setFilterType("attention")}
+            accessibilityLabel="Needs attention"
+          >
+            <Feather
+              name="alert-triangle"
+              size={13}
+              color={filterType === "attention" ? theme.colors.textOnPrimary : theme.colors.danger}
+            />
+            <Text style={[styles.filterButtonText, filterType === "attention" && styles.filterButtonTextActive]}>
+              {deadLetterReports.length}
+            </Text>
+          </TouchableOpacity>
+        )}
+
         {/* Date Filter Toggle */}
         <TouchableOpacity
           style={[styles.filterButton, styles.dateFilterToggle, (showDateFilter || hasDateFilter) && styles.dateFilterToggleActive]}
@@ -1185,7 +1539,9 @@ const PastReportsScreen: React.FC<PastReportsScreenProps> = ({ navigation }) =>
             tintColor={theme.colors.primary}
           />
         }
-        ListEmptyComponent={renderEmptyState}
+        // Pass the element: a component defined in render is a new type on
+        // every render, so the empty state would remount each time
+        ListEmptyComponent={renderEmptyState()}
         // Performance optimizations
         removeClippedSubviews={Platform.OS === "android"}
         maxToRenderPerBatch={8}
@@ -1303,6 +1659,14 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     color: "#856404",
     marginLeft: spacing.sm,
   },
+  attentionBanner: {
+    backgroundColor: theme.colors.dangerLight,
+    paddingBottom: spacing.md,
+  },
+  attentionBannerText: {
+    color: theme.colors.danger,
+    fontWeight: "600",
+  },
   pendingBannerHint: {
     ...typography.bodySmall,
     color: "#856404",
@@ -1396,6 +1760,21 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     borderWidth: 3,
     borderColor: theme.colors.white,
   },
+  attentionStatusBadge: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: theme.colors.dangerLight,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 4,
+    borderWidth: 3,
+    borderColor: theme.colors.white,
+  },
   syncedStatusBadge: {
     width: 44,
     height: 44,
@@ -1699,6 +2078,9 @@ const createStyles = (theme: Theme) => StyleSheet.create({
   modalStatusHeaderPending: {
     backgroundColor: theme.colors.warning,
   },
+  modalStatusHeaderAttention: {
+    backgroundColor: theme.colors.danger,
+  },
   modalStatusText: {
     ...typography.h3,
     color: theme.colors.textOnPrimary,
@@ -1718,6 +2100,10 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     backgroundColor: theme.colors.warningLight,
     borderColor: theme.colors.warning,
   },
+  modalConfirmationBoxAttention: {
+    backgroundColor: theme.colors.dangerLight,
+    borderColor: theme.colors.danger,
+  },
   modalConfirmationLabel: {
     fontSize: 11,
     fontWeight: "600",
@@ -1728,6 +2114,9 @@ const createStyles = (theme: Theme) => StyleSheet.create({
   modalConfirmationLabelPending: {
     color: theme.colors.warning,
   },
+  modalConfirmationLabelAttention: {
+    color: theme.colors.danger,
+  },
   modalConfirmationNumber: {
     fontSize: 32,
     fontWeight: "bold",
@@ -1737,6 +2126,11 @@ const createStyles = (theme: Theme) => StyleSheet.create({
   modalConfirmationNumberPending: {
     color: theme.colors.warning,
   },
+  modalConfirmationNumberAttention: {
+    color: theme.colors.danger,
+    fontSize: 24,
+    letterSpacing: 1,
+  },
   modalConfirmationHint: {
     fontSize: 11,
     color: theme.colors.textSecondary,
@@ -1806,6 +2200,67 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     fontWeight: "600",
     flex: 1,
   },
+  modalErrorText: {
+    ...typography.bodySmall,
+    color: theme.colors.danger,
+  },
+  modalEditField: {
+    marginBottom: spacing.sm,
+  },
+  modalEditLabel: {
+    ...typography.bodySmall,
+    color: theme.colors.textSecondary,
+    marginBottom: 4,
+  },
+  modalEditInput: {
+    ...typography.body,
+    color: theme.colors.textPrimary,
+    borderWidth: 1,
+    borderColor: theme.colors.lightGray,
+    borderRadius: borderRadius.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  modalEditSelect: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  modalEditSelectText: {
+    ...typography.body,
+    color: theme.colors.textPrimary,
+  },
+  modalEditOption: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.lightGray,
+  },
+  modalEditCountRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  modalEditCountInput: {
+    width: 64,
+    textAlign: "center",
+  },
+  modalActionRow: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+    marginTop: spacing.sm,
+  },
+  modalActionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+  },
+  modalActionButtonText: {
+    ...typography.button,
+    color: theme.colors.primary,
+  },
   modalCloseButton: {
     backgroundColor: theme.colors.primary,
     borderRadius: borderRadius.md,
@@ -1980,6 +2435,17 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     fontWeight: "500",
     flex: 1,
   },
+  cardAttentionBanner: {
+    backgroundColor: theme.colors.dangerLight,
+  },
+  cardAttentionBannerText: {
+    color: theme.colors.danger,
+  },
+  attentionFilterButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
   // Date Filter styles
   dateFilterToggle: {
     marginLeft: "auto",
@@ -0,0 +1,518 @@
+// screens/PrizeClaimScreen.tsx
+//
+// Prize claim form for rewards drawing winners. The winner confirms their
+// contact and shipping details and accepts the official rules before the
+// claim deadline. Opened from the winner banner on the rewards card or the
+// "prize_won" notification (fishlog://claim/<drawingId>).
+
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import type { StackScreenProps } from '@react-navigation/stack';
+
+import ScreenLayout from '../components/ScreenLayout';
+import { SCREEN_LABELS } from '../constants/screenLabels';
+import { spacing, borderRadius, shadows } from '../styles/common';
+import { useTheme } from '../contexts/ThemeContext';
+import { useThemedStyles } from '../hooks/useThemedStyles';
+import { Theme } from '../styles/theme';
+import { useRewards } from '../contexts/RewardsContext';
+import { safeOpenURL } from '../utils/openURL';
+import type { RootStackParamList } from '../types';
+
+type Props = StackScreenProps<RootStackParamList, 'PrizeClaim'>;
+
+function formatDeadline(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+const PrizeClaimScreen: React.FC<Props> = ({ navigation, route }) => {
+  // Theme
+  const { theme } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { pastDrawings, currentDrawing, isLoading, claimPrize } = useRewards();
+
+  const drawing = pastDrawings.find((d) => d.drawingId === route.params.drawingId) ?? null;
+  const win = drawing?.userWin ?? null;
+  const deadlinePassed = !!win && new Date(win.claimDeadline).getTime() < Date.now();
+
+  // Form state
+  const [fullName, setFullName] = useState('');
+  const [email, setEmail] = useState('');
+  const [phone, setPhone] = useState('');
+  const [addressLine1, setAddressLine1] = useState('');
+  const [addressLine2, setAddressLine2] = useState('');
+  const [city, setCity] = useState('');
+  const [state, setState] = useState('NC');
+  const [postalCode, setPostalCode] = useState('');
+  const [acceptTerms, setAcceptTerms] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+
+  // Validation
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (!fullName.trim()) newErrors.fullName = 'Full name is required';
+    if (!email.trim()) {
+      newErrors.email = 'Email is required';
+    } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+      newErrors.email = 'Please enter a valid email';
+    }
+    if (phone.replace(/\D/g, '').length < 10) newErrors.phone = 'Please enter a valid phone number';
+    if (!addressLine1.trim()) newErrors.addressLine1 = 'Street address is required';
+    if (!city.trim()) newErrors.city = 'City is required';
+    if (!/^[A-Za-z]{2}$/.test(state.trim())) newErrors.state = 'Use a 2-letter state';
+    if (!/^\d{5}(-\d{4})?$/.test(postalCode.trim())) newErrors.postalCode = 'Please enter a valid ZIP code';
+    if (!acceptTerms) newErrors.acceptTerms = 'You must accept the official rules';
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = useCallback(async () => {
+    if (!validate()) return;
+
+    setSubmitting(true);
+    try {
+      await claimPrize(
+        route.params.drawingId,
+        {
+          fullName: fullName.trim(),
+          email: email.trim(),
+          phone: phone.trim(),
+          addressLine1: addressLine1.trim(),
+          addressLine2: addressLine2.trim() || undefined,
+          city: city.trim(),
+          state: state.trim().toUpperCase(),
+          postalCode: postalCode.trim(),
+        },
+        acceptTerms
+      );
+      setSubmitted(true);
+    } catch (error) {
+      Alert.alert(
+        'Claim Failed',
+        error instanceof Error ? error.message : 'An unexpected error occurred. Please try again.'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  }, [route.params.drawingId, fullName, email, phone, addressLine1, addressLine2, city, state, postalCode, acceptTerms, claimPrize]);
+
+  // Status screens (claimed, nothing to claim, expired)
+  const renderStatus = (icon: React.ComponentProps<typeof Feather>['name'], color: string, title: string, message: string) => (
+    <ScreenLayout
+      navigation={navigation}
+      title={SCREEN_LABELS.prizeClaim.title}
+      showBackButton
+    >
+      <View style={styles.successContainer}>
+        <View style={styles.successIcon}>
+          <Feather name={icon} size={56} color={color} />
+        </View>
+        <Text style={styles.successTitle}>{title}</Text>
+        <Text style={styles.successMessage}>{message}</Text>
+        <TouchableOpacity
+          style={styles.successButton}
+          onPress={() => navigation.goBack()}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.successButtonText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+    </ScreenLayout>
+  );
+
+  if (submitted || win?.claimStatus === 'claimed' || win?.claimStatus === 'fulfilled') {
+    return renderStatus(
+      'check-circle',
+      theme.colors.success,
+      win?.claimStatus === 'fulfilled' ? 'Prize Sent!' : 'Prize Claimed!',
+      win?.claimStatus === 'fulfilled'
+        ? 'Your prize is on its way. Thanks for reporting your catches!'
+        : "We've got your details and will be in touch about delivering your prize."
+    );
+  }
+
+  if (isLoading && !drawing) {
+    return (
+      <ScreenLayout navigation={navigation} title={SCREEN_LABELS.prizeClaim.title} showBackButton>
+        <View style={styles.successContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      </ScreenLayout>
+    );
+  }
+
+  if (!drawing || !win) {
+    return renderStatus(
+      'help-circle',
+      theme.colors.mediumGray,
+      'Nothing to Claim',
+      "We couldn't find a prize for you in this drawing."
+    );
+  }
+
+  if (win.claimStatus === 'forfeited' || deadlinePassed) {
+    return renderStatus(
+      'clock',
+      theme.colors.warning,
+      'Claim Period Ended',
+      `The deadline to claim your ${drawing.name} prize has passed, so it will go to an alternate winner.`
+    );
+  }
+
+  return (
+    <ScreenLayout
+      navigation={navigation}
+      title={SCREEN_LABELS.prizeClaim.title}
+      subtitle={SCREEN_LABELS.prizeClaim.subtitle}
+      showBackButton
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={{ flex: 1 }}
+      >
+        <View style={styles.formContainer}>
+          {/* Prize summary */}
+          <View style={styles.introCard}>
+            <Feather name="gift" size={16} color={theme.colors.primary} />
+            <View style={{ flex: 1 }}>
+              <Text style={styles.introTitle}>
+                You won {win.prizeName ?? 'a prize'} in the {drawing.name} drawing!
+              </Text>
+              <Text style={styles.introText}>
+                Claim by {formatDeadline(win.claimDeadline)}. Unclaimed prizes go to an alternate winner.
+              </Text>
+            </View>
+          </View>
+
+          {/* Full Name */}
+          <View style={styles.fieldGroup}>
+            <Text style={styles.label}>Full Name *</Text>
+            <TextInput
+              style={[styles.input, errors.fullName && styles.inputError]}
+              value={fullName}
+              onChangeText={setFullName}
+              placeholder="As it appears on your ID"
+              placeholderTextColor={theme.colors.mediumGray}
+              autoComplete="name"
+            />
+            {errors.fullName && (
+              <Text style={styles.errorText}>{errors.fullName}</Text>
+            )}
+          </View>
+
+          {/* Email */}
+          <View style={styles.fieldGroup}>
+            <Text style={styles.label}>Email *</Text>
+            <TextInput
+              style={[styles.input, errors.email && styles.inputError]}
+              value={email}
+              onChangeText={setEmail}
+              placeholder="you@example.com"
+              placeholderTextColor={theme.colors.mediumGray}
+              keyboardType="email-address"
+              autoCapitalize="none"
+              autoComplete="email"
+            />
+            {errors.email && (
+              <Text style={styles.errorText}>{errors.email}</Text>
+            )}
+          </View>
+
+          {/* Phone */}
+          <View style={styles.fieldGroup}>
+            <Text style={styles.label}>Phone *</Text>
+            <TextInput
+              style={[styles.input, errors.phone && styles.inputError]}
+              value={phone}
+              onChangeText={setPhone}
+              placeholder="(252) 555-0123"
+              placeholderTextColor={theme.colors.mediumGray}
+              keyboardType="phone-pad"
+              autoComplete="tel"
+            />
+            {errors.phone && (
+              <Text style={styles.errorText}>{errors.phone}</Text>
+            )}
+          </View>
+
+          {/* Street Address */}
+          <View style={styles.fieldGroup}>
+            <Text style={styles.label}>Shipping Address *</Text>
+            <TextInput
+              style={[styles.input, errors.addressLine1 && styles.inputError]}
+              value={addressLine1}
+              onChangeText={setAddressLine1}
+              placeholder="Street address"
+              placeholderTextColor={theme.colors.mediumGray}
+              autoComplete="street-address"
+            />
+            {errors.addressLine1 && (
+              <Text style={styles.errorText}>{errors.addressLine1}</Text>
+            )}
+            <TextInput
+              style={[styles.input, styles.inputSpaced]}
+              value={addressLine2}
+              onChangeText={setAddressLine2}
+              placeholder="Apt, suite, etc. (optional)"
+              placeholderTextColor={theme.colors.mediumGray}
+            />
+          </View>
+
+          {/* City / State / ZIP */}
+          <View style={styles.fieldRow}>
+            <View style={[styles.fieldGroup, { flex: 2 }]}>
+              <Text style={styles.label}>City *</Text>
+              <TextInput
+                style={[styles.input, errors.city && styles.inputError]}
+                value={city}
+                onChangeText={setCity}
+                placeholderTextColor={theme.colors.mediumGray}
+              />
+              {errors.city && (
+                <Text style={styles.errorText}>{errors.city}</Text>
+              )}
+            </View>
+            <View style={[styles.fieldGroup, { flex: 1 }]}>
+              <Text style={styles.label}>State *</Text>
+              <TextInput
+                style={[styles.input, errors.state && styles.inputError]}
+                value={state}
+                onChangeText={setState}
+                autoCapitalize="characters"
+                maxLength={2}
+              />
+              {errors.state && (
+                <Text style={styles.errorText}>{errors.state}</Text>
+              )}
+            </View>
+            <View style={[styles.fieldGroup, { flex: 1.4 }]}>
+              <Text style={styles.label}>ZIP *</Text>
+              <TextInput
+                style={[styles.input, errors.postalCode && styles.inputError]}
+                value={postalCode}
+                onChangeText={setPostalCode}
+                keyboardType="number-pad"
+                maxLength={10}
+                autoComplete="postal-code"
+              />
+              {errors.postalCode && (
+                <Text style={styles.errorText}>{errors.postalCode}</Text>
+              )}
+            </View>
+          </View>
+
+          {/* Official rules */}
+          <TouchableOpacity
+            style={styles.termsRow}
+            onPress={() => setAcceptTerms((v) => !v)}
+            activeOpacity={0.7}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: acceptTerms }}
+          >
+            <Feather
+              name={acceptTerms ? 'check-square' : 'square'}
+              size={20}
+              color={errors.acceptTerms ? theme.colors.error : theme.colors.primary}
+            />
+            <Text style={styles.termsText}>
+              I confirm these details are correct and accept the official rules, including
+              eligibility verification before the prize is delivered.
+            </Text>
+          </TouchableOpacity>
+          {errors.acceptTerms && (
+            <Text style={styles.errorText}>{errors.acceptTerms}</Text>
+          )}
+          {currentDrawing?.rulesUrl && (
+            <TouchableOpacity
+              onPress={() => safeOpenURL(currentDrawing.rulesUrl!)}
+              style={styles.rulesLink}
+            >
+              <Feather name="file-text" size={14} color={theme.colors.primary} />
+              <Text style={styles.rulesLinkText}>Read the official rules</Text>
+            </TouchableOpacity>
+          )}
+
+          {/* Submit button */}
+          <TouchableOpacity
+            style={[styles.submitButton, submitting && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={submitting}
+            activeOpacity={0.8}
+          >
+            {submitting ? (
+              <ActivityIndicator size="small" color={theme.colors.textOnPrimary} />
+            ) : (
+              <>
+                <Feather name="gift" size={18} color={theme.colors.textOnPrimary} />
+                <Text style={styles.submitButtonText}>Claim Prize</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </ScreenLayout>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  formContainer: {
+    padding: spacing.md,
+    paddingBottom: spacing.xxl,
+  },
+  introCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: 'rgba(11, 84, 139, 0.06)',
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.lg,
+    gap: spacing.sm,
+  },
+  introTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: theme.colors.black,
+    marginBottom: 4,
+  },
+  introText: {
+    fontSize: 13,
+    color: theme.colors.darkGray,
+    lineHeight: 19,
+  },
+  fieldGroup: {
+    marginBottom: spacing.md,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.black,
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: theme.colors.pearlWhite,
+    borderWidth: 1.5,
+    borderColor: 'rgba(11, 84, 139, 0.12)',
+    borderRadius: borderRadius.sm,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: theme.colors.black,
+  },
+  inputSpaced: {
+    marginTop: spacing.xs,
+  },
+  inputError: {
+    borderColor: theme.colors.error,
+  },
+  errorText: {
+    fontSize: 11,
+    color: theme.colors.error,
+    marginTop: 4,
+  },
+  termsRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: spacing.sm,
+    marginTop: spacing.xs,
+  },
+  termsText: {
+    flex: 1,
+    fontSize: 13,
+    color: theme.colors.darkGray,
+    lineHeight: 19,
+  },
+  rulesLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: spacing.sm,
+    marginLeft: 28,
+  },
+  rulesLinkText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.primary,
+  },
+  submitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: theme.colors.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: 16,
+    marginTop: spacing.lg,
+    gap: spacing.xs,
+    ...shadows.small,
+  },
+  submitButtonDisabled: {
+    opacity: 0.7,
+  },
+  submitButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: theme.colors.textOnPrimary,
+  },
+  // Status states
+  successContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: spacing.xl,
+    paddingBottom: 60,
+  },
+  successIcon: {
+    marginBottom: spacing.lg,
+  },
+  successTitle: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: theme.colors.black,
+    marginBottom: spacing.sm,
+  },
+  successMessage: {
+    fontSize: 15,
+    color: theme.colors.darkGray,
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: spacing.xl,
+  },
+  successButton: {
+    backgroundColor: theme.colors.primary,
+    paddingHorizontal: 28,
+    paddingVertical: 14,
+    borderRadius: borderRadius.md,
+    ...shadows.small,
+  },
+  successButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.colors.textOnPrimary,
+  },
+});
+
+export default PrizeClaimScreen;
@@ -50,7 +50,7 @@ import {
   deleteAccount,
   onAuthStateChange,
 } from "../services/authService";
-import { getCurrentUser, updateCurrentUser, getUserStats, syncToUserProfile } from "../services/userProfileService";
+import { getCurrentUser, updateCurrentUser, updateUserInSupabase, getUserStats, syncToUserProfile } from "../services/userProfileService";
 import { clearAllUserData } from "../services/userService";
 import { isSupabaseConnected } from "../config/supabase";
 import { isRewardsMember } from "../services/rewardsConversionService";
@@ -70,6 +70,9 @@ import ProfileAchievements from "./profile/ProfileAchievements";
 import { useFloatingHeaderAnimation } from "../hooks/useFloatingHeaderAnimation";
 import FloatingBackButton from "../components/FloatingBackButton";
 import UnsavedChangesModal from "../components/UnsavedChangesModal";
+import FeedPrivacyPicker from "../components/FeedPrivacyPicker";
+import BlockedAccountsList from "../components/BlockedAccountsList";
+import { FeedPrivacySettings } from "../types/catchFeed";
 
 const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
   const { theme, themeMode, setThemeMode, darkModeAvailable } = useTheme();
@@ -680,6 +683,30 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
     }
   };
 
+  // Save Catch Feed privacy defaults. Written straight to Supabase (not the
+  // cache-only fallback in updateCurrentUser) so a failed save is reported
+  // instead of the angler believing their spots are hidden.
+  const handleFeedPrivacyChange = async (
+    next: Partial<FeedPrivacySettings> & { isPrivate?: boolean },
+  ) => {
+    if (!rewardsMemberUser) return;
+    const previous = rewardsMemberUser;
+    setRewardsMemberUser({ ...previous, ...next });
+    try {
+      const updated = await updateUserInSupabase(previous.id, {
+        locationPrecision: next.locationPrecision,
+        publishDelayDays: next.publishDelayDays,
+        isPrivate: next.isPrivate,
+      });
+      setRewardsMemberUser(updated);
+      await clearCatchFeedCache();
+    } catch (error) {
+      console.error('Failed to save feed privacy:', error);
+      setRewardsMemberUser(previous);
+      Alert.alert('Error', 'Failed to save your feed privacy settings. Please try again.');
+    }
+  };
+
   // Handle sign out
   const handleSignOut = () => {
     Alert.alert(
@@ -1669,6 +1696,33 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
           </View>
         )}
 
+        {/* Catch Feed Privacy Section - rewards members share catches in the feed */}
+        {!loading && rewardsMember && rewardsMemberUser && (
+          <View style={styles.infoSection} testID="feed-privacy-section">
+            <Text style={styles.infoSectionTitle}>Catch Feed Privacy</Text>
+            <Text style={localStyles.feedPrivacyDesc}>
+              Defaults for catches you share. You can change them on each report.
+            </Text>
+            <FeedPrivacyPicker
+              value={{
+                locationPrecision: rewardsMemberUser.locationPrecision,
+                publishDelayDays: rewardsMemberUser.publishDelayDays,
+              }}
+              onChange={handleFeedPrivacyChange}
+              isPrivate={rewardsMemberUser.isPrivate}
+              onPrivateChange={(isPrivate) => handleFeedPrivacyChange({ isPrivate })}
+            />
+          </View>
+        )}
+
+        {/* Blocked Accounts Section */}
+        {!loading && rewardsMember && rewardsMemberUser && (
+          <View style={styles.infoSection} testID="blocked-accounts-section">
+            <Text style={styles.infoSectionTitle}>Blocked Accounts</Text>
+            <BlockedAccountsList userId={rewardsMemberUser.id} />
+          </View>
+        )}
+
         {/* License Status Section */}
         <View style={styles.infoSection}>
           <Text style={styles.infoSectionTitle}>License Status</Text>
@@ -20,11 +20,13 @@ import {
   Keyboard,
   Platform,
   StatusBar,
+  ActivityIndicator,
 } from "react-native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Feather } from "@expo/vector-icons";
 import DateTimePicker from "@react-native-community/datetimepicker";
 import * as ImagePicker from "expo-image-picker";
+import * as Location from "expo-location";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { HEADER_HEIGHT } from "../constants/ui";
 import { useFloatingHeaderAnimation } from '../hooks/useFloatingHeaderAnimation';
@@ -42,7 +44,10 @@ import StatusBarScrollBlur from "../components/StatusBarScrollBlur";
 
 // DMF constants
 import { AREA_LABELS, getAreaCodeFromLabel } from "../constants/areaOptions";
+import { findNearestArea, GeoPoint } from "../constants/areaLookup";
 import { NON_HOOK_GEAR_LABELS, getGearCodeFromLabel } from "../constants/gearOptions";
+import { aggregateFishEntries, speciesCountsToReport } from "../constants/species";
+import { checkHarvestRegulations } from "../utils/harvestRegulations";
 import { isTestMode } from "../config/appConfig";
 
 // Rewards context
@@ -63,7 +68,7 @@ import { onAuthStateChange } from "../services/authService";
 import SpeciesSearchPicker, { type SpeciesSelection } from "../components/SpeciesSearchPicker";
 
 // Species data for harvest status
-import { useAllFishSpecies } from '../api/speciesApi';
+import { useAllFishSpecies, useRegulationRecords } from '../api/speciesApi';
 import { SpeciesListBulletinIndicator } from '../components/SpeciesListBulletinIndicator';
 
 // ZIP code lookup
@@ -80,6 +85,8 @@ import AbandonConfirmModal from './reportForm/AbandonConfirmModal';
 import FaqModal from './reportForm/FaqModal';
 import AreaInfoModal from './reportForm/AreaInfoModal';
 import RaffleEntryModal from './reportForm/RaffleEntryModal';
+import FeedPrivacyPicker from '../components/FeedPrivacyPicker';
+import type { FeedPrivacySettings, PostVisibility } from '../types/catchFeed';
 
 
 // Species that require mandatory harvest reporting.
@@ -87,6 +94,10 @@ import RaffleEntryModal from './reportForm/RaffleEntryModal';
 // The aggregation layer (getSpeciesCountKey) handles mapping back to DMF fields.
 const REPORT_SPECIES = ['Red Drum', 'Flounder', 'Spotted Seatrout', 'Striped Bass', 'Weakfish'];
 
+// GPS fixes taken at a dock or ramp fall just outside the water, so the
+// "use my location" area suggestion accepts the nearest area within this radius.
+const AREA_SUGGESTION_RADIUS_MILES = 1;
+
 
 const ReportFormScreen: React.FC<ReportFormScreenProps> = ({ navigation }) => {
   const { theme } = useTheme();
@@ -125,6 +136,13 @@ const ReportFormScreen: React.FC<ReportFormScreenProps> = ({ navigation }) => {
   // DMF harvest_report mode is unaffected; that path accepts anonymous users.
   const [isRewardsEnrolled, setIsRewardsEnrolled] = useState<boolean | null>(null);
 
+  // Catch Feed privacy overrides for this report. Only offered to rewards
+  // members (the only anglers whose catches appear in the feed); unset
+  // fields fall back to the profile settings server-side.
+  const [feedPrivacy, setFeedPrivacy] = useState<Partial<FeedPrivacySettings>>({});
+  // Who can see a catch_log post (DMF harvest reports are always public)
+  const [postVisibility, setPostVisibility] = useState<PostVisibility>('public');
+
   // State for multiple fish entries
   const [fishEntries, setFishEntries] = useState<FishEntry[]>([]);
   const [currentFishIndex, setCurrentFishIndex] = useState<number | null>(null);
@@ -225,6 +243,7 @@ const ReportFormScreen: React.FC<ReportFormScreenProps> = ({ navigation }) => {
 
   // Fetch species data for harvest status annotations
   const { data: allSpecies = [] } = useAllFishSpecies();
+  const { data: regulationRecords = [] } = useRegulationRecords();
 
   const speciesPickerItems = useMemo(() => {
     if (allSpecies.length === 0) {
@@ -637,6 +656,11 @@ const ReportFormScreen: React.FC<ReportFormScreenProps> = ({ navigation }) => {
   // State for Area of Harvest info modal
   const [showAreaInfoModal, setShowAreaInfoModal] = useState<boolean>(false);
 
+  // GPS fix captured via "Use my location" (suggests the Area of Harvest)
+  const [harvestCoordinates, setHarvestCoordinates] = useState<GeoPoint | null>(null);
+  const [isLocating, setIsLocating] = useState<boolean>(false);
+  const [suggestedAreaLabel, setSuggestedAreaLabel] = useState<string | null>(null);
+
   // State for FAQ modal
   const [showFaqModal, setShowFaqModal] = useState<boolean>(false);
 
@@ -780,6 +804,51 @@ const ReportFormScreen: React.FC<ReportFormScreenProps> = ({ navigation }) => {
     }
   };
 
+  // Suggest the Area of Harvest from the device's current GPS fix.
+  const handleUseMyLocation = async (): Promise<void> => {
+    const permissionResult = await Location.requestForegroundPermissionsAsync();
+
+    if (!permissionResult.granted) {
+      Alert.alert(
+        "Location Permission Required",
+        "Please allow location access so we can suggest the area you're fishing in."
+      );
+      return;
+    }
+
+    setIsLocating(true);
+    try {
+      const position = await Location.getCurrentPositionAsync({
+        accuracy: Location.Accuracy.Balanced,
+      });
+      const coordinates: GeoPoint = {
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+      };
+      setHarvestCoordinates(coordinates);
+
+      const area = findNearestArea(coordinates, AREA_SUGGESTION_RADIUS_MILES)?.area;
+      if (!area) {
+        setSuggestedAreaLabel(null);
+        Alert.alert(
+          "No Area Found",
+          "Your location isn't inside a DMF harvest area. Please select the area where the fish were harvested."
+        );
+        return;
+      }
+
+      setSuggestedAreaLabel(area.label);
+      setFormData(prev => ({ ...prev, waterbody: area.label }));
+    } catch (error) {
+      Alert.alert(
+        "Location Unavailable",
+        "We couldn't get your location. Please select the area of harvest from the list."
+      );
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
   const handleDateChange = (event: any, selectedDate?: Date): void => {
     if (Platform.OS === 'android') {
       // Android native picker: close modal and apply date if OK was pressed
@@ -1379,6 +1448,8 @@ const ReportFormScreen: React.FC<ReportFormScreenProps> = ({ navigation }) => {
         gearCode: formData.usedHookAndLine ? undefined : getGearCodeFromLabel(formData.gearType),
         gearLabel: formData.usedHookAndLine ? undefined : formData.gearType || undefined,
         photoUris: catchPhotos.length > 0 ? catchPhotos : undefined,
+        feedPrivacy: isRewardsEnrolled ? feedPrivacy : undefined,
+        visibility: postVisibility,
       };
 
       const result = await submitCatchLog(catchLogInput, {
@@ -1513,6 +1584,41 @@ const ReportFormScreen: React.FC<ReportFormScreenProps> = ({ navigation }) => {
       return;
     }
 
+    // Regulation checks warn but never block — the angler can submit anyway.
+    // Rules are resolved for the harvest date and area, so back-filled
+    // reports are checked against the rules of that day.
+    const isFamily = formData.reportingType === "myself_and_minors";
+    const counts = aggregateFishEntries(allFish);
+    const regulationWarnings = checkHarvestRegulations(
+      {
+        harvestDate: formData.date,
+        areaCode: formData.waterbody ? getAreaCodeFromLabel(formData.waterbody) : undefined,
+        ...speciesCountsToReport(counts),
+        reportingFor: isFamily ? "family" : "self",
+        familyCount: isFamily ? formData.totalPeopleCount : undefined,
+        fishEntries: allFish,
+      },
+      allSpecies,
+      regulationRecords
+    );
+
+    if (regulationWarnings.length > 0) {
+      Alert.alert(
+        "Check Regulations",
+        `${regulationWarnings.map(w => `• ${w.message}`).join("\n")}\n\nDouble-check your report. You can still submit it if it's correct.`,
+        [
+          { text: "Go Back", style: "cancel" },
+          { text: "Submit Anyway", onPress: () => submitReport(allFish) },
+        ]
+      );
+      return;
+    }
+
+    submitReport(allFish);
+  };
+
+  // Save preferences, raffle entry and navigate to Confirmation
+  const submitReport = (allFish: FishEntry[]): void => {
     // Note: Raffle validation is now handled in the raffle modal
     // enterRaffle will only be true if user completed all raffle requirements in the modal
 
@@ -1600,6 +1706,7 @@ const ReportFormScreen: React.FC<ReportFormScreenProps> = ({ navigation }) => {
       // Include raffle entry status and photo
       enteredRaffle: enterRaffle && !hasEnteredCurrentRaffle ? currentRewards.id : undefined,
       photo: catchPhoto || undefined,
+      feedPrivacy: isRewardsEnrolled ? feedPrivacy : undefined,
       // DMF-specific fields for harvest report submission
       hasLicense: formData.hasLicense,
       wrcId: formData.wrcId,
@@ -1609,6 +1716,7 @@ const ReportFormScreen: React.FC<ReportFormScreenProps> = ({ navigation }) => {
       // DMF codes for submission (converted from display labels)
       areaCode: getAreaCodeFromLabel(formData.waterbody),
       areaLabel: formData.waterbody,
+      coordinates: harvestCoordinates || undefined,
       gearCode: formData.usedHookAndLine ? undefined : getGearCodeFromLabel(formData.gearType),
       gearLabel: formData.usedHookAndLine ? undefined : formData.gearType,
       // Confirmation preferences
@@ -2349,6 +2457,28 @@ const ReportFormScreen: React.FC<ReportFormScreenProps> = ({ navigation }) => {
               <Text style={styles.selectorArrow}>▼</Text>
             </TouchableOpacity>
 
+            <TouchableOpacity
+              style={localStyles.locationSuggestButton}
+              onPress={handleUseMyLocation}
+              disabled={isLocating}
+              accessibilityRole="button"
+              accessibilityLabel="Use my location to suggest area of harvest"
+            >
+              {isLocating ? (
+                <ActivityIndicator size="small" color={theme.colors.primary} />
+              ) : (
+                <Feather name="navigation" size={16} color={theme.colors.primary} />
+              )}
+              <Text style={localStyles.locationSuggestText}>
+                {isLocating ? "Finding your area..." : "Use my location"}
+              </Text>
+            </TouchableOpacity>
+            {suggestedAreaLabel && formData.waterbody === suggestedAreaLabel && (
+              <Text style={localStyles.locationSuggestHint}>
+                Suggested from your location — change it if you harvested elsewhere.
+              </Text>
+            )}
+
             {/* Save as primary area checkbox - only show after area is selected */}
             {formData.waterbody && (
               <TouchableOpacity
@@ -2485,6 +2615,23 @@ const ReportFormScreen: React.FC<ReportFormScreenProps> = ({ navigation }) => {
         {!formData.usedHookAndLine && (
           renderPickerField("Gear Type", "gearType", true)
         )}
+
+        {/* Catch Feed privacy - rewards members' catches are shared in the feed */}
+        {isRewardsEnrolled === true && (
+          <View testID="feed-privacy-section">
+            <Text style={styles.label}>Catch Feed Privacy</Text>
+            <Text style={localStyles.helperText}>
+              Choose what other anglers see for this catch. Your exact spot and GPS are never shared.
+            </Text>
+            <FeedPrivacyPicker
+              value={feedPrivacy}
+              onChange={setFeedPrivacy}
+              allowInherit
+              visibility={postVisibility}
+              onVisibilityChange={isCatchLog ? setPostVisibility : undefined}
+            />
+          </View>
+        )}
       </View>
       )}
 
@@ -1,9 +1,11 @@
 // services/blocksService.ts
 //
 // Backend access for the mutual-hide block list (user_blocks table).
-// The v_catch_feed view and get_following_feed RPC both filter the bidirectional
-// block set automatically, so the only client-side concern is mutating the
-// list and re-fetching dependent queries.
+// The database enforces blocks in both directions (supabase/migrations/
+// user_blocks.sql): v_catch_feed, get_following_feed and catch_comments
+// drop the other angler, and blocking removes follows and follow requests
+// between the pair. Leaderboards filter blocks too (get_leaderboard_rankings);
+// fetchBlockedUserIds() is for anything the database doesn't filter.
 
 import { supabase } from '../config/supabase';
 
@@ -62,3 +64,72 @@ export async function isUserBlocked(
   }
   return !!data;
 }
+
+export interface BlockedAccount {
+  userId: string;
+  displayName: string;
+  profileImage?: string;
+  blockedAt: string;
+}
+
+interface RawBlockedRow {
+  created_at: string;
+  users: {
+    id: string;
+    first_name: string | null;
+    last_name: string | null;
+    profile_image_url: string | null;
+  } | null;
+}
+
+/**
+ * Fetch the anglers the current user has blocked, most recent first. Used by
+ * the "Blocked Accounts" list on the profile screen.
+ */
+export async function fetchBlockedAccounts(currentUserId: string): Promise<BlockedAccount[]> {
+  const { data, error } = await supabase
+    .from('user_blocks')
+    .select(`
+      created_at,
+      users:blocked_id (
+        id,
+        first_name,
+        last_name,
+        profile_image_url
+      )
+    `)
+    .eq('blocker_id', currentUserId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch blocked accounts: ${error.message}`);
+  }
+
+  return ((data ?? []) as unknown as RawBlockedRow[])
+    .filter((r) => !!r.users)
+    .map((r) => {
+      const user = r.users!;
+      const firstName = user.first_name || 'Anonymous';
+      const lastInitial = user.last_name ? `${user.last_name.charAt(0)}.` : '';
+      return {
+        userId: user.id,
+        displayName: `${firstName} ${lastInitial}`.trim(),
+        profileImage: user.profile_image_url ?? undefined,
+        blockedAt: r.created_at,
+      };
+    });
+}
+
+/**
+ * Ids of every angler the caller has blocked or been blocked by. Blocks made
+ * against the caller aren't readable directly, so this goes through the
+ * get_blocked_user_ids RPC.
+ */
+export async function fetchBlockedUserIds(): Promise<Set<string>> {
+  const { data, error } = await supabase.rpc('get_blocked_user_ids');
+
+  if (error) {
+    throw new Error(`Failed to fetch blocked users: ${error.message}`);
+  }
+  return new Set(((data ?? []) as string[]));
+}
@@ -11,13 +11,33 @@ import {
   AnglerProfile,
   SpeciesCatch,
   TopAngler,
+  FeedCursor,
+  CatchFeedFilter,
+  PostVisibility,
+  ReportReasonCode,
+  CatchReaction,
+  ReactionCounts,
+  toFeedCursor,
+  feedFilterKey,
   transformToCatchFeedEntry,
 } from '../types/catchFeed';
+import {
+  SPECIES,
+  getSpeciesCountBreakdown,
+  rowToSpeciesCounts,
+} from '../constants/species';
+import { getRegionAreaCodes } from '../constants/regionOptions';
+import { DEFAULT_REACTION } from '../constants/reactions';
+import { TOP_ANGLERS_PERIOD } from '../constants/leaderboard';
+import { LeaderboardMetric } from '../types/leaderboard';
+import { fetchLeaderboard } from './leaderboardService';
 
 // Storage keys for caching
 const STORAGE_KEYS = {
   feedCache: '@catch_feed_cache',
   feedCacheTimestamp: '@catch_feed_cache_timestamp',
+  // feedFilterKey() of the cached page; only the latest filter is cached
+  feedCacheFilter: '@catch_feed_cache_filter',
 } as const;
 
 // Cache duration: 5 minutes
@@ -26,11 +46,102 @@ const CACHE_DURATION_MS = 5 * 60 * 1000;
 // Default page size for pagination (similar to Instagram ~10-15 posts per load)
 const DEFAULT_PAGE_SIZE = 12;
 
+// Most new catches prepended at once; past this the feed reloads from the top
+const NEWER_CATCHES_LIMIT = 50;
+
 /** Pagination result type */
 export interface PaginatedCatchFeed {
   entries: CatchFeedEntry[];
   hasMore: boolean;
-  nextOffset: number;
+  /** Pass back as `cursor` to load the next (older) page; null when there are no rows */
+  nextCursor: FeedCursor | null;
+}
+
+/** Catches newer than the head of the feed */
+export interface NewerCatches {
+  entries: CatchFeedEntry[];
+  /** More new catches than were fetched; reload from the top instead of prepending */
+  hasMore: boolean;
+}
+
+// =============================================================================
+// Keyset Filters
+// =============================================================================
+
+/**
+ * PostgREST `or` filter for rows strictly older than the cursor in
+ * (created_at DESC, report_id DESC) order. Timestamps are quoted because they
+ * contain reserved characters (`:` and `+`).
+ */
+function olderThanFilter(cursor: FeedCursor): string {
+  return `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",report_id.lt.${cursor.id})`;
+}
+
+/**
+ * PostgREST `or` filter for rows strictly newer than the cursor.
+ */
+function newerThanFilter(cursor: FeedCursor): string {
+  return `created_at.gt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",report_id.gt.${cursor.id})`;
+}
+
+/** The day after a YYYY-MM-DD date, so `dateTo` includes the whole day */
+function nextDay(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+}
+
+/**
+ * PostgREST `or` conditions matching a species. Harvest reports set the count
+ * column; catch logs leave counts at zero and only list the species in
+ * fish_entries_json, under the picker or catalog name.
+ */
+function speciesConditions(info: (typeof SPECIES)[number]): string[] {
+  const names = new Set<string>([info.displayName, info.pickerLabel, info.catalogName]);
+  return [
+    `${info.dbCountColumn}.gt.0`,
+    ...Array.from(names).map(name =>
+      `fish_entries_json.cs.${JSON.stringify(JSON.stringify([{ species: name }]))}`
+    ),
+  ];
+}
+
+type FeedQuery = ReturnType<ReturnType<typeof supabase.from>['select']>;
+
+/**
+ * Apply a CatchFeedFilter to a v_catch_feed query.
+ */
+function applyFeedFilter<Q extends FeedQuery>(query: Q, filter: CatchFeedFilter): Q {
+  let filtered = query;
+
+  if (filter.species && filter.species.length > 0) {
+    const conditions = SPECIES
+      .filter(info => filter.species!.includes(info.countKey))
+      .flatMap(speciesConditions);
+    filtered = filtered.or(conditions.join(','));
+  }
+  if (filter.areaCode) {
+    filtered = filtered.eq('area_code', filter.areaCode);
+  }
+  if (filter.region) {
+    // region_code covers "region only" rows, whose area_code the view hides;
+    // area_code also catches exact rows in areas shared with another region
+    const areaCodes = getRegionAreaCodes(filter.region).join(',');
+    filtered = filtered.or(`region_code.eq.${filter.region},area_code.in.(${areaCodes})`);
+  }
+  if (filter.dateFrom) {
+    filtered = filtered.gte('harvest_date', filter.dateFrom);
+  }
+  if (filter.dateTo) {
+    filtered = filtered.lt('harvest_date', nextDay(filter.dateTo));
+  }
+  if (filter.hasPhoto) {
+    filtered = filtered.not('photo_url', 'is', null);
+  }
+  if (filter.reportType) {
+    filtered = filtered.eq('report_type', filter.reportType);
+  }
+
+  return filtered;
 }
 
 // =============================================================================
@@ -38,125 +149,175 @@ export interface PaginatedCatchFeed {
 // =============================================================================
 
 /**
- * Fetch recent catches from rewards-enrolled users with pagination.
+ * Transform a v_catch_feed row to a CatchFeedEntry.
+ * Returns null for reports with no fish.
+ */
+function transformFeedRow(row: any): CatchFeedEntry | null {
+  // Extract user name info
+  const firstName = row.first_name || 'Anonymous';
+  const lastInitial = row.last_name ? `${row.last_name.charAt(0)}.` : '';
+  const anglerName = `${firstName} ${lastInitial}`.trim();
+
+  // Parse fish entries from the JSON array in the view
+  let speciesList: SpeciesCatch[] = [];
+  if (row.fish_entries_json && Array.isArray(row.fish_entries_json)) {
+    speciesList = row.fish_entries_json.map((fe: any) => ({
+      species: fe.species,
+      count: fe.count,
+      lengths: fe.lengths || undefined,
+      tagNumber: fe.tag_number || undefined,
+    }));
+  } else if (typeof row.fish_entries_json === 'string') {
+    // Handle JSON string if needed
+    try {
+      const parsed = JSON.parse(row.fish_entries_json);
+      if (Array.isArray(parsed)) {
+        speciesList = parsed.map((fe: any) => ({
+          species: fe.species,
+          count: fe.count,
+          lengths: fe.lengths || undefined,
+          tagNumber: fe.tag_number || undefined,
+        }));
+      }
+    } catch {
+      // Fall back to aggregate counts if JSON parsing fails
+      speciesList = [];
+    }
+  }
+
+  // Fallback: collect species from aggregate count columns
+  if (speciesList.length === 0) {
+    speciesList = getSpeciesCountBreakdown(rowToSpeciesCounts(row), 'pickerLabel');
+  }
+
+  // Skip reports with no fish
+  if (speciesList.length === 0) return null;
+
+  // Calculate total fish count
+  const totalFish = speciesList.reduce((sum, s) => sum + s.count, 0);
+
+  // Primary species is the one with the highest count (for theming)
+  const primarySpecies = speciesList.reduce((max, s) =>
+    s.count > max.count ? s : max, speciesList[0]);
+
+  // Derive the full photo list for the feed carousel. Prefer the new photos JSONB array
+  // (catch_log multi-photo submissions); fall back to the legacy single photo_url so
+  // DMF rows and older catch_log rows still render a single-image card.
+  const photos = Array.isArray(row.photos) ? (row.photos as string[]) : [];
+  const photoUrls = photos.length > 0
+    ? photos
+    : (row.photo_url ? [row.photo_url as string] : undefined);
+
+  return {
+    id: row.report_id,
+    userId: row.user_id,
+    anglerName,
+    anglerProfileImage: row.profile_image_url || undefined,
+    species: primarySpecies.species,
+    speciesList,
+    totalFish,
+    photoUrl: row.photo_url || undefined,
+    photoUrls,
+    catchDate: row.harvest_date || row.created_at,
+    location: row.area_label || undefined,
+    createdAt: row.created_at,
+    likeCount: row.like_count || 0,
+    isLikedByCurrentUser: false,
+    commentCount: row.comment_count || 0,
+    visibility: row.visibility || undefined,
+  };
+}
+
+function transformFeedRows(rows: any[]): CatchFeedEntry[] {
+  return rows
+    .map(transformFeedRow)
+    .filter((entry): entry is CatchFeedEntry => entry !== null);
+}
+
+/**
+ * Fetch a page of catches from rewards-enrolled users, older than `cursor`.
  * Uses the v_catch_feed view which pre-joins all data and aggregates fish entries.
  */
 async function fetchCatchesFromSupabase(
   limit: number = DEFAULT_PAGE_SIZE,
-  offset: number = 0
-): Promise<{ entries: CatchFeedEntry[]; hasMore: boolean }> {
+  cursor: FeedCursor | null = null,
+  filter: CatchFeedFilter = {}
+): Promise<PaginatedCatchFeed> {
   // Query v_catch_feed view which already has:
   // - filtered to rewards members
   // - joined user data
   // - aggregated fish entries as JSON
   // - like counts pre-calculated
-  const { data, error } = await supabase
-    .from('v_catch_feed')
-    .select('*')
+  let query = applyFeedFilter(
+    supabase
+      .from('v_catch_feed')
+      .select('*'),
+    filter
+  );
+
+  if (cursor) {
+    query = query.or(olderThanFilter(cursor));
+  }
+
+  // Fetch one extra row to detect hasMore
+  const { data, error } = await query
     .order('created_at', { ascending: false })
-    .range(offset, offset + limit - 1);
+    .order('report_id', { ascending: false })
+    .limit(limit + 1);
 
   if (error) {
     throw new Error(`Failed to fetch catch feed: ${error.message}`);
   }
 
   if (!data || data.length === 0) {
-    return { entries: [], hasMore: false };
+    return { entries: [], hasMore: false, nextCursor: cursor };
   }
 
-  // Check if there are more results (we fetched limit + 1)
   const hasMore = data.length > limit;
-  const resultsToProcess = hasMore ? data.slice(0, limit) : data;
-
-  // Transform view rows to CatchFeedEntry
-  const entries: CatchFeedEntry[] = [];
-
-  for (const row of resultsToProcess) {
-    // Extract user name info
-    const firstName = row.first_name || 'Anonymous';
-    const lastInitial = row.last_name ? `${row.last_name.charAt(0)}.` : '';
-    const anglerName = `${firstName} ${lastInitial}`.trim();
-
-    // Parse fish entries from the JSON array in the view
-    let speciesList: SpeciesCatch[] = [];
-    if (row.fish_entries_json && Array.isArray(row.fish_entries_json)) {
-      speciesList = row.fish_entries_json.map((fe: any) => ({
-        species: fe.species,
-        count: fe.count,
-        lengths: fe.lengths || undefined,
-        tagNumber: fe.tag_number || undefined,
-      }));
-    } else if (typeof row.fish_entries_json === 'string') {
-      // Handle JSON string if needed
-      try {
-        const parsed = JSON.parse(row.fish_entries_json);
-        if (Array.isArray(parsed)) {
-          speciesList = parsed.map((fe: any) => ({
-            species: fe.species,
-            count: fe.count,
-            lengths: fe.lengths || undefined,
-            tagNumber: fe.tag_number || undefined,
-          }));
-        }
-      } catch {
-        // Fall back to aggregate counts if JSON parsing fails
-        speciesList = [];
-      }
-    }
+  const page = hasMore ? data.slice(0, limit) : data;
 
-    // Fallback: collect species from aggregate count columns
-    if (speciesList.length === 0) {
-      const allSpecies = [
-        { species: 'Red Drum', count: row.red_drum_count },
-        { species: 'Flounder', count: row.flounder_count },
-        { species: 'Spotted Seatrout (speckled trout)', count: row.spotted_seatrout_count },
-        { species: 'Weakfish (gray trout)', count: row.weakfish_count },
-        { species: 'Striped Bass', count: row.striped_bass_count },
-      ];
-
-      speciesList = allSpecies
-        .filter(s => s.count && s.count > 0)
-        .map(s => ({ species: s.species, count: s.count as number }));
-    }
+  // Cursor from the last row fetched, not the last entry kept — rows with no
+  // fish are skipped and must not be fetched again.
+  const last = page[page.length - 1];
 
-    // Skip reports with no fish
-    if (speciesList.length === 0) continue;
-
-    // Calculate total fish count
-    const totalFish = speciesList.reduce((sum, s) => sum + s.count, 0);
-
-    // Primary species is the one with the highest count (for theming)
-    const primarySpecies = speciesList.reduce((max, s) =>
-      s.count > max.count ? s : max, speciesList[0]);
-
-    // Derive the full photo list for the feed carousel. Prefer the new photos JSONB array
-    // (catch_log multi-photo submissions); fall back to the legacy single photo_url so
-    // DMF rows and older catch_log rows still render a single-image card.
-    const photos = Array.isArray(row.photos) ? (row.photos as string[]) : [];
-    const photoUrls = photos.length > 0
-      ? photos
-      : (row.photo_url ? [row.photo_url as string] : undefined);
-
-    entries.push({
-      id: row.report_id,
-      userId: row.user_id,
-      anglerName,
-      anglerProfileImage: row.profile_image_url || undefined,
-      species: primarySpecies.species,
-      speciesList,
-      totalFish,
-      photoUrl: row.photo_url || undefined,
-      photoUrls,
-      catchDate: row.harvest_date || row.created_at,
-      location: row.area_label || undefined,
-      createdAt: row.created_at,
-      likeCount: row.like_count || 0,
-      isLikedByCurrentUser: false,
-      commentCount: row.comment_count || 0,
-    });
+  return {
+    entries: transformFeedRows(page),
+    hasMore,
+    nextCursor: { createdAt: last.created_at, id: last.report_id },
+  };
+}
+
+/**
+ * Fetch catches newer than `headCursor`, newest first.
+ */
+async function fetchNewerCatchesFromSupabase(
+  headCursor: FeedCursor,
+  limit: number,
+  filter: CatchFeedFilter
+): Promise<NewerCatches> {
+  const query = applyFeedFilter(
+    supabase
+      .from('v_catch_feed')
+      .select('*'),
+    filter
+  );
+
+  const { data, error } = await query
+    .or(newerThanFilter(headCursor))
+    .order('created_at', { ascending: false })
+    .order('report_id', { ascending: false })
+    .limit(limit + 1);
+
+  if (error) {
+    throw new Error(`Failed to fetch new catches: ${error.message}`);
   }
 
-  return { entries, hasMore };
+  const rows = data || [];
+  const hasMore = rows.length > limit;
+  return {
+    entries: transformFeedRows(hasMore ? rows.slice(0, limit) : rows),
+    hasMore,
+  };
 }
 
 /**
@@ -167,7 +328,7 @@ async function fetchAnglerProfileFromSupabase(userId: string): Promise<AnglerPro
   const { data: userData, error: userError } = await supabase
     .from('users')
     .select(
-      'id, first_name, last_name, profile_image_url, bio, rewards_opted_in_at, total_reports, created_at, followers_count, following_count',
+      'id, first_name, last_name, profile_image_url, bio, rewards_opted_in_at, total_reports, created_at, followers_count, following_count, is_private',
     )
     .eq('id', userId)
     .single();
@@ -176,31 +337,16 @@ async function fetchAnglerProfileFromSupabase(userId: string): Promise<AnglerPro
     throw new Error(`Failed to fetch angler profile: ${userError?.message || 'User not found'}`);
   }
 
-  // Fetch their reports with fish entries. Bumped to 60 to fill the profile
-  // photo grid; the existing UI only used the first 6 for the compact list.
+  // Fetch their reports through v_catch_feed rather than harvest_reports so
+  // the angler's location precision and publish delay apply here too.
+  // Bumped to 60 to fill the profile photo grid; the existing UI only used
+  // the first 6 for the compact list.
   const { data: reportsData, error: reportsError } = await supabase
-    .from('harvest_reports')
-    .select(`
-      id,
-      photo_url,
-      photos,
-      area_label,
-      harvest_date,
-      created_at,
-      red_drum_count,
-      flounder_count,
-      spotted_seatrout_count,
-      weakfish_count,
-      striped_bass_count,
-      fish_entries (
-        species,
-        count,
-        lengths,
-        tag_number
-      )
-    `)
+    .from('v_catch_feed')
+    .select('*')
     .eq('user_id', userId)
     .order('created_at', { ascending: false })
+    .order('report_id', { ascending: false })
     .limit(60);
 
   if (reportsError) {
@@ -233,82 +379,18 @@ async function fetchAnglerProfileFromSupabase(userId: string): Promise<AnglerPro
   const lastInitial = userData.last_name ? `${userData.last_name.charAt(0)}.` : '';
   const displayName = `${firstName} ${lastInitial}`.trim();
 
+  // No client-side cap on recent catches — the photo grid in
+  // AnglerProfileScreen renders up to the 60 we fetched.
+  const recentCatches = transformFeedRows(reportsData || []);
+
   // Collect all species from their reports
   const speciesSet = new Set<string>();
   const speciesCountsTotal: Record<string, number> = {};
-  const recentCatches: CatchFeedEntry[] = [];
-
-  for (const report of (reportsData || [])) {
-    // Fish entries from the separate table (includes lengths)
-    const fishEntries = (report.fish_entries as unknown) as Array<{
-      species: string;
-      count: number;
-      lengths: string[] | null;
-      tag_number: string | null;
-    }> | null;
-
-    let speciesList: SpeciesCatch[];
-
-    // Prefer fish_entries if available (has lengths), otherwise fall back to counts
-    if (fishEntries && fishEntries.length > 0) {
-      speciesList = fishEntries.map(fe => ({
-        species: fe.species,
-        count: fe.count,
-        lengths: fe.lengths || undefined,
-        tagNumber: fe.tag_number || undefined,
-      }));
-    } else {
-      // Fallback: collect all species with count > 0 from aggregate counts
-      const speciesInReport = [
-        { species: 'Red Drum', count: report.red_drum_count },
-        { species: 'Southern Flounder', count: report.flounder_count },
-        { species: 'Spotted Seatrout', count: report.spotted_seatrout_count },
-        { species: 'Weakfish', count: report.weakfish_count },
-        { species: 'Striped Bass', count: report.striped_bass_count },
-      ];
-
-      speciesList = speciesInReport
-        .filter(s => s.count && s.count > 0)
-        .map(s => ({ species: s.species, count: s.count as number }));
-    }
-
-    // Track species for profile stats
-    for (const { species, count } of speciesList) {
+  for (const entry of recentCatches) {
+    for (const { species, count } of entry.speciesList) {
       speciesSet.add(species);
       speciesCountsTotal[species] = (speciesCountsTotal[species] || 0) + count;
     }
-
-    // Add to recent catches (one entry per report). No client-side cap here —
-    // the photo grid in AnglerProfileScreen renders up to the 60 we fetched.
-    if (speciesList.length > 0) {
-      const totalFish = speciesList.reduce((sum, s) => sum + s.count, 0);
-      const primarySpecies = speciesList.reduce((max, s) =>
-        s.count > max.count ? s : max, speciesList[0]);
-
-      const reportPhotos = Array.isArray((report as { photos?: unknown }).photos)
-        ? ((report as { photos?: string[] }).photos as string[])
-        : [];
-      const reportPhotoUrls = reportPhotos.length > 0
-        ? reportPhotos
-        : (report.photo_url ? [report.photo_url] : undefined);
-
-      recentCatches.push({
-        id: report.id,
-        userId: userData.id,
-        anglerName: displayName,
-        anglerProfileImage: userData.profile_image_url || undefined,
-        species: primarySpecies.species,
-        speciesList,
-        totalFish,
-        photoUrl: report.photo_url || undefined,
-        photoUrls: reportPhotoUrls,
-        catchDate: report.harvest_date || report.created_at,
-        location: report.area_label || undefined,
-        createdAt: report.created_at,
-        likeCount: 0,
-        isLikedByCurrentUser: false,
-      });
-    }
   }
 
   // Find top species
@@ -365,6 +447,7 @@ async function fetchAnglerProfileFromSupabase(userId: string): Promise<AnglerPro
     memberSince: userData.rewards_opted_in_at || userData.created_at,
     followersCount: (userData as { followers_count?: number }).followers_count ?? 0,
     followingCount: (userData as { following_count?: number }).following_count ?? 0,
+    isPrivate: (userData as { is_private?: boolean }).is_private ?? false,
     achievements: earnedAchievements,
   };
 }
@@ -374,76 +457,42 @@ async function fetchAnglerProfileFromSupabase(userId: string): Promise<AnglerPro
 // =============================================================================
 
 /**
- * Fetch top anglers for the leaderboard section.
- * Uses the get_leaderboard RPC scoped to the current quarter so the
- * leaderboard aligns with the Quarterly Rewards period and shows
- * meaningful data even during slow fishing weeks.
+ * Fetch the top angler for each leaderboard metric, scoped to the current
+ * quarter so the preview aligns with the Quarterly Rewards period and shows
+ * meaningful data even during slow fishing weeks. Uses the same rankings
+ * (and tie-breaking) as the full leaderboard screen.
  */
 async function fetchTopAnglersFromSupabase(): Promise<TopAngler[]> {
-  // Calculate days since the current quarter started.
-  const now = new Date();
-  const quarterMonth = Math.floor(now.getMonth() / 3) * 3; // 0, 3, 6, or 9
-  const quarterStart = new Date(now.getFullYear(), quarterMonth, 1);
-  const periodDays = Math.max(
-    Math.ceil((now.getTime() - quarterStart.getTime()) / (1000 * 60 * 60 * 24)),
-    1, // At least 1 day on the first day of a quarter
+  const metrics: LeaderboardMetric[] = ['catches', 'species', 'length'];
+  const leaders = await Promise.all(
+    metrics.map(async (metric) => {
+      const board = await fetchLeaderboard({ metric, period: TOP_ANGLERS_PERIOD, limit: 1 });
+      return board.entries[0];
+    })
   );
-  const limit = 100; // Get top users, then find top by each metric
-
-  // Call get_leaderboard RPC for the current quarter
-  const { data: leaderboardData, error } = await supabase
-    .rpc('get_leaderboard', {
-      p_period_days: periodDays,
-      p_limit: limit,
-    });
-
-  if (error) {
-    console.error('Failed to fetch leaderboard for top anglers:', error);
-    return [];
-  }
-
-  if (!leaderboardData || leaderboardData.length === 0) {
-    return [];
-  }
-
-  // Helper to format display name
-  const formatDisplayName = (firstName: string | null, lastName: string | null): string => {
-    const first = firstName || 'Anonymous';
-    const lastInitial = lastName ? `${lastName.charAt(0)}.` : '';
-    return `${first} ${lastInitial}`.trim();
-  };
 
   const topAnglers: TopAngler[] = [];
-
-  // Find top angler by total_fish (catches)
-  const topByCatches = leaderboardData.reduce((max: typeof leaderboardData[number], row: typeof leaderboardData[number]) =>
-    (row.total_fish || 0) > (max.total_fish || 0) ? row : max);
-
-  if (topByCatches && topByCatches.total_fish && topByCatches.total_fish > 0) {
-    topAnglers.push({
-      type: 'catches',
-      userId: topByCatches.user_id,
-      displayName: formatDisplayName(topByCatches.first_name, topByCatches.last_name),
-      profileImage: topByCatches.profile_image_url || undefined,
-      value: topByCatches.total_fish,
-      label: topByCatches.total_fish === 1 ? 'catch' : 'catches',
-    });
-  }
-
-  // Find top angler by species variety
-  const topBySpecies = leaderboardData.reduce((max: typeof leaderboardData[number], row: typeof leaderboardData[number]) =>
-    (row.distinct_species || 0) > (max.distinct_species || 0) ? row : max);
-
-  if (topBySpecies && topBySpecies.distinct_species && topBySpecies.distinct_species > 0) {
-    topAnglers.push({
-      type: 'species',
-      userId: topBySpecies.user_id,
-      displayName: formatDisplayName(topBySpecies.first_name, topBySpecies.last_name),
-      profileImage: topBySpecies.profile_image_url || undefined,
-      value: topBySpecies.distinct_species,
-      label: topBySpecies.distinct_species === 1 ? 'species' : 'species',
-    });
-  }
+  metrics.forEach((metric, index) => {
+    const leader = leaders[index];
+    if (!leader || leader.value <= 0) return;
+
+    const base = {
+      userId: leader.userId,
+      displayName: leader.displayName,
+      profileImage: leader.profileImage,
+    };
+    switch (metric) {
+      case 'catches':
+        topAnglers.push({ ...base, type: 'catches', value: leader.value, label: leader.value === 1 ? 'catch' : 'catches' });
+        break;
+      case 'species':
+        topAnglers.push({ ...base, type: 'species', value: leader.value, label: 'species' });
+        break;
+      case 'length':
+        topAnglers.push({ ...base, type: 'length', value: `${leader.value}"`, label: 'longest' });
+        break;
+    }
+  });
 
   return topAnglers;
 }
@@ -453,10 +502,13 @@ async function fetchTopAnglersFromSupabase(): Promise<TopAngler[]> {
 // =============================================================================
 
 /**
- * Get cached feed if still valid.
+ * Get cached feed if still valid and cached for the same filter.
  */
-async function getCachedFeed(): Promise<CatchFeedEntry[] | null> {
+async function getCachedFeed(filter: CatchFeedFilter): Promise<CatchFeedEntry[] | null> {
   try {
+    const cachedFilter = (await AsyncStorage.getItem(STORAGE_KEYS.feedCacheFilter)) ?? '';
+    if (cachedFilter !== feedFilterKey(filter)) return null;
+
     const timestampStr = await AsyncStorage.getItem(STORAGE_KEYS.feedCacheTimestamp);
     if (!timestampStr) return null;
 
@@ -478,12 +530,13 @@ async function getCachedFeed(): Promise<CatchFeedEntry[] | null> {
 }
 
 /**
- * Save feed to cache.
+ * Save feed to cache, replacing whatever filter was cached before.
  */
-async function saveFeedToCache(entries: CatchFeedEntry[]): Promise<void> {
+async function saveFeedToCache(entries: CatchFeedEntry[], filter: CatchFeedFilter): Promise<void> {
   try {
     await AsyncStorage.setItem(STORAGE_KEYS.feedCache, JSON.stringify(entries));
     await AsyncStorage.setItem(STORAGE_KEYS.feedCacheTimestamp, Date.now().toString());
+    await AsyncStorage.setItem(STORAGE_KEYS.feedCacheFilter, feedFilterKey(filter));
   } catch (error) {
     console.warn('Failed to cache catch feed:', error);
   }
@@ -494,24 +547,36 @@ async function saveFeedToCache(entries: CatchFeedEntry[]): Promise<void> {
 // =============================================================================
 
 /**
- * Fetch recent catches for the feed with pagination support.
+ * Fetch recent catches for the feed with keyset pagination.
+ * Pass the previous page's `nextCursor` as `cursor` to load older catches,
+ * with the same `filter` as the first page.
  * Returns cached data if available and fresh for the initial load.
  */
 export async function fetchRecentCatches(
-  options: { forceRefresh?: boolean; limit?: number; offset?: number } = {}
+  options: {
+    forceRefresh?: boolean;
+    limit?: number;
+    cursor?: FeedCursor | null;
+    filter?: CatchFeedFilter;
+  } = {}
 ): Promise<PaginatedCatchFeed> {
-  const { forceRefresh = false, limit = DEFAULT_PAGE_SIZE, offset = 0 } = options;
+  const { forceRefresh = false, limit = DEFAULT_PAGE_SIZE, cursor = null, filter = {} } = options;
+  const isFirstPage = cursor === null;
+
+  // Cursor for continuing after cached entries
+  const cachedCursor = (cached: CatchFeedEntry[]): FeedCursor | null =>
+    cached.length > 0 ? toFeedCursor(cached[cached.length - 1]) : null;
 
-  // Only use cache for initial load (offset = 0)
-  if (!forceRefresh && offset === 0) {
-    const cached = await getCachedFeed();
+  // Only use cache for initial load
+  if (!forceRefresh && isFirstPage) {
+    const cached = await getCachedFeed(filter);
     if (cached) {
       console.log('📦 Using cached catch feed');
       // For cached data, assume there's more if we have a full page
       return {
         entries: cached,
         hasMore: cached.length >= limit,
-        nextOffset: cached.length,
+        nextCursor: cachedCursor(cached),
       };
     }
   }
@@ -520,52 +585,74 @@ export async function fetchRecentCatches(
   const connected = await isSupabaseConnected();
   if (!connected) {
     // Return cached data even if expired when offline (only for initial load)
-    if (offset === 0) {
-      const cached = await getCachedFeed();
+    if (isFirstPage) {
+      const cached = await getCachedFeed(filter);
       if (cached) {
         console.log('📱 Offline - using cached catch feed');
         return {
           entries: cached,
           hasMore: false, // Can't load more offline
-          nextOffset: cached.length,
+          nextCursor: cachedCursor(cached),
         };
       }
     }
     console.log('📱 Offline - no cached data');
-    return { entries: [], hasMore: false, nextOffset: 0 };
+    return { entries: [], hasMore: false, nextCursor: cursor };
   }
 
   try {
-    const { entries, hasMore } = await fetchCatchesFromSupabase(limit, offset);
+    const page = await fetchCatchesFromSupabase(limit, cursor, filter);
 
     // Only cache the initial page
-    if (offset === 0) {
-      await saveFeedToCache(entries);
+    if (isFirstPage) {
+      await saveFeedToCache(page.entries, filter);
     }
 
-    console.log(`✅ Fetched ${entries.length} catches (offset: ${offset}, hasMore: ${hasMore})`);
-    return {
-      entries,
-      hasMore,
-      nextOffset: offset + entries.length,
-    };
+    console.log(`✅ Fetched ${page.entries.length} catches (hasMore: ${page.hasMore})`);
+    return page;
   } catch (error) {
     console.error('Failed to fetch catch feed:', error);
 
     // Try to return cached data on error (only for initial load)
-    if (offset === 0) {
-      const cached = await getCachedFeed();
+    if (isFirstPage) {
+      const cached = await getCachedFeed(filter);
       if (cached) {
         console.log('⚠️ Error fetching - using cached feed');
         return {
           entries: cached,
           hasMore: false,
-          nextOffset: cached.length,
+          nextCursor: cachedCursor(cached),
         };
       }
     }
 
-    return { entries: [], hasMore: false, nextOffset: offset };
+    return { entries: [], hasMore: false, nextCursor: cursor };
+  }
+}
+
+/**
+ * Fetch catches posted since the head of the feed was loaded, for the
+ * "N new catches" indicator. Never touches the cache.
+ *
+ * @param headCursor - Cursor of the newest entry currently shown
+ * @param options.limit - Max new catches to fetch; beyond that `hasMore` is set
+ * @param options.filter - Filter the feed was loaded with
+ */
+export async function fetchNewerCatches(
+  headCursor: FeedCursor,
+  options: { limit?: number; filter?: CatchFeedFilter } = {}
+): Promise<NewerCatches> {
+  const { limit = NEWER_CATCHES_LIMIT, filter = {} } = options;
+  const connected = await isSupabaseConnected();
+  if (!connected) {
+    return { entries: [], hasMore: false };
+  }
+
+  try {
+    return await fetchNewerCatchesFromSupabase(headCursor, limit, filter);
+  } catch (error) {
+    console.warn('Failed to check for new catches:', error);
+    return { entries: [], hasMore: false };
   }
 }
 
@@ -621,13 +708,9 @@ export async function fetchCatchById(reportId: string): Promise<CatchFeedEntry |
     harvest_date: string | null;
     created_at: string;
     fish_entries_json: unknown;
-    red_drum_count: number;
-    flounder_count: number;
-    spotted_seatrout_count: number;
-    weakfish_count: number;
-    striped_bass_count: number;
     like_count: number;
     comment_count: number;
+    visibility?: PostVisibility | null;
   };
 
   const firstName = row.first_name || 'Anonymous';
@@ -644,16 +727,7 @@ export async function fetchCatchById(reportId: string): Promise<CatchFeedEntry |
     }));
   }
   if (speciesList.length === 0) {
-    const allSpecies = [
-      { species: 'Red Drum', count: row.red_drum_count },
-      { species: 'Flounder', count: row.flounder_count },
-      { species: 'Spotted Seatrout (speckled trout)', count: row.spotted_seatrout_count },
-      { species: 'Weakfish (gray trout)', count: row.weakfish_count },
-      { species: 'Striped Bass', count: row.striped_bass_count },
-    ];
-    speciesList = allSpecies
-      .filter((s) => s.count && s.count > 0)
-      .map((s) => ({ species: s.species, count: s.count as number }));
+    speciesList = getSpeciesCountBreakdown(rowToSpeciesCounts(row), 'pickerLabel');
   }
   if (speciesList.length === 0) return null;
 
@@ -678,6 +752,7 @@ export async function fetchCatchById(reportId: string): Promise<CatchFeedEntry |
     likeCount: row.like_count ?? 0,
     isLikedByCurrentUser: false,
     commentCount: row.comment_count ?? 0,
+    visibility: row.visibility ?? undefined,
   };
 }
 
@@ -704,6 +779,7 @@ export async function clearCatchFeedCache(): Promise<void> {
     await AsyncStorage.multiRemove([
       STORAGE_KEYS.feedCache,
       STORAGE_KEYS.feedCacheTimestamp,
+      STORAGE_KEYS.feedCacheFilter,
     ]);
   } catch (error) {
     console.warn('Failed to clear catch feed cache:', error);
@@ -711,53 +787,115 @@ export async function clearCatchFeedCache(): Promise<void> {
 }
 
 // =============================================================================
-// Like Functionality
+// Likes and Reactions
 // =============================================================================
+//
+// Each row in catch_likes is one angler's reaction to a catch. A plain like
+// is the default reaction, so like counts (and the leaderboard) are the sum
+// of all reactions.
 
 /**
- * Fetch like counts and user's like status for a list of catch IDs.
+ * Reaction totals for one catch, plus the current user's own reaction.
  */
-export async function fetchLikesForCatches(
+export interface CatchReactionSummary {
+  count: number;
+  isLiked: boolean;
+  counts: ReactionCounts;
+  myReaction: CatchReaction | null;
+}
+
+/**
+ * Fetch reaction counts and the user's reaction for a list of catch IDs in
+ * one query. Rows from before reactions existed count as the default.
+ */
+export async function fetchReactionsForCatches(
   catchIds: string[],
   currentUserId?: string
-): Promise<Map<string, { count: number; isLiked: boolean }>> {
-  const likesMap = new Map<string, { count: number; isLiked: boolean }>();
+): Promise<Map<string, CatchReactionSummary>> {
+  const reactionsMap = new Map<string, CatchReactionSummary>();
 
   if (catchIds.length === 0) {
-    return likesMap;
+    return reactionsMap;
   }
 
   try {
-    // Fetch all likes for these catches
-    const { data: likesData, error } = await supabase
+    const { data: reactionsData, error } = await supabase
       .from('catch_likes')
-      .select('catch_id, user_id')
+      .select('catch_id, user_id, reaction')
       .in('catch_id', catchIds);
 
     if (error) {
-      console.warn('Failed to fetch likes:', error);
-      return likesMap;
+      console.warn('Failed to fetch reactions:', error);
+      return reactionsMap;
     }
 
-    // Count likes per catch and check if current user liked
     for (const catchId of catchIds) {
-      const catchLikes = (likesData || []).filter(l => l.catch_id === catchId);
-      const isLiked = currentUserId
-        ? catchLikes.some(l => l.user_id === currentUserId)
-        : false;
-
-      likesMap.set(catchId, {
-        count: catchLikes.length,
-        isLiked,
-      });
+      reactionsMap.set(catchId, { count: 0, isLiked: false, counts: {}, myReaction: null });
+    }
+    for (const row of (reactionsData || []) as Array<{ catch_id: string; user_id: string; reaction?: CatchReaction | null }>) {
+      const summary = reactionsMap.get(row.catch_id);
+      if (!summary) continue;
+      const reaction = row.reaction ?? DEFAULT_REACTION;
+      summary.count += 1;
+      summary.counts[reaction] = (summary.counts[reaction] ?? 0) + 1;
+      if (currentUserId && row.user_id === currentUserId) {
+        summary.isLiked = true;
+        summary.myReaction = reaction;
+      }
     }
   } catch (error) {
-    console.warn('Error fetching likes:', error);
+    console.warn('Error fetching reactions:', error);
   }
 
+  return reactionsMap;
+}
+
+/**
+ * Fetch like counts and user's like status for a list of catch IDs.
+ */
+export async function fetchLikesForCatches(
+  catchIds: string[],
+  currentUserId?: string
+): Promise<Map<string, { count: number; isLiked: boolean }>> {
+  const reactionsMap = await fetchReactionsForCatches(catchIds, currentUserId);
+  const likesMap = new Map<string, { count: number; isLiked: boolean }>();
+  reactionsMap.forEach(({ count, isLiked }, catchId) => {
+    likesMap.set(catchId, { count, isLiked });
+  });
   return likesMap;
 }
 
+/**
+ * Set the user's reaction to a catch, replacing any earlier one. A like
+ * counts as the default reaction, so this also likes the catch.
+ * Returns the catch's updated reactions on success, or null on failure.
+ */
+export async function setCatchReaction(
+  catchId: string,
+  userId: string,
+  reaction: CatchReaction,
+): Promise<CatchReactionSummary | null> {
+  try {
+    const { error } = await supabase
+      .from('catch_likes')
+      .upsert(
+        { catch_id: catchId, user_id: userId, reaction },
+        { onConflict: 'catch_id,user_id' },
+      );
+
+    if (error) {
+      console.error('Failed to set reaction:', error);
+      return null;
+    }
+
+    const reactions = await fetchReactionsForCatches([catchId], userId);
+    return reactions.get(catchId) ?? null;
+  } catch (error) {
+    console.error('Error setting reaction:', error);
+    return null;
+  }
+}
+
 /**
  * Like a catch.
  * Returns the new like count on success, or null on failure.
@@ -834,7 +972,7 @@ export async function unlikeCatch(catchId: string, userId: string): Promise<numb
 }
 
 /**
- * Enrich catch feed entries with like data.
+ * Enrich catch feed entries with like and reaction data.
  */
 export async function enrichCatchesWithLikes(
   entries: CatchFeedEntry[],
@@ -843,14 +981,47 @@ export async function enrichCatchesWithLikes(
   if (entries.length === 0) return entries;
 
   const catchIds = entries.map(e => e.id);
-  const likesMap = await fetchLikesForCatches(catchIds, currentUserId);
+  const reactionsMap = await fetchReactionsForCatches(catchIds, currentUserId);
 
   return entries.map(entry => {
-    const likeData = likesMap.get(entry.id);
+    const reactionData = reactionsMap.get(entry.id);
     return {
       ...entry,
-      likeCount: likeData?.count || 0,
-      isLikedByCurrentUser: likeData?.isLiked || false,
+      likeCount: reactionData?.count || 0,
+      isLikedByCurrentUser: reactionData?.isLiked || false,
+      reactionCounts: reactionData?.counts ?? {},
+      myReaction: reactionData?.myReaction ?? null,
     };
   });
 }
+
+// =============================================================================
+// Reporting
+// =============================================================================
+
+/**
+ * File a moderation report against a catch. RLS enforces reporter_id matches
+ * the caller and that anglers can't report their own catches. Enough distinct
+ * reports hide the catch until a moderator reviews it (server-side trigger).
+ * Reporting the same catch twice is absorbed via the unique constraint.
+ */
+export async function reportCatch(
+  reportId: string,
+  reporterId: string,
+  reasonCode: ReportReasonCode,
+  details?: string,
+): Promise<void> {
+  const { error } = await supabase
+    .from('catch_reports')
+    .insert({
+      report_id: reportId,
+      reporter_id: reporterId,
+      reason_code: reasonCode,
+      details: details ?? null,
+    });
+
+  // 23505 = unique_violation; the user already reported this catch. Treat as success.
+  if (error && error.code !== '23505') {
+    throw new Error(`Failed to report catch: ${error.message}`);
+  }
+}
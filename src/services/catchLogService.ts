@@ -5,11 +5,13 @@
 // Reuses the existing report creation pipeline with report_type = 'catch_log'.
 
 import { ReportInput } from '../types/report';
+import { createEmptySpeciesCounts, speciesCountsToReport } from '../constants/species';
 import { createReport, type CreateReportResult } from './reportsService';
 import { clearCatchFeedCache } from './catchFeedService';
 import { getOrCreateAnonymousUser } from './anonymousUserService';
 import { getRewardsMemberForAnonymousUser } from './rewardsConversionService';
 import type { PhotoUploadProgress } from './photoUploadService';
+import type { FeedPrivacySettings, PostVisibility } from '../types/catchFeed';
 
 export interface CatchLogInput {
   fishEntries: Array<{
@@ -30,6 +32,10 @@ export interface CatchLogInput {
   photoUris?: string[];
   /** @deprecated Use photoUris. Kept so existing callers compile during the migration. */
   photoUri?: string;
+  /** Feed privacy for this catch; unset fields use the profile's settings */
+  feedPrivacy?: Partial<FeedPrivacySettings>;
+  /** Who can see the catch in the feed (defaults to public) */
+  visibility?: PostVisibility;
 }
 
 export interface SubmitCatchLogOptions {
@@ -78,11 +84,7 @@ export async function submitCatchLog(
     gearLabel: input.gearLabel,
 
     // DMF species counts all zero for catch logs
-    redDrumCount: 0,
-    flounderCount: 0,
-    spottedSeatroutCount: 0,
-    weakfishCount: 0,
-    stripedBassCount: 0,
+    ...speciesCountsToReport(createEmptySpeciesCounts()),
 
     // DMF-specific fields — sensible defaults
     hasLicense: true,
@@ -96,6 +98,11 @@ export async function submitCatchLog(
     photoUrl: coverPhoto,
     photos: photoUris.length > 0 ? photoUris : undefined,
 
+    // Feed privacy overrides
+    locationPrecision: input.feedPrivacy?.locationPrecision,
+    publishDelayDays: input.feedPrivacy?.publishDelayDays,
+    visibility: input.visibility,
+
     // Fish entries (the actual catch data)
     fishEntries: input.fishEntries,
   };
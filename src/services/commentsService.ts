@@ -1,44 +1,111 @@
 // services/commentsService.ts
 //
-// Backend access for catch comments (catch_comments table). RLS enforces
-// that callers can only insert/delete their own rows, so this layer is a
-// thin wrapper around supabase-js.
+// Backend access for catch comments (catch_comments table), their edit
+// history (catch_comment_edits) and @mentions (comment_mentions). RLS
+// enforces that callers can only insert/edit/delete their own rows, so this
+// layer is a thin wrapper around supabase-js.
 
 import { supabase } from '../config/supabase';
-import { CatchComment } from '../types/catchFeed';
+import { CatchComment, CommentEdit, CommentMention, ReportReasonCode } from '../types/catchFeed';
+
+interface RawNameRow {
+  first_name: string | null;
+  last_name: string | null;
+}
 
 interface RawCommentRow {
   id: string;
   report_id: string;
   user_id: string;
+  parent_id: string | null;
   text: string;
   created_at: string;
   updated_at: string;
-  users: {
-    first_name: string | null;
-    last_name: string | null;
-    profile_image_url: string | null;
-  } | null;
+  users: (RawNameRow & { profile_image_url: string | null }) | null;
+  comment_mentions?: Array<{
+    mentioned_user_id: string;
+    users: RawNameRow | null;
+  }> | null;
+}
+
+const COMMENT_COLUMNS = `
+  id,
+  report_id,
+  user_id,
+  parent_id,
+  text,
+  created_at,
+  updated_at,
+  users:user_id (
+    first_name,
+    last_name,
+    profile_image_url
+  ),
+  comment_mentions (
+    mentioned_user_id,
+    users:mentioned_user_id (
+      first_name,
+      last_name
+    )
+  )
+`;
+
+function displayName(row: RawNameRow | null): string {
+  const firstName = row?.first_name || 'Anonymous';
+  const lastInitial = row?.last_name ? `${row.last_name.charAt(0)}.` : '';
+  return `${firstName} ${lastInitial}`.trim();
 }
 
 function transformCommentRow(row: RawCommentRow, currentUserId?: string): CatchComment {
-  const firstName = row.users?.first_name || 'Anonymous';
-  const lastInitial = row.users?.last_name ? `${row.users.last_name.charAt(0)}.` : '';
+  // The database only bumps updated_at when the text changes
+  const isEdited = new Date(row.updated_at).getTime() > new Date(row.created_at).getTime();
   return {
     id: row.id,
     reportId: row.report_id,
     userId: row.user_id,
-    anglerName: `${firstName} ${lastInitial}`.trim(),
+    anglerName: displayName(row.users),
     anglerProfileImage: row.users?.profile_image_url || undefined,
     text: row.text,
     createdAt: row.created_at,
     isOwn: currentUserId !== undefined && row.user_id === currentUserId,
+    parentId: row.parent_id ?? null,
+    editedAt: isEdited ? row.updated_at : undefined,
+    mentions: (row.comment_mentions ?? []).map((m) => ({
+      userId: m.mentioned_user_id,
+      displayName: displayName(m.users),
+    })),
   };
 }
 
 /**
- * Fetch all comments for a report, oldest-first so newest appears at the bottom
- * (mirrors Instagram's vertical thread direction).
+ * Record mention notifications for a comment. Already-recorded mentions are
+ * skipped, so re-saving an edited comment only notifies newly added anglers.
+ * Best-effort: the comment itself is already saved.
+ */
+async function recordMentions(
+  commentId: string,
+  authorId: string,
+  mentions: CommentMention[],
+): Promise<void> {
+  const rows = mentions
+    .filter((m) => m.userId !== authorId)
+    .map((m) => ({ comment_id: commentId, mentioned_user_id: m.userId }));
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('comment_mentions')
+    .upsert(rows, { onConflict: 'comment_id,mentioned_user_id', ignoreDuplicates: true });
+
+  if (error) {
+    console.warn('Failed to record comment mentions:', error.message);
+  }
+}
+
+/**
+ * Fetch all comments for a report, replies included, oldest-first so newest
+ * appears at the bottom (mirrors Instagram's vertical thread direction).
+ * Group them with threadComments(). RLS leaves out comments from anglers on
+ * either side of a block with the caller.
  */
 export async function fetchComments(
   reportId: string,
@@ -46,19 +113,7 @@ export async function fetchComments(
 ): Promise<CatchComment[]> {
   const { data, error } = await supabase
     .from('catch_comments')
-    .select(`
-      id,
-      report_id,
-      user_id,
-      text,
-      created_at,
-      updated_at,
-      users:user_id (
-        first_name,
-        last_name,
-        profile_image_url
-      )
-    `)
+    .select(COMMENT_COLUMNS)
     .eq('report_id', reportId)
     .order('created_at', { ascending: true });
 
@@ -72,41 +127,82 @@ export async function fetchComments(
 }
 
 /**
- * Insert a new comment. RLS enforces user_id matches the caller's rewards user.
- * Returns the hydrated CatchComment so the caller can update local state.
+ * Insert a new comment, or a reply when `parentId` is set (the database
+ * rejects replies to replies). RLS enforces user_id matches the caller's
+ * rewards user. Returns the hydrated CatchComment so the caller can update
+ * local state.
  */
 export async function addComment(
   reportId: string,
   userId: string,
   text: string,
+  options: { parentId?: string | null; mentions?: CommentMention[] } = {},
 ): Promise<CatchComment> {
   const { data, error } = await supabase
     .from('catch_comments')
-    .insert({ report_id: reportId, user_id: userId, text })
-    .select(`
-      id,
-      report_id,
-      user_id,
-      text,
-      created_at,
-      updated_at,
-      users:user_id (
-        first_name,
-        last_name,
-        profile_image_url
-      )
-    `)
+    .insert({ report_id: reportId, user_id: userId, parent_id: options.parentId ?? null, text })
+    .select(COMMENT_COLUMNS)
     .single();
 
   if (error || !data) {
     throw new Error(`Failed to add comment: ${error?.message ?? 'no data'}`);
   }
 
-  return transformCommentRow(data as unknown as RawCommentRow, userId);
+  const comment = transformCommentRow(data as unknown as RawCommentRow, userId);
+  const mentions = options.mentions ?? [];
+  await recordMentions(comment.id, userId, mentions);
+  return { ...comment, mentions };
+}
+
+/**
+ * Change a comment's text. RLS enforces only the author can edit; the
+ * previous text is archived to catch_comment_edits by a trigger.
+ */
+export async function editComment(
+  commentId: string,
+  userId: string,
+  text: string,
+  mentions: CommentMention[] = [],
+): Promise<CatchComment> {
+  const { data, error } = await supabase
+    .from('catch_comments')
+    .update({ text })
+    .eq('id', commentId)
+    .select(COMMENT_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to edit comment: ${error?.message ?? 'no data'}`);
+  }
+
+  const comment = transformCommentRow(data as unknown as RawCommentRow, userId);
+  await recordMentions(comment.id, userId, mentions);
+  return { ...comment, mentions };
+}
+
+/**
+ * Previous versions of an edited comment, newest first.
+ */
+export async function fetchCommentHistory(commentId: string): Promise<CommentEdit[]> {
+  const { data, error } = await supabase
+    .from('catch_comment_edits')
+    .select('previous_text, edited_at')
+    .eq('comment_id', commentId)
+    .order('edited_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch comment history: ${error.message}`);
+  }
+
+  return ((data || []) as Array<{ previous_text: string; edited_at: string }>).map((row) => ({
+    text: row.previous_text,
+    editedAt: row.edited_at,
+  }));
 }
 
 /**
- * Delete a comment. RLS enforces only the author can delete.
+ * Delete a comment. RLS enforces only the author can delete. Deleting a
+ * top-level comment removes its replies too (ON DELETE CASCADE).
  */
 export async function deleteComment(commentId: string): Promise<void> {
   const { error } = await supabase
@@ -121,17 +217,24 @@ export async function deleteComment(commentId: string): Promise<void> {
 
 /**
  * File a moderation report against a comment. RLS enforces reporter_id matches
- * the caller. Duplicate reports (same reporter, same comment) are silently
- * absorbed via the unique constraint.
+ * the caller. Enough distinct reports hide the comment until a moderator
+ * reviews it (server-side trigger). Duplicate reports (same reporter, same
+ * comment) are silently absorbed via the unique constraint.
  */
 export async function reportComment(
   commentId: string,
   reporterId: string,
-  reason?: string,
+  reasonCode: ReportReasonCode = 'other',
+  details?: string,
 ): Promise<void> {
   const { error } = await supabase
     .from('comment_reports')
-    .insert({ comment_id: commentId, reporter_id: reporterId, reason: reason ?? null });
+    .insert({
+      comment_id: commentId,
+      reporter_id: reporterId,
+      reason_code: reasonCode,
+      reason: details ?? null,
+    });
 
   // 23505 = unique_violation; the user already reported this comment. Treat as success.
   if (error && error.code !== '23505') {
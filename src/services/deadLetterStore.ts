@@ -0,0 +1,182 @@
+// services/deadLetterStore.ts
+//
+// Dead-letter store for harvest reports that exceeded maxRetryAttempts.
+// Reports land here instead of being dropped from the offline queue, keeping
+// their full error history so the user can correct and resubmit them, or
+// export them and file with DMF another way.
+//
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { APP_CONFIG } from '../config/appConfig';
+import { QueuedReport, DeadLetterReport } from '../types/harvestReport';
+import { SPECIES } from '../constants/species';
+import { captureError } from '../utils/sentryUtils';
+
+// ============================================
+// STORAGE
+// ============================================
+
+const DEAD_LETTER_KEY = APP_CONFIG.storageKeys.harvestDeadLetter;
+
+async function writeDeadLetters(reports: DeadLetterReport[]): Promise<void> {
+  await AsyncStorage.setItem(DEAD_LETTER_KEY, JSON.stringify(reports));
+}
+
+// ============================================
+// DEAD-LETTER MANAGEMENT
+// ============================================
+
+/**
+ * Move a report that exhausted its retries into the dead-letter store.
+ *
+ * Re-adding a report with the same local confirmation number replaces the
+ * earlier entry rather than duplicating it.
+ *
+ * @param report - The queued report that exceeded maxRetryAttempts
+ */
+export async function addToDeadLetter(report: QueuedReport): Promise<void> {
+  const reports = await getDeadLetters();
+  const deadLetter: DeadLetterReport = {
+    ...report,
+    deadLetteredAt: new Date().toISOString(),
+  };
+
+  const remaining = reports.filter(
+    r => r.localConfirmationNumber !== report.localConfirmationNumber
+  );
+  remaining.unshift(deadLetter);
+
+  await writeDeadLetters(remaining);
+
+  console.log(`🪦 Moved to dead-letter store: ${report.localConfirmationNumber}`);
+}
+
+/**
+ * Get all dead-lettered reports, most recent first.
+ *
+ * @returns Array of dead-lettered reports
+ */
+export async function getDeadLetters(): Promise<DeadLetterReport[]> {
+  try {
+    const data = await AsyncStorage.getItem(DEAD_LETTER_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    captureError(error, 'deadLetterStore:getDeadLetters');
+    return [];
+  }
+}
+
+/**
+ * Get the number of reports needing attention.
+ *
+ * @returns Number of dead-lettered reports
+ */
+export async function getDeadLetterCount(): Promise<number> {
+  const reports = await getDeadLetters();
+  return reports.length;
+}
+
+/**
+ * Get a single dead-lettered report.
+ *
+ * @param localConfirmationNumber - The local confirmation number of the report
+ * @returns The report, or undefined if not found
+ */
+export async function getDeadLetter(
+  localConfirmationNumber: string
+): Promise<DeadLetterReport | undefined> {
+  const reports = await getDeadLetters();
+  return reports.find(r => r.localConfirmationNumber === localConfirmationNumber);
+}
+
+/**
+ * Remove a report from the dead-letter store.
+ *
+ * @param localConfirmationNumber - The local confirmation number of the report
+ * @returns true if the report was found and removed
+ */
+export async function removeDeadLetter(localConfirmationNumber: string): Promise<boolean> {
+  const reports = await getDeadLetters();
+  const filtered = reports.filter(r => r.localConfirmationNumber !== localConfirmationNumber);
+
+  if (filtered.length === reports.length) {
+    return false;
+  }
+
+  await writeDeadLetters(filtered);
+  return true;
+}
+
+/**
+ * Clear the entire dead-letter store.
+ *
+ * Use with caution - these reports were never filed with DMF.
+ */
+export async function clearDeadLetters(): Promise<void> {
+  await AsyncStorage.removeItem(DEAD_LETTER_KEY);
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+/**
+ * Format a dead-lettered report as plain text for sharing.
+ *
+ * Includes everything needed to file the harvest by other means (phone,
+ * DMF web form) plus the error history for support.
+ *
+ * @param report - The dead-lettered report
+ * @returns Human-readable report summary
+ */
+export function formatDeadLetterForExport(report: DeadLetterReport): string {
+  const lines: string[] = [
+    'NC DMF Harvest Report (not submitted)',
+    `Local confirmation #: ${report.localConfirmationNumber}`,
+    `Harvest date: ${report.harvestDate}`,
+    `Area: ${report.areaLabel ? `${report.areaLabel} (${report.areaCode})` : report.areaCode}`,
+    `Method: ${report.usedHookAndLine ? 'Hook & Line' : (report.gearLabel || report.gearCode || 'Other')}`,
+  ];
+
+  const name = [report.firstName, report.lastName].filter(Boolean).join(' ');
+  if (name) lines.push(`Name: ${name}`);
+  if (report.wrcId) lines.push(`WRC ID: ${report.wrcId}`);
+  if (report.zipCode) lines.push(`ZIP: ${report.zipCode}`);
+  if (report.reportingFor === 'family' && report.familyCount) {
+    lines.push(`Reporting for: ${report.familyCount} people`);
+  }
+
+  lines.push(
+    '',
+    'Harvest:',
+    ...SPECIES.map(species => `  ${species.displayName}: ${report[species.reportCountField]}`),
+  );
+
+  const errors = report.errorHistory?.length
+    ? report.errorHistory
+    : report.lastError
+      ? [{ at: report.deadLetteredAt, error: report.lastError }]
+      : [];
+  if (errors.length > 0) {
+    lines.push('', `Submission errors (${errors.length}):`);
+    for (const entry of errors) {
+      lines.push(`  ${entry.at}: ${entry.error}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export default {
+  addToDeadLetter,
+  getDeadLetters,
+  getDeadLetterCount,
+  getDeadLetter,
+  removeDeadLetter,
+  clearDeadLetters,
+  formatDeadLetterForExport,
+};
@@ -0,0 +1,195 @@
+// services/deviceMergeService.ts
+//
+// Merges a device's history into the angler's account when they sign in on
+// it: the device-only users row (reports, achievements, drawing entries,
+// follows) and anonymous reports not yet linked to anyone. The device proves
+// it holds that history with a secret it registers on first start. A request
+// is made first and returns a single-use merge token; the merge runs when the token
+// is confirmed after the magic link signs the angler in. Conflict rules and
+// the revert record live in supabase/migrations/device_merge.sql.
+//
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '../config/supabase';
+import {
+  DeviceMergeRequest,
+  DeviceMergeResult,
+  transformDeviceMergeRequest,
+} from '../types/user';
+import { getDeviceId } from '../utils/deviceId';
+import SecureStorage from '../utils/storage/secureStorage';
+import { getAnonymousUser } from './anonymousUserService';
+
+// Storage keys
+const STORAGE_KEYS = {
+  pendingMerge: '@pending_device_merge',
+  deviceSecret: 'deviceMergeSecret',
+} as const;
+
+interface StoredDeviceSecret {
+  deviceId: string;
+  secret: string;
+}
+
+// =============================================================================
+// Device Secret
+// =============================================================================
+
+/**
+ * Get this device's merge secret, registering one if it has none yet.
+ * The server only hands a secret out once per device, so it's kept in
+ * secure storage and never sent anywhere but a merge request.
+ *
+ * @returns The secret, or null when the device was already registered
+ *          without keeping one (it can't be merged)
+ */
+export async function ensureDeviceSecret(): Promise<string | null> {
+  const deviceId = await getDeviceId();
+
+  const stored = await SecureStorage.getItem(STORAGE_KEYS.deviceSecret);
+  if (stored) {
+    try {
+      const parsed: StoredDeviceSecret = JSON.parse(stored);
+      if (parsed.deviceId === deviceId && parsed.secret) {
+        return parsed.secret;
+      }
+    } catch {
+      // Unreadable, register again below
+    }
+  }
+
+  const { data, error } = await supabase.rpc('register_device_secret', {
+    p_device_id: deviceId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to register device: ${error.message}`);
+  }
+  if (!data) {
+    return null;
+  }
+
+  const entry: StoredDeviceSecret = { deviceId, secret: data };
+  await SecureStorage.setItem(STORAGE_KEYS.deviceSecret, JSON.stringify(entry));
+  return data;
+}
+
+// =============================================================================
+// Pending Request
+// =============================================================================
+
+/**
+ * Get the merge request waiting for magic-link confirmation on this device.
+ * Expired requests are dropped.
+ */
+export async function getPendingDeviceMerge(): Promise<DeviceMergeRequest | null> {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.pendingMerge);
+    if (!stored) return null;
+
+    const request: DeviceMergeRequest = JSON.parse(stored);
+    if (new Date(request.expiresAt).getTime() <= Date.now()) {
+      await AsyncStorage.removeItem(STORAGE_KEYS.pendingMerge);
+      return null;
+    }
+    return request;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Forget the pending merge request (after it's confirmed or abandoned).
+ */
+export async function clearPendingDeviceMerge(): Promise<void> {
+  await AsyncStorage.removeItem(STORAGE_KEYS.pendingMerge);
+}
+
+// =============================================================================
+// Request & Confirm
+// =============================================================================
+
+/**
+ * Request a merge of this device's history into the account for `email`.
+ * The request is kept on the device until it's confirmed. Throws when this
+ * device has no secret to prove it holds the history.
+ *
+ * @param sourceUserId - The device-only user to merge, if there is one
+ * @returns The request, or null when the device has nothing to merge
+ */
+export async function requestDeviceMerge(
+  email: string,
+  sourceUserId: string | null
+): Promise<DeviceMergeRequest | null> {
+  const deviceId = await getDeviceId();
+  const deviceSecret = await ensureDeviceSecret();
+  if (!deviceSecret) {
+    throw new Error('Failed to create merge request: This device could not be verified');
+  }
+  const anonymousUser = await getAnonymousUser();
+
+  const { data, error } = await supabase.rpc('create_device_merge_request', {
+    p_email: email,
+    p_device_id: deviceId,
+    p_device_secret: deviceSecret,
+    p_source_user_id: sourceUserId,
+    p_anonymous_user_id: anonymousUser?.id ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to create merge request: ${error.message}`);
+  }
+  if (!data?.id) {
+    return null;
+  }
+
+  const request = transformDeviceMergeRequest(data);
+  await AsyncStorage.setItem(STORAGE_KEYS.pendingMerge, JSON.stringify(request));
+  return request;
+}
+
+/**
+ * Confirm a merge request. The caller must be signed in (via the magic link)
+ * with the email the request was made for.
+ */
+export async function confirmDeviceMerge(mergeToken: string): Promise<DeviceMergeResult> {
+  const { data, error } = await supabase.rpc('confirm_device_merge', {
+    p_merge_token: mergeToken,
+  });
+
+  if (error) {
+    throw new Error(`Failed to merge device history: ${error.message}`);
+  }
+
+  await clearPendingDeviceMerge();
+  return {
+    requestId: data.request_id,
+    targetUserId: data.target_user_id,
+    reportsMerged: data.reports_merged ?? 0,
+    achievementsMerged: data.achievements_merged ?? 0,
+    entriesMerged: data.entries_merged ?? 0,
+    followsMerged: data.follows_merged ?? 0,
+  };
+}
+
+/**
+ * Merge this device's history into the signed-in account for `email`,
+ * confirming the pending request for that email or making a new one.
+ *
+ * @returns What was merged, or null when there was nothing to merge
+ */
+export async function mergeDeviceIntoAccount(
+  email: string,
+  sourceUserId: string | null
+): Promise<DeviceMergeResult | null> {
+  const pending = await getPendingDeviceMerge();
+  const request =
+    pending && pending.email === email.toLowerCase() && pending.sourceUserId === sourceUserId
+      ? pending
+      : await requestDeviceMerge(email, sourceUserId);
+
+  if (!request) {
+    return null;
+  }
+  return confirmDeviceMerge(request.mergeToken);
+}
@@ -0,0 +1,103 @@
+// services/dmfErrorClassifier.ts
+//
+// Classifies failed DMF submissions so the offline queue knows whether a
+// retry can help. Transient failures are retried with backoff; permanent
+// rejections and auth/config problems stop burning retries and are shown to
+// the user with a message they can act on.
+//
+
+import { DMFSubmissionResult, DMFErrorKind } from '../types/harvestReport';
+
+// ============================================
+// PATTERNS
+// ============================================
+
+/**
+ * Errors meaning the app itself can't use the DMF service: bad endpoint,
+ * missing/invalid ArcGIS token, or a service that no longer exists.
+ */
+const CONFIG_PATTERNS: RegExp[] = [
+  /\bHTTP (401|403|404)\b/,
+  /\bArcGIS (400|401|403|404|498|499)\b/,
+  /\btoken (required|invalid|expired)\b|\binvalid token\b/i,
+  /not authorized|permission denied|access denied/i,
+  /service (not found|not started|does not exist)/i,
+  /invalid url|only absolute urls/i,
+];
+
+/** HTTP/ArcGIS statuses worth retrying: timeouts, throttling, server errors. */
+const TRANSIENT_STATUS_PATTERN = /\b(HTTP|ArcGIS) (408|429|5\d\d)\b/;
+
+/** Any other HTTP client error means the request itself was bad. */
+const PERMANENT_STATUS_PATTERN = /\bHTTP 4\d\d\b/;
+
+/**
+ * Messages describing connectivity or server trouble rather than a problem
+ * with the report (e.g. ArcGIS generic code 1000 while the database is busy).
+ */
+const TRANSIENT_MESSAGE_PATTERN =
+  /network|offline|timeout|timed out|aborted|temporarily|try again|database is (locked|busy)|unable to complete operation/i;
+
+// ============================================
+// CLASSIFICATION
+// ============================================
+
+/**
+ * Classify a failed DMF submission result.
+ *
+ * Results flagged `queued` never got a definitive answer from ArcGIS
+ * (network error, HTTP failure) and default to transient. Results without
+ * that flag carry an ArcGIS error description for the feature itself and
+ * default to permanent — the same payload will be rejected again.
+ *
+ * @param result - The failed submission result
+ * @returns How the failure should be handled
+ */
+export function classifyDMFError(
+  result: Pick<DMFSubmissionResult, 'error' | 'queued'>
+): DMFErrorKind {
+  const error = result.error ?? '';
+
+  if (CONFIG_PATTERNS.some(pattern => pattern.test(error))) {
+    return 'config';
+  }
+  if (TRANSIENT_STATUS_PATTERN.test(error)) {
+    return 'transient';
+  }
+  if (PERMANENT_STATUS_PATTERN.test(error)) {
+    return 'permanent';
+  }
+  if (result.queued || !error) {
+    return 'transient';
+  }
+  return TRANSIENT_MESSAGE_PATTERN.test(error) ? 'transient' : 'permanent';
+}
+
+/**
+ * Get a message the user can act on for a classified failure.
+ *
+ * @param kind - Classification from classifyDMFError
+ * @param error - Raw error text, included for permanent rejections
+ * @returns User-facing message
+ */
+export function getActionableErrorMessage(kind: DMFErrorKind, error?: string): string {
+  switch (kind) {
+    case 'permanent':
+      return error
+        ? `DMF rejected this report: ${error}. Edit the report to correct it, then resubmit.`
+        : 'DMF rejected this report. Edit the report to correct it, then resubmit.';
+    case 'config':
+      return 'The app could not connect to the DMF reporting service. Your report is saved — check for an app update, or export the report and file it with DMF directly.';
+    default:
+      return 'DMF could not be reached. Your report is saved and will be retried automatically.';
+  }
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export default {
+  classifyDMFError,
+  getActionableErrorMessage,
+};
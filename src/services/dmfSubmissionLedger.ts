@@ -0,0 +1,226 @@
+// services/dmfSubmissionLedger.ts
+//
+// Persistent ledger of DMF submission attempts.
+// Pins one GlobalID/confirmation number to each harvest and records every
+// attempt to file it, so retries after an ambiguous failure (request sent,
+// response lost) can be checked against ArcGIS instead of re-posted blindly.
+//
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { APP_CONFIG } from '../config/appConfig';
+import {
+  DMFSubmissionIdentity,
+  DMFLedgerAttempt,
+  DMFLedgerEntry,
+} from '../types/harvestReport';
+import { captureError } from '../utils/sentryUtils';
+
+// ============================================
+// STORAGE
+// ============================================
+
+const LEDGER_KEY = APP_CONFIG.storageKeys.dmfSubmissionLedger;
+
+/** Submitted entries older than this are pruned from the ledger. */
+const SETTLED_RETENTION_DAYS = 90;
+
+/**
+ * Pending entries untouched for this long are pruned too — their reports
+ * were removed from the dead-letter store or abandoned long ago.
+ */
+const UNSETTLED_RETENTION_DAYS = 365;
+
+type Ledger = Record<string, DMFLedgerEntry>;
+
+async function readLedger(): Promise<Ledger> {
+  try {
+    const data = await AsyncStorage.getItem(LEDGER_KEY);
+    return data ? JSON.parse(data) : {};
+  } catch (error) {
+    captureError(error, 'dmfSubmissionLedger:read');
+    return {};
+  }
+}
+
+async function writeLedger(ledger: Ledger): Promise<void> {
+  try {
+    await AsyncStorage.setItem(LEDGER_KEY, JSON.stringify(ledger));
+  } catch (error) {
+    captureError(error, 'dmfSubmissionLedger:write');
+  }
+}
+
+// Every read-modify-write of the ledger runs through this chain, so an
+// immediate submission and a queue sync can't overwrite each other's entries.
+let ledgerUpdate: Promise<unknown> = Promise.resolve();
+
+function updateLedger<T>(update: () => Promise<T>): Promise<T> {
+  const next = ledgerUpdate.then(update);
+  ledgerUpdate = next.catch(() => undefined);
+  return next;
+}
+
+function createEntry(identity: DMFSubmissionIdentity, now: string): DMFLedgerEntry {
+  return {
+    globalId: identity.globalId,
+    confirmationNumber: identity.confirmationNumber,
+    status: 'pending',
+    attempts: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// ============================================
+// READS
+// ============================================
+
+/**
+ * Get every ledger entry, newest first.
+ */
+export async function getLedger(): Promise<DMFLedgerEntry[]> {
+  const ledger = await readLedger();
+  return Object.values(ledger).sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+}
+
+/**
+ * Get the ledger entry for a GlobalID.
+ *
+ * @param globalId - GlobalID pinned to the harvest
+ * @returns The entry, or undefined if this harvest was never attempted
+ */
+export async function getLedgerEntry(globalId: string): Promise<DMFLedgerEntry | undefined> {
+  const ledger = await readLedger();
+  return ledger[globalId];
+}
+
+/**
+ * Whether an earlier attempt may have reached DMF without us learning the
+ * outcome. True when any prior attempt was left in flight or failed at the
+ * network level — ArcGIS rejections are definitive and don't count.
+ *
+ * @param entry - Ledger entry to inspect
+ */
+export function hasAmbiguousAttempt(entry: DMFLedgerEntry | undefined): boolean {
+  if (!entry) return false;
+  return entry.attempts.some(a => a.outcome === 'in_flight' || a.outcome === 'failed');
+}
+
+// ============================================
+// WRITES
+// ============================================
+
+/**
+ * Record that a request is about to be sent to DMF.
+ *
+ * Written BEFORE the request goes out so that if the app dies mid-request the
+ * next retry still knows an attempt may have landed.
+ *
+ * @param identity - Identity pinned to the harvest
+ */
+export function beginSubmissionAttempt(identity: DMFSubmissionIdentity): Promise<void> {
+  return updateLedger(async () => {
+    const ledger = await readLedger();
+    const now = new Date().toISOString();
+    const entry = ledger[identity.globalId] ?? createEntry(identity, now);
+
+    entry.attempts.push({ attemptedAt: now, outcome: 'in_flight' });
+    entry.updatedAt = now;
+    ledger[identity.globalId] = entry;
+    await writeLedger(ledger);
+  });
+}
+
+/**
+ * Record the outcome of an attempt.
+ *
+ * Resolves the most recent in-flight attempt if there is one, otherwise
+ * appends a new attempt (e.g. when a pre-flight GlobalID lookup found the
+ * feature and nothing was posted).
+ *
+ * @param identity - Identity pinned to the harvest
+ * @param result - Outcome of the attempt
+ */
+export function completeSubmissionAttempt(
+  identity: DMFSubmissionIdentity,
+  result: Omit<DMFLedgerAttempt, 'attemptedAt'>
+): Promise<void> {
+  return updateLedger(async () => {
+    const ledger = await readLedger();
+    const now = new Date().toISOString();
+    const entry = ledger[identity.globalId] ?? createEntry(identity, now);
+
+    const last = entry.attempts[entry.attempts.length - 1];
+    if (last && last.outcome === 'in_flight') {
+      entry.attempts[entry.attempts.length - 1] = { ...last, ...result };
+    } else {
+      entry.attempts.push({ attemptedAt: now, ...result });
+    }
+
+    if (result.outcome === 'submitted' || result.outcome === 'already_submitted') {
+      entry.status = 'submitted';
+      entry.objectId = result.objectId;
+    }
+
+    entry.updatedAt = now;
+    ledger[identity.globalId] = entry;
+    await writeLedger(ledger);
+  });
+}
+
+/**
+ * Drop entries older than their retention window.
+ *
+ * Submitted entries go after SETTLED_RETENTION_DAYS. Pending entries are kept
+ * much longer (UNSETTLED_RETENTION_DAYS) — they belong to reports that may
+ * still be queued or dead-lettered and are needed for the duplicate check.
+ *
+ * @returns Number of entries removed
+ */
+export function pruneLedger(): Promise<number> {
+  return updateLedger(async () => {
+    const ledger = await readLedger();
+    const day = 24 * 60 * 60 * 1000;
+    const settledCutoff = Date.now() - SETTLED_RETENTION_DAYS * day;
+    const unsettledCutoff = Date.now() - UNSETTLED_RETENTION_DAYS * day;
+    let removed = 0;
+
+    for (const [globalId, entry] of Object.entries(ledger)) {
+      const cutoff = entry.status === 'submitted' ? settledCutoff : unsettledCutoff;
+      if (new Date(entry.updatedAt).getTime() < cutoff) {
+        delete ledger[globalId];
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      await writeLedger(ledger);
+    }
+    return removed;
+  });
+}
+
+/**
+ * Clear the entire ledger.
+ *
+ * Use with caution - this disables the duplicate check for queued reports.
+ */
+export function clearLedger(): Promise<void> {
+  return updateLedger(() => AsyncStorage.removeItem(LEDGER_KEY));
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+export default {
+  getLedger,
+  getLedgerEntry,
+  hasAmbiguousAttempt,
+  beginSubmissionAttempt,
+  completeSubmissionAttempt,
+  pruneLedger,
+  clearLedger,
+};
@@ -1,21 +1,28 @@
 // services/followsService.ts
 //
-// Backend access for follow relationships (user_follows table).
+// Backend access for follow relationships (user_follows table) and follow
+// requests for private profiles (follow_requests table).
 // Counts are denormalized on the users table via DB triggers, so reads are cheap.
 
 import { supabase } from '../config/supabase';
-import { CatchFeedEntry, SpeciesCatch } from '../types/catchFeed';
+import { CatchFeedEntry, FeedCursor, PostVisibility, SpeciesCatch } from '../types/catchFeed';
+import type { NewerCatches, PaginatedCatchFeed } from './catchFeedService';
+import { getSpeciesCountBreakdown, rowToSpeciesCounts } from '../constants/species';
 
 export interface FollowProfileData {
   followersCount: number;
   followingCount: number;
   isFollowing: boolean;
+  /** Target's profile is private, so following needs their approval */
+  isPrivate: boolean;
+  /** Viewer has a pending follow request to the target */
+  isRequested: boolean;
 }
 
 /**
  * Read the follower/following counts for a target user, plus whether the
- * viewer (currentUserId) currently follows them. When viewer is null
- * (anonymous or non-rewards), isFollowing is false.
+ * viewer (currentUserId) currently follows them or has a pending request.
+ * When viewer is null (anonymous or non-rewards), both are false.
  */
 export async function fetchFollowProfileData(
   targetUserId: string,
@@ -23,7 +30,7 @@ export async function fetchFollowProfileData(
 ): Promise<FollowProfileData> {
   const userPromise = supabase
     .from('users')
-    .select('followers_count, following_count')
+    .select('followers_count, following_count, is_private')
     .eq('id', targetUserId)
     .maybeSingle();
 
@@ -36,10 +43,20 @@ export async function fetchFollowProfileData(
         .maybeSingle()
     : Promise.resolve({ data: null, error: null } as const);
 
-  const [{ data: userData, error: userErr }, { data: followRow }] = await Promise.all([
-    userPromise,
-    followPromise,
-  ]);
+  const requestPromise = viewerUserId
+    ? supabase
+        .from('follow_requests')
+        .select('requester_id')
+        .eq('requester_id', viewerUserId)
+        .eq('target_id', targetUserId)
+        .maybeSingle()
+    : Promise.resolve({ data: null, error: null } as const);
+
+  const [
+    { data: userData, error: userErr },
+    { data: followRow },
+    { data: requestRow },
+  ] = await Promise.all([userPromise, followPromise, requestPromise]);
 
   if (userErr) {
     throw new Error(`Failed to fetch follow profile: ${userErr.message}`);
@@ -49,12 +66,15 @@ export async function fetchFollowProfileData(
     followersCount: userData?.followers_count ?? 0,
     followingCount: userData?.following_count ?? 0,
     isFollowing: !!followRow,
+    isPrivate: userData?.is_private ?? false,
+    isRequested: !!requestRow,
   };
 }
 
 /**
  * Follow a user. RLS enforces follower_id matches the caller's rewards user
- * and following_id is a rewards opt-in user.
+ * and following_id is a rewards opt-in user with a public profile; private
+ * profiles go through requestFollow instead.
  */
 export async function followUser(
   targetUserId: string,
@@ -165,48 +185,144 @@ export async function fetchFollowing(sourceUserId: string): Promise<FollowListMe
     .map(transformMember);
 }
 
-export async function fetchFollowingFeed(
-  limit = 12,
-  offset = 0,
-): Promise<{ entries: CatchFeedEntry[]; hasMore: boolean }> {
-  // Fetch one extra row to detect hasMore.
+// =============================================================================
+// Follow Requests (private profiles)
+// =============================================================================
+
+export interface FollowRequest {
+  requester: FollowListMember;
+  requestedAt: string;
+}
+
+/**
+ * Ask to follow a private profile. RLS enforces requester_id matches the
+ * caller. Idempotent — a duplicate request is absorbed.
+ */
+export async function requestFollow(
+  targetUserId: string,
+  currentUserId: string,
+): Promise<void> {
+  const { error } = await supabase
+    .from('follow_requests')
+    .insert({ requester_id: currentUserId, target_id: targetUserId });
+
+  // 23505 = unique_violation; already requested. Treat as success.
+  if (error && error.code !== '23505') {
+    throw new Error(`Failed to request follow: ${error.message}`);
+  }
+}
+
+/**
+ * Withdraw a pending follow request. RLS enforces only the requester may delete.
+ */
+export async function cancelFollowRequest(
+  targetUserId: string,
+  currentUserId: string,
+): Promise<void> {
+  const { error } = await supabase
+    .from('follow_requests')
+    .delete()
+    .eq('requester_id', currentUserId)
+    .eq('target_id', targetUserId);
+
+  if (error) {
+    throw new Error(`Failed to cancel follow request: ${error.message}`);
+  }
+}
+
+/**
+ * Fetch pending follow requests sent to `currentUserId`, newest first.
+ */
+export async function fetchFollowRequests(currentUserId: string): Promise<FollowRequest[]> {
+  const { data, error } = await supabase
+    .from('follow_requests')
+    .select(`
+      created_at,
+      users:requester_id (
+        id,
+        first_name,
+        last_name,
+        profile_image_url
+      )
+    `)
+    .eq('target_id', currentUserId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw new Error(`Failed to fetch follow requests: ${error.message}`);
+
+  return ((data ?? []) as unknown as Array<{ created_at: string; users: RawMemberRow | null }>)
+    .filter((r) => !!r.users)
+    .map((r) => ({
+      requester: transformMember(r.users as RawMemberRow),
+      requestedAt: r.created_at,
+    }));
+}
+
+/**
+ * Approve or deny a follow request sent to the caller. Approving creates the
+ * follow server-side (respond_follow_request RPC); either way the request is
+ * removed.
+ */
+export async function respondToFollowRequest(
+  requesterUserId: string,
+  approve: boolean,
+): Promise<void> {
+  const { error } = await supabase.rpc('respond_follow_request', {
+    p_requester_id: requesterUserId,
+    p_approve: approve,
+  });
+
+  if (error) {
+    throw new Error(`Failed to respond to follow request: ${error.message}`);
+  }
+}
+
+type FollowingFeedRow = Record<string, unknown> & {
+  report_id: string;
+  user_id: string;
+  photo_url: string | null;
+  area_label: string | null;
+  harvest_date: string | null;
+  created_at: string;
+  first_name: string | null;
+  last_name: string | null;
+  profile_image_url: string | null;
+  total_fish: number;
+  like_count: number;
+  fish_entries_json: unknown;
+  report_type: string | null;
+  photos: unknown;
+  comment_count: number;
+  visibility?: PostVisibility | null;
+};
+
+/**
+ * Call get_following_feed. Rows come back newest first, keyed on
+ * (created_at, report_id): `before` pages backwards, `after` returns only
+ * rows newer than the head of the list.
+ */
+async function callFollowingFeed(
+  limit: number,
+  { before = null, after = null }: { before?: FeedCursor | null; after?: FeedCursor | null },
+): Promise<FollowingFeedRow[]> {
   const { data, error } = await supabase.rpc('get_following_feed', {
-    p_limit: limit + 1,
-    p_offset: offset,
+    p_limit: limit,
+    p_before_created_at: before?.createdAt ?? null,
+    p_before_id: before?.id ?? null,
+    p_after_created_at: after?.createdAt ?? null,
+    p_after_id: after?.id ?? null,
   });
 
   if (error) {
     throw new Error(`Failed to fetch following feed: ${error.message}`);
   }
 
-  const rows = (data ?? []) as Array<{
-    report_id: string;
-    user_id: string;
-    photo_url: string | null;
-    area_label: string | null;
-    harvest_date: string | null;
-    created_at: string;
-    first_name: string | null;
-    last_name: string | null;
-    profile_image_url: string | null;
-    red_drum_count: number;
-    flounder_count: number;
-    spotted_seatrout_count: number;
-    weakfish_count: number;
-    striped_bass_count: number;
-    total_fish: number;
-    like_count: number;
-    fish_entries_json: unknown;
-    report_type: string | null;
-    photos: unknown;
-    comment_count: number;
-  }>;
-
-  const hasMore = rows.length > limit;
-  const visible = hasMore ? rows.slice(0, limit) : rows;
+  return (data ?? []) as FollowingFeedRow[];
+}
 
+function transformFollowingRows(rows: FollowingFeedRow[]): CatchFeedEntry[] {
   const entries: CatchFeedEntry[] = [];
-  for (const row of visible) {
+  for (const row of rows) {
     const firstName = row.first_name || 'Anonymous';
     const lastInitial = row.last_name ? `${row.last_name.charAt(0)}.` : '';
     const anglerName = `${firstName} ${lastInitial}`.trim();
@@ -221,16 +337,7 @@ export async function fetchFollowingFeed(
       }));
     }
     if (speciesList.length === 0) {
-      const allSpecies = [
-        { species: 'Red Drum', count: row.red_drum_count },
-        { species: 'Flounder', count: row.flounder_count },
-        { species: 'Spotted Seatrout (speckled trout)', count: row.spotted_seatrout_count },
-        { species: 'Weakfish (gray trout)', count: row.weakfish_count },
-        { species: 'Striped Bass', count: row.striped_bass_count },
-      ];
-      speciesList = allSpecies
-        .filter((s) => s.count && s.count > 0)
-        .map((s) => ({ species: s.species, count: s.count as number }));
+      speciesList = getSpeciesCountBreakdown(rowToSpeciesCounts(row), 'pickerLabel');
     }
     if (speciesList.length === 0) continue;
 
@@ -256,8 +363,45 @@ export async function fetchFollowingFeed(
       likeCount: row.like_count ?? 0,
       isLikedByCurrentUser: false,
       commentCount: row.comment_count ?? 0,
+      visibility: row.visibility ?? undefined,
     });
   }
+  return entries;
+}
+
+/**
+ * Fetch a page of the Following feed, older than `cursor` (first page when null).
+ */
+export async function fetchFollowingFeed(
+  limit = 12,
+  cursor: FeedCursor | null = null,
+): Promise<PaginatedCatchFeed> {
+  // Fetch one extra row to detect hasMore.
+  const rows = await callFollowingFeed(limit + 1, { before: cursor });
+
+  const hasMore = rows.length > limit;
+  const visible = hasMore ? rows.slice(0, limit) : rows;
+  const last = visible[visible.length - 1];
 
-  return { entries, hasMore };
+  return {
+    entries: transformFollowingRows(visible),
+    hasMore,
+    nextCursor: last ? { createdAt: last.created_at, id: last.report_id } : cursor,
+  };
+}
+
+/**
+ * Fetch Following feed catches newer than `headCursor`, newest first.
+ */
+export async function fetchNewerFollowingCatches(
+  headCursor: FeedCursor,
+  limit = 50,
+): Promise<NewerCatches> {
+  const rows = await callFollowingFeed(limit + 1, { after: headCursor });
+
+  const hasMore = rows.length > limit;
+  return {
+    entries: transformFollowingRows(hasMore ? rows.slice(0, limit) : rows),
+    hasMore,
+  };
 }
@@ -5,16 +5,28 @@
 //
 
 import NetInfo from '@react-native-community/netinfo';
-import { isTestMode, getDMFEndpoint } from '../config/appConfig';
+import { APP_CONFIG, isTestMode, getDMFEndpoint } from '../config/appConfig';
 import { captureError } from '../utils/sentryUtils';
+import { isValidGeoPoint } from '../constants/areaLookup';
 import {
   HarvestReportInput,
   DMFSubmissionResult,
   DMFPayload,
   DMFAttributes,
   DMFGeometry,
+  DMFSubmissionIdentity,
+  DMFAddResult,
+  DMFApplyEditsResponse,
+  inputToSpeciesCounts,
 } from '../types/harvestReport';
+import { speciesToDMFPayload } from '../constants/species';
 import { supabase } from '../config/supabase';
+import {
+  getLedgerEntry,
+  hasAmbiguousAttempt,
+  beginSubmissionAttempt,
+  completeSubmissionAttempt,
+} from './dmfSubmissionLedger';
 
 // ============================================
 // GUID GENERATION
@@ -64,6 +76,25 @@ export function generateConfirmationNumber(): ConfirmationNumberParts {
   return { dateS, rand, unique1: dateS + rand };
 }
 
+/**
+ * Create the identity (GlobalID + confirmation number) for a new harvest.
+ *
+ * Call this ONCE per harvest and reuse the result on every submission
+ * attempt — a fresh identity per attempt is what lets a lost response turn
+ * into a duplicate filing.
+ *
+ * @returns Identity to pin to the report
+ */
+export function createSubmissionIdentity(): DMFSubmissionIdentity {
+  const { dateS, rand, unique1 } = generateConfirmationNumber();
+  return {
+    globalId: generateGlobalId(),
+    dateS,
+    rand,
+    confirmationNumber: unique1,
+  };
+}
+
 // ============================================
 // PAYLOAD TRANSFORMATION
 // ============================================
@@ -72,15 +103,19 @@ export function generateConfirmationNumber(): ConfirmationNumberParts {
  * Transform user input into DMF ArcGIS payload format.
  *
  * IMPORTANT: This strips out app-only fields (raffle, photos, GPS, etc.)
- * Only DMF-required and DMF-optional fields are included.
+ * Only DMF-required and DMF-optional fields are included. The GPS fix is
+ * sent as the feature geometry only when `features.sendGpsGeometry` is on.
  *
  * @param input - User input from the harvest report form
+ * @param identity - Pinned GlobalID/confirmation number (generated if omitted)
  * @returns DMF payload ready for submission
  */
-export function transformToDMFPayload(input: HarvestReportInput): DMFPayload {
+export function transformToDMFPayload(
+  input: HarvestReportInput,
+  identity: DMFSubmissionIdentity = createSubmissionIdentity()
+): DMFPayload {
   const now = new Date();
-  const { dateS, rand, unique1 } = generateConfirmationNumber();
-  const globalId = generateGlobalId();
+  const { dateS, rand, confirmationNumber: unique1, globalId } = identity;
 
   const attributes: DMFAttributes = {
     // Identity
@@ -111,19 +146,8 @@ export function transformToDMFPayload(input: HarvestReportInput): DMFPayload {
     SysDate: now.getTime(),
     DateS: dateS,
 
-    // Species counts (as strings)
-    NumRD: input.redDrumCount.toString(),
-    NumF: input.flounderCount.toString(),
-    NumSS: input.spottedSeatroutCount.toString(),
-    NumW: input.weakfishCount.toString(),
-    NumSB: input.stripedBassCount.toString(),
-
-    // Species flags (always null - legacy fields)
-    RedDr: null,
-    Flound: null,
-    SST: null,
-    Weakf: null,
-    Striped: null,
+    // Species counts (as strings) and legacy flags (always null), one pair per SPECIES entry
+    ...speciesToDMFPayload(inputToSpeciesCounts(input)),
 
     // Confirmation number
     Rand: rand,
@@ -143,6 +167,17 @@ export function transformToDMFPayload(input: HarvestReportInput): DMFPayload {
     GlobalID: globalId,
   };
 
+  return { attributes, geometry: toDMFGeometry(input.gpsCoordinates) };
+}
+
+/**
+ * Build the feature geometry for a report.
+ *
+ * Survey123 submits 0,0,0 when no location is captured, so that remains the
+ * default. Real coordinates are only sent when the feature flag is enabled
+ * and the fix is a valid WGS84 position.
+ */
+function toDMFGeometry(coordinates: HarvestReportInput['gpsCoordinates']): DMFGeometry {
   const geometry: DMFGeometry = {
     spatialReference: { wkid: 4326 },
     x: 0,
@@ -150,7 +185,11 @@ export function transformToDMFPayload(input: HarvestReportInput): DMFPayload {
     z: 0,
   };
 
-  return { attributes, geometry };
+  if (!APP_CONFIG.features.sendGpsGeometry || !isValidGeoPoint(coordinates)) {
+    return geometry;
+  }
+
+  return { ...geometry, x: coordinates.longitude, y: coordinates.latitude };
 }
 
 // ============================================
@@ -246,26 +285,129 @@ export async function triggerDMFConfirmationWebhook(
 }
 
 // ============================================
-// DMF SUBMISSION (Production)
+// DUPLICATE DETECTION
 // ============================================
 
 /**
- * Submit harvest report to NC DMF ArcGIS API.
+ * Get the feature layer query endpoint from the applyEdits endpoint.
  *
- * This is the PRODUCTION submission function that actually sends data to DMF.
- * Use `submitHarvestReport()` instead, which handles mock mode automatically.
+ * The configured endpoint is the service-level applyEdits URL; harvest
+ * reports live in layer 0.
+ */
+export function getDMFQueryEndpoint(): string {
+  return `${getDMFEndpoint().replace(/\/applyEdits\/?$/, '')}/0/query`;
+}
+
+/**
+ * Look up a feature in the DMF layer by GlobalID.
  *
- * @param input - User input from the harvest report form
- * @returns Submission result with confirmation number on success
+ * Used before re-posting a report whose earlier attempt may have landed.
+ * Throws on network/ArcGIS errors — callers must not assume "not found"
+ * when the lookup itself failed.
+ *
+ * @param globalId - GlobalID pinned to the harvest
+ * @returns The ArcGIS object ID if the feature exists, null otherwise
+ */
+export async function findExistingDMFFeature(globalId: string): Promise<number | null> {
+  const params = new URLSearchParams();
+  params.append('f', 'json');
+  params.append('where', `GlobalID = '${globalId}'`);
+  params.append('returnIdsOnly', 'true');
+
+  const response = await fetch(`${getDMFQueryEndpoint()}?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  if (result?.error) {
+    throw toArcGISError(result.error, 'DMF query failed');
+  }
+
+  const objectIds: number[] = result?.objectIds ?? [];
+  return objectIds.length > 0 ? objectIds[0] : null;
+}
+
+/**
+ * Settle a harvest from its earlier attempts, if possible.
+ *
+ * Returns a success result without posting when the ledger already shows the
+ * harvest as submitted, or when an earlier ambiguous attempt turns out to
+ * have landed in DMF (in which case its missed confirmation webhook is fired
+ * now). Returns null when the harvest still needs to be posted. Throws if
+ * the GlobalID lookup fails — posting blind could file a duplicate.
+ *
+ * @param identity - Identity pinned to the harvest
+ * @param feature - Payload built with that identity (for the webhook)
+ */
+async function resolvePriorSubmission(
+  identity: DMFSubmissionIdentity,
+  feature: DMFPayload
+): Promise<DMFSubmissionResult | null> {
+  const { confirmationNumber } = identity;
+  const ledgerEntry = await getLedgerEntry(identity.globalId);
+
+  if (ledgerEntry?.status === 'submitted') {
+    console.log(`🧾 ${confirmationNumber} already filed with DMF (ledger) — not re-posting`);
+    return { success: true, confirmationNumber, objectId: ledgerEntry.objectId };
+  }
+
+  if (!hasAmbiguousAttempt(ledgerEntry)) {
+    return null;
+  }
+
+  const existingObjectId = await findExistingDMFFeature(identity.globalId);
+  if (existingObjectId === null) {
+    return null;
+  }
+
+  console.log(`🧾 ${confirmationNumber} found in DMF (object ${existingObjectId}) — not re-posting`);
+  await completeSubmissionAttempt(identity, {
+    outcome: 'already_submitted',
+    objectId: existingObjectId,
+  });
+
+  // The earlier response was lost, so its confirmation webhook never fired
+  triggerDMFConfirmationWebhook(
+    existingObjectId,
+    identity.globalId,
+    feature.attributes,
+    feature.geometry,
+    false,
+  );
+
+  return { success: true, confirmationNumber, objectId: existingObjectId };
+}
+
+/**
+ * Build an Error from a top-level ArcGIS error body.
+ *
+ * Keeps the ArcGIS status code in the message (e.g. "ArcGIS 498: Invalid
+ * token") so failures can be classified the same way as HTTP errors.
  */
-export async function submitToDMF(input: HarvestReportInput): Promise<DMFSubmissionResult> {
-  const feature = transformToDMFPayload(input);
-  const confirmationNumber = feature.attributes.Unique1;
+function toArcGISError(error: { code?: number; message?: string }, fallback: string): Error {
+  const message = error.message || fallback;
+  return new Error(error.code ? `ArcGIS ${error.code}: ${message}` : message);
+}
 
+/**
+ * POST features to the ArcGIS applyEdits endpoint.
+ *
+ * A top-level ArcGIS error (bad token, service unavailable) means nothing was
+ * applied, so it is thrown like an HTTP failure rather than returned.
+ *
+ * @param features - Features to add to layer 0
+ * @param rollbackOnFailure - Whether one failed add rolls back the others
+ * @returns The parsed applyEdits response
+ */
+async function postApplyEdits(
+  features: DMFPayload[],
+  rollbackOnFailure: boolean
+): Promise<DMFApplyEditsResponse> {
   // Build the edits payload for ArcGIS applyEdits endpoint
   const edits = JSON.stringify([{
     id: 0,
-    adds: [feature],
+    adds: features,
   }]);
 
   // Build form data (application/x-www-form-urlencoded)
@@ -273,26 +415,68 @@ export async function submitToDMF(input: HarvestReportInput): Promise<DMFSubmiss
   formData.append('f', 'json');
   formData.append('edits', edits);
   formData.append('useGlobalIds', 'true');
-  formData.append('rollbackOnFailure', 'true');
+  formData.append('rollbackOnFailure', rollbackOnFailure ? 'true' : 'false');
+
+  const response = await fetch(getDMFEndpoint(), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: formData.toString(),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
 
-  try {
-    const response = await fetch(getDMFEndpoint(), {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: formData.toString(),
-    });
+  const result = await response.json();
+  if (result?.error) {
+    throw toArcGISError(result.error, 'DMF applyEdits failed');
+  }
+  return result;
+}
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+// ============================================
+// DMF SUBMISSION (Production)
+// ============================================
+
+/**
+ * Submit harvest report to NC DMF ArcGIS API.
+ *
+ * This is the PRODUCTION submission function that actually sends data to DMF.
+ * Use `submitHarvestReport()` instead, which handles mock mode automatically.
+ *
+ * Exactly-once: every attempt is recorded in the submission ledger. If the
+ * ledger already shows the harvest as submitted, nothing is sent. If an
+ * earlier attempt ended ambiguously, DMF is queried by GlobalID first and
+ * the existing feature is adopted instead of posting a duplicate.
+ *
+ * @param input - User input from the harvest report form
+ * @param identity - Pinned GlobalID/confirmation number (generated if omitted)
+ * @returns Submission result with confirmation number on success
+ */
+export async function submitToDMF(
+  input: HarvestReportInput,
+  identity: DMFSubmissionIdentity = createSubmissionIdentity()
+): Promise<DMFSubmissionResult> {
+  const feature = transformToDMFPayload(input, identity);
+  const confirmationNumber = identity.confirmationNumber;
+
+  try {
+    const prior = await resolvePriorSubmission(identity, feature);
+    if (prior) {
+      return prior;
     }
 
-    const result = await response.json();
+    await beginSubmissionAttempt(identity);
+
+    const result = await postApplyEdits([feature], true);
 
     // ArcGIS returns an array with addResults
-    if (result[0]?.addResults?.[0]?.success) {
-      const objectId = result[0].addResults[0].objectId;
+    const addResult = result[0]?.addResults?.[0];
+    if (addResult?.success) {
+      const objectId = addResult.objectId;
+      await completeSubmissionAttempt(identity, { outcome: 'submitted', objectId });
 
       // Trigger text/email confirmation webhooks (fire-and-forget)
       triggerDMFConfirmationWebhook(
@@ -310,11 +494,16 @@ export async function submitToDMF(input: HarvestReportInput): Promise<DMFSubmiss
       };
     } else {
       // Extract error message from ArcGIS response
-      const error = result[0]?.addResults?.[0]?.error?.description || 'Unknown DMF error';
+      const error = addResult?.error?.description || 'Unknown DMF error';
+      await completeSubmissionAttempt(identity, { outcome: 'rejected', error });
       return { success: false, error };
     }
   } catch (error) {
     captureError(error, 'harvestReport:submitToDMF');
+    await completeSubmissionAttempt(identity, {
+      outcome: 'failed',
+      error: error instanceof Error ? error.message : 'Network error',
+    });
     // Network error or other failure - queue for later
     return {
       success: false,
@@ -325,6 +514,122 @@ export async function submitToDMF(input: HarvestReportInput): Promise<DMFSubmiss
   }
 }
 
+// ============================================
+// BATCH SUBMISSION (Production)
+// ============================================
+
+/**
+ * One report in a batched submission.
+ */
+export interface BatchSubmissionItem {
+  /** User input for the report */
+  input: HarvestReportInput;
+  /** Identity pinned to the report (its GlobalID/confirmation number) */
+  identity: DMFSubmissionIdentity;
+}
+
+/** Normalize a GlobalID for comparison (ArcGIS may echo it without braces). */
+function normalizeGlobalId(globalId: string | undefined | null): string {
+  return (globalId ?? '').replace(/[{}]/g, '').toUpperCase();
+}
+
+/**
+ * Submit several harvest reports to DMF in a single applyEdits request.
+ *
+ * Reports that are already settled (per the ledger or a GlobalID lookup) are
+ * resolved without posting. The rest go out together with
+ * rollbackOnFailure=false, so one report rejected by ArcGIS doesn't take the
+ * others down with it. Each addResults entry is matched back to its report by
+ * GlobalID, falling back to position.
+ *
+ * @param items - Reports with their pinned identities
+ * @returns One result per item, in the same order
+ */
+export async function submitBatchToDMF(items: BatchSubmissionItem[]): Promise<DMFSubmissionResult[]> {
+  const results: DMFSubmissionResult[] = new Array(items.length);
+  const features = items.map(item => transformToDMFPayload(item.input, item.identity));
+  const toPost: number[] = [];
+
+  // Settle anything that may already be in DMF before building the batch
+  for (let i = 0; i < items.length; i++) {
+    const { identity } = items[i];
+    try {
+      const prior = await resolvePriorSubmission(identity, features[i]);
+      if (prior) {
+        results[i] = prior;
+      } else {
+        toPost.push(i);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Network error';
+      await completeSubmissionAttempt(identity, { outcome: 'failed', error: message });
+      results[i] = { success: false, error: message, queued: true, confirmationNumber: identity.confirmationNumber };
+    }
+  }
+
+  if (toPost.length === 0) {
+    return results;
+  }
+
+  for (const i of toPost) {
+    await beginSubmissionAttempt(items[i].identity);
+  }
+
+  let addResults: DMFAddResult[];
+  try {
+    const response = await postApplyEdits(toPost.map(i => features[i]), false);
+    addResults = response[0]?.addResults ?? [];
+  } catch (error) {
+    captureError(error, 'harvestReport:submitBatchToDMF');
+    const message = error instanceof Error ? error.message : 'Network error';
+    for (const i of toPost) {
+      const { identity } = items[i];
+      await completeSubmissionAttempt(identity, { outcome: 'failed', error: message });
+      results[i] = { success: false, error: message, queued: true, confirmationNumber: identity.confirmationNumber };
+    }
+    return results;
+  }
+
+  const byGlobalId = new Map<string, DMFAddResult>();
+  for (const addResult of addResults) {
+    if (addResult?.globalId) {
+      byGlobalId.set(normalizeGlobalId(addResult.globalId), addResult);
+    }
+  }
+
+  for (const i of toPost) {
+    const { identity } = items[i];
+    // useGlobalIds is set, so every result carries its GlobalID. Never fall
+    // back to position — a reordered or short response would credit the
+    // wrong harvest.
+    const addResult = byGlobalId.get(normalizeGlobalId(identity.globalId));
+
+    if (addResult?.success) {
+      const objectId = addResult.objectId;
+      await completeSubmissionAttempt(identity, { outcome: 'submitted', objectId });
+      triggerDMFConfirmationWebhook(
+        objectId,
+        identity.globalId,
+        features[i].attributes,
+        features[i].geometry,
+        false,
+      );
+      results[i] = { success: true, confirmationNumber: identity.confirmationNumber, objectId };
+    } else if (addResult) {
+      const error = addResult.error?.description || 'Unknown DMF error';
+      await completeSubmissionAttempt(identity, { outcome: 'rejected', error });
+      results[i] = { success: false, error };
+    } else {
+      // No result for this feature — treat as ambiguous so the retry checks first
+      const error = 'No result returned for report';
+      await completeSubmissionAttempt(identity, { outcome: 'failed', error });
+      results[i] = { success: false, error, queued: true, confirmationNumber: identity.confirmationNumber };
+    }
+  }
+
+  return results;
+}
+
 // ============================================
 // MOCK SUBMISSION (Test Mode)
 // ============================================
@@ -347,18 +652,30 @@ export interface MockSubmitOptions {
  * Logs the full payload to console and returns a fake success response.
  * Use this in development to verify payload structure.
  *
+ * Attempts are recorded in the submission ledger like production, but there
+ * is no remote layer to query, so only the ledger's own "submitted" state
+ * short-circuits a retry.
+ *
  * @param input - User input from the harvest report form
  * @param options - Optional mock behavior configuration
+ * @param identity - Pinned GlobalID/confirmation number (generated if omitted)
  * @returns Simulated submission result
  */
 export async function mockSubmitToDMF(
   input: HarvestReportInput,
-  options: MockSubmitOptions = {}
+  options: MockSubmitOptions = {},
+  identity: DMFSubmissionIdentity = createSubmissionIdentity()
 ): Promise<DMFSubmissionResult> {
   const { delayMs = 1500, simulateFailure = false, failureMessage } = options;
 
-  const feature = transformToDMFPayload(input);
-  const confirmationNumber = feature.attributes.Unique1;
+  const feature = transformToDMFPayload(input, identity);
+  const confirmationNumber = identity.confirmationNumber;
+
+  const ledgerEntry = await getLedgerEntry(identity.globalId);
+  if (ledgerEntry?.status === 'submitted') {
+    console.log(`🧾 MOCK: ${confirmationNumber} already filed (ledger) — not re-posting`);
+    return { success: true, confirmationNumber, objectId: ledgerEntry.objectId };
+  }
 
   // Log the full payload for debugging
   console.log('='.repeat(60));
@@ -392,12 +709,18 @@ export async function mockSubmitToDMF(
     };
   }
 
+  await beginSubmissionAttempt(identity);
+
   // Simulate network delay
   await new Promise<void>(resolve => setTimeout(() => resolve(), delayMs));
 
   // Optionally simulate failure
   if (simulateFailure) {
     console.log('⚠️ SIMULATED FAILURE');
+    await completeSubmissionAttempt(identity, {
+      outcome: 'failed',
+      error: failureMessage || 'Simulated failure for testing',
+    });
     return {
       success: false,
       error: failureMessage || 'Simulated failure for testing',
@@ -410,6 +733,7 @@ export async function mockSubmitToDMF(
   const fakeObjectId = Math.floor(Math.random() * 1000000) + 100000;
 
   console.log('✅ MOCK SUCCESS - Object ID:', fakeObjectId);
+  await completeSubmissionAttempt(identity, { outcome: 'submitted', objectId: fakeObjectId });
 
   // Trigger webhook in mock mode (skipWebhooks=true so edge function logs but doesn't call Azure)
   triggerDMFConfirmationWebhook(
@@ -427,6 +751,82 @@ export async function mockSubmitToDMF(
   };
 }
 
+/**
+ * Mock batched submission for testing without hitting DMF servers.
+ *
+ * Simulates one applyEdits round trip for the whole batch: a single
+ * connectivity check and delay, then a fake object ID per report.
+ *
+ * @param items - Reports with their pinned identities
+ * @param options - Optional mock behavior configuration
+ * @returns One simulated result per item, in the same order
+ */
+export async function mockSubmitBatchToDMF(
+  items: BatchSubmissionItem[],
+  options: MockSubmitOptions = {}
+): Promise<DMFSubmissionResult[]> {
+  const { delayMs = 1500, simulateFailure = false, failureMessage } = options;
+
+  console.log(`🧪 MOCK DMF BATCH SUBMISSION (Test Mode) - ${items.length} reports`);
+
+  const netState = await NetInfo.fetch();
+  const isOffline = !netState.isConnected || netState.isInternetReachable === false;
+
+  const results: DMFSubmissionResult[] = new Array(items.length);
+  const toPost: number[] = [];
+
+  for (let i = 0; i < items.length; i++) {
+    const { identity } = items[i];
+    const ledgerEntry = await getLedgerEntry(identity.globalId);
+    if (ledgerEntry?.status === 'submitted') {
+      results[i] = { success: true, confirmationNumber: identity.confirmationNumber, objectId: ledgerEntry.objectId };
+    } else if (isOffline) {
+      results[i] = { success: false, error: 'Device is offline', queued: true, confirmationNumber: identity.confirmationNumber };
+    } else {
+      toPost.push(i);
+    }
+  }
+
+  if (toPost.length === 0) {
+    return results;
+  }
+
+  for (const i of toPost) {
+    await beginSubmissionAttempt(items[i].identity);
+  }
+
+  // Simulate network delay (one round trip for the whole batch)
+  await new Promise<void>(resolve => setTimeout(() => resolve(), delayMs));
+
+  for (const i of toPost) {
+    const { input, identity } = items[i];
+
+    if (simulateFailure) {
+      const error = failureMessage || 'Simulated failure for testing';
+      await completeSubmissionAttempt(identity, { outcome: 'failed', error });
+      results[i] = { success: false, error, queued: true, confirmationNumber: identity.confirmationNumber };
+      continue;
+    }
+
+    const fakeObjectId = Math.floor(Math.random() * 1000000) + 100000;
+    await completeSubmissionAttempt(identity, { outcome: 'submitted', objectId: fakeObjectId });
+
+    const feature = transformToDMFPayload(input, identity);
+    triggerDMFConfirmationWebhook(
+      fakeObjectId,
+      identity.globalId,
+      feature.attributes,
+      feature.geometry,
+      true,
+    );
+
+    results[i] = { success: true, confirmationNumber: identity.confirmationNumber, objectId: fakeObjectId };
+  }
+
+  console.log(`✅ MOCK BATCH COMPLETE - ${toPost.length} posted`);
+  return results;
+}
+
 // ============================================
 // MAIN SUBMISSION FUNCTION
 // ============================================
@@ -437,18 +837,40 @@ export async function mockSubmitToDMF(
  * This is the main function to call from the UI. It checks `APP_CONFIG.mode`
  * and routes to either mock or production submission.
  *
+ * Pass the same `identity` on every retry of a harvest so the submission
+ * ledger can prevent duplicate filings.
+ *
  * @param input - User input from the harvest report form
  * @param mockOptions - Options for mock mode (ignored in production)
+ * @param identity - Pinned GlobalID/confirmation number (generated if omitted)
  * @returns Submission result with confirmation number
  */
 export async function submitHarvestReport(
   input: HarvestReportInput,
-  mockOptions?: MockSubmitOptions
+  mockOptions?: MockSubmitOptions,
+  identity?: DMFSubmissionIdentity
 ): Promise<DMFSubmissionResult> {
   if (isTestMode()) {
-    return mockSubmitToDMF(input, mockOptions);
+    return mockSubmitToDMF(input, mockOptions, identity);
+  }
+  return submitToDMF(input, identity);
+}
+
+/**
+ * Submit several harvest reports in one request - mock or production by app mode.
+ *
+ * @param items - Reports with their pinned identities
+ * @param mockOptions - Options for mock mode (ignored in production)
+ * @returns One result per item, in the same order
+ */
+export async function submitHarvestReportBatch(
+  items: BatchSubmissionItem[],
+  mockOptions?: MockSubmitOptions
+): Promise<DMFSubmissionResult[]> {
+  if (isTestMode()) {
+    return mockSubmitBatchToDMF(items, mockOptions);
   }
-  return submitToDMF(input);
+  return submitBatchToDMF(items);
 }
 
 // ============================================
@@ -522,11 +944,17 @@ export function checkRequiredDMFFields(input: HarvestReportInput): {
 export default {
   generateGlobalId,
   generateConfirmationNumber,
+  createSubmissionIdentity,
   transformToDMFPayload,
   triggerDMFConfirmationWebhook,
+  getDMFQueryEndpoint,
+  findExistingDMFFeature,
   submitToDMF,
+  submitBatchToDMF,
   mockSubmitToDMF,
+  mockSubmitBatchToDMF,
   submitHarvestReport,
+  submitHarvestReportBatch,
   previewDMFPayload,
   checkRequiredDMFFields,
 };
@@ -7,14 +7,28 @@
 export {
   generateGlobalId,
   generateConfirmationNumber,
+  createSubmissionIdentity,
   transformToDMFPayload,
+  findExistingDMFFeature,
   submitToDMF,
+  submitBatchToDMF,
   submitHarvestReport,
+  submitHarvestReportBatch,
   previewDMFPayload,
   checkRequiredDMFFields,
   type ConfirmationNumberParts,
+  type BatchSubmissionItem,
 } from './harvestReportService';
 
+// DMF Submission Ledger (exactly-once filing)
+export {
+  getLedger,
+  getLedgerEntry,
+  hasAmbiguousAttempt,
+  pruneLedger,
+  clearLedger,
+} from './dmfSubmissionLedger';
+
 // Offline Queue Service
 export {
   // Queue management
@@ -24,6 +38,9 @@ export {
   clearQueue,
   removeFromQueue,
   syncQueuedReports,
+  getRetryDelayMs,
+  // Dead-letter recovery
+  resubmitDeadLetter,
   // History management
   addToHistory,
   getHistory,
@@ -34,9 +51,26 @@ export {
   submitWithQueueFallback,
   // Types
   type SyncResult,
+  type SyncOptions,
   type SubmitWithQueueResult,
 } from './offlineQueue';
 
+// DMF Error Classification (retry vs. needs attention)
+export {
+  classifyDMFError,
+  getActionableErrorMessage,
+} from './dmfErrorClassifier';
+
+// Dead-Letter Store (reports that exhausted their retries)
+export {
+  getDeadLetters,
+  getDeadLetterCount,
+  getDeadLetter,
+  removeDeadLetter,
+  clearDeadLetters,
+  formatDeadLetterForExport,
+} from './deadLetterStore';
+
 // User Profile Service
 export {
   getCachedUser,
@@ -64,7 +98,24 @@ export {
   findRewardsMemberByAuthId,
 } from './rewardsConversionService';
 
+// Device Merge Service (merge a device's history into an account on sign-in)
+export {
+  ensureDeviceSecret,
+  requestDeviceMerge,
+  confirmDeviceMerge,
+  mergeDeviceIntoAccount,
+  getPendingDeviceMerge,
+  clearPendingDeviceMerge,
+} from './deviceMergeService';
+
 // Bulletin Service (App Announcements)
 export {
   fetchActiveBulletins,
 } from './bulletinService';
+
+// Regulation Service (date-effective regulation history)
+export {
+  fetchRegulationRecords,
+  bulletinToRegulationRecords,
+  clearRegulationCache,
+} from './regulationService';
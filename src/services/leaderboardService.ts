@@ -0,0 +1,89 @@
+// services/leaderboardService.ts
+//
+// Ranked angler leaderboards from the get_leaderboard_rankings RPC
+// (supabase/migrations/leaderboards.sql). The database applies eligibility,
+// blocks and tie-breaking, so ranks here are final.
+//
+
+import { supabase } from '../config/supabase';
+import { SPECIES } from '../constants/species';
+import { getRegionAreaCodes } from '../constants/regionOptions';
+import { getPeriodStartDate } from '../constants/leaderboard';
+import { Leaderboard, LeaderboardEntry, LeaderboardQuery } from '../types/leaderboard';
+
+const DEFAULT_LIMIT = 50;
+
+/**
+ * Every name a reportable species may be logged under (lowercase), mapped to
+ * its SPECIES id, so the database counts them as one species.
+ */
+const SPECIES_ALIASES: Record<string, string> = Object.fromEntries(
+  SPECIES.flatMap((s) =>
+    [s.displayName, s.pickerLabel, s.catalogName, ...s.alternativeNames].map(
+      (name) => [name.toLowerCase(), s.id]
+    )
+  )
+);
+
+interface LeaderboardRow {
+  rank: number;
+  user_id: string;
+  first_name: string | null;
+  last_name: string | null;
+  profile_image_url: string | null;
+  value: number | string;
+  is_viewer: boolean;
+}
+
+function transformLeaderboardRow(row: LeaderboardRow): LeaderboardEntry {
+  const firstName = row.first_name || 'Anonymous';
+  const lastInitial = row.last_name ? `${row.last_name.charAt(0)}.` : '';
+  return {
+    rank: Number(row.rank),
+    userId: row.user_id,
+    displayName: `${firstName} ${lastInitial}`.trim(),
+    profileImage: row.profile_image_url ?? undefined,
+    // NUMERIC comes back as a string from PostgREST
+    value: Number(row.value),
+    isViewer: !!row.is_viewer,
+  };
+}
+
+/**
+ * RPC arguments for a query. Species are sent as the SPECIES id, with every
+ * name fish_entries may use for one; regions as their area codes.
+ */
+export function toLeaderboardParams(query: LeaderboardQuery, now: Date = new Date()) {
+  const info = query.species && query.metric !== 'species'
+    ? SPECIES.find((s) => s.countKey === query.species)
+    : undefined;
+  const areaCodes = query.region ? getRegionAreaCodes(query.region) : [];
+
+  return {
+    p_metric: query.metric,
+    p_since: getPeriodStartDate(query.period, now),
+    p_species: info?.id ?? null,
+    p_species_aliases: SPECIES_ALIASES,
+    p_area_codes: areaCodes.length > 0 ? [...areaCodes] : null,
+    p_limit: query.limit ?? DEFAULT_LIMIT,
+  };
+}
+
+/**
+ * Fetch a leaderboard. The viewer's own row is returned separately when it
+ * falls below the fetched rows.
+ */
+export async function fetchLeaderboard(query: LeaderboardQuery): Promise<Leaderboard> {
+  const params = toLeaderboardParams(query);
+  const { data, error } = await supabase.rpc('get_leaderboard_rankings', params);
+
+  if (error) {
+    throw new Error(`Failed to fetch leaderboard: ${error.message}`);
+  }
+
+  const rows = ((data ?? []) as LeaderboardRow[]).map(transformLeaderboardRow);
+  return {
+    entries: rows.filter((e) => e.rank <= params.p_limit),
+    viewerEntry: rows.find((e) => e.isViewer) ?? null,
+  };
+}
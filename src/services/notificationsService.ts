@@ -0,0 +1,424 @@
+// services/notificationsService.ts
+//
+// In-app notification inbox. Server notifications come from the
+// notifications table, written by triggers on follows, follow requests,
+// likes, comments, mentions, achievements and prize wins (supabase/migrations/
+// notifications.sql). Device events such as a queued report syncing are
+// stored locally. The inbox is cached in AsyncStorage so it opens offline,
+// and notifications marked read while offline are sent on the next fetch.
+//
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase, isSupabaseConnected } from '../config/supabase';
+import { SPECIES, getSpeciesCountBreakdown, rowToSpeciesCounts } from '../constants/species';
+import {
+  AppNotification,
+  NotificationActor,
+  NotificationGroup,
+  NotificationType,
+} from '../types/notifications';
+
+// Storage keys for the offline inbox
+const STORAGE_KEYS = {
+  // { userId, notifications } from the last successful fetch
+  inbox: '@notifications_inbox',
+  // Server notification ids marked read while offline
+  pendingReads: '@notifications_pending_reads',
+  // Notifications created on this device
+  local: '@notifications_local',
+} as const;
+
+// Most server notifications fetched (and cached) at once
+const INBOX_LIMIT = 100;
+
+// Most device notifications kept
+const LOCAL_LIMIT = 50;
+
+const LOCAL_ID_PREFIX = 'local-';
+
+/** Types shown as one row per catch (or one row in total for follows) */
+const GROUPED_TYPES: ReadonlySet<NotificationType> = new Set<NotificationType>([
+  'like',
+  'comment',
+  'follow',
+  'follow_request',
+]);
+
+const SPECIES_COLUMNS = SPECIES.map((s) => s.dbCountColumn).join(', ');
+
+// =============================================================================
+// Storage Helpers
+// =============================================================================
+
+async function readJson<T>(key: string, fallback: T): Promise<T> {
+  try {
+    const stored = await AsyncStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+async function writeJson(key: string, value: unknown): Promise<void> {
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Failed to save ${key}:`, error);
+  }
+}
+
+/**
+ * Cached server notifications for a user, from the last successful fetch.
+ * Empty when nothing is cached or the cache belongs to another user.
+ */
+export async function getCachedNotifications(userId: string): Promise<AppNotification[]> {
+  const cached = await readJson<{ userId: string; notifications: AppNotification[] } | null>(
+    STORAGE_KEYS.inbox,
+    null
+  );
+  return cached && cached.userId === userId ? cached.notifications : [];
+}
+
+async function saveInboxToCache(userId: string, notifications: AppNotification[]): Promise<void> {
+  await writeJson(STORAGE_KEYS.inbox, { userId, notifications });
+}
+
+async function getLocalNotifications(): Promise<AppNotification[]> {
+  return readJson<AppNotification[]>(STORAGE_KEYS.local, []);
+}
+
+async function getPendingReads(): Promise<string[]> {
+  return readJson<string[]>(STORAGE_KEYS.pendingReads, []);
+}
+
+function isLocalId(id: string): boolean {
+  return id.startsWith(LOCAL_ID_PREFIX);
+}
+
+/** Server and device notifications together, newest first. */
+function mergeNotifications(
+  remote: AppNotification[],
+  local: AppNotification[]
+): AppNotification[] {
+  return [...remote, ...local].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// =============================================================================
+// Supabase Fetching
+// =============================================================================
+
+function transformNotificationRow(row: any): AppNotification {
+  const actor: NotificationActor | null = row.actor
+    ? {
+        userId: row.actor.id,
+        displayName: `${row.actor.first_name || 'Anonymous'} ${
+          row.actor.last_name ? `${row.actor.last_name.charAt(0)}.` : ''
+        }`.trim(),
+        profileImage: row.actor.profile_image_url ?? undefined,
+      }
+    : null;
+
+  // The catch is null when RLS hides it (e.g. a reply on another angler's
+  // private catch); the message then says "catch" instead of the species.
+  let speciesName: string | null = null;
+  if (row.report) {
+    const breakdown = getSpeciesCountBreakdown(rowToSpeciesCounts(row.report), 'displayName');
+    if (breakdown.length > 0) {
+      speciesName = breakdown.reduce((max, s) => (s.count > max.count ? s : max), breakdown[0]).species;
+    }
+  }
+
+  return {
+    id: row.id,
+    type: row.type as NotificationType,
+    actor,
+    reportId: row.report_id ?? null,
+    commentId: row.comment_id ?? null,
+    speciesName,
+    title: row.data?.achievement_name ?? row.data?.drawing_name ?? null,
+    ...(row.data?.drawing_id ? { drawingId: row.data.drawing_id } : {}),
+    createdAt: row.created_at,
+    readAt: row.read_at ?? null,
+  };
+}
+
+async function fetchNotificationsFromSupabase(userId: string): Promise<AppNotification[]> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select(
+      `id, type, report_id, comment_id, data, created_at, read_at,
+      actor:actor_id (id, first_name, last_name, profile_image_url),
+      report:report_id (${SPECIES_COLUMNS})`
+    )
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(INBOX_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to fetch notifications: ${error.message}`);
+  }
+  return (data ?? []).map(transformNotificationRow);
+}
+
+async function markReadInSupabase(ids: string[]): Promise<void> {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', ids)
+    .is('read_at', null);
+
+  if (error) {
+    throw new Error(`Failed to mark notifications read: ${error.message}`);
+  }
+}
+
+/**
+ * Send reads recorded while offline. Kept for the next attempt on failure.
+ */
+async function flushPendingReads(): Promise<void> {
+  const pending = await getPendingReads();
+  if (pending.length === 0) return;
+
+  try {
+    await markReadInSupabase(pending);
+    await AsyncStorage.removeItem(STORAGE_KEYS.pendingReads);
+  } catch (error) {
+    console.warn('Failed to sync notification reads:', error);
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Fetch the inbox for a user, newest first, including device notifications.
+ * Falls back to the cached inbox when offline or the fetch fails.
+ */
+export async function fetchNotifications(userId: string): Promise<AppNotification[]> {
+  const local = await getLocalNotifications();
+
+  const connected = await isSupabaseConnected();
+  if (!connected) {
+    console.log('📱 Offline - using cached notifications');
+    return mergeNotifications(await getCachedNotifications(userId), local);
+  }
+
+  try {
+    // Before the fetch, so reads made offline don't come back as unread
+    await flushPendingReads();
+    const remote = await fetchNotificationsFromSupabase(userId);
+    await saveInboxToCache(userId, remote);
+    return mergeNotifications(remote, local);
+  } catch (error) {
+    console.error('Failed to fetch notifications:', error);
+    return mergeNotifications(await getCachedNotifications(userId), local);
+  }
+}
+
+/**
+ * Record a notification that only exists on this device, e.g. a queued
+ * report that finally synced.
+ */
+export async function addLocalNotification(input: {
+  type: NotificationType;
+  title?: string | null;
+  reportId?: string | null;
+}): Promise<AppNotification> {
+  const createdAt = new Date().toISOString();
+  const notification: AppNotification = {
+    id: `${LOCAL_ID_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    type: input.type,
+    actor: null,
+    reportId: input.reportId ?? null,
+    commentId: null,
+    speciesName: null,
+    title: input.title ?? null,
+    createdAt,
+    readAt: null,
+    local: true,
+  };
+
+  const local = await getLocalNotifications();
+  await writeJson(STORAGE_KEYS.local, [notification, ...local].slice(0, LOCAL_LIMIT));
+  return notification;
+}
+
+/**
+ * Mark notifications read. Updates the cached inbox right away; server
+ * notifications are queued and sent on the next fetch when offline.
+ */
+export async function markNotificationsRead(userId: string, ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const readAt = new Date().toISOString();
+  const idSet = new Set(ids);
+  const markRead = (n: AppNotification): AppNotification =>
+    idSet.has(n.id) && !n.readAt ? { ...n, readAt } : n;
+
+  const local = await getLocalNotifications();
+  if (ids.some(isLocalId)) {
+    await writeJson(STORAGE_KEYS.local, local.map(markRead));
+  }
+
+  const serverIds = ids.filter((id) => !isLocalId(id));
+  if (serverIds.length === 0) return;
+
+  const cached = await getCachedNotifications(userId);
+  await saveInboxToCache(userId, cached.map(markRead));
+
+  const queueReads = async () => {
+    const pending = await getPendingReads();
+    await writeJson(STORAGE_KEYS.pendingReads, [...new Set([...pending, ...serverIds])]);
+  };
+
+  const connected = await isSupabaseConnected();
+  if (!connected) {
+    await queueReads();
+    return;
+  }
+
+  try {
+    await markReadInSupabase(serverIds);
+  } catch (error) {
+    console.warn('Failed to mark notifications read, will retry:', error);
+    await queueReads();
+  }
+}
+
+/**
+ * Mark every notification in the inbox read.
+ */
+export async function markAllNotificationsRead(userId: string): Promise<void> {
+  const inbox = mergeNotifications(await getCachedNotifications(userId), await getLocalNotifications());
+  await markNotificationsRead(
+    userId,
+    inbox.filter((n) => !n.readAt).map((n) => n.id)
+  );
+}
+
+// =============================================================================
+// Display Helpers
+// =============================================================================
+
+/**
+ * Number of unread notifications.
+ */
+export function getUnreadCount(notifications: AppNotification[]): number {
+  return notifications.filter((n) => !n.readAt).length;
+}
+
+/**
+ * "John D.", "John D. and Amy S.", or "3 people".
+ */
+function describeActors(actors: NotificationActor[]): string {
+  if (actors.length === 0) return 'Someone';
+  if (actors.length === 1) return actors[0].displayName;
+  if (actors.length === 2) return `${actors[0].displayName} and ${actors[1].displayName}`;
+  return `${actors.length} people`;
+}
+
+function describeCatch(speciesName: string | null): string {
+  return speciesName ? `your ${speciesName.toLowerCase()}` : 'your catch';
+}
+
+function groupMessage(type: NotificationType, actors: NotificationActor[], latest: AppNotification): string {
+  const who = describeActors(actors);
+  switch (type) {
+    case 'like':
+      return `${who} liked ${describeCatch(latest.speciesName)}`;
+    case 'comment':
+      return `${who} commented on ${describeCatch(latest.speciesName)}`;
+    case 'reply':
+      return `${who} replied to your comment`;
+    case 'mention':
+      return `${who} mentioned you in a comment`;
+    case 'follow':
+      return `${who} started following you`;
+    case 'follow_request':
+      return `${who} asked to follow you`;
+    case 'achievement':
+      return latest.title ? `You earned the ${latest.title} achievement` : 'You earned an achievement';
+    case 'prize_won':
+      return latest.title
+        ? `You won a prize in the ${latest.title} drawing! Claim it before the deadline`
+        : 'You won a prize! Claim it before the deadline';
+    case 'report_synced':
+      return latest.title
+        ? `Your queued report was submitted (confirmation #${latest.title})`
+        : 'Your queued report was submitted';
+  }
+}
+
+function groupLink(
+  type: NotificationType,
+  actors: NotificationActor[],
+  latest: AppNotification,
+  viewerUserId: string | null
+): string | null {
+  const ownProfile = viewerUserId ? `fishlog://angler/${viewerUserId}` : 'fishlog://profile';
+  switch (type) {
+    case 'like':
+    case 'comment':
+    case 'reply':
+    case 'mention':
+      return latest.reportId ? `fishlog://catch/${latest.reportId}` : null;
+    case 'follow':
+      return actors.length === 1 ? `fishlog://angler/${actors[0].userId}` : ownProfile;
+    case 'follow_request':
+      // Requests are approved from the followers sheet on your own profile
+      return ownProfile;
+    case 'achievement':
+      return 'fishlog://profile';
+    case 'prize_won':
+      return latest.drawingId ? `fishlog://claim/${latest.drawingId}` : null;
+    case 'report_synced':
+      return 'fishlog://my-reports';
+  }
+}
+
+/**
+ * Collapse the inbox into rows: likes and comments group per catch, follows
+ * and follow requests group together, everything else is one row each.
+ * Rows are ordered by their newest notification.
+ *
+ * @param notifications - Inbox, newest first
+ * @param viewerUserId - The viewer's users.id, for links to their own profile
+ */
+export function groupNotifications(
+  notifications: AppNotification[],
+  viewerUserId: string | null = null
+): NotificationGroup[] {
+  const byKey = new Map<string, AppNotification[]>();
+  for (const n of notifications) {
+    const key = GROUPED_TYPES.has(n.type) ? `${n.type}:${n.reportId ?? ''}` : n.id;
+    const group = byKey.get(key);
+    if (group) {
+      group.push(n);
+    } else {
+      byKey.set(key, [n]);
+    }
+  }
+
+  return [...byKey.entries()].map(([key, items]) => {
+    const latest = items[0];
+    const actors: NotificationActor[] = [];
+    const seen = new Set<string>();
+    for (const n of items) {
+      if (n.actor && !seen.has(n.actor.userId)) {
+        seen.add(n.actor.userId);
+        actors.push(n.actor);
+      }
+    }
+
+    return {
+      key,
+      type: latest.type,
+      notifications: items,
+      actors,
+      message: groupMessage(latest.type, actors, latest),
+      link: groupLink(latest.type, actors, latest, viewerUserId),
+      latestAt: latest.createdAt,
+      unreadCount: getUnreadCount(items),
+    };
+  });
+}
@@ -11,15 +11,24 @@ import {
   QueuedReport,
   SubmittedReport,
   DMFSubmissionResult,
+  DMFSubmissionIdentity,
+  DeadLetterEdits,
 } from '../types/harvestReport';
+import { pickReportCounts, ReportSpeciesCounts } from '../constants/species';
 import {
   submitHarvestReport,
-  generateConfirmationNumber,
+  submitHarvestReportBatch,
+  createSubmissionIdentity,
+  findExistingDMFFeature,
 } from './harvestReportService';
+import { pruneLedger, getLedgerEntry, hasAmbiguousAttempt } from './dmfSubmissionLedger';
+import { addToDeadLetter, getDeadLetter, removeDeadLetter } from './deadLetterStore';
+import { classifyDMFError } from './dmfErrorClassifier';
 import { createReportFromHarvestInput, getReports, getFishEntriesBatch } from './reportsService';
 import type { AwardedAchievement } from './reportsService';
 import { getRewardsMemberForAnonymousUser } from './rewardsConversionService';
 import { captureError } from '../utils/sentryUtils';
+import { addLocalNotification } from './notificationsService';
 
 // ============================================
 // STORAGE KEYS
@@ -36,13 +45,18 @@ const HISTORY_KEY = APP_CONFIG.storageKeys.harvestHistory;
  * Add a report to the offline queue.
  *
  * Called when submission fails due to network issues.
- * Generates a local confirmation number for display while queued.
+ * Pins a DMF identity to the report so every retry re-sends the same
+ * GlobalID and the local confirmation number matches what DMF receives.
  *
  * @param report - The harvest report input to queue
+ * @param identity - Identity used by the failed attempt, if any (generated if omitted)
  * @returns The local confirmation number assigned
  */
-export async function addToQueue(report: HarvestReportInput): Promise<string> {
-  const { unique1 } = generateConfirmationNumber();
+export async function addToQueue(
+  report: HarvestReportInput,
+  identity: DMFSubmissionIdentity = createSubmissionIdentity()
+): Promise<string> {
+  const unique1 = identity.confirmationNumber;
 
   const queuedReport: QueuedReport = {
     // Spread all fields except harvestDate (we convert it)
@@ -54,6 +68,7 @@ export async function addToQueue(report: HarvestReportInput): Promise<string> {
     queuedAt: new Date().toISOString(),
     localConfirmationNumber: unique1,
     retryCount: 0,
+    dmfIdentity: identity,
   };
 
   const queue = await getQueue();
@@ -128,22 +143,68 @@ export async function removeFromQueue(localConfirmationNumber: string): Promise<
 export interface SyncResult {
   /** Number of successfully submitted reports */
   synced: number;
-  /** Number of reports that failed to submit */
+  /** Number of reports that failed to submit and stay queued for a retry */
   failed: number;
-  /** Number of reports that exceeded max retries and were removed */
+  /** Number of reports permanently rejected by DMF and moved to the dead-letter store */
+  rejected: number;
+  /** Number of reports that exceeded max retries and were moved to the dead-letter store */
   expired: number;
+  /** Number of reports skipped because their next retry isn't due yet */
+  deferred: number;
+  /** Earliest next-attempt time among reports still queued (ISO string) */
+  nextAttemptAt?: string;
   /** Detailed results for each attempt */
   results: DMFSubmissionResult[];
 }
 
+/**
+ * Options for syncing queued reports.
+ */
+export interface SyncOptions {
+  /**
+   * Submit reports in batched applyEdits requests (up to
+   * `APP_CONFIG.limits.maxSyncBatchSize` per request) instead of one request
+   * per report. Defaults to `APP_CONFIG.features.batchedQueueSync`.
+   */
+  batch?: boolean;
+}
+
+/**
+ * Delay before the next retry of a report that has failed `retryCount` times.
+ *
+ * Doubles from `APP_CONFIG.limits.retryBackoffBaseMs` with each failure,
+ * capped at `APP_CONFIG.limits.retryBackoffMaxMs`.
+ *
+ * @param retryCount - Number of failed attempts so far (1 after the first failure)
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelayMs(retryCount: number): number {
+  const { retryBackoffBaseMs, retryBackoffMaxMs } = APP_CONFIG.limits;
+  const exponent = Math.max(0, retryCount - 1);
+  return Math.min(retryBackoffBaseMs * 2 ** exponent, retryBackoffMaxMs);
+}
+
 /**
  * Attempt to submit all queued reports to DMF.
  *
- * Processes reports in order (FIFO).
+ * Processes reports in order (FIFO), either one request per report or in
+ * batches (see SyncOptions.batch). In batch mode each report still succeeds
+ * or fails on its own. Reports whose `nextAttemptAt` is still in the future
+ * are skipped.
  * Successfully submitted reports are moved to history.
- * Failed reports remain in queue with updated retry count.
- * Reports exceeding maxRetryAttempts are removed (lost).
+ * Failures are classified (see classifyDMFError):
+ * - transient: stays queued with retryCount+1 and an exponential backoff
+ * - permanent: moved straight to the dead-letter store for the user to fix
+ * - config: stays queued without using up a retry, backs off fully, and the
+ *   rest of the run is skipped since every report would hit the same error.
+ *   After maxConfigRetryAttempts config failures the report is moved to the
+ *   dead-letter store so the user sees the problem and can export it
+ * Queued reports keep their pinned DMF identity, so a retry after a lost
+ * response is not re-filed.
+ * Reports exceeding maxRetryAttempts are moved to the dead-letter store with
+ * their error history, where the user can resubmit or export them.
  *
+ * @param options - Sync options
  * @returns Summary of sync operation
  */
 // Global sync lock — prevents concurrent sync from multiple callers
@@ -151,10 +212,12 @@ export interface SyncResult {
 // both detect the offline→online transition and call syncQueuedReports).
 let _syncInProgress = false;
 
-export async function syncQueuedReports(): Promise<SyncResult> {
+export async function syncQueuedReports(options: SyncOptions = {}): Promise<SyncResult> {
+  const batch = options.batch ?? APP_CONFIG.features.batchedQueueSync;
+
   if (_syncInProgress) {
     console.log('⏳ syncQueuedReports: already in progress, skipping');
-    return { synced: 0, failed: 0, expired: 0, results: [] };
+    return { synced: 0, failed: 0, rejected: 0, expired: 0, deferred: 0, results: [] };
   }
 
   _syncInProgress = true;
@@ -163,32 +226,59 @@ export async function syncQueuedReports(): Promise<SyncResult> {
   const queue = await getQueue();
 
   if (queue.length === 0) {
-    return { synced: 0, failed: 0, expired: 0, results: [] };
+    return { synced: 0, failed: 0, rejected: 0, expired: 0, deferred: 0, results: [] };
   }
 
   console.log(`📤 Syncing ${queue.length} queued reports...`);
 
+  await pruneLedger();
+
   const results: DMFSubmissionResult[] = [];
   const stillQueued: QueuedReport[] = [];
   let synced = 0;
   let failed = 0;
+  let rejected = 0;
   let expired = 0;
+  let deferred = 0;
+  // Set once DMF reports an auth/config problem; remaining reports wait
+  let configFailure = false;
+  const now = Date.now();
+
+  // Reports still eligible for submission, with their pinned identities
+  const pending: Array<{ queuedReport: QueuedReport; input: HarvestReportInput; identity: DMFSubmissionIdentity }> = [];
 
   for (const queuedReport of queue) {
     // Check if max retries exceeded
     if (queuedReport.retryCount >= APP_CONFIG.limits.maxRetryAttempts) {
       console.warn(
-        `⚠️ Report ${queuedReport.localConfirmationNumber} exceeded max retries (${APP_CONFIG.limits.maxRetryAttempts}). Removing from queue.`
+        `⚠️ Report ${queuedReport.localConfirmationNumber} exceeded max retries (${APP_CONFIG.limits.maxRetryAttempts}). Moving to dead-letter store.`
       );
+      await addToDeadLetter(queuedReport);
       expired++;
-      continue; // Skip this report - it's lost
+      continue;
     }
 
-    // Convert queued report back to HarvestReportInput
-    const input: HarvestReportInput = queuedReportToInput(queuedReport);
+    // Still backing off from the last failure
+    if (queuedReport.nextAttemptAt && new Date(queuedReport.nextAttemptAt).getTime() > now) {
+      stillQueued.push(queuedReport);
+      deferred++;
+      continue;
+    }
+
+    pending.push({
+      queuedReport,
+      // Convert queued report back to HarvestReportInput
+      input: queuedReportToInput(queuedReport),
+      // Reports queued before the ledger existed get an identity now, which is
+      // then kept for all of their remaining retries
+      identity: queuedReport.dmfIdentity ?? createSubmissionIdentity(),
+    });
+  }
 
-    // Attempt submission
-    const result = await submitHarvestReport(input);
+  const settle = async (
+    { queuedReport, input, identity }: typeof pending[number],
+    result: DMFSubmissionResult
+  ): Promise<void> => {
     results.push(result);
 
     if (result.success) {
@@ -224,6 +314,9 @@ export async function syncQueuedReports(): Promise<SyncResult> {
         localConfirmationNumber: _localConfNum,
         retryCount: _retryCount,
         lastError: _lastError,
+        errorHistory: _errorHistory,
+        nextAttemptAt: _nextAttemptAt,
+        dmfIdentity: _dmfIdentity,
         ...harvestFields
       } = queuedReport;
 
@@ -233,25 +326,105 @@ export async function syncQueuedReports(): Promise<SyncResult> {
         objectId: result.objectId,
         submittedAt: new Date().toISOString(),
       });
+
+      // Let the angler know the report they queued offline went through
+      await addLocalNotification({ type: 'report_synced', title: result.confirmationNumber });
     } else {
+      const kind = classifyDMFError(result);
+      const failedReport: QueuedReport = {
+        ...queuedReport,
+        lastError: result.error,
+        errorHistory: [
+          ...(queuedReport.errorHistory ?? []),
+          { at: new Date().toISOString(), error: result.error ?? 'Unknown error', kind },
+        ],
+        dmfIdentity: identity,
+      };
+      console.log(`❌ Failed (${kind}): ${queuedReport.localConfirmationNumber} - ${result.error}`);
+
+      if (kind === 'permanent') {
+        // Retrying the same payload will be rejected again — hand it to the user
+        rejected++;
+        const { nextAttemptAt: _nextAttemptAt, ...deadLetter } = failedReport;
+        await addToDeadLetter(deadLetter);
+        return;
+      }
+
+      if (kind === 'config') {
+        configFailure = true;
+        const configFailures = failedReport.errorHistory!.filter(e => e.kind === 'config').length;
+        if (configFailures >= APP_CONFIG.limits.maxConfigRetryAttempts) {
+          console.warn(
+            `⚠️ Report ${queuedReport.localConfirmationNumber} hit ${configFailures} config errors. Moving to dead-letter store.`
+          );
+          expired++;
+          const { nextAttemptAt: _nextAttemptAt, ...deadLetter } = failedReport;
+          await addToDeadLetter(deadLetter);
+          return;
+        }
+      }
       failed++;
-      console.log(`❌ Failed: ${queuedReport.localConfirmationNumber} - ${result.error}`);
 
-      // Keep in queue with updated error info
+      // Config errors aren't the report's fault, so they don't use up a retry
+      const retryCount = kind === 'transient' ? queuedReport.retryCount + 1 : queuedReport.retryCount;
+      const delay = kind === 'transient' ? getRetryDelayMs(retryCount) : APP_CONFIG.limits.retryBackoffMaxMs;
       stillQueued.push({
-        ...queuedReport,
-        retryCount: queuedReport.retryCount + 1,
-        lastError: result.error,
+        ...failedReport,
+        retryCount,
+        nextAttemptAt: new Date(Date.now() + delay).toISOString(),
       });
     }
+  };
+
+  // Leave a report queued untouched, without attempting it this run
+  const defer = ({ queuedReport }: typeof pending[number]): void => {
+    stillQueued.push(queuedReport);
+    deferred++;
+  };
+
+  if (batch && pending.length > 1) {
+    // One applyEdits request per chunk instead of one per report
+    const batchSize = APP_CONFIG.limits.maxSyncBatchSize;
+    for (let start = 0; start < pending.length; start += batchSize) {
+      const chunk = pending.slice(start, start + batchSize);
+      if (configFailure) {
+        chunk.forEach(defer);
+        continue;
+      }
+      console.log(`📦 Submitting batch of ${chunk.length} reports`);
+      const chunkResults = await submitHarvestReportBatch(
+        chunk.map(({ input, identity }) => ({ input, identity }))
+      );
+      for (let i = 0; i < chunk.length; i++) {
+        await settle(chunk[i], chunkResults[i]);
+      }
+    }
+  } else {
+    for (const item of pending) {
+      if (configFailure) {
+        defer(item);
+        continue;
+      }
+      // Attempt submission
+      const result = await submitHarvestReport(item.input, undefined, item.identity);
+      await settle(item, result);
+    }
   }
 
-  // Update queue with only failed reports
+  // Update queue with only failed and deferred reports, oldest first
+  stillQueued.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
   await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(stillQueued));
 
-  console.log(`📊 Sync complete: ${synced} synced, ${failed} failed, ${expired} expired`);
+  console.log(
+    `📊 Sync complete: ${synced} synced, ${failed} failed, ${rejected} rejected, ${expired} expired, ${deferred} deferred`
+  );
+
+  const nextAttemptAt = stillQueued
+    .map(r => r.nextAttemptAt)
+    .filter((t): t is string => !!t)
+    .sort()[0];
 
-  return { synced, failed, expired, results };
+  return { synced, failed, rejected, expired, deferred, nextAttemptAt, results };
   } finally {
     _syncInProgress = false;
   }
@@ -270,6 +443,9 @@ function queuedReportToInput(queued: QueuedReport): HarvestReportInput {
     localConfirmationNumber,
     retryCount,
     lastError,
+    errorHistory,
+    nextAttemptAt,
+    dmfIdentity,
     harvestDate,
     ...inputFields
   } = queued;
@@ -283,6 +459,93 @@ function queuedReportToInput(queued: QueuedReport): HarvestReportInput {
   };
 }
 
+// ============================================
+// DEAD-LETTER RECOVERY
+// ============================================
+
+/**
+ * Whether DMF definitely holds no filing under this identity, so a corrected
+ * report can go out under a new one without filing the harvest twice.
+ *
+ * True when no attempt may have landed (none made, or all rejected by
+ * ArcGIS), or when an ambiguous attempt is confirmed missing by a GlobalID
+ * lookup. A failed lookup counts as "may have landed".
+ */
+async function isDefinitelyUnfiled(identity: DMFSubmissionIdentity): Promise<boolean> {
+  const entry = await getLedgerEntry(identity.globalId);
+  if (entry?.status === 'submitted') {
+    return false;
+  }
+  if (!hasAmbiguousAttempt(entry)) {
+    return true;
+  }
+
+  try {
+    return (await findExistingDMFFeature(identity.globalId)) === null;
+  } catch (error) {
+    captureError(error, 'offlineQueue:resubmitDeadLetter');
+    return false;
+  }
+}
+
+/**
+ * Move a dead-lettered report back into the queue for another round of retries.
+ *
+ * An unchanged report keeps its pinned DMF identity, so if an earlier attempt
+ * did reach DMF the retry adopts that filing instead of creating a second one.
+ * Edits are applied on top of the stored report. They give it a new identity
+ * (and local confirmation number) only when DMF definitely never received the
+ * original — otherwise adopting the earlier filing would drop the corrections.
+ * If the original may have landed, the identity is kept so the retry adopts
+ * it rather than filing the harvest twice. The error history is kept either way.
+ *
+ * @param localConfirmationNumber - The local confirmation number of the report
+ * @param edits - Corrections to apply before resubmitting
+ * @returns True if the report was found and re-queued
+ */
+export async function resubmitDeadLetter(
+  localConfirmationNumber: string,
+  edits: DeadLetterEdits = {}
+): Promise<boolean> {
+  const deadLetter = await getDeadLetter(localConfirmationNumber);
+  if (!deadLetter) {
+    return false;
+  }
+
+  const { deadLetteredAt: _deadLetteredAt, ...queuedFields } = deadLetter;
+  const edited = (Object.keys(edits) as (keyof DeadLetterEdits)[]).some(
+    key => edits[key] !== queuedFields[key]
+  );
+  const reidentify = edited && (
+    !queuedFields.dmfIdentity || await isDefinitelyUnfiled(queuedFields.dmfIdentity)
+  );
+  const identity = reidentify ? createSubmissionIdentity() : queuedFields.dmfIdentity;
+
+  const queue = await getQueue();
+  queue.push({
+    ...queuedFields,
+    ...edits,
+    ...(reidentify && identity && {
+      localConfirmationNumber: identity.confirmationNumber,
+      dmfIdentity: identity,
+    }),
+    retryCount: 0,
+    nextAttemptAt: undefined,
+  });
+  await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  await removeDeadLetter(localConfirmationNumber);
+
+  if (reidentify) {
+    console.log(`📥 Re-queued corrected report: ${localConfirmationNumber} → ${identity?.confirmationNumber}`);
+  } else if (edited) {
+    console.log(`📥 Re-queued corrected report under its original identity (may already be in DMF): ${localConfirmationNumber}`);
+  } else {
+    console.log(`📥 Re-queued dead-lettered report: ${localConfirmationNumber}`);
+  }
+
+  return true;
+}
+
 // ============================================
 // HISTORY MANAGEMENT
 // ============================================
@@ -293,8 +556,9 @@ function queuedReportToInput(queued: QueuedReport): HarvestReportInput {
  * 1. A successful direct submission (HarvestReportInput + metadata)
  * 2. A synced queued report (QueuedReport + metadata)
  */
-interface AddToHistoryInput {
-  // All HarvestReportInput fields (harvestDate as string for serialization)
+interface AddToHistoryInput extends ReportSpeciesCounts {
+  // All HarvestReportInput fields (harvestDate as string for serialization);
+  // species counts come from ReportSpeciesCounts
   hasLicense: boolean;
   wrcId?: string;
   firstName?: string;
@@ -305,11 +569,6 @@ interface AddToHistoryInput {
   wantEmailConfirmation: boolean;
   email?: string;
   harvestDate: string; // ISO string
-  redDrumCount: number;
-  flounderCount: number;
-  spottedSeatroutCount: number;
-  weakfishCount: number;
-  stripedBassCount: number;
   areaCode: string;
   areaLabel?: string;
   usedHookAndLine: boolean;
@@ -363,11 +622,7 @@ export async function addToHistory(report: AddToHistoryInput): Promise<void> {
     wantEmailConfirmation: report.wantEmailConfirmation,
     email: report.email,
     harvestDate: report.harvestDate, // Already an ISO string
-    redDrumCount: report.redDrumCount,
-    flounderCount: report.flounderCount,
-    spottedSeatroutCount: report.spottedSeatroutCount,
-    weakfishCount: report.weakfishCount,
-    stripedBassCount: report.stripedBassCount,
+    ...pickReportCounts(report),
     areaCode: report.areaCode,
     areaLabel: report.areaLabel,
     usedHookAndLine: report.usedHookAndLine,
@@ -446,11 +701,7 @@ export async function getHistory(): Promise<SubmittedReport[]> {
             wantEmailConfirmation: r.wantEmailConfirmation,
             email: r.email || undefined,
             harvestDate: r.harvestDate,
-            redDrumCount: r.redDrumCount,
-            flounderCount: r.flounderCount,
-            spottedSeatroutCount: r.spottedSeatroutCount,
-            weakfishCount: r.weakfishCount,
-            stripedBassCount: r.stripedBassCount,
+            ...pickReportCounts(r),
             areaCode: r.areaCode,
             areaLabel: r.areaLabel || undefined,
             usedHookAndLine: r.usedHookAndLine,
@@ -609,8 +860,12 @@ export interface SubmitWithQueueResult {
 export async function submitWithQueueFallback(
   input: HarvestReportInput
 ): Promise<SubmitWithQueueResult> {
+  // Pin the identity up front so that if this attempt's response is lost and
+  // the report is queued, the retry is recognised as the same filing
+  const identity = createSubmissionIdentity();
+
   // Attempt submission to DMF
-  const result = await submitHarvestReport(input);
+  const result = await submitHarvestReport(input, undefined, identity);
 
   if (result.success) {
     // Save to local history — use local YYYY-MM-DD for harvestDate
@@ -666,7 +921,7 @@ export async function submitWithQueueFallback(
 
   // Submission failed - check if we should queue
   if (result.queued || APP_CONFIG.features.offlineQueueEnabled) {
-    const localConfirmation = await addToQueue(input);
+    const localConfirmation = await addToQueue(input, identity);
 
     // Do NOT save to Supabase here — the report is queued locally and will be
     // saved to Supabase after successful DMF sync in syncQueuedReports().
@@ -701,6 +956,9 @@ export default {
   clearQueue,
   removeFromQueue,
   syncQueuedReports,
+  getRetryDelayMs,
+  // Dead-letter recovery
+  resubmitDeadLetter,
   // History management
   addToHistory,
   getHistory,
@@ -0,0 +1,137 @@
+// services/regulationService.ts
+//
+// Service for fetching date-effective regulation records from Supabase.
+// Combines the species_regulations history with closure bulletins so the
+// resolver can answer "what were the rules on this harvest date". Cached for
+// offline use — anglers often back-fill reports with no signal.
+//
+
+import { supabase, isSupabaseConnected } from '../config/supabase';
+import { createCache } from '../utils/cache';
+import { RegulationRecord } from '../types/fishSpecies';
+import type { Bulletin } from '../types/bulletin';
+import { transformBulletin } from './bulletinService';
+import {
+  transformRegulationRecord,
+  type SupabaseRegulationRecordRow,
+} from './transformers/regulationRecordTransformer';
+
+// Regulation history rarely changes, so keep it for a day
+const regulationCache = createCache<RegulationRecord[]>('@regulation_records_cache', {
+  ttlMs: 24 * 60 * 60 * 1000, // 24 hours in milliseconds
+});
+
+/**
+ * Clear the regulation records cache.
+ */
+export async function clearRegulationCache(): Promise<void> {
+  await regulationCache.clear();
+}
+
+// =============================================================================
+// Bulletin Records
+// =============================================================================
+
+/**
+ * Turn a closure bulletin into one status record per affected species.
+ *
+ * The bulletin's effective/expiration dates become the record window. A
+ * bulletin without an effective date is treated as in force from the day it
+ * was posted. Non-closure bulletins carry no rules and produce nothing.
+ */
+export function bulletinToRegulationRecords(bulletin: Bulletin): RegulationRecord[] {
+  if (bulletin.bulletinType !== 'closure') return [];
+
+  const effectiveDate = (bulletin.effectiveDate ?? bulletin.createdAt).slice(0, 10);
+  const expirationDate = bulletin.expirationDate ? bulletin.expirationDate.slice(0, 10) : null;
+
+  return bulletin.affectedSpeciesIds.map((speciesId) => ({
+    id: `bulletin-${bulletin.id}-${speciesId}`,
+    speciesId,
+    regulations: null,
+    harvestStatus: 'closed',
+    note: bulletin.title,
+    areaCodes: [],
+    effectiveDate,
+    expirationDate,
+    source: 'bulletin',
+    bulletinId: bulletin.id,
+  }));
+}
+
+// =============================================================================
+// Supabase Operations
+// =============================================================================
+
+async function fetchRecordsFromSupabase(): Promise<RegulationRecord[]> {
+  const { data, error } = await supabase
+    .from('species_regulations')
+    .select('*')
+    .order('effective_date', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch species regulations: ${error.message}`);
+  }
+
+  return (data || []).map((row) => transformRegulationRecord(row as SupabaseRegulationRecordRow));
+}
+
+/**
+ * Fetch every closure bulletin, including expired and deactivated ones — a
+ * report for last October needs to know about a closure that ended in
+ * November. The resolver applies each closure's effective dates.
+ */
+async function fetchClosureBulletinsFromSupabase(): Promise<Bulletin[]> {
+  const { data, error } = await supabase
+    .from('app_bulletins')
+    .select('*')
+    .eq('bulletin_type', 'closure')
+    .order('effective_date', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch closure bulletins: ${error.message}`);
+  }
+
+  return (data || []).map((row) => transformBulletin(row as Record<string, unknown>));
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Get all regulation records: the species_regulations history plus closure
+ * bulletins. Bulletins already copied into species_regulations are skipped.
+ * Fetches from Supabase if connected, falls back to cache.
+ */
+export async function fetchRegulationRecords(): Promise<RegulationRecord[]> {
+  const connected = await isSupabaseConnected();
+
+  if (connected) {
+    try {
+      const [stored, bulletins] = await Promise.all([
+        fetchRecordsFromSupabase(),
+        fetchClosureBulletinsFromSupabase(),
+      ]);
+
+      const storedBulletinIds = new Set(stored.map((r) => r.bulletinId).filter(Boolean));
+      const fromBulletins = bulletins
+        .filter((b) => !storedBulletinIds.has(b.id))
+        .flatMap(bulletinToRegulationRecords);
+
+      const records = [...stored, ...fromBulletins];
+      await regulationCache.set(records);
+      return records;
+    } catch (error) {
+      console.warn('⚠️ Failed to fetch regulation records, using cache:', error);
+    }
+  }
+
+  const cached = await regulationCache.get();
+  if (cached) {
+    return cached;
+  }
+
+  // Callers fall back to the current regulations on each species
+  return [];
+}
@@ -15,6 +15,15 @@ import {
   transformFishEntry,
 } from '../types/report';
 import { HarvestReportInput } from '../types/harvestReport';
+import {
+  SPECIES,
+  getSpeciesCountBreakdown,
+  getTotalFishCount as sumSpeciesCounts,
+  pickReportCounts,
+  reportCountsToRow,
+  reportToSpeciesCounts,
+  rowToSpeciesCounts,
+} from '../constants/species';
 import { getCurrentUser } from './userProfileService';
 import { getRewardsMemberForAnonymousUser } from './rewardsConversionService';
 import { getOrCreateAnonymousUser } from './anonymousUserService';
@@ -155,11 +164,7 @@ async function createReportInSupabase(input: ReportInput): Promise<StoredReport>
     used_hook_and_line: input.usedHookAndLine,
     gear_code: input.gearCode || null,
     gear_label: input.gearLabel || null,
-    red_drum_count: input.redDrumCount,
-    flounder_count: input.flounderCount,
-    spotted_seatrout_count: input.spottedSeatroutCount,
-    weakfish_count: input.weakfishCount,
-    striped_bass_count: input.stripedBassCount,
+    ...reportCountsToRow(input),
     reporting_for: input.reportingFor,
     family_count: input.familyCount || null,
     notes: input.notes || null,
@@ -167,6 +172,9 @@ async function createReportInSupabase(input: ReportInput): Promise<StoredReport>
     photos: input.photos && input.photos.length > 0 ? input.photos : null,
     gps_latitude: input.gpsLatitude ?? null,
     gps_longitude: input.gpsLongitude ?? null,
+    location_precision: input.locationPrecision ?? null,
+    publish_delay_days: input.publishDelayDays ?? null,
+    visibility: input.visibility ?? 'public',
     entered_rewards: input.enteredRewards || false,
     rewards_drawing_id: input.rewardsDrawingId || null,
     report_type: input.reportType || 'dmf_harvest',
@@ -208,11 +216,7 @@ async function createReportInSupabase(input: ReportInput): Promise<StoredReport>
     usedHookAndLine: input.usedHookAndLine,
     gearCode: input.gearCode || null,
     gearLabel: input.gearLabel || null,
-    redDrumCount: input.redDrumCount,
-    flounderCount: input.flounderCount,
-    spottedSeatroutCount: input.spottedSeatroutCount,
-    weakfishCount: input.weakfishCount,
-    stripedBassCount: input.stripedBassCount,
+    ...pickReportCounts(input),
     reportingFor: input.reportingFor,
     familyCount: input.familyCount || null,
     notes: input.notes || null,
@@ -417,17 +421,15 @@ export function harvestInputToReportInput(
     usedHookAndLine: input.usedHookAndLine,
     gearCode: input.gearCode,
     gearLabel: input.gearLabel,
-    redDrumCount: input.redDrumCount,
-    flounderCount: input.flounderCount,
-    spottedSeatroutCount: input.spottedSeatroutCount,
-    weakfishCount: input.weakfishCount,
-    stripedBassCount: input.stripedBassCount,
+    ...pickReportCounts(input),
     reportingFor: input.reportingFor,
     familyCount: input.familyCount,
     notes: input.notes,
     photoUrl: input.catchPhoto,
     gpsLatitude: input.gpsCoordinates?.latitude,
     gpsLongitude: input.gpsCoordinates?.longitude,
+    locationPrecision: input.feedPrivacy?.locationPrecision,
+    publishDelayDays: input.feedPrivacy?.publishDelayDays,
     enteredRewards: input.enterRaffle,
     fishEntries: input.fishEntries?.map((fe) => ({
       species: fe.species,
@@ -475,11 +477,7 @@ function createLocalReport(input: ReportInput): StoredReport {
     usedHookAndLine: input.usedHookAndLine,
     gearCode: input.gearCode || null,
     gearLabel: input.gearLabel || null,
-    redDrumCount: input.redDrumCount,
-    flounderCount: input.flounderCount,
-    spottedSeatroutCount: input.spottedSeatroutCount,
-    weakfishCount: input.weakfishCount,
-    stripedBassCount: input.stripedBassCount,
+    ...pickReportCounts(input),
     reportingFor: input.reportingFor,
     familyCount: input.familyCount || null,
     notes: input.notes || null,
@@ -993,11 +991,7 @@ export async function syncPendingReports(): Promise<{
       if (localReport.fishEntries && localReport.fishEntries.length > 0) {
         fishEntries = localReport.fishEntries;
       } else {
-        if (localReport.redDrumCount > 0) fishEntries.push({ species: 'Red Drum', count: localReport.redDrumCount });
-        if (localReport.flounderCount > 0) fishEntries.push({ species: 'Southern Flounder', count: localReport.flounderCount });
-        if (localReport.spottedSeatroutCount > 0) fishEntries.push({ species: 'Spotted Seatrout', count: localReport.spottedSeatroutCount });
-        if (localReport.weakfishCount > 0) fishEntries.push({ species: 'Weakfish', count: localReport.weakfishCount });
-        if (localReport.stripedBassCount > 0) fishEntries.push({ species: 'Striped Bass', count: localReport.stripedBassCount });
+        fishEntries = getSpeciesCountBreakdown(reportToSpeciesCounts(localReport), 'catalogName');
       }
 
       const input: ReportInput = {
@@ -1018,11 +1012,7 @@ export async function syncPendingReports(): Promise<{
         usedHookAndLine: localReport.usedHookAndLine,
         gearCode: localReport.gearCode || undefined,
         gearLabel: localReport.gearLabel || undefined,
-        redDrumCount: localReport.redDrumCount,
-        flounderCount: localReport.flounderCount,
-        spottedSeatroutCount: localReport.spottedSeatroutCount,
-        weakfishCount: localReport.weakfishCount,
-        stripedBassCount: localReport.stripedBassCount,
+        ...pickReportCounts(localReport),
         reportingFor: localReport.reportingFor,
         familyCount: localReport.familyCount || undefined,
         notes: localReport.notes || undefined,
@@ -1188,6 +1178,10 @@ export async function retryFailedWebhooks(): Promise<{ retried: number; succeede
         // The Azure Logic App webhook uses these to compose text/email
         // confirmations. GlobalID is regenerated since it's not stored.
         const globalId = generateGlobalId();
+        const counts = rowToSpeciesCounts(fullReport);
+        const dmfCountAttributes = Object.fromEntries(
+          SPECIES.map(species => [species.dmfCountField, counts[species.countKey].toString()])
+        );
         const dmfAttributes: Record<string, unknown> = {
           GlobalID: globalId,
           Unique1: fullReport.dmf_confirmation_number || '',
@@ -1197,11 +1191,7 @@ export async function retryFailedWebhooks(): Promise<{ retried: number; succeede
           EmailCon: fullReport.want_email_confirmation ? 'Yes' : 'No',
           FirstN: fullReport.first_name || null,
           LastN: fullReport.last_name || null,
-          NumRD: (fullReport.red_drum_count || 0).toString(),
-          NumF: (fullReport.flounder_count || 0).toString(),
-          NumSS: (fullReport.spotted_seatrout_count || 0).toString(),
-          NumW: (fullReport.weakfish_count || 0).toString(),
-          NumSB: (fullReport.striped_bass_count || 0).toString(),
+          ...dmfCountAttributes,
           Area: fullReport.area_code || '',
           Harvest: 'Recreational',
           OBJECTID: report.dmf_object_id,
@@ -1335,13 +1325,7 @@ export async function getReportsSummary(): Promise<{
   const pendingSync = await getPendingSyncCount();
 
   const totalFish = reports.reduce(
-    (sum, r) =>
-      sum +
-      r.redDrumCount +
-      r.flounderCount +
-      r.spottedSeatroutCount +
-      r.weakfishCount +
-      r.stripedBassCount,
+    (sum, r) => sum + sumSpeciesCounts(reportToSpeciesCounts(r)),
     0
   );
 
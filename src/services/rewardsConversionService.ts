@@ -15,6 +15,7 @@ import { getPendingAuth, clearPendingAuth, getCurrentAuthUser, getAuthState } fr
 import { backfillUserStatsFromReports } from './statsService';
 import { getEnteredDrawingIds, enterRewardsDrawing, fetchCurrentDrawing } from './rewardsService';
 import { getPendingSubmission } from './pendingSubmissionService';
+import { requestDeviceMerge, mergeDeviceIntoAccount } from './deviceMergeService';
 import { getDeviceId } from '../utils/deviceId';
 import {
   findUserByDeviceId,
@@ -279,7 +280,8 @@ export async function getRewardsMemberForAnonymousUser(): Promise<User | null> {
 
 /**
  * Link current device user to an email account.
- * If email already exists, creates a merge request.
+ * If email already exists, creates a merge request; the merge runs when the
+ * angler signs in to that account with the magic link.
  */
 export async function linkEmailToUser(email: string): Promise<{
   success: boolean;
@@ -302,27 +304,13 @@ export async function linkEmailToUser(email: string): Promise<{
     const existingUser = await findUserByEmail(email);
 
     if (existingUser) {
-      // Email exists - create merge request
-      // Note: Using correct DB column names (device_id, email)
-      // merge_token and expires_at will be added after DB migration
-      const { data, error } = await supabase
-        .from('device_merge_requests')
-        .insert({
-          device_id: currentUser.id,
-          email: email.toLowerCase(),
-          status: 'pending',
-        })
-        .select()
-        .single();
-
-      if (error) {
-        throw new Error(`Failed to create merge request: ${error.message}`);
-      }
+      // Email exists - request a merge, confirmed by the magic link sign-in
+      const request = await requestDeviceMerge(email, currentUser.id);
 
       return {
         success: true,
         merged: false,
-        mergeRequestId: data.id,
+        mergeRequestId: request?.id,
       };
     }
 
@@ -376,15 +364,34 @@ export async function createRewardsMemberFromAuthUser(): Promise<{
 
       // Check if there's a conflicting user with the same device_id (device-only user)
       const conflictingUser = await findUserByDeviceId(deviceId);
-      if (conflictingUser && conflictingUser.id !== existingUser.id) {
-        // There's a device-only user that conflicts - delete it if it has no email
-        if (!conflictingUser.email) {
-          console.log('🔄 createRewardsMemberFromAuthUser: Removing device-only user to resolve conflict...');
-          await supabase.from('users').delete().eq('id', conflictingUser.id);
-        } else {
-          // Both users have emails - this is a more complex merge scenario
-          // For now, just use the existing email user without updating device_id
-          console.warn('🔄 createRewardsMemberFromAuthUser: Both users have emails, keeping existing');
+      const deviceOnlyUser =
+        conflictingUser && conflictingUser.id !== existingUser.id ? conflictingUser : null;
+      if (deviceOnlyUser?.email) {
+        // Both users have emails - the device belongs to another account.
+        // Just use the existing email user without updating device_id
+        console.warn('🔄 createRewardsMemberFromAuthUser: Both users have emails, keeping existing');
+        await cacheUser(existingUser);
+        await syncToUserProfile(existingUser);
+        await clearPendingAuth();
+        return { success: true, user: existingUser };
+      }
+
+      // The magic link confirmed the email: merge this device's history
+      // (device-only user, anonymous reports) into the account
+      let claimedCatches = 0;
+      try {
+        const merge = await mergeDeviceIntoAccount(authUser.email, deviceOnlyUser?.id ?? null);
+        if (merge) {
+          console.log('🔄 createRewardsMemberFromAuthUser: Merged device history:', merge);
+          claimedCatches = merge.reportsMerged;
+          if (merge.reportsMerged > 0) {
+            await backfillUserStatsFromReports(existingUser.id);
+          }
+        }
+      } catch (mergeError) {
+        console.warn('🔄 createRewardsMemberFromAuthUser: Device merge failed:', mergeError);
+        if (deviceOnlyUser) {
+          // The device-only user still holds the device_id; keep the account as is
           await cacheUser(existingUser);
           await syncToUserProfile(existingUser);
           await clearPendingAuth();
@@ -410,7 +417,7 @@ export async function createRewardsMemberFromAuthUser(): Promise<{
         await cacheUser(existingUser);
         await syncToUserProfile(existingUser);
         await clearPendingAuth();
-        return { success: true, user: existingUser };
+        return { success: true, user: existingUser, claimedCatches };
       }
 
       const updatedUser = transformUser(updatedData);
@@ -418,7 +425,7 @@ export async function createRewardsMemberFromAuthUser(): Promise<{
       await cacheUser(updatedUser);
       await syncToUserProfile(updatedUser);
       await clearPendingAuth();
-      return { success: true, user: updatedUser };
+      return { success: true, user: updatedUser, claimedCatches };
     }
 
     // Get pending auth data (name, phone from signup form)
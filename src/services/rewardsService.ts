@@ -11,6 +11,10 @@ import {
   UserRewardsEntry,
   Prize,
   Quarter,
+  PastDrawing,
+  DrawingEntryBreakdown,
+  PrizeClaimDetails,
+  PrizeClaimStatus,
 } from '../types/rewards';
 import { supabase, isSupabaseConnected } from '../config/supabase';
 import { FALLBACK_CONFIG, FALLBACK_DRAWING } from '../data/rewardsFallbackData';
@@ -24,6 +28,8 @@ const STORAGE_KEYS = {
   lastFetched: '@rewards_last_fetched',
   supabaseAvailable: '@supabase_available',
   lastSeenDrawingId: '@rewards_last_seen_drawing_id',
+  pastDrawings: '@rewards_past_drawings',
+  entryBreakdown: '@rewards_entry_breakdown',
 } as const;
 
 // Cache duration: 1 hour
@@ -219,6 +225,67 @@ function transformUserEntry(row: Record<string, unknown>): UserRewardsEntry {
   };
 }
 
+/**
+ * Transform a get_past_drawings row to PastDrawing type.
+ */
+function transformPastDrawing(row: Record<string, unknown>): PastDrawing {
+  const winners = (row.winners as Array<Record<string, unknown>> | null) ?? [];
+  return {
+    drawingId: row.drawing_id as string,
+    name: row.name as string,
+    quarter: row.quarter as Quarter,
+    year: row.year as number,
+    endDate: row.end_date as string,
+    drawingDate: row.drawing_date as string,
+    drawnAt: (row.drawn_at as string | null) ?? undefined,
+    entrantCount: (row.entrant_count as number | null) ?? undefined,
+    seedHash: (row.seed_hash as string | null) ?? undefined,
+    seed: (row.seed as string | null) ?? undefined,
+    winners: winners.map((w) => ({
+      place: w.place as number,
+      displayName: w.display_name as string,
+      prizeName: (w.prize_name as string | null) ?? undefined,
+    })),
+    userEntered: !!row.viewer_entered,
+    userEnteredAt: (row.viewer_entered_at as string | null) ?? undefined,
+    userWin: row.viewer_claim_status
+      ? {
+          place: row.viewer_place as number,
+          prizeName: (row.viewer_prize_name as string | null) ?? undefined,
+          prizeValue: (row.viewer_prize_value as string | null) ?? undefined,
+          claimStatus: row.viewer_claim_status as PrizeClaimStatus,
+          claimDeadline: row.viewer_claim_deadline as string,
+        }
+      : null,
+  };
+}
+
+/**
+ * Transform a get_my_drawing_entries row to DrawingEntryBreakdown type.
+ */
+function transformEntryBreakdown(drawingId: string, row: Record<string, unknown>): DrawingEntryBreakdown {
+  return {
+    drawingId,
+    baseEntries: row.base_entries as number,
+    onTimeReports: row.on_time_reports as number,
+    onTimeEntries: row.on_time_entries as number,
+    photoCatches: row.photo_catches as number,
+    photoEntries: row.photo_entries as number,
+    streakWeeks: row.streak_weeks as number,
+    streakEntries: row.streak_entries as number,
+    freeEntryRequests: row.free_entry_requests as number,
+    freeEntries: row.free_entries as number,
+    totalEntries: row.total_entries as number,
+    isCapped: (row.total_entries as number) >= (row.max_entries as number),
+    rules: {
+      perOnTimeReport: row.per_on_time_report as number,
+      perPhotoCatch: row.per_photo_catch as number,
+      perStreakWeek: row.per_streak_week as number,
+      maxEntries: row.max_entries as number,
+    },
+  };
+}
+
 /**
  * Fetch rewards config from Supabase.
  */
@@ -692,6 +759,141 @@ export async function getPendingDrawingEntry(
   }
 }
 
+// =============================================================================
+// Weighted Entries
+// =============================================================================
+
+/**
+ * Fetch the signed-in member's entry count and breakdown for a drawing.
+ * Entries are computed server-side from their reports, so this is read-only.
+ * Returns null when the user isn't entered (or isn't a member); falls back to
+ * the last cached breakdown for the same drawing when offline.
+ */
+export async function fetchEntryBreakdown(drawingId: string): Promise<DrawingEntryBreakdown | null> {
+  const getCached = async (): Promise<DrawingEntryBreakdown | null> => {
+    try {
+      const cached = await AsyncStorage.getItem(STORAGE_KEYS.entryBreakdown);
+      const breakdown: DrawingEntryBreakdown | null = cached ? JSON.parse(cached) : null;
+      return breakdown?.drawingId === drawingId ? breakdown : null;
+    } catch {
+      return null;
+    }
+  };
+
+  if (!(await isSupabaseAvailable())) {
+    return getCached();
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('get_my_drawing_entries', { p_drawing_id: drawingId });
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const row = (data as Array<Record<string, unknown>> | null)?.[0];
+    const breakdown = row?.is_entered ? transformEntryBreakdown(drawingId, row) : null;
+    if (breakdown) {
+      await AsyncStorage.setItem(STORAGE_KEYS.entryBreakdown, JSON.stringify(breakdown));
+    } else {
+      await AsyncStorage.removeItem(STORAGE_KEYS.entryBreakdown);
+    }
+    return breakdown;
+  } catch (error) {
+    console.warn('Failed to fetch entry breakdown, using cache:', error);
+    return getCached();
+  }
+}
+
+// =============================================================================
+// Past Drawings & Prize Claims
+// =============================================================================
+
+/**
+ * Fetch drawings whose entry period has ended, newest first, with their
+ * winners and the current user's entry and claim status.
+ * Falls back to the last cached list when offline.
+ */
+export async function fetchPastDrawings(): Promise<PastDrawing[]> {
+  const getCached = async (): Promise<PastDrawing[]> => {
+    try {
+      const cached = await AsyncStorage.getItem(STORAGE_KEYS.pastDrawings);
+      return cached ? JSON.parse(cached) : [];
+    } catch {
+      return [];
+    }
+  };
+
+  if (!(await isSupabaseAvailable())) {
+    return getCached();
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('get_past_drawings');
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const drawings = ((data as Array<Record<string, unknown>> | null) ?? []).map(transformPastDrawing);
+    await AsyncStorage.setItem(STORAGE_KEYS.pastDrawings, JSON.stringify(drawings));
+    return drawings;
+  } catch (error) {
+    console.warn('Failed to fetch past drawings, using cache:', error);
+    return getCached();
+  }
+}
+
+/**
+ * Claim a drawing prize by confirming contact and shipping details and
+ * accepting the official rules. Can be called again before the deadline to
+ * correct details. Returns the resulting claim status.
+ */
+export async function claimPrize(
+  drawingId: string,
+  details: PrizeClaimDetails,
+  acceptTerms: boolean
+): Promise<PrizeClaimStatus> {
+  if (!(await isSupabaseAvailable())) {
+    throw new Error('You need to be online to claim your prize. Please try again.');
+  }
+
+  const { data, error } = await supabase.rpc('claim_prize', {
+    p_drawing_id: drawingId,
+    p_full_name: details.fullName,
+    p_email: details.email,
+    p_phone: details.phone,
+    p_address_line1: details.addressLine1,
+    p_address_line2: details.addressLine2 ?? null,
+    p_city: details.city,
+    p_state: details.state,
+    p_postal_code: details.postalCode,
+    p_accept_terms: acceptTerms,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim prize: ${error.message}`);
+  }
+
+  const status = (data as { status: PrizeClaimStatus }).status;
+
+  // Keep the cached history in step so the card updates offline
+  try {
+    const cached = await AsyncStorage.getItem(STORAGE_KEYS.pastDrawings);
+    if (cached) {
+      const drawings: PastDrawing[] = JSON.parse(cached);
+      const updated = drawings.map((d) =>
+        d.drawingId === drawingId && d.userWin
+          ? { ...d, userWin: { ...d.userWin, claimStatus: status } }
+          : d
+      );
+      await AsyncStorage.setItem(STORAGE_KEYS.pastDrawings, JSON.stringify(updated));
+    }
+  } catch {
+    // Cache refreshes on the next fetch
+  }
+
+  return status;
+}
+
 /**
  * Clear all cached rewards data.
  * Useful for logout or debugging.
@@ -703,6 +905,8 @@ export async function clearRewardsCache(): Promise<void> {
       STORAGE_KEYS.currentDrawing,
       STORAGE_KEYS.userEntry,
       STORAGE_KEYS.lastFetched,
+      STORAGE_KEYS.pastDrawings,
+      STORAGE_KEYS.entryBreakdown,
     ]);
     // Reset availability cache
     supabaseAvailableCache = null;
@@ -6,17 +6,17 @@
 
 import { supabase, isSupabaseConnected } from '../config/supabase';
 import { StoredReport } from '../types/report';
-
-// Species mapping from report fields to display names.
-// Full names must match what fish_entries.species stores (set by ReportFormScreen)
-// so that user_species_stats rows created by the DB trigger vs app code are consistent.
-const SPECIES_MAP: Record<string, string> = {
-  redDrumCount: 'Red Drum',
-  flounderCount: 'Flounder',
-  spottedSeatroutCount: 'Spotted Seatrout (speckled trout)',
-  weakfishCount: 'Weakfish (gray trout)',
-  stripedBassCount: 'Striped Bass',
-};
+import {
+  SPECIES,
+  getSpeciesCountBreakdown,
+  getTotalFishCount,
+  reportToSpeciesCounts,
+  rowToSpeciesCounts,
+} from '../constants/species';
+
+// Species stats are keyed by picker label ('Weakfish (gray trout)'), which must
+// match what fish_entries.species stores (set by ReportFormScreen) so that
+// user_species_stats rows created by the DB trigger vs app code are consistent.
 
 // =============================================================================
 // Species Stats
@@ -42,12 +42,11 @@ export async function updateSpeciesStats(
   }
 
   try {
-    // Build list of species to update using SPECIES_MAP as the single source of truth
-    const updates: SpeciesStatUpdate[] = Object.entries(SPECIES_MAP)
-      .filter(([field]) => (report[field as keyof StoredReport] as number) > 0)
-      .map(([field, species]) => ({
+    // Build list of species to update from the reportable species list
+    const updates: SpeciesStatUpdate[] = getSpeciesCountBreakdown(reportToSpeciesCounts(report), 'pickerLabel')
+      .map(({ species, count }) => ({
         species,
-        count: report[field as keyof StoredReport] as number,
+        count,
         harvestDate: report.harvestDate,
       }));
 
@@ -134,12 +133,7 @@ export async function updateUserStats(
 
   try {
     // Calculate total fish in this report
-    const fishCount =
-      report.redDrumCount +
-      report.flounderCount +
-      report.spottedSeatroutCount +
-      report.weakfishCount +
-      report.stripedBassCount;
+    const fishCount = getTotalFishCount(reportToSpeciesCounts(report));
 
     // Get current user stats
     const { data: user, error: fetchError } = await supabase
@@ -510,14 +504,7 @@ function checkAchievementRequirement(
     // Species achievements — names must match what the DB trigger stores
     // (which comes from fish_entries.species, set by ReportFormScreen).
     case 'species_all_5':
-      const allSpecies = [
-        'Red Drum',
-        'Flounder',
-        'Spotted Seatrout (speckled trout)',
-        'Weakfish (gray trout)',
-        'Striped Bass',
-      ];
-      return allSpecies.every((s) => (speciesMap.get(s) || 0) > 0);
+      return SPECIES.every((s) => (speciesMap.get(s.pickerLabel) || 0) > 0);
 
     default:
       console.log(`Unknown achievement code: ${code}`);
@@ -707,51 +694,15 @@ export async function backfillUserStatsFromReports(
     const speciesStats: Map<string, { count: number; lastCaughtAt: string }> = new Map();
 
     for (const report of reports) {
-      // Sum up fish counts
-      const redDrum = report.red_drum_count || 0;
-      const flounder = report.flounder_count || 0;
-      const spottedSeatrout = report.spotted_seatrout_count || 0;
-      const weakfish = report.weakfish_count || 0;
-      const stripedBass = report.striped_bass_count || 0;
-
-      totalFish += redDrum + flounder + spottedSeatrout + weakfish + stripedBass;
+      const counts = rowToSpeciesCounts(report);
+      totalFish += getTotalFishCount(counts);
 
       // Aggregate species stats
       const harvestDate = report.harvest_date;
-      if (redDrum > 0) {
-        const existing = speciesStats.get('Red Drum') || { count: 0, lastCaughtAt: harvestDate };
-        speciesStats.set('Red Drum', {
-          count: existing.count + redDrum,
-          lastCaughtAt: harvestDate > existing.lastCaughtAt ? harvestDate : existing.lastCaughtAt,
-        });
-      }
-      if (flounder > 0) {
-        const existing = speciesStats.get('Flounder') || { count: 0, lastCaughtAt: harvestDate };
-        speciesStats.set('Flounder', {
-          count: existing.count + flounder,
-          lastCaughtAt: harvestDate > existing.lastCaughtAt ? harvestDate : existing.lastCaughtAt,
-        });
-      }
-      if (spottedSeatrout > 0) {
-        const key = SPECIES_MAP.spottedSeatroutCount; // 'Spotted Seatrout (speckled trout)'
-        const existing = speciesStats.get(key) || { count: 0, lastCaughtAt: harvestDate };
-        speciesStats.set(key, {
-          count: existing.count + spottedSeatrout,
-          lastCaughtAt: harvestDate > existing.lastCaughtAt ? harvestDate : existing.lastCaughtAt,
-        });
-      }
-      if (weakfish > 0) {
-        const key = SPECIES_MAP.weakfishCount; // 'Weakfish (gray trout)'
-        const existing = speciesStats.get(key) || { count: 0, lastCaughtAt: harvestDate };
-        speciesStats.set(key, {
-          count: existing.count + weakfish,
-          lastCaughtAt: harvestDate > existing.lastCaughtAt ? harvestDate : existing.lastCaughtAt,
-        });
-      }
-      if (stripedBass > 0) {
-        const existing = speciesStats.get('Striped Bass') || { count: 0, lastCaughtAt: harvestDate };
-        speciesStats.set('Striped Bass', {
-          count: existing.count + stripedBass,
+      for (const { species, count } of getSpeciesCountBreakdown(counts, 'pickerLabel')) {
+        const existing = speciesStats.get(species) || { count: 0, lastCaughtAt: harvestDate };
+        speciesStats.set(species, {
+          count: existing.count + count,
           lastCaughtAt: harvestDate > existing.lastCaughtAt ? harvestDate : existing.lastCaughtAt,
         });
       }
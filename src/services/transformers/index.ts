@@ -30,6 +30,13 @@ export {
   type SupabaseFishSpeciesRow,
 } from './fishSpeciesTransformer';
 
+// Regulation Record Transformers
+export {
+  transformRegulationRecord,
+  transformRegulationRecordList,
+  type SupabaseRegulationRecordRow,
+} from './regulationRecordTransformer';
+
 // User Transformers
 export {
   transformUser,
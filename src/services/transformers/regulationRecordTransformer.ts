@@ -0,0 +1,63 @@
+/**
+ * src/services/transformers/regulationRecordTransformer.ts
+ *
+ * Transformer for converting Supabase species_regulations rows to camelCase TypeScript types.
+ */
+
+import { RegulationRecord, SpeciesRegulations } from '../../types/fishSpecies';
+import { SupabaseFishSpeciesRow } from './fishSpeciesTransformer';
+
+/**
+ * Raw Supabase species_regulations row (snake_case).
+ */
+export interface SupabaseRegulationRecordRow {
+  id: string;
+  species_id: string;
+  regulations: SupabaseFishSpeciesRow['regulations'] | null;
+  harvest_status: string | null;
+  note: string | null;
+  area_codes: string[] | null;
+  effective_date: string;
+  expiration_date: string | null;
+  source: string | null;
+  bulletin_id: string | null;
+  created_at: string;
+}
+
+/**
+ * Transform a Supabase species_regulations row to the camelCase RegulationRecord type.
+ *
+ * Dates are trimmed to YYYY-MM-DD so they compare as strings, and partial
+ * regulations JSON is filled with the same defaults as fish_species.
+ */
+export function transformRegulationRecord(row: SupabaseRegulationRecordRow): RegulationRecord {
+  const regulations: SpeciesRegulations | null = row.regulations
+    ? {
+        sizeLimit: row.regulations.sizeLimit || { min: null, max: null, unit: 'in' },
+        bagLimit: row.regulations.bagLimit ?? null,
+        openSeasons: row.regulations.openSeasons || null,
+        closedAreas: row.regulations.closedAreas,
+        specialRegulations: row.regulations.specialRegulations,
+      }
+    : null;
+
+  return {
+    id: row.id,
+    speciesId: row.species_id,
+    regulations,
+    harvestStatus: (row.harvest_status as RegulationRecord['harvestStatus']) ?? null,
+    note: row.note ?? null,
+    areaCodes: row.area_codes || [],
+    effectiveDate: row.effective_date.slice(0, 10),
+    expirationDate: row.expiration_date ? row.expiration_date.slice(0, 10) : null,
+    source: row.source === 'bulletin' ? 'bulletin' : 'import',
+    bulletinId: row.bulletin_id ?? null,
+  };
+}
+
+/**
+ * Transform a list of Supabase species_regulations rows.
+ */
+export function transformRegulationRecordList(rows: SupabaseRegulationRecordRow[]): RegulationRecord[] {
+  return rows.map(transformRegulationRecord);
+}
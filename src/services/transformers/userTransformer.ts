@@ -5,6 +5,8 @@
  * Consolidates snake_case -> camelCase transformations for the User entity and related types.
  */
 
+import type { LocationPrecision } from '../../types/catchFeed';
+
 /**
  * User type (camelCase, TypeScript-friendly).
  * Represents a Rewards Member (user who has opted into the Rewards Program).
@@ -37,6 +39,9 @@ export interface User {
   longestStreak: number;
   lastReportDate: string | null;
   rewardsOptedInAt: string | null;
+  locationPrecision: LocationPrecision;
+  publishDelayDays: number;
+  isPrivate: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -72,6 +77,9 @@ export interface SupabaseUserRow {
   longest_streak_days: number;
   last_active_at: string | null;
   rewards_opted_in_at: string | null;
+  location_precision: LocationPrecision;
+  publish_delay_days: number;
+  is_private: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -104,6 +112,9 @@ export interface SupabaseUserRow {
  * - longest_streak_days -> longestStreak
  * - last_active_at -> lastReportDate
  * - rewards_opted_in_at -> rewardsOptedInAt
+ * - location_precision -> locationPrecision (defaults to 'exact')
+ * - publish_delay_days -> publishDelayDays (defaults to 0)
+ * - is_private -> isPrivate (defaults to false)
  * - created_at -> createdAt
  * - updated_at -> updatedAt
  */
@@ -136,6 +147,9 @@ export function transformUser(row: Record<string, unknown>): User {
     longestStreak: row.longest_streak_days as number,
     lastReportDate: row.last_active_at as string | null,
     rewardsOptedInAt: row.rewards_opted_in_at as string | null,
+    locationPrecision: (row.location_precision as LocationPrecision) ?? 'exact',
+    publishDelayDays: (row.publish_delay_days as number) ?? 0,
+    isPrivate: (row.is_private as boolean) ?? false,
     createdAt: row.created_at as string,
     updatedAt: row.updated_at as string,
   };
@@ -23,6 +23,7 @@ import { getAuthState } from './authService';
 import { backfillUserStatsFromReports } from './statsService';
 import { findUserByDeviceId, findUserByEmail } from './userService';
 import { getDeviceId } from '../utils/deviceId';
+import { DEFAULT_FEED_PRIVACY } from '../constants/feedPrivacy';
 
 // Storage keys
 const STORAGE_KEYS = {
@@ -206,6 +207,9 @@ export async function updateUserInSupabase(userId: string, input: UserInput): Pr
   if (input.primaryHarvestArea !== undefined) updateData.primary_harvest_area = input.primaryHarvestArea || null;
   if (input.primaryFishingMethod !== undefined) updateData.primary_fishing_method = input.primaryFishingMethod || null;
   if (input.rewardsOptedInAt !== undefined) updateData.rewards_opted_in_at = input.rewardsOptedInAt || null;
+  if (input.locationPrecision !== undefined) updateData.location_precision = input.locationPrecision;
+  if (input.publishDelayDays !== undefined) updateData.publish_delay_days = input.publishDelayDays;
+  if (input.isPrivate !== undefined) updateData.is_private = input.isPrivate;
 
   const { data, error } = await supabase
     .from('users')
@@ -363,6 +367,8 @@ export async function getCurrentUser(): Promise<User | null> {
     longestStreak: 0,
     lastReportDate: null,
     rewardsOptedInAt: null,
+    ...DEFAULT_FEED_PRIVACY,
+    isPrivate: false,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
   };
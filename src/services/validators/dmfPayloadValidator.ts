@@ -0,0 +1,145 @@
+/**
+ * Contract check for DMF payloads against the checked-in feature layer schema
+ * (constants/dmfLayerSchema.json). Catches payloads ArcGIS would reject or
+ * silently mangle: unknown fields, wrong types, over-length strings, codes
+ * outside a domain, and missing or stray conditional answers.
+ */
+
+import { DMF_LAYER_SCHEMA, DMFFieldSchema, DMFLayerSchema } from '../../constants/dmfSchema';
+import type { DMFPayload } from '../../types/harvestReport';
+
+export type DMFSchemaRule =
+  | 'unknown_field'
+  | 'missing_field'
+  | 'required'
+  | 'not_relevant'
+  | 'type'
+  | 'length'
+  | 'domain'
+  | 'geometry';
+
+/** One way a payload breaks the DMF layer contract */
+export interface DMFSchemaViolation {
+  field: string;
+  rule: DMFSchemaRule;
+  message: string;
+}
+
+const GLOBAL_ID_PATTERN = /^\{[0-9A-F]{8}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{12}\}$/i;
+
+/**
+ * Check a value against a field's ArcGIS type and length.
+ */
+function checkType(field: DMFFieldSchema, value: unknown): DMFSchemaViolation | undefined {
+  switch (field.type) {
+    case 'esriFieldTypeString':
+      if (typeof value !== 'string') {
+        return { field: field.name, rule: 'type', message: `${field.name} must be a string` };
+      }
+      if (field.length !== undefined && value.length > field.length) {
+        return {
+          field: field.name,
+          rule: 'length',
+          message: `${field.name} is ${value.length} characters (max ${field.length})`,
+        };
+      }
+      return undefined;
+    case 'esriFieldTypeDate':
+      // ArcGIS dates are epoch milliseconds
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return { field: field.name, rule: 'type', message: `${field.name} must be epoch milliseconds` };
+      }
+      return undefined;
+    case 'esriFieldTypeInteger':
+    case 'esriFieldTypeSmallInteger':
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        return { field: field.name, rule: 'type', message: `${field.name} must be an integer` };
+      }
+      return undefined;
+    case 'esriFieldTypeDouble':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return { field: field.name, rule: 'type', message: `${field.name} must be a number` };
+      }
+      return undefined;
+    case 'esriFieldTypeGUID':
+    case 'esriFieldTypeGlobalID':
+      if (typeof value !== 'string' || !GLOBAL_ID_PATTERN.test(value)) {
+        return { field: field.name, rule: 'type', message: `${field.name} must be a {GUID}` };
+      }
+      return undefined;
+  }
+}
+
+/**
+ * Validate a DMF payload against the feature layer schema.
+ *
+ * Null is always allowed for nullable, non-required fields. Required fields
+ * must be non-null when relevant; fields with a relevance condition must be
+ * null when the condition does not hold (e.g. Gear when Hook is "Yes").
+ *
+ * @param payload - Output of transformToDMFPayload()
+ * @param schema - Layer schema (defaults to the checked-in schema)
+ * @returns Violations, empty when the payload matches the contract
+ */
+export function validateDMFPayload(
+  payload: DMFPayload,
+  schema: DMFLayerSchema = DMF_LAYER_SCHEMA
+): DMFSchemaViolation[] {
+  const violations: DMFSchemaViolation[] = [];
+  const attributes = payload.attributes as unknown as Record<string, unknown>;
+  const known = new Set(schema.fields.map(f => f.name));
+
+  for (const name of Object.keys(attributes)) {
+    if (!known.has(name)) {
+      violations.push({ field: name, rule: 'unknown_field', message: `${name} is not a field on the DMF layer` });
+    }
+  }
+
+  for (const field of schema.fields) {
+    if (!(field.name in attributes)) {
+      violations.push({ field: field.name, rule: 'missing_field', message: `${field.name} is missing` });
+      continue;
+    }
+
+    const value = attributes[field.name];
+    const relevant = !field.relevant || attributes[field.relevant.field] === field.relevant.equals;
+
+    if (value === null) {
+      if (!field.nullable || (field.required && relevant)) {
+        violations.push({ field: field.name, rule: 'required', message: `${field.name} is required` });
+      }
+      continue;
+    }
+
+    if (!relevant) {
+      violations.push({
+        field: field.name,
+        rule: 'not_relevant',
+        message: `${field.name} must be null unless ${field.relevant!.field} is "${field.relevant!.equals}"`,
+      });
+      continue;
+    }
+
+    const typeViolation = checkType(field, value);
+    if (typeViolation) {
+      violations.push(typeViolation);
+      continue;
+    }
+
+    if (field.domain && !field.domain.codedValues.some(v => String(v.code) === String(value))) {
+      violations.push({
+        field: field.name,
+        rule: 'domain',
+        message: `${field.name} "${String(value)}" is not in the ${field.domain.name} domain`,
+      });
+    }
+  }
+
+  const { geometry } = payload;
+  const coordinates = [geometry?.x, geometry?.y, geometry?.z];
+  if (!geometry?.spatialReference?.wkid || coordinates.some(c => typeof c !== 'number' || !Number.isFinite(c))) {
+    violations.push({ field: 'geometry', rule: 'geometry', message: 'geometry must have a wkid and numeric x, y, z' });
+  }
+
+  return violations;
+}
@@ -1691,6 +1691,11 @@ export const createProfileLocalStyles = (theme: Theme) =>
       lineHeight: 20,
       marginBottom: spacing.md,
     },
+    feedPrivacyDesc: {
+      fontSize: 14,
+      color: theme.colors.textSecondary,
+      lineHeight: 20,
+    },
     signOutButton: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -1374,6 +1374,25 @@ export const createReportFormLocalStyles = (theme: Theme) =>
       alignItems: "center",
       gap: 8,
     },
+    // "Use my location" area suggestion
+    locationSuggestButton: {
+      flexDirection: "row",
+      alignItems: "center",
+      alignSelf: "flex-start",
+      paddingVertical: 8,
+      marginTop: 4,
+    },
+    locationSuggestText: {
+      fontSize: 14,
+      fontWeight: "600",
+      color: theme.colors.primary,
+      marginLeft: 6,
+    },
+    locationSuggestHint: {
+      fontSize: 13,
+      color: theme.colors.textSecondary,
+      marginTop: 2,
+    },
     // Toast notification styles
     toast: {
       position: "absolute",
@@ -4,6 +4,8 @@
 // where rewards-enrolled users can share their catches.
 //
 
+import type { SpeciesCountKey } from '../constants/species';
+
 /**
  * Represents a species and count for a catch entry.
  */
@@ -32,9 +34,125 @@ export interface CatchFeedEntry {
   catchDate: string;            // ISO date string
   location?: string;            // General area (e.g., "Pamlico Sound")
   createdAt: string;            // When the report was submitted
-  likeCount: number;            // Number of likes on this catch
-  isLikedByCurrentUser: boolean; // Whether the current user has liked this catch
+  likeCount: number;            // Number of reactions of any kind on this catch
+  isLikedByCurrentUser: boolean; // Whether the current user has reacted to this catch
+  reactionCounts?: ReactionCounts; // Per-reaction counts (sum to likeCount)
+  myReaction?: CatchReaction | null; // The current user's reaction, if any
   commentCount?: number;         // Number of comments on this catch (optional during rollout)
+  visibility?: PostVisibility;   // Audience for the catch (the view only returns ones the viewer may see)
+}
+
+/**
+ * Reactions an angler can leave on a catch, one per angler. Every reaction
+ * counts as a like, so likeCount (and the leaderboard) is their sum.
+ */
+export type CatchReaction = 'nice_fish' | 'big_one' | 'jealous' | 'good_eats';
+
+/**
+ * Number of anglers who left each reaction. Reactions nobody used are omitted.
+ */
+export type ReactionCounts = Partial<Record<CatchReaction, number>>;
+
+/**
+ * Keyset cursor into a catch feed: the (created_at, report id) of a row.
+ *
+ * Pages are "rows strictly older than the cursor" rather than offsets, so
+ * catches posted while someone scrolls can't shift later pages and cause
+ * duplicate or skipped cards. The id breaks ties between rows created in the
+ * same instant.
+ */
+export interface FeedCursor {
+  createdAt: string;
+  id: string;
+}
+
+/**
+ * Cursor pointing at a feed entry.
+ */
+export function toFeedCursor(entry: Pick<CatchFeedEntry, 'createdAt' | 'id'>): FeedCursor {
+  return { createdAt: entry.createdAt, id: entry.id };
+}
+
+/**
+ * How much of a catch's location other anglers see:
+ * - exact: the DMF harvest area (e.g. "Bogue Sound")
+ * - region: only the REGION_OPTIONS region (e.g. "Crystal Coast")
+ * - hidden: no location at all
+ */
+export type LocationPrecision = 'exact' | 'region' | 'hidden';
+
+/**
+ * Feed privacy for an angler's catches. Set on the profile as the default,
+ * and optionally overridden per report. Enforced by the v_catch_feed view,
+ * so every feed, profile and detail read sees the same redaction.
+ */
+export interface FeedPrivacySettings {
+  locationPrecision: LocationPrecision;
+  /** Days after submission before other anglers can see the catch */
+  publishDelayDays: number;
+}
+
+/**
+ * Who can see a shared catch, along with its likes and comments:
+ * - public: everyone (followers only when the angler's profile is private)
+ * - followers: anglers who follow the author
+ * - private: only the author
+ */
+export type PostVisibility = 'public' | 'followers' | 'private';
+
+/** Where a feed report came from: the catch log or a DMF harvest report */
+export type CatchFeedReportType = 'dmf_harvest' | 'catch_log';
+
+/**
+ * Server-side filter for the Discover feed. Every field is optional and
+ * fields combine with AND; an empty object is the unfiltered feed.
+ */
+export interface CatchFeedFilter {
+  /** Reports with any of these species (SPECIES countKeys) */
+  species?: SpeciesCountKey[];
+  /** DMF area code (AREA_OPTIONS value) */
+  areaCode?: string;
+  /** REGION_OPTIONS value; matches the region's area codes, including region-only catches */
+  region?: string;
+  /** Earliest harvest date, inclusive (YYYY-MM-DD) */
+  dateFrom?: string;
+  /** Latest harvest date, inclusive (YYYY-MM-DD) */
+  dateTo?: string;
+  /** Only reports with at least one photo */
+  hasPhoto?: boolean;
+  reportType?: CatchFeedReportType;
+}
+
+/**
+ * Number of filter fields set, for the "Filters (N)" badge.
+ */
+export function countActiveFeedFilters(filter: CatchFeedFilter): number {
+  return [
+    filter.species && filter.species.length > 0,
+    filter.areaCode,
+    filter.region,
+    filter.dateFrom || filter.dateTo,
+    filter.hasPhoto,
+    filter.reportType,
+  ].filter(Boolean).length;
+}
+
+/**
+ * Stable string for a filter, used in cache and query keys. Empty for the
+ * unfiltered feed so its cache key is unchanged.
+ */
+export function feedFilterKey(filter: CatchFeedFilter): string {
+  const parts: string[] = [];
+  if (filter.species && filter.species.length > 0) {
+    parts.push(`species=${[...filter.species].sort().join('+')}`);
+  }
+  if (filter.areaCode) parts.push(`area=${filter.areaCode}`);
+  if (filter.region) parts.push(`region=${filter.region}`);
+  if (filter.dateFrom) parts.push(`from=${filter.dateFrom}`);
+  if (filter.dateTo) parts.push(`to=${filter.dateTo}`);
+  if (filter.hasPhoto) parts.push('photo');
+  if (filter.reportType) parts.push(`type=${filter.reportType}`);
+  return parts.join('&');
 }
 
 /**
@@ -64,6 +182,7 @@ export interface AnglerProfile {
   memberSince: string;          // rewardsOptedInAt timestamp
   followersCount?: number;      // Denormalized on users table
   followingCount?: number;
+  isPrivate?: boolean;          // Private profile: follows need approval
   achievements?: EarnedAchievement[];
 }
 
@@ -140,6 +259,15 @@ export interface TopAngler {
   label: string;           // Display label (e.g., "catches", "species", "longest")
 }
 
+/**
+ * An angler @mentioned in a comment. The comment text carries
+ * `@${displayName}`; the userId links it to their profile.
+ */
+export interface CommentMention {
+  userId: string;
+  displayName: string;           // First name + last initial
+}
+
 /**
  * Represents a single comment on a catch.
  */
@@ -152,4 +280,26 @@ export interface CatchComment {
   text: string;
   createdAt: string;             // ISO timestamp
   isOwn: boolean;                // True if authored by the current user (drives delete UI)
+  parentId: string | null;       // Top-level comment this replies to (replies are one level deep)
+  editedAt?: string;             // Set once the text has been edited
+  mentions: CommentMention[];
+}
+
+/**
+ * Why a catch or comment was reported. Enough distinct reports hide it
+ * automatically until a moderator reviews it.
+ */
+export type ReportReasonCode =
+  | 'spam'
+  | 'harassment'
+  | 'inappropriate'
+  | 'illegal_harvest'
+  | 'other';
+
+/**
+ * A previous version of an edited comment.
+ */
+export interface CommentEdit {
+  text: string;
+  editedAt: string;              // When this version was replaced
 }
@@ -59,4 +59,35 @@ export interface EnhancedFishSpecies extends Omit<FishSpecies, 'regulations'> {
   harvestStatusEffectiveDate?: string;
   harvestStatusExpirationDate?: string | null;
   harvestStatusBulletinId?: string;
-}
\ No newline at end of file
+}
+// Size, bag and season rules for a species
+export type SpeciesRegulations = EnhancedFishSpecies['regulations'];
+
+export type HarvestStatus = EnhancedFishSpecies['harvestStatus'];
+
+/**
+ * A date-effective regulation record (species_regulations table).
+ *
+ * `EnhancedFishSpecies.regulations` is only today's snapshot. These records
+ * keep every version of a species' rules with the dates they were in force,
+ * so a report back-filled for last season is checked against last season's
+ * rules. Rule records come from importSpeciesData.mjs; closure records come
+ * from DMF bulletins.
+ */
+export interface RegulationRecord {
+  id: string;
+  speciesId: string;
+  /** Size/bag/season rules; null for status-only records such as closures */
+  regulations: SpeciesRegulations | null;
+  /** Harvest status while in force; null for rule-only records */
+  harvestStatus: HarvestStatus | null;
+  note: string | null;
+  /** DMF area codes the record is limited to; empty means statewide */
+  areaCodes: string[];
+  /** First day in force (YYYY-MM-DD) */
+  effectiveDate: string;
+  /** Last day in force (YYYY-MM-DD); null while still current */
+  expirationDate: string | null;
+  source: 'import' | 'bulletin';
+  bulletinId: string | null;
+}
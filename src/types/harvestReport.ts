@@ -4,7 +4,16 @@
 // Separates DMF-required fields from app-only fields per the dual data flow architecture.
 //
 
-import { SpeciesCounts } from '../constants/species';
+import {
+  SpeciesCounts,
+  ReportSpeciesCounts,
+  DMFSpeciesPayload,
+  createEmptySpeciesCounts,
+  getTotalFishCount,
+  reportToSpeciesCounts,
+  speciesCountsToReport,
+} from '../constants/species';
+import type { FeedPrivacySettings } from './catchFeed';
 
 // ============================================
 // HARVEST REPORT INPUT (User Form Data)
@@ -22,8 +31,11 @@ import { SpeciesCounts } from '../constants/species';
  * - HARVEST DATA: Species counts, location, gear
  * - OPTIONAL DMF: Family reporting
  * - APP-ONLY: Raffle, photos, GPS (never sent to DMF)
+ *
+ * Species counts (redDrumCount, flounderCount, …) come from
+ * ReportSpeciesCounts — one field per entry in constants/species.ts SPECIES.
  */
-export interface HarvestReportInput {
+export interface HarvestReportInput extends ReportSpeciesCounts {
   // === IDENTITY (goes to DMF + local storage) ===
 
   /**
@@ -94,31 +106,6 @@ export interface HarvestReportInput {
    */
   harvestDate: Date;
 
-  /**
-   * Number of Red Drum harvested.
-   */
-  redDrumCount: number;
-
-  /**
-   * Number of Flounder harvested.
-   */
-  flounderCount: number;
-
-  /**
-   * Number of Spotted Seatrout harvested.
-   */
-  spottedSeatroutCount: number;
-
-  /**
-   * Number of Weakfish harvested.
-   */
-  weakfishCount: number;
-
-  /**
-   * Number of Striped Bass harvested.
-   */
-  stripedBassCount: number;
-
   /**
    * DMF area code (e.g., "34" for Pamlico Sound).
    * Use getAreaCodeFromLabel() to convert from display label.
@@ -202,13 +189,20 @@ export interface HarvestReportInput {
 
   /**
    * GPS coordinates where fish were caught.
-   * Private - not sent to DMF.
+   * Private - only sent to DMF as the feature geometry when
+   * `features.sendGpsGeometry` is enabled.
    */
   gpsCoordinates?: {
     latitude: number;
     longitude: number;
   };
 
+  /**
+   * Catch Feed privacy for this report (location precision, publish delay).
+   * Unset fields fall back to the angler's profile settings.
+   */
+  feedPrivacy?: Partial<FeedPrivacySettings>;
+
   /**
    * Individual fish entries from the form.
    * Used to preserve per-fish details (length, tag) for local history.
@@ -311,6 +305,22 @@ export interface ValidationError {
   message: string;
 }
 
+/**
+ * Which regulation a harvest report appears to break.
+ */
+export type RegulationRule = 'bag_limit' | 'size_limit' | 'closed_season' | 'closure';
+
+/**
+ * A possible regulation violation. Warnings never block submission — the
+ * angler may know something the app's regulation data doesn't.
+ */
+export interface RegulationWarning extends ValidationError {
+  /** Rule that was tripped */
+  rule: RegulationRule;
+  /** DMF species ID (e.g., "red_drum") */
+  speciesId: string;
+}
+
 /**
  * Result from validating harvest report input.
  */
@@ -319,6 +329,8 @@ export interface ValidationResult {
   isValid: boolean;
   /** Array of validation errors (empty if isValid = true) */
   errors: ValidationError[];
+  /** Regulation warnings (only when species regulations were supplied) */
+  warnings?: RegulationWarning[];
 }
 
 // ============================================
@@ -337,8 +349,11 @@ export interface DMFPayload {
 /**
  * DMF attribute fields.
  * Field names must match exactly what DMF expects.
+ *
+ * Species fields (NumRD… count strings, RedDr… null flags) come from
+ * DMFSpeciesPayload, derived from SPECIES.
  */
-export interface DMFAttributes {
+export interface DMFAttributes extends DMFSpeciesPayload {
   // Identity
   Licenque: 'Yes' | 'No';
   License: string | null;
@@ -363,20 +378,6 @@ export interface DMFAttributes {
   SysDate: number; // Unix milliseconds
   DateS: string; // Day of month as string
 
-  // Species counts (as strings)
-  NumRD: string;
-  NumF: string;
-  NumSS: string;
-  NumW: string;
-  NumSB: string;
-
-  // Species flags (always null - legacy fields)
-  RedDr: null;
-  Flound: null;
-  SST: null;
-  Weakf: null;
-  Striped: null;
-
   // Confirmation number
   Rand: string;
   Unique1: string;
@@ -396,7 +397,7 @@ export interface DMFAttributes {
 }
 
 /**
- * DMF geometry (always 0,0,0 for harvest reports).
+ * DMF geometry. 0,0,0 unless the GPS fix is sent (WGS84: x = longitude, y = latitude).
  */
 export interface DMFGeometry {
   spatialReference: { wkid: number };
@@ -405,6 +406,103 @@ export interface DMFGeometry {
   z: number;
 }
 
+/**
+ * Result for one added feature in an ArcGIS applyEdits response.
+ */
+export interface DMFAddResult {
+  /** Object ID assigned by ArcGIS */
+  objectId: number;
+  /** GlobalID of the feature (sent with useGlobalIds) */
+  globalId?: string;
+  success: boolean;
+  /** Present when the add failed */
+  error?: { code?: number; description?: string };
+}
+
+/**
+ * Edits applied to one layer in an ArcGIS applyEdits response.
+ * The service-level endpoint returns one of these per layer edited.
+ */
+export interface DMFLayerEditResult {
+  /** Layer ID (0 for harvest reports) */
+  id: number;
+  addResults?: DMFAddResult[];
+}
+
+/**
+ * Response body of the service-level ArcGIS applyEdits endpoint.
+ */
+export type DMFApplyEditsResponse = DMFLayerEditResult[];
+
+// ============================================
+// SUBMISSION LEDGER TYPES
+// ============================================
+
+/**
+ * Identity fields that make a DMF feature recognisable across retries.
+ * Generated once per harvest and reused on every submission attempt.
+ */
+export interface DMFSubmissionIdentity {
+  /** GlobalID sent with the feature, e.g. "{1A2B...}" */
+  globalId: string;
+  /** Day-of-month component of the confirmation number (DateS field) */
+  dateS: string;
+  /** Random component of the confirmation number (Rand field) */
+  rand: string;
+  /** Confirmation number shown to the user (Unique1 field) */
+  confirmationNumber: string;
+}
+
+/**
+ * Outcome of a single submission attempt.
+ * - in_flight: request sent, response not yet recorded (app may have died)
+ * - submitted: ArcGIS accepted the add
+ * - already_submitted: a prior attempt had landed; found via GlobalID lookup
+ * - rejected: ArcGIS answered with an error (rolled back, nothing stored)
+ * - failed: the request never completed, so it may or may not have landed
+ */
+export type DMFLedgerAttemptOutcome =
+  | 'in_flight'
+  | 'submitted'
+  | 'already_submitted'
+  | 'rejected'
+  | 'failed';
+
+/**
+ * One recorded attempt to file a report with DMF.
+ */
+export interface DMFLedgerAttempt {
+  /** When the attempt started (ISO string) */
+  attemptedAt: string;
+  /** What happened */
+  outcome: DMFLedgerAttemptOutcome;
+  /** ArcGIS object ID, when known */
+  objectId?: number;
+  /** Error message for rejected or failed attempts */
+  error?: string;
+}
+
+/**
+ * Ledger entry tracking every attempt to file one harvest with DMF.
+ * Keyed by GlobalID; persisted in AsyncStorage.
+ */
+export interface DMFLedgerEntry {
+  /** GlobalID pinned to this harvest */
+  globalId: string;
+  /** Confirmation number pinned to this harvest */
+  confirmationNumber: string;
+  /** 'submitted' once any attempt is known to have landed */
+  status: 'pending' | 'submitted';
+  /** ArcGIS object ID once submitted */
+  objectId?: number;
+  /** Every attempt, oldest first */
+  attempts: DMFLedgerAttempt[];
+  /** When the entry was created (ISO string) */
+  createdAt: string;
+  /** When the entry was last updated (ISO string) */
+  updatedAt: string;
+}
+
 // ============================================
 // QUEUED REPORT TYPES
 // ============================================
@@ -432,10 +530,75 @@ export interface QueuedReport extends Omit<HarvestReportInput, 'harvestDate'> {
   /** Last error message if retry failed */
   lastError?: string;
 
+  /** Every failed attempt, oldest first (absent on reports queued before this was tracked) */
+  errorHistory?: QueuedReportError[];
+
+  /**
+   * Earliest time the next retry may run (ISO string). Set with exponential
+   * backoff after a failure; absent means the report is due now.
+   */
+  nextAttemptAt?: string;
+
+  /**
+   * GlobalID and confirmation number pinned when the report was first
+   * prepared for DMF. Every retry re-sends the same identity so DMF sees a
+   * resubmission of one harvest rather than a new filing. Absent on reports
+   * queued before the submission ledger existed.
+   */
+  dmfIdentity?: DMFSubmissionIdentity;
+
   /** Report type — distinguishes DMF harvest reports from personal catch logs */
   reportType?: 'dmf_harvest' | 'catch_log';
 }
 
+/**
+ * How a failed DMF submission should be handled.
+ * - 'transient': network trouble or a DMF server error; retry with backoff
+ * - 'permanent': ArcGIS rejected the report itself; retrying won't help
+ * - 'config': the app can't reach or isn't authorized for the DMF service;
+ *   the report is fine but retrying won't help until the app is fixed
+ */
+export type DMFErrorKind = 'transient' | 'permanent' | 'config';
+
+/**
+ * One failed sync attempt of a queued report.
+ */
+export interface QueuedReportError {
+  /** When the attempt failed (ISO string) */
+  at: string;
+  /** Error message returned for the attempt */
+  error: string;
+  /** Classification of the error (absent on errors recorded before classification) */
+  kind?: DMFErrorKind;
+}
+
+/**
+ * Queued report that exceeded maxRetryAttempts.
+ * Kept in the dead-letter store until the user resubmits, exports or
+ * removes it, instead of being dropped from the queue.
+ */
+export interface DeadLetterReport extends QueuedReport {
+  /** When the report was moved out of the queue (ISO string) */
+  deadLetteredAt: string;
+}
+
+/**
+ * Fields the user may correct before resubmitting a dead-lettered report.
+ * harvestDate is YYYY-MM-DD, as stored on the queued report.
+ */
+export type DeadLetterEdits = Partial<Pick<
+  QueuedReport,
+  | 'wrcId'
+  | 'firstName'
+  | 'lastName'
+  | 'zipCode'
+  | 'phone'
+  | 'email'
+  | 'areaCode'
+  | 'areaLabel'
+  | 'harvestDate'
+> & ReportSpeciesCounts>;
+
 /**
  * Report that has been successfully submitted.
  * Stored in local history.
@@ -474,26 +637,14 @@ export interface SubmittedReport extends Omit<HarvestReportInput, 'harvestDate'>
  * Convert HarvestReportInput species counts to SpeciesCounts.
  */
 export function inputToSpeciesCounts(input: HarvestReportInput): SpeciesCounts {
-  return {
-    redDrum: input.redDrumCount || 0,
-    flounder: input.flounderCount || 0,
-    spottedSeatrout: input.spottedSeatroutCount || 0,
-    weakfish: input.weakfishCount || 0,
-    stripedBass: input.stripedBassCount || 0,
-  };
+  return reportToSpeciesCounts(input);
 }
 
 /**
  * Get total fish count from HarvestReportInput.
  */
 export function getTotalFishFromInput(input: HarvestReportInput): number {
-  return (
-    (input.redDrumCount || 0) +
-    (input.flounderCount || 0) +
-    (input.spottedSeatroutCount || 0) +
-    (input.weakfishCount || 0) +
-    (input.stripedBassCount || 0)
-  );
+  return getTotalFishCount(reportToSpeciesCounts(input));
 }
 
 /**
@@ -505,11 +656,7 @@ export function createEmptyHarvestReportInput(): HarvestReportInput {
     wantTextConfirmation: false,
     wantEmailConfirmation: false,
     harvestDate: new Date(),
-    redDrumCount: 0,
-    flounderCount: 0,
-    spottedSeatroutCount: 0,
-    weakfishCount: 0,
-    stripedBassCount: 0,
+    ...speciesCountsToReport(createEmptySpeciesCounts()),
     areaCode: '',
     usedHookAndLine: true,
     reportingFor: 'self',
@@ -6,11 +6,24 @@ export {
   type FullSubmissionResult,
   type ValidationError,
   type ValidationResult,
+  type RegulationRule,
+  type RegulationWarning,
   type DMFPayload,
   type DMFAttributes,
   type DMFGeometry,
+  type DMFAddResult,
+  type DMFLayerEditResult,
+  type DMFApplyEditsResponse,
   type QueuedReport,
+  type QueuedReportError,
+  type DMFErrorKind,
+  type DeadLetterReport,
+  type DeadLetterEdits,
   type SubmittedReport,
+  type DMFSubmissionIdentity,
+  type DMFLedgerAttemptOutcome,
+  type DMFLedgerAttempt,
+  type DMFLedgerEntry,
   inputToSpeciesCounts,
   getTotalFishFromInput,
   createEmptyHarvestReportInput,
@@ -25,10 +38,12 @@ export {
   type Achievement,
   type UserAchievement,
   type DeviceMergeRequest,
+  type DeviceMergeResult,
   transformUser,
   transformSpeciesStat,
   transformAchievement,
   transformUserAchievement,
+  transformDeviceMergeRequest,
 } from './user';
 
 // Stored Report Types (Supabase)
@@ -67,6 +82,9 @@ export {
   BUSINESS_TYPE_OPTIONS,
 } from './partnerInquiry';
 
+import type { FeedPrivacySettings } from './catchFeed';
+import type { LeaderboardMetric } from './leaderboard';
+
 // Legal Document Types
 export type LegalDocumentType = 'privacy' | 'terms' | 'licenses';
 
@@ -87,6 +105,9 @@ export type RootStackParamList = {
   // Social feature screens (gated by the `social_features` feature flag)
   AnglerProfile: { userId: string };
   CatchDetail: { reportId: string };
+  Notifications: undefined;
+  Leaderboard: { metric?: LeaderboardMetric } | undefined;
+  PrizeClaim: { drawingId: string };
 };
 
 // Fish Report Types
@@ -123,6 +144,7 @@ export interface FishReportData {
   enteredRaffle?: string; // Raffle ID if user entered a raffle with this report
   zipCode?: string; // Zip code for unlicensed anglers or profile data
   wrcId?: string; // WRC ID / Customer ID from fishing license
+  feedPrivacy?: Partial<FeedPrivacySettings>; // Catch Feed privacy overrides for this report
   [key: string]: any;
 }
 
@@ -0,0 +1,41 @@
+// types/leaderboard.ts
+//
+// Type definitions for the angler leaderboards.
+
+import type { SpeciesCountKey } from '../constants/species';
+
+/** Time window a leaderboard covers, ending today. */
+export type LeaderboardPeriod = 'week' | 'month' | 'quarter' | 'year' | 'all';
+
+/**
+ * What anglers are ranked by: fish harvested, distinct species harvested,
+ * or their longest fish (inches).
+ */
+export type LeaderboardMetric = 'catches' | 'species' | 'length';
+
+export interface LeaderboardQuery {
+  metric: LeaderboardMetric;
+  period: LeaderboardPeriod;
+  /** Rank a single species (SPECIES countKey); ignored for 'species' */
+  species?: SpeciesCountKey;
+  /** REGION_OPTIONS value */
+  region?: string;
+  /** Rows to fetch; the viewer's own row is added when they rank lower */
+  limit?: number;
+}
+
+export interface LeaderboardEntry {
+  /** 1-based, unique: ties go to whoever reached the value first */
+  rank: number;
+  userId: string;
+  displayName: string;           // First name + last initial (e.g., "John D.")
+  profileImage?: string;
+  value: number;                 // Fish, species, or inches
+  isViewer: boolean;
+}
+
+export interface Leaderboard {
+  entries: LeaderboardEntry[];
+  /** The viewer's row, also when they're outside `entries`; null if unranked */
+  viewerEntry: LeaderboardEntry | null;
+}
@@ -0,0 +1,58 @@
+// types/notifications.ts
+//
+// Type definitions for the in-app notification inbox.
+
+/**
+ * What a notification is about. All but `report_synced` come from the
+ * notifications table (supabase/migrations/notifications.sql);
+ * `report_synced` is written on-device when a queued report finally syncs.
+ */
+export type NotificationType =
+  | 'follow'
+  | 'follow_request'
+  | 'like'
+  | 'comment'
+  | 'reply'
+  | 'mention'
+  | 'achievement'
+  | 'prize_won'
+  | 'report_synced';
+
+/** The angler whose action caused a notification. */
+export interface NotificationActor {
+  userId: string;
+  displayName: string;          // First name + last initial (e.g., "John D.")
+  profileImage?: string;
+}
+
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  actor: NotificationActor | null;  // null for system notifications
+  reportId: string | null;          // Catch the notification is about
+  commentId: string | null;
+  speciesName: string | null;       // Primary species of the catch (e.g., "Flounder")
+  title: string | null;             // Achievement or drawing name, or the confirmation number for report_synced
+  /** Rewards drawing a prize_won notification is about */
+  drawingId?: string;
+  createdAt: string;
+  readAt: string | null;
+  /** Created on this device and never stored on the server */
+  local?: boolean;
+}
+
+/**
+ * Notifications shown as one inbox row, e.g. every like on the same catch
+ * ("3 people liked your flounder").
+ */
+export interface NotificationGroup {
+  key: string;
+  type: NotificationType;
+  notifications: AppNotification[]; // Newest first
+  actors: NotificationActor[];      // Distinct, newest first
+  message: string;
+  /** App link to open when tapped (e.g. "fishlog://catch/<id>"), see resolveAppLink */
+  link: string | null;
+  latestAt: string;
+  unreadCount: number;
+}
@@ -4,10 +4,20 @@
 // These complement the DMF types in harvestReport.ts.
 //
 
+import {
+  ReportSpeciesCounts,
+  getSpeciesCountBreakdown,
+  getTotalFishCount as sumSpeciesCounts,
+  reportToSpeciesCounts,
+  rowToReportCounts,
+} from '../constants/species';
+import type { LocationPrecision, PostVisibility } from './catchFeed';
+
 /**
  * Harvest report stored in Supabase.
+ * Species counts (redDrumCount, …) come from ReportSpeciesCounts.
  */
-export interface StoredReport {
+export interface StoredReport extends ReportSpeciesCounts {
   id: string;
   userId: string | null; // Nullable - set for rewards members
   anonymousUserId: string | null; // Nullable - set for anonymous users
@@ -43,13 +53,6 @@ export interface StoredReport {
   gearCode: string | null;
   gearLabel: string | null;
 
-  // Species counts
-  redDrumCount: number;
-  flounderCount: number;
-  spottedSeatroutCount: number;
-  weakfishCount: number;
-  stripedBassCount: number;
-
   // Family reporting
   reportingFor: 'self' | 'family';
   familyCount: number | null;
@@ -100,7 +103,7 @@ export interface StoredFishEntry {
  * Report input for creating a new report.
  * This maps from HarvestReportInput for Supabase storage.
  */
-export interface ReportInput {
+export interface ReportInput extends ReportSpeciesCounts {
   userId?: string; // Set for rewards members
   anonymousUserId?: string; // Set for anonymous users
 
@@ -128,13 +131,6 @@ export interface ReportInput {
   gearCode?: string;
   gearLabel?: string;
 
-  // Species counts
-  redDrumCount: number;
-  flounderCount: number;
-  spottedSeatroutCount: number;
-  weakfishCount: number;
-  stripedBassCount: number;
-
   // Family reporting
   reportingFor: 'self' | 'family';
   familyCount?: number;
@@ -146,6 +142,12 @@ export interface ReportInput {
   gpsLatitude?: number;
   gpsLongitude?: number;
 
+  // Catch Feed privacy overrides (unset = use the profile's settings)
+  locationPrecision?: LocationPrecision;
+  publishDelayDays?: number;
+  // Audience for catch_log posts (unset = public)
+  visibility?: PostVisibility;
+
   // Rewards
   enteredRewards?: boolean;
   rewardsDrawingId?: string;
@@ -205,11 +207,7 @@ export function transformReport(row: Record<string, unknown>): StoredReport {
     usedHookAndLine: row.used_hook_and_line as boolean,
     gearCode: row.gear_code as string | null,
     gearLabel: row.gear_label as string | null,
-    redDrumCount: row.red_drum_count as number,
-    flounderCount: row.flounder_count as number,
-    spottedSeatroutCount: row.spotted_seatrout_count as number,
-    weakfishCount: row.weakfish_count as number,
-    stripedBassCount: row.striped_bass_count as number,
+    ...rowToReportCounts(row),
     reportingFor: row.reporting_for as 'self' | 'family',
     familyCount: row.family_count as number | null,
     notes: row.notes as string | null,
@@ -249,13 +247,7 @@ export function getTotalFishCount(report: StoredReport): number {
   if (report.reportType === 'catch_log') {
     return report.fishEntries?.reduce((sum, fe) => sum + fe.count, 0) ?? 0;
   }
-  return (
-    report.redDrumCount +
-    report.flounderCount +
-    report.spottedSeatroutCount +
-    report.weakfishCount +
-    report.stripedBassCount
-  );
+  return sumSpeciesCounts(reportToSpeciesCounts(report));
 }
 
 /**
@@ -266,13 +258,5 @@ export function getSpeciesBreakdown(report: StoredReport): Array<{ species: stri
     return report.fishEntries.map(fe => ({ species: fe.species, count: fe.count }));
   }
 
-  const breakdown: Array<{ species: string; count: number }> = [];
-
-  if (report.redDrumCount > 0) breakdown.push({ species: 'Red Drum', count: report.redDrumCount });
-  if (report.flounderCount > 0) breakdown.push({ species: 'Flounder', count: report.flounderCount });
-  if (report.spottedSeatroutCount > 0) breakdown.push({ species: 'Spotted Seatrout', count: report.spottedSeatroutCount });
-  if (report.weakfishCount > 0) breakdown.push({ species: 'Weakfish', count: report.weakfishCount });
-  if (report.stripedBassCount > 0) breakdown.push({ species: 'Striped Bass', count: report.stripedBassCount });
-
-  return breakdown;
+  return getSpeciesCountBreakdown(reportToSpeciesCounts(report));
 }
@@ -91,10 +91,122 @@ export interface UserRewardsEntry {
   entryMethod?: 'app' | 'web' | 'email';
   /** Date of entry (ISO string) */
   enteredAt?: string;
-  /** Associated harvest report IDs (for tracking, not multiple entries) */
+  /** Associated harvest report IDs (for tracking; weighted entries are computed server-side, see DrawingEntryBreakdown) */
   associatedReportIds?: string[];
 }
 
+/**
+ * How a drawing's entries are earned.
+ * Maps to Supabase `drawing_entry_rules` table.
+ */
+export interface DrawingEntryRules {
+  /** Bonus entries per DMF report submitted on time */
+  perOnTimeReport: number;
+  /** Bonus entries per report with a photo */
+  perPhotoCatch: number;
+  /** Bonus entries per week of a consecutive-week reporting streak */
+  perStreakWeek: number;
+  /** Most entries one member can hold */
+  maxEntries: number;
+}
+
+/**
+ * The user's entries in a drawing and how they were earned. Computed
+ * server-side from harvest_reports by the `get_my_drawing_entries` RPC.
+ */
+export interface DrawingEntryBreakdown {
+  drawingId: string;
+  baseEntries: number;
+  onTimeReports: number;
+  onTimeEntries: number;
+  photoCatches: number;
+  photoEntries: number;
+  /** Longest run of consecutive weeks with a report */
+  streakWeeks: number;
+  streakEntries: number;
+  /** Free alternative-method entries received (web form or mail-in) */
+  freeEntryRequests: number;
+  freeEntries: number;
+  /** Entries after the cap */
+  totalEntries: number;
+  isCapped: boolean;
+  rules: DrawingEntryRules;
+}
+
+/**
+ * Where a winner's prize claim stands. Winners have until the claim deadline
+ * to confirm their details; unclaimed prizes are forfeited to an alternate.
+ */
+export type PrizeClaimStatus = 'pending' | 'claimed' | 'forfeited' | 'fulfilled';
+
+/**
+ * A drawing winner as shown to everyone (display name only).
+ */
+export interface DrawingWinner {
+  /** Prize place (1 = first prize) */
+  place: number;
+  /** First name + last initial (e.g., "John D.") */
+  displayName: string;
+  prizeName?: string;
+}
+
+/**
+ * The viewer's own prize from a drawing.
+ * Maps to Supabase `prize_claims` table.
+ */
+export interface UserPrizeWin {
+  place: number;
+  prizeName?: string;
+  prizeValue?: string;
+  claimStatus: PrizeClaimStatus;
+  /** Claim deadline (ISO string) */
+  claimDeadline: string;
+}
+
+/**
+ * A drawing whose entry period has ended, with its results once drawn.
+ * Returned by the `get_past_drawings` RPC.
+ */
+export interface PastDrawing {
+  drawingId: string;
+  name: string;
+  quarter: Quarter;
+  year: number;
+  /** End date (ISO string: YYYY-MM-DD) */
+  endDate: string;
+  /** Drawing date (ISO string: YYYY-MM-DD) */
+  drawingDate: string;
+  /** When winners were drawn (ISO string); undefined while the draw is pending */
+  drawnAt?: string;
+  entrantCount?: number;
+  /** Published sha256 of the drawing seed */
+  seedHash?: string;
+  /** Seed revealed by the draw, for verifying the result */
+  seed?: string;
+  /** Current winners by place */
+  winners: DrawingWinner[];
+  /** Whether the viewer entered this drawing */
+  userEntered: boolean;
+  /** When the viewer entered (ISO string) */
+  userEnteredAt?: string;
+  /** The viewer's prize, when they won */
+  userWin: UserPrizeWin | null;
+}
+
+/**
+ * Contact and shipping details a winner confirms to claim a prize.
+ */
+export interface PrizeClaimDetails {
+  fullName: string;
+  email: string;
+  phone: string;
+  addressLine1: string;
+  addressLine2?: string;
+  city: string;
+  state: string;
+  postalCode: string;
+}
+
 /**
  * Rewards program configuration.
  * Maps to Supabase `rewards_config` table (singleton row).
@@ -4,6 +4,9 @@
 // Supports both device-based anonymous users and email-authenticated users.
 //
 
+import type { LocationPrecision } from './catchFeed';
+import { DEFAULT_FEED_PRIVACY } from '../constants/feedPrivacy';
+
 /**
  * User record from Supabase.
  * Represents a Rewards Member (user who has opted into the Rewards Program).
@@ -62,6 +65,12 @@ export interface User {
   // Rewards Program
   rewardsOptedInAt: string | null;
 
+  // Catch Feed privacy defaults (reports can override)
+  locationPrecision: LocationPrecision;
+  publishDelayDays: number;
+  // Private profile: follows need approval, public posts reach followers only
+  isPrivate: boolean;
+
   // Timestamps
   createdAt: string;
   updatedAt: string;
@@ -93,6 +102,9 @@ export interface UserInput {
   primaryHarvestArea?: string;
   primaryFishingMethod?: string;
   rewardsOptedInAt?: string;
+  locationPrecision?: LocationPrecision;
+  publishDelayDays?: number;
+  isPrivate?: boolean;
 }
 
 /**
@@ -158,20 +170,37 @@ export interface UserAchievement {
 }
 
 /**
- * Request to merge device user into email account.
+ * Request to merge a device's history (its device-only user and anonymous
+ * reports) into an email account. Confirmed with the merge token once the
+ * magic link signs the angler in; a completed merge can be reverted by an admin.
  * Note: Field names match database columns (device_id, email)
  */
 export interface DeviceMergeRequest {
   id: string;
   deviceId: string;  // Maps to device_id column
   email: string;  // Maps to email column
-  status: 'pending' | 'approved' | 'rejected' | 'completed';
-  mergeToken?: string;  // Optional until migration adds column
-  expiresAt?: string;  // Optional until migration adds column
+  status: 'pending' | 'approved' | 'rejected' | 'completed' | 'reverted';
+  mergeToken: string;
+  expiresAt: string;
+  sourceUserId: string | null;  // Device-only user being merged, if any
+  anonymousUserId: string | null;
+  targetUserId: string | null;  // Set when the merge completes
   createdAt: string;
   completedAt: string | null;
 }
 
+/**
+ * What a confirmed device merge moved into the account.
+ */
+export interface DeviceMergeResult {
+  requestId: string;
+  targetUserId: string;
+  reportsMerged: number;
+  achievementsMerged: number;
+  entriesMerged: number;
+  followsMerged: number;
+}
+
 /**
  * Transform Supabase user row to User type.
  */
@@ -206,6 +235,9 @@ export function transformUser(row: Record<string, unknown>): User {
     longestStreak: row.longest_streak_days as number,
     lastReportDate: row.last_active_at as string | null,
     rewardsOptedInAt: row.rewards_opted_in_at as string | null,
+    locationPrecision: (row.location_precision as LocationPrecision) ?? DEFAULT_FEED_PRIVACY.locationPrecision,
+    publishDelayDays: (row.publish_delay_days as number) ?? DEFAULT_FEED_PRIVACY.publishDelayDays,
+    isPrivate: (row.is_private as boolean) ?? false,
     createdAt: row.created_at as string,
     updatedAt: row.updated_at as string,
   };
@@ -256,3 +288,22 @@ export function transformUserAchievement(
     progress: row.progress as number | null,
   };
 }
+
+/**
+ * Transform Supabase device_merge_requests row to DeviceMergeRequest type.
+ */
+export function transformDeviceMergeRequest(row: Record<string, unknown>): DeviceMergeRequest {
+  return {
+    id: row.id as string,
+    deviceId: row.device_id as string,
+    email: row.email as string,
+    status: row.status as DeviceMergeRequest['status'],
+    mergeToken: row.merge_token as string,
+    expiresAt: row.expires_at as string,
+    sourceUserId: (row.source_user_id as string | null) ?? null,
+    anonymousUserId: (row.anonymous_user_id as string | null) ?? null,
+    targetUserId: (row.target_user_id as string | null) ?? null,
+    createdAt: row.created_at as string,
+    completedAt: (row.completed_at as string | null) ?? null,
+  };
+}
@@ -0,0 +1,122 @@
+// utils/commentThreads.ts
+//
+// Reply threading and @mention parsing for catch comments. Pure helpers
+// shared by CommentsSheet and the comments hooks.
+
+import { CatchComment, CommentMention } from '../types/catchFeed';
+
+/**
+ * A top-level comment and its replies, both oldest-first.
+ */
+export interface CommentThread {
+  comment: CatchComment;
+  replies: CatchComment[];
+}
+
+/**
+ * A run of comment text, linked to an angler when it's an @mention.
+ */
+export interface CommentTextSegment {
+  text: string;
+  mention?: CommentMention;
+}
+
+/**
+ * Group a flat, oldest-first comment list into threads. Replies whose parent
+ * isn't in the list (e.g. still loading) are shown as top-level comments
+ * rather than dropped.
+ */
+export function threadComments(comments: CatchComment[]): CommentThread[] {
+  const topLevelIds = new Set(comments.filter((c) => !c.parentId).map((c) => c.id));
+  const threads: CommentThread[] = [];
+  const byId = new Map<string, CommentThread>();
+
+  for (const comment of comments) {
+    if (comment.parentId && topLevelIds.has(comment.parentId)) continue;
+    const thread = { comment, replies: [] };
+    threads.push(thread);
+    byId.set(comment.id, thread);
+  }
+  for (const comment of comments) {
+    if (comment.parentId && topLevelIds.has(comment.parentId)) {
+      byId.get(comment.parentId)?.replies.push(comment);
+    }
+  }
+  return threads;
+}
+
+/**
+ * Id of the comment a reply should attach to. Replying to a reply continues
+ * its parent's thread, keeping threads one level deep.
+ */
+export function replyParentId(comment: CatchComment): string {
+  return comment.parentId ?? comment.id;
+}
+
+// Letters and digits after a name mean it's a different, longer name
+const NAME_CONTINUES = /[A-Za-z0-9\u00C0-\u024F]/;
+
+/**
+ * Split comment text into plain runs and @mentions of the given anglers.
+ * Longer names win, so "@John D." isn't read as "@John" followed by " D.".
+ */
+export function splitMentionSegments(
+  text: string,
+  mentions: CommentMention[],
+): CommentTextSegment[] {
+  const candidates = [...mentions].sort((a, b) => b.displayName.length - a.displayName.length);
+  const segments: CommentTextSegment[] = [];
+  let plainStart = 0;
+  let i = 0;
+
+  while (i < text.length) {
+    const match = text[i] === '@' && (i === 0 || !NAME_CONTINUES.test(text[i - 1]))
+      ? candidates.find((m) => {
+          const name = text.slice(i + 1, i + 1 + m.displayName.length);
+          const next = text.charAt(i + 1 + m.displayName.length);
+          return name.toLowerCase() === m.displayName.toLowerCase()
+            && !(next && NAME_CONTINUES.test(next));
+        })
+      : undefined;
+
+    if (!match) {
+      i += 1;
+      continue;
+    }
+    if (i > plainStart) segments.push({ text: text.slice(plainStart, i) });
+    const end = i + 1 + match.displayName.length;
+    segments.push({ text: text.slice(i, end), mention: match });
+    i = end;
+    plainStart = end;
+  }
+
+  if (plainStart < text.length) segments.push({ text: text.slice(plainStart) });
+  return segments;
+}
+
+/**
+ * Anglers from `candidates` that the text @mentions, once each.
+ */
+export function findMentions(text: string, candidates: CommentMention[]): CommentMention[] {
+  const found = new Map<string, CommentMention>();
+  for (const segment of splitMentionSegments(text, candidates)) {
+    if (segment.mention) found.set(segment.mention.userId, segment.mention);
+  }
+  return [...found.values()];
+}
+
+/**
+ * The partial name being typed after a trailing "@", or null when the
+ * cursor isn't in a mention. "Nice one @Jo" -> "Jo".
+ */
+export function activeMentionQuery(text: string): string | null {
+  const match = /(?:^|\s)@([^@\n]{0,30})$/.exec(text);
+  return match ? match[1] : null;
+}
+
+/**
+ * Replace the trailing "@partial" with a completed mention.
+ */
+export function completeMention(text: string, mention: CommentMention): string {
+  return text.replace(/@([^@\n]{0,30})$/, `@${mention.displayName} `);
+}
@@ -0,0 +1,347 @@
+// utils/harvestRegulations.ts
+//
+// Regulation checks for harvest reports: bag limits, size/slot limits, open
+// seasons and bulletin closures. These produce warnings, never errors — the
+// report is still filed with DMF, but the angler gets a chance to double-check
+// counts and lengths before submitting.
+//
+// When regulation records are supplied, each species is checked against the
+// rules in force on the harvest date in the area of harvest rather than
+// today's snapshot, so back-filled reports are judged by the rules of the day.
+//
+
+import { HarvestReportInput, RegulationWarning } from '../types/harvestReport';
+import { EnhancedFishSpecies, RegulationRecord } from '../types/fishSpecies';
+import {
+  SPECIES,
+  SpeciesInfo,
+  getSpeciesByDisplayName,
+  type ReportCountField,
+} from '../constants/species';
+import { resolveRegulations, toDateKey } from './regulationResolver';
+
+/**
+ * The parts of a harvest report the regulation checks look at.
+ * Lets the report form check its in-progress data before building the full input.
+ */
+export type RegulationCheckInput = Pick<
+  HarvestReportInput,
+  | 'harvestDate'
+  | ReportCountField
+  | 'reportingFor'
+  | 'familyCount'
+  | 'fishEntries'
+> &
+  // Area-limited rules only apply once the area of harvest is picked
+  Partial<Pick<HarvestReportInput, 'areaCode'>>;
+
+type Regulations = EnhancedFishSpecies['regulations'];
+
+const CM_PER_INCH = 2.54;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// ============================================
+// SPECIES MATCHING
+// ============================================
+
+/**
+ * Find the regulated species records that a DMF species covers.
+ *
+ * DMF reports one "Flounder" count, but the species list carries Southern,
+ * Summer and Gulf flounder separately, each with its own rules. All matches
+ * are returned and the checks below only warn when every one of them is
+ * violated, so the most permissive rule wins.
+ */
+function findRegulatedSpecies(
+  info: SpeciesInfo,
+  allSpecies: EnhancedFishSpecies[]
+): EnhancedFishSpecies[] {
+  const displayName = info.displayName.toLowerCase();
+  const names = [info.displayName, ...info.alternativeNames].map(n => n.toLowerCase());
+
+  return allSpecies.filter(species => {
+    const name = species.name.toLowerCase();
+    return (
+      names.includes(name) ||
+      name.includes(displayName) ||
+      (species.commonNames ?? []).some(common => names.includes(common.toLowerCase()))
+    );
+  });
+}
+
+/**
+ * Overlay the regulations in force on the harvest date onto a species.
+ *
+ * Falls back to the species' current rules when no record covers the date
+ * (history not imported yet, or records unavailable offline). A closure
+ * record replaces the bulletin status on the species; without one, the
+ * species' own closure still applies if its window covers the date.
+ */
+function asOfHarvest(
+  species: EnhancedFishSpecies,
+  records: RegulationRecord[],
+  input: RegulationCheckInput
+): EnhancedFishSpecies {
+  if (!input.harvestDate) return species;
+
+  const resolved = resolveRegulations(records, species.id, input.harvestDate, input.areaCode);
+  if (!resolved) return species;
+
+  const status = resolved.statusRecord;
+  return {
+    ...species,
+    regulations: resolved.regulations ?? species.regulations,
+    ...(status && {
+      harvestStatus: status.harvestStatus ?? 'open',
+      harvestStatusNote: status.note ?? undefined,
+      harvestStatusEffectiveDate: status.effectiveDate,
+      harvestStatusExpirationDate: status.expirationDate,
+      harvestStatusBulletinId: status.bulletinId ?? undefined,
+    }),
+  };
+}
+
+// ============================================
+// DATE HELPERS
+// ============================================
+
+/**
+ * Normalize a season boundary to mm-dd.
+ * Imported data uses both "08-16" and "Aug 16"; unknown formats pass through.
+ */
+function toMonthDay(value: string): string {
+  const numeric = value.match(/^(\d{1,2})-(\d{1,2})$/);
+  if (numeric) {
+    return `${numeric[1].padStart(2, '0')}-${numeric[2].padStart(2, '0')}`;
+  }
+
+  const named = value.trim().match(/^([A-Za-z]{3})[A-Za-z]*\.?\s+(\d{1,2})$/);
+  const monthIndex = named ? MONTHS.indexOf(named[1].toLowerCase()) : -1;
+  if (named && monthIndex >= 0) {
+    return `${String(monthIndex + 1).padStart(2, '0')}-${named[2].padStart(2, '0')}`;
+  }
+
+  return value;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+/**
+ * Check whether a date falls inside any open season.
+ *
+ * Seasons are mm-dd ranges and may wrap the new year (e.g. 10-01 to 03-31).
+ * `null` means the species has no seasonal restriction.
+ */
+function isInOpenSeason(date: Date, openSeasons: Regulations['openSeasons']): boolean {
+  if (!openSeasons) return true;
+
+  const monthDay = toDateKey(date).slice(5);
+  return openSeasons.some(season => {
+    const from = toMonthDay(season.from);
+    const to = toMonthDay(season.to);
+    return from <= to
+      ? monthDay >= from && monthDay <= to
+      : monthDay >= from || monthDay <= to;
+  });
+}
+
+/**
+ * Check whether a bulletin closure applies on a date.
+ * Closures without an effective date apply immediately; without an
+ * expiration date they run until the bulletin is lifted.
+ */
+function isClosedOn(date: Date, species: EnhancedFishSpecies): boolean {
+  if (species.harvestStatus !== 'closed' && species.harvestStatus !== 'catch_and_release') {
+    return false;
+  }
+
+  const dateKey = toDateKey(date);
+  const effective = species.harvestStatusEffectiveDate?.slice(0, 10);
+  const expiration = species.harvestStatusExpirationDate?.slice(0, 10);
+  return (!effective || dateKey >= effective) && (!expiration || dateKey <= expiration);
+}
+
+// ============================================
+// SIZE HELPERS
+// ============================================
+
+/** Size limit converted to inches (fish lengths are entered in inches). */
+function toInchLimits(sizeLimit: Regulations['sizeLimit'] | undefined): {
+  min: number | null;
+  max: number | null;
+} {
+  if (!sizeLimit) return { min: null, max: null };
+  const factor = sizeLimit.unit === 'cm' ? 1 / CM_PER_INCH : 1;
+  return {
+    min: sizeLimit.min != null ? sizeLimit.min * factor : null,
+    max: sizeLimit.max != null ? sizeLimit.max * factor : null,
+  };
+}
+
+function isWithinLimits(length: number, limits: { min: number | null; max: number | null }): boolean {
+  return (limits.min == null || length >= limits.min) && (limits.max == null || length <= limits.max);
+}
+
+function formatInches(value: number): string {
+  return `${Math.round(value * 10) / 10}"`;
+}
+
+function describeLimits(limits: { min: number | null; max: number | null }): string {
+  if (limits.min != null && limits.max != null) {
+    return `the ${formatInches(limits.min)}–${formatInches(limits.max)} slot`;
+  }
+  if (limits.min != null) {
+    return `the ${formatInches(limits.min)} minimum size`;
+  }
+  return `the ${formatInches(limits.max as number)} maximum size`;
+}
+
+// ============================================
+// RULES
+// ============================================
+
+function checkBagLimit(
+  info: SpeciesInfo,
+  count: number,
+  matches: EnhancedFishSpecies[],
+  input: RegulationCheckInput
+): RegulationWarning | undefined {
+  const bagLimits = matches.map(s => s.regulations?.bagLimit ?? null);
+  if (bagLimits.some(limit => limit === null)) return undefined;
+
+  const bagLimit = Math.max(...(bagLimits as number[]));
+  const people = input.reportingFor === 'family' && input.familyCount ? input.familyCount : 1;
+  const allowed = bagLimit * people;
+  if (count <= allowed) return undefined;
+
+  return {
+    field: info.reportCountField,
+    rule: 'bag_limit',
+    speciesId: info.id,
+    message: people > 1
+      ? `${count} ${info.displayName} is over the bag limit of ${allowed} (${bagLimit} per person for ${people} people)`
+      : `${count} ${info.displayName} is over the bag limit of ${bagLimit} per person`,
+  };
+}
+
+function checkSizeLimits(
+  info: SpeciesInfo,
+  matches: EnhancedFishSpecies[],
+  input: RegulationCheckInput
+): RegulationWarning | undefined {
+  const limits = matches.map(s => toInchLimits(s.regulations?.sizeLimit));
+  if (limits.some(l => l.min == null && l.max == null)) return undefined;
+
+  const lengths = (input.fishEntries ?? [])
+    .filter(entry => getSpeciesByDisplayName(entry.species)?.id === info.id)
+    .flatMap(entry => entry.lengths ?? [])
+    .map(length => parseFloat(length))
+    .filter(length => Number.isFinite(length) && length > 0);
+
+  const outside = lengths.filter(length => !limits.some(l => isWithinLimits(length, l)));
+  if (outside.length === 0) return undefined;
+
+  const sizes = outside.map(formatInches).join(', ');
+  return {
+    field: 'fishEntries',
+    rule: 'size_limit',
+    speciesId: info.id,
+    message: outside.length === 1
+      ? `${info.displayName} at ${sizes} is outside ${describeLimits(limits[0])}`
+      : `${outside.length} ${info.displayName} (${sizes}) are outside ${describeLimits(limits[0])}`,
+  };
+}
+
+function checkSeason(
+  info: SpeciesInfo,
+  matches: EnhancedFishSpecies[],
+  harvestDate: Date
+): RegulationWarning | undefined {
+  if (matches.some(s => isInOpenSeason(harvestDate, s.regulations?.openSeasons ?? null))) {
+    return undefined;
+  }
+
+  return {
+    field: 'harvestDate',
+    rule: 'closed_season',
+    speciesId: info.id,
+    message: `${info.displayName} is out of season on ${formatDate(harvestDate)}`,
+  };
+}
+
+function checkClosure(
+  info: SpeciesInfo,
+  matches: EnhancedFishSpecies[],
+  harvestDate: Date
+): RegulationWarning | undefined {
+  if (!matches.every(s => isClosedOn(harvestDate, s))) return undefined;
+
+  const catchAndRelease = matches.every(s => s.harvestStatus === 'catch_and_release');
+  const note = matches.find(s => s.harvestStatusNote)?.harvestStatusNote;
+  const base = catchAndRelease
+    ? `${info.displayName} is catch-and-release only on ${formatDate(harvestDate)}`
+    : `${info.displayName} harvest is closed on ${formatDate(harvestDate)}`;
+
+  return {
+    field: 'harvestDate',
+    rule: 'closure',
+    speciesId: info.id,
+    message: note ? `${base}: ${note}` : base,
+  };
+}
+
+// ============================================
+// MAIN CHECK
+// ============================================
+
+/**
+ * Check a harvest report against species regulations.
+ *
+ * Rules checked for each reported species:
+ * - Bag limit: count exceeds bagLimit × people (familyCount when reporting for family)
+ * - Size limit: an entered length falls outside the min/max (slot) limit
+ * - Season: harvest date is outside every open season
+ * - Closure: an active closure bulletin covers the harvest date
+ *
+ * Species without regulation data are skipped.
+ *
+ * @param input - Harvest report (or the form's in-progress equivalent)
+ * @param allSpecies - Species list with regulations and bulletin harvest status
+ * @param records - Dated regulation records; when omitted, current rules are used
+ * @returns Warnings, empty if nothing looks out of bounds
+ */
+export function checkHarvestRegulations(
+  input: RegulationCheckInput,
+  allSpecies: EnhancedFishSpecies[],
+  records: RegulationRecord[] = []
+): RegulationWarning[] {
+  const warnings: RegulationWarning[] = [];
+
+  for (const info of SPECIES) {
+    const count = Number(input[info.reportCountField]) || 0;
+    if (count <= 0) continue;
+
+    const matches = findRegulatedSpecies(info, allSpecies).map(s => asOfHarvest(s, records, input));
+    if (matches.length === 0) continue;
+
+    const results = [
+      checkBagLimit(info, count, matches, input),
+      checkSizeLimits(info, matches, input),
+      input.harvestDate ? checkSeason(info, matches, input.harvestDate) : undefined,
+      input.harvestDate ? checkClosure(info, matches, input.harvestDate) : undefined,
+    ];
+
+    for (const warning of results) {
+      if (warning) warnings.push(warning);
+    }
+  }
+
+  return warnings;
+}
+
+export default {
+  checkHarvestRegulations,
+};
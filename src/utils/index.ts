@@ -18,6 +18,20 @@ export {
   hasFieldError,
 } from './validation';
 
+// Regulation checks (bag, size, season, closure warnings)
+export {
+  checkHarvestRegulations,
+  type RegulationCheckInput,
+} from './harvestRegulations';
+
+// Regulation resolver (rules in force on a date, in an area)
+export {
+  resolveRegulations,
+  isRecordInForce,
+  appliesToArea,
+  type ResolvedRegulations,
+} from './regulationResolver';
+
 // Date utilities
 export {
   formatRelativeTime,
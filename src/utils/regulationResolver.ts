@@ -0,0 +1,116 @@
+// utils/regulationResolver.ts
+//
+// Resolves which regulation records were in force for a species on a given
+// date in a given area — "what were the Flounder rules on Oct 12 in Pamlico
+// Sound". Pure functions over records from services/regulationService.ts.
+//
+
+import {
+  HarvestStatus,
+  RegulationRecord,
+  SpeciesRegulations,
+} from '../types/fishSpecies';
+
+/** The rules and status that applied to a species on one date in one area. */
+export interface ResolvedRegulations {
+  /** Size/bag/season rules, or null if no rule record was in force */
+  regulations: SpeciesRegulations | null;
+  /** Record the rules came from */
+  rulesRecord: RegulationRecord | null;
+  /** Harvest status, or null if no status record was in force */
+  harvestStatus: HarvestStatus | null;
+  /** Record the status came from (bulletin closure, etc.) */
+  statusRecord: RegulationRecord | null;
+}
+
+// ============================================
+// DATE HELPERS
+// ============================================
+
+/**
+ * Local calendar date as YYYY-MM-DD.
+ * Harvest dates are picked as local days, so UTC conversion would shift
+ * evening harvests into the next day.
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// ============================================
+// RECORD MATCHING
+// ============================================
+
+/**
+ * Check whether a record was in force on a date (both ends inclusive).
+ *
+ * @param record - Regulation record
+ * @param dateKey - Date as YYYY-MM-DD
+ */
+export function isRecordInForce(record: RegulationRecord, dateKey: string): boolean {
+  return (
+    record.effectiveDate <= dateKey &&
+    (record.expirationDate === null || dateKey <= record.expirationDate)
+  );
+}
+
+/**
+ * Check whether a record covers an area.
+ * Statewide records (no area codes) cover every area; area-limited records
+ * only apply when the report's area is known and listed.
+ */
+export function appliesToArea(record: RegulationRecord, areaCode?: string): boolean {
+  if (record.areaCodes.length === 0) return true;
+  return !!areaCode && record.areaCodes.includes(areaCode);
+}
+
+/**
+ * Order records by precedence: area-specific before statewide, then the most
+ * recently effective first (a later proclamation supersedes an earlier one).
+ */
+function byPrecedence(a: RegulationRecord, b: RegulationRecord): number {
+  const specificity = Number(b.areaCodes.length > 0) - Number(a.areaCodes.length > 0);
+  if (specificity !== 0) return specificity;
+  return b.effectiveDate.localeCompare(a.effectiveDate);
+}
+
+// ============================================
+// RESOLVER
+// ============================================
+
+/**
+ * Resolve the regulations for a species on a date in an area.
+ *
+ * Rules and status resolve independently: a closure bulletin layers a
+ * status over whatever size/bag/season rules were in force, without
+ * replacing them.
+ *
+ * @param records - Regulation records (any species)
+ * @param speciesId - Species to resolve
+ * @param date - Harvest date
+ * @param areaCode - DMF area of harvest, if known
+ * @returns Resolved rules and status, or undefined if no record was in force
+ */
+export function resolveRegulations(
+  records: RegulationRecord[],
+  speciesId: string,
+  date: Date,
+  areaCode?: string
+): ResolvedRegulations | undefined {
+  const dateKey = toDateKey(date);
+  const inForce = records
+    .filter(r => r.speciesId === speciesId && isRecordInForce(r, dateKey) && appliesToArea(r, areaCode))
+    .sort(byPrecedence);
+
+  const rulesRecord = inForce.find(r => r.regulations !== null) ?? null;
+  const statusRecord = inForce.find(r => r.harvestStatus !== null) ?? null;
+  if (!rulesRecord && !statusRecord) return undefined;
+
+  return {
+    regulations: rulesRecord?.regulations ?? null,
+    rulesRecord,
+    harvestStatus: statusRecord?.harvestStatus ?? null,
+    statusRecord,
+  };
+}
@@ -10,6 +10,8 @@ import {
   ValidationResult,
   getTotalFishFromInput,
 } from '../types/harvestReport';
+import { EnhancedFishSpecies, RegulationRecord } from '../types/fishSpecies';
+import { checkHarvestRegulations } from './harvestRegulations';
 
 // ============================================
 // REGEX PATTERNS
@@ -53,10 +55,20 @@ const ZIP_REGEX = /^\d{5}$/;
  * - wantEmailConfirmation = true: email required (valid format)
  * - enterRaffle = true: email OR phone required
  *
+ * When species regulations are supplied, the result also carries
+ * regulation warnings (bag, size, season, closure). Warnings never affect
+ * isValid — see utils/harvestRegulations.ts.
+ *
  * @param input - The harvest report input to validate
- * @returns Validation result with isValid flag and array of errors
+ * @param options.species - Species list with regulations and bulletin status
+ * @param options.regulationRecords - Dated regulation records, so a back-filled
+ *   report is checked against the rules on its harvest date
+ * @returns Validation result with isValid flag, errors, and optional warnings
  */
-export function validateHarvestReport(input: HarvestReportInput): ValidationResult {
+export function validateHarvestReport(
+  input: HarvestReportInput,
+  options: { species?: EnhancedFishSpecies[]; regulationRecords?: RegulationRecord[] } = {}
+): ValidationResult {
   const errors: ValidationError[] = [];
 
   // ==========================================
@@ -234,10 +246,16 @@ export function validateHarvestReport(input: HarvestReportInput): ValidationResu
     }
   }
 
-  return {
+  const result: ValidationResult = {
     isValid: errors.length === 0,
     errors,
   };
+
+  if (options.species) {
+    result.warnings = checkHarvestRegulations(input, options.species, options.regulationRecords);
+  }
+
+  return result;
 }
 
 // ============================================
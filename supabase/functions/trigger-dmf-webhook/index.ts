@@ -4,6 +4,8 @@ import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 // STATIC METADATA (from actual DMF Survey123 webform submission)
 // These are constants that never change — hardcoded to match
 // exactly what the Survey123 client sends to Azure Logic Apps.
+// Layer id/name/fields must agree with src/constants/dmfLayerSchema.json;
+// `npm run dmf:schema` flags when DMF changes them.
 // ============================================
 
 const LAYER_INFO = {
@@ -0,0 +1,13 @@
+-- Migration: Indexes for the filterable catch feed
+-- Run this in your Supabase SQL Editor (Dashboard > SQL Editor > New Query)
+--
+-- The Discover feed can now be filtered by area (or a region's area codes),
+-- harvest date window, species, photos and report type, still paged on
+-- (created_at, report_id). Area and date are the selective filters; species
+-- count, photo and report type filters ride along on the keyset scan.
+
+CREATE INDEX IF NOT EXISTS harvest_reports_area_created_at_idx
+  ON harvest_reports (area_code, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS harvest_reports_harvest_date_idx
+  ON harvest_reports (harvest_date);
@@ -0,0 +1,49 @@
+-- Migration: Reactions on catches
+-- Run this in your Supabase SQL Editor (Dashboard > SQL Editor > New Query)
+-- Run after user_blocks.sql.
+--
+-- catch_likes rows now carry a reaction, one per angler per catch:
+--
+--   nice_fish   (default -- what a plain like and every existing like is)
+--   big_one
+--   jealous
+--   good_eats
+--
+-- Reactions are still likes, so v_catch_feed.like_count and get_leaderboard
+-- keep counting rows and need no change. Codes match
+-- CATCH_REACTION_OPTIONS in src/constants/reactions.ts.
+
+ALTER TABLE catch_likes
+  ADD COLUMN IF NOT EXISTS reaction TEXT NOT NULL DEFAULT 'nice_fish'
+    CHECK (reaction IN ('nice_fish', 'big_one', 'jealous', 'good_eats'));
+
+-- Anglers switch their own reaction in place (the app upserts on
+-- (catch_id, user_id))
+DROP POLICY IF EXISTS catch_likes_update_own ON catch_likes;
+CREATE POLICY catch_likes_update_own ON catch_likes
+  FOR UPDATE TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM users me WHERE me.auth_id = auth.uid() AND me.id = user_id
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM users me WHERE me.auth_id = auth.uid() AND me.id = user_id
+  ));
+
+-- Only the reaction may change
+CREATE OR REPLACE FUNCTION pin_catch_like_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.catch_id := OLD.catch_id;
+  NEW.user_id := OLD.user_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS catch_likes_pin_update ON catch_likes;
+CREATE TRIGGER catch_likes_pin_update
+  BEFORE UPDATE ON catch_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION pin_catch_like_update();
@@ -0,0 +1,171 @@
+-- Migration: Threaded comment replies, edit history and @mentions
+-- Run this in your Supabase SQL Editor (Dashboard > SQL Editor > New Query)
+-- Run after post_visibility.sql.
+--
+--   catch_comments.parent_id  top-level comment a reply belongs to (replies
+--                             are one level deep; deleting a comment deletes
+--                             its replies)
+--   catch_comment_edits       previous text of edited comments
+--   comment_mentions          one row per angler @mentioned in a comment;
+--                             doubles as their mention notification
+--                             (read_at is set once they've seen it)
+--
+-- catch_comments.updated_at now only moves when the text changes, which is
+-- what the app uses as the "Edited" marker.
+
+-- ============================================
+-- Replies
+-- ============================================
+
+ALTER TABLE catch_comments
+  ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES catch_comments(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS catch_comments_parent_idx
+  ON catch_comments (parent_id)
+  WHERE parent_id IS NOT NULL;
+
+-- A reply must be on the same catch as its parent, and the parent must be a
+-- top-level comment.
+CREATE OR REPLACE FUNCTION check_comment_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_parent catch_comments%ROWTYPE;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_parent FROM catch_comments WHERE id = NEW.parent_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'parent comment not found';
+  END IF;
+  IF v_parent.report_id <> NEW.report_id THEN
+    RAISE EXCEPTION 'reply must be on the same catch as its parent';
+  END IF;
+  IF v_parent.parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'replies can only be made to top-level comments';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS catch_comments_check_parent ON catch_comments;
+CREATE TRIGGER catch_comments_check_parent
+  BEFORE INSERT ON catch_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION check_comment_parent();
+
+-- ============================================
+-- Edits
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS catch_comment_edits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  comment_id UUID NOT NULL REFERENCES catch_comments(id) ON DELETE CASCADE,
+  previous_text TEXT NOT NULL,
+  edited_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS catch_comment_edits_comment_idx
+  ON catch_comment_edits (comment_id, edited_at DESC);
+
+ALTER TABLE catch_comment_edits ENABLE ROW LEVEL SECURITY;
+
+-- Readable by anyone who can read the comment (catch_comments RLS applies
+-- inside the subquery); written only by the trigger below.
+DROP POLICY IF EXISTS catch_comment_edits_select ON catch_comment_edits;
+CREATE POLICY catch_comment_edits_select ON catch_comment_edits
+  FOR SELECT TO anon, authenticated
+  USING (EXISTS (SELECT 1 FROM catch_comments c WHERE c.id = comment_id));
+
+-- Authors may change their text and nothing else
+DROP POLICY IF EXISTS catch_comments_update_own ON catch_comments;
+CREATE POLICY catch_comments_update_own ON catch_comments
+  FOR UPDATE TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM users me WHERE me.auth_id = auth.uid() AND me.id = user_id
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM users me WHERE me.auth_id = auth.uid() AND me.id = user_id
+  ));
+
+CREATE OR REPLACE FUNCTION archive_comment_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.report_id := OLD.report_id;
+  NEW.user_id := OLD.user_id;
+  NEW.parent_id := OLD.parent_id;
+  NEW.created_at := OLD.created_at;
+
+  IF NEW.text IS DISTINCT FROM OLD.text THEN
+    INSERT INTO catch_comment_edits (comment_id, previous_text)
+    VALUES (OLD.id, OLD.text);
+    NEW.updated_at := now();
+  ELSE
+    NEW.updated_at := OLD.updated_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS catch_comments_archive_edit ON catch_comments;
+CREATE TRIGGER catch_comments_archive_edit
+  BEFORE UPDATE ON catch_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION archive_comment_edit();
+
+-- ============================================
+-- Mentions
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS comment_mentions (
+  comment_id UUID NOT NULL REFERENCES catch_comments(id) ON DELETE CASCADE,
+  mentioned_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  read_at TIMESTAMPTZ,
+  PRIMARY KEY (comment_id, mentioned_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS comment_mentions_unread_idx
+  ON comment_mentions (mentioned_user_id, created_at DESC)
+  WHERE read_at IS NULL;
+
+ALTER TABLE comment_mentions ENABLE ROW LEVEL SECURITY;
+
+-- Visible wherever the comment is, so mention links render for every reader
+DROP POLICY IF EXISTS comment_mentions_select ON comment_mentions;
+CREATE POLICY comment_mentions_select ON comment_mentions
+  FOR SELECT TO anon, authenticated
+  USING (EXISTS (SELECT 1 FROM catch_comments c WHERE c.id = comment_id));
+
+-- Only the comment's author records mentions, and not of themselves
+DROP POLICY IF EXISTS comment_mentions_insert ON comment_mentions;
+CREATE POLICY comment_mentions_insert ON comment_mentions
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1
+      FROM catch_comments c
+      JOIN users me ON me.id = c.user_id
+      WHERE c.id = comment_id AND me.auth_id = auth.uid()
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM users me
+      WHERE me.auth_id = auth.uid() AND me.id = mentioned_user_id
+    )
+  );
+
+-- The mentioned angler marks it read
+DROP POLICY IF EXISTS comment_mentions_mark_read ON comment_mentions;
+CREATE POLICY comment_mentions_mark_read ON comment_mentions
+  FOR UPDATE TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM users me WHERE me.auth_id = auth.uid() AND me.id = mentioned_user_id
+  ));
@@ -0,0 +1,39 @@
+-- Migration: Date-effective species regulations
+-- Run this in your Supabase SQL Editor (Dashboard > SQL Editor > New Query)
+--
+-- fish_species.regulations only holds the current rules. This table keeps
+-- every version with the dates it was in force so back-filled harvest reports
+-- can be checked against the rules on their harvest date.
+
+CREATE TABLE IF NOT EXISTS species_regulations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  species_id UUID NOT NULL REFERENCES fish_species(id) ON DELETE CASCADE,
+  regulations JSONB,
+  harvest_status TEXT CHECK (harvest_status IN ('open', 'closed', 'catch_and_release', 'restricted')),
+  note TEXT,
+  area_codes TEXT[] NOT NULL DEFAULT '{}',
+  effective_date DATE NOT NULL,
+  expiration_date DATE,
+  source TEXT NOT NULL DEFAULT 'import' CHECK (source IN ('import', 'bulletin')),
+  bulletin_id UUID REFERENCES app_bulletins(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (regulations IS NOT NULL OR harvest_status IS NOT NULL),
+  CHECK (expiration_date IS NULL OR expiration_date >= effective_date)
+);
+
+CREATE INDEX IF NOT EXISTS species_regulations_species_dates_idx
+  ON species_regulations (species_id, effective_date, expiration_date);
+
+-- Regulations are public reference data: anyone can read, only service_role writes
+ALTER TABLE species_regulations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Species regulations are readable by everyone" ON species_regulations;
+CREATE POLICY "Species regulations are readable by everyone"
+  ON species_regulations FOR SELECT
+  USING (true);
+
+-- Add comments for documentation
+COMMENT ON TABLE species_regulations IS 'Versioned species regulations with effective/expiration dates - resolved by harvest date and area';
+COMMENT ON COLUMN species_regulations.regulations IS 'Size/bag/season rules (same shape as fish_species.regulations); NULL for status-only records';
+COMMENT ON COLUMN species_regulations.area_codes IS 'DMF area codes the record is limited to; empty means statewide';
+COMMENT ON COLUMN species_regulations.expiration_date IS 'Last day in force (inclusive); NULL while current';
@@ -0,0 +1,558 @@
+-- Migration: Device merge
+-- Run this in your Supabase SQL Editor (Dashboard > SQL Editor > New Query)
+-- Run after eligibility_flags.sql.
+--
+-- When an angler signs in on a phone that already has history (a device-only
+-- users row and/or anonymous reports), that history is merged into their
+-- account instead of being deleted:
+--
+--   0. register_device_secret() gives each device a random secret the first
+--      time the app starts on it. Only the device keeps the secret; the
+--      database keeps its sha256 (device_secrets).
+--   1. create_device_merge_request() checks the device's secret, records
+--      what to merge and returns a single-use merge_token, valid for 24
+--      hours. The app keeps the token until the magic link is opened.
+--   2. confirm_device_merge(token), called once the magic link has signed the
+--      angler in with the request's email, moves the history into that
+--      account and retires the device-only row (users.merged_into).
+--   3. revert_device_merge() (fish-log-admin merge revert) puts it back from
+--      the record kept in merge_summary.
+--
+-- Status: pending -> completed -> reverted, or pending -> rejected when a
+-- newer request for the same device replaces it.
+--
+-- Conflict rules:
+--
+--   reports          all move
+--   achievements     the account keeps its own; ones only the device earned move
+--   drawing entries  the account's entry wins; the device's entry for a drawing
+--                    the account already entered is removed. Free entries move.
+--   follows          move; duplicates and follows between the two are removed
+--   stats            the app recomputes them from the merged reports; the
+--                    account's previous stats are kept for a revert
+--
+-- Frozen drawing entrants, winners and prize claims are history and stay put.
+--
+-- The magic link only proves the caller owns the account being merged into.
+-- The device secret proves they hold the device being merged from: a user id
+-- and device_id alone (which can leak) aren't enough to take someone's
+-- history. A device registers once; devices in use before this migration
+-- register when the updated app first starts, and can't be merged before.
+
+-- ============================================
+-- Requests
+-- ============================================
+
+ALTER TABLE device_merge_requests
+  ADD COLUMN IF NOT EXISTS merge_token TEXT UNIQUE,
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS source_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS anonymous_user_id UUID REFERENCES anonymous_users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS target_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS target_previous_device_id TEXT,
+  ADD COLUMN IF NOT EXISTS merge_summary JSONB,
+  ADD COLUMN IF NOT EXISTS reverted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS reverted_by TEXT;
+
+ALTER TABLE device_merge_requests DROP CONSTRAINT IF EXISTS device_merge_requests_status_check;
+ALTER TABLE device_merge_requests ADD CONSTRAINT device_merge_requests_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected', 'completed', 'reverted'));
+
+CREATE INDEX IF NOT EXISTS device_merge_requests_device_pending_idx
+  ON device_merge_requests (device_id)
+  WHERE status = 'pending';
+
+-- sha256 of each device's secret. No policies: only the functions below
+-- read or write it.
+CREATE TABLE IF NOT EXISTS device_secrets (
+  device_id TEXT PRIMARY KEY,
+  secret_hash TEXT NOT NULL CHECK (secret_hash ~ '^[0-9a-f]{64}$'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE device_secrets ENABLE ROW LEVEL SECURITY;
+
+-- A device-only row that was merged into an account
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS merged_into UUID REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS merged_at TIMESTAMPTZ;
+
+-- ============================================
+-- Helpers
+-- ============================================
+
+CREATE OR REPLACE FUNCTION refresh_follow_counts(p_user_ids UUID[])
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE users u
+  SET followers_count = (SELECT count(*) FROM user_follows f WHERE f.following_id = u.id),
+      following_count = (SELECT count(*) FROM user_follows f WHERE f.follower_id = u.id)
+  WHERE u.id = ANY (p_user_ids);
+$$;
+
+REVOKE ALL ON FUNCTION refresh_follow_counts(UUID[]) FROM PUBLIC, anon, authenticated;
+
+-- Follows restored by a revert aren't new follows: don't notify for them
+CREATE OR REPLACE FUNCTION notify_on_follow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('fishlog.restoring_merge', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+  PERFORM notify_user(NEW.following_id, 'follow', NEW.follower_id);
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- Device secret
+-- ============================================
+
+-- Returns the new secret, once. NULL when the device already has one: it
+-- can't be replaced or read back.
+CREATE OR REPLACE FUNCTION register_device_secret(p_device_id TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_secret TEXT := encode(gen_random_bytes(32), 'hex');
+BEGIN
+  IF COALESCE(p_device_id, '') = '' THEN
+    RAISE EXCEPTION 'A device is required';
+  END IF;
+
+  INSERT INTO device_secrets (device_id, secret_hash)
+  VALUES (p_device_id, encode(digest(v_secret, 'sha256'), 'hex'))
+  ON CONFLICT (device_id) DO NOTHING;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN v_secret;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION register_device_secret(TEXT) TO anon, authenticated;
+
+-- ============================================
+-- Request
+-- ============================================
+
+-- Returns NULL when the device has nothing to merge. A device-only row with
+-- an email of its own belongs to another account and can't be merged.
+DROP FUNCTION IF EXISTS create_device_merge_request(TEXT, TEXT, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION create_device_merge_request(
+  p_email TEXT,
+  p_device_id TEXT,
+  p_device_secret TEXT,
+  p_source_user_id UUID,
+  p_anonymous_user_id UUID
+)
+RETURNS device_merge_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_email TEXT := lower(btrim(p_email));
+  v_source users;
+  v_source_id UUID;
+  v_anonymous_id UUID;
+  v_request device_merge_requests;
+BEGIN
+  IF COALESCE(v_email, '') = '' OR COALESCE(p_device_id, '') = '' THEN
+    RAISE EXCEPTION 'An email and device are required';
+  END IF;
+
+  -- Only the device itself holds its secret
+  IF NOT EXISTS (
+    SELECT 1 FROM device_secrets ds
+    WHERE ds.device_id = p_device_id
+      AND ds.secret_hash = encode(digest(COALESCE(p_device_secret, ''), 'sha256'), 'hex')
+  ) THEN
+    RAISE EXCEPTION 'This device could not be verified';
+  END IF;
+
+  IF p_source_user_id IS NOT NULL THEN
+    SELECT * INTO v_source FROM users WHERE id = p_source_user_id;
+    IF NOT FOUND OR v_source.device_id::TEXT IS DISTINCT FROM p_device_id THEN
+      RAISE EXCEPTION 'This account is not linked to this device';
+    END IF;
+    IF v_source.email IS NOT NULL AND lower(v_source.email) <> v_email THEN
+      RAISE EXCEPTION 'This device''s account has its own email and can''t be merged';
+    END IF;
+    -- With the same email it's the account itself: only anonymous history to merge
+    IF v_source.email IS NULL AND v_source.merged_into IS NULL THEN
+      v_source_id := v_source.id;
+    END IF;
+  END IF;
+
+  SELECT a.id INTO v_anonymous_id
+  FROM anonymous_users a
+  WHERE a.id = p_anonymous_user_id AND a.device_id::TEXT = p_device_id;
+
+  IF v_source_id IS NULL AND NOT EXISTS (
+    SELECT 1 FROM harvest_reports r
+    WHERE r.anonymous_user_id = v_anonymous_id AND r.user_id IS NULL
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE device_merge_requests
+  SET status = 'rejected'
+  WHERE device_id::TEXT = p_device_id AND status = 'pending';
+
+  INSERT INTO device_merge_requests (
+    device_id, email, status, merge_token, expires_at, source_user_id, anonymous_user_id
+  )
+  VALUES (
+    p_device_id,
+    v_email,
+    'pending',
+    replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', ''),
+    now() + interval '24 hours',
+    v_source_id,
+    v_anonymous_id
+  )
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_device_merge_request(TEXT, TEXT, TEXT, UUID, UUID) TO anon, authenticated;
+
+-- ============================================
+-- Confirm
+-- ============================================
+
+CREATE OR REPLACE FUNCTION confirm_device_merge(p_merge_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email TEXT;
+  v_request device_merge_requests;
+  v_target users;
+  v_source users;
+  v_reports UUID[] := '{}';
+  v_anonymous_reports UUID[] := '{}';
+  v_achievements UUID[] := '{}';
+  v_entries UUID[] := '{}';
+  v_dropped_entries JSONB := '[]';
+  v_free_entries UUID[] := '{}';
+  v_follows JSONB := '[]';
+  v_dropped_follows JSONB := '[]';
+  v_affected UUID[];
+BEGIN
+  SELECT lower(u.email) INTO v_email FROM auth.users u WHERE u.id = auth.uid();
+  IF v_email IS NULL THEN
+    RAISE EXCEPTION 'Sign in to confirm this merge';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM device_merge_requests
+  WHERE merge_token = p_merge_token
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merge request not found';
+  END IF;
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This merge request is already %', v_request.status;
+  END IF;
+  IF v_request.expires_at < now() THEN
+    RAISE EXCEPTION 'This merge request has expired';
+  END IF;
+  IF v_request.email <> v_email THEN
+    RAISE EXCEPTION 'Sign in with the email this merge was requested for';
+  END IF;
+
+  SELECT * INTO v_target
+  FROM users
+  WHERE lower(email) = v_email AND merged_into IS NULL
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No account found for this email';
+  END IF;
+
+  SELECT * INTO v_source
+  FROM users
+  WHERE id = v_request.source_user_id AND id <> v_target.id AND merged_into IS NULL
+  FOR UPDATE;
+
+  -- Reports
+  WITH moved AS (
+    UPDATE harvest_reports SET user_id = v_target.id
+    WHERE user_id = v_source.id
+    RETURNING id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO v_reports FROM moved;
+
+  WITH moved AS (
+    UPDATE harvest_reports SET user_id = v_target.id
+    WHERE anonymous_user_id = v_request.anonymous_user_id AND user_id IS NULL
+    RETURNING id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO v_anonymous_reports FROM moved;
+
+  IF v_source.id IS NOT NULL THEN
+    -- Achievements only the device earned
+    WITH moved AS (
+      UPDATE user_achievements ua SET user_id = v_target.id
+      WHERE ua.user_id = v_source.id
+        AND NOT EXISTS (
+          SELECT 1 FROM user_achievements t
+          WHERE t.user_id = v_target.id AND t.achievement_id = ua.achievement_id
+        )
+      RETURNING ua.achievement_id
+    )
+    SELECT COALESCE(array_agg(achievement_id), '{}') INTO v_achievements FROM moved;
+
+    -- Drawing entries: the account's own entry wins
+    WITH dropped AS (
+      DELETE FROM user_rewards_entries e
+      WHERE e.user_id = v_source.id
+        AND EXISTS (
+          SELECT 1 FROM user_rewards_entries t
+          WHERE t.user_id = v_target.id AND t.drawing_id = e.drawing_id
+        )
+      RETURNING e.*
+    )
+    SELECT COALESCE(jsonb_agg(to_jsonb(d)), '[]') INTO v_dropped_entries FROM dropped d;
+
+    WITH moved AS (
+      UPDATE user_rewards_entries SET user_id = v_target.id
+      WHERE user_id = v_source.id
+      RETURNING drawing_id
+    )
+    SELECT COALESCE(array_agg(drawing_id), '{}') INTO v_entries FROM moved;
+
+    WITH moved AS (
+      UPDATE drawing_free_entries SET user_id = v_target.id
+      WHERE user_id = v_source.id
+      RETURNING id
+    )
+    SELECT COALESCE(array_agg(id), '{}') INTO v_free_entries FROM moved;
+
+    -- Follows: drop duplicates and follows between the two, move the rest
+    WITH dropped AS (
+      DELETE FROM user_follows f
+      WHERE (f.follower_id = v_source.id AND (
+              f.following_id = v_target.id OR EXISTS (
+                SELECT 1 FROM user_follows t
+                WHERE t.follower_id = v_target.id AND t.following_id = f.following_id)))
+         OR (f.following_id = v_source.id AND (
+              f.follower_id = v_target.id OR EXISTS (
+                SELECT 1 FROM user_follows t
+                WHERE t.following_id = v_target.id AND t.follower_id = f.follower_id)))
+      RETURNING f.*
+    )
+    SELECT COALESCE(jsonb_agg(to_jsonb(d)), '[]') INTO v_dropped_follows FROM dropped d;
+
+    -- Recorded as they were before the move
+    WITH moved AS (
+      UPDATE user_follows f
+      SET follower_id = CASE WHEN f.follower_id = v_source.id THEN v_target.id ELSE f.follower_id END,
+          following_id = CASE WHEN f.following_id = v_source.id THEN v_target.id ELSE f.following_id END
+      WHERE f.follower_id = v_source.id OR f.following_id = v_source.id
+      RETURNING f.follower_id, f.following_id
+    )
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+             'follower_id', CASE WHEN follower_id = v_target.id THEN v_source.id ELSE follower_id END,
+             'following_id', CASE WHEN following_id = v_target.id THEN v_source.id ELSE following_id END
+           )), '[]')
+    INTO v_follows FROM moved;
+
+    SELECT array_agg(DISTINCT id) INTO v_affected
+    FROM (
+      SELECT v_target.id AS id
+      UNION ALL SELECT v_source.id
+      UNION ALL SELECT (f->>'follower_id')::UUID FROM jsonb_array_elements(v_dropped_follows || v_follows) f
+      UNION ALL SELECT (f->>'following_id')::UUID FROM jsonb_array_elements(v_dropped_follows || v_follows) f
+    ) ids;
+    PERFORM refresh_follow_counts(v_affected);
+
+    -- Retire the device-only row
+    UPDATE users
+    SET device_id = NULL, merged_into = v_target.id, merged_at = now()
+    WHERE id = v_source.id;
+  END IF;
+
+  -- Hand the device to the account unless another account still holds it
+  UPDATE users SET device_id = v_request.device_id
+  WHERE id = v_target.id
+    AND NOT EXISTS (
+      SELECT 1 FROM users o WHERE o.device_id = v_request.device_id AND o.id <> v_target.id
+    );
+
+  UPDATE device_merge_requests
+  SET status = 'completed',
+      completed_at = now(),
+      source_user_id = v_source.id,
+      target_user_id = v_target.id,
+      target_previous_device_id = v_target.device_id::TEXT,
+      merge_summary = jsonb_build_object(
+        'reports', to_jsonb(v_reports),
+        'anonymous_reports', to_jsonb(v_anonymous_reports),
+        'achievements', to_jsonb(v_achievements),
+        'entries', to_jsonb(v_entries),
+        'dropped_entries', v_dropped_entries,
+        'free_entries', to_jsonb(v_free_entries),
+        'follows', v_follows,
+        'dropped_follows', v_dropped_follows,
+        'target_stats', jsonb_build_object(
+          'total_reports', v_target.total_reports,
+          'total_fish_reported', v_target.total_fish_reported,
+          'current_streak_days', v_target.current_streak_days,
+          'longest_streak_days', v_target.longest_streak_days,
+          'last_active_at', v_target.last_active_at
+        ),
+        'target_species_stats', COALESCE((
+          SELECT jsonb_agg(to_jsonb(s)) FROM user_species_stats s WHERE s.user_id = v_target.id
+        ), '[]')
+      )
+  WHERE id = v_request.id;
+
+  RETURN jsonb_build_object(
+    'request_id', v_request.id,
+    'target_user_id', v_target.id,
+    'reports_merged', cardinality(v_reports) + cardinality(v_anonymous_reports),
+    'achievements_merged', cardinality(v_achievements),
+    'entries_merged', cardinality(v_entries) + cardinality(v_free_entries),
+    'follows_merged', jsonb_array_length(v_follows)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION confirm_device_merge(TEXT) TO authenticated;
+
+-- ============================================
+-- Revert
+-- ============================================
+
+-- Moves back exactly what the merge moved; anything the account added since
+-- stays with the account. Stats go back to their pre-merge values.
+CREATE OR REPLACE FUNCTION revert_device_merge(p_request_id UUID, p_actor TEXT)
+RETURNS device_merge_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request device_merge_requests;
+  v_s JSONB;
+  v_source UUID;
+  v_target UUID;
+  v_affected UUID[];
+BEGIN
+  SELECT * INTO v_request FROM device_merge_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merge request % not found', p_request_id;
+  END IF;
+  IF v_request.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed merges can be reverted (this one is %)', v_request.status;
+  END IF;
+
+  v_s := v_request.merge_summary;
+  v_source := v_request.source_user_id;
+  v_target := v_request.target_user_id;
+
+  UPDATE users SET device_id = NULL WHERE id = v_target AND device_id = v_request.device_id;
+
+  UPDATE harvest_reports SET user_id = v_source
+  WHERE user_id = v_target
+    AND id IN (SELECT jsonb_array_elements_text(v_s->'reports')::UUID);
+
+  UPDATE harvest_reports SET user_id = NULL
+  WHERE user_id = v_target
+    AND id IN (SELECT jsonb_array_elements_text(v_s->'anonymous_reports')::UUID);
+
+  IF v_source IS NOT NULL THEN
+    UPDATE user_achievements SET user_id = v_source
+    WHERE user_id = v_target
+      AND achievement_id IN (SELECT jsonb_array_elements_text(v_s->'achievements')::UUID);
+
+    UPDATE user_rewards_entries SET user_id = v_source
+    WHERE user_id = v_target
+      AND drawing_id IN (SELECT jsonb_array_elements_text(v_s->'entries')::UUID);
+
+    INSERT INTO user_rewards_entries
+    SELECT * FROM jsonb_populate_recordset(NULL::user_rewards_entries, v_s->'dropped_entries')
+    ON CONFLICT DO NOTHING;
+
+    UPDATE drawing_free_entries SET user_id = v_source
+    WHERE id IN (SELECT jsonb_array_elements_text(v_s->'free_entries')::UUID);
+
+    UPDATE user_follows f
+    SET follower_id = (o->>'follower_id')::UUID,
+        following_id = (o->>'following_id')::UUID
+    FROM jsonb_array_elements(v_s->'follows') o
+    WHERE f.follower_id = CASE WHEN (o->>'follower_id')::UUID = v_source THEN v_target
+                               ELSE (o->>'follower_id')::UUID END
+      AND f.following_id = CASE WHEN (o->>'following_id')::UUID = v_source THEN v_target
+                                ELSE (o->>'following_id')::UUID END;
+
+    PERFORM set_config('fishlog.restoring_merge', 'on', true);
+    INSERT INTO user_follows
+    SELECT * FROM jsonb_populate_recordset(NULL::user_follows, v_s->'dropped_follows')
+    ON CONFLICT DO NOTHING;
+    PERFORM set_config('fishlog.restoring_merge', 'off', true);
+
+    SELECT array_agg(DISTINCT id) INTO v_affected
+    FROM (
+      SELECT v_target AS id
+      UNION ALL SELECT v_source
+      UNION ALL SELECT (f->>'follower_id')::UUID FROM jsonb_array_elements((v_s->'dropped_follows') || (v_s->'follows')) f
+      UNION ALL SELECT (f->>'following_id')::UUID FROM jsonb_array_elements((v_s->'dropped_follows') || (v_s->'follows')) f
+    ) ids;
+    PERFORM refresh_follow_counts(v_affected);
+
+    -- The device goes back to the device-only row
+    UPDATE users
+    SET device_id = v_request.device_id, merged_into = NULL, merged_at = NULL
+    WHERE id = v_source;
+  END IF;
+
+  UPDATE users SET device_id = v_request.target_previous_device_id
+  WHERE id = v_target
+    AND device_id IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM users o WHERE o.device_id = v_request.target_previous_device_id
+    );
+
+  UPDATE users u
+  SET total_reports = (v_s->'target_stats'->>'total_reports')::INTEGER,
+      total_fish_reported = (v_s->'target_stats'->>'total_fish_reported')::INTEGER,
+      current_streak_days = (v_s->'target_stats'->>'current_streak_days')::INTEGER,
+      longest_streak_days = (v_s->'target_stats'->>'longest_streak_days')::INTEGER,
+      last_active_at = (v_s->'target_stats'->>'last_active_at')::TIMESTAMPTZ
+  WHERE u.id = v_target;
+
+  DELETE FROM user_species_stats WHERE user_id = v_target;
+  INSERT INTO user_species_stats
+  SELECT * FROM jsonb_populate_recordset(NULL::user_species_stats, v_s->'target_species_stats');
+
+  UPDATE device_merge_requests
+  SET status = 'reverted', reverted_at = now(), reverted_by = p_actor
+  WHERE id = p_request_id
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION revert_device_merge(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION revert_device_merge(UUID, TEXT) TO service_role;
@@ -0,0 +1,224 @@
+-- Migration: Rewards eligibility flags
+-- Run this in your Supabase SQL Editor (Dashboard > SQL Editor > New Query)
+-- Run after weighted_entries.sql.
+--
+-- score_drawing_eligibility() scores a drawing's entrants for patterns that
+-- suggest fabricated reports or duplicate accounts, so they can be reviewed
+-- (`fish-log-admin drawing flags`) before winners are picked:
+--
+--   shared_device      another users row has the same device_id      (3)
+--   shared_phone       another users row has the same phone number   (3)
+--   implausible_count  a report over p_bag_limit_factor times the
+--                      bag limit for the people it covers            (2)
+--   gps_outside_nc     a report's GPS fix is more than
+--                      p_gps_tolerance_km outside North Carolina
+--                      while claiming an NC DMF area                 (2)
+--   report_burst       p_burst_reports or more reports created
+--                      within p_burst_minutes                        (1)
+--
+-- Only reports that count toward the drawing (harvest within the period,
+-- created before entries close) are checked; hidden reports are included.
+-- A member's score is the sum of the weights of the flags they raise. Flags
+-- are for review only: nothing is excluded automatically.
+
+-- ============================================
+-- Bag limits
+-- ============================================
+
+-- Most permissive bag limit across the catalog species a DMF species covers
+-- (e.g. Flounder covers Southern, Summer and Gulf flounder), using the
+-- species_regulations record in force on the harvest date in the area when
+-- there is one. NULL when any of them has no bag limit or none are found.
+CREATE OR REPLACE FUNCTION report_bag_limit(p_species TEXT, p_harvest_date DATE, p_area_code TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE WHEN count(*) = 0 OR bool_or(lim IS NULL) THEN NULL ELSE max(lim) END
+  FROM (
+    SELECT COALESCE(
+      (
+        SELECT (sr.regulations->>'bagLimit')::INTEGER
+        FROM species_regulations sr
+        WHERE sr.species_id = s.id
+          AND sr.regulations IS NOT NULL
+          AND sr.effective_date <= p_harvest_date
+          AND (sr.expiration_date IS NULL OR sr.expiration_date >= p_harvest_date)
+          AND (cardinality(sr.area_codes) = 0 OR p_area_code = ANY (sr.area_codes))
+        ORDER BY sr.effective_date DESC
+        LIMIT 1
+      ),
+      (s.regulations->>'bagLimit')::INTEGER
+    ) AS lim
+    FROM fish_species s
+    WHERE s.is_active
+      AND lower(s.name) LIKE '%' || lower(p_species) || '%'
+  ) limits;
+$$;
+
+-- ============================================
+-- Scoring
+-- ============================================
+
+CREATE OR REPLACE FUNCTION score_drawing_eligibility(
+  p_drawing_id UUID,
+  p_burst_reports INTEGER DEFAULT 5,
+  p_burst_minutes INTEGER DEFAULT 10,
+  p_bag_limit_factor NUMERIC DEFAULT 2,
+  p_gps_tolerance_km NUMERIC DEFAULT 50
+)
+RETURNS TABLE (
+  user_id UUID,
+  score INTEGER,
+  flags JSONB
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_drawing rewards_drawings;
+  v_closes_at TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_drawing FROM rewards_drawings WHERE id = p_drawing_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Drawing % not found', p_drawing_id;
+  END IF;
+
+  -- Same close as freeze_drawing_entrants: end of end_date, NC time
+  v_closes_at := (v_drawing.end_date + 1)::timestamp AT TIME ZONE 'America/New_York';
+
+  RETURN QUERY
+  WITH entrants AS (
+    SELECT e.user_id
+    FROM user_rewards_entries e
+    WHERE e.drawing_id = p_drawing_id
+      AND e.is_entered
+      AND (e.entered_at IS NULL OR e.entered_at < v_closes_at)
+    UNION
+    SELECT f.user_id
+    FROM drawing_free_entries f
+    WHERE f.drawing_id = p_drawing_id AND f.received_at < v_closes_at
+  ),
+  reports AS (
+    SELECT r.*
+    FROM harvest_reports r
+    JOIN entrants en ON en.user_id = r.user_id
+    WHERE r.harvest_date BETWEEN v_drawing.start_date AND v_drawing.end_date
+      AND r.created_at < v_closes_at
+  ),
+  bursts AS (
+    SELECT r.user_id, max(w.n) AS n
+    FROM reports r
+    CROSS JOIN LATERAL (
+      SELECT count(*) AS n
+      FROM reports r2
+      WHERE r2.user_id = r.user_id
+        AND r2.created_at >= r.created_at
+        AND r2.created_at < r.created_at + make_interval(mins => p_burst_minutes)
+    ) w
+    GROUP BY r.user_id
+    HAVING max(w.n) >= p_burst_reports
+  ),
+  over_limit AS (
+    SELECT r.user_id, count(DISTINCT r.id) AS n, max(c.fish) AS worst
+    FROM reports r
+    CROSS JOIN LATERAL (VALUES
+      ('Red Drum', r.red_drum_count),
+      ('Flounder', r.flounder_count),
+      ('Spotted Seatrout', r.spotted_seatrout_count),
+      ('Weakfish', r.weakfish_count),
+      ('Striped Bass', r.striped_bass_count)
+    ) AS c(species, fish)
+    CROSS JOIN LATERAL (
+      SELECT report_bag_limit(c.species, r.harvest_date, r.area_code) AS bag_limit
+    ) l
+    WHERE c.fish > 0
+      AND l.bag_limit IS NOT NULL
+      AND c.fish > l.bag_limit * p_bag_limit_factor
+        * CASE WHEN r.reporting_for = 'family' AND r.family_count > 0 THEN r.family_count ELSE 1 END
+    GROUP BY r.user_id
+  ),
+  outside_nc AS (
+    -- Distance outside North Carolina's bounding box, roughly in km
+    SELECT d.user_id, count(*) AS n, round(max(d.km)) AS worst_km
+    FROM (
+      SELECT r.user_id,
+             sqrt(
+               power(GREATEST(33.84 - r.gps_latitude, 0, r.gps_latitude - 36.59) * 111.0, 2) +
+               power(GREATEST(-84.32 - r.gps_longitude, 0, r.gps_longitude + 75.46)
+                     * 111.0 * cos(radians(r.gps_latitude)), 2)
+             ) AS km
+      FROM reports r
+      WHERE r.gps_latitude IS NOT NULL
+        AND r.gps_longitude IS NOT NULL
+        AND r.area_code IS NOT NULL
+    ) d
+    WHERE d.km > p_gps_tolerance_km
+    GROUP BY d.user_id
+  ),
+  shared_devices AS (
+    SELECT u.id AS user_id, jsonb_agg(other.id) AS others
+    FROM users u
+    JOIN entrants en ON en.user_id = u.id
+    JOIN users other ON other.device_id = u.device_id AND other.id <> u.id
+    WHERE u.device_id IS NOT NULL
+    GROUP BY u.id
+  ),
+  phones AS (
+    SELECT u.id, right(regexp_replace(u.phone, '\D', '', 'g'), 10) AS digits
+    FROM users u
+    WHERE u.phone IS NOT NULL
+  ),
+  shared_phones AS (
+    SELECT p.id AS user_id, jsonb_agg(other.id) AS others
+    FROM phones p
+    JOIN entrants en ON en.user_id = p.id
+    JOIN phones other ON other.digits = p.digits AND other.id <> p.id
+    WHERE length(p.digits) = 10
+    GROUP BY p.id
+  ),
+  flagged AS (
+    SELECT s.user_id, 3 AS weight, jsonb_build_object(
+      'code', 'shared_device', 'weight', 3,
+      'detail', format('device shared with %s other account(s)', jsonb_array_length(s.others)),
+      'users', s.others) AS flag
+    FROM shared_devices s
+    UNION ALL
+    SELECT s.user_id, 3, jsonb_build_object(
+      'code', 'shared_phone', 'weight', 3,
+      'detail', format('phone shared with %s other account(s)', jsonb_array_length(s.others)),
+      'users', s.others)
+    FROM shared_phones s
+    UNION ALL
+    SELECT o.user_id, 2, jsonb_build_object(
+      'code', 'implausible_count', 'weight', 2,
+      'detail', format('%s report(s) over %s× the bag limit (up to %s fish of one species)',
+                       o.n, p_bag_limit_factor, o.worst))
+    FROM over_limit o
+    UNION ALL
+    SELECT g.user_id, 2, jsonb_build_object(
+      'code', 'gps_outside_nc', 'weight', 2,
+      'detail', format('%s report(s) up to %s km outside NC', g.n, g.worst_km))
+    FROM outside_nc g
+    UNION ALL
+    SELECT b.user_id, 1, jsonb_build_object(
+      'code', 'report_burst', 'weight', 1,
+      'detail', format('%s reports within %s minutes', b.n, p_burst_minutes))
+    FROM bursts b
+  )
+  SELECT f.user_id, sum(f.weight)::INTEGER, jsonb_agg(f.flag ORDER BY f.weight DESC)
+  FROM flagged f
+  GROUP BY f.user_id
+  ORDER BY sum(f.weight) DESC, f.user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION report_bag_limit(TEXT, DATE, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION score_drawing_eligibility(UUID, INTEGER, INTEGER, NUMERIC, NUMERIC)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION report_bag_limit(TEXT, DATE, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION score_drawing_eligibility(UUID, INTEGER, INTEGER, NUMERIC, NUMERIC)
+  TO service_role;
@@ -0,0 +1,316 @@
+-- Migration: Location precision and delayed publishing for shared catches
+-- Run this in your Supabase SQL Editor (Dashboard > SQL Editor > New Query)
+--
+-- Anglers choose how much of a catch's location the Catch Feed shows and
+-- how long to wait before it appears:
+--   users.location_precision / publish_delay_days            profile defaults
+--   harvest_reports.location_precision / publish_delay_days  per-report
+--                                                             overrides (NULL =
+--                                                             use the profile)
+--
+-- Enforcement lives in v_catch_feed, which every feed read goes through: the
+-- Discover feed, get_following_feed, the angler profile and the catch detail
+-- screen. The previous view is kept as v_catch_feed_source (likes, comments,
+-- fish entries and block filtering) and is no longer readable by clients.
+-- The angler always sees their own catches unredacted and immediately.
+--
+-- The report RPCs live outside this repo, so rather than editing their
+-- bodies this migration renames them to create_report_atomic_insert and
+-- create_report_anonymous_insert and puts thin wrappers in their place. Each
+-- wrapper hands its JSONB input to a BEFORE INSERT trigger on
+-- harvest_reports, which copies 'location_precision' and
+-- 'publish_delay_days' onto the new row. Idempotent replays return the
+-- existing report without inserting, so they can't rewrite its settings.
+
+-- ============================================
+-- Settings columns
+-- ============================================
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS location_precision TEXT NOT NULL DEFAULT 'exact'
+    CHECK (location_precision IN ('exact', 'region', 'hidden')),
+  ADD COLUMN IF NOT EXISTS publish_delay_days INTEGER NOT NULL DEFAULT 0
+    CHECK (publish_delay_days BETWEEN 0 AND 30);
+
+ALTER TABLE harvest_reports
+  ADD COLUMN IF NOT EXISTS location_precision TEXT
+    CHECK (location_precision IN ('exact', 'region', 'hidden')),
+  ADD COLUMN IF NOT EXISTS publish_delay_days INTEGER
+    CHECK (publish_delay_days BETWEEN 0 AND 30);
+
+-- ============================================
+-- Report RPCs copy the per-report settings
+-- ============================================
+
+-- Applies the input of the report RPC running in this transaction to the
+-- row it inserts. Inserts made any other way keep what they set.
+CREATE OR REPLACE FUNCTION apply_report_input_settings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_input JSONB := NULLIF(current_setting('app.report_input', true), '')::JSONB;
+  v_precision TEXT;
+  v_delay TEXT;
+BEGIN
+  IF v_input IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Null keeps the profile default; an unknown precision hides the location
+  v_precision := v_input->>'location_precision';
+  NEW.location_precision := CASE
+    WHEN v_precision IS NULL THEN NULL
+    WHEN v_precision IN ('exact', 'region', 'hidden') THEN v_precision
+    ELSE 'hidden'
+  END;
+
+  v_delay := v_input->>'publish_delay_days';
+  NEW.publish_delay_days := CASE
+    WHEN v_delay ~ '^\d+$' THEN LEAST(v_delay::NUMERIC, 30)::INTEGER
+  END;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS harvest_reports_apply_report_input ON harvest_reports;
+CREATE TRIGGER harvest_reports_apply_report_input
+  BEFORE INSERT ON harvest_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_report_input_settings();
+
+-- Move the original RPCs aside (once) and wrap them, keeping their return
+-- types. The wrappers run as the caller, so the originals still do their
+-- own auth checks.
+DO $$
+BEGIN
+  IF to_regprocedure('create_report_atomic_insert(jsonb)') IS NULL THEN
+    ALTER FUNCTION create_report_atomic(JSONB) RENAME TO create_report_atomic_insert;
+  END IF;
+  IF to_regprocedure('create_report_anonymous_insert(text, jsonb)') IS NULL THEN
+    ALTER FUNCTION create_report_anonymous(TEXT, JSONB) RENAME TO create_report_anonymous_insert;
+  END IF;
+
+  EXECUTE format($f$
+    CREATE OR REPLACE FUNCTION create_report_atomic(p_input JSONB)
+    RETURNS %1$s
+    LANGUAGE plpgsql
+    SECURITY INVOKER
+    SET search_path = public
+    AS $body$
+    DECLARE
+      v_result %1$s;
+    BEGIN
+      PERFORM set_config('app.report_input', p_input::TEXT, true);
+      v_result := create_report_atomic_insert(p_input);
+      PERFORM set_config('app.report_input', '', true);
+      RETURN v_result;
+    END;
+    $body$
+  $f$, pg_get_function_result('create_report_atomic_insert(jsonb)'::regprocedure));
+
+  EXECUTE format($f$
+    CREATE OR REPLACE FUNCTION create_report_anonymous(p_device_id TEXT, p_input JSONB)
+    RETURNS %1$s
+    LANGUAGE plpgsql
+    SECURITY INVOKER
+    SET search_path = public
+    AS $body$
+    DECLARE
+      v_result %1$s;
+    BEGIN
+      PERFORM set_config('app.report_input', p_input::TEXT, true);
+      v_result := create_report_anonymous_insert(p_device_id, p_input);
+      PERFORM set_config('app.report_input', '', true);
+      RETURN v_result;
+    END;
+    $body$
+  $f$, pg_get_function_result('create_report_anonymous_insert(text, jsonb)'::regprocedure));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_report_atomic(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_report_anonymous(TEXT, JSONB) TO anon, authenticated;
+
+-- ============================================
+-- Area -> region lookup
+-- ============================================
+
+-- Home region for each DMF area, matching getRegionForArea() in
+-- src/constants/regionOptions.ts (areas shared between regions resolve to
+-- the first region listing them).
+CREATE TABLE IF NOT EXISTS area_regions (
+  area_code TEXT PRIMARY KEY,
+  region_code TEXT NOT NULL,
+  region_label TEXT NOT NULL
+);
+
+INSERT INTO area_regions (area_code, region_code, region_label) VALUES
+  ('1', 'ALB', 'Albemarle Region'),
+  ('2', 'ALB', 'Albemarle Region'),
+  ('3', 'PAM', 'Pamlico Sound'),
+  ('5', 'CRC', 'Crystal Coast'),
+  ('6', 'WIL', 'Wilmington Area'),
+  ('7', 'ALB', 'Albemarle Region'),
+  ('8', 'CRC', 'Crystal Coast'),
+  ('9', 'OBX', 'Outer Banks'),
+  ('10', 'NEC', 'Northeast Coast'),
+  ('11', 'BRN', 'Brunswick Coast'),
+  ('12', 'WIL', 'Wilmington Area'),
+  ('13', 'PAM', 'Pamlico Sound'),
+  ('20', 'OBX', 'Outer Banks'),
+  ('21', 'CRC', 'Crystal Coast'),
+  ('22', 'OBX', 'Outer Banks'),
+  ('23', 'CRC', 'Crystal Coast'),
+  ('29', 'PAM', 'Pamlico Sound'),
+  ('30', 'WIL', 'Wilmington Area'),
+  ('31', 'CRC', 'Crystal Coast'),
+  ('33', 'PAM', 'Pamlico Sound'),
+  ('34', 'PAM', 'Pamlico Sound'),
+  ('35', 'ALB', 'Albemarle Region'),
+  ('36', 'ALB', 'Albemarle Region'),
+  ('37', 'ALB', 'Albemarle Region'),
+  ('38', 'BRN', 'Brunswick Coast'),
+  ('39', 'WIL', 'Wilmington Area'),
+  ('41', 'WIL', 'Wilmington Area'),
+  ('42', 'CRC', 'Crystal Coast'),
+  ('43', 'CRC', 'Crystal Coast'),
+  ('45', 'OBX', 'Outer Banks'),
+  ('52', 'PAM', 'Pamlico Sound'),
+  ('53', 'BRN', 'Brunswick Coast'),
+  ('54', 'WIL', 'Wilmington Area'),
+  ('80', 'NEC', 'Northeast Coast')
+ON CONFLICT (area_code) DO UPDATE
+  SET region_code = EXCLUDED.region_code,
+      region_label = EXCLUDED.region_label;
+
+GRANT SELECT ON area_regions TO anon, authenticated;
+
+-- ============================================
+-- Redacting feed view
+-- ============================================
+
+-- Both get_following_feed overloads return SETOF v_catch_feed, so they have
+-- to go before the view is swapped out; they're recreated below.
+DROP FUNCTION IF EXISTS get_following_feed(INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS get_following_feed(INTEGER, TIMESTAMPTZ, UUID, TIMESTAMPTZ, UUID);
+
+ALTER VIEW v_catch_feed RENAME TO v_catch_feed_source;
+REVOKE ALL ON v_catch_feed_source FROM anon, authenticated;
+
+-- created_at is moved forward by the publish delay for other anglers, so a
+-- delayed catch lands at the top of the feed when it's released (and keyset
+-- paging stays in publish order) instead of appearing days down the list.
+-- GPS coordinates were never part of the feed and still aren't.
+CREATE VIEW v_catch_feed AS
+SELECT
+  s.report_id,
+  s.user_id,
+  s.first_name,
+  s.last_name,
+  s.profile_image_url,
+  s.photo_url,
+  s.photos,
+  s.harvest_date,
+  CASE WHEN p.is_own OR p.precision = 'exact' THEN s.area_code END AS area_code,
+  CASE
+    WHEN p.is_own OR p.precision = 'exact' THEN s.area_label
+    WHEN p.precision = 'region' THEN ar.region_label
+  END AS area_label,
+  CASE WHEN p.is_own OR p.precision <> 'hidden' THEN ar.region_code END AS region_code,
+  CASE
+    WHEN p.is_own THEN s.created_at
+    ELSE s.created_at + make_interval(days => p.delay_days)
+  END AS created_at,
+  s.report_type,
+  s.red_drum_count,
+  s.flounder_count,
+  s.spotted_seatrout_count,
+  s.weakfish_count,
+  s.striped_bass_count,
+  s.total_fish,
+  s.fish_entries_json,
+  s.like_count,
+  s.comment_count
+FROM v_catch_feed_source s
+JOIN harvest_reports r ON r.id = s.report_id
+JOIN users u ON u.id = s.user_id
+LEFT JOIN area_regions ar ON ar.area_code = s.area_code
+CROSS JOIN LATERAL (
+  SELECT
+    COALESCE(r.location_precision, u.location_precision, 'exact') AS precision,
+    COALESCE(r.publish_delay_days, u.publish_delay_days, 0) AS delay_days,
+    COALESCE(u.auth_id = auth.uid(), false) AS is_own
+) p
+WHERE p.is_own
+   OR s.created_at + make_interval(days => p.delay_days) <= now();
+
+GRANT SELECT ON v_catch_feed TO anon, authenticated;
+
+-- ============================================
+-- get_following_feed over the redacting view
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_following_feed(
+  p_limit INTEGER DEFAULT 12,
+  p_before_created_at TIMESTAMPTZ DEFAULT NULL,
+  p_before_id UUID DEFAULT NULL,
+  p_after_created_at TIMESTAMPTZ DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL
+)
+RETURNS SETOF v_catch_feed
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT f.*
+  FROM v_catch_feed f
+  WHERE f.user_id IN (
+    SELECT uf.following_id
+    FROM user_follows uf
+    JOIN users viewer ON viewer.id = uf.follower_id
+    WHERE viewer.auth_id = auth.uid()
+  )
+  AND (
+    p_before_created_at IS NULL
+    OR (f.created_at, f.report_id) < (p_before_created_at, p_before_id)
+  )
+  AND (
+    p_after_created_at IS NULL
+    OR (f.created_at, f.report_id) > (p_after_created_at, p_after_id)
+  )
+  ORDER BY f.created_at DESC, f.report_id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$;
+
+-- Legacy offset signature for older app builds
+CREATE OR REPLACE FUNCTION get_following_feed(
+  p_limit INTEGER,
+  p_offset INTEGER
+)
+RETURNS SETOF v_catch_feed
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT f.*
+  FROM v_catch_feed f
+  WHERE f.user_id IN (
+    SELECT uf.following_id
+    FROM user_follows uf
+    JOIN users viewer ON viewer.id = uf.follower_id
+    WHERE viewer.auth_id = auth.uid()
+  )
+  ORDER BY f.created_at DESC, f.report_id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION get_following_feed(INTEGER, TIMESTAMPTZ, UUID, TIMESTAMPTZ, UUID)
+  TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_following_feed(INTEGER, INTEGER)
+  TO anon, authenticated;
@@ -0,0 +1,53 @@
+-- Migration: Keyset (cursor) pagination for the catch feeds
+-- Run this in your Supabase SQL Editor (Dashboard > SQL Editor > New Query)
+--
+-- The feeds used to page with OFFSET, so catches posted while someone
+-- scrolled shifted every later page (duplicate or skipped cards). Both feeds
+-- now page on (created_at, report_id) instead:
+--   older page:  (created_at, report_id) < cursor, newest first
+--   new catches: (created_at, report_id) > head cursor, newest first
+--
+-- v_catch_feed is paged client-side with PostgREST filters; this index keeps
+-- those range scans cheap.
+
+CREATE INDEX IF NOT EXISTS harvest_reports_created_at_id_idx
+  ON harvest_reports (created_at DESC, id DESC);
+
+-- get_following_feed with cursor parameters. The old (p_limit, p_offset)
+-- signature is left in place for app builds that still call it; drop it once
+-- those have aged out.
+CREATE OR REPLACE FUNCTION get_following_feed(
+  p_limit INTEGER DEFAULT 12,
+  p_before_created_at TIMESTAMPTZ DEFAULT NULL,
+  p_before_id UUID DEFAULT NULL,
+  p_after_created_at TIMESTAMPTZ DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL
+)
+RETURNS SETOF v_catch_feed
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT f.*
+  FROM v_catch_feed f
+  WHERE f.user_id IN (
+    SELECT uf.following_id
+    FROM user_follows uf
+    JOIN users viewer ON viewer.id = uf.follower_id
+    WHERE viewer.auth_id = auth.uid()
+  )
+  AND (
+    p_before_created_at IS NULL
+    OR (f.created_at, f.report_id) < (p_before_created_at, p_before_id)
+  )
+  AND (
+    p_after_created_at IS NULL
+    OR (f.created_at, f.report_id) > (p_after_created_at, p_after_id)
+  )
+  ORDER BY f.created_at DESC, f.report_id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION get_following_feed(INTEGER, TIMESTAMPTZ, UUID, TIMESTAMPTZ, UUID)
+  TO anon, authenticated;
@@ -0,0 +1,151 @@
+-- Migration: Leaderboards by period, species and region
+-- Run this in your Supabase SQL Editor (Dashboard > SQL Editor > New Query)
+-- Run after notifications.sql.
+--
+-- get_leaderboard_rankings ranks rewards members by one metric:
+--   catches  fish caught (of p_species when given)
+--   species  distinct species caught
+--   length   longest fish (of p_species when given)
+-- All three read fish_entries, so catch-log posts count the same as harvest
+-- reports (whose per-species count columns catch logs leave at zero).
+-- over catches harvested on or after p_since (NULL for all time), optionally
+-- limited to p_area_codes (a REGION_OPTIONS region's area codes).
+--
+-- A catch counts once other anglers could see it in the feed: not private,
+-- past its publish delay, not hidden by moderation and from an unbanned
+-- angler. Catches with a hidden location don't count toward region boards.
+-- Anglers on either side of a block with the caller are left out.
+--
+-- Ties go to whoever reached the value first (achieved_at), then to the
+-- lower user id, so ranks are 1..n with no shared places and don't shuffle
+-- between calls. Returns the top p_limit rows, plus the caller's own row
+-- (is_viewer) when they rank lower.
+--
+-- fish_entries names a species however it was picked, so names are folded
+-- into one key before counting: p_species_aliases maps lowercase names to a
+-- SPECIES id (built from src/constants/species.ts), and any other catalog
+-- species is keyed by its lowercase name. p_species is such a key.
+
+CREATE INDEX IF NOT EXISTS harvest_reports_user_harvest_date_idx
+  ON harvest_reports (user_id, harvest_date);
+
+DROP FUNCTION IF EXISTS get_leaderboard_rankings(TEXT, DATE, TEXT, TEXT[], TEXT[], INTEGER);
+
+CREATE OR REPLACE FUNCTION get_leaderboard_rankings(
+  p_metric TEXT,
+  p_since DATE DEFAULT NULL,
+  p_species TEXT DEFAULT NULL,
+  p_species_aliases JSONB DEFAULT '{}'::jsonb,
+  p_area_codes TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  rank BIGINT,
+  user_id UUID,
+  first_name TEXT,
+  last_name TEXT,
+  profile_image_url TEXT,
+  value NUMERIC,
+  achieved_at TIMESTAMPTZ,
+  is_viewer BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_viewer UUID;
+BEGIN
+  IF p_metric NOT IN ('catches', 'species', 'length') THEN
+    RAISE EXCEPTION 'unknown leaderboard metric: %', p_metric;
+  END IF;
+
+  SELECT me.id INTO v_viewer FROM users me WHERE me.auth_id = auth.uid();
+
+  RETURN QUERY
+  WITH eligible AS (
+    SELECT r.id, r.user_id, r.created_at
+    FROM harvest_reports r
+    JOIN users u ON u.id = r.user_id
+    WHERE u.rewards_opted_in_at IS NOT NULL
+      AND u.banned_at IS NULL
+      AND r.hidden_at IS NULL
+      AND r.visibility <> 'private'
+      AND r.created_at
+          + make_interval(days => COALESCE(r.publish_delay_days, u.publish_delay_days, 0)) <= now()
+      AND (p_since IS NULL OR r.harvest_date >= p_since)
+      AND (
+        p_area_codes IS NULL
+        OR (
+          r.area_code = ANY (p_area_codes)
+          AND COALESCE(r.location_precision, u.location_precision, 'exact') <> 'hidden'
+        )
+      )
+      AND NOT is_blocked_with_caller(r.user_id)
+  ),
+  -- Fish entries with their species key, limited to p_species when given
+  report_species AS (
+    SELECT k.user_id, k.created_at, k.species, k.fish, k.lengths
+    FROM (
+      SELECT e.user_id, e.created_at, fe.count AS fish, fe.lengths,
+             COALESCE(
+               p_species_aliases ->> lower(btrim(fe.species)),
+               lower(btrim(fe.species))
+             ) AS species
+      FROM eligible e
+      JOIN fish_entries fe ON fe.report_id = e.id
+    ) k
+    WHERE p_species IS NULL OR k.species = p_species
+  ),
+  -- Individual fish lengths in inches; unparseable entries are skipped
+  fish_lengths AS (
+    SELECT rs.user_id, rs.created_at,
+           substring(l.length FROM '^\s*(\d+(?:\.\d+)?)')::NUMERIC AS inches
+    FROM report_species rs
+    CROSS JOIN LATERAL unnest(rs.lengths) AS l (length)
+  ),
+  scores AS (
+    SELECT rs.user_id, SUM(rs.fish)::NUMERIC AS value, MAX(rs.created_at) AS achieved_at
+    FROM report_species rs
+    WHERE p_metric = 'catches' AND rs.fish > 0
+    GROUP BY rs.user_id
+    UNION ALL
+    -- Reached when the last new species was first caught
+    SELECT firsts.user_id, COUNT(*)::NUMERIC, MAX(firsts.first_at)
+    FROM (
+      SELECT rs.user_id, rs.species, MIN(rs.created_at) AS first_at
+      FROM report_species rs
+      WHERE p_metric = 'species' AND rs.fish > 0
+      GROUP BY rs.user_id, rs.species
+    ) firsts
+    GROUP BY firsts.user_id
+    UNION ALL
+    -- Reached when the longest fish was first caught
+    SELECT longest.user_id, longest.inches, longest.created_at
+    FROM (
+      SELECT DISTINCT ON (fl.user_id) fl.user_id, fl.inches, fl.created_at
+      FROM fish_lengths fl
+      WHERE p_metric = 'length' AND fl.inches > 0
+      ORDER BY fl.user_id, fl.inches DESC, fl.created_at ASC
+    ) longest
+  ),
+  ranked AS (
+    SELECT ROW_NUMBER() OVER (
+             ORDER BY sc.value DESC, sc.achieved_at ASC, sc.user_id ASC
+           ) AS rank,
+           sc.user_id, sc.value, sc.achieved_at
+    FROM scores sc
+  )
+  SELECT rk.rank, rk.user_id, u.first_name::TEXT, u.last_name::TEXT, u.profile_image_url::TEXT,
+         rk.value, rk.achieved_at, COALESCE(rk.user_id = v_viewer, false) AS is_viewer
+  FROM ranked rk
+  JOIN users u ON u.id = rk.user_id
+  WHERE rk.rank <= p_limit OR rk.user_id = v_viewer
+  ORDER BY rk.rank;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_leaderboard_rankings(TEXT, DATE, TEXT, JSONB, TEXT[], INTEGER)
+  TO anon, authenticated;
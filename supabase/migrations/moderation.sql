@@ -0,0 +1,313 @@
+-- Migration: Moderation queue for reported catches and comments
+-- Run this in your Supabase SQL Editor (Dashboard > SQL Editor > New Query)
+-- Run after comment_threads_mentions.sql.
+--
+-- Anglers report catches (catch_reports) and comments (comment_reports) with
+-- a reason code. Once a catch or comment has auto_hide_threshold (default 3)
+-- distinct open reports it's hidden automatically until a moderator reviews
+-- it with `fish-log-admin moderate` (admin-tool), which can hide, restore
+-- and ban. Every change -- automatic or by a moderator -- is written to
+-- moderation_actions.
+--
+-- Hidden catches and comments, and everything from banned anglers, drop out
+-- of v_catch_feed and catch_comments for everyone except the author. Banned
+-- anglers can't comment, like, follow or report.
+--
+-- Reason codes match REPORT_REASON_OPTIONS in src/constants/moderation.ts.
+
+-- ============================================
+-- Settings
+-- ============================================
+
+-- Single-row settings table; the row is created below
+CREATE TABLE IF NOT EXISTS moderation_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  auto_hide_threshold INTEGER NOT NULL DEFAULT 3 CHECK (auto_hide_threshold >= 1)
+);
+
+INSERT INTO moderation_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE moderation_settings ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- Moderation state
+-- ============================================
+
+-- hidden_by is 'auto' for threshold hides, otherwise the moderator's name
+ALTER TABLE harvest_reports
+  ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS hidden_by TEXT;
+
+ALTER TABLE catch_comments
+  ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS hidden_by TEXT;
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS banned_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS banned_reason TEXT;
+
+-- True when the caller's rewards user is banned
+CREATE OR REPLACE FUNCTION is_banned_caller()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users WHERE auth_id = auth.uid() AND banned_at IS NOT NULL
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_banned_caller() TO anon, authenticated;
+
+-- ============================================
+-- Reports
+-- ============================================
+
+-- Existing comment reports keep their free-text reason; new ones carry a
+-- code too. resolved_at/resolution are set when a moderator acts.
+ALTER TABLE comment_reports
+  ADD COLUMN IF NOT EXISTS reason_code TEXT NOT NULL DEFAULT 'other'
+    CHECK (reason_code IN ('spam', 'harassment', 'inappropriate', 'illegal_harvest', 'other')),
+  ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS resolution TEXT
+    CHECK (resolution IN ('hidden', 'restored'));
+
+CREATE TABLE IF NOT EXISTS catch_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id UUID NOT NULL REFERENCES harvest_reports(id) ON DELETE CASCADE,
+  reporter_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  reason_code TEXT NOT NULL
+    CHECK (reason_code IN ('spam', 'harassment', 'inappropriate', 'illegal_harvest', 'other')),
+  details TEXT CHECK (char_length(details) <= 500),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  resolved_at TIMESTAMPTZ,
+  resolution TEXT CHECK (resolution IN ('hidden', 'restored')),
+  UNIQUE (report_id, reporter_id)
+);
+
+CREATE INDEX IF NOT EXISTS catch_reports_open_idx
+  ON catch_reports (report_id)
+  WHERE resolved_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS comment_reports_open_idx
+  ON comment_reports (comment_id)
+  WHERE resolved_at IS NULL;
+
+ALTER TABLE catch_reports ENABLE ROW LEVEL SECURITY;
+
+-- Report catches you can see, as yourself, but not your own
+DROP POLICY IF EXISTS catch_reports_insert ON catch_reports;
+CREATE POLICY catch_reports_insert ON catch_reports
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM users me WHERE me.auth_id = auth.uid() AND me.id = reporter_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM harvest_reports r WHERE r.id = report_id AND r.user_id = reporter_id
+    )
+    AND can_view_report(report_id)
+  );
+
+-- ============================================
+-- Audit trail
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS moderation_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  target_type TEXT NOT NULL CHECK (target_type IN ('catch', 'comment', 'user')),
+  target_id UUID NOT NULL,
+  action TEXT NOT NULL
+    CHECK (action IN ('auto_hide', 'hide', 'restore', 'ban', 'unban')),
+  moderator TEXT NOT NULL,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS moderation_actions_target_idx
+  ON moderation_actions (target_type, target_id, created_at DESC);
+
+-- No policies: service_role (admin-tool) only
+ALTER TABLE moderation_actions ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- Auto-hide
+-- ============================================
+
+CREATE OR REPLACE FUNCTION auto_hide_reported_catch()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_open INTEGER;
+BEGIN
+  SELECT count(DISTINCT reporter_id) INTO v_open
+  FROM catch_reports
+  WHERE report_id = NEW.report_id AND resolved_at IS NULL;
+
+  IF v_open >= (SELECT auto_hide_threshold FROM moderation_settings) THEN
+    UPDATE harvest_reports
+    SET hidden_at = now(), hidden_by = 'auto'
+    WHERE id = NEW.report_id AND hidden_at IS NULL;
+
+    IF FOUND THEN
+      INSERT INTO moderation_actions (target_type, target_id, action, moderator, note)
+      VALUES ('catch', NEW.report_id, 'auto_hide', 'system', v_open || ' open reports');
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS catch_reports_auto_hide ON catch_reports;
+CREATE TRIGGER catch_reports_auto_hide
+  AFTER INSERT ON catch_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION auto_hide_reported_catch();
+
+CREATE OR REPLACE FUNCTION auto_hide_reported_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_open INTEGER;
+BEGIN
+  SELECT count(DISTINCT reporter_id) INTO v_open
+  FROM comment_reports
+  WHERE comment_id = NEW.comment_id AND resolved_at IS NULL;
+
+  IF v_open >= (SELECT auto_hide_threshold FROM moderation_settings) THEN
+    UPDATE catch_comments
+    SET hidden_at = now(), hidden_by = 'auto'
+    WHERE id = NEW.comment_id AND hidden_at IS NULL;
+
+    IF FOUND THEN
+      INSERT INTO moderation_actions (target_type, target_id, action, moderator, note)
+      VALUES ('comment', NEW.comment_id, 'auto_hide', 'system', v_open || ' open reports');
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comment_reports_auto_hide ON comment_reports;
+CREATE TRIGGER comment_reports_auto_hide
+  AFTER INSERT ON comment_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION auto_hide_reported_comment();
+
+-- ============================================
+-- Enforcement
+-- ============================================
+
+-- Authors keep seeing their own hidden catches
+CREATE OR REPLACE VIEW v_catch_feed AS
+SELECT
+  s.report_id,
+  s.user_id,
+  s.first_name,
+  s.last_name,
+  s.profile_image_url,
+  s.photo_url,
+  s.photos,
+  s.harvest_date,
+  CASE WHEN p.is_own OR p.precision = 'exact' THEN s.area_code END AS area_code,
+  CASE
+    WHEN p.is_own OR p.precision = 'exact' THEN s.area_label
+    WHEN p.precision = 'region' THEN ar.region_label
+  END AS area_label,
+  CASE WHEN p.is_own OR p.precision <> 'hidden' THEN ar.region_code END AS region_code,
+  CASE
+    WHEN p.is_own THEN s.created_at
+    ELSE s.created_at + make_interval(days => p.delay_days)
+  END AS created_at,
+  s.report_type,
+  s.red_drum_count,
+  s.flounder_count,
+  s.spotted_seatrout_count,
+  s.weakfish_count,
+  s.striped_bass_count,
+  s.total_fish,
+  s.fish_entries_json,
+  s.like_count,
+  s.comment_count,
+  p.audience AS visibility
+FROM v_catch_feed_source s
+JOIN harvest_reports r ON r.id = s.report_id
+JOIN users u ON u.id = s.user_id
+LEFT JOIN area_regions ar ON ar.area_code = s.area_code
+CROSS JOIN LATERAL (
+  SELECT
+    COALESCE(r.location_precision, u.location_precision, 'exact') AS precision,
+    COALESCE(r.publish_delay_days, u.publish_delay_days, 0) AS delay_days,
+    COALESCE(u.auth_id = auth.uid(), false) AS is_own,
+    CASE
+      WHEN r.visibility = 'public' AND u.is_private THEN 'followers'
+      ELSE r.visibility
+    END AS audience,
+    EXISTS (
+      SELECT 1
+      FROM user_follows uf
+      JOIN users viewer ON viewer.id = uf.follower_id
+      WHERE viewer.auth_id = auth.uid()
+        AND uf.following_id = s.user_id
+    ) AS is_follower
+) p
+WHERE p.is_own
+   OR (
+     s.created_at + make_interval(days => p.delay_days) <= now()
+     AND (p.audience = 'public' OR (p.audience = 'followers' AND p.is_follower))
+     AND r.hidden_at IS NULL
+     AND u.banned_at IS NULL
+   );
+
+GRANT SELECT ON v_catch_feed TO anon, authenticated;
+
+-- Hidden comments and comments from banned anglers are visible only to
+-- their author. Restrictive, so it narrows the existing select policies.
+DROP POLICY IF EXISTS catch_comments_not_moderated ON catch_comments;
+CREATE POLICY catch_comments_not_moderated ON catch_comments
+  AS RESTRICTIVE
+  FOR SELECT TO anon, authenticated
+  USING (
+    (
+      hidden_at IS NULL
+      AND NOT EXISTS (SELECT 1 FROM users a WHERE a.id = user_id AND a.banned_at IS NOT NULL)
+    )
+    OR EXISTS (SELECT 1 FROM users me WHERE me.auth_id = auth.uid() AND me.id = user_id)
+  );
+
+-- Banned anglers can't interact
+DROP POLICY IF EXISTS catch_comments_insert_not_banned ON catch_comments;
+CREATE POLICY catch_comments_insert_not_banned ON catch_comments
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (NOT is_banned_caller());
+
+DROP POLICY IF EXISTS catch_likes_insert_not_banned ON catch_likes;
+CREATE POLICY catch_likes_insert_not_banned ON catch_likes
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (NOT is_banned_caller());
+
+DROP POLICY IF EXISTS user_follows_insert_not_banned ON user_follows;
+CREATE POLICY user_follows_insert_not_banned ON user_follows
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (NOT is_banned_caller());
+
+DROP POLICY IF EXISTS follow_requests_insert_not_banned ON follow_requests;
+CREATE POLICY follow_requests_insert_not_banned ON follow_requests
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (NOT is_banned_caller());
+
+DROP POLICY IF EXISTS comment_reports_insert_not_banned ON comment_reports;
+CREATE POLICY comment_reports_insert_not_banned ON comment_reports
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (NOT is_banned_caller());
+
+DROP POLICY IF EXISTS catch_reports_insert_not_banned ON catch_reports;
+CREATE POLICY catch_reports_insert_not_banned ON catch_reports
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (NOT is_banned_caller());
@@ -0,0 +1,259 @@
+-- Migration: In-app notification inbox
+-- Run this in your Supabase SQL Editor (Dashboard > SQL Editor > New Query)
+-- Run after catch_reactions.sql.
+--
+-- One row per event for the angler it concerns (user_id), written by the
+-- triggers below:
+--
+--   follow          someone followed you
+--   follow_request  someone asked to follow your private profile
+--   like            someone reacted to your catch
+--   comment         someone commented on your catch
+--   reply           someone replied to your comment
+--   mention         someone @mentioned you (from comment_mentions)
+--   achievement     an achievement was awarded to you
+--
+-- Nothing is written for your own actions or between blocked anglers.
+-- Anglers read and mark their own notifications read; the app groups them
+-- ("3 people liked your flounder") and caches them for offline use. Types
+-- match NotificationType in src/types/notifications.ts.
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL
+    CHECK (type IN ('follow', 'follow_request', 'like', 'comment', 'reply', 'mention', 'achievement')),
+  actor_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  report_id UUID REFERENCES harvest_reports(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES catch_comments(id) ON DELETE CASCADE,
+  -- Extra display data, e.g. {"achievement_name": "First Catch"}
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  read_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_idx
+  ON notifications (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS notifications_unread_idx
+  ON notifications (user_id)
+  WHERE read_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS notifications_select_own ON notifications;
+CREATE POLICY notifications_select_own ON notifications
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM users me WHERE me.auth_id = auth.uid() AND me.id = user_id
+  ));
+
+DROP POLICY IF EXISTS notifications_mark_read ON notifications;
+CREATE POLICY notifications_mark_read ON notifications
+  FOR UPDATE TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM users me WHERE me.auth_id = auth.uid() AND me.id = user_id
+  ));
+
+-- Only read_at may change
+CREATE OR REPLACE FUNCTION pin_notification_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.user_id := OLD.user_id;
+  NEW.type := OLD.type;
+  NEW.actor_id := OLD.actor_id;
+  NEW.report_id := OLD.report_id;
+  NEW.comment_id := OLD.comment_id;
+  NEW.data := OLD.data;
+  NEW.created_at := OLD.created_at;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notifications_pin_update ON notifications;
+CREATE TRIGGER notifications_pin_update
+  BEFORE UPDATE ON notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION pin_notification_update();
+
+-- ============================================
+-- Writers
+-- ============================================
+
+-- Skips self-notifications and blocked pairs
+CREATE OR REPLACE FUNCTION notify_user(
+  p_user_id UUID,
+  p_type TEXT,
+  p_actor_id UUID,
+  p_report_id UUID DEFAULT NULL,
+  p_comment_id UUID DEFAULT NULL,
+  p_data JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS NULL OR p_user_id = p_actor_id THEN
+    RETURN;
+  END IF;
+  IF p_actor_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM user_blocks
+    WHERE (blocker_id = p_user_id AND blocked_id = p_actor_id)
+       OR (blocker_id = p_actor_id AND blocked_id = p_user_id)
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, actor_id, report_id, comment_id, data)
+  VALUES (p_user_id, p_type, p_actor_id, p_report_id, p_comment_id, p_data);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION notify_user(UUID, TEXT, UUID, UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION notify_on_follow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM notify_user(NEW.following_id, 'follow', NEW.follower_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS user_follows_notify ON user_follows;
+CREATE TRIGGER user_follows_notify
+  AFTER INSERT ON user_follows
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_on_follow();
+
+CREATE OR REPLACE FUNCTION notify_on_follow_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM notify_user(NEW.target_id, 'follow_request', NEW.requester_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS follow_requests_notify ON follow_requests;
+CREATE TRIGGER follow_requests_notify
+  AFTER INSERT ON follow_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_on_follow_request();
+
+-- Changing an existing reaction doesn't notify again
+CREATE OR REPLACE FUNCTION notify_on_like()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM notify_user(
+    (SELECT user_id FROM harvest_reports WHERE id = NEW.catch_id),
+    'like',
+    NEW.user_id,
+    NEW.catch_id,
+    NULL,
+    jsonb_build_object('reaction', NEW.reaction)
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS catch_likes_notify ON catch_likes;
+CREATE TRIGGER catch_likes_notify
+  AFTER INSERT ON catch_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_on_like();
+
+-- A reply notifies the parent comment's author; the catch's owner hears
+-- about every comment unless they're that author (one notification each).
+CREATE OR REPLACE FUNCTION notify_on_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_owner UUID;
+  v_parent_author UUID;
+BEGIN
+  SELECT user_id INTO v_owner FROM harvest_reports WHERE id = NEW.report_id;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT user_id INTO v_parent_author FROM catch_comments WHERE id = NEW.parent_id;
+    PERFORM notify_user(v_parent_author, 'reply', NEW.user_id, NEW.report_id, NEW.id);
+  END IF;
+
+  IF v_parent_author IS DISTINCT FROM v_owner THEN
+    PERFORM notify_user(v_owner, 'comment', NEW.user_id, NEW.report_id, NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS catch_comments_notify ON catch_comments;
+CREATE TRIGGER catch_comments_notify
+  AFTER INSERT ON catch_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_on_comment();
+
+CREATE OR REPLACE FUNCTION notify_on_mention()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_comment catch_comments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_comment FROM catch_comments WHERE id = NEW.comment_id;
+  PERFORM notify_user(NEW.mentioned_user_id, 'mention', v_comment.user_id, v_comment.report_id, v_comment.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comment_mentions_notify ON comment_mentions;
+CREATE TRIGGER comment_mentions_notify
+  AFTER INSERT ON comment_mentions
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_on_mention();
+
+CREATE OR REPLACE FUNCTION notify_on_achievement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM notify_user(
+    NEW.user_id,
+    'achievement',
+    NULL,
+    NULL,
+    NULL,
+    jsonb_build_object(
+      'achievement_name', (SELECT name FROM achievements WHERE id = NEW.achievement_id)
+    )
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS user_achievements_notify ON user_achievements;
+CREATE TRIGGER user_achievements_notify
+  AFTER INSERT ON user_achievements
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_on_achievement();
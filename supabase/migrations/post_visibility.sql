@@ -0,0 +1,300 @@
+-- Migration: Follower-only and private catch posts, private profiles and
+-- follow requests
+-- Run this in your Supabase SQL Editor (Dashboard > SQL Editor > New Query)
+-- Run after feed_location_privacy.sql.
+--
+-- Each catch has an audience (harvest_reports.visibility):
+--   public     everyone
+--   followers  anglers who follow the author
+--   private    only the author
+-- A private profile (users.is_private) turns the author's public catches into
+-- follower-only ones, and follows of a private profile go through
+-- follow_requests until the owner approves them.
+--
+-- v_catch_feed applies the audience, so the Discover feed, get_following_feed,
+-- the angler profile and the catch detail screen all agree. Likes and
+-- comments on a catch are readable (and writable) only by anglers who can see
+-- the catch itself.
+--
+-- The report RPC wrappers from feed_location_privacy.sql copy the new
+-- 'visibility' key onto the inserted report. A missing or unknown audience
+-- fails closed to 'private', as does any other insert that doesn't set one.
+
+-- ============================================
+-- Columns
+-- ============================================
+
+ALTER TABLE harvest_reports
+  ADD COLUMN IF NOT EXISTS visibility TEXT NOT NULL DEFAULT 'public'
+    CHECK (visibility IN ('public', 'followers', 'private'));
+
+-- Existing catches were all public and are backfilled as such; new rows
+-- that don't choose an audience are private.
+ALTER TABLE harvest_reports
+  ALTER COLUMN visibility SET DEFAULT 'private';
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS is_private BOOLEAN NOT NULL DEFAULT false;
+
+-- ============================================
+-- Report RPCs copy the audience
+-- ============================================
+
+-- Same as in feed_location_privacy.sql, plus the audience
+CREATE OR REPLACE FUNCTION apply_report_input_settings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_input JSONB := NULLIF(current_setting('app.report_input', true), '')::JSONB;
+  v_precision TEXT;
+  v_delay TEXT;
+BEGIN
+  IF v_input IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Null keeps the profile default; an unknown precision hides the location
+  v_precision := v_input->>'location_precision';
+  NEW.location_precision := CASE
+    WHEN v_precision IS NULL THEN NULL
+    WHEN v_precision IN ('exact', 'region', 'hidden') THEN v_precision
+    ELSE 'hidden'
+  END;
+
+  v_delay := v_input->>'publish_delay_days';
+  NEW.publish_delay_days := CASE
+    WHEN v_delay ~ '^\d+$' THEN LEAST(v_delay::NUMERIC, 30)::INTEGER
+  END;
+
+  NEW.visibility := CASE
+    WHEN v_input->>'visibility' IN ('public', 'followers', 'private') THEN v_input->>'visibility'
+    ELSE 'private'
+  END;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- Follow requests
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS follow_requests (
+  requester_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  target_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (requester_id, target_id),
+  CHECK (requester_id <> target_id)
+);
+
+CREATE INDEX IF NOT EXISTS follow_requests_target_idx
+  ON follow_requests (target_id, created_at DESC);
+
+ALTER TABLE follow_requests ENABLE ROW LEVEL SECURITY;
+
+-- Both sides of a request can see it
+DROP POLICY IF EXISTS follow_requests_select ON follow_requests;
+CREATE POLICY follow_requests_select ON follow_requests
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM users me
+    WHERE me.auth_id = auth.uid() AND me.id IN (requester_id, target_id)
+  ));
+
+-- Only for private profiles the caller doesn't already follow
+DROP POLICY IF EXISTS follow_requests_insert ON follow_requests;
+CREATE POLICY follow_requests_insert ON follow_requests
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM users me WHERE me.auth_id = auth.uid() AND me.id = requester_id)
+    AND EXISTS (SELECT 1 FROM users t WHERE t.id = target_id AND t.is_private)
+    AND NOT EXISTS (
+      SELECT 1 FROM user_follows uf
+      WHERE uf.follower_id = requester_id AND uf.following_id = target_id
+    )
+  );
+
+-- The requester withdraws; the target answers via respond_follow_request
+DROP POLICY IF EXISTS follow_requests_delete ON follow_requests;
+CREATE POLICY follow_requests_delete ON follow_requests
+  FOR DELETE TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM users me WHERE me.auth_id = auth.uid() AND me.id = requester_id
+  ));
+
+-- Private profiles can't be followed directly. Restrictive, so it narrows
+-- the existing user_follows insert policy rather than replacing it.
+DROP POLICY IF EXISTS user_follows_insert_public_profiles ON user_follows;
+CREATE POLICY user_follows_insert_public_profiles ON user_follows
+  AS RESTRICTIVE
+  FOR INSERT TO authenticated
+  WITH CHECK (NOT EXISTS (
+    SELECT 1 FROM users t WHERE t.id = following_id AND t.is_private
+  ));
+
+-- Approve (follow + remove request) or deny (remove request) a request sent
+-- to the caller.
+CREATE OR REPLACE FUNCTION respond_follow_request(
+  p_requester_id UUID,
+  p_approve BOOLEAN
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_target_id UUID;
+BEGIN
+  SELECT id INTO v_target_id FROM users WHERE auth_id = auth.uid();
+  IF v_target_id IS NULL THEN
+    RAISE EXCEPTION 'unauthorized';
+  END IF;
+
+  DELETE FROM follow_requests
+  WHERE requester_id = p_requester_id AND target_id = v_target_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'follow request not found';
+  END IF;
+
+  IF p_approve THEN
+    INSERT INTO user_follows (follower_id, following_id)
+    VALUES (p_requester_id, v_target_id)
+    ON CONFLICT DO NOTHING;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION respond_follow_request(UUID, BOOLEAN) TO authenticated;
+
+-- Going public approves everything still pending
+CREATE OR REPLACE FUNCTION approve_requests_when_public()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO user_follows (follower_id, following_id)
+  SELECT requester_id, target_id FROM follow_requests WHERE target_id = NEW.id
+  ON CONFLICT DO NOTHING;
+  DELETE FROM follow_requests WHERE target_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS users_approve_requests_when_public ON users;
+CREATE TRIGGER users_approve_requests_when_public
+  AFTER UPDATE OF is_private ON users
+  FOR EACH ROW
+  WHEN (OLD.is_private AND NOT NEW.is_private)
+  EXECUTE FUNCTION approve_requests_when_public();
+
+-- ============================================
+-- Audience in v_catch_feed
+-- ============================================
+
+-- Same columns as before plus the catch's effective audience, appended at the
+-- end so CREATE OR REPLACE VIEW can keep the existing ones.
+CREATE OR REPLACE VIEW v_catch_feed AS
+SELECT
+  s.report_id,
+  s.user_id,
+  s.first_name,
+  s.last_name,
+  s.profile_image_url,
+  s.photo_url,
+  s.photos,
+  s.harvest_date,
+  CASE WHEN p.is_own OR p.precision = 'exact' THEN s.area_code END AS area_code,
+  CASE
+    WHEN p.is_own OR p.precision = 'exact' THEN s.area_label
+    WHEN p.precision = 'region' THEN ar.region_label
+  END AS area_label,
+  CASE WHEN p.is_own OR p.precision <> 'hidden' THEN ar.region_code END AS region_code,
+  CASE
+    WHEN p.is_own THEN s.created_at
+    ELSE s.created_at + make_interval(days => p.delay_days)
+  END AS created_at,
+  s.report_type,
+  s.red_drum_count,
+  s.flounder_count,
+  s.spotted_seatrout_count,
+  s.weakfish_count,
+  s.striped_bass_count,
+  s.total_fish,
+  s.fish_entries_json,
+  s.like_count,
+  s.comment_count,
+  p.audience AS visibility
+FROM v_catch_feed_source s
+JOIN harvest_reports r ON r.id = s.report_id
+JOIN users u ON u.id = s.user_id
+LEFT JOIN area_regions ar ON ar.area_code = s.area_code
+CROSS JOIN LATERAL (
+  SELECT
+    COALESCE(r.location_precision, u.location_precision, 'exact') AS precision,
+    COALESCE(r.publish_delay_days, u.publish_delay_days, 0) AS delay_days,
+    COALESCE(u.auth_id = auth.uid(), false) AS is_own,
+    CASE
+      WHEN r.visibility = 'public' AND u.is_private THEN 'followers'
+      ELSE r.visibility
+    END AS audience,
+    EXISTS (
+      SELECT 1
+      FROM user_follows uf
+      JOIN users viewer ON viewer.id = uf.follower_id
+      WHERE viewer.auth_id = auth.uid()
+        AND uf.following_id = s.user_id
+    ) AS is_follower
+) p
+WHERE p.is_own
+   OR (
+     s.created_at + make_interval(days => p.delay_days) <= now()
+     AND (p.audience = 'public' OR (p.audience = 'followers' AND p.is_follower))
+   );
+
+GRANT SELECT ON v_catch_feed TO anon, authenticated;
+
+-- ============================================
+-- Likes and comments follow the catch
+-- ============================================
+
+CREATE OR REPLACE FUNCTION can_view_report(p_report_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM v_catch_feed WHERE report_id = p_report_id);
+$$;
+
+GRANT EXECUTE ON FUNCTION can_view_report(UUID) TO anon, authenticated;
+
+-- Restrictive, so they narrow the existing per-author policies
+DROP POLICY IF EXISTS catch_comments_visible_report ON catch_comments;
+CREATE POLICY catch_comments_visible_report ON catch_comments
+  AS RESTRICTIVE
+  FOR SELECT TO anon, authenticated
+  USING (can_view_report(report_id));
+
+DROP POLICY IF EXISTS catch_comments_insert_visible_report ON catch_comments;
+CREATE POLICY catch_comments_insert_visible_report ON catch_comments
+  AS RESTRICTIVE
+  FOR INSERT TO authenticated
+  WITH CHECK (can_view_report(report_id));
+
+DROP POLICY IF EXISTS catch_likes_visible_report ON catch_likes;
+CREATE POLICY catch_likes_visible_report ON catch_likes
+  AS RESTRICTIVE
+  FOR SELECT TO anon, authenticated
+  USING (can_view_report(catch_id));
+
+DROP POLICY IF EXISTS catch_likes_insert_visible_report ON catch_likes;
+CREATE POLICY catch_likes_insert_visible_report ON catch_likes
+  AS RESTRICTIVE
+  FOR INSERT TO authenticated
+  WITH CHECK (can_view_report(catch_id));
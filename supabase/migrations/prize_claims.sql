@@ -0,0 +1,267 @@
+-- Migration: Prize claims and past drawing results
+-- Run this in your Supabase SQL Editor (Dashboard > SQL Editor > New Query)
+-- Run after rewards_drawings.sql.
+--
+-- Every drawn winner (including an alternate promoted after a
+-- disqualification) gets a prize_claims row and a 'prize_won' notification.
+-- They have claim_window_days (default 14) to confirm contact and shipping
+-- details and accept the official rules with claim_prize(). Claims go:
+--
+--   pending -> claimed -> fulfilled    (admin-tool: drawing fulfill)
+--   pending -> forfeited               (missed deadline or disqualified;
+--                                       admin-tool: drawing forfeit-expired)
+--
+-- get_past_drawings() lists drawings whose entries have closed, with their
+-- winners by display name only (first name + last initial) and the caller's
+-- own entry, place and claim status.
+
+-- ============================================
+-- Claims
+-- ============================================
+
+ALTER TABLE rewards_drawings
+  ADD COLUMN IF NOT EXISTS claim_window_days INTEGER NOT NULL DEFAULT 14
+    CHECK (claim_window_days >= 1);
+
+CREATE TABLE IF NOT EXISTS prize_claims (
+  drawing_id UUID NOT NULL REFERENCES drawing_results(drawing_id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  place INTEGER NOT NULL,
+  prize_id UUID REFERENCES prizes(id),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'claimed', 'forfeited', 'fulfilled')),
+  deadline TIMESTAMPTZ NOT NULL,
+  -- Filled in by claim_prize
+  full_name TEXT,
+  email TEXT,
+  phone TEXT,
+  address_line1 TEXT,
+  address_line2 TEXT,
+  city TEXT,
+  state TEXT,
+  postal_code TEXT,
+  terms_accepted_at TIMESTAMPTZ,
+  claimed_at TIMESTAMPTZ,
+  forfeited_at TIMESTAMPTZ,
+  fulfilled_at TIMESTAMPTZ,
+  fulfillment_note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (drawing_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS prize_claims_pending_idx
+  ON prize_claims (deadline)
+  WHERE status = 'pending';
+
+ALTER TABLE prize_claims ENABLE ROW LEVEL SECURITY;
+
+-- Winners can read their own claim; writes go through claim_prize
+DROP POLICY IF EXISTS prize_claims_select_own ON prize_claims;
+CREATE POLICY prize_claims_select_own ON prize_claims
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM users me WHERE me.auth_id = auth.uid() AND me.id = user_id
+  ));
+
+-- ============================================
+-- Winner notification
+-- ============================================
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('follow', 'follow_request', 'like', 'comment', 'reply', 'mention',
+                  'achievement', 'prize_won'));
+
+-- Opens a claim and notifies the winner when a drawn entrant becomes a
+-- winner; forfeits the claim when a winner is disqualified.
+CREATE OR REPLACE FUNCTION sync_prize_claim()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_drawing rewards_drawings;
+  v_deadline TIMESTAMPTZ;
+  v_prize_name TEXT;
+BEGIN
+  IF NEW.status = 'winner' AND (TG_OP = 'INSERT' OR OLD.status <> 'winner') THEN
+    SELECT * INTO v_drawing FROM rewards_drawings WHERE id = NEW.drawing_id;
+    SELECT name INTO v_prize_name FROM prizes WHERE id = NEW.prize_id;
+    v_deadline := now() + make_interval(days => v_drawing.claim_window_days);
+
+    INSERT INTO prize_claims (drawing_id, user_id, place, prize_id, deadline)
+    VALUES (NEW.drawing_id, NEW.user_id, NEW.place, NEW.prize_id, v_deadline)
+    ON CONFLICT (drawing_id, user_id) DO NOTHING;
+
+    PERFORM notify_user(NEW.user_id, 'prize_won', NULL, NULL, NULL, jsonb_build_object(
+      'drawing_id', NEW.drawing_id,
+      'drawing_name', v_drawing.name,
+      'place', NEW.place,
+      'prize_name', v_prize_name,
+      'claim_deadline', v_deadline
+    ));
+  ELSIF TG_OP = 'UPDATE' AND NEW.status = 'disqualified' AND OLD.status = 'winner' THEN
+    UPDATE prize_claims
+    SET status = 'forfeited', forfeited_at = now()
+    WHERE drawing_id = NEW.drawing_id
+      AND user_id = NEW.user_id
+      AND status IN ('pending', 'claimed');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS drawing_winners_sync_claim ON drawing_winners;
+CREATE TRIGGER drawing_winners_sync_claim
+  AFTER INSERT OR UPDATE OF status ON drawing_winners
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_prize_claim();
+
+-- ============================================
+-- Claiming
+-- ============================================
+
+-- Details can be corrected until the deadline, as long as the prize hasn't
+-- shipped.
+CREATE OR REPLACE FUNCTION claim_prize(
+  p_drawing_id UUID,
+  p_full_name TEXT,
+  p_email TEXT,
+  p_phone TEXT,
+  p_address_line1 TEXT,
+  p_address_line2 TEXT,
+  p_city TEXT,
+  p_state TEXT,
+  p_postal_code TEXT,
+  p_accept_terms BOOLEAN
+)
+RETURNS prize_claims
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_claim prize_claims;
+BEGIN
+  SELECT id INTO v_user_id FROM users WHERE auth_id = auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to claim your prize';
+  END IF;
+
+  SELECT * INTO v_claim
+  FROM prize_claims
+  WHERE drawing_id = p_drawing_id AND user_id = v_user_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'There is no prize to claim for this drawing';
+  END IF;
+  IF v_claim.status NOT IN ('pending', 'claimed') THEN
+    RAISE EXCEPTION 'This prize is already %', v_claim.status;
+  END IF;
+  IF now() > v_claim.deadline THEN
+    RAISE EXCEPTION 'The claim deadline has passed';
+  END IF;
+  IF NOT COALESCE(p_accept_terms, false) THEN
+    RAISE EXCEPTION 'You must accept the official rules to claim your prize';
+  END IF;
+  IF COALESCE(btrim(p_full_name), '') = '' OR COALESCE(btrim(p_email), '') = ''
+     OR COALESCE(btrim(p_phone), '') = '' OR COALESCE(btrim(p_address_line1), '') = ''
+     OR COALESCE(btrim(p_city), '') = '' OR COALESCE(btrim(p_state), '') = ''
+     OR COALESCE(btrim(p_postal_code), '') = '' THEN
+    RAISE EXCEPTION 'Contact and shipping details are incomplete';
+  END IF;
+
+  UPDATE prize_claims
+  SET status = 'claimed',
+      full_name = btrim(p_full_name),
+      email = btrim(p_email),
+      phone = btrim(p_phone),
+      address_line1 = btrim(p_address_line1),
+      address_line2 = NULLIF(btrim(p_address_line2), ''),
+      city = btrim(p_city),
+      state = btrim(p_state),
+      postal_code = btrim(p_postal_code),
+      terms_accepted_at = now(),
+      claimed_at = COALESCE(claimed_at, now())
+  WHERE drawing_id = p_drawing_id AND user_id = v_user_id
+  RETURNING * INTO v_claim;
+
+  RETURN v_claim;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_prize(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, BOOLEAN)
+  TO authenticated;
+
+-- ============================================
+-- Past drawings
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_past_drawings(p_limit INTEGER DEFAULT 8)
+RETURNS TABLE (
+  drawing_id UUID,
+  name TEXT,
+  quarter INTEGER,
+  year INTEGER,
+  end_date DATE,
+  drawing_date DATE,
+  drawn_at TIMESTAMPTZ,
+  entrant_count INTEGER,
+  seed_hash TEXT,
+  seed TEXT,
+  winners JSONB,
+  viewer_entered BOOLEAN,
+  viewer_entered_at TIMESTAMPTZ,
+  viewer_place INTEGER,
+  viewer_prize_name TEXT,
+  viewer_prize_value TEXT,
+  viewer_claim_status TEXT,
+  viewer_claim_deadline TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_viewer UUID;
+BEGIN
+  SELECT me.id INTO v_viewer FROM users me WHERE me.auth_id = auth.uid();
+
+  RETURN QUERY
+  SELECT d.id, d.name::TEXT, d.quarter::INTEGER, d.year::INTEGER, d.end_date, d.drawing_date,
+         res.drawn_at, res.entrant_count, res.seed_hash, res.seed,
+         COALESCE((
+           SELECT jsonb_agg(jsonb_build_object(
+                    'place', w.place,
+                    'display_name', trim(COALESCE(u.first_name, 'Anonymous') || ' ' ||
+                      COALESCE(left(u.last_name, 1) || '.', '')),
+                    'prize_name', p.name
+                  ) ORDER BY w.place)
+           FROM drawing_winners w
+           JOIN users u ON u.id = w.user_id
+           LEFT JOIN prizes p ON p.id = w.prize_id
+           WHERE w.drawing_id = d.id AND w.status = 'winner'
+         ), '[]'::jsonb),
+         COALESCE(e.is_entered, false),
+         e.entered_at,
+         c.place,
+         cp.name::TEXT,
+         cp.value::TEXT,
+         c.status,
+         c.deadline
+  FROM rewards_drawings d
+  LEFT JOIN drawing_results res ON res.drawing_id = d.id
+  LEFT JOIN user_rewards_entries e ON e.drawing_id = d.id AND e.user_id = v_viewer
+  LEFT JOIN prize_claims c ON c.drawing_id = d.id AND c.user_id = v_viewer
+  LEFT JOIN prizes cp ON cp.id = c.prize_id
+  WHERE d.end_date < current_date
+  ORDER BY d.end_date DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 20);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_past_drawings(INTEGER) TO anon, authenticated;
@@ -0,0 +1,413 @@
+-- Migration: Provably fair rewards drawings
+-- Run this in your Supabase SQL Editor (Dashboard > SQL Editor > New Query)
+-- Run after leaderboards.sql.
+--
+-- Winners are picked by `fish-log-admin drawing` (admin-tool) in four steps,
+-- each recorded in drawing_audit_log:
+--
+--   1. commit      Before the drawing's end_date, the operator picks a secret
+--                  random seed and commits sha256(seed). The hash is public
+--                  (drawing_results is readable by everyone), so the seed
+--                  can't be changed once entries close.
+--   2. freeze      After end_date, every entered, unbanned member whose entry
+--                  was made by the end of end_date (Eastern time) is copied
+--                  to drawing_entrants. Each entrant is published under
+--                  entrant_id = sha256(user_id), and entrants_hash is sha256
+--                  of the entrant ids, one per line, in entrant_id order.
+--                  Freezing also fixes the beacon pulse: the NIST Randomness
+--                  Beacon (v2) pulse for the first whole minute after
+--                  frozen_at (beacon_pulse_at).
+--   3. run         Once that pulse is out, the operator reveals the seed and
+--                  passes the pulse's outputValue as the beacon. Each
+--                  entrant's ticket is
+--                  sha256(seed:beacon:entrants_hash:entrant_id) and entrants
+--                  are drawn in ticket order (hex, ascending). The first
+--                  number_of_winners win, the next p_alternates are
+--                  alternates. Winner n gets the drawing's nth prize by
+--                  sort_order (the order the app shows them in).
+--   4. disqualify  A disqualified winner's place and prize go to the first
+--                  remaining alternate in draw order.
+--
+-- The operator knows the seed from the commit on, so the seed alone would let
+-- them add or pick entrants whose tickets win. The beacon value doesn't exist
+-- until after the entrant list is frozen, and the pulse to use is fixed by
+-- the freeze, so nobody can steer the tickets.
+--
+-- drawing_results (commitment, entrants hash, beacon, revealed seed) and
+-- drawing_entrant_tickets (entrant ids and drawn positions) are readable by
+-- everyone, so anyone can recompute entrants_hash, every ticket and the full
+-- draw order, and check the beacon against NIST
+-- (`fish-log-admin drawing verify` does exactly that). An entrant finds
+-- their own row by hashing their user id.
+--
+-- Everything else here is service_role only.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- ============================================
+-- Tables
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS drawing_results (
+  drawing_id UUID PRIMARY KEY REFERENCES rewards_drawings(id) ON DELETE CASCADE,
+  algorithm TEXT NOT NULL DEFAULT 'sha256-ticket-v1',
+  seed_hash TEXT NOT NULL CHECK (seed_hash ~ '^[0-9a-f]{64}$'),
+  committed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  entrants_hash TEXT,
+  entrant_count INTEGER,
+  frozen_at TIMESTAMPTZ,
+  -- NIST beacon pulse fixed by the freeze, and its outputValue (lowercase)
+  beacon_pulse_at TIMESTAMPTZ,
+  beacon TEXT CHECK (beacon ~ '^[0-9a-f]{128}$'),
+  -- Revealed by the draw
+  seed TEXT,
+  drawn_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS drawing_entrants (
+  drawing_id UUID NOT NULL REFERENCES drawing_results(drawing_id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- sha256(user_id): how the entrant is published
+  entrant_id TEXT NOT NULL,
+  entry_method TEXT,
+  entered_at TIMESTAMPTZ,
+  PRIMARY KEY (drawing_id, user_id)
+);
+
+-- Winners and alternates, one row per drawn entrant. place is the prize
+-- place (1 = first prize) for current and disqualified winners, NULL for
+-- alternates who haven't been promoted.
+CREATE TABLE IF NOT EXISTS drawing_winners (
+  drawing_id UUID NOT NULL REFERENCES drawing_results(drawing_id) ON DELETE CASCADE,
+  draw_position INTEGER NOT NULL CHECK (draw_position >= 1),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  ticket TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('winner', 'alternate', 'disqualified')),
+  place INTEGER,
+  prize_id UUID REFERENCES prizes(id),
+  disqualified_at TIMESTAMPTZ,
+  disqualified_reason TEXT,
+  PRIMARY KEY (drawing_id, draw_position),
+  UNIQUE (drawing_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS drawing_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  drawing_id UUID NOT NULL REFERENCES drawing_results(drawing_id) ON DELETE CASCADE,
+  action TEXT NOT NULL
+    CHECK (action IN ('commit', 'freeze', 'draw', 'disqualify', 'promote')),
+  actor TEXT NOT NULL,
+  user_id UUID,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS drawing_audit_log_drawing_idx
+  ON drawing_audit_log (drawing_id, created_at);
+
+ALTER TABLE drawing_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE drawing_entrants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE drawing_winners ENABLE ROW LEVEL SECURITY;
+ALTER TABLE drawing_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- The commitment, entrant count and revealed seed are published
+DROP POLICY IF EXISTS drawing_results_select ON drawing_results;
+CREATE POLICY drawing_results_select ON drawing_results
+  FOR SELECT TO anon, authenticated
+  USING (true);
+
+-- The frozen entrant list, under entrant ids, with each drawn entrant's
+-- position and ticket. Enough to recompute the draw without user ids.
+CREATE OR REPLACE VIEW drawing_entrant_tickets AS
+SELECT de.drawing_id, de.entrant_id, dw.draw_position, dw.ticket
+FROM drawing_entrants de
+LEFT JOIN drawing_winners dw ON dw.drawing_id = de.drawing_id AND dw.user_id = de.user_id;
+
+GRANT SELECT ON drawing_entrant_tickets TO anon, authenticated;
+
+-- ============================================
+-- Commit
+-- ============================================
+
+CREATE OR REPLACE FUNCTION commit_drawing_seed(
+  p_drawing_id UUID,
+  p_seed_hash TEXT,
+  p_actor TEXT
+)
+RETURNS drawing_results
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_end_date DATE;
+  v_result drawing_results;
+BEGIN
+  SELECT end_date INTO v_end_date FROM rewards_drawings WHERE id = p_drawing_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Drawing % not found', p_drawing_id;
+  END IF;
+  IF current_date > v_end_date THEN
+    RAISE EXCEPTION 'Entries closed on %; the seed must be committed before then', v_end_date;
+  END IF;
+  IF EXISTS (SELECT 1 FROM drawing_results WHERE drawing_id = p_drawing_id) THEN
+    RAISE EXCEPTION 'A seed is already committed for drawing %', p_drawing_id;
+  END IF;
+
+  INSERT INTO drawing_results (drawing_id, seed_hash)
+  VALUES (p_drawing_id, lower(p_seed_hash))
+  RETURNING * INTO v_result;
+
+  INSERT INTO drawing_audit_log (drawing_id, action, actor, details)
+  VALUES (p_drawing_id, 'commit', p_actor, jsonb_build_object('seed_hash', v_result.seed_hash));
+
+  RETURN v_result;
+END;
+$$;
+
+-- ============================================
+-- Freeze
+-- ============================================
+
+CREATE OR REPLACE FUNCTION freeze_drawing_entrants(
+  p_drawing_id UUID,
+  p_actor TEXT
+)
+RETURNS drawing_results
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_end_date DATE;
+  v_closes_at TIMESTAMPTZ;
+  v_result drawing_results;
+BEGIN
+  SELECT end_date INTO v_end_date FROM rewards_drawings WHERE id = p_drawing_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Drawing % not found', p_drawing_id;
+  END IF;
+
+  SELECT * INTO v_result FROM drawing_results WHERE drawing_id = p_drawing_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No seed committed for drawing %', p_drawing_id;
+  END IF;
+  IF v_result.frozen_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Entrants for drawing % were frozen at %', p_drawing_id, v_result.frozen_at;
+  END IF;
+
+  -- Entries close at the end of end_date, NC time
+  v_closes_at := (v_end_date + 1)::timestamp AT TIME ZONE 'America/New_York';
+  IF now() < v_closes_at THEN
+    RAISE EXCEPTION 'Entries for drawing % are open until %', p_drawing_id, v_closes_at;
+  END IF;
+
+  INSERT INTO drawing_entrants (drawing_id, user_id, entrant_id, entry_method, entered_at)
+  SELECT e.drawing_id, e.user_id, encode(digest(e.user_id::TEXT, 'sha256'), 'hex'),
+         e.entry_method, e.entered_at
+  FROM user_rewards_entries e
+  JOIN users u ON u.id = e.user_id
+  WHERE e.drawing_id = p_drawing_id
+    AND e.is_entered
+    AND (e.entered_at IS NULL OR e.entered_at < v_closes_at)
+    AND u.banned_at IS NULL;
+
+  UPDATE drawing_results r
+  SET frozen_at = now(),
+      -- The first pulse the operator can't have seen before freezing
+      beacon_pulse_at = date_trunc('minute', now()) + interval '1 minute',
+      entrant_count = s.n,
+      entrants_hash = s.hash
+  FROM (
+    SELECT count(*)::INTEGER AS n,
+           encode(digest(COALESCE(string_agg(entrant_id, E'\n' ORDER BY entrant_id COLLATE "C"), ''), 'sha256'), 'hex') AS hash
+    FROM drawing_entrants
+    WHERE drawing_id = p_drawing_id
+  ) s
+  WHERE r.drawing_id = p_drawing_id
+  RETURNING r.* INTO v_result;
+
+  INSERT INTO drawing_audit_log (drawing_id, action, actor, details)
+  VALUES (p_drawing_id, 'freeze', p_actor, jsonb_build_object(
+    'entrant_count', v_result.entrant_count,
+    'entrants_hash', v_result.entrants_hash,
+    'beacon_pulse_at', v_result.beacon_pulse_at
+  ));
+
+  RETURN v_result;
+END;
+$$;
+
+-- ============================================
+-- Draw
+-- ============================================
+
+DROP FUNCTION IF EXISTS run_rewards_drawing(UUID, TEXT, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION run_rewards_drawing(
+  p_drawing_id UUID,
+  p_seed TEXT,
+  p_beacon TEXT,
+  p_actor TEXT,
+  p_alternates INTEGER DEFAULT NULL
+)
+RETURNS SETOF drawing_winners
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_result drawing_results;
+  v_beacon TEXT := lower(p_beacon);
+  v_winners INTEGER;
+  v_alternates INTEGER;
+BEGIN
+  SELECT * INTO v_result FROM drawing_results WHERE drawing_id = p_drawing_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No seed committed for drawing %', p_drawing_id;
+  END IF;
+  IF v_result.frozen_at IS NULL THEN
+    RAISE EXCEPTION 'Entrants for drawing % are not frozen yet', p_drawing_id;
+  END IF;
+  IF v_result.drawn_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Drawing % was already drawn at %', p_drawing_id, v_result.drawn_at;
+  END IF;
+  IF encode(digest(p_seed, 'sha256'), 'hex') <> v_result.seed_hash THEN
+    RAISE EXCEPTION 'Seed does not match the committed hash %', v_result.seed_hash;
+  END IF;
+  IF now() < v_result.beacon_pulse_at THEN
+    RAISE EXCEPTION 'The beacon pulse for % is not out yet', v_result.beacon_pulse_at;
+  END IF;
+  IF v_beacon IS NULL OR v_beacon !~ '^[0-9a-f]{128}$' THEN
+    RAISE EXCEPTION 'Beacon must be the 128-digit hex outputValue of the NIST pulse at %', v_result.beacon_pulse_at;
+  END IF;
+
+  SELECT GREATEST(COALESCE(number_of_winners, 1), 1) INTO v_winners
+  FROM rewards_drawings WHERE id = p_drawing_id;
+  v_alternates := GREATEST(COALESCE(p_alternates, v_winners), 0);
+
+  WITH tickets AS (
+    SELECT de.user_id,
+           encode(digest(
+             p_seed || ':' || v_beacon || ':' || v_result.entrants_hash || ':' || de.entrant_id,
+             'sha256'), 'hex') AS ticket
+    FROM drawing_entrants de
+    WHERE de.drawing_id = p_drawing_id
+  ),
+  drawn AS (
+    SELECT t.user_id, t.ticket,
+           ROW_NUMBER() OVER (ORDER BY t.ticket COLLATE "C") AS draw_position
+    FROM tickets t
+  ),
+  -- Same order the app lists prizes in (rewardsService)
+  prize_order AS (
+    SELECT p.id AS prize_id,
+           ROW_NUMBER() OVER (ORDER BY COALESCE(p.sort_order, 0), p.id) AS place
+    FROM drawing_prizes dp
+    JOIN prizes p ON p.id = dp.prize_id
+    WHERE dp.drawing_id = p_drawing_id
+  )
+  INSERT INTO drawing_winners (drawing_id, draw_position, user_id, ticket, status, place, prize_id)
+  SELECT p_drawing_id, d.draw_position, d.user_id, d.ticket,
+         CASE WHEN d.draw_position <= v_winners THEN 'winner' ELSE 'alternate' END,
+         CASE WHEN d.draw_position <= v_winners THEN d.draw_position END,
+         CASE WHEN d.draw_position <= v_winners THEN po.prize_id END
+  FROM drawn d
+  LEFT JOIN prize_order po ON po.place = d.draw_position
+  WHERE d.draw_position <= v_winners + v_alternates;
+
+  UPDATE drawing_results
+  SET seed = p_seed, beacon = v_beacon, drawn_at = now()
+  WHERE drawing_id = p_drawing_id;
+
+  INSERT INTO drawing_audit_log (drawing_id, action, actor, details)
+  VALUES (p_drawing_id, 'draw', p_actor, jsonb_build_object(
+    'seed', p_seed,
+    'beacon', v_beacon,
+    'winners', v_winners,
+    'alternates', v_alternates
+  ));
+
+  RETURN QUERY
+    SELECT * FROM drawing_winners WHERE drawing_id = p_drawing_id ORDER BY draw_position;
+END;
+$$;
+
+-- ============================================
+-- Disqualify
+-- ============================================
+
+-- Returns the promoted alternate's row, or nothing when there was no one to
+-- promote (an alternate was disqualified, or the alternates ran out).
+CREATE OR REPLACE FUNCTION disqualify_drawing_winner(
+  p_drawing_id UUID,
+  p_user_id UUID,
+  p_reason TEXT,
+  p_actor TEXT
+)
+RETURNS SETOF drawing_winners
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_row drawing_winners;
+  v_next drawing_winners;
+BEGIN
+  SELECT * INTO v_row
+  FROM drawing_winners
+  WHERE drawing_id = p_drawing_id AND user_id = p_user_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % was not drawn in drawing %', p_user_id, p_drawing_id;
+  END IF;
+  IF v_row.status = 'disqualified' THEN
+    RAISE EXCEPTION 'User % is already disqualified', p_user_id;
+  END IF;
+
+  UPDATE drawing_winners
+  SET status = 'disqualified', disqualified_at = now(), disqualified_reason = p_reason
+  WHERE drawing_id = p_drawing_id AND user_id = p_user_id;
+
+  INSERT INTO drawing_audit_log (drawing_id, action, actor, user_id, details)
+  VALUES (p_drawing_id, 'disqualify', p_actor, p_user_id, jsonb_build_object(
+    'reason', p_reason,
+    'was', v_row.status,
+    'place', v_row.place
+  ));
+
+  IF v_row.status <> 'winner' THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_next
+  FROM drawing_winners
+  WHERE drawing_id = p_drawing_id AND status = 'alternate'
+  ORDER BY draw_position
+  LIMIT 1
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE drawing_winners
+  SET status = 'winner', place = v_row.place, prize_id = v_row.prize_id
+  WHERE drawing_id = p_drawing_id AND draw_position = v_next.draw_position
+  RETURNING * INTO v_next;
+
+  INSERT INTO drawing_audit_log (drawing_id, action, actor, user_id, details)
+  VALUES (p_drawing_id, 'promote', p_actor, v_next.user_id, jsonb_build_object(
+    'place', v_next.place,
+    'draw_position', v_next.draw_position,
+    'replaces', p_user_id
+  ));
+
+  RETURN NEXT v_next;
+END;
+$$;
+
+-- Drawing functions are for the admin tool only
+REVOKE EXECUTE ON FUNCTION commit_drawing_seed(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION freeze_drawing_entrants(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION run_rewards_drawing(UUID, TEXT, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION disqualify_drawing_winner(UUID, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION commit_drawing_seed(UUID, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION freeze_drawing_entrants(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION run_rewards_drawing(UUID, TEXT, TEXT, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION disqualify_drawing_winner(UUID, UUID, TEXT, TEXT) TO service_role;
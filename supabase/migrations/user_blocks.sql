@@ -0,0 +1,241 @@
+-- Migration: Server-enforced blocking
+-- Run this in your Supabase SQL Editor (Dashboard > SQL Editor > New Query)
+-- Run after moderation.sql.
+--
+-- A block hides both anglers from each other everywhere, whichever side
+-- created it:
+--
+--   v_catch_feed         drops the other angler's catches (so the Discover
+--                        feed, get_following_feed, angler profiles and
+--                        catch detail all follow)
+--   catch_comments       drops the other angler's comments
+--   user_follows,        blocking removes follows and pending follow
+--   follow_requests      requests in both directions, and neither side can
+--                        follow or request again while blocked
+--   catch_comments,      neither side can comment on or like the other's
+--   catch_likes          catches
+--
+-- get_leaderboard isn't block-aware; get_blocked_user_ids() returns the
+-- caller's block set in both directions so the app can filter Top Anglers.
+-- user_blocks rows stay private to the blocker.
+
+-- ============================================
+-- Blocks
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS user_blocks (
+  blocker_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  blocked_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS user_blocks_blocked_idx
+  ON user_blocks (blocked_id);
+
+ALTER TABLE user_blocks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS user_blocks_select_own ON user_blocks;
+CREATE POLICY user_blocks_select_own ON user_blocks
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM users me WHERE me.auth_id = auth.uid() AND me.id = blocker_id
+  ));
+
+DROP POLICY IF EXISTS user_blocks_insert_own ON user_blocks;
+CREATE POLICY user_blocks_insert_own ON user_blocks
+  FOR INSERT TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM users me WHERE me.auth_id = auth.uid() AND me.id = blocker_id
+  ));
+
+DROP POLICY IF EXISTS user_blocks_delete_own ON user_blocks;
+CREATE POLICY user_blocks_delete_own ON user_blocks
+  FOR DELETE TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM users me WHERE me.auth_id = auth.uid() AND me.id = blocker_id
+  ));
+
+-- True when the caller has blocked p_user_id or been blocked by them.
+-- SECURITY DEFINER so the blocked side's check can see the blocker's row.
+CREATE OR REPLACE FUNCTION is_blocked_with_caller(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_blocks b
+    JOIN users me ON me.auth_id = auth.uid()
+    WHERE (b.blocker_id = me.id AND b.blocked_id = p_user_id)
+       OR (b.blocker_id = p_user_id AND b.blocked_id = me.id)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_blocked_with_caller(UUID) TO anon, authenticated;
+
+-- Everyone the caller has blocked or been blocked by
+CREATE OR REPLACE FUNCTION get_blocked_user_ids()
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.blocked_id
+  FROM user_blocks b
+  JOIN users me ON me.id = b.blocker_id
+  WHERE me.auth_id = auth.uid()
+  UNION
+  SELECT b.blocker_id
+  FROM user_blocks b
+  JOIN users me ON me.id = b.blocked_id
+  WHERE me.auth_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION get_blocked_user_ids() TO authenticated;
+
+-- Blocking ends follows and pending requests in both directions
+CREATE OR REPLACE FUNCTION remove_follows_on_block()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM user_follows
+  WHERE (follower_id = NEW.blocker_id AND following_id = NEW.blocked_id)
+     OR (follower_id = NEW.blocked_id AND following_id = NEW.blocker_id);
+
+  DELETE FROM follow_requests
+  WHERE (requester_id = NEW.blocker_id AND target_id = NEW.blocked_id)
+     OR (requester_id = NEW.blocked_id AND target_id = NEW.blocker_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS user_blocks_remove_follows ON user_blocks;
+CREATE TRIGGER user_blocks_remove_follows
+  AFTER INSERT ON user_blocks
+  FOR EACH ROW
+  EXECUTE FUNCTION remove_follows_on_block();
+
+-- Blocks made before this migration
+DELETE FROM user_follows uf
+USING user_blocks b
+WHERE (uf.follower_id = b.blocker_id AND uf.following_id = b.blocked_id)
+   OR (uf.follower_id = b.blocked_id AND uf.following_id = b.blocker_id);
+
+DELETE FROM follow_requests fr
+USING user_blocks b
+WHERE (fr.requester_id = b.blocker_id AND fr.target_id = b.blocked_id)
+   OR (fr.requester_id = b.blocked_id AND fr.target_id = b.blocker_id);
+
+-- ============================================
+-- Feed
+-- ============================================
+
+-- Same as moderation.sql plus the block filter. Your own catches are never
+-- filtered.
+CREATE OR REPLACE VIEW v_catch_feed AS
+SELECT
+  s.report_id,
+  s.user_id,
+  s.first_name,
+  s.last_name,
+  s.profile_image_url,
+  s.photo_url,
+  s.photos,
+  s.harvest_date,
+  CASE WHEN p.is_own OR p.precision = 'exact' THEN s.area_code END AS area_code,
+  CASE
+    WHEN p.is_own OR p.precision = 'exact' THEN s.area_label
+    WHEN p.precision = 'region' THEN ar.region_label
+  END AS area_label,
+  CASE WHEN p.is_own OR p.precision <> 'hidden' THEN ar.region_code END AS region_code,
+  CASE
+    WHEN p.is_own THEN s.created_at
+    ELSE s.created_at + make_interval(days => p.delay_days)
+  END AS created_at,
+  s.report_type,
+  s.red_drum_count,
+  s.flounder_count,
+  s.spotted_seatrout_count,
+  s.weakfish_count,
+  s.striped_bass_count,
+  s.total_fish,
+  s.fish_entries_json,
+  s.like_count,
+  s.comment_count,
+  p.audience AS visibility
+FROM v_catch_feed_source s
+JOIN harvest_reports r ON r.id = s.report_id
+JOIN users u ON u.id = s.user_id
+LEFT JOIN area_regions ar ON ar.area_code = s.area_code
+CROSS JOIN LATERAL (
+  SELECT
+    COALESCE(r.location_precision, u.location_precision, 'exact') AS precision,
+    COALESCE(r.publish_delay_days, u.publish_delay_days, 0) AS delay_days,
+    COALESCE(u.auth_id = auth.uid(), false) AS is_own,
+    CASE
+      WHEN r.visibility = 'public' AND u.is_private THEN 'followers'
+      ELSE r.visibility
+    END AS audience,
+    EXISTS (
+      SELECT 1
+      FROM user_follows uf
+      JOIN users viewer ON viewer.id = uf.follower_id
+      WHERE viewer.auth_id = auth.uid()
+        AND uf.following_id = s.user_id
+    ) AS is_follower
+) p
+WHERE p.is_own
+   OR (
+     s.created_at + make_interval(days => p.delay_days) <= now()
+     AND (p.audience = 'public' OR (p.audience = 'followers' AND p.is_follower))
+     AND r.hidden_at IS NULL
+     AND u.banned_at IS NULL
+     AND NOT is_blocked_with_caller(s.user_id)
+   );
+
+GRANT SELECT ON v_catch_feed TO anon, authenticated;
+
+-- ============================================
+-- Comments, likes and follows
+-- ============================================
+
+-- Restrictive, so it narrows the existing select policies
+DROP POLICY IF EXISTS catch_comments_not_blocked ON catch_comments;
+CREATE POLICY catch_comments_not_blocked ON catch_comments
+  AS RESTRICTIVE
+  FOR SELECT TO anon, authenticated
+  USING (NOT is_blocked_with_caller(user_id));
+
+DROP POLICY IF EXISTS catch_comments_insert_not_blocked ON catch_comments;
+CREATE POLICY catch_comments_insert_not_blocked ON catch_comments
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (NOT EXISTS (
+    SELECT 1 FROM harvest_reports r
+    WHERE r.id = report_id AND is_blocked_with_caller(r.user_id)
+  ));
+
+DROP POLICY IF EXISTS catch_likes_insert_not_blocked ON catch_likes;
+CREATE POLICY catch_likes_insert_not_blocked ON catch_likes
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (NOT EXISTS (
+    SELECT 1 FROM harvest_reports r
+    WHERE r.id = catch_id AND is_blocked_with_caller(r.user_id)
+  ));
+
+DROP POLICY IF EXISTS user_follows_insert_not_blocked ON user_follows;
+CREATE POLICY user_follows_insert_not_blocked ON user_follows
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (NOT is_blocked_with_caller(following_id));
+
+DROP POLICY IF EXISTS follow_requests_insert_not_blocked ON follow_requests;
+CREATE POLICY follow_requests_insert_not_blocked ON follow_requests
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (NOT is_blocked_with_caller(target_id));
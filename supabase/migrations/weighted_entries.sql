@@ -0,0 +1,441 @@
+-- Migration: Weighted rewards entries
+-- Run this in your Supabase SQL Editor (Dashboard > SQL Editor > New Query)
+-- Run after prize_claims.sql.
+--
+-- Entrants earn extra entries through reporting activity, per drawing:
+--
+--   base_entries         for entering at all
+--   per_on_time_report   per DMF harvest report submitted to DMF within
+--                        on_time_days of the harvest date
+--   per_photo_catch      per report with a photo (not hidden by moderation)
+--   per_streak_week      per week after the first in the longest run of
+--                        consecutive weeks with a report
+--
+-- capped at max_entries. Only reports for harvests within the drawing period,
+-- created before entries close, count. Everything is computed here from
+-- harvest_reports (calculate_drawing_entries), never from the client.
+--
+-- Free alternative-method entries (the drawing's alternativeEntryUrl form or
+-- mail-in) are recorded by `fish-log-admin drawing free-entry` in
+-- drawing_free_entries. Each one is worth the same as the base entry and
+-- counts toward the same cap.
+--
+-- Drawings without a drawing_entry_rules row keep one entry per entrant.
+--
+-- Drawings committed from now on use the 'sha256-weighted-v2' algorithm:
+-- entrants_hash covers "entrant_id:entries" lines, and an entrant with n
+-- entries holds n tickets, sha256(seed:beacon:entrants_hash:entrant_id:k) for
+-- k = 1..n. Entrants are drawn in order of their lowest ticket, so each entry
+-- is an equal chance. Entry counts are published in drawing_entrant_tickets.
+-- Drawings already committed keep 'sha256-ticket-v1'.
+
+-- ============================================
+-- Rules and free entries
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS drawing_entry_rules (
+  drawing_id UUID PRIMARY KEY REFERENCES rewards_drawings(id) ON DELETE CASCADE,
+  base_entries INTEGER NOT NULL DEFAULT 1 CHECK (base_entries >= 1),
+  per_on_time_report INTEGER NOT NULL DEFAULT 1 CHECK (per_on_time_report >= 0),
+  per_photo_catch INTEGER NOT NULL DEFAULT 1 CHECK (per_photo_catch >= 0),
+  per_streak_week INTEGER NOT NULL DEFAULT 1 CHECK (per_streak_week >= 0),
+  on_time_days INTEGER NOT NULL DEFAULT 1 CHECK (on_time_days >= 0),
+  max_entries INTEGER NOT NULL DEFAULT 10,
+  CHECK (max_entries >= base_entries)
+);
+
+CREATE TABLE IF NOT EXISTS drawing_free_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  drawing_id UUID NOT NULL REFERENCES rewards_drawings(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('web', 'email')),
+  received_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  recorded_by TEXT NOT NULL,
+  note TEXT
+);
+
+CREATE INDEX IF NOT EXISTS drawing_free_entries_user_idx
+  ON drawing_free_entries (drawing_id, user_id);
+
+ALTER TABLE drawing_entry_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE drawing_free_entries ENABLE ROW LEVEL SECURITY;
+
+-- The rules are part of the official rules
+DROP POLICY IF EXISTS drawing_entry_rules_select ON drawing_entry_rules;
+CREATE POLICY drawing_entry_rules_select ON drawing_entry_rules
+  FOR SELECT TO anon, authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS drawing_free_entries_select_own ON drawing_free_entries;
+CREATE POLICY drawing_free_entries_select_own ON drawing_free_entries
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM users me WHERE me.auth_id = auth.uid() AND me.id = user_id
+  ));
+
+-- Frozen entry counts, kept with the breakdown they came from
+ALTER TABLE drawing_entrants
+  ADD COLUMN IF NOT EXISTS entries INTEGER NOT NULL DEFAULT 1 CHECK (entries >= 1),
+  ADD COLUMN IF NOT EXISTS entry_breakdown JSONB;
+
+ALTER TABLE drawing_results
+  ALTER COLUMN algorithm SET DEFAULT 'sha256-weighted-v2';
+
+-- Publish entry counts with the entrant list
+CREATE OR REPLACE VIEW drawing_entrant_tickets AS
+SELECT de.drawing_id, de.entrant_id, dw.draw_position, dw.ticket, de.entries
+FROM drawing_entrants de
+LEFT JOIN drawing_winners dw ON dw.drawing_id = de.drawing_id AND dw.user_id = de.user_id;
+
+-- ============================================
+-- Entry calculation
+-- ============================================
+
+CREATE OR REPLACE FUNCTION calculate_drawing_entries(p_drawing_id UUID, p_user_id UUID)
+RETURNS TABLE (
+  is_entered BOOLEAN,
+  base_entries INTEGER,
+  on_time_reports INTEGER,
+  on_time_entries INTEGER,
+  photo_catches INTEGER,
+  photo_entries INTEGER,
+  streak_weeks INTEGER,
+  streak_entries INTEGER,
+  free_entry_requests INTEGER,
+  free_entries INTEGER,
+  per_on_time_report INTEGER,
+  per_photo_catch INTEGER,
+  per_streak_week INTEGER,
+  max_entries INTEGER,
+  total_entries INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_drawing rewards_drawings;
+  v_rules drawing_entry_rules;
+  v_closes_at TIMESTAMPTZ;
+  v_entered BOOLEAN;
+  v_on_time INTEGER;
+  v_photos INTEGER;
+  v_streak INTEGER;
+  v_free INTEGER;
+  v_base INTEGER;
+BEGIN
+  SELECT * INTO v_drawing FROM rewards_drawings WHERE id = p_drawing_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_rules FROM drawing_entry_rules WHERE drawing_id = p_drawing_id;
+  IF NOT FOUND THEN
+    v_rules := ROW(p_drawing_id, 1, 0, 0, 0, 1, 1)::drawing_entry_rules;
+  END IF;
+
+  -- Same close as freeze_drawing_entrants: end of end_date, NC time
+  v_closes_at := (v_drawing.end_date + 1)::timestamp AT TIME ZONE 'America/New_York';
+
+  SELECT COALESCE(bool_or(e.is_entered), false) INTO v_entered
+  FROM user_rewards_entries e
+  WHERE e.drawing_id = p_drawing_id AND e.user_id = p_user_id
+    AND (e.entered_at IS NULL OR e.entered_at < v_closes_at);
+
+  SELECT count(*)::INTEGER INTO v_free
+  FROM drawing_free_entries f
+  WHERE f.drawing_id = p_drawing_id AND f.user_id = p_user_id
+    AND f.received_at < v_closes_at;
+
+  v_entered := v_entered OR v_free > 0;
+
+  SELECT
+    count(*) FILTER (
+      WHERE COALESCE(r.report_type, 'dmf_harvest') = 'dmf_harvest'
+        AND r.dmf_status IN ('submitted', 'confirmed')
+        AND (r.dmf_submitted_at AT TIME ZONE 'America/New_York')::date
+            <= r.harvest_date + v_rules.on_time_days
+    )::INTEGER,
+    count(*) FILTER (WHERE r.photo_url IS NOT NULL)::INTEGER
+  INTO v_on_time, v_photos
+  FROM harvest_reports r
+  WHERE r.user_id = p_user_id
+    AND r.harvest_date BETWEEN v_drawing.start_date AND v_drawing.end_date
+    AND r.created_at < v_closes_at
+    AND r.hidden_at IS NULL;
+
+  -- Longest run of consecutive report weeks (gaps and islands on Mondays)
+  SELECT COALESCE(max(run), 0)::INTEGER INTO v_streak
+  FROM (
+    SELECT count(*) AS run
+    FROM (
+      SELECT wk - (ROW_NUMBER() OVER (ORDER BY wk))::INTEGER * 7 AS grp
+      FROM (
+        SELECT DISTINCT date_trunc('week', r.harvest_date)::date AS wk
+        FROM harvest_reports r
+        WHERE r.user_id = p_user_id
+          AND r.harvest_date BETWEEN v_drawing.start_date AND v_drawing.end_date
+          AND r.created_at < v_closes_at
+          AND r.hidden_at IS NULL
+      ) weeks
+    ) numbered
+    GROUP BY grp
+  ) runs;
+
+  IF NOT v_entered THEN
+    RETURN QUERY SELECT false, 0, v_on_time, 0, v_photos, 0, v_streak, 0, 0, 0,
+      v_rules.per_on_time_report, v_rules.per_photo_catch, v_rules.per_streak_week,
+      v_rules.max_entries, 0;
+    RETURN;
+  END IF;
+
+  v_base := v_rules.base_entries;
+  RETURN QUERY SELECT
+    true,
+    v_base,
+    v_on_time,
+    v_on_time * v_rules.per_on_time_report,
+    v_photos,
+    v_photos * v_rules.per_photo_catch,
+    v_streak,
+    GREATEST(v_streak - 1, 0) * v_rules.per_streak_week,
+    v_free,
+    v_free * v_base,
+    v_rules.per_on_time_report,
+    v_rules.per_photo_catch,
+    v_rules.per_streak_week,
+    v_rules.max_entries,
+    LEAST(
+      v_rules.max_entries,
+      v_base
+        + v_on_time * v_rules.per_on_time_report
+        + v_photos * v_rules.per_photo_catch
+        + GREATEST(v_streak - 1, 0) * v_rules.per_streak_week
+        + v_free * v_base
+    );
+END;
+$$;
+
+-- The signed-in member's entries in a drawing, for the rewards card
+CREATE OR REPLACE FUNCTION get_my_drawing_entries(p_drawing_id UUID)
+RETURNS TABLE (
+  is_entered BOOLEAN,
+  base_entries INTEGER,
+  on_time_reports INTEGER,
+  on_time_entries INTEGER,
+  photo_catches INTEGER,
+  photo_entries INTEGER,
+  streak_weeks INTEGER,
+  streak_entries INTEGER,
+  free_entry_requests INTEGER,
+  free_entries INTEGER,
+  per_on_time_report INTEGER,
+  per_photo_catch INTEGER,
+  per_streak_week INTEGER,
+  max_entries INTEGER,
+  total_entries INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  SELECT id INTO v_user_id FROM users WHERE auth_id = auth.uid();
+  IF v_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT * FROM calculate_drawing_entries(p_drawing_id, v_user_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION calculate_drawing_entries(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION calculate_drawing_entries(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION get_my_drawing_entries(UUID) TO authenticated;
+
+-- ============================================
+-- Freeze (weighted)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION freeze_drawing_entrants(
+  p_drawing_id UUID,
+  p_actor TEXT
+)
+RETURNS drawing_results
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_end_date DATE;
+  v_closes_at TIMESTAMPTZ;
+  v_result drawing_results;
+  v_weighted BOOLEAN;
+BEGIN
+  SELECT end_date INTO v_end_date FROM rewards_drawings WHERE id = p_drawing_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Drawing % not found', p_drawing_id;
+  END IF;
+
+  SELECT * INTO v_result FROM drawing_results WHERE drawing_id = p_drawing_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No seed committed for drawing %', p_drawing_id;
+  END IF;
+  IF v_result.frozen_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Entrants for drawing % were frozen at %', p_drawing_id, v_result.frozen_at;
+  END IF;
+
+  -- Entries close at the end of end_date, NC time
+  v_closes_at := (v_end_date + 1)::timestamp AT TIME ZONE 'America/New_York';
+  IF now() < v_closes_at THEN
+    RAISE EXCEPTION 'Entries for drawing % are open until %', p_drawing_id, v_closes_at;
+  END IF;
+
+  v_weighted := v_result.algorithm = 'sha256-weighted-v2';
+
+  INSERT INTO drawing_entrants (drawing_id, user_id, entrant_id, entry_method, entered_at, entries, entry_breakdown)
+  SELECT e.drawing_id, e.user_id, encode(digest(e.user_id::TEXT, 'sha256'), 'hex'),
+         e.entry_method, e.entered_at,
+         CASE WHEN v_weighted THEN GREATEST(c.total_entries, 1) ELSE 1 END,
+         to_jsonb(c)
+  FROM user_rewards_entries e
+  JOIN users u ON u.id = e.user_id
+  CROSS JOIN LATERAL calculate_drawing_entries(e.drawing_id, e.user_id) c
+  WHERE e.drawing_id = p_drawing_id
+    AND e.is_entered
+    AND (e.entered_at IS NULL OR e.entered_at < v_closes_at)
+    AND u.banned_at IS NULL;
+
+  UPDATE drawing_results r
+  SET frozen_at = now(),
+      -- The first pulse the operator can't have seen before freezing
+      beacon_pulse_at = date_trunc('minute', now()) + interval '1 minute',
+      entrant_count = s.n,
+      entrants_hash = s.hash
+  FROM (
+    SELECT count(*)::INTEGER AS n,
+           encode(digest(COALESCE(string_agg(
+             CASE WHEN v_weighted THEN entrant_id || ':' || entries ELSE entrant_id END,
+             E'\n' ORDER BY entrant_id COLLATE "C"
+           ), ''), 'sha256'), 'hex') AS hash
+    FROM drawing_entrants
+    WHERE drawing_id = p_drawing_id
+  ) s
+  WHERE r.drawing_id = p_drawing_id
+  RETURNING r.* INTO v_result;
+
+  INSERT INTO drawing_audit_log (drawing_id, action, actor, details)
+  VALUES (p_drawing_id, 'freeze', p_actor, jsonb_build_object(
+    'entrant_count', v_result.entrant_count,
+    'entrants_hash', v_result.entrants_hash,
+    'entries', (SELECT sum(entries) FROM drawing_entrants WHERE drawing_id = p_drawing_id),
+    'beacon_pulse_at', v_result.beacon_pulse_at
+  ));
+
+  RETURN v_result;
+END;
+$$;
+
+-- ============================================
+-- Draw (weighted)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION run_rewards_drawing(
+  p_drawing_id UUID,
+  p_seed TEXT,
+  p_beacon TEXT,
+  p_actor TEXT,
+  p_alternates INTEGER DEFAULT NULL
+)
+RETURNS SETOF drawing_winners
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_result drawing_results;
+  v_beacon TEXT := lower(p_beacon);
+  v_winners INTEGER;
+  v_alternates INTEGER;
+BEGIN
+  SELECT * INTO v_result FROM drawing_results WHERE drawing_id = p_drawing_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No seed committed for drawing %', p_drawing_id;
+  END IF;
+  IF v_result.frozen_at IS NULL THEN
+    RAISE EXCEPTION 'Entrants for drawing % are not frozen yet', p_drawing_id;
+  END IF;
+  IF v_result.drawn_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Drawing % was already drawn at %', p_drawing_id, v_result.drawn_at;
+  END IF;
+  IF encode(digest(p_seed, 'sha256'), 'hex') <> v_result.seed_hash THEN
+    RAISE EXCEPTION 'Seed does not match the committed hash %', v_result.seed_hash;
+  END IF;
+  IF now() < v_result.beacon_pulse_at THEN
+    RAISE EXCEPTION 'The beacon pulse for % is not out yet', v_result.beacon_pulse_at;
+  END IF;
+  IF v_beacon IS NULL OR v_beacon !~ '^[0-9a-f]{128}$' THEN
+    RAISE EXCEPTION 'Beacon must be the 128-digit hex outputValue of the NIST pulse at %', v_result.beacon_pulse_at;
+  END IF;
+
+  SELECT GREATEST(COALESCE(number_of_winners, 1), 1) INTO v_winners
+  FROM rewards_drawings WHERE id = p_drawing_id;
+  v_alternates := GREATEST(COALESCE(p_alternates, v_winners), 0);
+
+  WITH tickets AS (
+    SELECT de.user_id,
+           CASE WHEN v_result.algorithm = 'sha256-weighted-v2' THEN (
+             -- An entrant's best ticket out of one per entry
+             SELECT min(encode(digest(
+               p_seed || ':' || v_beacon || ':' || v_result.entrants_hash || ':' || de.entrant_id || ':' || k,
+               'sha256'), 'hex') COLLATE "C")
+             FROM generate_series(1, de.entries) k
+           ) ELSE
+             encode(digest(
+               p_seed || ':' || v_beacon || ':' || v_result.entrants_hash || ':' || de.entrant_id,
+               'sha256'), 'hex')
+           END AS ticket
+    FROM drawing_entrants de
+    WHERE de.drawing_id = p_drawing_id
+  ),
+  drawn AS (
+    SELECT t.user_id, t.ticket,
+           ROW_NUMBER() OVER (ORDER BY t.ticket COLLATE "C") AS draw_position
+    FROM tickets t
+  ),
+  -- Same order the app lists prizes in (rewardsService)
+  prize_order AS (
+    SELECT p.id AS prize_id,
+           ROW_NUMBER() OVER (ORDER BY COALESCE(p.sort_order, 0), p.id) AS place
+    FROM drawing_prizes dp
+    JOIN prizes p ON p.id = dp.prize_id
+    WHERE dp.drawing_id = p_drawing_id
+  )
+  INSERT INTO drawing_winners (drawing_id, draw_position, user_id, ticket, status, place, prize_id)
+  SELECT p_drawing_id, d.draw_position, d.user_id, d.ticket,
+         CASE WHEN d.draw_position <= v_winners THEN 'winner' ELSE 'alternate' END,
+         CASE WHEN d.draw_position <= v_winners THEN d.draw_position END,
+         CASE WHEN d.draw_position <= v_winners THEN po.prize_id END
+  FROM drawn d
+  LEFT JOIN prize_order po ON po.place = d.draw_position
+  WHERE d.draw_position <= v_winners + v_alternates;
+
+  UPDATE drawing_results
+  SET seed = p_seed, beacon = v_beacon, drawn_at = now()
+  WHERE drawing_id = p_drawing_id;
+
+  INSERT INTO drawing_audit_log (drawing_id, action, actor, details)
+  VALUES (p_drawing_id, 'draw', p_actor, jsonb_build_object(
+    'seed', p_seed,
+    'beacon', v_beacon,
+    'algorithm', v_result.algorithm,
+    'winners', v_winners,
+    'alternates', v_alternates
+  ));
+
+  RETURN QUERY
+    SELECT * FROM drawing_winners WHERE drawing_id = p_drawing_id ORDER BY draw_position;
+END;
+$$;
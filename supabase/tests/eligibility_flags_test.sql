@@ -0,0 +1,223 @@
+-- pgTAP tests for score_drawing_eligibility
+--
+-- Tests:
+-- 1. Flag weights add up to the score, heaviest flag first
+-- 2. Shared device and shared phone (ignoring formatting) are flagged
+-- 3. Report bursts are flagged from p_burst_reports reports, not one fewer
+-- 4. GPS fixes are flagged only beyond p_gps_tolerance_km outside NC
+-- 5. Counts are flagged only over p_bag_limit_factor × the bag limit for
+--    everyone the report covers
+-- 6. Only entrants are scored, highest score first
+--
+-- Run with: supabase db test
+-- Requires: pgTAP extension enabled on the test database
+
+BEGIN;
+
+SELECT plan(12);
+
+-- ============================================
+-- Setup
+-- ============================================
+
+-- Fixed bag limit so the count checks don't depend on the species catalog
+-- (rolled back with the test)
+CREATE OR REPLACE FUNCTION report_bag_limit(p_species TEXT, p_harvest_date DATE, p_area_code TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+  SELECT CASE WHEN p_species = 'Red Drum' THEN 2 END;
+$$;
+
+INSERT INTO rewards_drawings (id, name, quarter, year, start_date, end_date, drawing_date, is_active)
+VALUES ('00000000-0000-4000-8000-000000000d01', 'pgTAP Q3 2026', 3, 2026, '2026-07-01', '2026-09-30', '2026-10-05', true);
+
+-- A: shares a device with B and sends a burst  -> 3 + 1
+-- C: shares a phone with D (formatted apart)   -> 3
+-- E: burst of exactly 5                        -> 1
+-- F: 4 reports in 10 minutes                   -> not flagged
+-- G: one fix 100 km outside NC, one 33 km      -> 2
+-- H: 5 red drum against a limit of 2 × 2       -> 2
+-- I: 8 red drum for a family of 2 (limit 8)    -> not flagged
+-- B and D are not entered
+INSERT INTO users (id, device_id, email, first_name, last_name, phone)
+VALUES
+  ('00000000-0000-4000-8000-00000000000a', 'pgtap-device-shared', 'pgtap-a@example.com', 'A', 'Test', NULL),
+  ('00000000-0000-4000-8000-00000000000b', 'pgtap-device-shared', 'pgtap-b@example.com', 'B', 'Test', NULL),
+  ('00000000-0000-4000-8000-00000000000c', 'pgtap-device-c', 'pgtap-c@example.com', 'C', 'Test', '(919) 555-0100'),
+  ('00000000-0000-4000-8000-00000000000d', 'pgtap-device-d', 'pgtap-d@example.com', 'D', 'Test', '+1 919.555.0100'),
+  ('00000000-0000-4000-8000-00000000000e', 'pgtap-device-e', 'pgtap-e@example.com', 'E', 'Test', NULL),
+  ('00000000-0000-4000-8000-00000000000f', 'pgtap-device-f', 'pgtap-f@example.com', 'F', 'Test', NULL),
+  ('00000000-0000-4000-8000-000000000010', 'pgtap-device-g', 'pgtap-g@example.com', 'G', 'Test', NULL),
+  ('00000000-0000-4000-8000-000000000011', 'pgtap-device-h', 'pgtap-h@example.com', 'H', 'Test', NULL),
+  ('00000000-0000-4000-8000-000000000012', 'pgtap-device-i', 'pgtap-i@example.com', 'I', 'Test', NULL);
+
+INSERT INTO user_rewards_entries (user_id, drawing_id, is_entered, entered_at)
+SELECT u.id, '00000000-0000-4000-8000-000000000d01', true, '2026-07-02T12:00:00Z'
+FROM users u
+WHERE u.id IN (
+  '00000000-0000-4000-8000-00000000000a',
+  '00000000-0000-4000-8000-00000000000c',
+  '00000000-0000-4000-8000-00000000000e',
+  '00000000-0000-4000-8000-00000000000f',
+  '00000000-0000-4000-8000-000000000010',
+  '00000000-0000-4000-8000-000000000011',
+  '00000000-0000-4000-8000-000000000012'
+);
+
+INSERT INTO harvest_reports (
+  user_id, harvest_date, area_code, area_label, used_hook_and_line,
+  red_drum_count, flounder_count, spotted_seatrout_count, weakfish_count, striped_bass_count,
+  reporting_for, family_count, has_license, dmf_status,
+  gps_latitude, gps_longitude, created_at
+)
+SELECT r.user_id::UUID, '2026-08-01', '8', 'Core Sound', true,
+       r.red_drum, 0, 1, 0, 0,
+       r.reporting_for, r.family_count, true, 'submitted',
+       r.lat, r.lon, r.created_at::TIMESTAMPTZ
+FROM (VALUES
+  -- A: 5 reports within 10 minutes
+  ('00000000-0000-4000-8000-00000000000a', 0, 'self', NULL, NULL, NULL, '2026-08-01T12:00:00Z'),
+  ('00000000-0000-4000-8000-00000000000a', 0, 'self', NULL, NULL, NULL, '2026-08-01T12:02:00Z'),
+  ('00000000-0000-4000-8000-00000000000a', 0, 'self', NULL, NULL, NULL, '2026-08-01T12:04:00Z'),
+  ('00000000-0000-4000-8000-00000000000a', 0, 'self', NULL, NULL, NULL, '2026-08-01T12:06:00Z'),
+  ('00000000-0000-4000-8000-00000000000a', 0, 'self', NULL, NULL, NULL, '2026-08-01T12:09:00Z'),
+  -- E: 5 reports within 10 minutes
+  ('00000000-0000-4000-8000-00000000000e', 0, 'self', NULL, NULL, NULL, '2026-08-01T12:00:00Z'),
+  ('00000000-0000-4000-8000-00000000000e', 0, 'self', NULL, NULL, NULL, '2026-08-01T12:02:00Z'),
+  ('00000000-0000-4000-8000-00000000000e', 0, 'self', NULL, NULL, NULL, '2026-08-01T12:04:00Z'),
+  ('00000000-0000-4000-8000-00000000000e', 0, 'self', NULL, NULL, NULL, '2026-08-01T12:06:00Z'),
+  ('00000000-0000-4000-8000-00000000000e', 0, 'self', NULL, NULL, NULL, '2026-08-01T12:09:00Z'),
+  -- F: 4 reports within 10 minutes, the 5th just outside
+  ('00000000-0000-4000-8000-00000000000f', 0, 'self', NULL, NULL, NULL, '2026-08-01T12:00:00Z'),
+  ('00000000-0000-4000-8000-00000000000f', 0, 'self', NULL, NULL, NULL, '2026-08-01T12:03:00Z'),
+  ('00000000-0000-4000-8000-00000000000f', 0, 'self', NULL, NULL, NULL, '2026-08-01T12:06:00Z'),
+  ('00000000-0000-4000-8000-00000000000f', 0, 'self', NULL, NULL, NULL, '2026-08-01T12:09:00Z'),
+  ('00000000-0000-4000-8000-00000000000f', 0, 'self', NULL, NULL, NULL, '2026-08-01T12:10:00Z'),
+  -- G: 0.9° (~100 km) and 0.3° (~33 km) south of NC
+  ('00000000-0000-4000-8000-000000000010', 0, 'self', NULL, 32.94, -78.0, '2026-08-01T12:00:00Z'),
+  ('00000000-0000-4000-8000-000000000010', 0, 'self', NULL, 33.54, -78.0, '2026-08-02T12:00:00Z'),
+  -- H: over 2 × the limit for one angler
+  ('00000000-0000-4000-8000-000000000011', 5, 'self', NULL, NULL, NULL, '2026-08-01T12:00:00Z'),
+  -- I: exactly 2 × the limit for a family of 2
+  ('00000000-0000-4000-8000-000000000012', 8, 'family', 2, NULL, NULL, '2026-08-01T12:00:00Z')
+) AS r(user_id, red_drum, reporting_for, family_count, lat, lon, created_at);
+
+CREATE TEMP TABLE pgtap_scores AS
+SELECT s.user_id, s.score, s.flags, s.n
+FROM score_drawing_eligibility('00000000-0000-4000-8000-000000000d01')
+  WITH ORDINALITY AS s(user_id, score, flags, n);
+
+-- ============================================
+-- Test 1: Weights add up, heaviest flag first
+-- ============================================
+
+SELECT is(
+  (SELECT score FROM pgtap_scores WHERE user_id = '00000000-0000-4000-8000-00000000000a'),
+  4,
+  'Shared device (3) and a report burst (1) score 4'
+);
+
+SELECT is(
+  (SELECT array_agg(f->>'code' ORDER BY ord)
+   FROM pgtap_scores, jsonb_array_elements(flags) WITH ORDINALITY AS x(f, ord)
+   WHERE user_id = '00000000-0000-4000-8000-00000000000a'),
+  ARRAY['shared_device', 'report_burst'],
+  'Flags are listed heaviest first'
+);
+
+-- ============================================
+-- Test 2: Shared device and phone
+-- ============================================
+
+SELECT is(
+  (SELECT flags->0->'users' FROM pgtap_scores WHERE user_id = '00000000-0000-4000-8000-00000000000a'),
+  '["00000000-0000-4000-8000-00000000000b"]'::jsonb,
+  'Shared device flag names the other account'
+);
+
+SELECT is(
+  (SELECT score FROM pgtap_scores WHERE user_id = '00000000-0000-4000-8000-00000000000c'),
+  3,
+  'Phone numbers match whatever their formatting'
+);
+
+-- ============================================
+-- Test 3: Burst threshold
+-- ============================================
+
+SELECT is(
+  (SELECT score FROM pgtap_scores WHERE user_id = '00000000-0000-4000-8000-00000000000e'),
+  1,
+  'Exactly p_burst_reports reports within p_burst_minutes is a burst'
+);
+
+SELECT ok(
+  NOT EXISTS (SELECT 1 FROM pgtap_scores WHERE user_id = '00000000-0000-4000-8000-00000000000f'),
+  'One report short of a burst is not flagged'
+);
+
+SELECT ok(
+  EXISTS (
+    SELECT 1
+    FROM score_drawing_eligibility('00000000-0000-4000-8000-000000000d01', p_burst_reports => 4)
+    WHERE user_id = '00000000-0000-4000-8000-00000000000f'
+  ),
+  'p_burst_reports lowers the burst threshold'
+);
+
+-- ============================================
+-- Test 4: GPS tolerance
+-- ============================================
+
+SELECT is(
+  (SELECT flags->0->>'detail' FROM pgtap_scores WHERE user_id = '00000000-0000-4000-8000-000000000010'),
+  '1 report(s) up to 100 km outside NC',
+  'Only the fix beyond p_gps_tolerance_km is flagged'
+);
+
+-- ============================================
+-- Test 5: Bag limit factor
+-- ============================================
+
+SELECT is(
+  (SELECT score FROM pgtap_scores WHERE user_id = '00000000-0000-4000-8000-000000000011'),
+  2,
+  'A count over p_bag_limit_factor × the bag limit is flagged'
+);
+
+SELECT ok(
+  NOT EXISTS (SELECT 1 FROM pgtap_scores WHERE user_id = '00000000-0000-4000-8000-000000000012'),
+  'The limit covers everyone a family report is for'
+);
+
+-- ============================================
+-- Test 6: Entrants only, highest score first
+-- ============================================
+
+SELECT ok(
+  NOT EXISTS (
+    SELECT 1 FROM pgtap_scores
+    WHERE user_id IN ('00000000-0000-4000-8000-00000000000b', '00000000-0000-4000-8000-00000000000d')
+  ),
+  'Accounts that are not entered are not scored'
+);
+
+SELECT is(
+  (SELECT array_agg(user_id::TEXT ORDER BY n) FROM pgtap_scores),
+  ARRAY[
+    '00000000-0000-4000-8000-00000000000a',
+    '00000000-0000-4000-8000-00000000000c',
+    '00000000-0000-4000-8000-000000000010',
+    '00000000-0000-4000-8000-000000000011',
+    '00000000-0000-4000-8000-00000000000e'
+  ],
+  'Entrants are ordered by score, then user id'
+);
+
+-- ============================================
+-- Cleanup
+-- ============================================
+
+SELECT * FROM finish();
+ROLLBACK;
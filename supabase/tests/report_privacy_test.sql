@@ -0,0 +1,256 @@
+-- pgTAP tests for the per-report privacy settings saved by the report RPCs
+--
+-- Tests:
+-- 1. create_report_atomic stores location_precision and publish_delay_days
+-- 2. An unknown precision hides the location
+-- 3. Reports without the keys fall back to the profile defaults
+-- 4. The audience is stored, and a missing or unknown one is private
+-- 5. Private and follower-only catches are hidden from other callers
+--
+-- Run with: supabase db test
+-- Requires: pgTAP extension enabled on the test database
+
+BEGIN;
+
+SELECT plan(16);
+
+-- ============================================
+-- Setup: Author, another angler and a base report input
+-- ============================================
+
+INSERT INTO auth.users (id, email, raw_user_meta_data, created_at, updated_at, instance_id, aud, role)
+VALUES
+  (
+    '00000000-0000-0000-0000-00000000a001'::uuid,
+    'test-privacy-author@example.com',
+    '{"firstName": "Test", "lastName": "Author"}'::jsonb,
+    now(),
+    now(),
+    '00000000-0000-0000-0000-000000000000'::uuid,
+    'authenticated',
+    'authenticated'
+  ),
+  (
+    '00000000-0000-0000-0000-00000000a002'::uuid,
+    'test-privacy-viewer@example.com',
+    '{"firstName": "Test", "lastName": "Viewer"}'::jsonb,
+    now(),
+    now(),
+    '00000000-0000-0000-0000-000000000000'::uuid,
+    'authenticated',
+    'authenticated'
+  )
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO users (id, auth_id, email, first_name, last_name)
+VALUES
+  (
+    '00000000-0000-0000-0000-00000000a001',
+    '00000000-0000-0000-0000-00000000a001',
+    'test-privacy-author@example.com',
+    'Test',
+    'Author'
+  ),
+  (
+    '00000000-0000-0000-0000-00000000a002',
+    '00000000-0000-0000-0000-00000000a002',
+    'test-privacy-viewer@example.com',
+    'Test',
+    'Viewer'
+  )
+ON CONFLICT DO NOTHING;
+
+-- Report ids by area, recorded as the author for the checks as others
+CREATE TEMP TABLE pgtap_reports (area_code TEXT PRIMARY KEY, report_id UUID NOT NULL);
+GRANT SELECT, INSERT ON pgtap_reports TO authenticated, anon;
+
+CREATE TEMP TABLE pgtap_report_input AS
+SELECT jsonb_build_object(
+  'user_id', '00000000-0000-0000-0000-00000000a001',
+  'anonymous_user_id', NULL,
+  'dmf_status', 'pending',
+  'has_license', true,
+  'first_name', 'Test',
+  'last_name', 'Author',
+  'want_text_confirmation', false,
+  'want_email_confirmation', false,
+  'harvest_date', '2026-01-15',
+  'area_label', 'pgTAP Test Area',
+  'used_hook_and_line', true,
+  'red_drum_count', 1,
+  'flounder_count', 0,
+  'spotted_seatrout_count', 0,
+  'weakfish_count', 0,
+  'striped_bass_count', 0,
+  'reporting_for', 'self',
+  'entered_rewards', false,
+  'fish_entries', '[]'::jsonb
+) AS input;
+
+GRANT SELECT ON pgtap_report_input TO authenticated;
+
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claim.sub = '00000000-0000-0000-0000-00000000a001';
+
+-- ============================================
+-- Test 1: Precision and delay are stored
+-- ============================================
+
+SELECT lives_ok(
+  $$
+    SELECT create_report_atomic(input || jsonb_build_object(
+      'area_code', 'NC-PGTAP-PRIV-1',
+      'location_precision', 'region',
+      'publish_delay_days', 3
+    ))
+    FROM pgtap_report_input
+  $$,
+  'Report with location settings is created'
+);
+
+SELECT is(
+  (SELECT location_precision || '/' || publish_delay_days FROM harvest_reports
+   WHERE area_code = 'NC-PGTAP-PRIV-1'),
+  'region/3',
+  'location_precision and publish_delay_days are copied from the input'
+);
+
+-- ============================================
+-- Test 2: Unknown precision fails closed
+-- ============================================
+
+SELECT lives_ok(
+  $$
+    SELECT create_report_atomic(input || jsonb_build_object(
+      'area_code', 'NC-PGTAP-PRIV-2',
+      'location_precision', 'everywhere'
+    ))
+    FROM pgtap_report_input
+  $$,
+  'Report with an unknown precision is created'
+);
+
+SELECT is(
+  (SELECT location_precision FROM harvest_reports WHERE area_code = 'NC-PGTAP-PRIV-2'),
+  'hidden',
+  'An unknown precision hides the location'
+);
+
+-- ============================================
+-- Test 3: Missing keys use the profile defaults
+-- ============================================
+
+SELECT lives_ok(
+  $$
+    SELECT create_report_atomic(input || jsonb_build_object('area_code', 'NC-PGTAP-PRIV-3'))
+    FROM pgtap_report_input
+  $$,
+  'Report without location settings is created'
+);
+
+SELECT ok(
+  (SELECT location_precision IS NULL AND publish_delay_days IS NULL
+   FROM harvest_reports WHERE area_code = 'NC-PGTAP-PRIV-3'),
+  'Missing settings are left to the profile defaults'
+);
+
+-- ============================================
+-- Test 4: Audience is stored, failing closed
+-- ============================================
+
+SELECT lives_ok(
+  $$
+    SELECT create_report_atomic(input || jsonb_build_object(
+      'area_code', 'NC-PGTAP-PRIV-4',
+      'visibility', 'private'
+    ))
+    FROM pgtap_report_input
+  $$,
+  'Private report is created'
+);
+
+SELECT lives_ok(
+  $$
+    SELECT create_report_atomic(input || jsonb_build_object(
+      'area_code', 'NC-PGTAP-PRIV-5',
+      'visibility', 'followers'
+    ))
+    FROM pgtap_report_input
+  $$,
+  'Follower-only report is created'
+);
+
+SELECT lives_ok(
+  $$
+    SELECT create_report_atomic(input || jsonb_build_object(
+      'area_code', 'NC-PGTAP-PRIV-6',
+      'visibility', 'everyone'
+    ))
+    FROM pgtap_report_input
+  $$,
+  'Report with an unknown audience is created'
+);
+
+SELECT is(
+  (SELECT visibility FROM harvest_reports WHERE area_code = 'NC-PGTAP-PRIV-5'),
+  'followers',
+  'The chosen audience is copied from the input'
+);
+
+SELECT is(
+  (SELECT visibility FROM harvest_reports WHERE area_code = 'NC-PGTAP-PRIV-6'),
+  'private',
+  'An unknown audience is private'
+);
+
+SELECT is(
+  (SELECT visibility FROM harvest_reports WHERE area_code = 'NC-PGTAP-PRIV-3'),
+  'private',
+  'A missing audience is private'
+);
+
+INSERT INTO pgtap_reports (area_code, report_id)
+SELECT area_code, id FROM harvest_reports
+WHERE area_code IN ('NC-PGTAP-PRIV-4', 'NC-PGTAP-PRIV-5');
+
+-- ============================================
+-- Test 5: Hidden from other callers
+-- ============================================
+
+SET LOCAL request.jwt.claim.sub = '00000000-0000-0000-0000-00000000a002';
+
+SELECT is(
+  (SELECT count(*)::int FROM v_catch_feed
+   WHERE report_id = (SELECT report_id FROM pgtap_reports WHERE area_code = 'NC-PGTAP-PRIV-4')),
+  0,
+  'Another angler does not see a private catch'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM v_catch_feed
+   WHERE report_id = (SELECT report_id FROM pgtap_reports WHERE area_code = 'NC-PGTAP-PRIV-5')),
+  0,
+  'An angler who does not follow the author does not see a follower-only catch'
+);
+
+SELECT ok(
+  NOT can_view_report((SELECT report_id FROM pgtap_reports WHERE area_code = 'NC-PGTAP-PRIV-4')),
+  'Another angler cannot comment on or like a private catch'
+);
+
+RESET request.jwt.claim.sub;
+SET LOCAL ROLE anon;
+
+SELECT is(
+  (SELECT count(*)::int FROM v_catch_feed
+   WHERE report_id IN (SELECT report_id FROM pgtap_reports)),
+  0,
+  'Signed-out callers see neither catch'
+);
+
+-- ============================================
+-- Cleanup
+-- ============================================
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,390 @@
+/**
+ * drawing.test.ts - Draw algorithm (entrant hash, tickets, order), verify,
+ * free entries and the eligibility flags report
+ */
+jest.mock('../../../admin-tool/src/client', () => ({
+  supabaseAdmin: { from: jest.fn(), rpc: jest.fn() },
+}));
+
+import { createHash } from 'crypto';
+import chalk from 'chalk';
+import { supabaseAdmin } from '../../../admin-tool/src/client';
+import {
+  Entrant,
+  EligibilityScore,
+  HIGH_RISK_SCORE,
+  entrantIdFor,
+  entrantsHash,
+  drawTicket,
+  drawOrder,
+  flaggedEntrants,
+  listFlaggedEntrants,
+  recordFreeEntry,
+  verifyDrawing,
+} from '../../../admin-tool/src/commands/drawing';
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+// Vectors computed independently (Python hashlib) from the formulas in
+// supabase/migrations/rewards_drawings.sql and weighted_entries.sql
+const USER_IDS = [
+  '00000000-0000-4000-8000-000000000001',
+  '00000000-0000-4000-8000-000000000002',
+  '00000000-0000-4000-8000-000000000003',
+];
+const ENTRANT_IDS = [
+  '11e594f481958c10e3015d0bf0447a22f068a8a647f475df15ce2c7ab4b8f3f1',
+  'e79acd97ac88086665d85a762f43d533a45195b6bac5961a993e6ed362471439',
+  '993224b4fe85990df64db926ca5c034675eb037399e2fcef041c8d7e31e54d3f',
+];
+const SEED = 'a'.repeat(64);
+const BEACON = 'b'.repeat(128);
+const ENTRANTS: Entrant[] = [
+  { entrantId: ENTRANT_IDS[0], entries: 1 },
+  { entrantId: ENTRANT_IDS[1], entries: 3 },
+  { entrantId: ENTRANT_IDS[2], entries: 2 },
+];
+const V1_HASH = '7e6189731278890e4b5f7ced8aa6406f97f1a393b2c62a8849533f521b2ba8ea';
+const V2_HASH = 'cc86ab91884a76b678849d758582e6c3d7cbbeb6fee75e0010a2cb478575416b';
+const V2_TICKETS = [
+  '793a010b9a388e619317296855c050f88c0c0f15254418f9f21a65643f089b60',
+  '183a0a262b400945156ecd77a9290396a5dcfdbe7ace87225f565aa016f8f80b',
+  '29587ab279db08d8e116456e5d36feb5a2e867c4f506c8cdf82b0527ba128fc5',
+];
+
+describe('draw algorithm', () => {
+  it('publishes entrants as sha256 of their lowercase user id', () => {
+    expect(USER_IDS.map(entrantIdFor)).toEqual(ENTRANT_IDS);
+    expect(entrantIdFor(USER_IDS[0].toUpperCase())).toBe(ENTRANT_IDS[0]);
+  });
+
+  describe('entrantsHash', () => {
+    it('hashes entrant ids in order for v1 and "id:entries" lines for v2', () => {
+      expect(entrantsHash(ENTRANTS, 'sha256-ticket-v1')).toBe(V1_HASH);
+      expect(entrantsHash(ENTRANTS, 'sha256-weighted-v2')).toBe(V2_HASH);
+    });
+
+    it('does not depend on the order entrants are listed in', () => {
+      const reversed = [...ENTRANTS].reverse();
+      expect(entrantsHash(reversed, 'sha256-weighted-v2')).toBe(V2_HASH);
+    });
+
+    it('changes when an entry count changes (v2 only)', () => {
+      const bumped = ENTRANTS.map((e, i) => (i === 0 ? { ...e, entries: 2 } : e));
+      expect(entrantsHash(bumped, 'sha256-weighted-v2')).not.toBe(V2_HASH);
+      expect(entrantsHash(bumped, 'sha256-ticket-v1')).toBe(V1_HASH);
+    });
+  });
+
+  describe('drawTicket', () => {
+    it('hashes seed, beacon, entrants hash and entrant id for v1', () => {
+      expect(drawTicket(SEED, BEACON, V1_HASH, ENTRANTS[0], 'sha256-ticket-v1')).toBe(
+        '163b03c6b6742c806ef480bf839350b89d5d047c8bbb8fbb5df65438ad05b491'
+      );
+    });
+
+    it('takes the lowest per-entry ticket for v2', () => {
+      expect(ENTRANTS.map((e) => drawTicket(SEED, BEACON, V2_HASH, e, 'sha256-weighted-v2'))).toEqual(V2_TICKETS);
+      const perEntry = [1, 2, 3].map((k) => sha256(`${SEED}:${BEACON}:${V2_HASH}:${ENTRANT_IDS[1]}:${k}`));
+      expect(V2_TICKETS[1]).toBe(perEntry.sort()[0]);
+    });
+
+    it('accepts the beacon in either case', () => {
+      expect(drawTicket(SEED, BEACON.toUpperCase(), V1_HASH, ENTRANTS[0], 'sha256-ticket-v1')).toBe(
+        drawTicket(SEED, BEACON, V1_HASH, ENTRANTS[0], 'sha256-ticket-v1')
+      );
+    });
+  });
+
+  describe('drawOrder', () => {
+    it('orders entrants by ascending ticket', () => {
+      expect(drawOrder(SEED, BEACON, ENTRANTS, 'sha256-ticket-v1').map((d) => d.entrantId)).toEqual(ENTRANT_IDS);
+      expect(drawOrder(SEED, BEACON, ENTRANTS, 'sha256-weighted-v2')).toEqual([
+        { entrantId: ENTRANT_IDS[1], ticket: V2_TICKETS[1] },
+        { entrantId: ENTRANT_IDS[2], ticket: V2_TICKETS[2] },
+        { entrantId: ENTRANT_IDS[0], ticket: V2_TICKETS[0] },
+      ]);
+    });
+
+    it('depends on the beacon, not just the operator seed', () => {
+      const withBeacon = drawOrder(SEED, BEACON, ENTRANTS, 'sha256-weighted-v2');
+      const otherBeacon = drawOrder(SEED, 'c'.repeat(128), ENTRANTS, 'sha256-weighted-v2');
+      expect(otherBeacon.map((d) => d.ticket)).not.toEqual(withBeacon.map((d) => d.ticket));
+    });
+  });
+});
+
+describe('verifyDrawing', () => {
+  const PULSE_AT = '2026-10-01T04:01:00+00:00';
+
+  const result = {
+    drawing_id: 'drawing-1',
+    algorithm: 'sha256-weighted-v2',
+    seed_hash: sha256(SEED),
+    seed: SEED,
+    beacon: BEACON,
+    beacon_pulse_at: PULSE_AT,
+    frozen_at: '2026-10-01T04:00:12+00:00',
+    entrants_hash: V2_HASH,
+    entrant_count: 3,
+  };
+
+  const published = [
+    { entrant_id: ENTRANT_IDS[0], entries: 1, draw_position: null, ticket: null },
+    { entrant_id: ENTRANT_IDS[1], entries: 3, draw_position: 1, ticket: V2_TICKETS[1] },
+    { entrant_id: ENTRANT_IDS[2], entries: 2, draw_position: 2, ticket: V2_TICKETS[2] },
+  ];
+
+  // Thenable query chain resolving to `value`
+  const chain = (value: unknown) => {
+    const q: any = {};
+    ['select', 'eq'].forEach((m) => {
+      q[m] = jest.fn(() => q);
+    });
+    q.maybeSingle = jest.fn(() => Promise.resolve(value));
+    q.then = (resolve: (v: unknown) => unknown) => Promise.resolve(value).then(resolve);
+    return q;
+  };
+
+  const mockTables = (resultRow: object, rows: object[]) => {
+    (supabaseAdmin.from as jest.Mock).mockImplementation((table: string) =>
+      table === 'drawing_results' ? chain({ data: resultRow, error: null }) : chain({ data: rows, error: null })
+    );
+  };
+
+  const mockNist = (outputValue: string) => {
+    (global as any).fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ pulse: { timeStamp: '2026-10-01T04:01:00.000Z', outputValue } }),
+    });
+  };
+
+  const originalFetch = global.fetch;
+  let log: jest.SpyInstance;
+
+  beforeEach(() => {
+    log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    process.exitCode = undefined;
+  });
+
+  afterEach(() => {
+    process.exitCode = undefined;
+    global.fetch = originalFetch;
+  });
+
+  const output = () => log.mock.calls.map((c) => c.join(' ')).join('\n');
+
+  it('verifies a draw from the published seed, beacon and entrant list', async () => {
+    mockTables(result, published);
+    mockNist(BEACON.toUpperCase());
+
+    await verifyDrawing('drawing-1');
+
+    expect(supabaseAdmin.from).toHaveBeenCalledWith('drawing_entrant_tickets');
+    expect((global as any).fetch).toHaveBeenCalledWith(
+      `https://beacon.nist.gov/beacon/2.0/pulse/time/${new Date(PULSE_AT).getTime()}`
+    );
+    expect(output()).toContain('Draw verified.');
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it('fails when the recorded order does not match the tickets', async () => {
+    mockTables(result, [
+      { ...published[0], draw_position: 1, ticket: V2_TICKETS[0] },
+      { ...published[1], draw_position: 2 },
+      published[2],
+    ]);
+    mockNist(BEACON);
+
+    await verifyDrawing('drawing-1');
+
+    expect(output()).toContain('Verification failed.');
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('fails when the beacon differs from the NIST pulse', async () => {
+    mockTables(result, published);
+    mockNist('c'.repeat(128));
+
+    await verifyDrawing('drawing-1');
+
+    expect(output()).toMatch(/✗.*Beacon matches the NIST pulse/);
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('fails when the beacon pulse was not after the freeze', async () => {
+    mockTables({ ...result, frozen_at: '2026-10-01T04:02:00+00:00' }, published);
+    mockNist(BEACON);
+
+    await verifyDrawing('drawing-1');
+
+    expect(output()).toMatch(/✗.*Beacon pulse comes after the freeze/);
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('still checks the draw when NIST cannot be reached', async () => {
+    mockTables(result, published);
+    (global as any).fetch = jest.fn().mockRejectedValue(new Error('getaddrinfo ENOTFOUND'));
+
+    await verifyDrawing('drawing-1');
+
+    expect(output()).toContain('Beacon not checked');
+    expect(output()).toContain('Draw verified.');
+  });
+});
+
+describe('recordFreeEntry', () => {
+  const insert = jest.fn();
+  const upsert = jest.fn();
+
+  // Thenable query chain resolving to `value`
+  const chain = (value: unknown) => {
+    const q: any = {};
+    ['select', 'eq'].forEach((m) => {
+      q[m] = jest.fn(() => q);
+    });
+    q.maybeSingle = jest.fn(() => Promise.resolve(value));
+    q.insert = insert.mockResolvedValue({ error: null });
+    q.upsert = upsert.mockResolvedValue({ error: null });
+    q.then = (resolve: (v: unknown) => unknown) => Promise.resolve(value).then(resolve);
+    return q;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    insert.mockReset();
+    upsert.mockReset();
+    (supabaseAdmin.from as jest.Mock).mockImplementation(() =>
+      chain({ data: { id: 'drawing-1', name: 'Q3 2026' }, error: null })
+    );
+    (supabaseAdmin.rpc as jest.Mock).mockResolvedValue({
+      data: [{ is_entered: true, total_entries: 1, max_entries: 10 }],
+      error: null,
+    });
+  });
+
+  it('enters a member who opted out earlier', async () => {
+    await recordFreeEntry('drawing-1', 'user-1', {
+      source: 'email',
+      received: '2026-09-01T12:00:00Z',
+      moderator: 'ops',
+    });
+
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({ user_id: 'user-1', source: 'email' }));
+    expect(supabaseAdmin.from).toHaveBeenCalledWith('user_rewards_entries');
+    expect(upsert).toHaveBeenCalledWith(
+      {
+        user_id: 'user-1',
+        drawing_id: 'drawing-1',
+        is_entered: true,
+        entry_method: 'email',
+        entered_at: '2026-09-01T12:00:00.000Z',
+      },
+      { onConflict: 'user_id,drawing_id' }
+    );
+  });
+});
+
+describe('eligibility flags', () => {
+  const sharedDevice = {
+    code: 'shared_device', weight: 3, detail: 'device shared with 1 other account(s)', users: ['user-d'],
+  };
+  const overLimit = {
+    code: 'implausible_count', weight: 2, detail: '1 report(s) over 2× the bag limit (up to 9 fish of one species)',
+  };
+  const burst = { code: 'report_burst', weight: 1, detail: '6 reports within 10 minutes' };
+
+  const scores: EligibilityScore[] = [
+    { user_id: 'user-c', score: 1, flags: [burst] },
+    { user_id: 'user-b', score: 5, flags: [sharedDevice, overLimit] },
+    { user_id: 'user-a', score: 2, flags: [overLimit] },
+    { user_id: 'user-e', score: 2, flags: [overLimit] },
+  ];
+
+  describe('flaggedEntrants', () => {
+    it('lists every flagged entrant by default, highest score first', () => {
+      expect(flaggedEntrants(scores).map((s) => s.user_id)).toEqual(['user-b', 'user-a', 'user-e', 'user-c']);
+    });
+
+    it('keeps entrants scoring exactly the minimum', () => {
+      expect(flaggedEntrants(scores, 2).map((s) => s.user_id)).toEqual(['user-b', 'user-a', 'user-e']);
+      expect(flaggedEntrants(scores, 5).map((s) => s.user_id)).toEqual(['user-b']);
+      expect(flaggedEntrants(scores, 6)).toEqual([]);
+    });
+  });
+
+  describe('listFlaggedEntrants', () => {
+    const originalLevel = chalk.level;
+    let log: jest.SpyInstance;
+
+    // Thenable query chain resolving to `value`
+    const chain = (value: unknown) => {
+      const q: any = {};
+      ['select', 'eq', 'in'].forEach((m) => {
+        q[m] = jest.fn(() => q);
+      });
+      q.maybeSingle = jest.fn(() => Promise.resolve(value));
+      q.then = (resolve: (v: unknown) => unknown) => Promise.resolve(value).then(resolve);
+      return q;
+    };
+
+    beforeEach(() => {
+      chalk.level = 1;
+      log = jest.spyOn(console, 'log').mockImplementation(() => {});
+      (supabaseAdmin.from as jest.Mock).mockImplementation((table: string) =>
+        table === 'rewards_drawings'
+          ? chain({ data: { id: 'drawing-1', name: 'Q3 2026' }, error: null })
+          : chain({
+              data: [
+                { id: 'user-b', first_name: 'Bea', last_name: 'Smith', email: 'bea@example.com' },
+                { id: 'user-a', first_name: 'Al', last_name: null, email: null },
+              ],
+              error: null,
+            })
+      );
+      (supabaseAdmin.rpc as jest.Mock).mockResolvedValue({ data: scores, error: null });
+    });
+
+    afterEach(() => {
+      chalk.level = originalLevel;
+    });
+
+    const lines = () => log.mock.calls.map((c) => c.join(' '));
+    const lineFor = (userId: string) => lines().find((l) => l.includes(userId) && !l.includes('user-d'))!;
+
+    it('scores entrants from score_drawing_eligibility and lists their flags', async () => {
+      await listFlaggedEntrants('drawing-1', {});
+
+      expect(supabaseAdmin.rpc).toHaveBeenCalledWith('score_drawing_eligibility', { p_drawing_id: 'drawing-1' });
+      const output = lines().join('\n');
+      expect(output).toContain('Bea S.');
+      expect(output).toContain('shared_device');
+      expect(output).toContain('user-d');
+      expect(output).toContain('4 flagged.');
+    });
+
+    it(`shows scores of ${HIGH_RISK_SCORE} or more in red and lower scores in yellow`, async () => {
+      await listFlaggedEntrants('drawing-1', {});
+
+      expect(lineFor('user-b')).toContain(chalk.red('  5'));
+      expect(lineFor('user-a')).toContain(chalk.yellow('  2'));
+      expect(lineFor('user-c')).toContain(chalk.yellow('  1'));
+    });
+
+    it('leaves out entrants below --min-score', async () => {
+      await listFlaggedEntrants('drawing-1', { minScore: 3 });
+
+      const output = lines().join('\n');
+      expect(output).toContain('user-b');
+      expect(output).not.toContain('user-a');
+      expect(output).toContain('1 flagged.');
+    });
+
+    it('says so when nobody reaches the minimum', async () => {
+      await listFlaggedEntrants('drawing-1', { minScore: 6 });
+
+      expect(lines().join('\n')).toContain('No entrants scored 6 or more.');
+      expect(supabaseAdmin.from).not.toHaveBeenCalledWith('users');
+    });
+  });
+});
@@ -17,16 +17,24 @@ jest.mock('../../src/services/fishSpeciesService', () => ({
   ),
 }));
 
+jest.mock('../../src/services/regulationService', () => ({
+  fetchRegulationRecords: jest.fn(() =>
+    Promise.resolve([{ id: 'reg-1', speciesId: '1', effectiveDate: '2025-01-01' }])
+  ),
+}));
+
 import {
   useAllFishSpecies,
   useFishSpeciesById,
   useSearchFishSpecies,
+  useRegulationRecords,
 } from '../../src/api/speciesApi';
 import {
   fetchAllFishSpecies,
   fetchFishSpeciesById,
   searchFishSpecies,
 } from '../../src/services/fishSpeciesService';
+import { fetchRegulationRecords } from '../../src/services/regulationService';
 
 function createWrapper() {
   const queryClient = new QueryClient({
@@ -130,3 +138,17 @@ describe('useSearchFishSpecies', () => {
     expect(searchFishSpecies).toHaveBeenCalledWith('red');
   });
 });
+
+describe('useRegulationRecords', () => {
+  it('fetches regulation records on mount', async () => {
+    const wrapper = createWrapper();
+    const { result } = renderHook(() => useRegulationRecords(), { wrapper });
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    expect(result.current.data).toHaveLength(1);
+    expect(fetchRegulationRecords).toHaveBeenCalled();
+  });
+});
@@ -122,6 +122,45 @@ describe('CatchCard', () => {
     expect(onLikePress).toHaveBeenCalledWith(entry);
   });
 
+  describe('reactions', () => {
+    it('opens the picker on long press and passes the chosen reaction', () => {
+      const onReactionSelect = jest.fn();
+      const entry = makeEntry();
+      const { getByLabelText, queryByLabelText } = render(
+        <CatchCard entry={entry} onLikePress={jest.fn()} onReactionSelect={onReactionSelect} />
+      );
+
+      expect(queryByLabelText('Big One')).toBeNull();
+      fireEvent(getByLabelText('Like'), 'longPress');
+      fireEvent.press(getByLabelText('Big One'));
+
+      expect(onReactionSelect).toHaveBeenCalledWith(entry, 'big_one');
+      expect(queryByLabelText('Big One')).toBeNull();
+    });
+
+    it('removes the reaction when the current one is picked again', () => {
+      const onReactionSelect = jest.fn();
+      const entry = makeEntry({ likeCount: 1, isLikedByCurrentUser: true, myReaction: 'jealous', reactionCounts: { jealous: 1 } });
+      const { getByLabelText } = render(
+        <CatchCard entry={entry} onReactionSelect={onReactionSelect} />
+      );
+
+      fireEvent(getByLabelText('Remove reaction'), 'longPress');
+      fireEvent.press(getByLabelText('Jealous'));
+
+      expect(onReactionSelect).toHaveBeenCalledWith(entry, null);
+    });
+
+    it('shows the most used reactions next to the count', () => {
+      const { getByText } = render(
+        <CatchCard entry={makeEntry({ likeCount: 4, reactionCounts: { nice_fish: 1, good_eats: 3 } })} />
+      );
+
+      expect(getByText('🍽️🎣')).toBeTruthy();
+      expect(getByText('4')).toBeTruthy();
+    });
+  });
+
   it('calls onAnglerPress (not onCardPress) when angler overlay is pressed', () => {
     // When both handlers are wired, tapping the avatar/name area should
     // route to onAnglerPress so the angler profile opens, leaving the
@@ -0,0 +1,105 @@
+import React from 'react';
+import { Alert } from 'react-native';
+import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import CommentsSheet from '../../src/components/CommentsSheet';
+import { CatchComment } from '../../src/types/catchFeed';
+
+const makeComment = (overrides: Partial<CatchComment> = {}): CatchComment => ({
+  id: 'c-1',
+  reportId: 'r-1',
+  userId: 'user-2',
+  anglerName: 'Sam R.',
+  text: 'Nice fish',
+  createdAt: new Date().toISOString(),
+  isOwn: false,
+  parentId: null,
+  mentions: [],
+  ...overrides,
+});
+
+const thread = [
+  makeComment(),
+  makeComment({ id: 'c-2', parentId: 'c-1', text: 'Reply one' }),
+  makeComment({ id: 'c-3', parentId: 'c-1', text: 'Reply two' }),
+  makeComment({ id: 'c-4', parentId: 'c-1', text: 'Reply three' }),
+];
+
+describe('CommentsSheet', () => {
+  it('collapses long threads and expands on demand', () => {
+    const { getByText, queryByText } = render(
+      <CommentsSheet visible onClose={jest.fn()} comments={thread} reportId="r-1" />
+    );
+
+    expect(getByText('Reply two')).toBeTruthy();
+    expect(queryByText('Reply three')).toBeNull();
+
+    fireEvent.press(getByText('View 1 more reply'));
+    expect(getByText('Reply three')).toBeTruthy();
+
+    fireEvent.press(getByText('Hide replies'));
+    expect(queryByText('Reply three')).toBeNull();
+  });
+
+  it('replies to a reply in its parent thread with a mention', async () => {
+    const onSubmit = jest.fn();
+    const { getAllByLabelText, getByDisplayValue, getByLabelText } = render(
+      <CommentsSheet
+        visible
+        onClose={jest.fn()}
+        comments={thread.slice(0, 2)}
+        reportId="r-1"
+        onSubmit={onSubmit}
+      />
+    );
+
+    // Second "Reply" belongs to the reply c-2
+    fireEvent.press(getAllByLabelText('Reply to Sam R.')[1]);
+    fireEvent.changeText(getByDisplayValue('@Sam R. '), '@Sam R. tight lines');
+    fireEvent.press(getByLabelText('Send comment'));
+
+    await waitFor(() =>
+      expect(onSubmit).toHaveBeenCalledWith('@Sam R. tight lines', {
+        parentId: 'c-1',
+        mentions: [{ userId: 'user-2', displayName: 'Sam R.' }],
+      })
+    );
+  });
+
+  it('links @mentions to the angler profile', () => {
+    const onAnglerPress = jest.fn();
+    const mention = { userId: 'user-9', displayName: 'Kim L.' };
+    const { getByText } = render(
+      <CommentsSheet
+        visible
+        onClose={jest.fn()}
+        comments={[makeComment({ text: 'Ask @Kim L.', mentions: [mention] })]}
+        reportId="r-1"
+        onAnglerPress={onAnglerPress}
+      />
+    );
+
+    fireEvent.press(getByText('@Kim L.'));
+    expect(onAnglerPress).toHaveBeenCalledWith('user-9');
+  });
+
+  it('reports a comment with a chosen reason', () => {
+    const onReport = jest.fn();
+    const alertSpy = jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+    const { getByText, getByLabelText, queryByText } = render(
+      <CommentsSheet
+        visible
+        onClose={jest.fn()}
+        comments={[makeComment()]}
+        reportId="r-1"
+        onReport={onReport}
+      />
+    );
+
+    fireEvent(getByText('Nice fish'), 'longPress');
+    fireEvent.press(getByLabelText('Harassment'));
+
+    expect(onReport).toHaveBeenCalledWith('c-1', 'harassment');
+    expect(queryByText("Report Sam R.'s comment")).toBeNull();
+    alertSpy.mockRestore();
+  });
+});
@@ -1,5 +1,5 @@
 import React from 'react';
-import { render } from '@testing-library/react-native';
+import { render, fireEvent } from '@testing-library/react-native';
 import TopAnglersSection from '../../src/components/TopAnglersSection';
 import type { TopAngler } from '../../src/types/catchFeed';
 
@@ -79,4 +79,21 @@ describe('TopAnglersSection', () => {
     expect(getByText('Most Species')).toBeTruthy();
     expect(getByText('Longest Catch')).toBeTruthy();
   });
+
+  it('hides "See all" without a handler', () => {
+    const { queryByText } = render(<TopAnglersSection anglers={[makeAngler()]} />);
+
+    expect(queryByText('See all')).toBeNull();
+  });
+
+  it('calls onSeeAllPress from the "See all" link', async () => {
+    const onSeeAllPress = jest.fn();
+    const { getByText } = render(
+      <TopAnglersSection anglers={[makeAngler()]} onSeeAllPress={onSeeAllPress} />
+    );
+
+    await fireEvent.press(getByText('See all'));
+
+    expect(onSeeAllPress).toHaveBeenCalledTimes(1);
+  });
 });
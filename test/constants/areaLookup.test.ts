@@ -0,0 +1,106 @@
+import {
+  findAreasContaining,
+  getAreaForCoordinates,
+  findNearestArea,
+  getDistanceToAreaMiles,
+  isValidGeoPoint,
+  isPointInRing,
+} from '../../src/constants/areaLookup';
+import { AREA_BOUNDARIES } from '../../src/constants/areaBoundaries';
+import { AREA_OPTIONS } from '../../src/constants/areaOptions';
+import {
+  OCEAN_BOUNDARY_POINTS,
+  INSHORE_BOUNDARY_POINTS,
+  LAND_POINTS,
+} from '../fixtures/areaPoints';
+
+describe('areaLookup', () => {
+  it('has a boundary for every area code', () => {
+    const codes = AREA_BOUNDARIES.map(b => b.code).sort();
+    expect(codes).toEqual(AREA_OPTIONS.map(a => a.value).sort());
+  });
+
+  it('isPointInRing handles inside and outside points', () => {
+    const square = [[0, 0], [1, 0], [1, 1], [0, 1]] as const;
+    expect(isPointInRing([0.5, 0.5], square)).toBe(true);
+    expect(isPointInRing([1.5, 0.5], square)).toBe(false);
+  });
+
+  it('isValidGeoPoint rejects missing and out-of-range points', () => {
+    expect(isValidGeoPoint({ latitude: 35.3, longitude: -76 })).toBe(true);
+    expect(isValidGeoPoint(undefined)).toBe(false);
+    expect(isValidGeoPoint({ latitude: NaN, longitude: -76 })).toBe(false);
+    expect(isValidGeoPoint({ latitude: 95, longitude: -76 })).toBe(false);
+  });
+
+  describe('getAreaForCoordinates', () => {
+    it.each(OCEAN_BOUNDARY_POINTS.map(f => [f.description, f] as const))(
+      'ocean: %s',
+      (_, { point, expectedCode }) => {
+        expect(getAreaForCoordinates(point)?.value).toBe(expectedCode);
+      }
+    );
+
+    it.each(INSHORE_BOUNDARY_POINTS.map(f => [f.description, f] as const))(
+      'inshore: %s',
+      (_, { point, expectedCode }) => {
+        expect(getAreaForCoordinates(point)?.value).toBe(expectedCode);
+      }
+    );
+
+    it('returns undefined on land or for invalid points', () => {
+      for (const point of LAND_POINTS) {
+        expect(getAreaForCoordinates(point)).toBeUndefined();
+      }
+      expect(getAreaForCoordinates(null)).toBeUndefined();
+    });
+  });
+
+  describe('findAreasContaining', () => {
+    it('returns every overlapping area, most specific first', () => {
+      const areas = findAreasContaining({ latitude: 35.40, longitude: -76.55 });
+      expect(areas.map(a => a.value)).toEqual(['52', '33']);
+    });
+
+    it('returns an empty array outside every area', () => {
+      expect(findAreasContaining(LAND_POINTS[0])).toEqual([]);
+    });
+  });
+
+  describe('findNearestArea', () => {
+    // On land in Washington, NC, ~2 miles west of the Pamlico River polygon
+    const washington = { latitude: 35.55, longitude: -77.10 };
+
+    it('matches a containing area at distance 0', () => {
+      expect(findNearestArea({ latitude: 35.30, longitude: -76.00 }, 1)).toEqual({
+        area: { value: '34', label: 'Pamlico Sound' },
+        distanceMiles: 0,
+      });
+    });
+
+    it('finds the nearest area within the radius', () => {
+      const match = findNearestArea(washington, 5);
+      expect(match?.area.value).toBe('33');
+      expect(match?.distanceMiles).toBeGreaterThan(1);
+      expect(match?.distanceMiles).toBeLessThan(5);
+    });
+
+    it('returns undefined when nothing is within the radius', () => {
+      expect(findNearestArea(washington, 1)).toBeUndefined();
+      expect(findNearestArea(LAND_POINTS[0], 10)).toBeUndefined();
+    });
+  });
+
+  describe('getDistanceToAreaMiles', () => {
+    it('is 0 inside the area and positive outside', () => {
+      const point = { latitude: 35.30, longitude: -76.00 };
+      expect(getDistanceToAreaMiles(point, '34')).toBe(0);
+      // Pamlico Sound to Bogue Sound is roughly 50 miles
+      expect(getDistanceToAreaMiles(point, '5')).toBeGreaterThan(30);
+    });
+
+    it('returns undefined for an unknown code', () => {
+      expect(getDistanceToAreaMiles({ latitude: 35.3, longitude: -76 }, '999')).toBeUndefined();
+    });
+  });
+});
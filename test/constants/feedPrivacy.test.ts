@@ -0,0 +1,23 @@
+import {
+  LOCATION_PRECISION_OPTIONS,
+  MAX_PUBLISH_DELAY_DAYS,
+  POST_VISIBILITY_OPTIONS,
+  PUBLISH_DELAY_OPTIONS,
+} from '../../src/constants/feedPrivacy';
+
+describe('feedPrivacy', () => {
+  it('offers every location precision once', () => {
+    expect(LOCATION_PRECISION_OPTIONS.map(o => o.value)).toEqual(['exact', 'region', 'hidden']);
+  });
+
+  it('keeps publish delays within the database limit', () => {
+    for (const option of PUBLISH_DELAY_OPTIONS) {
+      expect(option.value).toBeGreaterThanOrEqual(0);
+      expect(option.value).toBeLessThanOrEqual(MAX_PUBLISH_DELAY_DAYS);
+    }
+  });
+
+  it('offers every post audience once, public first', () => {
+    expect(POST_VISIBILITY_OPTIONS.map(o => o.value)).toEqual(['public', 'followers', 'private']);
+  });
+});
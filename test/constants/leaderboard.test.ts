@@ -0,0 +1,51 @@
+import {
+  LEADERBOARD_PERIOD_OPTIONS,
+  getPeriodStartDate,
+  formatLeaderboardValue,
+} from '../../src/constants/leaderboard';
+
+describe('leaderboard constants', () => {
+  // Thursday, May 14 2026
+  const now = new Date(2026, 4, 14, 15, 30);
+
+  it('offers every period', () => {
+    expect(LEADERBOARD_PERIOD_OPTIONS.map((o) => o.value)).toEqual(['week', 'month', 'quarter', 'year', 'all']);
+  });
+
+  describe('getPeriodStartDate', () => {
+    it('starts weeks on Monday', () => {
+      expect(getPeriodStartDate('week', now)).toBe('2026-05-11');
+      // Sunday belongs to the week that started the previous Monday
+      expect(getPeriodStartDate('week', new Date(2026, 4, 17))).toBe('2026-05-11');
+      expect(getPeriodStartDate('week', new Date(2026, 4, 18))).toBe('2026-05-18');
+    });
+
+    it('crosses month and year boundaries for weeks', () => {
+      // Friday, Jan 2 2026
+      expect(getPeriodStartDate('week', new Date(2026, 0, 2))).toBe('2025-12-29');
+    });
+
+    it('uses calendar months, quarters and years', () => {
+      expect(getPeriodStartDate('month', now)).toBe('2026-05-01');
+      expect(getPeriodStartDate('quarter', now)).toBe('2026-04-01');
+      expect(getPeriodStartDate('quarter', new Date(2026, 11, 31))).toBe('2026-10-01');
+      expect(getPeriodStartDate('year', now)).toBe('2026-01-01');
+    });
+
+    it('returns null for all time', () => {
+      expect(getPeriodStartDate('all', now)).toBeNull();
+    });
+  });
+
+  describe('formatLeaderboardValue', () => {
+    it('formats each metric with its unit', () => {
+      expect(formatLeaderboardValue('catches', 12)).toBe('12 fish');
+      expect(formatLeaderboardValue('species', 3)).toBe('3 species');
+      expect(formatLeaderboardValue('length', 31.5)).toBe('31.5 inches');
+    });
+
+    it('uses the singular unit for 1', () => {
+      expect(formatLeaderboardValue('length', 1)).toBe('1 inch');
+    });
+  });
+});
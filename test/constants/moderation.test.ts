@@ -0,0 +1,9 @@
+import { REPORT_REASON_OPTIONS } from '../../src/constants/moderation';
+
+describe('moderation', () => {
+  it('offers each reason code once, ending with the catch-all', () => {
+    const codes = REPORT_REASON_OPTIONS.map(o => o.value);
+    expect(new Set(codes).size).toBe(codes.length);
+    expect(codes[codes.length - 1]).toBe('other');
+  });
+});
@@ -0,0 +1,64 @@
+import { applyReaction, topReactions } from '../../src/constants/reactions';
+import type { CatchFeedEntry } from '../../src/types/catchFeed';
+
+const makeEntry = (overrides: Partial<CatchFeedEntry> = {}): CatchFeedEntry => ({
+  id: 'catch-1',
+  userId: 'user-1',
+  anglerName: 'John D.',
+  species: 'Red Drum',
+  speciesList: [{ species: 'Red Drum', count: 1 }],
+  totalFish: 1,
+  catchDate: '2026-01-15',
+  createdAt: '2026-01-15T12:00:00Z',
+  likeCount: 0,
+  isLikedByCurrentUser: false,
+  ...overrides,
+});
+
+describe('reactions', () => {
+  describe('applyReaction', () => {
+    it('adds a reaction and counts it as a like', () => {
+      const next = applyReaction(makeEntry({ likeCount: 2, reactionCounts: { nice_fish: 2 } }), 'big_one');
+
+      expect(next.likeCount).toBe(3);
+      expect(next.isLikedByCurrentUser).toBe(true);
+      expect(next.myReaction).toBe('big_one');
+      expect(next.reactionCounts).toEqual({ nice_fish: 2, big_one: 1 });
+    });
+
+    it('switches reactions without changing the like count', () => {
+      const entry = makeEntry({
+        likeCount: 2,
+        isLikedByCurrentUser: true,
+        myReaction: 'jealous',
+        reactionCounts: { jealous: 1, nice_fish: 1 },
+      });
+
+      const next = applyReaction(entry, 'nice_fish');
+
+      expect(next.likeCount).toBe(2);
+      expect(next.reactionCounts).toEqual({ nice_fish: 2 });
+    });
+
+    it('treats a like without reaction data as the default reaction', () => {
+      const next = applyReaction(makeEntry({ likeCount: 1, isLikedByCurrentUser: true }), null);
+
+      expect(next.likeCount).toBe(0);
+      expect(next.isLikedByCurrentUser).toBe(false);
+      expect(next.myReaction).toBeNull();
+      expect(next.reactionCounts).toEqual({});
+    });
+  });
+
+  describe('topReactions', () => {
+    it('orders used reactions by count, keeping option order on ties', () => {
+      const top = topReactions({ good_eats: 2, big_one: 2, jealous: 5, nice_fish: 0 });
+
+      expect(top.map((o) => o.value)).toEqual(['jealous', 'big_one', 'good_eats']);
+    });
+
+    it('returns nothing without counts', () => {
+      expect(topReactions(undefined)).toEqual([]);
+    });
+  });
+});
@@ -1,7 +1,10 @@
+import { AREA_OPTIONS } from '../../src/constants/areaOptions';
 import {
   REGION_OPTIONS,
   getRegionByCode,
   getRegionLabel,
+  getRegionAreaCodes,
+  getRegionForArea,
 } from '../../src/constants/regionOptions';
 
 describe('regionOptions', () => {
@@ -31,4 +34,30 @@ describe('regionOptions', () => {
   it('getRegionLabel returns code as fallback for unknown', () => {
     expect(getRegionLabel('XYZ')).toBe('XYZ');
   });
+
+  it('maps every region to known DMF area codes', () => {
+    const areaCodes = AREA_OPTIONS.map(a => a.value);
+    for (const region of REGION_OPTIONS) {
+      expect(region.areaCodes.length).toBeGreaterThan(0);
+      for (const code of region.areaCodes) {
+        expect(areaCodes).toContain(code);
+      }
+    }
+  });
+
+  it('puts every DMF area in at least one region', () => {
+    const covered = new Set(REGION_OPTIONS.flatMap(r => r.areaCodes));
+    expect(AREA_OPTIONS.filter(a => !covered.has(a.value))).toEqual([]);
+  });
+
+  it('getRegionAreaCodes returns the region codes, or none for unknown', () => {
+    expect(getRegionAreaCodes('PAM')).toContain('34');
+    expect(getRegionAreaCodes('XYZ')).toEqual([]);
+  });
+
+  it('getRegionForArea resolves shared areas to their first region', () => {
+    expect(getRegionForArea('34')?.value).toBe('PAM');
+    expect(getRegionForArea('20')?.value).toBe('OBX');
+    expect(getRegionForArea('UNK')).toBeUndefined();
+  });
 });
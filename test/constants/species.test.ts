@@ -0,0 +1,115 @@
+import {
+  SPECIES,
+  createEmptySpeciesCounts,
+  reportToSpeciesCounts,
+  speciesCountsToReport,
+  pickReportCounts,
+  rowToReportCounts,
+  reportCountsToRow,
+  rowToSpeciesCounts,
+  getSpeciesCountBreakdown,
+  speciesToDMFPayload,
+  getTotalFishCount,
+} from '../../src/constants/species';
+
+const counts = { redDrum: 1, flounder: 0, spottedSeatrout: 3, weakfish: 0, stripedBass: 2 };
+
+describe('species', () => {
+  it('has unique ids and field names for every species', () => {
+    for (const field of ['id', 'countKey', 'reportCountField', 'dbCountColumn', 'dmfCountField', 'dmfFlagField'] as const) {
+      const values = SPECIES.map(s => s[field]);
+      expect(new Set(values).size).toBe(SPECIES.length);
+    }
+  });
+
+  describe('report mapping', () => {
+    it('round-trips counts through report fields', () => {
+      const report = speciesCountsToReport(counts);
+
+      expect(report).toEqual({
+        redDrumCount: 1,
+        flounderCount: 0,
+        spottedSeatroutCount: 3,
+        weakfishCount: 0,
+        stripedBassCount: 2,
+      });
+      expect(reportToSpeciesCounts(report)).toEqual(counts);
+    });
+
+    it('reads missing or non-numeric report counts as 0', () => {
+      expect(reportToSpeciesCounts({ redDrumCount: 2 })).toEqual({ ...createEmptySpeciesCounts(), redDrum: 2 });
+      expect(reportToSpeciesCounts({ flounderCount: NaN }).flounder).toBe(0);
+    });
+
+    it('copies only the count fields', () => {
+      const queued = { ...speciesCountsToReport(counts), confirmationNumber: 'DMF-1', areaCode: 'NC-001' };
+      expect(pickReportCounts(queued)).toEqual(speciesCountsToReport(counts));
+    });
+  });
+
+  describe('row mapping', () => {
+    it('round-trips report fields through Supabase columns', () => {
+      const row = reportCountsToRow(speciesCountsToReport(counts));
+
+      expect(row).toEqual({
+        red_drum_count: 1,
+        flounder_count: 0,
+        spotted_seatrout_count: 3,
+        weakfish_count: 0,
+        striped_bass_count: 2,
+      });
+      expect(rowToReportCounts(row)).toEqual(speciesCountsToReport(counts));
+    });
+
+    it('reads missing row columns as 0', () => {
+      expect(rowToSpeciesCounts({ id: 'abc', red_drum_count: 4 })).toEqual({ ...createEmptySpeciesCounts(), redDrum: 4 });
+    });
+  });
+
+  describe('getSpeciesCountBreakdown', () => {
+    it('lists species with fish in SPECIES order by display name', () => {
+      expect(getSpeciesCountBreakdown(counts)).toEqual([
+        { species: 'Red Drum', count: 1 },
+        { species: 'Spotted Seatrout', count: 3 },
+        { species: 'Striped Bass', count: 2 },
+      ]);
+    });
+
+    it('labels by the requested name', () => {
+      const flounderAndTrout = { ...createEmptySpeciesCounts(), flounder: 1, spottedSeatrout: 1 };
+
+      expect(getSpeciesCountBreakdown(flounderAndTrout, 'pickerLabel').map(b => b.species))
+        .toEqual(['Flounder', 'Spotted Seatrout (speckled trout)']);
+      expect(getSpeciesCountBreakdown(flounderAndTrout, 'catalogName').map(b => b.species))
+        .toEqual(['Southern Flounder', 'Spotted Seatrout']);
+      expect(getSpeciesCountBreakdown(flounderAndTrout, 'shortName').map(b => b.species))
+        .toEqual(['Flounder', 'Seatrout']);
+    });
+  });
+
+  describe('speciesToDMFPayload', () => {
+    it('sends every count as a string and every flag as null', () => {
+      expect(speciesToDMFPayload(counts)).toEqual({
+        NumRD: '1',
+        NumF: '0',
+        NumSS: '3',
+        NumW: '0',
+        NumSB: '2',
+        RedDr: null,
+        Flound: null,
+        SST: null,
+        Weakf: null,
+        Striped: null,
+      });
+    });
+
+    it('covers every species in the list', () => {
+      const payload = speciesToDMFPayload(createEmptySpeciesCounts());
+      expect(Object.keys(payload)).toHaveLength(SPECIES.length * 2);
+    });
+  });
+
+  it('totals counts across species', () => {
+    expect(getTotalFishCount(counts)).toBe(6);
+  });
+});
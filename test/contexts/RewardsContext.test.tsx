@@ -1,6 +1,6 @@
 import React from 'react';
 import { Text } from 'react-native';
-import { render, waitFor } from '@testing-library/react-native';
+import { render, waitFor, act } from '@testing-library/react-native';
 import { RewardsProvider, useRewards } from '../../src/contexts/RewardsContext';
 
 // Mock all the services RewardsContext depends on
@@ -20,6 +20,9 @@ jest.mock('../../src/services/rewardsService', () => ({
   setLastSeenDrawingId: jest.fn(),
   getPendingDrawingEntry: jest.fn(() => Promise.resolve(null)),
   getRewardsStatusByDevice: jest.fn(() => Promise.resolve(null)),
+  fetchPastDrawings: jest.fn(() => Promise.resolve([])),
+  fetchEntryBreakdown: jest.fn(() => Promise.resolve(null)),
+  claimPrize: jest.fn(() => Promise.resolve('claimed')),
 }));
 
 jest.mock('../../src/services/reportsService', () => ({
@@ -121,6 +124,93 @@ describe('RewardsContext', () => {
     });
   });
 
+  it('exposes past drawings and the pending prize claim', async () => {
+    const { fetchPastDrawings } = require('../../src/services/rewardsService');
+    fetchPastDrawings.mockResolvedValueOnce([
+      { drawingId: 'q4', name: 'Q4 2025', winners: [], userEntered: true, userWin: null },
+      {
+        drawingId: 'q3',
+        name: 'Q3 2025',
+        winners: [],
+        userEntered: true,
+        userWin: { place: 1, claimStatus: 'pending', claimDeadline: '2025-10-20T00:00:00Z' },
+      },
+    ]);
+
+    function HistoryConsumer() {
+      const { pastDrawings, pendingPrizeClaim } = useRewards();
+      return (
+        <>
+          <Text testID="past-count">{pastDrawings.length}</Text>
+          <Text testID="pending-claim">{pendingPrizeClaim?.drawingId ?? 'none'}</Text>
+        </>
+      );
+    }
+
+    const { getByTestId } = render(
+      <RewardsProvider>
+        <HistoryConsumer />
+      </RewardsProvider>
+    );
+
+    await waitFor(() => {
+      expect(getByTestId('past-count').props.children).toBe(2);
+    });
+    expect(getByTestId('pending-claim').props.children).toBe('q3');
+  });
+
+  it('counts weighted entries for members from the server breakdown', async () => {
+    const { fetchRewardsData, fetchEntryBreakdown } = require('../../src/services/rewardsService');
+    fetchRewardsData.mockResolvedValueOnce({
+      config: { isEnabled: true, currentDrawingId: 'drawing-1' },
+      currentDrawing: { id: 'drawing-1', name: 'Q1 Drawing' },
+      userEntry: { userId: 'member-1', drawingId: 'drawing-1', isEntered: true },
+    });
+    fetchEntryBreakdown.mockResolvedValueOnce({ drawingId: 'drawing-1', totalEntries: 5 });
+
+    function EntriesConsumer() {
+      const { entryCount } = useRewards();
+      return <Text testID="entry-count">{entryCount}</Text>;
+    }
+
+    const { getByTestId } = render(
+      <RewardsProvider userId="member-1">
+        <EntriesConsumer />
+      </RewardsProvider>
+    );
+
+    await waitFor(() => {
+      expect(getByTestId('entry-count').props.children).toBe(5);
+    });
+    expect(fetchEntryBreakdown).toHaveBeenCalledWith('drawing-1');
+  });
+
+  it('reloads past drawings after claiming a prize', async () => {
+    const { fetchPastDrawings, claimPrize } = require('../../src/services/rewardsService');
+    let claim: ((id: string, details: any, accept: boolean) => Promise<void>) | null = null;
+
+    function ClaimConsumer() {
+      claim = useRewards().claimPrize;
+      return null;
+    }
+
+    render(
+      <RewardsProvider>
+        <ClaimConsumer />
+      </RewardsProvider>
+    );
+
+    await waitFor(() => expect(fetchPastDrawings).toHaveBeenCalled());
+    fetchPastDrawings.mockClear();
+
+    await act(async () => {
+      await claim!('q3', { fullName: 'Jane Doe' }, true);
+    });
+
+    expect(claimPrize).toHaveBeenCalledWith('q3', { fullName: 'Jane Doe' }, true);
+    expect(fetchPastDrawings).toHaveBeenCalledTimes(1);
+  });
+
   it('uses fallback data on fetch error', async () => {
     const { fetchRewardsData } = require('../../src/services/rewardsService');
     fetchRewardsData.mockRejectedValueOnce(new Error('Network error'));
@@ -340,10 +340,11 @@ describe('sync queue state machine', () => {
 // Need separate mocks for offlineQueue since it imports different services
 jest.mock('../../src/services/harvestReportService', () => ({
   submitHarvestReport: jest.fn(),
-  generateConfirmationNumber: jest.fn().mockReturnValue({
+  createSubmissionIdentity: jest.fn().mockReturnValue({
+    globalId: '{mock-guid}',
     dateS: '15',
     rand: '4321',
-    unique1: '154321',
+    confirmationNumber: '154321',
   }),
   transformToDMFPayload: jest.fn().mockReturnValue({
     attributes: { GlobalID: '{mock-guid}' },
@@ -5,6 +5,7 @@ import type { UserProfile } from '../src/types';
 import type { User } from '../src/types/user';
 import type { Advertisement } from '../src/services/transformers/advertisementTransformer';
 import type { PartnerInquiry } from '../src/types/partnerInquiry';
+import type { EnhancedFishSpecies, RegulationRecord } from '../src/types/fishSpecies';
 
 // Harvest report input (what the user submits from the form)
 export function makeHarvestInput(overrides?: Partial<HarvestReportInput>): HarvestReportInput {
@@ -156,6 +157,55 @@ export function makeStoredFishEntry(overrides?: Partial<StoredFishEntry>): Store
   };
 }
 
+// Fish species with regulations (Supabase species list, transformed)
+export function makeFishSpecies(overrides?: Partial<EnhancedFishSpecies>): EnhancedFishSpecies {
+  return {
+    id: uuid(),
+    name: 'Red Drum',
+    scientificName: 'Sciaenops ocellatus',
+    image: '',
+    description: '',
+    habitat: '',
+    seasons: { spring: true, summer: true, fall: true, winter: true },
+    commonNames: ['Channel Bass', 'Puppy Drum'],
+    images: { primary: '', additional: [] },
+    identification: '',
+    maxSize: '',
+    distribution: '',
+    regulations: {
+      sizeLimit: { min: 18, max: 27, unit: 'in' },
+      bagLimit: 1,
+      openSeasons: null,
+    },
+    conservationStatus: 'Least Concern',
+    fishingTips: { techniques: [], baits: [], equipment: [], locations: [] },
+    categories: { type: ['Saltwater'], group: ['Drum'] },
+    harvestStatus: 'open',
+    ...overrides,
+  };
+}
+
+// Dated regulation record (species_regulations row, transformed)
+export function makeRegulationRecord(overrides?: Partial<RegulationRecord>): RegulationRecord {
+  return {
+    id: uuid(),
+    speciesId: 'species-1',
+    regulations: {
+      sizeLimit: { min: 18, max: 27, unit: 'in' },
+      bagLimit: 1,
+      openSeasons: null,
+    },
+    harvestStatus: null,
+    note: null,
+    areaCodes: [],
+    effectiveDate: '2025-01-01',
+    expirationDate: null,
+    source: 'import',
+    bulletinId: null,
+    ...overrides,
+  };
+}
+
 // User profile (local AsyncStorage profile — all optional fields)
 export function makeUserProfile(overrides?: Partial<UserProfile>): UserProfile {
   return {
@@ -203,6 +253,9 @@ export function makeUser(overrides?: Partial<User>): User {
     longestStreak: 0,
     lastReportDate: null,
     rewardsOptedInAt: null,
+    locationPrecision: 'exact',
+    publishDelayDays: 0,
+    isPrivate: false,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
     ...overrides,
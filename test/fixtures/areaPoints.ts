@@ -0,0 +1,48 @@
+/**
+ * Known positions for exercising the offline area lookup.
+ *
+ * Each point sits clearly on one side of a boundary in the simplified
+ * polygons (src/constants/areaBoundaries.ts). Codes are DMF area codes.
+ */
+import type { GeoPoint } from '../../src/constants/areaLookup';
+
+export interface AreaPointFixture {
+  description: string;
+  point: GeoPoint;
+  expectedCode: string;
+}
+
+/** Ocean areas either side of the 3-mile line and the Cape Hatteras line. */
+export const OCEAN_BOUNDARY_POINTS: AreaPointFixture[] = [
+  { description: 'off Avon, inside 3 miles', point: { latitude: 35.30, longitude: -75.48 }, expectedCode: '20' },
+  { description: 'off Avon, beyond 3 miles', point: { latitude: 35.30, longitude: -75.40 }, expectedCode: '22' },
+  { description: 'just north of the Hatteras line, inshore', point: { latitude: 35.26, longitude: -75.49 }, expectedCode: '20' },
+  { description: 'just south of the Hatteras line, inshore', point: { latitude: 35.24, longitude: -75.50 }, expectedCode: '21' },
+  { description: 'just north of the Hatteras line, offshore', point: { latitude: 35.26, longitude: -75.30 }, expectedCode: '22' },
+  { description: 'just south of the Hatteras line, offshore', point: { latitude: 35.24, longitude: -75.30 }, expectedCode: '23' },
+  { description: 'below Cape Point, inside 3 miles', point: { latitude: 35.20, longitude: -75.55 }, expectedCode: '21' },
+  { description: 'below Cape Point, beyond 3 miles', point: { latitude: 35.10, longitude: -75.55 }, expectedCode: '23' },
+  { description: 'off Nags Head, inside 3 miles', point: { latitude: 35.90, longitude: -75.57 }, expectedCode: '20' },
+  { description: 'off Wrightsville Beach, inside 3 miles', point: { latitude: 34.20, longitude: -77.75 }, expectedCode: '21' },
+  { description: 'Frying Pan Shoals, beyond 3 miles', point: { latitude: 33.50, longitude: -77.50 }, expectedCode: '23' },
+];
+
+/** Sounds versus the rivers and inlets that feed them. */
+export const INSHORE_BOUNDARY_POINTS: AreaPointFixture[] = [
+  { description: 'middle of Pamlico Sound', point: { latitude: 35.30, longitude: -76.00 }, expectedCode: '34' },
+  { description: 'Pamlico River below Washington', point: { latitude: 35.47, longitude: -76.85 }, expectedCode: '33' },
+  { description: 'Pungo River at the Pamlico River mouth', point: { latitude: 35.40, longitude: -76.55 }, expectedCode: '52' },
+  { description: 'Neuse River off Oriental', point: { latitude: 35.01, longitude: -76.65 }, expectedCode: '29' },
+  { description: 'Croatan Sound west of Roanoke Island', point: { latitude: 35.86, longitude: -75.74 }, expectedCode: '9' },
+  { description: 'Roanoke Sound east of Roanoke Island', point: { latitude: 35.85, longitude: -75.61 }, expectedCode: '45' },
+  { description: 'Albemarle Sound', point: { latitude: 36.03, longitude: -76.20 }, expectedCode: '1' },
+  { description: 'Bogue Sound', point: { latitude: 34.69, longitude: -76.95 }, expectedCode: '5' },
+  { description: 'Cape Fear River', point: { latitude: 34.05, longitude: -77.95 }, expectedCode: '6' },
+  { description: 'Lake Mattamuskeet', point: { latitude: 35.49, longitude: -76.18 }, expectedCode: '13' },
+];
+
+/** Positions outside every area. */
+export const LAND_POINTS: GeoPoint[] = [
+  { latitude: 35.78, longitude: -78.64 }, // Raleigh
+  { latitude: 36.07, longitude: -79.79 }, // Greensboro
+];
@@ -4,8 +4,13 @@ jest.mock('../../src/services/anonymousUserService', () => ({
   getOrCreateAnonymousUser: jest.fn(() => Promise.resolve()),
 }));
 
+jest.mock('../../src/services/deviceMergeService', () => ({
+  ensureDeviceSecret: jest.fn(() => Promise.resolve('secret')),
+}));
+
 import { useAnonymousUserInitialization } from '../../src/hooks/useAnonymousUserInitialization';
 import { getOrCreateAnonymousUser } from '../../src/services/anonymousUserService';
+import { ensureDeviceSecret } from '../../src/services/deviceMergeService';
 
 describe('useAnonymousUserInitialization', () => {
   it('calls getOrCreateAnonymousUser on mount', async () => {
@@ -16,6 +21,14 @@ describe('useAnonymousUserInitialization', () => {
     });
   });
 
+  it('registers the device secret after the anonymous user', async () => {
+    renderHook(() => useAnonymousUserInitialization());
+
+    await waitFor(() => {
+      expect(ensureDeviceSecret).toHaveBeenCalledTimes(1);
+    });
+  });
+
   it('does not call again on re-render', async () => {
     const { rerender } = renderHook(() => useAnonymousUserInitialization());
 
@@ -39,6 +52,10 @@ describe('useAnonymousUserInitialization', () => {
     await waitFor(() => {
       expect(getOrCreateAnonymousUser).toHaveBeenCalled();
     });
+    // The device is still registered
+    await waitFor(() => {
+      expect(ensureDeviceSecret).toHaveBeenCalled();
+    });
 
     // Should not throw
     warnSpy.mockRestore();
@@ -38,7 +38,7 @@ jest.mock('../../src/services/deepLinkBuffer', () => ({
   stopBuffering: jest.fn(),
 }));
 
-import { useDeepLinkHandler } from '../../src/hooks/useDeepLinkHandler';
+import { useDeepLinkHandler, resolveAppLink } from '../../src/hooks/useDeepLinkHandler';
 import {
   isMagicLinkCallback,
   handleMagicLinkCallback,
@@ -161,3 +161,38 @@ describe('useDeepLinkHandler', () => {
     });
   });
 });
+
+describe('resolveAppLink', () => {
+  it('maps catch and angler links to their screens', () => {
+    expect(resolveAppLink('fishlog://catch/r-1')).toEqual({
+      screen: 'CatchDetail',
+      params: { reportId: 'r-1' },
+    });
+    expect(resolveAppLink('angler/u-1')).toEqual({
+      screen: 'AnglerProfile',
+      params: { userId: 'u-1' },
+    });
+  });
+
+  it('maps prize claim links to the claim form', () => {
+    expect(resolveAppLink('fishlog://claim/d-1')).toEqual({
+      screen: 'PrizeClaim',
+      params: { drawingId: 'd-1' },
+    });
+    expect(resolveAppLink('fishlog://claim')).toBeNull();
+  });
+
+  it('maps screen links without ids', () => {
+    expect(resolveAppLink('fishlog://my-reports')?.screen).toBe('PastReports');
+    expect(resolveAppLink('fishlog://profile/')?.screen).toBe('Profile');
+    expect(resolveAppLink('fishlog://notifications?from=push')?.screen).toBe('Notifications');
+    expect(resolveAppLink('fishlog://leaderboard')?.screen).toBe('Leaderboard');
+  });
+
+  it('returns null for unknown or malformed links', () => {
+    expect(resolveAppLink('fishlog://catch')).toBeNull();
+    expect(resolveAppLink('fishlog://catch/r-1/extra')).toBeNull();
+    expect(resolveAppLink('fishlog://profile/u-1')).toBeNull();
+    expect(resolveAppLink('fishlog://auth/callback')).toBeNull();
+  });
+});
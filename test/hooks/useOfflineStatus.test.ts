@@ -273,6 +273,46 @@ describe('startConnectivityListener', () => {
     });
   });
 
+  it('re-syncs when the earliest backed-off report becomes due', async () => {
+    let listenerCallback: (state: any) => void;
+    (NetInfo.addEventListener as jest.Mock).mockImplementation((cb) => {
+      listenerCallback = cb;
+      return jest.fn();
+    });
+    (NetInfo.fetch as jest.Mock).mockResolvedValue({
+      isConnected: false,
+      isInternetReachable: false,
+    });
+    (getQueueCount as jest.Mock).mockResolvedValue(1);
+    (syncQueuedReports as jest.Mock)
+      .mockResolvedValueOnce({
+        synced: 0,
+        failed: 1,
+        expired: 0,
+        nextAttemptAt: new Date(Date.now() + 60_000).toISOString(),
+      })
+      .mockResolvedValue({ synced: 1, failed: 0, expired: 0 });
+
+    const unsubscribe = startConnectivityListener();
+
+    await act(async () => {
+      listenerCallback!({ isConnected: false, isInternetReachable: false });
+    });
+    await act(async () => {
+      listenerCallback!({ isConnected: true, isInternetReachable: true });
+    });
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(1000);
+    });
+    expect(syncQueuedReports).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(60_000);
+    });
+    expect(syncQueuedReports).toHaveBeenCalledTimes(2);
+    unsubscribe();
+  });
+
   it('cleanup clears pending timeout', () => {
     const unsubscribe = startConnectivityListener();
     // Just verify no error on cleanup
@@ -1,5 +1,5 @@
 import React from 'react';
-import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import { render, fireEvent, waitFor, act } from '@testing-library/react-native';
 import CatchFeedScreen from '../../src/screens/CatchFeedScreen';
 
 // ============================================
@@ -27,11 +27,14 @@ const mockFetchRecentCatches = jest.fn();
 const mockFetchTopAnglers = jest.fn();
 const mockLikeCatch = jest.fn();
 const mockUnlikeCatch = jest.fn();
+const mockFetchNewerCatches = jest.fn();
 jest.mock('../../src/services/catchFeedService', () => ({
   fetchRecentCatches: (...args: any[]) => mockFetchRecentCatches(...args),
+  fetchNewerCatches: (...args: any[]) => mockFetchNewerCatches(...args),
   fetchTopAnglers: (...args: any[]) => mockFetchTopAnglers(...args),
   likeCatch: (...args: any[]) => mockLikeCatch(...args),
   unlikeCatch: (...args: any[]) => mockUnlikeCatch(...args),
+  setCatchReaction: jest.fn().mockResolvedValue(null),
   enrichCatchesWithLikes: jest.fn((catches: any) => catches),
   clearCatchFeedCache: jest.fn(),
 }));
@@ -72,17 +75,20 @@ jest.mock('../../src/api/featureFlagsApi', () => ({
 jest.mock('../../src/api/commentsApi', () => ({
   useComments: jest.fn(() => ({ data: [], isLoading: false })),
   useAddComment: jest.fn(() => ({ mutateAsync: jest.fn(), isPending: false })),
+  useEditComment: jest.fn(() => ({ mutateAsync: jest.fn(), isPending: false })),
   useDeleteComment: jest.fn(() => ({ mutateAsync: jest.fn(), isPending: false })),
   useReportComment: jest.fn(() => ({ mutate: jest.fn(), isPending: false })),
 }));
 
 jest.mock('../../src/services/followsService', () => ({
-  fetchFollowingFeed: jest.fn(() => Promise.resolve({ entries: [], hasMore: false })),
+  fetchFollowingFeed: jest.fn(() => Promise.resolve({ entries: [], hasMore: false, nextCursor: null })),
+  fetchNewerFollowingCatches: jest.fn(() => Promise.resolve({ entries: [], hasMore: false })),
 }));
 
 // --- Constants ---
 
 jest.mock('../../src/constants/speciesColors', () => ({
+  SPECIES_THEMES: {},
   getAllSpeciesThemes: jest.fn(() => [
     { id: 'red-drum', name: 'Red Drum', primary: '#C62828', light: '#FFCDD2', icon: '#B71C1C', gradient: ['#C62828', '#E53935'] },
     { id: 'flounder', name: 'Flounder', primary: '#2E7D32', light: '#C8E6C9', icon: '#1B5E20', gradient: ['#2E7D32', '#43A047'] },
@@ -237,9 +243,10 @@ describe('CatchFeedScreen', () => {
     mockFetchRecentCatches.mockResolvedValue({
       entries: [],
       hasMore: false,
-      nextOffset: 0,
+      nextCursor: null,
     });
     mockFetchTopAnglers.mockResolvedValue([]);
+    mockFetchNewerCatches.mockResolvedValue({ entries: [], hasMore: false });
   });
 
   // ===== Rendering =====
@@ -346,7 +353,7 @@ describe('CatchFeedScreen', () => {
       mockFetchRecentCatches.mockResolvedValue({
         entries,
         hasMore: false,
-        nextOffset: 2,
+        nextCursor: null,
       });
 
       const { findByText, getAllByTestId } = render(
@@ -364,7 +371,7 @@ describe('CatchFeedScreen', () => {
       mockFetchRecentCatches.mockResolvedValue({
         entries: [makeCatchEntry({ species: 'Flounder' })],
         hasMore: false,
-        nextOffset: 1,
+        nextCursor: null,
       });
 
       const { findByText } = render(
@@ -413,7 +420,7 @@ describe('CatchFeedScreen', () => {
       mockFetchRecentCatches.mockResolvedValue({
         entries: [makeCatchEntry()],
         hasMore: false,
-        nextOffset: 1,
+        nextCursor: null,
       });
 
       const { findByText } = render(
@@ -425,12 +432,20 @@ describe('CatchFeedScreen', () => {
       expect(await findByText('Photos')).toBeTruthy();
     });
 
+    // Filters run server-side: the mock only returns the entry when the
+    // photo filter is off, like the real query would for a photo-less catch
+    const mockPhotoLessFeed = () => {
+      mockFetchRecentCatches.mockImplementation(({ filter }: any = {}) =>
+        Promise.resolve({
+          entries: filter?.hasPhoto ? [] : [makeCatchEntry({ photoUrl: undefined })],
+          hasMore: false,
+          nextCursor: null,
+        })
+      );
+    };
+
     it('shows "No Matches Found" when filters exclude all entries', async () => {
-      mockFetchRecentCatches.mockResolvedValue({
-        entries: [makeCatchEntry({ photoUrl: undefined })],
-        hasMore: false,
-        nextOffset: 1,
-      });
+      mockPhotoLessFeed();
 
       const { findByText } = render(
         <CatchFeedScreen navigation={mockNavigation} />
@@ -444,14 +459,13 @@ describe('CatchFeedScreen', () => {
 
       // Since our entry has no photoUrl, it should be filtered out
       expect(await findByText('No Matches Found')).toBeTruthy();
+      expect(mockFetchRecentCatches).toHaveBeenLastCalledWith(
+        expect.objectContaining({ filter: { hasPhoto: true } })
+      );
     });
 
     it('shows filter-specific empty message when filters are active', async () => {
-      mockFetchRecentCatches.mockResolvedValue({
-        entries: [makeCatchEntry({ photoUrl: undefined })],
-        hasMore: false,
-        nextOffset: 1,
-      });
+      mockPhotoLessFeed();
 
       const { findByText } = render(
         <CatchFeedScreen navigation={mockNavigation} />
@@ -466,11 +480,7 @@ describe('CatchFeedScreen', () => {
     });
 
     it('does not show Report Your Catch button when filters are active with no results', async () => {
-      mockFetchRecentCatches.mockResolvedValue({
-        entries: [makeCatchEntry({ photoUrl: undefined })],
-        hasMore: false,
-        nextOffset: 1,
-      });
+      mockPhotoLessFeed();
 
       const { findByText, queryByText } = render(
         <CatchFeedScreen navigation={mockNavigation} />
@@ -482,6 +492,51 @@ describe('CatchFeedScreen', () => {
       await findByText('No Matches Found');
       expect(queryByText('Report Your Catch')).toBeNull();
     });
+
+    it('reloads the feed for the selected area', async () => {
+      const { findByText } = render(
+        <CatchFeedScreen navigation={mockNavigation} />
+      );
+
+      fireEvent.press(await findByText('All Areas'));
+      fireEvent.press(await findByText('Bogue Sound'));
+
+      await waitFor(() => {
+        expect(mockFetchRecentCatches).toHaveBeenLastCalledWith(
+          expect.objectContaining({ filter: { areaCode: '5', region: undefined } })
+        );
+      });
+      expect(await findByText('Bogue Sound')).toBeTruthy();
+    });
+
+    it('applies species, region, date and source from the filter sheet', async () => {
+      const { findByText, findByLabelText } = render(
+        <CatchFeedScreen navigation={mockNavigation} />
+      );
+
+      fireEvent.press(await findByLabelText('More filters'));
+      fireEvent.press(await findByText('Flounder'));
+      fireEvent.press(await findByText('Seatrout'));
+      fireEvent.press(await findByText('Pamlico'));
+      fireEvent.press(await findByText('Past 7 Days'));
+      fireEvent.press(await findByText('Catch Logs'));
+      fireEvent.press(await findByText('Show Catches'));
+
+      await waitFor(() => {
+        expect(mockFetchRecentCatches).toHaveBeenLastCalledWith(
+          expect.objectContaining({
+            filter: expect.objectContaining({
+              species: ['flounder', 'spottedSeatrout'],
+              region: 'PAM',
+              dateFrom: expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/),
+              reportType: 'catch_log',
+            }),
+          })
+        );
+      });
+      expect(await findByText('2 Species')).toBeTruthy();
+      expect(await findByText('Pamlico Sound')).toBeTruthy();
+    });
   });
 
   // ===== Pull-to-Refresh =====
@@ -544,7 +599,7 @@ describe('CatchFeedScreen', () => {
       mockFetchRecentCatches.mockResolvedValue({
         entries: [makeCatchEntry()],
         hasMore: false,
-        nextOffset: 1,
+        nextCursor: null,
       });
 
       const { findByText } = render(
@@ -559,6 +614,74 @@ describe('CatchFeedScreen', () => {
     });
   });
 
+  // ===== New Catches =====
+
+  describe('New Catches', () => {
+    // Run the "new catches" poll once, as if its interval had elapsed
+    async function pollForNewCatches(intervalSpy: jest.SpyInstance) {
+      const call = intervalSpy.mock.calls.find(([, ms]) => ms === 60 * 1000);
+      expect(call).toBeDefined();
+      await act(async () => {
+        await call![0]();
+      });
+    }
+
+    let intervalSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      intervalSpy = jest.spyOn(global, 'setInterval');
+      mockFetchRecentCatches.mockResolvedValue({
+        entries: [makeCatchEntry({ id: 'c1', anglerName: 'Alice M.' })],
+        hasMore: false,
+        nextCursor: null,
+      });
+    });
+
+    it('checks for catches newer than the head of the feed', async () => {
+      const { findByText } = render(<CatchFeedScreen navigation={mockNavigation} />);
+      await findByText('Alice M.');
+
+      await pollForNewCatches(intervalSpy);
+
+      expect(mockFetchNewerCatches).toHaveBeenCalledWith({ createdAt: '2026-02-10T12:00:00Z', id: 'c1' }, { filter: {} });
+    });
+
+    it('shows the new catch count and prepends them on tap', async () => {
+      mockFetchNewerCatches.mockResolvedValue({
+        entries: [makeCatchEntry({ id: 'c0', anglerName: 'Newest N.', createdAt: '2026-02-10T13:00:00Z' })],
+        hasMore: false,
+      });
+
+      const { findByText, queryByText } = render(<CatchFeedScreen navigation={mockNavigation} />);
+      await findByText('Alice M.');
+      expect(queryByText('Newest N.')).toBeNull();
+
+      await pollForNewCatches(intervalSpy);
+      fireEvent.press(await findByText('1 new catch'));
+
+      expect(await findByText('Newest N.')).toBeTruthy();
+      expect(queryByText('1 new catch')).toBeNull();
+    });
+
+    it('reloads from the top when there are too many new catches to prepend', async () => {
+      mockFetchNewerCatches.mockResolvedValue({
+        entries: [makeCatchEntry({ id: 'c0', createdAt: '2026-02-10T13:00:00Z' })],
+        hasMore: true,
+      });
+
+      const { findByText } = render(<CatchFeedScreen navigation={mockNavigation} />);
+      await findByText('Alice M.');
+
+      await pollForNewCatches(intervalSpy);
+      fireEvent.press(await findByText('1+ new catches'));
+
+      await waitFor(() => {
+        expect(mockFetchRecentCatches).toHaveBeenCalledTimes(2);
+      });
+      expect(mockFetchRecentCatches).toHaveBeenLastCalledWith(expect.objectContaining({ forceRefresh: true }));
+    });
+  });
+
   // ===== Navigation =====
 
   describe('Navigation', () => {
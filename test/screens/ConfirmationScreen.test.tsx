@@ -40,6 +40,7 @@ jest.mock('../../src/services/userProfileService', () => ({
 
 // Mock species constants
 jest.mock('../../src/constants/species', () => ({
+  ...jest.requireActual('../../src/constants/species'),
   aggregateFishEntries: jest.fn((entries: any[]) => ({
     redDrum: entries.filter((e: any) => e.species === 'Red Drum').reduce((s: number, e: any) => s + e.count, 0),
     flounder: entries.filter((e: any) => e.species === 'Southern Flounder').reduce((s: number, e: any) => s + e.count, 0),
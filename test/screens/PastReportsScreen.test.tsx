@@ -20,9 +20,19 @@ jest.mock('expo-clipboard', () => ({
 // Mock offlineQueue
 const mockGetHistory = jest.fn().mockResolvedValue([]);
 const mockGetQueue = jest.fn().mockResolvedValue([]);
+const mockResubmitDeadLetter = jest.fn().mockResolvedValue(true);
 jest.mock('../../src/services/offlineQueue', () => ({
   getHistory: () => mockGetHistory(),
   getQueue: () => mockGetQueue(),
+  resubmitDeadLetter: (...args: any[]) => mockResubmitDeadLetter(...args),
+}));
+
+// Mock deadLetterStore
+const mockGetDeadLetters = jest.fn().mockResolvedValue([]);
+jest.mock('../../src/services/deadLetterStore', () => ({
+  getDeadLetters: () => mockGetDeadLetters(),
+  removeDeadLetter: jest.fn().mockResolvedValue(true),
+  formatDeadLetterForExport: jest.fn(() => 'exported report'),
 }));
 
 // Mock speciesApi
@@ -99,6 +109,7 @@ describe('PastReportsScreen', () => {
     jest.clearAllMocks();
     mockGetHistory.mockResolvedValue([]);
     mockGetQueue.mockResolvedValue([]);
+    mockGetDeadLetters.mockResolvedValue([]);
   });
 
   // ===== Loading State =====
@@ -521,5 +532,193 @@ describe('PastReportsScreen', () => {
       expect(await findByText('Pending Sync')).toBeTruthy();
       expect(await findByText('Will sync automatically when online')).toBeTruthy();
     });
+
+    it('explains config errors on queued reports', async () => {
+      mockGetQueue.mockResolvedValue([{
+        ...queuedReport,
+        lastError: 'ArcGIS 498: Invalid token.',
+        errorHistory: [{ at: '2026-02-12T10:00:00Z', error: 'ArcGIS 498: Invalid token.', kind: 'config' }],
+        nextAttemptAt: '2026-02-12T16:00:00Z',
+      }]);
+
+      const { findByText } = render(
+        <PastReportsScreen navigation={mockNavigation} />
+      );
+
+      fireEvent.press(await findByText('DMF service unavailable — tap for details'));
+
+      expect(await findByText(/could not connect to the DMF reporting service/)).toBeTruthy();
+      expect(await findByText(/Last error: ArcGIS 498: Invalid token\./)).toBeTruthy();
+    });
+  });
+
+  // ===== Needs Attention (dead-lettered reports) =====
+
+  describe('Needs Attention', () => {
+    const deadLetter = {
+      localConfirmationNumber: 'LOCAL-DEAD',
+      harvestDate: '2026-01-17',
+      areaLabel: 'Albemarle Sound',
+      areaCode: 'AS-01',
+      usedHookAndLine: true,
+      hasLicense: true,
+      redDrumCount: 1,
+      flounderCount: 0,
+      spottedSeatroutCount: 0,
+      weakfishCount: 0,
+      stripedBassCount: 0,
+      queuedAt: '2026-01-17T08:00:00Z',
+      retryCount: 3,
+      wrcId: 'BAD',
+      lastError: 'Invalid WRC ID',
+      errorHistory: [
+        { at: '2026-01-17T09:00:00Z', error: 'Network error' },
+        { at: '2026-01-18T09:00:00Z', error: 'Invalid WRC ID' },
+      ],
+      deadLetteredAt: '2026-01-19T09:00:00Z',
+    };
+
+    it('shows a needs-attention banner and card', async () => {
+      mockGetDeadLetters.mockResolvedValue([deadLetter]);
+
+      const { findByText } = render(
+        <PastReportsScreen navigation={mockNavigation} />
+      );
+
+      expect(await findByText('1 report needs attention')).toBeTruthy();
+      expect(await findByText('Needs Attention')).toBeTruthy();
+      expect(await findByText(/Not submitted after 2 attempts/)).toBeTruthy();
+    });
+
+    it('shows the error history in the detail modal', async () => {
+      mockGetDeadLetters.mockResolvedValue([deadLetter]);
+
+      const { findByText, getAllByText } = render(
+        <PastReportsScreen navigation={mockNavigation} />
+      );
+
+      fireEvent.press(await findByText(/Not submitted after/));
+
+      expect(await findByText('Submission Errors')).toBeTruthy();
+      expect(await findByText('Network error')).toBeTruthy();
+      expect(getAllByText('Invalid WRC ID').length).toBeGreaterThanOrEqual(1);
+    });
+
+    it('shows an actionable message for reports rejected by DMF', async () => {
+      mockGetDeadLetters.mockResolvedValue([{
+        ...deadLetter,
+        errorHistory: [{ at: '2026-01-18T09:00:00Z', error: 'Setting of value for Area failed.', kind: 'permanent' }],
+      }]);
+
+      const { findByText } = render(
+        <PastReportsScreen navigation={mockNavigation} />
+      );
+
+      fireEvent.press(await findByText(/Not submitted after/));
+
+      expect(await findByText(/DMF rejected this report: Setting of value for Area failed/)).toBeTruthy();
+    });
+
+    it('resubmits with edits', async () => {
+      mockGetDeadLetters.mockResolvedValue([deadLetter]);
+      const alertSpy = jest.spyOn(Alert, 'alert');
+
+      const { findByText, findByLabelText } = render(
+        <PastReportsScreen navigation={mockNavigation} />
+      );
+
+      fireEvent.press(await findByText(/Not submitted after/));
+      fireEvent.press(await findByText('Edit'));
+      fireEvent.changeText(await findByLabelText('WRC ID'), 'WRC123');
+      fireEvent.press(await findByText('Save & Resubmit'));
+
+      await waitFor(() => {
+        expect(mockResubmitDeadLetter).toHaveBeenCalledWith(
+          'LOCAL-DEAD',
+          expect.objectContaining({ wrcId: 'WRC123' })
+        );
+      });
+      await waitFor(() => {
+        expect(alertSpy).toHaveBeenCalledWith('Report Re-queued', expect.any(String));
+      });
+      alertSpy.mockRestore();
+    });
+
+    it('corrects species counts, harvest date, area and contact details', async () => {
+      mockGetDeadLetters.mockResolvedValue([deadLetter]);
+
+      const { findByText, findByLabelText } = render(
+        <PastReportsScreen navigation={mockNavigation} />
+      );
+
+      fireEvent.press(await findByText(/Not submitted after/));
+      fireEvent.press(await findByText('Edit'));
+      fireEvent.changeText(await findByLabelText('Harvest Date (YYYY-MM-DD)'), '2026-01-16');
+      fireEvent.changeText(await findByLabelText('Red Drum count'), '0');
+      fireEvent.changeText(await findByLabelText('Flounder count'), '2');
+      fireEvent.changeText(await findByLabelText('Phone'), '(919) 555-1234');
+      fireEvent.changeText(await findByLabelText('Email'), 'angler@example.com');
+      fireEvent.press(await findByLabelText('Area'));
+      fireEvent.press(await findByText('Core Sound'));
+      fireEvent.press(await findByText('Save & Resubmit'));
+
+      await waitFor(() => {
+        expect(mockResubmitDeadLetter).toHaveBeenCalledWith(
+          'LOCAL-DEAD',
+          expect.objectContaining({
+            harvestDate: '2026-01-16',
+            redDrumCount: 0,
+            flounderCount: 2,
+            phone: '(919) 555-1234',
+            email: 'angler@example.com',
+            areaCode: '8',
+            areaLabel: 'Core Sound',
+          })
+        );
+      });
+    });
+
+    it('does not resubmit a correction that fails validation', async () => {
+      mockGetDeadLetters.mockResolvedValue([deadLetter]);
+      const alertSpy = jest.spyOn(Alert, 'alert');
+
+      const { findByText, findByLabelText } = render(
+        <PastReportsScreen navigation={mockNavigation} />
+      );
+
+      fireEvent.press(await findByText(/Not submitted after/));
+      fireEvent.press(await findByText('Edit'));
+      fireEvent.changeText(await findByLabelText('Harvest Date (YYYY-MM-DD)'), '01/16/2026');
+      fireEvent.press(await findByText('Save & Resubmit'));
+      expect(alertSpy).toHaveBeenCalledWith('Check Report', 'Enter the harvest date as YYYY-MM-DD.');
+
+      fireEvent.changeText(await findByLabelText('Harvest Date (YYYY-MM-DD)'), '2026-01-16');
+      fireEvent.changeText(await findByLabelText('Red Drum count'), '');
+      fireEvent.press(await findByText('Save & Resubmit'));
+      expect(alertSpy).toHaveBeenCalledWith('Check Report', 'You must report at least one fish');
+
+      expect(mockResubmitDeadLetter).not.toHaveBeenCalled();
+      alertSpy.mockRestore();
+    });
+
+    it('warns that a removed report may not have reached DMF', async () => {
+      mockGetDeadLetters.mockResolvedValue([deadLetter]);
+      const alertSpy = jest.spyOn(Alert, 'alert');
+
+      const { findByText } = render(
+        <PastReportsScreen navigation={mockNavigation} />
+      );
+
+      fireEvent.press(await findByText(/Not submitted after/));
+      fireEvent.press(await findByText('Remove'));
+
+      expect(alertSpy).toHaveBeenCalledWith(
+        'Remove Report?',
+        expect.stringMatching(/may not have been received/),
+        expect.any(Array)
+      );
+      expect(alertSpy.mock.calls[0][1]).not.toMatch(/never received/);
+      alertSpy.mockRestore();
+    });
   });
 });
@@ -262,6 +262,14 @@ jest.mock('../../src/components/WrcIdInfoModal', () => {
   };
 });
 
+jest.mock('../../src/components/BlockedAccountsList', () => {
+  const { View } = require('react-native');
+  return {
+    __esModule: true,
+    default: ({ userId }: any) => <View testID={`blocked-accounts-${userId}`} />,
+  };
+});
+
 jest.mock('../../src/components/icons/DefaultAnglerAvatarIcon', () => {
   const { View } = require('react-native');
   return {
@@ -984,6 +992,15 @@ describe('ProfileScreen', () => {
 
       expect(await findByText('Sign Out')).toBeTruthy();
     });
+
+    it('shows the Blocked Accounts list for rewards members', async () => {
+      const { findByText, getByTestId } = render(
+        <ProfileScreen navigation={mockNavigation as any} />
+      );
+
+      expect(await findByText('Blocked Accounts')).toBeTruthy();
+      expect(getByTestId('blocked-accounts-section')).toBeTruthy();
+    });
   });
 
   // ==========================================================
@@ -60,6 +60,10 @@ jest.mock('../../src/api/speciesApi', () => ({
     data: [],
     isLoading: false,
   })),
+  useRegulationRecords: jest.fn(() => ({
+    data: [],
+    isLoading: false,
+  })),
 }));
 
 jest.mock('../../src/hooks/useZipCodeLookup', () => ({
@@ -109,6 +113,14 @@ jest.mock('expo-image-picker', () => ({
   MediaTypeOptions: { Images: 'Images' },
 }));
 
+jest.mock('expo-location', () => ({
+  requestForegroundPermissionsAsync: jest.fn().mockResolvedValue({ granted: true }),
+  getCurrentPositionAsync: jest.fn().mockResolvedValue({
+    coords: { latitude: 35.3, longitude: -76.0 },
+  }),
+  Accuracy: { Balanced: 3 },
+}));
+
 // ---------------------------------------------------------------------------
 // Mocks: child components (stub to simple Views)
 // ---------------------------------------------------------------------------
@@ -208,6 +220,13 @@ jest.mock('../../src/constants/areaOptions', () => ({
   getAreaLabelFromCode: jest.fn(),
 }));
 
+jest.mock('../../src/constants/areaLookup', () => ({
+  findNearestArea: jest.fn(() => ({
+    area: { value: '34', label: 'Pamlico Sound' },
+    distanceMiles: 0,
+  })),
+}));
+
 jest.mock('../../src/constants/gearOptions', () => ({
   NON_HOOK_GEAR_LABELS: ['Dip Net, A-frame Net', 'Cast Net', 'Gill Net', 'Gig/Spear'],
   NON_HOOK_GEAR_OPTIONS: [
@@ -512,6 +531,41 @@ describe('ReportFormScreen', () => {
 
       expect(getByText(/Number Harvested/)).toBeTruthy();
     });
+
+    it('suggests the area of harvest from the device location', async () => {
+      const { getByText, getByLabelText } = render(
+        <ReportFormScreen navigation={mockNavigation} />
+      );
+
+      fireEvent.press(getByText('Myself Only'));
+      fireEvent.press(getByText('Select species'));
+      fireEvent.press(getByText('Red Drum'));
+      fireEvent.press(getByLabelText('Use my location to suggest area of harvest'));
+
+      await waitFor(() => {
+        expect(getByText('Pamlico Sound')).toBeTruthy();
+        expect(getByText(/Suggested from your location/)).toBeTruthy();
+      });
+    });
+
+    it('alerts when location permission is denied', async () => {
+      const Location = require('expo-location');
+      Location.requestForegroundPermissionsAsync.mockResolvedValueOnce({ granted: false });
+      const alertSpy = jest.spyOn(Alert, 'alert');
+      const { getByText, getByLabelText } = render(
+        <ReportFormScreen navigation={mockNavigation} />
+      );
+
+      fireEvent.press(getByText('Myself Only'));
+      fireEvent.press(getByText('Select species'));
+      fireEvent.press(getByText('Red Drum'));
+      fireEvent.press(getByLabelText('Use my location to suggest area of harvest'));
+
+      await waitFor(() => {
+        expect(alertSpy).toHaveBeenCalledWith('Location Permission Required', expect.any(String));
+      });
+      expect(Location.getCurrentPositionAsync).not.toHaveBeenCalled();
+    });
   });
 
   // =========================================================================
@@ -815,5 +869,46 @@ describe('ReportFormScreen', () => {
 
       alertSpy.mockRestore();
     });
+
+    it('warns about regulation problems and lets the angler submit anyway', () => {
+      const { useAllFishSpecies } = require('../../src/api/speciesApi');
+      const defaultSpecies = useAllFishSpecies.getMockImplementation();
+      useAllFishSpecies.mockReturnValue({
+        data: [{
+          id: '1',
+          name: 'Red Drum',
+          images: { primary: '' },
+          harvestStatus: 'closed',
+          regulations: { sizeLimit: { min: null, max: null, unit: 'in' }, bagLimit: null, openSeasons: null },
+        }],
+        isLoading: false,
+      });
+      const alertSpy = jest.spyOn(Alert, 'alert');
+
+      const { getByText, getByPlaceholderText } = render(
+        <ReportFormScreen navigation={mockNavigation} />
+      );
+
+      fireEvent.press(getByText('Myself Only'));
+      fireEvent.press(getByText('Select species'));
+      fireEvent.press(getByText('Red Drum'));
+      fireEvent.press(getByText('Select area of harvest'));
+      fireEvent.press(getByText('Pamlico Sound'));
+      fireEvent.changeText(getByPlaceholderText('Enter your WRC ID or Customer ID'), 'NC12345');
+      fireEvent.press(getByText('Submit Report'));
+
+      expect(alertSpy).toHaveBeenCalledWith(
+        'Check Regulations',
+        expect.stringContaining('Red Drum harvest is closed'),
+        expect.any(Array)
+      );
+      expect(mockNavigation.navigate).not.toHaveBeenCalledWith('Confirmation', expect.anything());
+
+      const buttons = alertSpy.mock.calls[alertSpy.mock.calls.length - 1][2] as any[];
+      buttons.find(b => b.text === 'Submit Anyway').onPress();
+
+      expect(mockNavigation.navigate).toHaveBeenCalledWith('Confirmation', expect.anything());
+      useAllFishSpecies.mockImplementation(defaultSpecies);
+    });
   });
 });
@@ -0,0 +1,121 @@
+/**
+ * blocksService.test.ts - Blocking, the blocked accounts list and block set
+ */
+import { mockSupabase } from '../mocks/supabase';
+
+import {
+  blockUser,
+  unblockUser,
+  isUserBlocked,
+  fetchBlockedAccounts,
+  fetchBlockedUserIds,
+} from '../../src/services/blocksService';
+
+// Thenable query chain resolving to `result`
+const chain = (result: unknown) => {
+  const q: any = {};
+  ['select', 'insert', 'delete', 'eq', 'order'].forEach((m) => {
+    q[m] = jest.fn(() => q);
+  });
+  q.maybeSingle = jest.fn(() => Promise.resolve(result));
+  q.then = (resolve: (v: unknown) => unknown, reject?: (e: unknown) => unknown) =>
+    Promise.resolve(result).then(resolve, reject);
+  return q;
+};
+
+describe('blocksService', () => {
+  beforeEach(() => {
+    (mockSupabase as any).rpc = jest.fn();
+  });
+
+  const rpc = () => (mockSupabase as any).rpc as jest.Mock;
+
+  describe('blockUser / unblockUser', () => {
+    it('treats an existing block as success', async () => {
+      const q = chain({ error: { code: '23505', message: 'duplicate key' } });
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(q);
+
+      await expect(blockUser('target-1', 'me')).resolves.toBeUndefined();
+      expect(mockSupabase.from).toHaveBeenCalledWith('user_blocks');
+      expect(q.insert).toHaveBeenCalledWith({ blocker_id: 'me', blocked_id: 'target-1' });
+    });
+
+    it('throws on other block errors', async () => {
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(
+        chain({ error: { code: '42501', message: 'denied' } })
+      );
+
+      await expect(blockUser('target-1', 'me')).rejects.toThrow('Failed to block user: denied');
+    });
+
+    it('deletes only the caller\'s block row', async () => {
+      const q = chain({ error: null });
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(q);
+
+      await unblockUser('target-1', 'me');
+
+      expect(q.delete).toHaveBeenCalled();
+      expect(q.eq).toHaveBeenCalledWith('blocker_id', 'me');
+      expect(q.eq).toHaveBeenCalledWith('blocked_id', 'target-1');
+    });
+
+    it('reports whether the caller blocked the target', async () => {
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(
+        chain({ data: { blocker_id: 'me' }, error: null })
+      );
+
+      await expect(isUserBlocked('target-1', 'me')).resolves.toBe(true);
+    });
+  });
+
+  describe('fetchBlockedAccounts', () => {
+    it('maps block rows to accounts and skips deleted users', async () => {
+      const q = chain({
+        data: [
+          {
+            created_at: '2026-01-15T12:00:00Z',
+            users: { id: 'u-2', first_name: 'Sam', last_name: 'Reed', profile_image_url: null },
+          },
+          { created_at: '2026-01-14T12:00:00Z', users: null },
+        ],
+        error: null,
+      });
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(q);
+
+      const accounts = await fetchBlockedAccounts('me');
+
+      expect(q.eq).toHaveBeenCalledWith('blocker_id', 'me');
+      expect(accounts).toEqual([{
+        userId: 'u-2',
+        displayName: 'Sam R.',
+        profileImage: undefined,
+        blockedAt: '2026-01-15T12:00:00Z',
+      }]);
+    });
+
+    it('throws when the query fails', async () => {
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(
+        chain({ data: null, error: { message: 'boom' } })
+      );
+
+      await expect(fetchBlockedAccounts('me')).rejects.toThrow('Failed to fetch blocked accounts: boom');
+    });
+  });
+
+  describe('fetchBlockedUserIds', () => {
+    it('returns the block set from the RPC', async () => {
+      rpc().mockResolvedValue({ data: ['u-2', 'u-3'], error: null });
+
+      const ids = await fetchBlockedUserIds();
+
+      expect(rpc()).toHaveBeenCalledWith('get_blocked_user_ids');
+      expect([...ids]).toEqual(['u-2', 'u-3']);
+    });
+
+    it('throws when the RPC fails', async () => {
+      rpc().mockResolvedValue({ data: null, error: { message: 'denied' } });
+
+      await expect(fetchBlockedUserIds()).rejects.toThrow('Failed to fetch blocked users: denied');
+    });
+  });
+});
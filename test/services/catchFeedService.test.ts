@@ -6,6 +6,7 @@ import { mockSupabase, mockIsSupabaseConnected } from '../mocks/supabase';
 
 import {
   fetchRecentCatches,
+  fetchNewerCatches,
   clearCatchFeedCache,
   likeCatch,
   unlikeCatch,
@@ -13,6 +14,9 @@ import {
   fetchTopAnglers,
   enrichCatchesWithLikes,
   fetchAnglerProfile,
+  reportCatch,
+  fetchReactionsForCatches,
+  setCatchReaction,
 } from '../../src/services/catchFeedService';
 
 describe('catchFeedService', () => {
@@ -73,8 +77,9 @@ describe('catchFeedService', () => {
       (mockSupabase.from as jest.Mock).mockImplementation(() => ({
         select: jest.fn().mockReturnThis(),
         eq: jest.fn().mockReturnThis(),
+        or: jest.fn().mockReturnThis(),
         order: jest.fn().mockReturnThis(),
-        range: jest.fn().mockResolvedValue({ data: reportRows, error: null }),
+        limit: jest.fn().mockResolvedValue({ data: reportRows, error: null }),
       }));
 
       const result = await fetchRecentCatches({ limit: 20 });
@@ -85,8 +90,9 @@ describe('catchFeedService', () => {
       (mockSupabase.from as jest.Mock).mockImplementation(() => ({
         select: jest.fn().mockReturnThis(),
         eq: jest.fn().mockReturnThis(),
+        or: jest.fn().mockReturnThis(),
         order: jest.fn().mockReturnThis(),
-        range: jest.fn().mockResolvedValue({ data: null, error: { message: 'Query failed' } }),
+        limit: jest.fn().mockResolvedValue({ data: null, error: { message: 'Query failed' } }),
       }));
 
       const result = await fetchRecentCatches();
@@ -106,8 +112,9 @@ describe('catchFeedService', () => {
         (mockSupabase.from as jest.Mock).mockImplementation(() => ({
           select: jest.fn().mockReturnThis(),
           eq: jest.fn().mockReturnThis(),
+          or: jest.fn().mockReturnThis(),
           order: jest.fn().mockReturnThis(),
-          range: jest.fn().mockResolvedValue({ data: [row], error: null }),
+          limit: jest.fn().mockResolvedValue({ data: [row], error: null }),
         }));
       };
 
@@ -194,11 +201,13 @@ describe('catchFeedService', () => {
     it('removes cache keys', async () => {
       await AsyncStorage.setItem('@catch_feed_cache', 'data');
       await AsyncStorage.setItem('@catch_feed_cache_timestamp', 'ts');
+      await AsyncStorage.setItem('@catch_feed_cache_filter', 'area=5');
 
       await clearCatchFeedCache();
 
       expect(await AsyncStorage.getItem('@catch_feed_cache')).toBeNull();
       expect(await AsyncStorage.getItem('@catch_feed_cache_timestamp')).toBeNull();
+      expect(await AsyncStorage.getItem('@catch_feed_cache_filter')).toBeNull();
     });
   });
 
@@ -344,61 +353,95 @@ describe('catchFeedService', () => {
       like_count: 0,
     });
 
-    it('sets hasMore=true when more rows than limit are returned', async () => {
-      // range(0, 3) returns 4 rows (inclusive), which is > limit=3
-      const rows = [makeRow('r-1'), makeRow('r-2'), makeRow('r-3'), makeRow('r-4')];
-      (mockSupabase.from as jest.Mock).mockImplementation(() => ({
+    const stubRows = (rows: unknown[] | null, error: { message: string } | null = null) => {
+      const chain = {
         select: jest.fn().mockReturnThis(),
+        or: jest.fn().mockReturnThis(),
         order: jest.fn().mockReturnThis(),
-        range: jest.fn().mockResolvedValue({ data: rows, error: null }),
-      }));
+        limit: jest.fn().mockResolvedValue({ data: rows, error }),
+      };
+      (mockSupabase.from as jest.Mock).mockImplementation(() => chain);
+      return chain;
+    };
+
+    const cursor = { createdAt: '2026-01-15T12:00:00+00:00', id: 'r-12' };
 
-      const result = await fetchRecentCatches({ limit: 3, offset: 0 });
+    it('sets hasMore=true when more rows than limit are returned', async () => {
+      // limit + 1 rows are requested to detect another page
+      const rows = [makeRow('r-1'), makeRow('r-2'), makeRow('r-3'), makeRow('r-4')];
+      const chain = stubRows(rows);
+
+      const result = await fetchRecentCatches({ limit: 3 });
+      expect(chain.limit).toHaveBeenCalledWith(4);
       expect(result.hasMore).toBe(true);
       expect(result.entries).toHaveLength(3);
-      expect(result.nextOffset).toBe(3);
+      expect(result.nextCursor).toEqual({ createdAt: '2026-01-15T12:00:00Z', id: 'r-3' });
     });
 
     it('sets hasMore=false when fewer rows than limit are returned', async () => {
-      const rows = [makeRow('r-1'), makeRow('r-2')];
-      (mockSupabase.from as jest.Mock).mockImplementation(() => ({
-        select: jest.fn().mockReturnThis(),
-        order: jest.fn().mockReturnThis(),
-        range: jest.fn().mockResolvedValue({ data: rows, error: null }),
-      }));
+      stubRows([makeRow('r-1'), makeRow('r-2')]);
 
-      const result = await fetchRecentCatches({ limit: 5, offset: 0 });
+      const result = await fetchRecentCatches({ limit: 5 });
       expect(result.hasMore).toBe(false);
       expect(result.entries).toHaveLength(2);
-      expect(result.nextOffset).toBe(2);
+      expect(result.nextCursor?.id).toBe('r-2');
+    });
+
+    it('orders by created_at then report id, newest first', async () => {
+      const chain = stubRows([makeRow('r-1')]);
+
+      await fetchRecentCatches({ limit: 12 });
+      expect(chain.order).toHaveBeenNthCalledWith(1, 'created_at', { ascending: false });
+      expect(chain.order).toHaveBeenNthCalledWith(2, 'report_id', { ascending: false });
+      expect(chain.or).not.toHaveBeenCalled();
+    });
+
+    it('pages strictly older than the cursor', async () => {
+      const chain = stubRows([makeRow('r-13')]);
+
+      await fetchRecentCatches({ cursor, limit: 12 });
+      expect(chain.or).toHaveBeenCalledWith(
+        'created_at.lt."2026-01-15T12:00:00+00:00",and(created_at.eq."2026-01-15T12:00:00+00:00",report_id.lt.r-12)'
+      );
+    });
+
+    it('advances the cursor past rows with no fish', async () => {
+      const empty = { ...makeRow('r-empty'), fish_entries_json: [], red_drum_count: 0 };
+      stubRows([makeRow('r-1'), empty]);
+
+      const result = await fetchRecentCatches({ limit: 5 });
+      expect(result.entries.map(e => e.id)).toEqual(['r-1']);
+      expect(result.nextCursor?.id).toBe('r-empty');
     });
 
-    it('skips cache for paginated requests (offset > 0)', async () => {
+    it('continues after the last cached entry', async () => {
+      const cachedEntries = [
+        { id: 'cached-1', species: 'Red Drum', createdAt: '2026-01-15T13:00:00Z' },
+        { id: 'cached-2', species: 'Red Drum', createdAt: '2026-01-15T12:00:00Z' },
+      ];
+      await AsyncStorage.setItem('@catch_feed_cache', JSON.stringify(cachedEntries));
+      await AsyncStorage.setItem('@catch_feed_cache_timestamp', Date.now().toString());
+
+      const result = await fetchRecentCatches();
+      expect(result.nextCursor).toEqual({ createdAt: '2026-01-15T12:00:00Z', id: 'cached-2' });
+    });
+
+    it('skips cache for paginated requests', async () => {
       // Populate cache
       const cachedEntries = [{ id: 'cached', species: 'Red Drum' }];
       await AsyncStorage.setItem('@catch_feed_cache', JSON.stringify(cachedEntries));
       await AsyncStorage.setItem('@catch_feed_cache_timestamp', Date.now().toString());
 
-      const rows = [makeRow('r-page2')];
-      (mockSupabase.from as jest.Mock).mockImplementation(() => ({
-        select: jest.fn().mockReturnThis(),
-        order: jest.fn().mockReturnThis(),
-        range: jest.fn().mockResolvedValue({ data: rows, error: null }),
-      }));
+      stubRows([makeRow('r-page2')]);
 
-      const result = await fetchRecentCatches({ offset: 12, limit: 12 });
+      const result = await fetchRecentCatches({ cursor, limit: 12 });
       expect(result.entries[0].id).toBe('r-page2');
     });
 
-    it('does not cache paginated requests (offset > 0)', async () => {
-      const rows = [makeRow('r-1')];
-      (mockSupabase.from as jest.Mock).mockImplementation(() => ({
-        select: jest.fn().mockReturnThis(),
-        order: jest.fn().mockReturnThis(),
-        range: jest.fn().mockResolvedValue({ data: rows, error: null }),
-      }));
+    it('does not cache paginated requests', async () => {
+      stubRows([makeRow('r-1')]);
 
-      await fetchRecentCatches({ offset: 12, limit: 12 });
+      await fetchRecentCatches({ cursor, limit: 12 });
 
       // Cache should not have been set
       const cached = await AsyncStorage.getItem('@catch_feed_cache');
@@ -406,32 +449,177 @@ describe('catchFeedService', () => {
     });
 
     it('returns empty entries when Supabase returns empty data for paginated request', async () => {
-      (mockSupabase.from as jest.Mock).mockImplementation(() => ({
-        select: jest.fn().mockReturnThis(),
-        order: jest.fn().mockReturnThis(),
-        range: jest.fn().mockResolvedValue({ data: [], error: null }),
-      }));
+      stubRows([]);
 
-      const result = await fetchRecentCatches({ offset: 100, limit: 12 });
+      const result = await fetchRecentCatches({ cursor, limit: 12 });
       expect(result.entries).toEqual([]);
       expect(result.hasMore).toBe(false);
+      expect(result.nextCursor).toEqual(cursor);
     });
 
     it('returns empty entries on error for paginated requests (no cache fallback)', async () => {
-      // Populate cache to prove it is NOT used for offset > 0 errors
+      // Populate cache to prove it is NOT used for paginated errors
       const cachedEntries = [{ id: 'cached', species: 'Red Drum' }];
       await AsyncStorage.setItem('@catch_feed_cache', JSON.stringify(cachedEntries));
       await AsyncStorage.setItem('@catch_feed_cache_timestamp', Date.now().toString());
 
+      stubRows(null, { message: 'fail' });
+
+      const result = await fetchRecentCatches({ cursor });
+      expect(result.entries).toEqual([]);
+      expect(result.nextCursor).toEqual(cursor);
+    });
+  });
+
+  // ============================================================
+  // fetchRecentCatches – filters
+  // ============================================================
+  describe('fetchRecentCatches – filters', () => {
+    const row = {
+      report_id: 'r-1',
+      user_id: 'user-1',
+      first_name: 'Jane',
+      created_at: '2026-01-15T12:00:00Z',
+      fish_entries_json: [{ species: 'Southern Flounder', count: 1 }],
+    };
+
+    const stubChain = () => {
+      const chain = {
+        select: jest.fn().mockReturnThis(),
+        or: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        in: jest.fn().mockReturnThis(),
+        gte: jest.fn().mockReturnThis(),
+        lt: jest.fn().mockReturnThis(),
+        not: jest.fn().mockReturnThis(),
+        order: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockResolvedValue({ data: [row], error: null }),
+      };
+      (mockSupabase.from as jest.Mock).mockImplementation(() => chain);
+      return chain;
+    };
+
+    it('applies no filters to the unfiltered feed', async () => {
+      const chain = stubChain();
+
+      await fetchRecentCatches({ filter: {} });
+      expect(chain.or).not.toHaveBeenCalled();
+      expect(chain.eq).not.toHaveBeenCalled();
+      expect(chain.in).not.toHaveBeenCalled();
+    });
+
+    it('matches any selected species by count column or fish entry', async () => {
+      const chain = stubChain();
+
+      await fetchRecentCatches({ filter: { species: ['flounder', 'redDrum'] } });
+      expect(chain.or).toHaveBeenCalledWith([
+        'red_drum_count.gt.0',
+        'fish_entries_json.cs."[{\\"species\\":\\"Red Drum\\"}]"',
+        'flounder_count.gt.0',
+        'fish_entries_json.cs."[{\\"species\\":\\"Flounder\\"}]"',
+        'fish_entries_json.cs."[{\\"species\\":\\"Southern Flounder\\"}]"',
+      ].join(','));
+    });
+
+    it('filters by area, region, harvest date window, photos and source', async () => {
+      const chain = stubChain();
+
+      await fetchRecentCatches({
+        filter: {
+          areaCode: '5',
+          region: 'PAM',
+          dateFrom: '2026-01-10',
+          dateTo: '2026-01-31',
+          hasPhoto: true,
+          reportType: 'catch_log',
+        },
+      });
+      expect(chain.eq).toHaveBeenCalledWith('area_code', '5');
+      expect(chain.or).toHaveBeenCalledWith('region_code.eq.PAM,area_code.in.(3,13,29,33,34,52)');
+      expect(chain.gte).toHaveBeenCalledWith('harvest_date', '2026-01-10');
+      expect(chain.lt).toHaveBeenCalledWith('harvest_date', '2026-02-01');
+      expect(chain.not).toHaveBeenCalledWith('photo_url', 'is', null);
+      expect(chain.eq).toHaveBeenCalledWith('report_type', 'catch_log');
+    });
+
+    it('keeps the filter when paging and checking for new catches', async () => {
+      const chain = stubChain();
+      const cursor = { createdAt: '2026-01-15T12:00:00Z', id: 'r-1' };
+
+      await fetchRecentCatches({ cursor, filter: { areaCode: '5' } });
+      await fetchNewerCatches(cursor, { filter: { areaCode: '5' } });
+      expect(chain.eq).toHaveBeenCalledTimes(2);
+      expect(chain.eq).toHaveBeenCalledWith('area_code', '5');
+    });
+
+    it('only serves the cache for the filter it was saved with', async () => {
+      stubChain();
+      await fetchRecentCatches({ filter: { areaCode: '5' } });
+      expect(await AsyncStorage.getItem('@catch_feed_cache_filter')).toBe('area=5');
+
+      const chain = stubChain();
+      await fetchRecentCatches({ filter: { areaCode: '5' } });
+      expect(chain.limit).not.toHaveBeenCalled();
+
+      await fetchRecentCatches({ filter: {} });
+      expect(chain.limit).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  // ============================================================
+  // fetchNewerCatches
+  // ============================================================
+  describe('fetchNewerCatches', () => {
+    const head = { createdAt: '2026-01-15T12:00:00Z', id: 'r-head' };
+    const row = (id: string) => ({
+      report_id: id,
+      user_id: 'user-1',
+      first_name: 'Jane',
+      created_at: '2026-01-15T13:00:00Z',
+      fish_entries_json: [{ species: 'Red Drum', count: 1 }],
+    });
+
+    it('fetches catches strictly newer than the head cursor', async () => {
+      const chain = {
+        select: jest.fn().mockReturnThis(),
+        or: jest.fn().mockReturnThis(),
+        order: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockResolvedValue({ data: [row('r-new')], error: null }),
+      };
+      (mockSupabase.from as jest.Mock).mockImplementation(() => chain);
+
+      const result = await fetchNewerCatches(head);
+      expect(chain.or).toHaveBeenCalledWith(
+        'created_at.gt."2026-01-15T12:00:00Z",and(created_at.eq."2026-01-15T12:00:00Z",report_id.gt.r-head)'
+      );
+      expect(result).toEqual({ entries: [expect.objectContaining({ id: 'r-new' })], hasMore: false });
+    });
+
+    it('sets hasMore when there are more new catches than the limit', async () => {
       (mockSupabase.from as jest.Mock).mockImplementation(() => ({
         select: jest.fn().mockReturnThis(),
+        or: jest.fn().mockReturnThis(),
         order: jest.fn().mockReturnThis(),
-        range: jest.fn().mockResolvedValue({ data: null, error: { message: 'fail' } }),
+        limit: jest.fn().mockResolvedValue({ data: [row('a'), row('b'), row('c')], error: null }),
       }));
 
-      const result = await fetchRecentCatches({ offset: 12 });
-      expect(result.entries).toEqual([]);
-      expect(result.nextOffset).toBe(12);
+      const result = await fetchNewerCatches(head, { limit: 2 });
+      expect(result.entries).toHaveLength(2);
+      expect(result.hasMore).toBe(true);
+    });
+
+    it('returns nothing when offline or on error', async () => {
+      mockIsSupabaseConnected.mockResolvedValue(false);
+      expect(await fetchNewerCatches(head)).toEqual({ entries: [], hasMore: false });
+
+      mockIsSupabaseConnected.mockResolvedValue(true);
+      (mockSupabase.from as jest.Mock).mockImplementation(() => ({
+        select: jest.fn().mockReturnThis(),
+        or: jest.fn().mockReturnThis(),
+        order: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockResolvedValue({ data: null, error: { message: 'fail' } }),
+      }));
+      expect(await fetchNewerCatches(head)).toEqual({ entries: [], hasMore: false });
     });
   });
 
@@ -471,8 +659,9 @@ describe('catchFeedService', () => {
 
       (mockSupabase.from as jest.Mock).mockImplementation(() => ({
         select: jest.fn().mockReturnThis(),
+        or: jest.fn().mockReturnThis(),
         order: jest.fn().mockReturnThis(),
-        range: jest.fn().mockResolvedValue({ data: [freshRow], error: null }),
+        limit: jest.fn().mockResolvedValue({ data: [freshRow], error: null }),
       }));
 
       const result = await fetchRecentCatches();
@@ -500,8 +689,9 @@ describe('catchFeedService', () => {
 
       (mockSupabase.from as jest.Mock).mockImplementation(() => ({
         select: jest.fn().mockReturnThis(),
+        or: jest.fn().mockReturnThis(),
         order: jest.fn().mockReturnThis(),
-        range: jest.fn().mockResolvedValue({ data: [freshRow], error: null }),
+        limit: jest.fn().mockResolvedValue({ data: [freshRow], error: null }),
       }));
 
       const result = await fetchRecentCatches({ forceRefresh: true });
@@ -533,8 +723,9 @@ describe('catchFeedService', () => {
 
       (mockSupabase.from as jest.Mock).mockImplementation(() => ({
         select: jest.fn().mockReturnThis(),
+        or: jest.fn().mockReturnThis(),
         order: jest.fn().mockReturnThis(),
-        range: jest.fn().mockResolvedValue({ data: [row], error: null }),
+        limit: jest.fn().mockResolvedValue({ data: [row], error: null }),
       }));
 
       const result = await fetchRecentCatches();
@@ -568,8 +759,9 @@ describe('catchFeedService', () => {
 
       (mockSupabase.from as jest.Mock).mockImplementation(() => ({
         select: jest.fn().mockReturnThis(),
+        or: jest.fn().mockReturnThis(),
         order: jest.fn().mockReturnThis(),
-        range: jest.fn().mockResolvedValue({ data: [row], error: null }),
+        limit: jest.fn().mockResolvedValue({ data: [row], error: null }),
       }));
 
       const result = await fetchRecentCatches();
@@ -604,8 +796,9 @@ describe('catchFeedService', () => {
 
       (mockSupabase.from as jest.Mock).mockImplementation(() => ({
         select: jest.fn().mockReturnThis(),
+        or: jest.fn().mockReturnThis(),
         order: jest.fn().mockReturnThis(),
-        range: jest.fn().mockResolvedValue({ data: [row], error: null }),
+        limit: jest.fn().mockResolvedValue({ data: [row], error: null }),
       }));
 
       const result = await fetchRecentCatches();
@@ -634,8 +827,9 @@ describe('catchFeedService', () => {
 
       (mockSupabase.from as jest.Mock).mockImplementation(() => ({
         select: jest.fn().mockReturnThis(),
+        or: jest.fn().mockReturnThis(),
         order: jest.fn().mockReturnThis(),
-        range: jest.fn().mockResolvedValue({ data: [row], error: null }),
+        limit: jest.fn().mockResolvedValue({ data: [row], error: null }),
       }));
 
       const result = await fetchRecentCatches();
@@ -665,8 +859,9 @@ describe('catchFeedService', () => {
 
       (mockSupabase.from as jest.Mock).mockImplementation(() => ({
         select: jest.fn().mockReturnThis(),
+        or: jest.fn().mockReturnThis(),
         order: jest.fn().mockReturnThis(),
-        range: jest.fn().mockResolvedValue({ data: [row], error: null }),
+        limit: jest.fn().mockResolvedValue({ data: [row], error: null }),
       }));
 
       const result = await fetchRecentCatches();
@@ -691,8 +886,9 @@ describe('catchFeedService', () => {
 
       (mockSupabase.from as jest.Mock).mockImplementation(() => ({
         select: jest.fn().mockReturnThis(),
+        or: jest.fn().mockReturnThis(),
         order: jest.fn().mockReturnThis(),
-        range: jest.fn().mockResolvedValue({ data: [row], error: null }),
+        limit: jest.fn().mockResolvedValue({ data: [row], error: null }),
       }));
 
       const result = await fetchRecentCatches();
@@ -716,8 +912,9 @@ describe('catchFeedService', () => {
 
       (mockSupabase.from as jest.Mock).mockImplementation(() => ({
         select: jest.fn().mockReturnThis(),
+        or: jest.fn().mockReturnThis(),
         order: jest.fn().mockReturnThis(),
-        range: jest.fn().mockResolvedValue({ data: [row], error: null }),
+        limit: jest.fn().mockResolvedValue({ data: [row], error: null }),
       }));
 
       const result = await fetchRecentCatches();
@@ -736,8 +933,9 @@ describe('catchFeedService', () => {
 
       (mockSupabase.from as jest.Mock).mockImplementation(() => ({
         select: jest.fn().mockReturnThis(),
+        or: jest.fn().mockReturnThis(),
         order: jest.fn().mockReturnThis(),
-        range: jest.fn().mockResolvedValue({ data: null, error: { message: 'DB down' } }),
+        limit: jest.fn().mockResolvedValue({ data: null, error: { message: 'DB down' } }),
       }));
 
       const result = await fetchRecentCatches({ forceRefresh: true });
@@ -835,6 +1033,25 @@ describe('catchFeedService', () => {
   // fetchTopAnglers
   // ============================================================
   describe('fetchTopAnglers', () => {
+    const leaderRow = (overrides: Record<string, unknown>) => ({
+      rank: 1,
+      user_id: 'u-1',
+      first_name: 'Top',
+      last_name: 'Fisher',
+      profile_image_url: null,
+      value: 0,
+      is_viewer: false,
+      ...overrides,
+    });
+
+    // One leader per metric, keyed by the RPC's p_metric
+    const mockLeaders = (rows: Record<string, Record<string, unknown> | null>) => {
+      (mockSupabase as any).rpc = jest.fn((_fn: string, params: { p_metric: string }) => {
+        const row = rows[params.p_metric];
+        return Promise.resolve({ data: row ? [leaderRow(row)] : [], error: null });
+      });
+    };
+
     it('returns empty array when offline', async () => {
       mockIsSupabaseConnected.mockResolvedValue(false);
 
@@ -842,39 +1059,35 @@ describe('catchFeedService', () => {
       expect(anglers).toEqual([]);
     });
 
-    it('returns top anglers from leaderboard RPC', async () => {
-      const leaderboardData = [
-        {
-          user_id: 'u-1',
-          first_name: 'Top',
-          last_name: 'Fisher',
-          profile_image_url: 'https://example.com/pic.jpg',
-          total_fish: 25,
-          distinct_species: 3,
-        },
-        {
-          user_id: 'u-2',
-          first_name: 'Species',
-          last_name: 'King',
-          profile_image_url: null,
-          total_fish: 10,
-          distinct_species: 5,
-        },
-      ];
-
-      (mockSupabase as any).rpc = jest.fn().mockResolvedValue({
-        data: leaderboardData,
-        error: null,
+    it('returns the leader of each leaderboard', async () => {
+      mockLeaders({
+        catches: { user_id: 'u-1', first_name: 'Top', last_name: 'Fisher', profile_image_url: 'https://example.com/pic.jpg', value: 25 },
+        species: { user_id: 'u-2', first_name: 'Species', last_name: 'King', value: 5 },
+        length: { user_id: 'u-3', first_name: 'Big', last_name: 'One', value: '32.5' },
       });
 
       const anglers = await fetchTopAnglers();
-      expect(anglers).toHaveLength(2);
-      expect(anglers[0].type).toBe('catches');
-      expect(anglers[0].displayName).toBe('Top F.');
-      expect(anglers[0].value).toBe(25);
-      expect(anglers[1].type).toBe('species');
-      expect(anglers[1].displayName).toBe('Species K.');
-      expect(anglers[1].value).toBe(5);
+      expect(anglers).toHaveLength(3);
+      expect(anglers[0]).toMatchObject({ type: 'catches', displayName: 'Top F.', value: 25, label: 'catches', profileImage: 'https://example.com/pic.jpg' });
+      expect(anglers[1]).toMatchObject({ type: 'species', displayName: 'Species K.', value: 5, label: 'species' });
+      expect(anglers[2]).toMatchObject({ type: 'length', displayName: 'Big O.', value: '32.5"', label: 'longest' });
+    });
+
+    it('asks for the current quarter, one row per metric', async () => {
+      mockLeaders({});
+
+      await fetchTopAnglers();
+
+      const rpc = (mockSupabase as any).rpc as jest.Mock;
+      expect(rpc).toHaveBeenCalledTimes(3);
+      expect(rpc.mock.calls.map((c) => c[1].p_metric)).toEqual(['catches', 'species', 'length']);
+      const now = new Date();
+      const quarterStart = new Date(now.getFullYear(), Math.floor(now.getMonth() / 3) * 3, 1);
+      const expectedSince = `${quarterStart.getFullYear()}-${String(quarterStart.getMonth() + 1).padStart(2, '0')}-01`;
+      rpc.mock.calls.forEach((c) => {
+        expect(c[0]).toBe('get_leaderboard_rankings');
+        expect(c[1]).toMatchObject({ p_since: expectedSince, p_limit: 1, p_species: null, p_area_codes: null });
+      });
     });
 
     it('returns empty array when RPC errors', async () => {
@@ -888,10 +1101,7 @@ describe('catchFeedService', () => {
     });
 
     it('returns empty array when leaderboard data is empty', async () => {
-      (mockSupabase as any).rpc = jest.fn().mockResolvedValue({
-        data: [],
-        error: null,
-      });
+      mockLeaders({});
 
       const anglers = await fetchTopAnglers();
       expect(anglers).toEqual([]);
@@ -904,29 +1114,87 @@ describe('catchFeedService', () => {
       expect(anglers).toEqual([]);
     });
 
-    it('uses singular "catch" label for value of 1', async () => {
-      const leaderboardData = [
-        {
-          user_id: 'u-1',
-          first_name: 'Solo',
-          last_name: null,
-          profile_image_url: null,
-          total_fish: 1,
-          distinct_species: 0,
-        },
-      ];
-
-      (mockSupabase as any).rpc = jest.fn().mockResolvedValue({
-        data: leaderboardData,
-        error: null,
+    it('skips leaderboards without a positive value', async () => {
+      mockLeaders({
+        catches: { value: 4 },
+        species: { value: 0 },
+        length: null,
       });
 
+      const anglers = await fetchTopAnglers();
+      expect(anglers.map((a) => a.type)).toEqual(['catches']);
+    });
+
+    it('uses singular "catch" label for value of 1', async () => {
+      mockLeaders({ catches: { first_name: 'Solo', last_name: null, value: 1 } });
+
       const anglers = await fetchTopAnglers();
       expect(anglers).toHaveLength(1);
+      expect(anglers[0].displayName).toBe('Solo');
       expect(anglers[0].label).toBe('catch');
     });
   });
 
+  // ============================================================
+  // fetchReactionsForCatches / setCatchReaction
+  // ============================================================
+  describe('fetchReactionsForCatches', () => {
+    it('counts each reaction and finds the viewer\'s own', async () => {
+      (mockSupabase.from as jest.Mock).mockImplementation(() => ({
+        select: jest.fn().mockReturnThis(),
+        in: jest.fn().mockResolvedValue({
+          data: [
+            { catch_id: 'c-1', user_id: 'me', reaction: 'big_one' },
+            { catch_id: 'c-1', user_id: 'u-2', reaction: 'big_one' },
+            { catch_id: 'c-1', user_id: 'u-3', reaction: null },
+          ],
+          error: null,
+        }),
+      }));
+
+      const reactions = await fetchReactionsForCatches(['c-1', 'c-2'], 'me');
+
+      expect(reactions.get('c-1')).toEqual({
+        count: 3,
+        isLiked: true,
+        counts: { big_one: 2, nice_fish: 1 },
+        myReaction: 'big_one',
+      });
+      expect(reactions.get('c-2')).toEqual({ count: 0, isLiked: false, counts: {}, myReaction: null });
+    });
+  });
+
+  describe('setCatchReaction', () => {
+    it('upserts the reaction and returns the refreshed totals', async () => {
+      const upsert = jest.fn().mockResolvedValue({ error: null });
+      (mockSupabase.from as jest.Mock)
+        .mockReturnValueOnce({ upsert })
+        .mockReturnValueOnce({
+          select: jest.fn().mockReturnThis(),
+          in: jest.fn().mockResolvedValue({
+            data: [{ catch_id: 'c-1', user_id: 'me', reaction: 'good_eats' }],
+            error: null,
+          }),
+        });
+
+      const summary = await setCatchReaction('c-1', 'me', 'good_eats');
+
+      expect(upsert).toHaveBeenCalledWith(
+        { catch_id: 'c-1', user_id: 'me', reaction: 'good_eats' },
+        { onConflict: 'catch_id,user_id' },
+      );
+      expect(summary).toEqual({ count: 1, isLiked: true, counts: { good_eats: 1 }, myReaction: 'good_eats' });
+    });
+
+    it('returns null when the upsert fails', async () => {
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce({
+        upsert: jest.fn().mockResolvedValue({ error: { message: 'denied' } }),
+      });
+
+      expect(await setCatchReaction('c-1', 'me', 'jealous')).toBeNull();
+    });
+  });
+
   // ============================================================
   // enrichCatchesWithLikes
   // ============================================================
@@ -982,5 +1250,77 @@ describe('catchFeedService', () => {
       const profile = await fetchAnglerProfile('user-1');
       expect(profile).toBeNull();
     });
+
+    it('reads catches through v_catch_feed so feed privacy applies', async () => {
+      const reportsChain = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        order: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockResolvedValue({
+          data: [{
+            report_id: 'r-1',
+            user_id: 'user-1',
+            first_name: 'Jane',
+            last_name: 'Doe',
+            area_label: 'Crystal Coast',
+            created_at: '2026-01-15T12:00:00Z',
+            fish_entries_json: [{ species: 'Red Drum', count: 2 }],
+            like_count: 3,
+          }],
+          error: null,
+        }),
+      };
+      (mockSupabase.from as jest.Mock).mockImplementation((table: string) => {
+        if (table === 'v_catch_feed') return reportsChain;
+        return {
+          select: jest.fn().mockReturnThis(),
+          eq: jest.fn().mockReturnThis(),
+          single: jest.fn().mockResolvedValue({
+            data: { id: 'user-1', first_name: 'Jane', last_name: 'Doe', created_at: '2025-01-01T00:00:00Z' },
+            error: null,
+          }),
+          order: jest.fn().mockResolvedValue({ data: [], error: null }),
+        };
+      });
+
+      const profile = await fetchAnglerProfile('user-1');
+
+      expect(mockSupabase.from).not.toHaveBeenCalledWith('harvest_reports');
+      expect(reportsChain.eq).toHaveBeenCalledWith('user_id', 'user-1');
+      expect(profile?.totalCatches).toBe(2);
+      expect(profile?.recentCatches).toEqual([
+        expect.objectContaining({ id: 'r-1', location: 'Crystal Coast', likeCount: 3 }),
+      ]);
+    });
+  });
+
+  // ============================================================
+  // reportCatch
+  // ============================================================
+  describe('reportCatch', () => {
+    it('inserts a report with its reason code', async () => {
+      const insert = jest.fn().mockResolvedValue({ error: null });
+      (mockSupabase.from as jest.Mock).mockReturnValue({ insert });
+
+      await reportCatch('r-1', 'user-2', 'illegal_harvest', 'Undersized flounder');
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('catch_reports');
+      expect(insert).toHaveBeenCalledWith({
+        report_id: 'r-1',
+        reporter_id: 'user-2',
+        reason_code: 'illegal_harvest',
+        details: 'Undersized flounder',
+      });
+    });
+
+    it('treats a repeat report as success and throws on other errors', async () => {
+      const insert = jest.fn()
+        .mockResolvedValueOnce({ error: { code: '23505', message: 'duplicate key' } })
+        .mockResolvedValueOnce({ error: { code: '42501', message: 'denied' } });
+      (mockSupabase.from as jest.Mock).mockReturnValue({ insert });
+
+      await expect(reportCatch('r-1', 'user-2', 'spam')).resolves.toBeUndefined();
+      await expect(reportCatch('r-1', 'user-2', 'spam')).rejects.toThrow('Failed to report catch: denied');
+    });
   });
 });
@@ -0,0 +1,192 @@
+/**
+ * commentsService.test.ts - Catch comment replies, edits, mentions and reports
+ */
+import { mockSupabase } from '../mocks/supabase';
+
+import {
+  fetchComments,
+  addComment,
+  editComment,
+  fetchCommentHistory,
+  reportComment,
+} from '../../src/services/commentsService';
+
+const makeRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'c-1',
+  report_id: 'r-1',
+  user_id: 'user-1',
+  parent_id: null,
+  text: 'Nice fish @Sam R.',
+  created_at: '2026-01-15T12:00:00Z',
+  updated_at: '2026-01-15T12:00:00Z',
+  users: { first_name: 'Jane', last_name: 'Doe', profile_image_url: null },
+  comment_mentions: [
+    { mentioned_user_id: 'user-2', users: { first_name: 'Sam', last_name: 'Reed' } },
+  ],
+  ...overrides,
+});
+
+// Thenable query chain resolving to `result`
+const chain = (result: unknown) => {
+  const q: any = {};
+  ['select', 'insert', 'update', 'upsert', 'eq', 'order'].forEach((m) => {
+    q[m] = jest.fn(() => q);
+  });
+  q.single = jest.fn(() => Promise.resolve(result));
+  q.then = (resolve: (v: unknown) => unknown, reject?: (e: unknown) => unknown) =>
+    Promise.resolve(result).then(resolve, reject);
+  return q;
+};
+
+describe('commentsService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('fetchComments', () => {
+    it('maps parent, mentions and the edited marker', async () => {
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(chain({
+        data: [
+          makeRow(),
+          makeRow({
+            id: 'c-2',
+            parent_id: 'c-1',
+            updated_at: '2026-01-15T13:00:00Z',
+            comment_mentions: [],
+          }),
+        ],
+        error: null,
+      }));
+
+      const comments = await fetchComments('r-1', 'user-1');
+
+      expect(comments[0]).toEqual(expect.objectContaining({
+        id: 'c-1',
+        parentId: null,
+        editedAt: undefined,
+        isOwn: true,
+        mentions: [{ userId: 'user-2', displayName: 'Sam R.' }],
+      }));
+      expect(comments[1]).toEqual(expect.objectContaining({
+        parentId: 'c-1',
+        editedAt: '2026-01-15T13:00:00Z',
+        mentions: [],
+      }));
+    });
+  });
+
+  describe('addComment', () => {
+    it('inserts a reply and records mentions of other anglers', async () => {
+      const insertQuery = chain({ data: makeRow({ parent_id: 'c-0', comment_mentions: [] }), error: null });
+      const mentionsQuery = chain({ error: null });
+      (mockSupabase.from as jest.Mock)
+        .mockReturnValueOnce(insertQuery)
+        .mockReturnValueOnce(mentionsQuery);
+
+      const mentions = [
+        { userId: 'user-2', displayName: 'Sam R.' },
+        { userId: 'user-1', displayName: 'Jane D.' },
+      ];
+      const comment = await addComment('r-1', 'user-1', 'Nice fish @Sam R.', {
+        parentId: 'c-0',
+        mentions,
+      });
+
+      expect(insertQuery.insert).toHaveBeenCalledWith({
+        report_id: 'r-1',
+        user_id: 'user-1',
+        parent_id: 'c-0',
+        text: 'Nice fish @Sam R.',
+      });
+      expect(mockSupabase.from).toHaveBeenLastCalledWith('comment_mentions');
+      expect(mentionsQuery.upsert).toHaveBeenCalledWith(
+        [{ comment_id: 'c-1', mentioned_user_id: 'user-2' }],
+        { onConflict: 'comment_id,mentioned_user_id', ignoreDuplicates: true },
+      );
+      expect(comment.parentId).toBe('c-0');
+      expect(comment.mentions).toEqual(mentions);
+    });
+
+    it('keeps the comment when recording mentions fails', async () => {
+      (mockSupabase.from as jest.Mock)
+        .mockReturnValueOnce(chain({ data: makeRow({ comment_mentions: [] }), error: null }))
+        .mockReturnValueOnce(chain({ error: { message: 'denied' } }));
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const comment = await addComment('r-1', 'user-1', 'hi @Sam R.', {
+        mentions: [{ userId: 'user-2', displayName: 'Sam R.' }],
+      });
+
+      expect(comment.id).toBe('c-1');
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it('skips the mentions write when nobody is mentioned', async () => {
+      (mockSupabase.from as jest.Mock)
+        .mockReturnValueOnce(chain({ data: makeRow({ comment_mentions: [] }), error: null }));
+
+      await addComment('r-1', 'user-1', 'Nice fish');
+
+      expect(mockSupabase.from).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('editComment', () => {
+    it('updates the text and returns the edited comment', async () => {
+      const updateQuery = chain({
+        data: makeRow({ text: 'Edited', updated_at: '2026-01-15T13:00:00Z', comment_mentions: [] }),
+        error: null,
+      });
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(updateQuery);
+
+      const comment = await editComment('c-1', 'user-1', 'Edited');
+
+      expect(updateQuery.update).toHaveBeenCalledWith({ text: 'Edited' });
+      expect(updateQuery.eq).toHaveBeenCalledWith('id', 'c-1');
+      expect(comment.text).toBe('Edited');
+      expect(comment.editedAt).toBe('2026-01-15T13:00:00Z');
+    });
+
+    it('throws on error', async () => {
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(
+        chain({ data: null, error: { message: 'not allowed' } }),
+      );
+
+      await expect(editComment('c-1', 'user-1', 'x')).rejects.toThrow('Failed to edit comment: not allowed');
+    });
+  });
+
+  describe('fetchCommentHistory', () => {
+    it('maps previous versions newest first', async () => {
+      const historyQuery = chain({
+        data: [{ previous_text: 'Original', edited_at: '2026-01-15T13:00:00Z' }],
+        error: null,
+      });
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(historyQuery);
+
+      const history = await fetchCommentHistory('c-1');
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('catch_comment_edits');
+      expect(historyQuery.order).toHaveBeenCalledWith('edited_at', { ascending: false });
+      expect(history).toEqual([{ text: 'Original', editedAt: '2026-01-15T13:00:00Z' }]);
+    });
+  });
+
+  describe('reportComment', () => {
+    it('sends the reason code with optional details', async () => {
+      const reportQuery = chain({ error: null });
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(reportQuery);
+
+      await reportComment('c-1', 'user-2', 'harassment');
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('comment_reports');
+      expect(reportQuery.insert).toHaveBeenCalledWith({
+        comment_id: 'c-1',
+        reporter_id: 'user-2',
+        reason_code: 'harassment',
+        reason: null,
+      });
+    });
+  });
+});
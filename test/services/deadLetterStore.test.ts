@@ -0,0 +1,112 @@
+/**
+ * deadLetterStore.test.ts - Dead-letter store tests
+ *
+ * Tests storage of reports that exhausted their retries and text export.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { makeQueuedReport } from '../factories';
+
+import {
+  addToDeadLetter,
+  getDeadLetters,
+  getDeadLetterCount,
+  getDeadLetter,
+  removeDeadLetter,
+  clearDeadLetters,
+  formatDeadLetterForExport,
+} from '../../src/services/deadLetterStore';
+
+describe('deadLetterStore', () => {
+  describe('addToDeadLetter', () => {
+    it('stores the report with a dead-lettered timestamp', async () => {
+      await addToDeadLetter(makeQueuedReport({ localConfirmationNumber: 'A', retryCount: 3 }));
+
+      const reports = await getDeadLetters();
+      expect(reports).toHaveLength(1);
+      expect(reports[0].localConfirmationNumber).toBe('A');
+      expect(reports[0].retryCount).toBe(3);
+      expect(reports[0].deadLetteredAt).toBeDefined();
+    });
+
+    it('keeps the most recent report first', async () => {
+      await addToDeadLetter(makeQueuedReport({ localConfirmationNumber: 'A' }));
+      await addToDeadLetter(makeQueuedReport({ localConfirmationNumber: 'B' }));
+
+      expect((await getDeadLetters()).map(r => r.localConfirmationNumber)).toEqual(['B', 'A']);
+    });
+
+    it('replaces an existing entry for the same report', async () => {
+      await addToDeadLetter(makeQueuedReport({ localConfirmationNumber: 'A', lastError: 'first' }));
+      await addToDeadLetter(makeQueuedReport({ localConfirmationNumber: 'A', lastError: 'second' }));
+
+      const reports = await getDeadLetters();
+      expect(reports).toHaveLength(1);
+      expect(reports[0].lastError).toBe('second');
+    });
+  });
+
+  describe('getDeadLetters', () => {
+    it('returns an empty list when nothing is stored', async () => {
+      expect(await getDeadLetters()).toEqual([]);
+      expect(await getDeadLetterCount()).toBe(0);
+    });
+
+    it('handles corrupted JSON gracefully', async () => {
+      await AsyncStorage.setItem('@harvest_dead_letter', 'invalid json');
+      expect(await getDeadLetters()).toEqual([]);
+    });
+  });
+
+  describe('getDeadLetter / removeDeadLetter', () => {
+    it('finds and removes a report by local confirmation number', async () => {
+      await addToDeadLetter(makeQueuedReport({ localConfirmationNumber: 'A' }));
+      await addToDeadLetter(makeQueuedReport({ localConfirmationNumber: 'B' }));
+
+      expect((await getDeadLetter('A'))?.localConfirmationNumber).toBe('A');
+      expect(await removeDeadLetter('A')).toBe(true);
+      expect(await getDeadLetter('A')).toBeUndefined();
+      expect(await getDeadLetterCount()).toBe(1);
+    });
+
+    it('returns false when removing an unknown report', async () => {
+      expect(await removeDeadLetter('NOPE')).toBe(false);
+    });
+  });
+
+  describe('clearDeadLetters', () => {
+    it('removes all reports', async () => {
+      await addToDeadLetter(makeQueuedReport());
+      await clearDeadLetters();
+      expect(await getDeadLetters()).toEqual([]);
+    });
+  });
+
+  describe('formatDeadLetterForExport', () => {
+    it('includes the harvest details and every error', async () => {
+      await addToDeadLetter(makeQueuedReport({
+        localConfirmationNumber: 'A',
+        wrcId: 'WRC123',
+        redDrumCount: 2,
+        errorHistory: [
+          { at: '2026-01-01T00:00:00.000Z', error: 'Network error' },
+          { at: '2026-01-02T00:00:00.000Z', error: 'Invalid Area' },
+        ],
+      }));
+      const [report] = await getDeadLetters();
+
+      const text = formatDeadLetterForExport(report);
+      expect(text).toContain('Local confirmation #: A');
+      expect(text).toContain('WRC ID: WRC123');
+      expect(text).toContain('Red Drum: 2');
+      expect(text).toContain('Submission errors (2):');
+      expect(text).toContain('2026-01-02T00:00:00.000Z: Invalid Area');
+    });
+
+    it('falls back to the last error for reports without a history', async () => {
+      await addToDeadLetter(makeQueuedReport({ lastError: 'Timeout' }));
+      const [report] = await getDeadLetters();
+
+      expect(formatDeadLetterForExport(report)).toContain('Submission errors (1):');
+    });
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * deviceMergeService.test.ts - Device secrets, merge requests, token confirmation and reuse
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { mockSupabase } from '../mocks/supabase';
+
+jest.mock('../../src/utils/deviceId', () => ({
+  getDeviceId: jest.fn().mockResolvedValue('device-123'),
+}));
+
+jest.mock('../../src/services/anonymousUserService', () => ({
+  getAnonymousUser: jest.fn().mockResolvedValue({
+    id: 'anon-123', deviceId: 'device-123',
+    createdAt: '2026-01-01', lastActiveAt: '2026-01-01',
+    dismissedRewardsPrompt: false,
+  }),
+}));
+
+import { getDeviceId } from '../../src/utils/deviceId';
+import {
+  ensureDeviceSecret,
+  requestDeviceMerge,
+  confirmDeviceMerge,
+  mergeDeviceIntoAccount,
+  getPendingDeviceMerge,
+} from '../../src/services/deviceMergeService';
+
+const requestRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'merge-1',
+  device_id: 'device-123',
+  email: 'angler@example.com',
+  status: 'pending',
+  merge_token: 'token-1',
+  expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  source_user_id: 'device-user',
+  anonymous_user_id: 'anon-123',
+  target_user_id: 'email-user',
+  created_at: '2026-10-01T12:00:00Z',
+  completed_at: null,
+  ...overrides,
+});
+
+const mergeResult = {
+  request_id: 'merge-1',
+  target_user_id: 'email-user',
+  reports_merged: 4,
+  achievements_merged: 2,
+  entries_merged: 1,
+  follows_merged: 3,
+};
+
+describe('deviceMergeService', () => {
+  beforeEach(async () => {
+    (mockSupabase as any).rpc = jest.fn();
+    await SecureStore.deleteItemAsync('deviceMergeSecret');
+    await SecureStore.setItemAsync(
+      'deviceMergeSecret',
+      JSON.stringify({ deviceId: 'device-123', secret: 'secret-123' })
+    );
+  });
+
+  const rpc = () => (mockSupabase as any).rpc as jest.Mock;
+
+  describe('ensureDeviceSecret', () => {
+    it('returns the stored secret without registering again', async () => {
+      await expect(ensureDeviceSecret()).resolves.toBe('secret-123');
+      expect(rpc()).not.toHaveBeenCalled();
+    });
+
+    it('registers the device and keeps the secret', async () => {
+      await SecureStore.deleteItemAsync('deviceMergeSecret');
+      rpc().mockResolvedValueOnce({ data: 'new-secret', error: null });
+
+      await expect(ensureDeviceSecret()).resolves.toBe('new-secret');
+      expect(rpc()).toHaveBeenCalledWith('register_device_secret', { p_device_id: 'device-123' });
+      expect(JSON.parse((await SecureStore.getItemAsync('deviceMergeSecret'))!)).toEqual({
+        deviceId: 'device-123',
+        secret: 'new-secret',
+      });
+    });
+
+    it('registers again when the stored secret is for another device', async () => {
+      (getDeviceId as jest.Mock).mockResolvedValueOnce('device-456');
+      rpc().mockResolvedValueOnce({ data: 'other-secret', error: null });
+
+      await expect(ensureDeviceSecret()).resolves.toBe('other-secret');
+      expect(rpc()).toHaveBeenCalledWith('register_device_secret', { p_device_id: 'device-456' });
+    });
+
+    it('returns null when the device is already registered elsewhere', async () => {
+      await SecureStore.deleteItemAsync('deviceMergeSecret');
+      rpc().mockResolvedValueOnce({ data: null, error: null });
+
+      await expect(ensureDeviceSecret()).resolves.toBeNull();
+      expect(await SecureStore.getItemAsync('deviceMergeSecret')).toBeNull();
+    });
+
+    it('throws on RPC errors', async () => {
+      await SecureStore.deleteItemAsync('deviceMergeSecret');
+      rpc().mockResolvedValueOnce({ data: null, error: { message: 'A device is required' } });
+
+      await expect(ensureDeviceSecret()).rejects.toThrow(
+        'Failed to register device: A device is required'
+      );
+    });
+  });
+
+  describe('requestDeviceMerge', () => {
+    it('creates a request for this device and keeps it until confirmed', async () => {
+      rpc().mockResolvedValueOnce({ data: requestRow(), error: null });
+
+      const request = await requestDeviceMerge('angler@example.com', 'device-user');
+
+      expect(rpc()).toHaveBeenCalledWith('create_device_merge_request', {
+        p_email: 'angler@example.com',
+        p_device_id: 'device-123',
+        p_device_secret: 'secret-123',
+        p_source_user_id: 'device-user',
+        p_anonymous_user_id: 'anon-123',
+      });
+      expect(request?.mergeToken).toBe('token-1');
+      expect(request?.targetUserId).toBe('email-user');
+      expect((await getPendingDeviceMerge())?.id).toBe('merge-1');
+    });
+
+    it('returns null when the device has nothing to merge', async () => {
+      rpc().mockResolvedValueOnce({ data: { id: null }, error: null });
+
+      await expect(requestDeviceMerge('angler@example.com', null)).resolves.toBeNull();
+      expect(await getPendingDeviceMerge()).toBeNull();
+    });
+
+    it('throws on RPC errors', async () => {
+      rpc().mockResolvedValueOnce({ data: null, error: { message: 'Account not found' } });
+
+      await expect(requestDeviceMerge('angler@example.com', null)).rejects.toThrow(
+        'Failed to create merge request: Account not found'
+      );
+    });
+
+    it('refuses to request without a device secret', async () => {
+      await SecureStore.deleteItemAsync('deviceMergeSecret');
+      rpc().mockResolvedValueOnce({ data: null, error: null });
+
+      await expect(requestDeviceMerge('angler@example.com', 'device-user')).rejects.toThrow(
+        'Failed to create merge request: This device could not be verified'
+      );
+      expect(rpc()).not.toHaveBeenCalledWith('create_device_merge_request', expect.anything());
+      expect(await getPendingDeviceMerge()).toBeNull();
+    });
+
+    it('surfaces a rejected device secret', async () => {
+      rpc().mockResolvedValueOnce({
+        data: null,
+        error: { message: 'This device could not be verified' },
+      });
+
+      await expect(requestDeviceMerge('angler@example.com', 'device-user')).rejects.toThrow(
+        'Failed to create merge request: This device could not be verified'
+      );
+      expect(await getPendingDeviceMerge()).toBeNull();
+    });
+
+    it('surfaces a source user that is not on this device', async () => {
+      rpc().mockResolvedValueOnce({
+        data: null,
+        error: { message: 'This account is not linked to this device' },
+      });
+
+      await expect(requestDeviceMerge('angler@example.com', 'someone-else')).rejects.toThrow(
+        'Failed to create merge request: This account is not linked to this device'
+      );
+    });
+  });
+
+  describe('confirmDeviceMerge', () => {
+    it('maps the merge result and clears the pending request', async () => {
+      rpc()
+        .mockResolvedValueOnce({ data: requestRow(), error: null })
+        .mockResolvedValueOnce({ data: mergeResult, error: null });
+      await requestDeviceMerge('angler@example.com', 'device-user');
+
+      const result = await confirmDeviceMerge('token-1');
+
+      expect(rpc()).toHaveBeenLastCalledWith('confirm_device_merge', { p_merge_token: 'token-1' });
+      expect(result).toEqual({
+        requestId: 'merge-1',
+        targetUserId: 'email-user',
+        reportsMerged: 4,
+        achievementsMerged: 2,
+        entriesMerged: 1,
+        followsMerged: 3,
+      });
+      expect(await getPendingDeviceMerge()).toBeNull();
+    });
+
+    it('throws on RPC errors', async () => {
+      rpc().mockResolvedValueOnce({ data: null, error: { message: 'Merge token has expired' } });
+
+      await expect(confirmDeviceMerge('token-1')).rejects.toThrow(
+        'Failed to merge device history: Merge token has expired'
+      );
+    });
+  });
+
+  describe('getPendingDeviceMerge', () => {
+    it('drops expired requests', async () => {
+      rpc().mockResolvedValueOnce({
+        data: requestRow({ expires_at: '2026-01-01T00:00:00Z' }),
+        error: null,
+      });
+      await requestDeviceMerge('angler@example.com', 'device-user');
+
+      expect(await getPendingDeviceMerge()).toBeNull();
+      expect(await AsyncStorage.getItem('@pending_device_merge')).toBeNull();
+    });
+  });
+
+  describe('mergeDeviceIntoAccount', () => {
+    it('confirms the pending request for the same email and source', async () => {
+      rpc().mockResolvedValueOnce({ data: requestRow(), error: null });
+      await requestDeviceMerge('angler@example.com', 'device-user');
+      rpc().mockClear();
+      rpc().mockResolvedValueOnce({ data: mergeResult, error: null });
+
+      const result = await mergeDeviceIntoAccount('Angler@Example.com', 'device-user');
+
+      expect(rpc()).toHaveBeenCalledTimes(1);
+      expect(rpc()).toHaveBeenCalledWith('confirm_device_merge', { p_merge_token: 'token-1' });
+      expect(result?.reportsMerged).toBe(4);
+    });
+
+    it('makes a new request when the pending one is for another source', async () => {
+      rpc().mockResolvedValueOnce({ data: requestRow(), error: null });
+      await requestDeviceMerge('angler@example.com', 'device-user');
+      rpc()
+        .mockResolvedValueOnce({
+          data: requestRow({ id: 'merge-2', merge_token: 'token-2', source_user_id: null }),
+          error: null,
+        })
+        .mockResolvedValueOnce({ data: mergeResult, error: null });
+
+      await mergeDeviceIntoAccount('angler@example.com', null);
+
+      expect(rpc()).toHaveBeenCalledWith('create_device_merge_request', expect.objectContaining({
+        p_source_user_id: null,
+      }));
+      expect(rpc()).toHaveBeenLastCalledWith('confirm_device_merge', { p_merge_token: 'token-2' });
+    });
+
+    it('returns null without confirming when there is nothing to merge', async () => {
+      rpc().mockResolvedValueOnce({ data: { id: null }, error: null });
+
+      await expect(mergeDeviceIntoAccount('angler@example.com', null)).resolves.toBeNull();
+      expect(rpc()).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * dmfErrorClassifier.test.ts - DMF failure classification tests
+ */
+import {
+  classifyDMFError,
+  getActionableErrorMessage,
+} from '../../src/services/dmfErrorClassifier';
+
+describe('dmfErrorClassifier', () => {
+  describe('classifyDMFError', () => {
+    it.each([
+      ['Network request failed', true],
+      ['Device is offline', true],
+      ['Simulated failure for testing', true],
+      ['No result returned for report', true],
+      ['HTTP 503: Service Unavailable', true],
+      ['HTTP 429: Too Many Requests', true],
+      ['ArcGIS 500: Unable to complete operation.', true],
+      ['Unable to complete operation.', false],
+      ['Network error', false],
+    ])('treats "%s" (queued=%s) as transient', (error, queued) => {
+      expect(classifyDMFError({ error, queued })).toBe('transient');
+    });
+
+    it.each([
+      'Setting of value for Area failed.',
+      'Field Unique1 cannot be null.',
+      'Invalid Area',
+    ])('treats ArcGIS rejection "%s" as permanent', (error) => {
+      expect(classifyDMFError({ error })).toBe('permanent');
+    });
+
+    it('treats HTTP client errors as permanent', () => {
+      expect(classifyDMFError({ error: 'HTTP 413: Payload Too Large', queued: true })).toBe('permanent');
+    });
+
+    it.each([
+      'HTTP 401: Unauthorized',
+      'HTTP 403: Forbidden',
+      'HTTP 404: Not Found',
+      'ArcGIS 498: Invalid token.',
+      'ArcGIS 499: Token Required',
+      'Service not found',
+    ])('treats "%s" as an auth/config error', (error) => {
+      expect(classifyDMFError({ error, queued: true })).toBe('config');
+    });
+
+    it('treats a failure without an error message as transient', () => {
+      expect(classifyDMFError({})).toBe('transient');
+    });
+  });
+
+  describe('getActionableErrorMessage', () => {
+    it('includes the DMF error for permanent rejections', () => {
+      expect(getActionableErrorMessage('permanent', 'Invalid Area')).toContain('Invalid Area');
+    });
+
+    it('tells the user the report is saved for config errors', () => {
+      expect(getActionableErrorMessage('config')).toMatch(/report is saved/);
+    });
+
+    it('promises an automatic retry for transient errors', () => {
+      expect(getActionableErrorMessage('transient')).toMatch(/retried automatically/);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * dmfSubmissionLedger.test.ts - DMF submission ledger tests
+ *
+ * Tests attempt recording, concurrent writes, ambiguity detection, and pruning.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import {
+  getLedger,
+  getLedgerEntry,
+  hasAmbiguousAttempt,
+  beginSubmissionAttempt,
+  completeSubmissionAttempt,
+  pruneLedger,
+  clearLedger,
+} from '../../src/services/dmfSubmissionLedger';
+import type { DMFSubmissionIdentity } from '../../src/types/harvestReport';
+
+const identity: DMFSubmissionIdentity = {
+  globalId: '{AAAAAAAA-BBBB-CCCC-DDDD-EEEEEEEEEEEE}',
+  dateS: '15',
+  rand: '1234',
+  confirmationNumber: '151234',
+};
+
+describe('dmfSubmissionLedger', () => {
+  describe('beginSubmissionAttempt', () => {
+    it('creates a pending entry with an in-flight attempt', async () => {
+      await beginSubmissionAttempt(identity);
+
+      const entry = await getLedgerEntry(identity.globalId);
+      expect(entry?.status).toBe('pending');
+      expect(entry?.confirmationNumber).toBe('151234');
+      expect(entry?.attempts).toHaveLength(1);
+      expect(entry?.attempts[0].outcome).toBe('in_flight');
+    });
+
+    it('appends to an existing entry', async () => {
+      await beginSubmissionAttempt(identity);
+      await completeSubmissionAttempt(identity, { outcome: 'failed', error: 'Network request failed' });
+      await beginSubmissionAttempt(identity);
+
+      const entry = await getLedgerEntry(identity.globalId);
+      expect(entry?.attempts.map(a => a.outcome)).toEqual(['failed', 'in_flight']);
+    });
+  });
+
+  describe('completeSubmissionAttempt', () => {
+    it('resolves the in-flight attempt and marks the entry submitted', async () => {
+      await beginSubmissionAttempt(identity);
+      await completeSubmissionAttempt(identity, { outcome: 'submitted', objectId: 42 });
+
+      const entry = await getLedgerEntry(identity.globalId);
+      expect(entry?.status).toBe('submitted');
+      expect(entry?.objectId).toBe(42);
+      expect(entry?.attempts).toHaveLength(1);
+      expect(entry?.attempts[0]).toMatchObject({ outcome: 'submitted', objectId: 42 });
+    });
+
+    it('appends a new attempt when nothing is in flight', async () => {
+      await beginSubmissionAttempt(identity);
+      await completeSubmissionAttempt(identity, { outcome: 'failed', error: 'timeout' });
+      await completeSubmissionAttempt(identity, { outcome: 'already_submitted', objectId: 7 });
+
+      const entry = await getLedgerEntry(identity.globalId);
+      expect(entry?.attempts.map(a => a.outcome)).toEqual(['failed', 'already_submitted']);
+      expect(entry?.status).toBe('submitted');
+      expect(entry?.objectId).toBe(7);
+    });
+
+    it('keeps the entry pending on rejection', async () => {
+      await beginSubmissionAttempt(identity);
+      await completeSubmissionAttempt(identity, { outcome: 'rejected', error: 'Invalid Area' });
+
+      const entry = await getLedgerEntry(identity.globalId);
+      expect(entry?.status).toBe('pending');
+      expect(entry?.attempts[0].error).toBe('Invalid Area');
+    });
+  });
+
+  describe('concurrent writes', () => {
+    it('keeps every entry when two submissions write at once', async () => {
+      const other: DMFSubmissionIdentity = {
+        ...identity,
+        globalId: '{11111111-2222-3333-4444-555555555555}',
+        confirmationNumber: '155678',
+      };
+
+      await Promise.all([
+        beginSubmissionAttempt(identity),
+        beginSubmissionAttempt(other),
+        completeSubmissionAttempt(identity, { outcome: 'submitted', objectId: 1 }),
+        completeSubmissionAttempt(other, { outcome: 'failed', error: 'Network request failed' }),
+      ]);
+
+      expect((await getLedgerEntry(identity.globalId))?.attempts).toEqual([
+        expect.objectContaining({ outcome: 'submitted', objectId: 1 }),
+      ]);
+      expect((await getLedgerEntry(other.globalId))?.attempts).toEqual([
+        expect.objectContaining({ outcome: 'failed' }),
+      ]);
+    });
+  });
+
+  describe('hasAmbiguousAttempt', () => {
+    it('is false for an unknown harvest', () => {
+      expect(hasAmbiguousAttempt(undefined)).toBe(false);
+    });
+
+    it('is true when an attempt was left in flight', async () => {
+      await beginSubmissionAttempt(identity);
+      expect(hasAmbiguousAttempt(await getLedgerEntry(identity.globalId))).toBe(true);
+    });
+
+    it('is true after a network failure', async () => {
+      await beginSubmissionAttempt(identity);
+      await completeSubmissionAttempt(identity, { outcome: 'failed', error: 'Network request failed' });
+      expect(hasAmbiguousAttempt(await getLedgerEntry(identity.globalId))).toBe(true);
+    });
+
+    it('is false when every attempt was rejected by ArcGIS', async () => {
+      await beginSubmissionAttempt(identity);
+      await completeSubmissionAttempt(identity, { outcome: 'rejected', error: 'Invalid Area' });
+      expect(hasAmbiguousAttempt(await getLedgerEntry(identity.globalId))).toBe(false);
+    });
+  });
+
+  describe('getLedger', () => {
+    it('returns an empty list when nothing is stored', async () => {
+      expect(await getLedger()).toEqual([]);
+    });
+
+    it('handles corrupted JSON gracefully', async () => {
+      await AsyncStorage.setItem('@dmf_submission_ledger', 'invalid json');
+      expect(await getLedger()).toEqual([]);
+    });
+  });
+
+  describe('pruneLedger', () => {
+    it('removes old submitted entries but keeps recent pending ones', async () => {
+      const old = new Date(Date.now() - 120 * 24 * 60 * 60 * 1000).toISOString();
+      await AsyncStorage.setItem('@dmf_submission_ledger', JSON.stringify({
+        '{OLD-SUBMITTED}': {
+          globalId: '{OLD-SUBMITTED}', confirmationNumber: '1', status: 'submitted',
+          objectId: 1, attempts: [], createdAt: old, updatedAt: old,
+        },
+        '{OLD-PENDING}': {
+          globalId: '{OLD-PENDING}', confirmationNumber: '2', status: 'pending',
+          attempts: [], createdAt: old, updatedAt: old,
+        },
+      }));
+
+      expect(await pruneLedger()).toBe(1);
+
+      const remaining = await getLedger();
+      expect(remaining.map(e => e.globalId)).toEqual(['{OLD-PENDING}']);
+    });
+
+    it('removes pending entries left for over a year', async () => {
+      const stale = new Date(Date.now() - 400 * 24 * 60 * 60 * 1000).toISOString();
+      await AsyncStorage.setItem('@dmf_submission_ledger', JSON.stringify({
+        '{STALE-IN-FLIGHT}': {
+          globalId: '{STALE-IN-FLIGHT}', confirmationNumber: '3', status: 'pending',
+          attempts: [{ attemptedAt: stale, outcome: 'in_flight' }],
+          createdAt: stale, updatedAt: stale,
+        },
+      }));
+
+      expect(await pruneLedger()).toBe(1);
+      expect(await getLedger()).toEqual([]);
+    });
+  });
+
+  describe('clearLedger', () => {
+    it('removes all entries', async () => {
+      await beginSubmissionAttempt(identity);
+      await clearLedger();
+      expect(await getLedger()).toEqual([]);
+    });
+  });
+});
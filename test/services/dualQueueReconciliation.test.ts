@@ -42,8 +42,8 @@ jest.mock('../../src/services/harvestReportService', () => ({
     success: true, webhooksTriggered: 1, errors: [],
   }),
   generateGlobalId: jest.fn(() => '{MOCK-GUID}'),
-  generateConfirmationNumber: jest.fn(() => ({
-    dateS: '18', rand: '1234', unique1: 'LOCAL-MOCK',
+  createSubmissionIdentity: jest.fn(() => ({
+    globalId: '{MOCK-GUID}', dateS: '18', rand: '1234', confirmationNumber: 'LOCAL-MOCK',
   })),
   submitHarvestReport: jest.fn().mockResolvedValue({
     success: true,
@@ -120,7 +120,7 @@ describe('Dual Queue Reconciliation', () => {
 
       expect(queueA).toHaveLength(1);
       expect(queueB).toHaveLength(1);
-      // addToQueue generates localConfirmationNumber via generateConfirmationNumber()
+      // addToQueue takes localConfirmationNumber from createSubmissionIdentity()
       expect(queueA[0].localConfirmationNumber).toBe('LOCAL-MOCK');
       expect(queueB[0].id).toBe('pending-dual');
     });
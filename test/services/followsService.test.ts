@@ -0,0 +1,174 @@
+/**
+ * followsService.test.ts - Following feed keyset pagination and follow requests
+ */
+import { mockSupabase } from '../mocks/supabase';
+
+import {
+  fetchFollowingFeed,
+  fetchNewerFollowingCatches,
+  fetchFollowProfileData,
+  fetchFollowRequests,
+  requestFollow,
+  respondToFollowRequest,
+} from '../../src/services/followsService';
+
+const makeRow = (id: string, createdAt = '2026-01-15T12:00:00Z') => ({
+  report_id: id,
+  user_id: 'user-1',
+  first_name: 'Jane',
+  last_name: 'Doe',
+  created_at: createdAt,
+  fish_entries_json: [{ species: 'Red Drum', count: 1 }],
+  like_count: 0,
+  comment_count: 0,
+});
+
+describe('followsService', () => {
+  beforeEach(() => {
+    (mockSupabase as any).rpc = jest.fn();
+  });
+
+  const rpc = () => (mockSupabase as any).rpc as jest.Mock;
+
+  describe('fetchFollowingFeed', () => {
+    it('requests the first page without a cursor', async () => {
+      rpc().mockResolvedValue({ data: [makeRow('r-1')], error: null });
+
+      await fetchFollowingFeed(12);
+
+      expect(rpc()).toHaveBeenCalledWith('get_following_feed', {
+        p_limit: 13,
+        p_before_created_at: null,
+        p_before_id: null,
+        p_after_created_at: null,
+        p_after_id: null,
+      });
+    });
+
+    it('pages older than the cursor and returns the next cursor', async () => {
+      rpc().mockResolvedValue({
+        data: [makeRow('r-3'), makeRow('r-4'), makeRow('r-5')],
+        error: null,
+      });
+
+      const cursor = { createdAt: '2026-01-15T13:00:00Z', id: 'r-2' };
+      const result = await fetchFollowingFeed(2, cursor);
+
+      expect(rpc()).toHaveBeenCalledWith('get_following_feed', expect.objectContaining({
+        p_limit: 3,
+        p_before_created_at: cursor.createdAt,
+        p_before_id: cursor.id,
+      }));
+      expect(result.entries.map(e => e.id)).toEqual(['r-3', 'r-4']);
+      expect(result.hasMore).toBe(true);
+      expect(result.nextCursor).toEqual({ createdAt: '2026-01-15T12:00:00Z', id: 'r-4' });
+    });
+
+    it('throws on RPC error', async () => {
+      rpc().mockResolvedValue({ data: null, error: { message: 'boom' } });
+
+      await expect(fetchFollowingFeed()).rejects.toThrow('Failed to fetch following feed: boom');
+    });
+  });
+
+  describe('fetchNewerFollowingCatches', () => {
+    it('requests only rows newer than the head cursor', async () => {
+      rpc().mockResolvedValue({ data: [makeRow('r-new', '2026-01-15T14:00:00Z')], error: null });
+
+      const head = { createdAt: '2026-01-15T13:00:00Z', id: 'r-1' };
+      const result = await fetchNewerFollowingCatches(head, 50);
+
+      expect(rpc()).toHaveBeenCalledWith('get_following_feed', expect.objectContaining({
+        p_limit: 51,
+        p_before_created_at: null,
+        p_after_created_at: head.createdAt,
+        p_after_id: head.id,
+      }));
+      expect(result).toEqual({ entries: [expect.objectContaining({ id: 'r-new' })], hasMore: false });
+    });
+  });
+
+  describe('follow requests', () => {
+    // Thenable query chain resolving to `result`
+    const chain = (result: unknown) => {
+      const q: any = {};
+      ['select', 'insert', 'delete', 'eq', 'order'].forEach((m) => {
+        q[m] = jest.fn(() => q);
+      });
+      q.maybeSingle = jest.fn(() => Promise.resolve(result));
+      q.then = (resolve: (v: unknown) => unknown, reject?: (e: unknown) => unknown) =>
+        Promise.resolve(result).then(resolve, reject);
+      return q;
+    };
+
+    it('treats a duplicate request as success', async () => {
+      const q = chain({ error: { code: '23505', message: 'duplicate key' } });
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(q);
+
+      await expect(requestFollow('target-1', 'me')).resolves.toBeUndefined();
+      expect(mockSupabase.from).toHaveBeenCalledWith('follow_requests');
+      expect(q.insert).toHaveBeenCalledWith({ requester_id: 'me', target_id: 'target-1' });
+    });
+
+    it('throws on other request errors', async () => {
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(
+        chain({ error: { code: '42501', message: 'denied' } })
+      );
+
+      await expect(requestFollow('target-1', 'me')).rejects.toThrow('Failed to request follow: denied');
+    });
+
+    it('maps pending requests to members', async () => {
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(chain({
+        data: [
+          {
+            created_at: '2026-01-15T12:00:00Z',
+            users: { id: 'u-2', first_name: 'Sam', last_name: 'Reed', profile_image_url: null },
+          },
+          { created_at: '2026-01-14T12:00:00Z', users: null },
+        ],
+        error: null,
+      }));
+
+      const requests = await fetchFollowRequests('me');
+
+      expect(requests).toEqual([{
+        requester: expect.objectContaining({ userId: 'u-2', displayName: 'Sam R.' }),
+        requestedAt: '2026-01-15T12:00:00Z',
+      }]);
+    });
+
+    it('responds through the RPC', async () => {
+      rpc().mockResolvedValue({ data: null, error: null });
+
+      await respondToFollowRequest('u-2', true);
+
+      expect(rpc()).toHaveBeenCalledWith('respond_follow_request', {
+        p_requester_id: 'u-2',
+        p_approve: true,
+      });
+    });
+
+    it('reports a private profile with a pending request', async () => {
+      (mockSupabase.from as jest.Mock).mockImplementation((table: string) => {
+        if (table === 'users') {
+          return chain({ data: { followers_count: 4, following_count: 2, is_private: true }, error: null });
+        }
+        if (table === 'follow_requests') {
+          return chain({ data: { requester_id: 'me' }, error: null });
+        }
+        return chain({ data: null, error: null });
+      });
+
+      const data = await fetchFollowProfileData('target-1', 'me');
+
+      expect(data).toEqual({
+        followersCount: 4,
+        followingCount: 2,
+        isFollowing: false,
+        isPrivate: true,
+        isRequested: true,
+      });
+    });
+  });
+});
@@ -16,7 +16,18 @@ import {
   triggerDMFConfirmationWebhook,
   submitHarvestReport,
   mockSubmitToDMF,
+  submitToDMF,
+  submitBatchToDMF,
+  mockSubmitBatchToDMF,
+  createSubmissionIdentity,
+  findExistingDMFFeature,
+  getDMFQueryEndpoint,
 } from '../../src/services/harvestReportService';
+import {
+  beginSubmissionAttempt,
+  completeSubmissionAttempt,
+  getLedgerEntry,
+} from '../../src/services/dmfSubmissionLedger';
 
 describe('harvestReportService', () => {
   beforeEach(() => {
@@ -181,6 +192,45 @@ describe('harvestReportService', () => {
       expect(payload.geometry.z).toBe(0);
     });
 
+    describe('GPS geometry', () => {
+      const { APP_CONFIG } = require('../../src/config/appConfig');
+      const gpsCoordinates = { latitude: 35.3, longitude: -76.0 };
+
+      afterEach(() => {
+        APP_CONFIG.features.sendGpsGeometry = false;
+      });
+
+      it('sends 0,0 when sendGpsGeometry is off even with coordinates', () => {
+        const payload = transformToDMFPayload(makeHarvestInput({ gpsCoordinates }));
+
+        expect(payload.geometry.x).toBe(0);
+        expect(payload.geometry.y).toBe(0);
+      });
+
+      it('sends longitude/latitude as x/y when sendGpsGeometry is on', () => {
+        APP_CONFIG.features.sendGpsGeometry = true;
+        const payload = transformToDMFPayload(makeHarvestInput({ gpsCoordinates }));
+
+        expect(payload.geometry).toEqual({
+          spatialReference: { wkid: 4326 },
+          x: -76.0,
+          y: 35.3,
+          z: 0,
+        });
+      });
+
+      it('falls back to 0,0 for missing or out-of-range coordinates', () => {
+        APP_CONFIG.features.sendGpsGeometry = true;
+
+        expect(transformToDMFPayload(makeHarvestInput()).geometry.x).toBe(0);
+        const invalid = transformToDMFPayload(
+          makeHarvestInput({ gpsCoordinates: { latitude: 135, longitude: -76 } })
+        );
+        expect(invalid.geometry.x).toBe(0);
+        expect(invalid.geometry.y).toBe(0);
+      });
+    });
+
     it('species count fields are strings', () => {
       const input = makeHarvestInput({
         redDrumCount: 5,
@@ -459,4 +509,334 @@ describe('harvestReportService', () => {
       jest.useRealTimers();
     });
   });
+
+  // ============================================================
+  // Submission identity
+  // ============================================================
+  describe('createSubmissionIdentity', () => {
+    it('pairs a GlobalID with a confirmation number', () => {
+      const identity = createSubmissionIdentity();
+      expect(identity.globalId).toMatch(/^\{[A-F0-9-]{36}\}$/);
+      expect(identity.confirmationNumber).toBe(identity.dateS + identity.rand);
+    });
+
+    it('is reused verbatim by transformToDMFPayload', () => {
+      const identity = createSubmissionIdentity();
+      const first = transformToDMFPayload(makeHarvestInput(), identity);
+      const second = transformToDMFPayload(makeHarvestInput(), identity);
+
+      expect(first.attributes.GlobalID).toBe(identity.globalId);
+      expect(first.attributes.Unique1).toBe(identity.confirmationNumber);
+      expect(second.attributes.GlobalID).toBe(first.attributes.GlobalID);
+      expect(second.attributes.Unique1).toBe(first.attributes.Unique1);
+    });
+  });
+
+  // ============================================================
+  // Duplicate detection
+  // ============================================================
+  describe('findExistingDMFFeature', () => {
+    const mockFetch = jest.fn();
+
+    beforeEach(() => {
+      (global as any).fetch = mockFetch;
+    });
+
+    it('queries layer 0 of the feature service by GlobalID', async () => {
+      mockFetch.mockResolvedValue({ ok: true, json: async () => ({ objectIds: [555] }) });
+
+      const objectId = await findExistingDMFFeature('{ABC}');
+
+      expect(objectId).toBe(555);
+      const url: string = mockFetch.mock.calls[0][0];
+      expect(url.startsWith(getDMFQueryEndpoint())).toBe(true);
+      const params = new URLSearchParams(url.split('?')[1]);
+      expect(params.get('where')).toBe("GlobalID = '{ABC}'");
+      expect(params.get('returnIdsOnly')).toBe('true');
+    });
+
+    it('returns null when no feature matches', async () => {
+      mockFetch.mockResolvedValue({ ok: true, json: async () => ({ objectIds: [] }) });
+      expect(await findExistingDMFFeature('{ABC}')).toBeNull();
+    });
+
+    it('throws when ArcGIS returns an error body', async () => {
+      mockFetch.mockResolvedValue({ ok: true, json: async () => ({ error: { message: 'Invalid query' } }) });
+      await expect(findExistingDMFFeature('{ABC}')).rejects.toThrow('Invalid query');
+    });
+  });
+
+  // ============================================================
+  // submitToDMF (production) — exactly-once behavior
+  // ============================================================
+  describe('submitToDMF', () => {
+    const mockFetch = jest.fn();
+    const applyEditsSuccess = (objectId: number) => ({
+      ok: true,
+      json: async () => [{ addResults: [{ success: true, objectId }] }],
+    });
+
+    beforeEach(() => {
+      (global as any).fetch = mockFetch;
+      (mockSupabase as any).functions = {
+        invoke: jest.fn().mockResolvedValue({ data: { webhooksTriggered: 1, errors: [] }, error: null }),
+      };
+      const updateMock = jest.fn().mockReturnValue({
+        eq: jest.fn().mockResolvedValue({ data: null, error: null }),
+      });
+      (mockSupabase.from as jest.Mock).mockImplementation(() => ({ update: updateMock }));
+    });
+
+    it('posts on the first attempt without a duplicate check', async () => {
+      mockFetch.mockResolvedValueOnce(applyEditsSuccess(101));
+      const identity = createSubmissionIdentity();
+
+      const result = await submitToDMF(makeHarvestInput(), identity);
+
+      expect(result).toMatchObject({ success: true, objectId: 101, confirmationNumber: identity.confirmationNumber });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      const entry = await getLedgerEntry(identity.globalId);
+      expect(entry?.status).toBe('submitted');
+      expect(entry?.attempts[0].outcome).toBe('submitted');
+    });
+
+    it('records a network failure as an ambiguous attempt', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('Network request failed'));
+      const identity = createSubmissionIdentity();
+
+      const result = await submitToDMF(makeHarvestInput(), identity);
+
+      expect(result.queued).toBe(true);
+      expect(result.confirmationNumber).toBe(identity.confirmationNumber);
+      const entry = await getLedgerEntry(identity.globalId);
+      expect(entry?.attempts[0]).toMatchObject({ outcome: 'failed', error: 'Network request failed' });
+    });
+
+    it('adopts an existing feature instead of re-posting after a lost response', async () => {
+      const identity = createSubmissionIdentity();
+      await beginSubmissionAttempt(identity);
+      await completeSubmissionAttempt(identity, { outcome: 'failed', error: 'Network request failed' });
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ objectIds: [202] }) });
+
+      const result = await submitToDMF(makeHarvestInput(), identity);
+
+      expect(result).toMatchObject({ success: true, objectId: 202 });
+      // Only the query went out — no second applyEdits
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toContain('/0/query');
+      const entry = await getLedgerEntry(identity.globalId);
+      expect(entry?.attempts.map(a => a.outcome)).toEqual(['failed', 'already_submitted']);
+    });
+
+    it('re-posts with the same GlobalID when the earlier attempt never landed', async () => {
+      const identity = createSubmissionIdentity();
+      await beginSubmissionAttempt(identity);
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ objectIds: [] }) })
+        .mockResolvedValueOnce(applyEditsSuccess(303));
+
+      const result = await submitToDMF(makeHarvestInput(), identity);
+
+      expect(result).toMatchObject({ success: true, objectId: 303 });
+      const body = new URLSearchParams(mockFetch.mock.calls[1][1].body);
+      const edits = JSON.parse(body.get('edits')!);
+      expect(edits[0].adds[0].attributes.GlobalID).toBe(identity.globalId);
+    });
+
+    it('does not post when the duplicate check itself fails', async () => {
+      const identity = createSubmissionIdentity();
+      await beginSubmissionAttempt(identity);
+      mockFetch.mockRejectedValueOnce(new Error('Network request failed'));
+
+      const result = await submitToDMF(makeHarvestInput(), identity);
+
+      expect(result.success).toBe(false);
+      expect(result.queued).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('short-circuits when the ledger already shows the harvest submitted', async () => {
+      const identity = createSubmissionIdentity();
+      await completeSubmissionAttempt(identity, { outcome: 'submitted', objectId: 404 });
+
+      const result = await submitToDMF(makeHarvestInput(), identity);
+
+      expect(result).toMatchObject({ success: true, objectId: 404 });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('records ArcGIS rejections without queuing', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [{ addResults: [{ success: false, error: { description: 'Invalid Area' } }] }],
+      });
+      const identity = createSubmissionIdentity();
+
+      const result = await submitToDMF(makeHarvestInput(), identity);
+
+      expect(result).toEqual({ success: false, error: 'Invalid Area' });
+      const entry = await getLedgerEntry(identity.globalId);
+      expect(entry?.attempts[0].outcome).toBe('rejected');
+    });
+
+    it('queues top-level ArcGIS errors with their status code', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ error: { code: 498, message: 'Invalid token.' } }),
+      });
+      const identity = createSubmissionIdentity();
+
+      const result = await submitToDMF(makeHarvestInput(), identity);
+
+      expect(result).toMatchObject({ success: false, error: 'ArcGIS 498: Invalid token.', queued: true });
+      const entry = await getLedgerEntry(identity.globalId);
+      expect(entry?.attempts[0].outcome).toBe('failed');
+    });
+  });
+
+  // ============================================================
+  // submitBatchToDMF (production)
+  // ============================================================
+  describe('submitBatchToDMF', () => {
+    const mockFetch = jest.fn();
+
+    beforeEach(() => {
+      (global as any).fetch = mockFetch;
+      (mockSupabase as any).functions = {
+        invoke: jest.fn().mockResolvedValue({ data: { webhooksTriggered: 1, errors: [] }, error: null }),
+      };
+      const updateMock = jest.fn().mockReturnValue({
+        eq: jest.fn().mockResolvedValue({ data: null, error: null }),
+      });
+      (mockSupabase.from as jest.Mock).mockImplementation(() => ({ update: updateMock }));
+    });
+
+    const makeItems = (n: number) =>
+      Array.from({ length: n }, () => ({ input: makeHarvestInput(), identity: createSubmissionIdentity() }));
+
+    it('sends every report in one applyEdits request without rollback', async () => {
+      const items = makeItems(3);
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [{
+          addResults: items.map((item, i) => ({ success: true, objectId: 10 + i, globalId: item.identity.globalId })),
+        }],
+      });
+
+      const results = await submitBatchToDMF(items);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      const body = new URLSearchParams(mockFetch.mock.calls[0][1].body);
+      expect(JSON.parse(body.get('edits')!)[0].adds).toHaveLength(3);
+      expect(body.get('rollbackOnFailure')).toBe('false');
+      expect(results.map(r => r.objectId)).toEqual([10, 11, 12]);
+      expect(results.map(r => r.confirmationNumber)).toEqual(items.map(i => i.identity.confirmationNumber));
+    });
+
+    it('maps addResults back by GlobalID regardless of order', async () => {
+      const items = makeItems(2);
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [{
+          addResults: [
+            { success: true, objectId: 2, globalId: items[1].identity.globalId.replace(/[{}]/g, '') },
+            { success: true, objectId: 1, globalId: items[0].identity.globalId },
+          ],
+        }],
+      });
+
+      const results = await submitBatchToDMF(items);
+
+      expect(results[0].objectId).toBe(1);
+      expect(results[1].objectId).toBe(2);
+    });
+
+    it('treats a result without a matching GlobalID as ambiguous, not by position', async () => {
+      const items = makeItems(2);
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [{
+          addResults: [
+            { success: true, objectId: 1, globalId: items[0].identity.globalId },
+            { success: true, objectId: 2 },
+          ],
+        }],
+      });
+
+      const results = await submitBatchToDMF(items);
+
+      expect(results[0].objectId).toBe(1);
+      expect(results[1]).toMatchObject({ success: false, queued: true });
+      expect(results[1].objectId).toBeUndefined();
+      const entry = await getLedgerEntry(items[1].identity.globalId);
+      expect(entry?.status).toBe('pending');
+      expect(entry?.attempts[0].outcome).toBe('failed');
+    });
+
+    it('handles partial failures per report', async () => {
+      const items = makeItems(2);
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [{
+          addResults: [
+            { success: true, objectId: 1, globalId: items[0].identity.globalId },
+            { success: false, globalId: items[1].identity.globalId, error: { description: 'Invalid Area' } },
+          ],
+        }],
+      });
+
+      const results = await submitBatchToDMF(items);
+
+      expect(results[0].success).toBe(true);
+      expect(results[1]).toEqual({ success: false, error: 'Invalid Area' });
+      expect((await getLedgerEntry(items[1].identity.globalId))?.attempts[0].outcome).toBe('rejected');
+    });
+
+    it('marks every report queued when the request fails', async () => {
+      const items = makeItems(2);
+      mockFetch.mockRejectedValueOnce(new Error('Network request failed'));
+
+      const results = await submitBatchToDMF(items);
+
+      expect(results.every(r => !r.success && r.queued)).toBe(true);
+      expect((await getLedgerEntry(items[0].identity.globalId))?.attempts[0].outcome).toBe('failed');
+    });
+
+    it('leaves already-settled reports out of the batch', async () => {
+      const items = makeItems(2);
+      await completeSubmissionAttempt(items[0].identity, { outcome: 'submitted', objectId: 99 });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [{ addResults: [{ success: true, objectId: 5, globalId: items[1].identity.globalId }] }],
+      });
+
+      const results = await submitBatchToDMF(items);
+
+      const body = new URLSearchParams(mockFetch.mock.calls[0][1].body);
+      expect(JSON.parse(body.get('edits')!)[0].adds).toHaveLength(1);
+      expect(results[0].objectId).toBe(99);
+      expect(results[1].objectId).toBe(5);
+    });
+  });
+
+  describe('mockSubmitBatchToDMF', () => {
+    it('returns one result per report after a single delay', async () => {
+      jest.useFakeTimers();
+      (mockSupabase as any).functions = {
+        invoke: jest.fn().mockResolvedValue({ data: { webhooksTriggered: 1, errors: [] }, error: null }),
+      };
+      const items = [
+        { input: makeHarvestInput(), identity: createSubmissionIdentity() },
+        { input: makeHarvestInput(), identity: createSubmissionIdentity() },
+      ];
+
+      const promise = mockSubmitBatchToDMF(items, { delayMs: 100 });
+      await jest.advanceTimersByTimeAsync(200);
+      const results = await promise;
+
+      expect(results).toHaveLength(2);
+      expect(results.every(r => r.success)).toBe(true);
+      jest.useRealTimers();
+    });
+  });
 });
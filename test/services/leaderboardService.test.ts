@@ -0,0 +1,121 @@
+/**
+ * leaderboardService.test.ts - Ranked angler leaderboards
+ */
+import { mockSupabase } from '../mocks/supabase';
+
+import { fetchLeaderboard, toLeaderboardParams } from '../../src/services/leaderboardService';
+import { getRegionAreaCodes } from '../../src/constants/regionOptions';
+
+const row = (rank: number, overrides: Record<string, unknown> = {}) => ({
+  rank,
+  user_id: `u-${rank}`,
+  first_name: `Angler${rank}`,
+  last_name: 'Smith',
+  profile_image_url: null,
+  value: 10 - rank,
+  is_viewer: false,
+  ...overrides,
+});
+
+describe('leaderboardService', () => {
+  beforeEach(() => {
+    (mockSupabase as any).rpc = jest.fn();
+  });
+
+  describe('toLeaderboardParams', () => {
+    const now = new Date(2026, 4, 14);
+
+    it('sends the species id', () => {
+      const params = toLeaderboardParams({ metric: 'length', period: 'month', species: 'redDrum' }, now);
+
+      expect(params.p_metric).toBe('length');
+      expect(params.p_since).toBe('2026-05-01');
+      expect(params.p_species).toBe('red_drum');
+    });
+
+    it('maps every name a species is logged under to its id', () => {
+      const { p_species_aliases } = toLeaderboardParams({ metric: 'species', period: 'all' }, now);
+
+      expect(p_species_aliases['flounder']).toBe('flounder');
+      expect(p_species_aliases['southern flounder']).toBe('flounder');
+      expect(p_species_aliases['redfish']).toBe('red_drum');
+      expect(p_species_aliases['speckled trout']).toBe('spotted_seatrout');
+    });
+
+    it('ignores the species filter when ranking by species', () => {
+      const params = toLeaderboardParams({ metric: 'species', period: 'year', species: 'flounder' }, now);
+
+      expect(params.p_species).toBeNull();
+    });
+
+    it('expands a region into its area codes', () => {
+      const params = toLeaderboardParams({ metric: 'catches', period: 'all', region: 'OBX' }, now);
+
+      expect(params.p_area_codes).toEqual([...getRegionAreaCodes('OBX')]);
+      expect(params.p_since).toBeNull();
+    });
+
+    it('defaults to no filters and 50 rows', () => {
+      expect(toLeaderboardParams({ metric: 'catches', period: 'all' }, now)).toEqual({
+        p_metric: 'catches',
+        p_since: null,
+        p_species: null,
+        p_species_aliases: expect.objectContaining({ 'red drum': 'red_drum' }),
+        p_area_codes: null,
+        p_limit: 50,
+      });
+    });
+  });
+
+  describe('fetchLeaderboard', () => {
+    it('returns ranked entries and the viewer row', async () => {
+      (mockSupabase as any).rpc.mockResolvedValue({
+        data: [
+          row(1, { profile_image_url: 'https://example.com/a.jpg', value: '31.5' }),
+          row(2, { last_name: null, is_viewer: true }),
+        ],
+        error: null,
+      });
+
+      const board = await fetchLeaderboard({ metric: 'length', period: 'week' });
+
+      expect((mockSupabase as any).rpc).toHaveBeenCalledWith(
+        'get_leaderboard_rankings',
+        expect.objectContaining({ p_metric: 'length', p_limit: 50 })
+      );
+      expect(board.entries).toEqual([
+        { rank: 1, userId: 'u-1', displayName: 'Angler1 S.', profileImage: 'https://example.com/a.jpg', value: 31.5, isViewer: false },
+        { rank: 2, userId: 'u-2', displayName: 'Angler2', profileImage: undefined, value: 8, isViewer: true },
+      ]);
+      expect(board.viewerEntry).toBe(board.entries[1]);
+    });
+
+    it('keeps a viewer ranked below the limit out of the entries', async () => {
+      (mockSupabase as any).rpc.mockResolvedValue({
+        data: [row(1), row(2), row(7, { is_viewer: true })],
+        error: null,
+      });
+
+      const board = await fetchLeaderboard({ metric: 'catches', period: 'all', limit: 2 });
+
+      expect(board.entries.map((e) => e.rank)).toEqual([1, 2]);
+      expect(board.viewerEntry).toMatchObject({ rank: 7, userId: 'u-7', isViewer: true });
+    });
+
+    it('returns a null viewer entry when the viewer is unranked', async () => {
+      (mockSupabase as any).rpc.mockResolvedValue({ data: [row(1)], error: null });
+
+      const board = await fetchLeaderboard({ metric: 'species', period: 'quarter' });
+
+      expect(board.viewerEntry).toBeNull();
+    });
+
+    it('throws when the RPC fails', async () => {
+      (mockSupabase as any).rpc.mockResolvedValue({ data: null, error: { message: 'boom' } });
+
+      await expect(fetchLeaderboard({ metric: 'catches', period: 'all' })).rejects.toThrow(
+        'Failed to fetch leaderboard: boom'
+      );
+    });
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * notificationsService.test.ts - Notification inbox, offline cache and grouping
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { mockSupabase, mockIsSupabaseConnected } from '../mocks/supabase';
+
+import {
+  fetchNotifications,
+  getCachedNotifications,
+  addLocalNotification,
+  markNotificationsRead,
+  markAllNotificationsRead,
+  getUnreadCount,
+  groupNotifications,
+} from '../../src/services/notificationsService';
+import { AppNotification } from '../../src/types/notifications';
+
+// Thenable query chain resolving to `result`
+const chain = (result: unknown) => {
+  const q: any = {};
+  ['select', 'update', 'eq', 'in', 'is', 'order', 'limit'].forEach((m) => {
+    q[m] = jest.fn(() => q);
+  });
+  q.then = (resolve: (v: unknown) => unknown, reject?: (e: unknown) => unknown) =>
+    Promise.resolve(result).then(resolve, reject);
+  return q;
+};
+
+const notification = (overrides: Partial<AppNotification>): AppNotification => ({
+  id: 'n-1',
+  type: 'like',
+  actor: null,
+  reportId: null,
+  commentId: null,
+  speciesName: null,
+  title: null,
+  createdAt: '2026-06-01T12:00:00Z',
+  readAt: null,
+  ...overrides,
+});
+
+const actor = (userId: string, displayName: string) => ({ userId, displayName });
+
+describe('notificationsService', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockIsSupabaseConnected.mockResolvedValue(true);
+    await AsyncStorage.clear();
+  });
+
+  // ============================================================
+  // fetchNotifications
+  // ============================================================
+  describe('fetchNotifications', () => {
+    const row = {
+      id: 'n-1',
+      type: 'like',
+      report_id: 'r-1',
+      comment_id: null,
+      data: { reaction: 'big_one' },
+      created_at: '2026-06-01T12:00:00Z',
+      read_at: null,
+      actor: { id: 'u-2', first_name: 'Amy', last_name: 'Smith', profile_image_url: null },
+      report: { red_drum_count: 0, flounder_count: 2, spotted_seatrout_count: 1 },
+    };
+
+    it('maps rows with the actor and the catch’s primary species, and caches them', async () => {
+      const q = chain({ data: [row], error: null });
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(q);
+
+      const result = await fetchNotifications('me');
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('notifications');
+      expect(q.eq).toHaveBeenCalledWith('user_id', 'me');
+      expect(result).toEqual([
+        expect.objectContaining({
+          id: 'n-1',
+          type: 'like',
+          actor: { userId: 'u-2', displayName: 'Amy S.', profileImage: undefined },
+          reportId: 'r-1',
+          speciesName: 'Flounder',
+          readAt: null,
+        }),
+      ]);
+      expect(await getCachedNotifications('me')).toEqual(result);
+      expect(await getCachedNotifications('someone-else')).toEqual([]);
+    });
+
+    it('maps prize wins to the drawing they came from', async () => {
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(
+        chain({
+          data: [{
+            ...row,
+            id: 'n-2',
+            type: 'prize_won',
+            report_id: null,
+            actor: null,
+            report: null,
+            data: { drawing_id: 'd-1', drawing_name: 'Q2 2026 Rewards', place: 1 },
+          }],
+          error: null,
+        })
+      );
+
+      const [result] = await fetchNotifications('me');
+
+      expect(result).toEqual(
+        expect.objectContaining({ type: 'prize_won', title: 'Q2 2026 Rewards', drawingId: 'd-1' })
+      );
+    });
+
+    it('returns the cached inbox when offline', async () => {
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(chain({ data: [row], error: null }));
+      await fetchNotifications('me');
+      jest.clearAllMocks();
+
+      mockIsSupabaseConnected.mockResolvedValue(false);
+      const result = await fetchNotifications('me');
+
+      expect(result.map((n) => n.id)).toEqual(['n-1']);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+
+    it('falls back to the cache when the fetch fails', async () => {
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(chain({ data: [row], error: null }));
+      await fetchNotifications('me');
+
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(
+        chain({ data: null, error: { message: 'timeout' } })
+      );
+      const result = await fetchNotifications('me');
+
+      expect(result.map((n) => n.id)).toEqual(['n-1']);
+    });
+
+    it('includes device notifications, newest first', async () => {
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(chain({ data: [row], error: null }));
+      const local = await addLocalNotification({ type: 'report_synced', title: 'ABC123' });
+
+      const result = await fetchNotifications('me');
+
+      expect(result.map((n) => n.id)).toEqual([local.id, 'n-1']);
+      expect(result[0]).toEqual(expect.objectContaining({ local: true, title: 'ABC123' }));
+    });
+  });
+
+  // ============================================================
+  // markNotificationsRead
+  // ============================================================
+  describe('markNotificationsRead', () => {
+    const seedCache = async () => {
+      await AsyncStorage.setItem(
+        '@notifications_inbox',
+        JSON.stringify({
+          userId: 'me',
+          notifications: [notification({ id: 'n-1' }), notification({ id: 'n-2' })],
+        })
+      );
+    };
+
+    it('marks server notifications read and updates the cache', async () => {
+      await seedCache();
+      const q = chain({ error: null });
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(q);
+
+      await markNotificationsRead('me', ['n-1']);
+
+      expect(q.in).toHaveBeenCalledWith('id', ['n-1']);
+      expect(q.is).toHaveBeenCalledWith('read_at', null);
+      const cached = await getCachedNotifications('me');
+      expect(cached.find((n) => n.id === 'n-1')?.readAt).not.toBeNull();
+      expect(cached.find((n) => n.id === 'n-2')?.readAt).toBeNull();
+    });
+
+    it('queues reads while offline and sends them on the next fetch', async () => {
+      await seedCache();
+      mockIsSupabaseConnected.mockResolvedValue(false);
+
+      await markNotificationsRead('me', ['n-1', 'n-2']);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+      expect(getUnreadCount(await fetchNotifications('me'))).toBe(0);
+
+      mockIsSupabaseConnected.mockResolvedValue(true);
+      const flush = chain({ error: null });
+      (mockSupabase.from as jest.Mock)
+        .mockReturnValueOnce(flush)
+        .mockReturnValueOnce(chain({ data: [], error: null }));
+
+      await fetchNotifications('me');
+
+      expect(flush.update).toHaveBeenCalled();
+      expect(flush.in).toHaveBeenCalledWith('id', ['n-1', 'n-2']);
+      expect(await AsyncStorage.getItem('@notifications_pending_reads')).toBeNull();
+    });
+
+    it('marks device notifications read without a server call', async () => {
+      const local = await addLocalNotification({ type: 'report_synced' });
+
+      await markNotificationsRead('me', [local.id]);
+
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+      mockIsSupabaseConnected.mockResolvedValue(false);
+      const [stored] = await fetchNotifications('me');
+      expect(stored.readAt).not.toBeNull();
+    });
+
+    it('markAllNotificationsRead covers cached and device notifications', async () => {
+      await seedCache();
+      await addLocalNotification({ type: 'report_synced' });
+      const q = chain({ error: null });
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(q);
+
+      await markAllNotificationsRead('me');
+
+      expect(q.in).toHaveBeenCalledWith('id', ['n-1', 'n-2']);
+      mockIsSupabaseConnected.mockResolvedValue(false);
+      expect(getUnreadCount(await fetchNotifications('me'))).toBe(0);
+    });
+  });
+
+  // ============================================================
+  // groupNotifications
+  // ============================================================
+  describe('groupNotifications', () => {
+    it('groups likes on the same catch into one row', () => {
+      const groups = groupNotifications([
+        notification({ id: 'a', reportId: 'r-1', speciesName: 'Flounder', actor: actor('u-1', 'Amy S.') }),
+        notification({ id: 'b', reportId: 'r-1', speciesName: 'Flounder', actor: actor('u-2', 'Bob J.'), readAt: '2026-06-01T13:00:00Z' }),
+        notification({ id: 'c', reportId: 'r-1', speciesName: 'Flounder', actor: actor('u-3', 'Cal T.') }),
+      ]);
+
+      expect(groups).toHaveLength(1);
+      expect(groups[0]).toEqual(
+        expect.objectContaining({
+          message: '3 people liked your flounder',
+          link: 'fishlog://catch/r-1',
+          unreadCount: 2,
+        })
+      );
+    });
+
+    it('names one or two anglers and keeps separate catches apart', () => {
+      const groups = groupNotifications([
+        notification({ id: 'a', reportId: 'r-1', actor: actor('u-1', 'Amy S.') }),
+        notification({ id: 'b', reportId: 'r-2', speciesName: 'Red Drum', actor: actor('u-1', 'Amy S.') }),
+        notification({ id: 'c', reportId: 'r-2', speciesName: 'Red Drum', actor: actor('u-2', 'Bob J.') }),
+      ]);
+
+      expect(groups.map((g) => g.message)).toEqual([
+        'Amy S. liked your catch',
+        'Amy S. and Bob J. liked your red drum',
+      ]);
+    });
+
+    it('keeps replies and mentions as separate rows', () => {
+      const groups = groupNotifications([
+        notification({ id: 'a', type: 'reply', reportId: 'r-1', actor: actor('u-1', 'Amy S.') }),
+        notification({ id: 'b', type: 'reply', reportId: 'r-1', actor: actor('u-2', 'Bob J.') }),
+        notification({ id: 'c', type: 'mention', reportId: 'r-1', actor: actor('u-1', 'Amy S.') }),
+      ]);
+
+      expect(groups.map((g) => g.message)).toEqual([
+        'Amy S. replied to your comment',
+        'Bob J. replied to your comment',
+        'Amy S. mentioned you in a comment',
+      ]);
+    });
+
+    it('links follows to the follower, or to your own profile when grouped', () => {
+      const single = groupNotifications([
+        notification({ id: 'a', type: 'follow', actor: actor('u-1', 'Amy S.') }),
+      ], 'me');
+      const several = groupNotifications([
+        notification({ id: 'a', type: 'follow', actor: actor('u-1', 'Amy S.') }),
+        notification({ id: 'b', type: 'follow', actor: actor('u-2', 'Bob J.') }),
+      ], 'me');
+
+      expect(single[0].link).toBe('fishlog://angler/u-1');
+      expect(several[0]).toEqual(
+        expect.objectContaining({
+          message: 'Amy S. and Bob J. started following you',
+          link: 'fishlog://angler/me',
+        })
+      );
+    });
+
+    it('describes system notifications', () => {
+      const groups = groupNotifications([
+        notification({ id: 'a', type: 'achievement', title: 'First Catch' }),
+        notification({ id: 'b', type: 'report_synced', title: 'ABC123', local: true }),
+        notification({ id: 'c', type: 'prize_won', title: 'Q2 2026 Rewards', drawingId: 'd-1' }),
+      ]);
+
+      expect(groups).toEqual([
+        expect.objectContaining({ message: 'You earned the First Catch achievement', link: 'fishlog://profile' }),
+        expect.objectContaining({
+          message: 'Your queued report was submitted (confirmation #ABC123)',
+          link: 'fishlog://my-reports',
+        }),
+        expect.objectContaining({
+          message: 'You won a prize in the Q2 2026 Rewards drawing! Claim it before the deadline',
+          link: 'fishlog://claim/d-1',
+        }),
+      ]);
+    });
+  });
+});
@@ -7,13 +7,17 @@ import { makeHarvestInput, makeQueuedReport, makeSubmittedReport, makeStoredRepo
 
 // Mock harvestReportService
 const mockSubmitHarvestReport = jest.fn();
-const mockGenerateConfirmationNumber = jest.fn().mockReturnValue({
-  dateS: '15', rand: '1234', unique1: '151234',
+const mockSubmitHarvestReportBatch = jest.fn();
+const mockFindExistingDMFFeature = jest.fn();
+const mockCreateSubmissionIdentity = jest.fn().mockReturnValue({
+  globalId: '{MOCK-GUID}', dateS: '15', rand: '1234', confirmationNumber: '151234',
 });
 
 jest.mock('../../src/services/harvestReportService', () => ({
   submitHarvestReport: (...args: any[]) => mockSubmitHarvestReport(...args),
-  generateConfirmationNumber: (...args: any[]) => mockGenerateConfirmationNumber(...args),
+  submitHarvestReportBatch: (...args: any[]) => mockSubmitHarvestReportBatch(...args),
+  createSubmissionIdentity: (...args: any[]) => mockCreateSubmissionIdentity(...args),
+  findExistingDMFFeature: (...args: any[]) => mockFindExistingDMFFeature(...args),
 }));
 
 // Mock reportsService
@@ -47,7 +51,11 @@ import {
   clearHistory,
   getHistoryEntry,
   submitWithQueueFallback,
+  resubmitDeadLetter,
+  getRetryDelayMs,
 } from '../../src/services/offlineQueue';
+import { getDeadLetters } from '../../src/services/deadLetterStore';
+import { beginSubmissionAttempt, completeSubmissionAttempt } from '../../src/services/dmfSubmissionLedger';
 
 // Grab references to mocked modules so we can override per-test
 const mockCreateReportFromHarvestInput =
@@ -90,6 +98,24 @@ describe('offlineQueue', () => {
       expect(queue[0].harvestDate).toBe('2026-01-15');
     });
 
+    it('pins the DMF identity so the local confirmation matches what DMF receives', async () => {
+      await addToQueue(makeHarvestInput());
+
+      const queue = await getQueue();
+      expect(queue[0].dmfIdentity).toEqual({
+        globalId: '{MOCK-GUID}', dateS: '15', rand: '1234', confirmationNumber: '151234',
+      });
+    });
+
+    it('keeps the identity of a failed direct attempt', async () => {
+      const identity = { globalId: '{DIRECT}', dateS: '02', rand: '77', confirmationNumber: '0277' };
+      const confirmation = await addToQueue(makeHarvestInput(), identity);
+
+      expect(confirmation).toBe('0277');
+      const queue = await getQueue();
+      expect(queue[0].dmfIdentity).toEqual(identity);
+    });
+
     it('appends to existing queue', async () => {
       await addToQueue(makeHarvestInput());
       await addToQueue(makeHarvestInput());
@@ -271,7 +297,7 @@ describe('offlineQueue', () => {
   describe('syncQueuedReports', () => {
     it('returns zeroes when queue is empty', async () => {
       const result = await syncQueuedReports();
-      expect(result).toEqual({ synced: 0, failed: 0, expired: 0, results: [] });
+      expect(result).toEqual({ synced: 0, failed: 0, rejected: 0, expired: 0, deferred: 0, results: [] });
     });
 
     it('successfully syncs a queued report', async () => {
@@ -293,6 +319,22 @@ describe('offlineQueue', () => {
       jest.useRealTimers();
     });
 
+    it('adds a device notification for each synced report', async () => {
+      mockSubmitHarvestReport.mockResolvedValue({
+        success: true,
+        confirmationNumber: 'DMF-SYNCED',
+        objectId: 43,
+      });
+
+      await addToQueue(makeHarvestInput());
+      await syncQueuedReports({ batch: false });
+
+      const stored = JSON.parse((await AsyncStorage.getItem('@notifications_local')) ?? '[]');
+      expect(stored[0]).toEqual(
+        expect.objectContaining({ type: 'report_synced', title: 'DMF-SYNCED', readAt: null })
+      );
+    });
+
     it('keeps failed reports in queue with incremented retry', async () => {
       jest.useFakeTimers();
       mockSubmitHarvestReport.mockResolvedValue({
@@ -315,6 +357,45 @@ describe('offlineQueue', () => {
       jest.useRealTimers();
     });
 
+    it('retries with the same pinned identity every time', async () => {
+      jest.useFakeTimers();
+      mockSubmitHarvestReport.mockResolvedValue({ success: false, error: 'Network error' });
+      const identity = { globalId: '{PINNED}', dateS: '15', rand: '1', confirmationNumber: '151' };
+      await AsyncStorage.setItem('@harvest_queue', JSON.stringify([
+        makeQueuedReport({ dmfIdentity: identity }),
+      ]));
+
+      let promise = syncQueuedReports();
+      await jest.advanceTimersByTimeAsync(2000);
+      await promise;
+      // Wait out the backoff before the second attempt
+      await jest.advanceTimersByTimeAsync(getRetryDelayMs(1));
+      promise = syncQueuedReports();
+      await jest.advanceTimersByTimeAsync(2000);
+      await promise;
+
+      expect(mockSubmitHarvestReport).toHaveBeenCalledTimes(2);
+      expect(mockSubmitHarvestReport.mock.calls[0][2]).toEqual(identity);
+      expect(mockSubmitHarvestReport.mock.calls[1][2]).toEqual(identity);
+      // Queue metadata never leaks into the submitted input
+      expect(mockSubmitHarvestReport.mock.calls[0][0].dmfIdentity).toBeUndefined();
+      jest.useRealTimers();
+    });
+
+    it('pins an identity to legacy queued reports on their first retry', async () => {
+      jest.useFakeTimers();
+      mockSubmitHarvestReport.mockResolvedValue({ success: false, error: 'Network error' });
+      await AsyncStorage.setItem('@harvest_queue', JSON.stringify([makeQueuedReport()]));
+
+      const promise = syncQueuedReports();
+      await jest.advanceTimersByTimeAsync(2000);
+      await promise;
+
+      const queue = await getQueue();
+      expect(queue[0].dmfIdentity?.globalId).toBe('{MOCK-GUID}');
+      jest.useRealTimers();
+    });
+
     it('expires reports exceeding max retries', async () => {
       jest.useFakeTimers();
       // Seed a report that has already hit max retries
@@ -330,6 +411,321 @@ describe('offlineQueue', () => {
       expect(await getQueueCount()).toBe(0);
       jest.useRealTimers();
     });
+
+    it('moves expired reports to the dead-letter store with their error history', async () => {
+      const errorHistory = [
+        { at: '2026-01-01T00:00:00.000Z', error: 'Network error' },
+        { at: '2026-01-02T00:00:00.000Z', error: 'Invalid Area' },
+      ];
+      const queuedReport = makeQueuedReport({
+        localConfirmationNumber: 'DEAD-1',
+        retryCount: 3,
+        lastError: 'Invalid Area',
+        errorHistory,
+      });
+      await AsyncStorage.setItem('@harvest_queue', JSON.stringify([queuedReport]));
+
+      await syncQueuedReports({ batch: false });
+
+      const deadLetters = await getDeadLetters();
+      expect(deadLetters).toHaveLength(1);
+      expect(deadLetters[0].localConfirmationNumber).toBe('DEAD-1');
+      expect(deadLetters[0].errorHistory).toEqual(errorHistory);
+      expect(deadLetters[0].deadLetteredAt).toBeDefined();
+    });
+
+    it('appends each failure to the error history', async () => {
+      mockSubmitHarvestReport.mockResolvedValue({ success: false, error: 'Timeout' });
+      await AsyncStorage.setItem('@harvest_queue', JSON.stringify([
+        makeQueuedReport({ retryCount: 1, errorHistory: [{ at: '2026-01-01T00:00:00.000Z', error: 'Network error' }] }),
+      ]));
+
+      await syncQueuedReports({ batch: false });
+
+      const queue = await getQueue();
+      expect(queue[0].errorHistory?.map(e => e.error)).toEqual(['Network error', 'Timeout']);
+    });
+  });
+
+  // ============================================================
+  // Retry backoff and error classification
+  // ============================================================
+  describe('getRetryDelayMs', () => {
+    it('doubles with each failure up to the cap', () => {
+      const base = 5 * 60 * 1000;
+      expect(getRetryDelayMs(1)).toBe(base);
+      expect(getRetryDelayMs(2)).toBe(base * 2);
+      expect(getRetryDelayMs(3)).toBe(base * 4);
+      expect(getRetryDelayMs(20)).toBe(6 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('syncQueuedReports - backoff and classification', () => {
+    it('schedules the next attempt with backoff after a transient failure', async () => {
+      mockSubmitHarvestReport.mockResolvedValue({ success: false, error: 'HTTP 503: Service Unavailable', queued: true });
+      await AsyncStorage.setItem('@harvest_queue', JSON.stringify([makeQueuedReport({ retryCount: 1 })]));
+
+      const before = Date.now();
+      const result = await syncQueuedReports({ batch: false });
+
+      const [queued] = await getQueue();
+      expect(queued.retryCount).toBe(2);
+      expect(new Date(queued.nextAttemptAt!).getTime()).toBeGreaterThanOrEqual(before + getRetryDelayMs(2));
+      expect(queued.errorHistory?.[0].kind).toBe('transient');
+      expect(result.failed).toBe(1);
+      expect(result.nextAttemptAt).toBe(queued.nextAttemptAt);
+    });
+
+    it('skips reports whose next attempt is not due yet', async () => {
+      const future = new Date(Date.now() + 60_000).toISOString();
+      await AsyncStorage.setItem('@harvest_queue', JSON.stringify([
+        makeQueuedReport({ retryCount: 1, nextAttemptAt: future }),
+      ]));
+
+      const result = await syncQueuedReports({ batch: false });
+
+      expect(mockSubmitHarvestReport).not.toHaveBeenCalled();
+      expect(result.deferred).toBe(1);
+      expect(result.nextAttemptAt).toBe(future);
+      expect((await getQueue())[0].retryCount).toBe(1);
+    });
+
+    it('moves permanent rejections straight to the dead-letter store', async () => {
+      mockSubmitHarvestReport.mockResolvedValue({ success: false, error: 'Setting of value for Area failed.' });
+      await AsyncStorage.setItem('@harvest_queue', JSON.stringify([
+        makeQueuedReport({ localConfirmationNumber: 'BAD-AREA', retryCount: 0 }),
+      ]));
+
+      const result = await syncQueuedReports({ batch: false });
+
+      expect(result.rejected).toBe(1);
+      expect(result.failed).toBe(0);
+      expect(await getQueueCount()).toBe(0);
+      const [deadLetter] = await getDeadLetters();
+      expect(deadLetter.localConfirmationNumber).toBe('BAD-AREA');
+      expect(deadLetter.errorHistory?.[0]).toMatchObject({
+        error: 'Setting of value for Area failed.',
+        kind: 'permanent',
+      });
+      expect(deadLetter.nextAttemptAt).toBeUndefined();
+    });
+
+    it('stops the run on a config error without using up retries', async () => {
+      mockSubmitHarvestReport.mockResolvedValue({ success: false, error: 'ArcGIS 498: Invalid token.', queued: true });
+      await AsyncStorage.setItem('@harvest_queue', JSON.stringify([
+        makeQueuedReport({ localConfirmationNumber: 'A', retryCount: 1, queuedAt: '2026-01-01T00:00:00.000Z' }),
+        makeQueuedReport({ localConfirmationNumber: 'B', retryCount: 0, queuedAt: '2026-01-02T00:00:00.000Z' }),
+      ]));
+
+      const result = await syncQueuedReports({ batch: false });
+
+      expect(mockSubmitHarvestReport).toHaveBeenCalledTimes(1);
+      expect(result.failed).toBe(1);
+      expect(result.deferred).toBe(1);
+
+      const queue = await getQueue();
+      expect(queue.map(r => r.localConfirmationNumber)).toEqual(['A', 'B']);
+      expect(queue[0].retryCount).toBe(1);
+      expect(queue[0].errorHistory?.[0].kind).toBe('config');
+      expect(queue[0].nextAttemptAt).toBeDefined();
+      expect(queue[1].nextAttemptAt).toBeUndefined();
+    });
+
+    it('dead-letters a report once config errors reach the cap', async () => {
+      mockSubmitHarvestReport.mockResolvedValue({ success: false, error: 'ArcGIS 498: Invalid token.', queued: true });
+      await AsyncStorage.setItem('@harvest_queue', JSON.stringify([
+        makeQueuedReport({
+          localConfirmationNumber: 'CFG',
+          retryCount: 0,
+          errorHistory: [{ at: '2026-01-01T00:00:00.000Z', error: 'ArcGIS 498: Invalid token.', kind: 'config' }],
+        }),
+      ]));
+
+      const result = await syncQueuedReports({ batch: false });
+
+      expect(result.expired).toBe(1);
+      expect(result.failed).toBe(0);
+      expect(await getQueueCount()).toBe(0);
+      const [deadLetter] = await getDeadLetters();
+      expect(deadLetter.localConfirmationNumber).toBe('CFG');
+      expect(deadLetter.errorHistory?.map(e => e.kind)).toEqual(['config', 'config']);
+      expect(deadLetter.nextAttemptAt).toBeUndefined();
+    });
+  });
+
+  // ============================================================
+  // Dead-letter recovery
+  // ============================================================
+  describe('resubmitDeadLetter', () => {
+    const identity = { globalId: '{DEAD}', dateS: '1', rand: '9', confirmationNumber: 'DEAD-1' };
+
+    beforeEach(async () => {
+      await AsyncStorage.setItem('@harvest_dead_letter', JSON.stringify([{
+        ...makeQueuedReport({
+          localConfirmationNumber: 'DEAD-1',
+          retryCount: 3,
+          wrcId: 'BAD',
+          dmfIdentity: identity,
+          errorHistory: [{ at: '2026-01-01T00:00:00.000Z', error: 'Invalid WRC ID' }],
+        }),
+        deadLetteredAt: '2026-01-03T00:00:00.000Z',
+      }]));
+    });
+
+    it('moves the report back to the queue with edits and a reset retry count', async () => {
+      expect(await resubmitDeadLetter('DEAD-1', { wrcId: 'WRC123' })).toBe(true);
+
+      const queue = await getQueue();
+      expect(queue).toHaveLength(1);
+      expect(queue[0].retryCount).toBe(0);
+      expect(queue[0].wrcId).toBe('WRC123');
+      expect((queue[0] as any).deadLetteredAt).toBeUndefined();
+      expect(await getDeadLetters()).toEqual([]);
+    });
+
+    it('keeps the pinned DMF identity and error history', async () => {
+      await resubmitDeadLetter('DEAD-1');
+
+      const queue = await getQueue();
+      expect(queue[0].dmfIdentity).toEqual(identity);
+      expect(queue[0].localConfirmationNumber).toBe('DEAD-1');
+      expect(queue[0].errorHistory).toHaveLength(1);
+    });
+
+    it('keeps the identity when the edits change nothing', async () => {
+      await resubmitDeadLetter('DEAD-1', { wrcId: 'BAD' });
+
+      const queue = await getQueue();
+      expect(queue[0].dmfIdentity).toEqual(identity);
+      expect(mockCreateSubmissionIdentity).not.toHaveBeenCalled();
+    });
+
+    it('gives a corrected report a new identity so the old filing is not adopted', async () => {
+      await resubmitDeadLetter('DEAD-1', { harvestDate: '2026-01-14', redDrumCount: 2, areaCode: '8' });
+
+      const queue = await getQueue();
+      expect(queue[0].dmfIdentity).toEqual({
+        globalId: '{MOCK-GUID}', dateS: '15', rand: '1234', confirmationNumber: '151234',
+      });
+      expect(queue[0].localConfirmationNumber).toBe('151234');
+      expect(queue[0]).toMatchObject({ harvestDate: '2026-01-14', redDrumCount: 2, areaCode: '8' });
+      expect(queue[0].errorHistory).toHaveLength(1);
+      expect(await getDeadLetters()).toEqual([]);
+      expect(mockFindExistingDMFFeature).not.toHaveBeenCalled();
+    });
+
+    it('re-identifies a corrected report when DMF rejected every attempt', async () => {
+      await beginSubmissionAttempt(identity);
+      await completeSubmissionAttempt(identity, { outcome: 'rejected', error: 'Invalid WRC ID' });
+
+      await resubmitDeadLetter('DEAD-1', { wrcId: 'WRC123' });
+
+      const queue = await getQueue();
+      expect(queue[0].dmfIdentity?.globalId).toBe('{MOCK-GUID}');
+      expect(mockFindExistingDMFFeature).not.toHaveBeenCalled();
+    });
+
+    it('keeps the identity of a corrected report whose ambiguous attempt reached DMF', async () => {
+      await beginSubmissionAttempt(identity);
+      await completeSubmissionAttempt(identity, { outcome: 'failed', error: 'Network request failed' });
+      mockFindExistingDMFFeature.mockResolvedValueOnce(42);
+
+      await resubmitDeadLetter('DEAD-1', { wrcId: 'WRC123' });
+
+      expect(mockFindExistingDMFFeature).toHaveBeenCalledWith('{DEAD}');
+      expect(mockCreateSubmissionIdentity).not.toHaveBeenCalled();
+      const queue = await getQueue();
+      expect(queue[0].dmfIdentity).toEqual(identity);
+      expect(queue[0].localConfirmationNumber).toBe('DEAD-1');
+    });
+
+    it('keeps the identity when the ambiguous attempt cannot be checked', async () => {
+      await beginSubmissionAttempt(identity);
+      mockFindExistingDMFFeature.mockRejectedValueOnce(new Error('Network request failed'));
+
+      await resubmitDeadLetter('DEAD-1', { wrcId: 'WRC123' });
+
+      const queue = await getQueue();
+      expect(queue[0].dmfIdentity).toEqual(identity);
+      expect(queue[0].wrcId).toBe('WRC123');
+    });
+
+    it('re-identifies a corrected report once DMF is confirmed not to have it', async () => {
+      await beginSubmissionAttempt(identity);
+      mockFindExistingDMFFeature.mockResolvedValueOnce(null);
+
+      await resubmitDeadLetter('DEAD-1', { wrcId: 'WRC123' });
+
+      const queue = await getQueue();
+      expect(queue[0].dmfIdentity?.globalId).toBe('{MOCK-GUID}');
+    });
+
+    it('returns false for an unknown report', async () => {
+      expect(await resubmitDeadLetter('NOPE')).toBe(false);
+      expect(await getQueueCount()).toBe(0);
+    });
+  });
+
+  // ============================================================
+  // Sync Queue to DMF - batched mode
+  // ============================================================
+  describe('syncQueuedReports - batched', () => {
+    it('submits all queued reports in one batch and settles each one', async () => {
+      const reports = [
+        makeQueuedReport({ localConfirmationNumber: 'A', dmfIdentity: { globalId: '{A}', dateS: '1', rand: '1', confirmationNumber: 'A' } }),
+        makeQueuedReport({ localConfirmationNumber: 'B', dmfIdentity: { globalId: '{B}', dateS: '1', rand: '2', confirmationNumber: 'B' } }),
+        makeQueuedReport({ localConfirmationNumber: 'C', dmfIdentity: { globalId: '{C}', dateS: '1', rand: '3', confirmationNumber: 'C' } }),
+      ];
+      await AsyncStorage.setItem('@harvest_queue', JSON.stringify(reports));
+      mockSubmitHarvestReportBatch.mockResolvedValue([
+        { success: true, confirmationNumber: 'A', objectId: 1 },
+        { success: false, error: 'Network request failed', queued: true },
+        { success: true, confirmationNumber: 'C', objectId: 3 },
+      ]);
+
+      const result = await syncQueuedReports({ batch: true });
+
+      expect(mockSubmitHarvestReport).not.toHaveBeenCalled();
+      expect(mockSubmitHarvestReportBatch).toHaveBeenCalledTimes(1);
+      const items = mockSubmitHarvestReportBatch.mock.calls[0][0];
+      expect(items.map((i: any) => i.identity.globalId)).toEqual(['{A}', '{B}', '{C}']);
+      expect(result.synced).toBe(2);
+      expect(result.failed).toBe(1);
+
+      const queue = await getQueue();
+      expect(queue.map(r => r.localConfirmationNumber)).toEqual(['B']);
+      expect(queue[0].lastError).toBe('Network request failed');
+      expect(mockCreateReportFromHarvestInput).toHaveBeenCalledTimes(2);
+    });
+
+    it('splits large queues into chunks of maxSyncBatchSize', async () => {
+      const reports = Array.from({ length: 30 }, () => makeQueuedReport());
+      await AsyncStorage.setItem('@harvest_queue', JSON.stringify(reports));
+      mockSubmitHarvestReportBatch.mockImplementation(async (items: any[]) =>
+        items.map((i: any) => ({ success: true, confirmationNumber: i.identity.confirmationNumber, objectId: 1 }))
+      );
+
+      const result = await syncQueuedReports({ batch: true });
+
+      expect(mockSubmitHarvestReportBatch).toHaveBeenCalledTimes(2);
+      expect(mockSubmitHarvestReportBatch.mock.calls[0][0]).toHaveLength(25);
+      expect(mockSubmitHarvestReportBatch.mock.calls[1][0]).toHaveLength(5);
+      expect(result.synced).toBe(30);
+    });
+
+    it('uses a single request for a lone report', async () => {
+      jest.useFakeTimers();
+      mockSubmitHarvestReport.mockResolvedValue({ success: true, confirmationNumber: 'X', objectId: 1 });
+      await addToQueue(makeHarvestInput());
+
+      const promise = syncQueuedReports({ batch: true });
+      await jest.advanceTimersByTimeAsync(2000);
+      await promise;
+
+      expect(mockSubmitHarvestReportBatch).not.toHaveBeenCalled();
+      expect(mockSubmitHarvestReport).toHaveBeenCalledTimes(1);
+      jest.useRealTimers();
+    });
   });
 
   // ============================================================
@@ -375,6 +771,21 @@ describe('offlineQueue', () => {
       jest.useRealTimers();
     });
 
+    it('queues with the identity used by the failed attempt', async () => {
+      jest.useFakeTimers();
+      mockSubmitHarvestReport.mockResolvedValue({ success: false, error: 'timeout', queued: true });
+
+      const promise = submitWithQueueFallback(makeHarvestInput());
+      await jest.advanceTimersByTimeAsync(2000);
+      const result = await promise;
+
+      const attemptedIdentity = mockSubmitHarvestReport.mock.calls[0][2];
+      const queue = await getQueue();
+      expect(queue[0].dmfIdentity).toEqual(attemptedIdentity);
+      expect(result.confirmationNumber).toBe(attemptedIdentity.confirmationNumber);
+      jest.useRealTimers();
+    });
+
     it('queues via offlineQueueEnabled when result.queued is false', async () => {
       // APP_CONFIG.features.offlineQueueEnabled is true in test config
       // but result.queued is false — should still queue
@@ -536,7 +947,7 @@ describe('offlineQueue', () => {
       const result2 = await second;
 
       // Second call should return zeroes (skipped)
-      expect(result2).toEqual({ synced: 0, failed: 0, expired: 0, results: [] });
+      expect(result2).toEqual({ synced: 0, failed: 0, rejected: 0, expired: 0, deferred: 0, results: [] });
       // First call should have actually synced
       expect(result1.synced).toBe(1);
       jest.useRealTimers();
@@ -0,0 +1,181 @@
+/**
+ * regulationService.test.ts - Dated regulation records and closure bulletins
+ */
+jest.unmock('../../src/services/bulletinService');
+
+import { mockSupabase, mockIsSupabaseConnected } from '../mocks/supabase';
+
+import {
+  fetchRegulationRecords,
+  bulletinToRegulationRecords,
+  clearRegulationCache,
+} from '../../src/services/regulationService';
+import { transformBulletin } from '../../src/services/bulletinService';
+
+const regulationRow = {
+  id: 'reg-1',
+  species_id: 'species-1',
+  regulations: { sizeLimit: { min: 15, max: null, unit: 'in' }, bagLimit: 1, openSeasons: null },
+  harvest_status: null,
+  note: null,
+  area_codes: [],
+  effective_date: '2025-01-01',
+  expiration_date: null,
+  source: 'import',
+  bulletin_id: null,
+  created_at: '2025-01-01T00:00:00Z',
+};
+
+const closureRow = {
+  id: 'b-1',
+  title: 'Flounder Closure',
+  bulletin_type: 'closure',
+  priority: 'urgent',
+  effective_date: '2025-10-01',
+  expiration_date: '2025-10-31',
+  is_active: true,
+  affected_species_ids: ['species-1', 'species-2'],
+  created_at: '2025-09-28T12:00:00Z',
+};
+
+function mockTables(tables: Record<string, { data: unknown; error: unknown } | Error>) {
+  (mockSupabase.from as jest.Mock).mockImplementation((table: string) => {
+    const result = tables[table];
+    return {
+      select: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      order: result instanceof Error
+        ? jest.fn().mockRejectedValue(result)
+        : jest.fn().mockResolvedValue(result),
+    };
+  });
+}
+
+describe('regulationService', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockIsSupabaseConnected.mockResolvedValue(true);
+    await clearRegulationCache();
+  });
+
+  describe('bulletinToRegulationRecords', () => {
+    it('creates a closed status record per affected species', () => {
+      const records = bulletinToRegulationRecords(transformBulletin(closureRow));
+
+      expect(records).toEqual([
+        expect.objectContaining({
+          speciesId: 'species-1',
+          regulations: null,
+          harvestStatus: 'closed',
+          note: 'Flounder Closure',
+          effectiveDate: '2025-10-01',
+          expirationDate: '2025-10-31',
+          source: 'bulletin',
+          bulletinId: 'b-1',
+        }),
+        expect.objectContaining({ speciesId: 'species-2' }),
+      ]);
+    });
+
+    it('starts on the posting date when the bulletin has no effective date', () => {
+      const [record] = bulletinToRegulationRecords(
+        transformBulletin({ ...closureRow, effective_date: null, expiration_date: null })
+      );
+
+      expect(record.effectiveDate).toBe('2025-09-28');
+      expect(record.expirationDate).toBeNull();
+    });
+
+    it('ignores bulletins that are not closures', () => {
+      expect(bulletinToRegulationRecords(transformBulletin({ ...closureRow, bulletin_type: 'advisory' }))).toEqual([]);
+    });
+  });
+
+  describe('fetchRegulationRecords', () => {
+    it('combines stored records with closure bulletins', async () => {
+      mockTables({
+        species_regulations: { data: [regulationRow], error: null },
+        app_bulletins: { data: [closureRow], error: null },
+      });
+
+      const records = await fetchRegulationRecords();
+
+      expect(records.map(r => r.id)).toEqual(['reg-1', 'bulletin-b-1-species-1', 'bulletin-b-1-species-2']);
+      expect(mockSupabase.from).toHaveBeenCalledWith('species_regulations');
+      expect(mockSupabase.from).toHaveBeenCalledWith('app_bulletins');
+    });
+
+    it('includes closure bulletins that are no longer active', async () => {
+      const eq = jest.fn().mockReturnThis();
+      (mockSupabase.from as jest.Mock).mockImplementation((table: string) => ({
+        select: jest.fn().mockReturnThis(),
+        eq,
+        order: jest.fn().mockResolvedValue(
+          table === 'app_bulletins'
+            ? { data: [{ ...closureRow, is_active: false }], error: null }
+            : { data: [], error: null }
+        ),
+      }));
+
+      const records = await fetchRegulationRecords();
+
+      expect(eq).toHaveBeenCalledWith('bulletin_type', 'closure');
+      expect(eq).not.toHaveBeenCalledWith('is_active', expect.anything());
+      expect(records.map(r => r.id)).toEqual(['bulletin-b-1-species-1', 'bulletin-b-1-species-2']);
+    });
+
+    it('skips bulletins already stored as regulation records', async () => {
+      const storedClosure = {
+        ...regulationRow,
+        id: 'reg-closure',
+        regulations: null,
+        harvest_status: 'closed',
+        source: 'bulletin',
+        bulletin_id: 'b-1',
+      };
+      mockTables({
+        species_regulations: { data: [regulationRow, storedClosure], error: null },
+        app_bulletins: { data: [closureRow], error: null },
+      });
+
+      const records = await fetchRegulationRecords();
+      expect(records.map(r => r.id)).toEqual(['reg-1', 'reg-closure']);
+    });
+
+    it('falls back to the cache when Supabase fails', async () => {
+      mockTables({
+        species_regulations: { data: [regulationRow], error: null },
+        app_bulletins: { data: [], error: null },
+      });
+      await fetchRegulationRecords();
+
+      mockTables({
+        species_regulations: { data: null, error: { message: 'Query failed' } },
+        app_bulletins: { data: [], error: null },
+      });
+      const records = await fetchRegulationRecords();
+
+      expect(records.map(r => r.id)).toEqual(['reg-1']);
+    });
+
+    it('uses the cache when offline', async () => {
+      mockTables({
+        species_regulations: { data: [regulationRow], error: null },
+        app_bulletins: { data: [], error: null },
+      });
+      await fetchRegulationRecords();
+
+      mockIsSupabaseConnected.mockResolvedValue(false);
+      (mockSupabase.from as jest.Mock).mockClear();
+
+      const records = await fetchRegulationRecords();
+      expect(records.map(r => r.id)).toEqual(['reg-1']);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+
+    it('returns an empty array with no connection and no cache', async () => {
+      mockIsSupabaseConnected.mockResolvedValue(false);
+      expect(await fetchRegulationRecords()).toEqual([]);
+    });
+  });
+});
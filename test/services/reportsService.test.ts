@@ -102,6 +102,14 @@ describe('reportsService', () => {
         { species: 'Red Drum', count: 2, lengths: ['18', '22'], tagNumber: 'T001' },
       ]);
     });
+
+    it('maps feed privacy overrides, leaving unset fields to the profile', () => {
+      const input = makeHarvestInput({ feedPrivacy: { locationPrecision: 'region' } });
+      const result = harvestInputToReportInput(input);
+
+      expect(result.locationPrecision).toBe('region');
+      expect(result.publishDelayDays).toBeUndefined();
+    });
   });
 
   // ============================================================
@@ -244,6 +252,40 @@ describe('reportsService', () => {
       expect(result.report.id).toBe('sb-report-1');
     });
 
+    it('sends feed privacy overrides, or null to use the profile settings', async () => {
+      const rpc = jest.fn().mockResolvedValue({
+        data: { report_id: 'sb-report-2', created_at: '2026-01-15T00:00:00.000Z' },
+        error: null,
+      });
+      (mockSupabase as any).rpc = rpc;
+
+      const input: ReportInput = {
+        anonymousUserId: 'anon-123',
+        hasLicense: true,
+        wantTextConfirmation: false,
+        wantEmailConfirmation: false,
+        harvestDate: '2026-01-15',
+        areaCode: '34',
+        usedHookAndLine: true,
+        redDrumCount: 1,
+        flounderCount: 0,
+        spottedSeatroutCount: 0,
+        weakfishCount: 0,
+        stripedBassCount: 0,
+        reportingFor: 'self',
+        publishDelayDays: 3,
+      };
+
+      await createReport(input);
+
+      const [, params] = rpc.mock.calls[0];
+      expect(params.p_input).toEqual(expect.objectContaining({
+        location_precision: null,
+        publish_delay_days: 3,
+        visibility: 'public',
+      }));
+    });
+
     it('falls back to local when Supabase RPC fails', async () => {
       (mockSupabase as any).rpc = jest.fn().mockResolvedValue({
         data: null,
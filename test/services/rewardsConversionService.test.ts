@@ -63,6 +63,11 @@ jest.mock('../../src/services/userProfileService', () => ({
   getCurrentUser: jest.fn().mockResolvedValue(null),
 }));
 
+jest.mock('../../src/services/deviceMergeService', () => ({
+  requestDeviceMerge: jest.fn().mockResolvedValue(null),
+  mergeDeviceIntoAccount: jest.fn().mockResolvedValue(null),
+}));
+
 jest.mock('../../src/services/catchFeedService', () => ({
   clearCatchFeedCache: jest.fn().mockResolvedValue(undefined),
 }));
@@ -124,6 +129,10 @@ describe('rewardsConversionService', () => {
     const { getPendingSubmission } = require('../../src/services/pendingSubmissionService');
     getPendingSubmission.mockResolvedValue(null);
 
+    const { requestDeviceMerge, mergeDeviceIntoAccount } = require('../../src/services/deviceMergeService');
+    requestDeviceMerge.mockResolvedValue(null);
+    mergeDeviceIntoAccount.mockResolvedValue(null);
+
     // Reset Supabase from chain to its default factory implementation
     (mockSupabase.from as jest.Mock).mockImplementation(() => ({
       select: jest.fn().mockReturnThis(),
@@ -634,19 +643,14 @@ describe('rewardsConversionService', () => {
       const { findUserByEmail } = require('../../src/services/userService');
       findUserByEmail.mockResolvedValue({ id: 'user-other', email: 'test@example.com' });
 
-      (mockSupabase.from as jest.Mock).mockImplementation(() => ({
-        insert: jest.fn().mockReturnThis(),
-        select: jest.fn().mockReturnThis(),
-        single: jest.fn().mockResolvedValue({
-          data: { id: 'merge-req-1' },
-          error: null,
-        }),
-      }));
+      const { requestDeviceMerge } = require('../../src/services/deviceMergeService');
+      requestDeviceMerge.mockResolvedValue({ id: 'merge-req-1', mergeToken: 'token-1' });
 
       const result = await linkEmailToUser('test@example.com');
       expect(result.success).toBe(true);
       expect(result.merged).toBe(false);
       expect(result.mergeRequestId).toBe('merge-req-1');
+      expect(requestDeviceMerge).toHaveBeenCalledWith('test@example.com', 'user-1');
     });
 
     it('updates current user email when email does not exist', async () => {
@@ -673,14 +677,8 @@ describe('rewardsConversionService', () => {
       const { findUserByEmail } = require('../../src/services/userService');
       findUserByEmail.mockResolvedValue({ id: 'user-other', email: 'test@example.com' });
 
-      (mockSupabase.from as jest.Mock).mockImplementation(() => ({
-        insert: jest.fn().mockReturnThis(),
-        select: jest.fn().mockReturnThis(),
-        single: jest.fn().mockResolvedValue({
-          data: null,
-          error: { message: 'insert failed' },
-        }),
-      }));
+      const { requestDeviceMerge } = require('../../src/services/deviceMergeService');
+      requestDeviceMerge.mockRejectedValue(new Error('Failed to create merge request: insert failed'));
 
       const result = await linkEmailToUser('test@example.com');
       expect(result.success).toBe(false);
@@ -843,7 +841,7 @@ describe('rewardsConversionService', () => {
       expect(result.error).toBe('No authenticated user found');
     });
 
-    it('deletes conflicting device-only user and updates existing email user', async () => {
+    it('merges conflicting device-only user into existing email user', async () => {
       const { getCurrentAuthUser, clearPendingAuth } = require('../../src/services/authService');
       const { findUserByEmail, findUserByDeviceId } = require('../../src/services/userService');
       const { cacheUser, syncToUserProfile } = require('../../src/services/userProfileService');
@@ -864,6 +862,17 @@ describe('rewardsConversionService', () => {
       // Conflicting device user has no email
       findUserByDeviceId.mockResolvedValue({ id: 'device-only-user', email: null });
 
+      const { mergeDeviceIntoAccount } = require('../../src/services/deviceMergeService');
+      mergeDeviceIntoAccount.mockResolvedValue({
+        requestId: 'merge-1',
+        targetUserId: 'email-user',
+        reportsMerged: 3,
+        achievementsMerged: 1,
+        entriesMerged: 0,
+        followsMerged: 0,
+      });
+      const { backfillUserStatsFromReports } = require('../../src/services/statsService');
+
       const updatedData = {
         id: 'email-user',
         email: 'existing@example.com',
@@ -873,8 +882,9 @@ describe('rewardsConversionService', () => {
         updated_at: '2026-01-01',
       };
 
+      const mockDelete = jest.fn().mockReturnThis();
       (mockSupabase.from as jest.Mock).mockImplementation(() => ({
-        delete: jest.fn().mockReturnThis(),
+        delete: mockDelete,
         update: jest.fn().mockReturnThis(),
         eq: jest.fn().mockReturnThis(),
         select: jest.fn().mockReturnThis(),
@@ -884,11 +894,43 @@ describe('rewardsConversionService', () => {
       const result = await createRewardsMemberFromAuthUser();
 
       expect(result.success).toBe(true);
+      expect(result.claimedCatches).toBe(3);
+      expect(mergeDeviceIntoAccount).toHaveBeenCalledWith('existing@example.com', 'device-only-user');
+      expect(backfillUserStatsFromReports).toHaveBeenCalledWith('email-user');
+      expect(mockDelete).not.toHaveBeenCalled();
       expect(cacheUser).toHaveBeenCalled();
       expect(syncToUserProfile).toHaveBeenCalled();
       expect(clearPendingAuth).toHaveBeenCalled();
     });
 
+    it('keeps existing user unchanged when merging the device user fails', async () => {
+      const { getCurrentAuthUser } = require('../../src/services/authService');
+      const { findUserByEmail, findUserByDeviceId } = require('../../src/services/userService');
+
+      getCurrentAuthUser.mockResolvedValue({
+        id: 'auth-100',
+        email: 'existing@example.com',
+        user_metadata: {},
+      });
+
+      const existingUser = {
+        id: 'email-user',
+        email: 'existing@example.com',
+        deviceId: 'other-device',
+      };
+      findUserByEmail.mockResolvedValue(existingUser);
+      findUserByDeviceId.mockResolvedValue({ id: 'device-only-user', email: null });
+
+      const { mergeDeviceIntoAccount } = require('../../src/services/deviceMergeService');
+      mergeDeviceIntoAccount.mockRejectedValue(new Error('Failed to merge device history: expired'));
+
+      const result = await createRewardsMemberFromAuthUser();
+
+      expect(result.success).toBe(true);
+      expect(result.user).toEqual(existingUser);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+
     it('keeps existing user when both conflicting users have emails', async () => {
       const { getCurrentAuthUser, clearPendingAuth } = require('../../src/services/authService');
       const { findUserByEmail, findUserByDeviceId } = require('../../src/services/userService');
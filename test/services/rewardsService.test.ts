@@ -29,6 +29,9 @@ import {
   checkForNewQuarter,
   resetSupabaseAvailabilityCache,
   addReportToRewardsEntry,
+  fetchPastDrawings,
+  fetchEntryBreakdown,
+  claimPrize,
 } from '../../src/services/rewardsService';
 
 const STORAGE_KEYS = {
@@ -327,4 +330,205 @@ describe('rewardsService', () => {
       expect(prize.description).toBe('One-year BoatUS membership with towing coverage.');
     });
   });
+
+  // ============================================================
+  // fetchPastDrawings
+  // ============================================================
+  describe('fetchPastDrawings', () => {
+    const row = {
+      drawing_id: 'd-1',
+      name: 'Q1 2026 Rewards',
+      quarter: 1,
+      year: 2026,
+      end_date: '2026-03-31',
+      drawing_date: '2026-04-05',
+      drawn_at: '2026-04-05T15:00:00Z',
+      entrant_count: 42,
+      seed_hash: 'abc',
+      seed: 'seed',
+      winners: [{ place: 1, display_name: 'Jane D.', prize_name: 'Rod & Reel' }],
+      viewer_entered: true,
+      viewer_entered_at: '2026-02-01T12:00:00Z',
+      viewer_place: 1,
+      viewer_prize_name: 'Rod & Reel',
+      viewer_prize_value: '$150',
+      viewer_claim_status: 'pending',
+      viewer_claim_deadline: '2026-04-19T15:00:00Z',
+    };
+
+    beforeEach(() => {
+      (mockSupabase as any).rpc = jest.fn();
+    });
+
+    it('maps results with winners and the viewer\'s claim', async () => {
+      (mockSupabase as any).rpc.mockResolvedValue({ data: [row], error: null });
+
+      const [drawing] = await fetchPastDrawings();
+
+      expect((mockSupabase as any).rpc).toHaveBeenCalledWith('get_past_drawings');
+      expect(drawing).toEqual(
+        expect.objectContaining({
+          drawingId: 'd-1',
+          entrantCount: 42,
+          winners: [{ place: 1, displayName: 'Jane D.', prizeName: 'Rod & Reel' }],
+          userEntered: true,
+          userWin: {
+            place: 1,
+            prizeName: 'Rod & Reel',
+            prizeValue: '$150',
+            claimStatus: 'pending',
+            claimDeadline: '2026-04-19T15:00:00Z',
+          },
+        })
+      );
+    });
+
+    it('has no win for entrants who were not drawn', async () => {
+      (mockSupabase as any).rpc.mockResolvedValue({
+        data: [{ ...row, viewer_place: null, viewer_claim_status: null, viewer_claim_deadline: null }],
+        error: null,
+      });
+
+      const [drawing] = await fetchPastDrawings();
+
+      expect(drawing.userWin).toBeNull();
+    });
+
+    it('falls back to the cached list when offline or on error', async () => {
+      (mockSupabase as any).rpc.mockResolvedValue({ data: [row], error: null });
+      await fetchPastDrawings();
+
+      (mockSupabase as any).rpc.mockResolvedValue({ data: null, error: { message: 'timeout' } });
+      jest.spyOn(console, 'warn').mockImplementation();
+      expect((await fetchPastDrawings()).map((d) => d.drawingId)).toEqual(['d-1']);
+
+      mockIsSupabaseConnected.mockResolvedValue(false);
+      resetSupabaseAvailabilityCache();
+      (mockSupabase as any).rpc.mockClear();
+      expect((await fetchPastDrawings()).map((d) => d.drawingId)).toEqual(['d-1']);
+      expect((mockSupabase as any).rpc).not.toHaveBeenCalled();
+    });
+
+    it('returns an empty list with nothing cached', async () => {
+      mockIsSupabaseConnected.mockResolvedValue(false);
+
+      expect(await fetchPastDrawings()).toEqual([]);
+    });
+  });
+
+  describe('fetchEntryBreakdown', () => {
+    const row = {
+      is_entered: true,
+      base_entries: 1,
+      on_time_reports: 3,
+      on_time_entries: 3,
+      photo_catches: 2,
+      photo_entries: 2,
+      streak_weeks: 3,
+      streak_entries: 2,
+      free_entry_requests: 0,
+      free_entries: 0,
+      per_on_time_report: 1,
+      per_photo_catch: 1,
+      per_streak_week: 1,
+      max_entries: 8,
+      total_entries: 8,
+    };
+
+    beforeEach(() => {
+      (mockSupabase as any).rpc = jest.fn();
+    });
+
+    it('maps the server-computed breakdown and flags the cap', async () => {
+      (mockSupabase as any).rpc.mockResolvedValue({ data: [row], error: null });
+
+      const breakdown = await fetchEntryBreakdown('d-1');
+
+      expect((mockSupabase as any).rpc).toHaveBeenCalledWith('get_my_drawing_entries', {
+        p_drawing_id: 'd-1',
+      });
+      expect(breakdown).toEqual(
+        expect.objectContaining({
+          drawingId: 'd-1',
+          onTimeEntries: 3,
+          streakWeeks: 3,
+          totalEntries: 8,
+          isCapped: true,
+          rules: { perOnTimeReport: 1, perPhotoCatch: 1, perStreakWeek: 1, maxEntries: 8 },
+        })
+      );
+    });
+
+    it('returns null when the member has not entered', async () => {
+      (mockSupabase as any).rpc.mockResolvedValue({
+        data: [{ ...row, is_entered: false, total_entries: 0 }],
+        error: null,
+      });
+
+      expect(await fetchEntryBreakdown('d-1')).toBeNull();
+    });
+
+    it('falls back to the cached breakdown for the same drawing offline', async () => {
+      (mockSupabase as any).rpc.mockResolvedValue({ data: [row], error: null });
+      await fetchEntryBreakdown('d-1');
+
+      mockIsSupabaseConnected.mockResolvedValue(false);
+      resetSupabaseAvailabilityCache();
+
+      expect((await fetchEntryBreakdown('d-1'))?.totalEntries).toBe(8);
+      expect(await fetchEntryBreakdown('d-2')).toBeNull();
+    });
+  });
+
+  // ============================================================
+  // claimPrize
+  // ============================================================
+  describe('claimPrize', () => {
+    const details = {
+      fullName: 'Jane Doe',
+      email: 'jane@example.com',
+      phone: '2525550123',
+      addressLine1: '1 Harbor Rd',
+      city: 'Manteo',
+      state: 'NC',
+      postalCode: '27954',
+    };
+
+    beforeEach(() => {
+      (mockSupabase as any).rpc = jest.fn();
+    });
+
+    it('submits the details and returns the new status', async () => {
+      (mockSupabase as any).rpc.mockResolvedValue({ data: { status: 'claimed' }, error: null });
+
+      const status = await claimPrize('d-1', details, true);
+
+      expect(status).toBe('claimed');
+      expect((mockSupabase as any).rpc).toHaveBeenCalledWith('claim_prize', expect.objectContaining({
+        p_drawing_id: 'd-1',
+        p_full_name: 'Jane Doe',
+        p_address_line2: null,
+        p_postal_code: '27954',
+        p_accept_terms: true,
+      }));
+    });
+
+    it('surfaces the server reason when the claim is rejected', async () => {
+      (mockSupabase as any).rpc.mockResolvedValue({
+        data: null,
+        error: { message: 'The claim deadline has passed' },
+      });
+
+      await expect(claimPrize('d-1', details, true)).rejects.toThrow(
+        'Failed to claim prize: The claim deadline has passed'
+      );
+    });
+
+    it('requires a connection', async () => {
+      mockIsSupabaseConnected.mockResolvedValue(false);
+
+      await expect(claimPrize('d-1', details, true)).rejects.toThrow(/online/);
+      expect((mockSupabase as any).rpc).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,85 @@
+import {
+  transformRegulationRecord,
+  transformRegulationRecordList,
+  SupabaseRegulationRecordRow,
+} from '../../../src/services/transformers/regulationRecordTransformer';
+
+const makeRow = (overrides?: Partial<SupabaseRegulationRecordRow>): SupabaseRegulationRecordRow => ({
+  id: 'reg-1',
+  species_id: 'sp-1',
+  regulations: {
+    sizeLimit: { min: 15, max: null, unit: 'in' },
+    bagLimit: 1,
+    openSeasons: [{ from: '09-01', to: '09-30' }],
+  },
+  harvest_status: null,
+  note: null,
+  area_codes: ['NC-010'],
+  effective_date: '2025-08-16',
+  expiration_date: '2025-12-31',
+  source: 'import',
+  bulletin_id: null,
+  created_at: '2025-08-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('regulationRecordTransformer', () => {
+  it('maps snake_case columns to a RegulationRecord', () => {
+    expect(transformRegulationRecord(makeRow())).toEqual({
+      id: 'reg-1',
+      speciesId: 'sp-1',
+      regulations: {
+        sizeLimit: { min: 15, max: null, unit: 'in' },
+        bagLimit: 1,
+        openSeasons: [{ from: '09-01', to: '09-30' }],
+        closedAreas: undefined,
+        specialRegulations: undefined,
+      },
+      harvestStatus: null,
+      note: null,
+      areaCodes: ['NC-010'],
+      effectiveDate: '2025-08-16',
+      expirationDate: '2025-12-31',
+      source: 'import',
+      bulletinId: null,
+    });
+  });
+
+  it('fills defaults for partial regulations and missing areas', () => {
+    const record = transformRegulationRecord(
+      makeRow({ regulations: { bagLimit: 4 }, area_codes: null, expiration_date: null })
+    );
+
+    expect(record.regulations?.sizeLimit).toEqual({ min: null, max: null, unit: 'in' });
+    expect(record.regulations?.openSeasons).toBeNull();
+    expect(record.areaCodes).toEqual([]);
+    expect(record.expirationDate).toBeNull();
+  });
+
+  it('keeps status-only records without regulations', () => {
+    const record = transformRegulationRecord(
+      makeRow({ regulations: null, harvest_status: 'closed', source: 'bulletin', bulletin_id: 'b-1' })
+    );
+
+    expect(record.regulations).toBeNull();
+    expect(record.harvestStatus).toBe('closed');
+    expect(record.source).toBe('bulletin');
+    expect(record.bulletinId).toBe('b-1');
+  });
+
+  it('trims timestamps to calendar dates', () => {
+    const record = transformRegulationRecord(
+      makeRow({ effective_date: '2025-08-16T00:00:00+00:00', expiration_date: '2025-09-30T00:00:00+00:00' })
+    );
+
+    expect(record.effectiveDate).toBe('2025-08-16');
+    expect(record.expirationDate).toBe('2025-09-30');
+  });
+
+  it('transforms a list', () => {
+    expect(transformRegulationRecordList([makeRow(), makeRow({ id: 'reg-2' })]).map(r => r.id)).toEqual([
+      'reg-1',
+      'reg-2',
+    ]);
+  });
+});
@@ -332,6 +332,9 @@ describe('userProfileService', () => {
         longestStreak: 2,
         lastReportDate: '2026-02-01',
         rewardsOptedInAt: '2026-01-01',
+        locationPrecision: 'exact',
+        publishDelayDays: 0,
+        isPrivate: false,
         createdAt: '2026-01-01',
         updatedAt: '2026-01-01',
       });
@@ -577,6 +580,9 @@ describe('userProfileService', () => {
         longestStreak: 0,
         lastReportDate: null,
         rewardsOptedInAt: '2026-01-01',
+        locationPrecision: 'exact',
+        publishDelayDays: 0,
+        isPrivate: false,
         createdAt: '2026-01-01',
         updatedAt: '2026-01-01',
       });
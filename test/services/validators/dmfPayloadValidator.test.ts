@@ -0,0 +1,152 @@
+import { validateDMFPayload } from '../../../src/services/validators/dmfPayloadValidator';
+import { transformToDMFPayload } from '../../../src/services/harvestReportService';
+import { APP_CONFIG } from '../../../src/config/appConfig';
+import { AREA_OPTIONS } from '../../../src/constants/areaOptions';
+import { GEAR_OPTIONS, NON_HOOK_GEAR_OPTIONS } from '../../../src/constants/gearOptions';
+import { SPECIES } from '../../../src/constants/species';
+import { DMF_LAYER_SCHEMA, getDMFDomainCodes } from '../../../src/constants/dmfSchema';
+import type { HarvestReportInput } from '../../../src/types/harvestReport';
+import { makeHarvestInput } from '../../factories';
+
+const validInput = (overrides?: Partial<HarvestReportInput>) =>
+  makeHarvestInput({ areaCode: '34', ...overrides });
+
+const identity = {
+  globalId: '{1A2B3C4D-5E6F-7A8B-9C0D-1E2F3A4B5C6D}',
+  dateS: '21',
+  rand: '5432',
+  confirmationNumber: '215432',
+};
+
+describe('DMF layer schema', () => {
+  it('lists every field transformToDMFPayload sends', () => {
+    const sent = Object.keys(transformToDMFPayload(validInput()).attributes).sort();
+    const described = DMF_LAYER_SCHEMA.fields.map(f => f.name).sort();
+    expect(sent).toEqual(described);
+  });
+
+  it('matches the app area and gear options', () => {
+    expect(getDMFDomainCodes('Area').sort()).toEqual(AREA_OPTIONS.map(a => a.value).sort());
+    expect(getDMFDomainCodes('Gear').sort()).toEqual(GEAR_OPTIONS.map(g => g.value).sort());
+  });
+
+  it('has a count and flag field for every species', () => {
+    for (const species of SPECIES) {
+      expect(getDMFDomainCodes(species.dmfCountField)).toEqual([]);
+      expect(DMF_LAYER_SCHEMA.fields.map(f => f.name)).toEqual(
+        expect.arrayContaining([species.dmfCountField, species.dmfFlagField])
+      );
+    }
+  });
+});
+
+describe('transformToDMFPayload contract', () => {
+  const originalGps = APP_CONFIG.features.sendGpsGeometry;
+
+  afterEach(() => {
+    APP_CONFIG.features.sendGpsGeometry = originalGps;
+  });
+
+  const licenseCases: Array<[string, Partial<HarvestReportInput>]> = [
+    ['licensed', { hasLicense: true, wrcId: 'NC12345' }],
+    ['unlicensed', { hasLicense: false, wrcId: undefined, firstName: 'Test', lastName: 'Angler', zipCode: '27601' }],
+  ];
+  const scopeCases: Array<[string, Partial<HarvestReportInput>]> = [
+    ['self', { reportingFor: 'self' }],
+    ['family', { reportingFor: 'family', familyCount: 3 }],
+  ];
+  const confirmationCases: Array<[string, Partial<HarvestReportInput>]> = [
+    ['no confirmations', { wantTextConfirmation: false, wantEmailConfirmation: false }],
+    ['text and email', { wantTextConfirmation: true, phone: '2525551234', wantEmailConfirmation: true, email: 'angler@example.com' }],
+  ];
+
+  for (const [license, licenseInput] of licenseCases) {
+    for (const [scope, scopeInput] of scopeCases) {
+      for (const [confirmation, confirmationInput] of confirmationCases) {
+        it(`matches the schema: ${license}, ${scope}, ${confirmation}`, () => {
+          const payload = transformToDMFPayload(
+            validInput({ ...licenseInput, ...scopeInput, ...confirmationInput }),
+            identity
+          );
+          expect(validateDMFPayload(payload)).toEqual([]);
+        });
+      }
+    }
+  }
+
+  it.each(AREA_OPTIONS.map(a => a.value))('accepts area %s', (areaCode) => {
+    expect(validateDMFPayload(transformToDMFPayload(validInput({ areaCode }), identity))).toEqual([]);
+  });
+
+  it.each(NON_HOOK_GEAR_OPTIONS.map(g => g.value))('accepts gear %s without hook and line', (gearCode) => {
+    const payload = transformToDMFPayload(validInput({ usedHookAndLine: false, gearCode }), identity);
+    expect(validateDMFPayload(payload)).toEqual([]);
+  });
+
+  it('accepts counts for every species', () => {
+    const counts = Object.fromEntries(SPECIES.map(s => [s.reportCountField, 12]));
+    expect(validateDMFPayload(transformToDMFPayload(validInput(counts), identity))).toEqual([]);
+  });
+
+  it('accepts GPS geometry when enabled', () => {
+    APP_CONFIG.features.sendGpsGeometry = true;
+    const payload = transformToDMFPayload(
+      validInput({ gpsCoordinates: { latitude: 35.2, longitude: -75.7 } }),
+      identity
+    );
+    expect(validateDMFPayload(payload)).toEqual([]);
+  });
+
+  it('accepts a freshly generated identity', () => {
+    expect(validateDMFPayload(transformToDMFPayload(validInput()))).toEqual([]);
+  });
+});
+
+describe('validateDMFPayload', () => {
+  const payload = (overrides?: Partial<HarvestReportInput>) =>
+    transformToDMFPayload(validInput(overrides), identity);
+
+  const rulesFor = (p: ReturnType<typeof payload>) => validateDMFPayload(p).map(v => `${v.field}:${v.rule}`);
+
+  it('flags unknown and missing fields', () => {
+    const p = payload();
+    const attributes = p.attributes as unknown as Record<string, unknown>;
+    attributes.Extra = 'x';
+    delete attributes.Zip;
+
+    expect(rulesFor(p)).toEqual(['Extra:unknown_field', 'Zip:missing_field']);
+  });
+
+  it('flags codes outside a domain', () => {
+    expect(rulesFor(payload({ areaCode: 'NC-001' }))).toEqual(['Area:domain']);
+  });
+
+  it('flags missing answers to required questions', () => {
+    expect(rulesFor(payload({ hasLicense: true, wrcId: undefined }))).toEqual(['License:required']);
+    expect(rulesFor(payload({ usedHookAndLine: false, gearCode: undefined }))).toEqual(['Gear:required']);
+    expect(rulesFor(payload({ wantTextConfirmation: true, phone: undefined }))).toEqual(['Phone:required']);
+  });
+
+  it('flags answers to questions that were not asked', () => {
+    const p = payload();
+    p.attributes.Gear = '3';
+
+    expect(rulesFor(p)).toEqual(['Gear:not_relevant']);
+  });
+
+  it('flags wrong types and over-length strings', () => {
+    const p = payload();
+    (p.attributes as unknown as Record<string, unknown>).DateH = '2026-01-15';
+    p.attributes.Zip = '27601-1234-5678';
+    p.attributes.GlobalID = 'not-a-guid';
+
+    expect(rulesFor(p)).toEqual(['Zip:length', 'DateH:type', 'GlobalID:type']);
+  });
+
+  it('flags malformed geometry', () => {
+    const p = payload();
+    p.geometry.x = NaN;
+
+    expect(rulesFor(p)).toEqual(['geometry:geometry']);
+  });
+});
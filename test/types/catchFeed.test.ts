@@ -0,0 +1,35 @@
+import { countActiveFeedFilters, feedFilterKey } from '../../src/types/catchFeed';
+
+describe('feedFilterKey', () => {
+  it('is empty for the unfiltered feed', () => {
+    expect(feedFilterKey({})).toBe('');
+    expect(feedFilterKey({ species: [], hasPhoto: false })).toBe('');
+  });
+
+  it('does not depend on species order', () => {
+    expect(feedFilterKey({ species: ['flounder', 'redDrum'] })).toBe(
+      feedFilterKey({ species: ['redDrum', 'flounder'] })
+    );
+  });
+
+  it('differs for every field', () => {
+    const keys = [
+      { species: ['flounder' as const] },
+      { areaCode: '5' },
+      { region: 'PAM' },
+      { dateFrom: '2026-01-01' },
+      { dateTo: '2026-01-31' },
+      { hasPhoto: true },
+      { reportType: 'catch_log' as const },
+    ].map(feedFilterKey);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+});
+
+describe('countActiveFeedFilters', () => {
+  it('counts a date window once', () => {
+    expect(countActiveFeedFilters({})).toBe(0);
+    expect(countActiveFeedFilters({ dateFrom: '2026-01-01', dateTo: '2026-01-31' })).toBe(1);
+    expect(countActiveFeedFilters({ species: ['redDrum'], region: 'OBX', hasPhoto: true })).toBe(3);
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  threadComments,
+  replyParentId,
+  splitMentionSegments,
+  findMentions,
+  activeMentionQuery,
+  completeMention,
+} from '../../src/utils/commentThreads';
+import { CatchComment } from '../../src/types/catchFeed';
+
+const makeComment = (id: string, parentId: string | null = null): CatchComment => ({
+  id,
+  reportId: 'r-1',
+  userId: `user-${id}`,
+  anglerName: 'Jane D.',
+  text: 'Nice fish',
+  createdAt: '2026-01-15T12:00:00Z',
+  isOwn: false,
+  parentId,
+  mentions: [],
+});
+
+const john = { userId: 'u-john', displayName: 'John' };
+const johnD = { userId: 'u-john-d', displayName: 'John D.' };
+
+describe('threadComments', () => {
+  it('nests replies under their parent in order', () => {
+    const threads = threadComments([
+      makeComment('a'),
+      makeComment('b'),
+      makeComment('a1', 'a'),
+      makeComment('a2', 'a'),
+    ]);
+
+    expect(threads.map(t => t.comment.id)).toEqual(['a', 'b']);
+    expect(threads[0].replies.map(r => r.id)).toEqual(['a1', 'a2']);
+    expect(threads[1].replies).toEqual([]);
+  });
+
+  it('shows replies with a missing parent as top-level comments', () => {
+    const threads = threadComments([makeComment('x1', 'gone')]);
+    expect(threads.map(t => t.comment.id)).toEqual(['x1']);
+  });
+});
+
+describe('replyParentId', () => {
+  it('keeps threads one level deep', () => {
+    expect(replyParentId(makeComment('a'))).toBe('a');
+    expect(replyParentId(makeComment('a1', 'a'))).toBe('a');
+  });
+});
+
+describe('splitMentionSegments', () => {
+  it('links mentions and keeps the surrounding text', () => {
+    expect(splitMentionSegments('Great one @John D., where?', [johnD])).toEqual([
+      { text: 'Great one ' },
+      { text: '@John D.', mention: johnD },
+      { text: ', where?' },
+    ]);
+  });
+
+  it('prefers the longest matching name', () => {
+    const segments = splitMentionSegments('@John D. and @John', [john, johnD]);
+    expect(segments.filter(s => s.mention).map(s => s.mention!.userId)).toEqual(['u-john-d', 'u-john']);
+  });
+
+  it('ignores partial names and email-like text', () => {
+    expect(splitMentionSegments('@Johnny and me@John', [john])).toEqual([
+      { text: '@Johnny and me@John' },
+    ]);
+  });
+});
+
+describe('findMentions', () => {
+  it('returns each mentioned angler once', () => {
+    expect(findMentions('@John D. @John D. @Sam', [johnD, john])).toEqual([johnD]);
+  });
+});
+
+describe('activeMentionQuery / completeMention', () => {
+  it('reads the name being typed after a trailing @', () => {
+    expect(activeMentionQuery('Nice one @Jo')).toBe('Jo');
+    expect(activeMentionQuery('@')).toBe('');
+    expect(activeMentionQuery('Nice one')).toBeNull();
+    expect(activeMentionQuery('me@Jo')).toBeNull();
+  });
+
+  it('completes the trailing mention', () => {
+    expect(completeMention('Nice one @Jo', johnD)).toBe('Nice one @John D. ');
+  });
+});
@@ -0,0 +1,261 @@
+import { checkHarvestRegulations } from '../../src/utils/harvestRegulations';
+import { makeHarvestInput, makeFishSpecies, makeRegulationRecord } from '../factories';
+
+const redDrum = makeFishSpecies();
+
+describe('checkHarvestRegulations', () => {
+  it('returns no warnings for a report within the rules', () => {
+    const input = makeHarvestInput({
+      redDrumCount: 1,
+      fishEntries: [{ species: 'Red Drum', count: 1, lengths: ['22'] }],
+    });
+
+    expect(checkHarvestRegulations(input, [redDrum])).toEqual([]);
+  });
+
+  it('skips species without regulation data', () => {
+    const input = makeHarvestInput({ redDrumCount: 5 });
+    expect(checkHarvestRegulations(input, [])).toEqual([]);
+  });
+
+  describe('bag limit', () => {
+    it('warns when the count exceeds the per-person bag limit', () => {
+      const warnings = checkHarvestRegulations(makeHarvestInput({ redDrumCount: 2 }), [redDrum]);
+
+      expect(warnings).toEqual([
+        expect.objectContaining({
+          rule: 'bag_limit',
+          speciesId: 'red_drum',
+          field: 'redDrumCount',
+          message: '2 Red Drum is over the bag limit of 1 per person',
+        }),
+      ]);
+    });
+
+    it('multiplies the bag limit by familyCount', () => {
+      const family = makeHarvestInput({ redDrumCount: 3, reportingFor: 'family', familyCount: 3 });
+      expect(checkHarvestRegulations(family, [redDrum])).toEqual([]);
+
+      const over = checkHarvestRegulations({ ...family, redDrumCount: 4 }, [redDrum]);
+      expect(over[0].message).toBe('4 Red Drum is over the bag limit of 3 (1 per person for 3 people)');
+    });
+
+    it('uses the most permissive limit when several species share a DMF count', () => {
+      const flounder = [
+        makeFishSpecies({ name: 'Southern Flounder', commonNames: [], regulations: { sizeLimit: { min: 15, max: null, unit: 'in' }, bagLimit: 1, openSeasons: null } }),
+        makeFishSpecies({ name: 'Summer Flounder', commonNames: ['Fluke'], regulations: { sizeLimit: { min: 15, max: null, unit: 'in' }, bagLimit: 4, openSeasons: null } }),
+      ];
+      const input = makeHarvestInput({ redDrumCount: 0, flounderCount: 3 });
+
+      expect(checkHarvestRegulations(input, flounder)).toEqual([]);
+    });
+  });
+
+  describe('size limit', () => {
+    it('warns for lengths outside the slot', () => {
+      const input = makeHarvestInput({
+        redDrumCount: 1,
+        fishEntries: [{ species: 'Red Drum', count: 1, lengths: ['16'] }],
+      });
+
+      expect(checkHarvestRegulations(input, [redDrum])).toEqual([
+        expect.objectContaining({
+          rule: 'size_limit',
+          field: 'fishEntries',
+          message: 'Red Drum at 16" is outside the 18"–27" slot',
+        }),
+      ]);
+    });
+
+    it('lists every out-of-slot fish and ignores blank lengths', () => {
+      const input = makeHarvestInput({
+        redDrumCount: 1,
+        fishEntries: [{ species: 'Red Drum', count: 3, lengths: ['16', '', '30'] }],
+      });
+      const warning = checkHarvestRegulations(input, [redDrum]).find(w => w.rule === 'size_limit');
+
+      expect(warning?.message).toBe('2 Red Drum (16", 30") are outside the 18"–27" slot');
+    });
+
+    it('converts centimetre limits to inches', () => {
+      const metric = makeFishSpecies({
+        regulations: { sizeLimit: { min: 45.72, max: null, unit: 'cm' }, bagLimit: null, openSeasons: null },
+      });
+      const input = makeHarvestInput({
+        fishEntries: [{ species: 'Red Drum', count: 1, lengths: ['17'] }],
+      });
+
+      expect(checkHarvestRegulations(input, [metric])[0].message).toBe(
+        'Red Drum at 17" is outside the 18" minimum size'
+      );
+    });
+  });
+
+  describe('season', () => {
+    const stripedBass = makeFishSpecies({
+      name: 'Striped Bass',
+      commonNames: ['Rockfish'],
+      regulations: {
+        sizeLimit: { min: null, max: null, unit: 'in' },
+        bagLimit: null,
+        openSeasons: [{ from: '10-01', to: '04-30' }],
+      },
+    });
+
+    it('warns when the harvest date is outside every open season', () => {
+      const input = makeHarvestInput({
+        redDrumCount: 0,
+        stripedBassCount: 1,
+        harvestDate: new Date(2026, 6, 4),
+      });
+
+      expect(checkHarvestRegulations(input, [stripedBass])).toEqual([
+        expect.objectContaining({
+          rule: 'closed_season',
+          field: 'harvestDate',
+          message: 'Striped Bass is out of season on Jul 4',
+        }),
+      ]);
+    });
+
+    it('handles seasons that wrap the new year', () => {
+      const input = makeHarvestInput({
+        redDrumCount: 0,
+        stripedBassCount: 1,
+        harvestDate: new Date(2026, 0, 15),
+      });
+
+      expect(checkHarvestRegulations(input, [stripedBass])).toEqual([]);
+    });
+  });
+
+  describe('closure bulletins', () => {
+    const closed = makeFishSpecies({
+      harvestStatus: 'closed',
+      harvestStatusNote: 'Proclamation FF-12-2026',
+      harvestStatusEffectiveDate: '2026-01-10',
+      harvestStatusExpirationDate: '2026-02-01',
+    });
+
+    it('warns when the harvest date falls inside the closure', () => {
+      const warnings = checkHarvestRegulations(
+        makeHarvestInput({ harvestDate: new Date(2026, 0, 15) }),
+        [closed]
+      );
+
+      expect(warnings).toEqual([
+        expect.objectContaining({
+          rule: 'closure',
+          message: 'Red Drum harvest is closed on Jan 15: Proclamation FF-12-2026',
+        }),
+      ]);
+    });
+
+    it('ignores closures that are not in effect on the harvest date', () => {
+      const before = makeHarvestInput({ harvestDate: new Date(2026, 0, 5) });
+      const after = makeHarvestInput({ harvestDate: new Date(2026, 1, 2) });
+
+      expect(checkHarvestRegulations(before, [closed])).toEqual([]);
+      expect(checkHarvestRegulations(after, [closed])).toEqual([]);
+    });
+
+    it('describes catch-and-release closures', () => {
+      const catchAndRelease = makeFishSpecies({ harvestStatus: 'catch_and_release' });
+      const warnings = checkHarvestRegulations(
+        makeHarvestInput({ harvestDate: new Date(2026, 0, 15) }),
+        [catchAndRelease]
+      );
+
+      expect(warnings[0].message).toBe('Red Drum is catch-and-release only on Jan 15');
+    });
+  });
+});
+
+describe('checkHarvestRegulations with regulation records', () => {
+  const flounder = makeFishSpecies({
+    id: 'flounder-1',
+    name: 'Flounder',
+    commonNames: [],
+    regulations: {
+      sizeLimit: { min: 15, max: null, unit: 'in' },
+      bagLimit: 4,
+      openSeasons: [{ from: '09-01', to: '10-31' }],
+    },
+  });
+
+  const records = [
+    makeRegulationRecord({
+      speciesId: 'flounder-1',
+      regulations: {
+        sizeLimit: { min: 15, max: null, unit: 'in' },
+        bagLimit: 1,
+        openSeasons: [{ from: 'Sep 1', to: 'Sep 30' }],
+      },
+      effectiveDate: '2024-01-01',
+      expirationDate: '2025-12-31',
+    }),
+    makeRegulationRecord({
+      speciesId: 'flounder-1',
+      regulations: flounder.regulations,
+      effectiveDate: '2026-01-01',
+    }),
+  ];
+
+  const flounderReport = (harvestDate: Date, count = 2) =>
+    makeHarvestInput({ redDrumCount: 0, flounderCount: count, harvestDate });
+
+  it('checks a back-filled report against the rules on its harvest date', () => {
+    const warnings = checkHarvestRegulations(flounderReport(new Date(2025, 8, 20)), [flounder], records);
+
+    expect(warnings).toEqual([
+      expect.objectContaining({ rule: 'bag_limit', message: '2 Flounder is over the bag limit of 1 per person' }),
+    ]);
+  });
+
+  it('uses the newer rules for later harvest dates', () => {
+    expect(checkHarvestRegulations(flounderReport(new Date(2026, 8, 20)), [flounder], records)).toEqual([]);
+  });
+
+  it('reads seasons stored as month names', () => {
+    const warnings = checkHarvestRegulations(flounderReport(new Date(2025, 9, 12), 1), [flounder], records);
+    expect(warnings.map(w => w.rule)).toEqual(['closed_season']);
+  });
+
+  it('falls back to current rules when no record covers the date', () => {
+    const warnings = checkHarvestRegulations(flounderReport(new Date(2023, 8, 20), 2), [flounder], records);
+    expect(warnings).toEqual([]);
+  });
+
+  it('applies closures that were in force on the harvest date', () => {
+    const closure = makeRegulationRecord({
+      speciesId: 'flounder-1',
+      regulations: null,
+      harvestStatus: 'closed',
+      note: 'Flounder closure',
+      effectiveDate: '2026-09-15',
+      expirationDate: '2026-09-30',
+      source: 'bulletin',
+    });
+
+    const inside = checkHarvestRegulations(flounderReport(new Date(2026, 8, 20), 1), [flounder], [...records, closure]);
+    const after = checkHarvestRegulations(flounderReport(new Date(2026, 9, 2), 1), [flounder], [...records, closure]);
+
+    expect(inside).toEqual([
+      expect.objectContaining({ rule: 'closure', message: 'Flounder harvest is closed on Sep 20: Flounder closure' }),
+    ]);
+    expect(after).toEqual([]);
+  });
+
+  it('applies area-specific rules only in their area', () => {
+    const local = makeRegulationRecord({
+      speciesId: 'flounder-1',
+      regulations: { ...flounder.regulations, bagLimit: 1 },
+      areaCodes: ['NC-010'],
+      effectiveDate: '2026-01-01',
+    });
+    const input = { ...flounderReport(new Date(2026, 8, 20)), areaCode: 'NC-010' };
+
+    expect(checkHarvestRegulations(input, [flounder], [...records, local])).toHaveLength(1);
+    expect(checkHarvestRegulations({ ...input, areaCode: 'NC-001' }, [flounder], [...records, local])).toEqual([]);
+  });
+});
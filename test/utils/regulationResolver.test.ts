@@ -0,0 +1,133 @@
+import {
+  resolveRegulations,
+  isRecordInForce,
+  appliesToArea,
+  toDateKey,
+} from '../../src/utils/regulationResolver';
+import { makeRegulationRecord } from '../factories';
+
+const flounderRules = (bagLimit: number) => ({
+  sizeLimit: { min: 15, max: null, unit: 'in' as const },
+  bagLimit,
+  openSeasons: [{ from: '09-01', to: '09-30' }],
+});
+
+describe('regulationResolver', () => {
+  describe('toDateKey', () => {
+    it('uses the local calendar date', () => {
+      expect(toDateKey(new Date(2025, 9, 12, 23, 30))).toBe('2025-10-12');
+    });
+  });
+
+  describe('isRecordInForce', () => {
+    const record = makeRegulationRecord({ effectiveDate: '2025-08-16', expirationDate: '2025-09-30' });
+
+    it('includes both the effective and expiration dates', () => {
+      expect(isRecordInForce(record, '2025-08-16')).toBe(true);
+      expect(isRecordInForce(record, '2025-09-30')).toBe(true);
+    });
+
+    it('excludes dates outside the window', () => {
+      expect(isRecordInForce(record, '2025-08-15')).toBe(false);
+      expect(isRecordInForce(record, '2025-10-01')).toBe(false);
+    });
+
+    it('treats a missing expiration date as still current', () => {
+      const current = makeRegulationRecord({ effectiveDate: '2025-08-16', expirationDate: null });
+      expect(isRecordInForce(current, '2030-01-01')).toBe(true);
+    });
+  });
+
+  describe('appliesToArea', () => {
+    it('applies statewide records everywhere', () => {
+      const statewide = makeRegulationRecord({ areaCodes: [] });
+      expect(appliesToArea(statewide, 'NC-001')).toBe(true);
+      expect(appliesToArea(statewide)).toBe(true);
+    });
+
+    it('limits area records to their areas', () => {
+      const local = makeRegulationRecord({ areaCodes: ['NC-010'] });
+      expect(appliesToArea(local, 'NC-010')).toBe(true);
+      expect(appliesToArea(local, 'NC-001')).toBe(false);
+      expect(appliesToArea(local)).toBe(false);
+    });
+  });
+
+  describe('resolveRegulations', () => {
+    const records = [
+      makeRegulationRecord({
+        id: '2024',
+        speciesId: 'flounder',
+        regulations: flounderRules(1),
+        effectiveDate: '2024-01-01',
+        expirationDate: '2025-12-31',
+      }),
+      makeRegulationRecord({
+        id: '2026',
+        speciesId: 'flounder',
+        regulations: flounderRules(4),
+        effectiveDate: '2026-01-01',
+      }),
+    ];
+
+    it('returns the rules in force on the harvest date', () => {
+      const lastOctober = resolveRegulations(records, 'flounder', new Date(2025, 9, 12));
+      const today = resolveRegulations(records, 'flounder', new Date(2026, 9, 12));
+
+      expect(lastOctober?.rulesRecord?.id).toBe('2024');
+      expect(lastOctober?.regulations?.bagLimit).toBe(1);
+      expect(today?.rulesRecord?.id).toBe('2026');
+      expect(today?.regulations?.bagLimit).toBe(4);
+    });
+
+    it('returns undefined when no record covers the date or species', () => {
+      expect(resolveRegulations(records, 'flounder', new Date(2023, 5, 1))).toBeUndefined();
+      expect(resolveRegulations(records, 'red-drum', new Date(2025, 5, 1))).toBeUndefined();
+    });
+
+    it('prefers the most recently effective record when windows overlap', () => {
+      const proclamation = makeRegulationRecord({
+        id: 'proclamation',
+        speciesId: 'flounder',
+        regulations: flounderRules(2),
+        effectiveDate: '2025-09-15',
+      });
+
+      const resolved = resolveRegulations([...records, proclamation], 'flounder', new Date(2025, 9, 12));
+      expect(resolved?.rulesRecord?.id).toBe('proclamation');
+    });
+
+    it('prefers area-specific rules over statewide rules in that area', () => {
+      const local = makeRegulationRecord({
+        id: 'local',
+        speciesId: 'flounder',
+        regulations: flounderRules(0),
+        areaCodes: ['NC-010'],
+        effectiveDate: '2020-01-01',
+      });
+      const all = [...records, local];
+
+      expect(resolveRegulations(all, 'flounder', new Date(2025, 9, 12), 'NC-010')?.rulesRecord?.id).toBe('local');
+      expect(resolveRegulations(all, 'flounder', new Date(2025, 9, 12), 'NC-001')?.rulesRecord?.id).toBe('2024');
+    });
+
+    it('layers a closure over the rules without replacing them', () => {
+      const closure = makeRegulationRecord({
+        id: 'closure',
+        speciesId: 'flounder',
+        regulations: null,
+        harvestStatus: 'closed',
+        note: 'Flounder closure',
+        effectiveDate: '2025-10-01',
+        expirationDate: '2025-10-31',
+        source: 'bulletin',
+      });
+
+      const resolved = resolveRegulations([...records, closure], 'flounder', new Date(2025, 9, 12));
+
+      expect(resolved?.rulesRecord?.id).toBe('2024');
+      expect(resolved?.harvestStatus).toBe('closed');
+      expect(resolved?.statusRecord?.id).toBe('closure');
+    });
+  });
+});
@@ -11,7 +11,7 @@ import {
   getFieldError,
   hasFieldError,
 } from '../../src/utils/validation';
-import { makeHarvestInput } from '../factories';
+import { makeHarvestInput, makeFishSpecies } from '../factories';
 
 describe('validateHarvestReport', () => {
   it('accepts a complete valid report (licensed, hook-and-line, self)', () => {
@@ -264,6 +264,22 @@ describe('validateHarvestReport', () => {
     expect(result.isValid).toBe(false);
     expect(result.errors.length).toBeGreaterThanOrEqual(3);
   });
+
+  // --- Regulation warnings ---
+  it('omits warnings when no species regulations are supplied', () => {
+    const result = validateHarvestReport(makeHarvestInput({ redDrumCount: 5 }));
+    expect(result.warnings).toBeUndefined();
+  });
+
+  it('adds regulation warnings without affecting isValid', () => {
+    const input = makeHarvestInput({ redDrumCount: 5 });
+    const result = validateHarvestReport(input, { species: [makeFishSpecies()] });
+
+    expect(result.isValid).toBe(true);
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ rule: 'bag_limit', speciesId: 'red_drum' }),
+    ]);
+  });
 });
 
 describe('isValidPhone', () => {